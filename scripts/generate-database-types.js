@@ -0,0 +1,821 @@
+#!/usr/bin/env node
+/**
+ * Database type generator
+ *
+ * Replays supabase/migrations in order and writes src/types/database.ts: the
+ * Database type the Supabase clients are parameterised with, in the same shape
+ * `supabase gen types typescript` produces (Row / Insert / Update / Relationships,
+ * Functions, Enums). Text columns constrained by CHECK (col IN (...)) are typed as
+ * literal unions as well.
+ *
+ * It reads the migrations rather than a running database so it works without
+ * Docker, and so the committed types can be checked against the SQL in CI:
+ *
+ *   npm run db:types         regenerate src/types/database.ts
+ *   npm run db:types:check   exit 1 when src/types/database.ts is out of date
+ *
+ * Function bodies are never parsed; DO blocks are, since migrations use them for
+ * conditional DDL. Views are not typed. RPCs that exist on the hosted project but in
+ * no migration are declared in REMOTE_FUNCTIONS below.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const ROOT = path.resolve(__dirname, '..');
+const MIGRATIONS_DIR = path.join(ROOT, 'supabase', 'migrations');
+const OUTPUT_FILE = path.join(ROOT, 'src', 'types', 'database.ts');
+
+// ============================================================================
+// SQL TOKENIZING
+// ============================================================================
+
+// Split a script into statements on top-level semicolons, skipping comments,
+// quoted strings and dollar-quoted bodies
+function splitStatements(sql) {
+  const statements = [];
+  let current = '';
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+
+    if (ch === '-' && sql[i + 1] === '-') {
+      const newline = sql.indexOf('\n', i);
+      i = newline === -1 ? sql.length : newline;
+      continue;
+    }
+    if (ch === '/' && sql[i + 1] === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+      continue;
+    }
+    if (ch === "'" || ch === '"') {
+      const end = findQuoteEnd(sql, i);
+      current += sql.slice(i, end);
+      i = end;
+      continue;
+    }
+    if (ch === '$') {
+      const tag = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i));
+      if (tag) {
+        const close = sql.indexOf(tag[0], i + tag[0].length);
+        const end = close === -1 ? sql.length : close + tag[0].length;
+        current += sql.slice(i, end);
+        i = end;
+        continue;
+      }
+    }
+    if (ch === ';') {
+      if (current.trim()) statements.push(current.trim());
+      current = '';
+      i++;
+      continue;
+    }
+
+    current += ch;
+    i++;
+  }
+
+  if (current.trim()) statements.push(current.trim());
+  return statements;
+}
+
+function findQuoteEnd(sql, start) {
+  const quote = sql[start];
+  let i = start + 1;
+  while (i < sql.length) {
+    if (sql[i] === quote) {
+      if (sql[i + 1] === quote) {
+        i += 2;
+        continue;
+      }
+      return i + 1;
+    }
+    i++;
+  }
+  return sql.length;
+}
+
+// Same length as the input with quoted, dollar-quoted and parenthesised content
+// blanked out, so keyword searches only see the top level
+function topLevel(text) {
+  let out = '';
+  let depth = 0;
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === "'" || ch === '"') {
+      const end = findQuoteEnd(text, i);
+      out += depth === 0 && ch === '"' ? text.slice(i, end) : ' '.repeat(end - i);
+      i = end;
+      continue;
+    }
+    if (ch === '$') {
+      const tag = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.exec(text.slice(i));
+      if (tag) {
+        const close = text.indexOf(tag[0], i + tag[0].length);
+        const end = close === -1 ? text.length : close + tag[0].length;
+        out += ' '.repeat(end - i);
+        i = end;
+        continue;
+      }
+    }
+    if (ch === '(') {
+      out += depth === 0 ? '(' : ' ';
+      depth++;
+    } else if (ch === ')') {
+      depth--;
+      out += depth === 0 ? ')' : ' ';
+    } else {
+      out += depth === 0 ? ch : ' ';
+    }
+    i++;
+  }
+
+  return out;
+}
+
+function splitTopLevel(text, separator = ',') {
+  const flat = topLevel(text);
+  const parts = [];
+  let start = 0;
+
+  for (let i = 0; i < flat.length; i++) {
+    if (flat[i] === separator) {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start).trim());
+  return parts.filter(Boolean);
+}
+
+// Content of the parenthesised group opening at or after `from`
+function parenGroup(text, from) {
+  const open = text.indexOf('(', from);
+  if (open === -1) return null;
+
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "'" || ch === '"') {
+      i = findQuoteEnd(text, i) - 1;
+      continue;
+    }
+    if (ch === '(') depth++;
+    if (ch === ')') {
+      depth--;
+      if (depth === 0) return { inner: text.slice(open + 1, i), start: open, end: i + 1 };
+    }
+  }
+  return null;
+}
+
+function identifier(name) {
+  const bare = name.trim().replace(/"/g, '');
+  const parts = bare.split('.');
+  return { schema: parts.length > 1 ? parts[0].toLowerCase() : 'public', name: parts[parts.length - 1] };
+}
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+const TYPE_ALIASES = {
+  int: 'int4', integer: 'int4', int4: 'int4', serial: 'int4',
+  bigint: 'int8', int8: 'int8', bigserial: 'int8',
+  smallint: 'int2', int2: 'int2', smallserial: 'int2',
+  float: 'float8', float8: 'float8', 'double precision': 'float8',
+  real: 'float4', float4: 'float4',
+  decimal: 'numeric', numeric: 'numeric',
+  bool: 'bool', boolean: 'bool',
+  timestamptz: 'timestamptz', 'timestamp with time zone': 'timestamptz',
+  timestamp: 'timestamp', 'timestamp without time zone': 'timestamp',
+  time: 'time', 'time without time zone': 'time', timetz: 'timetz', 'time with time zone': 'timetz',
+  varchar: 'varchar', 'character varying': 'varchar',
+  char: 'bpchar', character: 'bpchar', bpchar: 'bpchar',
+};
+
+const TS_TYPES = {
+  int2: 'number', int4: 'number', int8: 'number', float4: 'number', float8: 'number', numeric: 'number',
+  bool: 'boolean',
+  text: 'string', varchar: 'string', bpchar: 'string', citext: 'string', uuid: 'string',
+  date: 'string', time: 'string', timetz: 'string', timestamp: 'string', timestamptz: 'string',
+  interval: 'string', inet: 'string', cidr: 'string', macaddr: 'string', bytea: 'string',
+  json: 'Json', jsonb: 'Json',
+  void: 'undefined',
+  record: 'Record<string, unknown>',
+};
+
+const SERIAL_TYPES = new Set(['serial', 'bigserial', 'smallserial']);
+
+// "DECIMAL(3,2)" -> { base: 'numeric', array: false }, "TEXT[]" -> { base: 'text', array: true }
+function normalizeType(raw) {
+  let type = raw.trim().toLowerCase().replace(/"/g, '').replace(/\s+/g, ' ');
+  let array = false;
+
+  if (/\[\s*\d*\s*\]$/.test(type) || /\sarray$/.test(type) || type === 'array') {
+    array = true;
+    type = type.replace(/(\[\s*\d*\s*\])+$/, '').replace(/\s?array$/, '').trim();
+  }
+  type = type.replace(/\s*\([^)]*\)/g, '').replace(/^public\./, '').trim();
+  if (type === '') type = 'text'; // bare ARRAY in the production snapshot style
+
+  return { base: TYPE_ALIASES[type] || type, serial: SERIAL_TYPES.has(type), array };
+}
+
+function tsType(type, schema) {
+  let ts;
+  if (TS_TYPES[type.base]) ts = TS_TYPES[type.base];
+  else if (schema.enums.has(type.base)) ts = `Database["public"]["Enums"]["${type.base}"]`;
+  else if (schema.tables.has(type.base)) ts = `Database["public"]["Tables"]["${type.base}"]["Row"]`;
+  else ts = 'unknown';
+
+  if (!type.array) return ts;
+  return ts.includes(' ') ? `(${ts})[]` : `${ts}[]`;
+}
+
+// ============================================================================
+// SCHEMA STATE
+// ============================================================================
+
+function createSchema() {
+  return {
+    tables: new Map(), // name -> { columns: Map, relationships: [] }
+    enums: new Map(), // name -> string[]
+    functions: new Map(), // name -> Map(signatureKey -> definition)
+  };
+}
+
+// Values of CHECK (col IN ('a', 'b')) or CHECK (col = ANY (ARRAY['a'::text, ...]))
+function parseCheckValues(expression) {
+  const match = /^\s*\(?\s*"?(\w+)"?(?:\s*::\s*\w+)?\s*(?:IN\s*\(|=\s*ANY\s*\(\s*\(?\s*ARRAY\s*\[)([\s\S]*?)[\])]/i.exec(expression);
+  if (!match) return null;
+
+  const remainder = expression.slice(match.index + match[0].length);
+  if (/\b(AND|OR)\b/i.test(topLevel(remainder))) return null;
+
+  const values = [];
+  const valuePattern = /'((?:[^']|'')*)'(?:\s*::\s*[\w ]+)?/g;
+  let value;
+  while ((value = valuePattern.exec(match[2]))) values.push(value[1].replace(/''/g, "'"));
+
+  return values.length > 0 ? { column: match[1], values } : null;
+}
+
+function parseColumn(definition, schema) {
+  const match = /^("[^"]+"|\w+)\s+([\s\S]+)$/.exec(definition.trim());
+  if (!match) return null;
+
+  const name = match[1].replace(/"/g, '');
+  const rest = match[2];
+  const flat = topLevel(rest);
+  const keyword = /\s(NOT\s+NULL|NULL|DEFAULT|PRIMARY\s+KEY|REFERENCES|UNIQUE|CHECK|CONSTRAINT|GENERATED|COLLATE)\b/i.exec(' ' + flat);
+  const typeText = keyword ? rest.slice(0, keyword.index) : rest;
+  const modifiers = keyword ? flat.slice(keyword.index) : '';
+  const type = normalizeType(typeText);
+
+  const column = {
+    name,
+    type,
+    notNull: /\bNOT\s+NULL\b/i.test(modifiers) || /\bPRIMARY\s+KEY\b/i.test(modifiers) || type.serial,
+    hasDefault: /\bDEFAULT\b/i.test(modifiers) || type.serial || /GENERATED\s+BY\s+DEFAULT/i.test(modifiers),
+    generated: /GENERATED\s+ALWAYS/i.test(modifiers),
+    primaryKey: /\bPRIMARY\s+KEY\b/i.test(modifiers),
+    unique: /\bUNIQUE\b/i.test(modifiers),
+    values: null,
+  };
+
+  const checkIndex = flat.search(/\bCHECK\s*\(/i);
+  if (checkIndex !== -1) {
+    const group = parenGroup(rest, checkIndex);
+    const check = group && parseCheckValues(group.inner);
+    if (check && check.column === name) column.values = check.values;
+  }
+
+  const references = /\bREFERENCES\s+("?[\w.]+"?)\s*(?:\(\s*"?(\w+)"?\s*\))?/i.exec(rest);
+  if (references) {
+    column.references = { table: identifier(references[1]), column: references[2] || null };
+  }
+
+  return column;
+}
+
+function primaryKeyOf(schema, tableName) {
+  const table = schema.tables.get(tableName);
+  if (!table) return 'id';
+  const pk = [...table.columns.values()].find(column => column.primaryKey);
+  return pk ? pk.name : 'id';
+}
+
+function addRelationship(schema, table, tableName, columns, reference) {
+  if (reference.table.schema !== 'public') return;
+  const single = columns.length === 1 ? table.columns.get(columns[0]) : null;
+
+  table.relationships = table.relationships.filter(rel => rel.columns.join() !== columns.join());
+  table.relationships.push({
+    foreignKeyName: `${tableName}_${columns.join('_')}_fkey`,
+    columns,
+    isOneToOne: Boolean(single && (single.unique || single.primaryKey)),
+    referencedRelation: reference.table.name,
+    referencedColumns: reference.columns || [primaryKeyOf(schema, reference.table.name)],
+  });
+}
+
+function applyTableConstraint(schema, tableName, table, constraint) {
+  const flat = topLevel(constraint);
+
+  const primaryKey = /\bPRIMARY\s+KEY\s*\(/i.exec(flat);
+  if (primaryKey) {
+    const group = parenGroup(constraint, primaryKey.index);
+    group.inner.split(',').map(name => name.trim().replace(/"/g, '')).forEach(name => {
+      const column = table.columns.get(name);
+      if (column) {
+        column.primaryKey = true;
+        column.notNull = true;
+      }
+    });
+    return;
+  }
+
+  const foreignKey = /\bFOREIGN\s+KEY\s*\(/i.exec(flat);
+  if (foreignKey) {
+    const group = parenGroup(constraint, foreignKey.index);
+    const columns = group.inner.split(',').map(name => name.trim().replace(/"/g, ''));
+    const references = /\bREFERENCES\s+("?[\w.]+"?)\s*(?:\(([^)]*)\))?/i.exec(constraint.slice(group.end));
+    if (references) {
+      addRelationship(schema, table, tableName, columns, {
+        table: identifier(references[1]),
+        columns: references[2] ? references[2].split(',').map(name => name.trim().replace(/"/g, '')) : null,
+      });
+    }
+    return;
+  }
+
+  const unique = /\bUNIQUE\s*\(/i.exec(flat);
+  if (unique) {
+    const group = parenGroup(constraint, unique.index);
+    const columns = group.inner.split(',').map(name => name.trim().replace(/"/g, ''));
+    if (columns.length === 1 && table.columns.has(columns[0])) table.columns.get(columns[0]).unique = true;
+    return;
+  }
+
+  const check = /\bCHECK\s*\(/i.exec(flat);
+  if (check) {
+    const group = parenGroup(constraint, check.index);
+    const values = group && parseCheckValues(group.inner);
+    if (values && table.columns.has(values.column)) table.columns.get(values.column).values = values.values;
+  }
+}
+
+function addColumn(schema, tableName, table, definition) {
+  const column = parseColumn(definition, schema);
+  if (!column) return;
+
+  table.columns.set(column.name, column);
+  if (column.references) {
+    addRelationship(schema, table, tableName, [column.name], {
+      table: column.references.table,
+      columns: column.references.column ? [column.references.column] : null,
+    });
+  }
+}
+
+// ============================================================================
+// STATEMENTS
+// ============================================================================
+
+function createTable(schema, statement) {
+  const match = /^CREATE\s+(?:UNLOGGED\s+)?TABLE\s+(IF\s+NOT\s+EXISTS\s+)?("?[\w.]+"?)\s*\(/i.exec(statement);
+  if (!match) return;
+
+  const { schema: tableSchema, name } = identifier(match[2]);
+  if (tableSchema !== 'public') return;
+  if (match[1] && schema.tables.has(name)) return;
+
+  const table = { columns: new Map(), relationships: [] };
+  schema.tables.set(name, table);
+
+  const group = parenGroup(statement, match.index + match[0].length - 1);
+  const constraints = [];
+
+  for (const definition of splitTopLevel(group.inner)) {
+    if (/^(CONSTRAINT|PRIMARY\s+KEY|FOREIGN\s+KEY|UNIQUE|CHECK|EXCLUDE|LIKE)\b/i.test(definition)) {
+      constraints.push(definition);
+    } else {
+      addColumn(schema, name, table, definition);
+    }
+  }
+
+  constraints.forEach(constraint => applyTableConstraint(schema, name, table, constraint));
+}
+
+function alterTable(schema, statement) {
+  const match = /^ALTER\s+TABLE\s+(?:IF\s+EXISTS\s+)?(?:ONLY\s+)?("?[\w.]+"?)\s+([\s\S]*)$/i.exec(statement);
+  if (!match) return;
+
+  const { schema: tableSchema, name } = identifier(match[1]);
+  const table = schema.tables.get(name);
+  if (tableSchema !== 'public' || !table) return;
+
+  const renameTable = /^RENAME\s+TO\s+("?\w+"?)/i.exec(match[2]);
+  if (renameTable) {
+    schema.tables.delete(name);
+    schema.tables.set(identifier(renameTable[1]).name, table);
+    return;
+  }
+
+  for (const action of splitTopLevel(match[2])) {
+    let m;
+    if ((m = /^ADD\s+(?:COLUMN\s+)?(IF\s+NOT\s+EXISTS\s+)?([\s\S]+)$/i.exec(action)) && !/^ADD\s+(CONSTRAINT|PRIMARY|FOREIGN|UNIQUE|CHECK)\b/i.test(action)) {
+      const columnName = /^("[^"]+"|\w+)/.exec(m[2])[1].replace(/"/g, '');
+      if (!(m[1] && table.columns.has(columnName))) addColumn(schema, name, table, m[2]);
+    } else if ((m = /^ADD\s+(CONSTRAINT\s+"?\w+"?\s+)?([\s\S]+)$/i.exec(action))) {
+      applyTableConstraint(schema, name, table, m[2]);
+    } else if ((m = /^DROP\s+(?:COLUMN\s+)?(?:IF\s+EXISTS\s+)?("?\w+"?)/i.exec(action)) && !/^DROP\s+CONSTRAINT\b/i.test(action)) {
+      const columnName = m[1].replace(/"/g, '');
+      table.columns.delete(columnName);
+      table.relationships = table.relationships.filter(rel => !rel.columns.includes(columnName));
+    } else if ((m = /^RENAME\s+(?:COLUMN\s+)?("?\w+"?)\s+TO\s+("?\w+"?)/i.exec(action))) {
+      const from = m[1].replace(/"/g, '');
+      const to = m[2].replace(/"/g, '');
+      const column = table.columns.get(from);
+      if (column) {
+        table.columns.delete(from);
+        table.columns.set(to, { ...column, name: to });
+      }
+    } else if ((m = /^ALTER\s+(?:COLUMN\s+)?("?\w+"?)\s+([\s\S]+)$/i.exec(action))) {
+      const column = table.columns.get(m[1].replace(/"/g, ''));
+      if (!column) continue;
+      const change = m[2];
+      if (/^SET\s+NOT\s+NULL/i.test(change)) column.notNull = true;
+      else if (/^DROP\s+NOT\s+NULL/i.test(change)) column.notNull = false;
+      else if (/^SET\s+DEFAULT/i.test(change)) column.hasDefault = true;
+      else if (/^DROP\s+DEFAULT/i.test(change)) column.hasDefault = false;
+      else if ((m = /^(?:SET\s+DATA\s+)?TYPE\s+([\s\S]+?)(?:\s+USING\b[\s\S]*)?$/i.exec(change))) column.type = normalizeType(m[1]);
+    }
+  }
+}
+
+function dropTable(schema, statement) {
+  const match = /^DROP\s+TABLE\s+(?:IF\s+EXISTS\s+)?([\s\S]+?)(?:\s+(?:CASCADE|RESTRICT))?$/i.exec(statement);
+  if (!match) return;
+  match[1].split(',').forEach(name => {
+    const table = identifier(name);
+    if (table.schema === 'public') schema.tables.delete(table.name);
+  });
+}
+
+function enumStatement(schema, statement) {
+  let m;
+  if ((m = /^CREATE\s+TYPE\s+("?[\w.]+"?)\s+AS\s+ENUM\s*\(([\s\S]*)\)$/i.exec(statement))) {
+    const values = [...m[2].matchAll(/'((?:[^']|'')*)'/g)].map(value => value[1].replace(/''/g, "'"));
+    schema.enums.set(identifier(m[1]).name, values);
+  } else if ((m = /^DROP\s+TYPE\s+(?:IF\s+EXISTS\s+)?([\s\S]+?)(?:\s+(?:CASCADE|RESTRICT))?$/i.exec(statement))) {
+    m[1].split(',').forEach(name => schema.enums.delete(identifier(name).name));
+  } else if ((m = /^ALTER\s+TYPE\s+("?[\w.]+"?)\s+ADD\s+VALUE\s+(?:IF\s+NOT\s+EXISTS\s+)?'((?:[^']|'')*)'(?:\s+(BEFORE|AFTER)\s+'((?:[^']|'')*)')?/i.exec(statement))) {
+    const values = schema.enums.get(identifier(m[1]).name);
+    if (!values || values.includes(m[2])) return;
+    const anchor = m[4] ? values.indexOf(m[4]) : -1;
+    if (anchor === -1) values.push(m[2]);
+    else values.splice(m[3].toUpperCase() === 'BEFORE' ? anchor : anchor + 1, 0, m[2]);
+  } else if ((m = /^ALTER\s+TYPE\s+("?[\w.]+"?)\s+RENAME\s+VALUE\s+'((?:[^']|'')*)'\s+TO\s+'((?:[^']|'')*)'/i.exec(statement))) {
+    const values = schema.enums.get(identifier(m[1]).name);
+    if (values && values.includes(m[2])) values[values.indexOf(m[2])] = m[3];
+  }
+}
+
+const ARG_MODES = /^(IN|OUT|INOUT|VARIADIC)\s+/i;
+
+// "p_limit INTEGER DEFAULT 20" -> { name, type, mode, optional }
+function parseArgument(text, schema) {
+  let rest = text.trim();
+  let mode = 'in';
+  const modeMatch = ARG_MODES.exec(rest);
+  if (modeMatch) {
+    mode = modeMatch[1].toLowerCase();
+    rest = rest.slice(modeMatch[0].length);
+  }
+
+  const flat = topLevel(rest);
+  const defaultMatch = /\s(DEFAULT\b|=)/i.exec(flat);
+  const optional = Boolean(defaultMatch);
+  if (defaultMatch) rest = rest.slice(0, defaultMatch.index);
+
+  // The first word is a name unless the whole thing is a type ("double precision", "text[]")
+  const words = rest.trim().split(/\s+/);
+  const unnamed = words.length === 1 || TYPE_ALIASES[rest.trim().toLowerCase()] || /^(double|character|timestamp|time)$/i.test(words[0]);
+  const name = unnamed ? '' : words[0].replace(/"/g, '');
+  const type = normalizeType(unnamed ? rest : words.slice(1).join(' '));
+
+  return { name, type, mode, optional };
+}
+
+function signatureKey(args) {
+  return args
+    .filter(arg => arg.mode !== 'out')
+    .map(arg => arg.type.base + (arg.type.array ? '[]' : ''))
+    .join(',');
+}
+
+function createFunction(schema, statement) {
+  const match = /^CREATE\s+(?:OR\s+REPLACE\s+)?FUNCTION\s+("?[\w.]+"?)\s*\(/i.exec(statement);
+  if (!match) return;
+
+  const { schema: functionSchema, name } = identifier(match[1]);
+  if (functionSchema !== 'public') return;
+
+  const argsGroup = parenGroup(statement, match.index + match[0].length - 1);
+  const args = splitTopLevel(argsGroup.inner).map(arg => parseArgument(arg, schema));
+  const afterArgs = statement.slice(argsGroup.end);
+  const flat = topLevel(afterArgs);
+  const returnsMatch = /^\s*RETURNS\s+/i.exec(flat);
+
+  let returns = null;
+  if (returnsMatch) {
+    const clauseEnd = flat.slice(returnsMatch[0].length).search(/\s(AS|LANGUAGE|IMMUTABLE|STABLE|VOLATILE|SECURITY|SET|COST|ROWS|STRICT|CALLED|PARALLEL|RETURNS\s+NULL|LEAKPROOF)\b/i);
+    const clause = afterArgs.slice(returnsMatch[0].length, clauseEnd === -1 ? undefined : returnsMatch[0].length + clauseEnd).trim();
+
+    if (/^TABLE\s*\(/i.test(clause)) {
+      const columns = splitTopLevel(parenGroup(clause, 0).inner).map(column => parseArgument(column, schema));
+      returns = { kind: 'table', columns };
+    } else if (/^SETOF\s+/i.test(clause)) {
+      returns = { kind: 'setof', type: normalizeType(clause.replace(/^SETOF\s+/i, '')) };
+    } else {
+      returns = { kind: 'scalar', type: normalizeType(clause) };
+    }
+  } else {
+    const outArgs = args.filter(arg => arg.mode === 'out' || arg.mode === 'inout');
+    returns = { kind: 'out', columns: outArgs };
+  }
+
+  if (returns.type && ['trigger', 'event_trigger'].includes(returns.type.base)) return;
+
+  if (!schema.functions.has(name)) schema.functions.set(name, new Map());
+  schema.functions.get(name).set(signatureKey(args), { args, returns });
+}
+
+function dropFunction(schema, statement) {
+  const match = /^DROP\s+FUNCTION\s+(?:IF\s+EXISTS\s+)?([\s\S]+?)(?:\s+(?:CASCADE|RESTRICT))?$/i.exec(statement);
+  if (!match) return;
+
+  for (const target of splitTopLevel(match[1])) {
+    const nameMatch = /^("?[\w.]+"?)\s*/.exec(target);
+    const { schema: functionSchema, name } = identifier(nameMatch[1]);
+    const overloads = schema.functions.get(name);
+    if (functionSchema !== 'public' || !overloads) continue;
+
+    const group = parenGroup(target, nameMatch[0].length);
+    if (!group) {
+      schema.functions.delete(name);
+      continue;
+    }
+    overloads.delete(signatureKey(splitTopLevel(group.inner).map(arg => parseArgument(arg, schema))));
+    if (overloads.size === 0) schema.functions.delete(name);
+  }
+}
+
+// DDL inside DO blocks is usually wrapped in IF ... THEN; apply what it would run
+function doBlock(schema, statement) {
+  const body = /\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$([\s\S]*)\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.exec(statement);
+  if (!body) return;
+
+  for (const fragment of splitStatements(body[1])) {
+    const flat = topLevel(fragment);
+    const ddl = /\b(CREATE\s+TYPE|ALTER\s+TYPE|DROP\s+TYPE|CREATE\s+TABLE|ALTER\s+TABLE|DROP\s+TABLE)\b/i.exec(flat);
+    if (ddl) applyStatement(schema, fragment.slice(ddl.index).trim());
+  }
+}
+
+function applyStatement(schema, statement) {
+  if (/^CREATE\s+(UNLOGGED\s+)?TABLE\b/i.test(statement)) createTable(schema, statement);
+  else if (/^ALTER\s+TABLE\b/i.test(statement)) alterTable(schema, statement);
+  else if (/^DROP\s+TABLE\b/i.test(statement)) dropTable(schema, statement);
+  else if (/^(CREATE|DROP|ALTER)\s+TYPE\b/i.test(statement)) enumStatement(schema, statement);
+  else if (/^CREATE\s+(OR\s+REPLACE\s+)?FUNCTION\b/i.test(statement)) createFunction(schema, statement);
+  else if (/^DROP\s+FUNCTION\b/i.test(statement)) dropFunction(schema, statement);
+  else if (/^DO\b/i.test(statement)) doBlock(schema, statement);
+}
+
+// ============================================================================
+// OUTPUT
+// ============================================================================
+
+const sortedKeys = map => [...map.keys()].sort();
+
+function columnType(column, schema) {
+  if (column.values && ['text', 'varchar', 'bpchar'].includes(column.type.base)) {
+    const union = column.values.map(value => JSON.stringify(value)).join(' | ');
+    return column.type.array ? `(${union})[]` : union;
+  }
+  return tsType(column.type, schema);
+}
+
+function renderTable(name, table, schema) {
+  const columns = [...table.columns.values()].sort((a, b) => a.name.localeCompare(b.name));
+  const row = columns.map(column =>
+    `          ${column.name}: ${columnType(column, schema)}${column.notNull ? '' : ' | null'};`);
+  const insert = columns.map(column => {
+    if (column.generated) return `          ${column.name}?: never;`;
+    const optional = !column.notNull || column.hasDefault ? '?' : '';
+    return `          ${column.name}${optional}: ${columnType(column, schema)}${column.notNull ? '' : ' | null'};`;
+  });
+  const update = columns.map(column => column.generated
+    ? `          ${column.name}?: never;`
+    : `          ${column.name}?: ${columnType(column, schema)}${column.notNull ? '' : ' | null'};`);
+  const relationships = table.relationships
+    .filter(rel => schema.tables.has(rel.referencedRelation))
+    .sort((a, b) => a.foreignKeyName.localeCompare(b.foreignKeyName))
+    .map(rel => [
+      '          {',
+      `            foreignKeyName: "${rel.foreignKeyName}";`,
+      `            columns: [${rel.columns.map(column => `"${column}"`).join(', ')}];`,
+      `            isOneToOne: ${rel.isOneToOne};`,
+      `            referencedRelation: "${rel.referencedRelation}";`,
+      `            referencedColumns: [${rel.referencedColumns.map(column => `"${column}"`).join(', ')}];`,
+      '          },',
+    ].join('\n'));
+
+  return [
+    `      ${name}: {`,
+    '        Row: {', ...row, '        };',
+    '        Insert: {', ...insert, '        };',
+    '        Update: {', ...update, '        };',
+    relationships.length > 0 ? ['        Relationships: [', ...relationships, '        ];'].join('\n') : '        Relationships: [];',
+    '      };',
+  ].join('\n');
+}
+
+function renderFunction(name, overloads, schema) {
+  // Overloads render as a union; a single signature renders as a plain object
+  const pad = ' '.repeat(overloads.size > 1 ? 2 : 0);
+  const variants = [...overloads.keys()].sort().map(key => {
+    const { args, returns } = overloads.get(key);
+    const inputs = args.filter(arg => arg.mode !== 'out' && arg.name);
+    const argsType = inputs.length === 0
+      ? 'never'
+      : `{\n${inputs.map(arg => `${pad}          ${arg.name}${arg.optional ? '?' : ''}: ${tsType(arg.type, schema)};`).join('\n')}\n${pad}        }`;
+
+    let returnsType;
+    if (returns.kind === 'table' || (returns.kind === 'out' && returns.columns.length > 0)) {
+      const columns = returns.columns.map(column => `${pad}          ${column.name}: ${tsType(column.type, schema)};`);
+      returnsType = `{\n${columns.join('\n')}\n${pad}        }[]`;
+    } else if (returns.kind === 'setof') {
+      returnsType = `${tsType(returns.type, schema)}[]`;
+    } else if (returns.kind === 'scalar') {
+      returnsType = tsType(returns.type, schema);
+    } else {
+      returnsType = 'undefined';
+    }
+
+    return `{\n${pad}        Args: ${argsType};\n${pad}        Returns: ${returnsType};\n${pad}      }`;
+  });
+
+  if (variants.length === 1) {
+    return `      ${name}: ${variants[0]};`;
+  }
+  return `      ${name}:\n${variants.map(variant => `        | ${variant}`).join('\n')};`;
+}
+
+function render(schema) {
+  const tables = sortedKeys(schema.tables).map(name => renderTable(name, schema.tables.get(name), schema));
+  const functions = sortedKeys(schema.functions).map(name => renderFunction(name, schema.functions.get(name), schema));
+  const enums = sortedKeys(schema.enums).map(name =>
+    `      ${name}: ${schema.enums.get(name).map(value => JSON.stringify(value)).join(' | ')};`);
+  const constants = sortedKeys(schema.enums).map(name =>
+    `      ${name}: [${schema.enums.get(name).map(value => JSON.stringify(value)).join(', ')}],`);
+  const never = '{\n      [_ in never]: never;\n    }';
+
+  return `// Generated by scripts/generate-database-types.js from supabase/migrations.
+// Do not edit by hand: change the migrations and run \`npm run db:types\`.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[];
+
+export type Database = {
+  public: {
+    Tables: {
+${tables.join('\n')}
+    };
+    Views: ${never};
+    Functions: {
+${functions.join('\n')}
+    };
+    Enums: {
+${enums.join('\n')}
+    };
+    CompositeTypes: ${never};
+  };
+};
+
+type PublicSchema = Database["public"];
+
+export type Tables<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Row"];
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Insert"];
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Update"];
+export type Enums<T extends keyof PublicSchema["Enums"]> = PublicSchema["Enums"][T];
+export type FunctionArgs<T extends keyof PublicSchema["Functions"]> = PublicSchema["Functions"][T]["Args"];
+export type FunctionReturns<T extends keyof PublicSchema["Functions"]> = PublicSchema["Functions"][T]["Returns"];
+
+export const Constants = {
+  public: {
+    Enums: {
+${constants.join('\n')}
+    },
+  },
+} as const;
+`;
+}
+
+// ============================================================================
+// REMOTE FUNCTIONS
+// ============================================================================
+
+// Functions the app calls that were created on the hosted project before its SQL
+// lived in supabase/migrations. Only their signatures are known here; once a
+// migration creates one, that definition wins and the entry can be removed.
+const REMOTE_FUNCTIONS = `
+CREATE FUNCTION check_email_verification_status(email_param TEXT)
+  RETURNS TABLE (user_id UUID, email TEXT, email_confirmed_at TIMESTAMPTZ, is_verified BOOLEAN);
+
+CREATE FUNCTION debug_auth_user_info(email_param TEXT) RETURNS JSONB;
+CREATE FUNCTION debug_user_creation_status(email_param TEXT) RETURNS JSONB;
+CREATE FUNCTION debug_token_tracking(email_param TEXT) RETURNS JSONB;
+
+CREATE FUNCTION initialize_chilean_compliance(rut_number TEXT DEFAULT NULL) RETURNS JSONB;
+CREATE FUNCTION calculate_trust_score(target_user_id UUID DEFAULT NULL) RETURNS JSONB;
+
+CREATE FUNCTION create_provider_quote_with_business_context(
+  p_project_id UUID,
+  p_provider_id UUID,
+  p_labor_items JSONB,
+  p_materials_items JSONB,
+  p_additional_fees JSONB,
+  p_travel_fee_clp INTEGER,
+  p_estimated_duration_hours NUMERIC,
+  p_hours_per_session NUMERIC,
+  p_requires_multiple_visits BOOLEAN,
+  p_response_type TEXT,
+  p_requires_onsite_confirmation BOOLEAN,
+  p_acting_as_business_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_session_structure JSONB DEFAULT NULL,
+  p_project_timeline_estimate TEXT DEFAULT NULL,
+  p_site_visit_cost INTEGER DEFAULT NULL
+) RETURNS JSONB;
+`;
+
+function declareRemoteFunctions(schema) {
+  for (const statement of splitStatements(REMOTE_FUNCTIONS)) {
+    const name = /^CREATE\s+FUNCTION\s+(\w+)/i.exec(statement)[1];
+    if (!schema.functions.has(name)) createFunction(schema, statement);
+  }
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+function generate() {
+  const schema = createSchema();
+  const files = fs.readdirSync(MIGRATIONS_DIR).filter(file => file.endsWith('.sql')).sort();
+
+  for (const file of files) {
+    const sql = fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8');
+    splitStatements(sql).forEach(statement => applyStatement(schema, statement));
+  }
+  declareRemoteFunctions(schema);
+
+  return render(schema);
+}
+
+function main() {
+  const output = generate();
+  const relativeOutput = path.relative(ROOT, OUTPUT_FILE);
+
+  if (process.argv.includes('--check')) {
+    const current = fs.existsSync(OUTPUT_FILE) ? fs.readFileSync(OUTPUT_FILE, 'utf8') : '';
+    if (current !== output) {
+      const currentLines = current.split('\n');
+      const firstDiff = output.split('\n').findIndex((line, index) => line !== currentLines[index]);
+      console.error(`❌ ${relativeOutput} is out of date with supabase/migrations (first difference at line ${firstDiff + 1}).`);
+      console.error('   Run `npm run db:types` and commit the result.');
+      process.exit(1);
+    }
+    console.log(`✅ ${relativeOutput} matches supabase/migrations`);
+    return;
+  }
+
+  fs.writeFileSync(OUTPUT_FILE, output);
+  console.log(`✅ Wrote ${relativeOutput}`);
+}
+
+main();
@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+/**
+ * Edge function shared code sync
+ *
+ * Copies the app modules edge functions also need into supabase/functions/_shared, so
+ * the app keeps its code under src/ and the Deno bundle never imports from outside
+ * supabase/functions. The copies are committed; edit the source under src/ and run:
+ *
+ *   npm run functions:shared         rewrite the copies
+ *   npm run functions:shared:check   exit 1 when a copy is out of date
+ *
+ * Only self-contained modules (no imports) can be shared this way.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const ROOT = path.resolve(__dirname, '..');
+const SHARED_DIR = path.join(ROOT, 'supabase', 'functions', '_shared');
+
+// Modules under src/ copied as-is into _shared
+const SHARED_MODULES = ['src/utils/careInstructionTemplates.ts'];
+
+function render(source) {
+  const content = fs.readFileSync(path.join(ROOT, source), 'utf8');
+  if (/^\s*import\s/m.test(content)) {
+    throw new Error(`${source} has imports and can't be copied into supabase/functions/_shared`);
+  }
+  return `// Generated from ${source} by \`npm run functions:shared\`; do not edit.\n\n${content}`;
+}
+
+function main() {
+  const check = process.argv.includes('--check');
+  let outdated = false;
+
+  for (const source of SHARED_MODULES) {
+    const target = path.join(SHARED_DIR, path.basename(source));
+    const relativeTarget = path.relative(ROOT, target);
+    const output = render(source);
+
+    if (check) {
+      const current = fs.existsSync(target) ? fs.readFileSync(target, 'utf8') : '';
+      if (current !== output) {
+        console.error(`❌ ${relativeTarget} is out of date with ${source}.`);
+        outdated = true;
+      }
+      continue;
+    }
+
+    fs.writeFileSync(target, output);
+    console.log(`✅ Wrote ${relativeTarget}`);
+  }
+
+  if (outdated) {
+    console.error('   Run `npm run functions:shared` and commit the result.');
+    process.exit(1);
+  }
+  if (check) console.log('✅ supabase/functions/_shared matches src/');
+}
+
+main();
@@ -22,9 +22,10 @@ import {
   Province,
   Comuna,
   CHILEAN_REGIONS,
+  CHILEAN_COMUNAS,
   getProvincesByRegion,
   getComunasByProvince,
-  getComunasByRegion,
+  getComunaByCode,
   searchComunas,
   getFullAddress,
   formatAddress,
@@ -153,11 +154,11 @@ export const AddressInput: React.FC<AddressInputProps> = ({
 
         // Filter by search query if provided
         if (searchQuery.trim()) {
-          comunas = searchComunas(searchQuery);
-          // Filter by selected province if one is selected
-          if (value.provinceCode) {
-            comunas = comunas.filter(c => c.provinceCode === value.provinceCode);
-          }
+          // Scope the search to the selected province if one is selected
+          comunas = searchComunas(searchQuery, {
+            provinceCode: value.provinceCode,
+            limit: 20,
+          });
         }
 
         return comunas.map(comuna => ({
@@ -413,9 +414,7 @@ export const ComunaSelector: React.FC<ComunaSelectorProps> = ({
   const [modalVisible, setModalVisible] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
 
-  const selectedComuna = value ? CHILEAN_REGIONS.flatMap(r =>
-    getComunasByRegion(r.code)
-  ).find(c => c.code === value) : undefined;
+  const selectedComuna = value ? getComunaByCode(value) : undefined;
 
   const handleSelect = useCallback((comuna: Comuna) => {
     onChange(comuna.code);
@@ -423,7 +422,7 @@ export const ComunaSelector: React.FC<ComunaSelectorProps> = ({
   }, [onChange]);
 
   const filteredComunas = useMemo(() => {
-    let allComunas = CHILEAN_REGIONS.flatMap(r => getComunasByRegion(r.code));
+    let allComunas = CHILEAN_COMUNAS;
 
     if (searchQuery.trim()) {
       console.log('🔍 Searching for:', searchQuery);
@@ -0,0 +1,470 @@
+// =============================================================================
+// CALENDAR SYNC SETTINGS - ICALENDAR FEED AND EXTERNAL CALENDARS
+// Epic #2: Profile Management - Calendar Sync
+// =============================================================================
+// Shows the user's secret calendar feed (subscribe, share, regenerate) and, for
+// providers, the external calendars whose busy time blocks new bookings
+// Feed and import are served by the calendar-feed and calendar-sync functions
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  Share,
+  Alert,
+  Linking,
+  ActivityIndicator,
+} from 'react-native';
+
+// Enterprise auth hooks
+import { useEnterpriseAuth } from '../../hooks/useEnterpriseAuth';
+
+import { CalendarSyncService } from '../../services/calendarSyncService';
+import { CalendarFeed, ExternalCalendar } from '../../types/calendarSync';
+import {
+  MAX_EXTERNAL_CALENDARS,
+  describeSyncStatus,
+  normalizeCalendarUrl,
+} from '../../utils/calendarSync';
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+interface CalendarSyncSettingsProps {
+  allowImport?: boolean; // providers only: busy time from other calendars
+}
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export const CalendarSyncSettings: React.FC<CalendarSyncSettingsProps> = ({ allowImport = false }) => {
+  const { user } = useEnterpriseAuth();
+
+  // State
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [calendars, setCalendars] = useState<ExternalCalendar[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newUrl, setNewUrl] = useState('');
+  const [urlError, setUrlError] = useState<string | null>(null);
+
+  const loadSettings = useCallback(async () => {
+    if (!user?.id) return;
+
+    setIsLoading(true);
+    try {
+      const [loadedFeed, loadedCalendars] = await Promise.all([
+        CalendarSyncService.getFeed(),
+        allowImport ? CalendarSyncService.getExternalCalendars(user.id) : Promise.resolve([]),
+      ]);
+      setFeed(loadedFeed);
+      setCalendars(loadedCalendars);
+    } catch (error) {
+      console.error('Error loading calendar sync settings:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user?.id, allowImport]);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  // =============================================================================
+  // HANDLERS
+  // =============================================================================
+
+  const openUrl = async (url: string) => {
+    try {
+      await Linking.openURL(url);
+    } catch (error) {
+      Alert.alert('Error', 'No encontramos una app de calendario. Copia el enlace y agrégalo manualmente.');
+    }
+  };
+
+  const shareFeed = () => {
+    if (!feed) return;
+    Share.share({
+      message: `Mi calendario de trabajos en Manito: ${feed.httpsUrl}`,
+    });
+  };
+
+  const confirmRotate = () => {
+    Alert.alert(
+      'Generar nuevo enlace',
+      'El enlace actual dejará de funcionar y tendrás que volver a suscribirte en tus calendarios.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Generar',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setFeed(await CalendarSyncService.rotateFeed());
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'No se pudo generar el enlace.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const addCalendar = async () => {
+    if (!user?.id) return;
+
+    const url = normalizeCalendarUrl(newUrl);
+    if (!url) {
+      setUrlError('Pega el enlace iCal (https o webcal) de tu calendario.');
+      return;
+    }
+
+    setUrlError(null);
+    setIsAdding(true);
+    try {
+      const calendar = await CalendarSyncService.addExternalCalendar(user.id, newName, url);
+      setCalendars(prev => [...prev, calendar]);
+      setNewName('');
+      setNewUrl('');
+    } catch (error) {
+      setUrlError(error instanceof Error ? error.message : 'No se pudo agregar el calendario.');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const syncNow = async () => {
+    if (!user?.id) return;
+
+    setIsSyncing(true);
+    try {
+      await CalendarSyncService.syncExternalCalendars();
+      setCalendars(await CalendarSyncService.getExternalCalendars(user.id));
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'No se pudo sincronizar.');
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const confirmRemove = (calendar: ExternalCalendar) => {
+    Alert.alert(
+      'Quitar calendario',
+      `Los horarios ocupados de "${calendar.name}" dejarán de bloquear tu agenda.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Quitar',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await CalendarSyncService.removeExternalCalendar(calendar.id);
+              setCalendars(prev => prev.filter(item => item.id !== calendar.id));
+            } catch (error) {
+              Alert.alert('Error', 'No se pudo quitar el calendario. Intenta nuevamente.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // =============================================================================
+  // RENDER METHODS
+  // =============================================================================
+
+  const renderFeed = () => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Tus trabajos en tu calendario</Text>
+      <Text style={styles.cardText}>
+        Suscríbete a este enlace privado y tus reservas confirmadas aparecerán en Google Calendar,
+        Apple Calendar u Outlook con dirección, contacto y notas.
+      </Text>
+
+      {feed && (
+        <Text style={styles.feedUrl} numberOfLines={1} selectable>
+          {feed.httpsUrl}
+        </Text>
+      )}
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={() => feed && openUrl(feed.webcalUrl)}
+          accessibilityLabel="Suscribirse en Apple Calendar u Outlook"
+        >
+          <Text style={styles.primaryButtonText}>Apple / Outlook</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={() => feed && openUrl(feed.googleUrl)}
+          accessibilityLabel="Suscribirse en Google Calendar"
+        >
+          <Text style={styles.primaryButtonText}>Google Calendar</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={shareFeed} accessibilityLabel="Compartir enlace">
+          <Text style={styles.secondaryButtonText}>🔗 Compartir enlace</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={confirmRotate} accessibilityLabel="Generar nuevo enlace">
+          <Text style={styles.secondaryButtonText}>🔄 Nuevo enlace</Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.hintText}>
+        Cualquiera con este enlace puede ver tus reservas. Si lo compartiste por error, genera uno nuevo.
+      </Text>
+    </View>
+  );
+
+  const renderCalendar = (calendar: ExternalCalendar) => (
+    <View key={calendar.id} style={styles.calendarRow}>
+      <View style={styles.calendarInfo}>
+        <Text style={styles.calendarName}>{calendar.name}</Text>
+        <Text style={[styles.calendarStatus, !!calendar.lastError && styles.calendarStatusError]}>
+          {describeSyncStatus(calendar)}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={styles.actionButton}
+        onPress={() => confirmRemove(calendar)}
+        accessibilityLabel={`Quitar ${calendar.name}`}
+      >
+        <Text style={styles.actionButtonText}>🗑️</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderImport = () => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Bloquear horarios de otros calendarios</Text>
+      <Text style={styles.cardText}>
+        Agrega la dirección iCal de tu calendario personal o de otra plataforma. No te ofreceremos
+        trabajos cuando estés ocupado ahí. Solo leemos los horarios, no los detalles de tus eventos.
+      </Text>
+
+      {calendars.map(renderCalendar)}
+
+      {calendars.length > 0 && (
+        <TouchableOpacity
+          style={[styles.secondaryButton, styles.syncButton]}
+          onPress={syncNow}
+          disabled={isSyncing}
+          accessibilityLabel="Sincronizar ahora"
+        >
+          {isSyncing ? (
+            <ActivityIndicator size="small" color="#007AFF" />
+          ) : (
+            <Text style={styles.secondaryButtonText}>Sincronizar ahora</Text>
+          )}
+        </TouchableOpacity>
+      )}
+
+      {calendars.length < MAX_EXTERNAL_CALENDARS && (
+        <View style={styles.addForm}>
+          <TextInput
+            style={styles.input}
+            value={newName}
+            onChangeText={setNewName}
+            placeholder="Nombre (ej: Calendario personal)"
+            placeholderTextColor="#999999"
+            maxLength={60}
+          />
+          <TextInput
+            style={[styles.input, !!urlError && styles.inputError]}
+            value={newUrl}
+            onChangeText={(text) => {
+              setNewUrl(text);
+              setUrlError(null);
+            }}
+            placeholder="https://… o webcal://…"
+            placeholderTextColor="#999999"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+          {!!urlError && <Text style={styles.errorText}>{urlError}</Text>}
+          <TouchableOpacity
+            style={[styles.primaryButton, (!newUrl.trim() || isAdding) && styles.buttonDisabled]}
+            onPress={addCalendar}
+            disabled={!newUrl.trim() || isAdding}
+            accessibilityLabel="Agregar calendario"
+          >
+            {isAdding ? (
+              <ActivityIndicator size="small" color="#ffffff" />
+            ) : (
+              <Text style={styles.primaryButtonText}>Agregar calendario</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+
+  if (isLoading) {
+    return <ActivityIndicator size="small" color="#007AFF" style={styles.loading} />;
+  }
+
+  if (!feed) {
+    return (
+      <TouchableOpacity onPress={loadSettings}>
+        <Text style={styles.emptyText}>No pudimos cargar tu calendario. Toca para reintentar.</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <View>
+      {renderFeed()}
+      {allowImport && renderImport()}
+    </View>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const styles = StyleSheet.create({
+  loading: {
+    paddingVertical: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666666',
+    lineHeight: 20,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#f0f0f0',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 4,
+  },
+  cardText: {
+    fontSize: 14,
+    color: '#666666',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  feedUrl: {
+    fontSize: 12,
+    color: '#333333',
+    backgroundColor: '#f8f8f8',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  primaryButton: {
+    flex: 1,
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  secondaryButton: {
+    flex: 1,
+    backgroundColor: '#f0f0f0',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    color: '#007AFF',
+  },
+  syncButton: {
+    flex: 0,
+    marginTop: 12,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#999999',
+    marginTop: 4,
+  },
+  calendarRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  calendarInfo: {
+    flex: 1,
+  },
+  calendarName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  calendarStatus: {
+    fontSize: 12,
+    color: '#999999',
+    marginTop: 2,
+  },
+  calendarStatusError: {
+    color: '#FF3B30',
+  },
+  actionButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#f0f0f0',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  actionButtonText: {
+    fontSize: 16,
+  },
+  addForm: {
+    marginTop: 12,
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#333333',
+  },
+  inputError: {
+    borderColor: '#FF3B30',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#FF3B30',
+  },
+});
+
+export default CalendarSyncSettings;
@@ -0,0 +1,202 @@
+// =============================================================================
+// CARE INSTRUCTIONS LIST - AFTER-SERVICE CARE AND REMINDERS
+// Epic #2: Profile Management - Job History
+// =============================================================================
+// Care instructions the provider left when completing a booking, with the
+// maintenance reminders scheduled from them. Customers see it in their job history
+// and can stop a reminder they no longer need.
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+
+import { CareInstructionService } from '../../services/careInstructionService';
+import { BookingCareInstruction } from '../../types/careInstructions';
+import { describeCareReminder, formatReminderDate } from '../../utils/careInstructions';
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+interface CareInstructionsListProps {
+  bookingId: string;
+}
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export const CareInstructionsList: React.FC<CareInstructionsListProps> = ({ bookingId }) => {
+  // State
+  const [instructions, setInstructions] = useState<BookingCareInstruction[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [stoppingId, setStoppingId] = useState<string | null>(null);
+
+  const loadInstructions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setInstructions(await CareInstructionService.getForBooking(bookingId));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'No se pudieron cargar las indicaciones de cuidado.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [bookingId]);
+
+  useEffect(() => {
+    loadInstructions();
+  }, [loadInstructions]);
+
+  // =============================================================================
+  // EVENT HANDLERS
+  // =============================================================================
+
+  const stopReminder = async (instruction: BookingCareInstruction) => {
+    setStoppingId(instruction.id);
+    try {
+      await CareInstructionService.stopReminder(instruction.id);
+      setInstructions(current =>
+        current.map(item => (item.id === instruction.id ? { ...item, nextReminderOn: null } : item))
+      );
+    } catch (stopError) {
+      Alert.alert('Error', stopError instanceof Error ? stopError.message : 'No se pudo desactivar el recordatorio.');
+    } finally {
+      setStoppingId(null);
+    }
+  };
+
+  const handleStopPress = (instruction: BookingCareInstruction) => {
+    Alert.alert(
+      'Desactivar recordatorio',
+      `Ya no te recordaremos: "${instruction.text}". La indicación sigue guardada en este trabajo.`,
+      [
+        { text: 'Volver', style: 'cancel' },
+        { text: 'Desactivar', style: 'destructive', onPress: () => stopReminder(instruction) },
+      ]
+    );
+  };
+
+  // =============================================================================
+  // RENDER METHODS
+  // =============================================================================
+
+  const renderInstruction = (instruction: BookingCareInstruction) => (
+    <View key={instruction.id} style={styles.instruction}>
+      <Text style={styles.bullet}>•</Text>
+      <View style={styles.instructionBody}>
+        <Text style={styles.instructionText}>{instruction.text}</Text>
+
+        {instruction.reminder && (
+          instruction.nextReminderOn ? (
+            <View style={styles.reminderRow}>
+              <Text style={styles.reminderText}>
+                ⏰ {describeCareReminder(instruction.reminder)} · próximo el {formatReminderDate(instruction.nextReminderOn)}
+              </Text>
+              {stoppingId === instruction.id ? (
+                <ActivityIndicator size="small" color="#007AFF" />
+              ) : (
+                <TouchableOpacity
+                  onPress={() => handleStopPress(instruction)}
+                  accessibilityLabel="Desactivar recordatorio"
+                >
+                  <Text style={styles.stopText}>Desactivar</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ) : (
+            <Text style={styles.reminderText}>
+              {instruction.lastRemindedAt && !instruction.reminder.repeats
+                ? 'Recordatorio enviado'
+                : 'Recordatorio desactivado'}
+            </Text>
+          )
+        )}
+      </View>
+    </View>
+  );
+
+  if (isLoading) {
+    return <ActivityIndicator size="small" color="#007AFF" style={styles.loading} />;
+  }
+
+  if (error) {
+    return (
+      <TouchableOpacity onPress={loadInstructions}>
+        <Text style={styles.emptyText}>{error} Toca para reintentar.</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  // Nothing to show for jobs completed without instructions
+  if (instructions.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Cuidados después del servicio</Text>
+      {instructions.map(renderInstruction)}
+    </View>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    paddingTop: 8,
+  },
+  loading: {
+    paddingVertical: 16,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666666',
+    lineHeight: 20,
+  },
+  instruction: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  bullet: {
+    width: 16,
+    fontSize: 14,
+    color: '#666666',
+  },
+  instructionBody: {
+    flex: 1,
+  },
+  instructionText: {
+    fontSize: 14,
+    color: '#333333',
+    lineHeight: 20,
+  },
+  reminderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 2,
+  },
+  reminderText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 2,
+  },
+  stopText: {
+    fontSize: 12,
+    color: '#007AFF',
+    marginLeft: 8,
+  },
+});
+
+export default CareInstructionsList;
@@ -20,8 +20,6 @@ import {
   Modal,
   Dimensions,
 } from 'react-native';
-import { format, parseISO, isToday, isYesterday, isThisWeek, isThisMonth } from 'date-fns';
-import { es } from 'date-fns/locale';
 
 // Enterprise auth hooks
 import { useEnterpriseAuth, useProfileData } from '../../hooks/useEnterpriseAuth';
@@ -29,69 +27,32 @@ import { useEnterpriseAuth, useProfileData } from '../../hooks/useEnterpriseAuth
 // Storage components for photos
 import { AvatarProgressiveImage } from '../storage/ProgressiveImage';
 
+// On-site record with before/after photos, and the care instructions left at completion
+import { JobTimeline } from './JobTimeline';
+import { CareInstructionsList } from './CareInstructionsList';
+
 // UI components
 import { Button } from '../ui/Button';
 
+// Booking lifecycle
+import { BOOKING_STATUS_LABELS, getBookingPermissions, getBookingStartsAt } from '../../utils/bookingLifecycle';
+import { formatCancellationPreview } from '../../utils/cancellationPolicy';
+import { BookingService } from '../../services/bookingService';
+import { CancellationPolicyService } from '../../services/cancellationPolicyService';
+import { BookingRecurrenceService } from '../../services/bookingRecurrenceService';
+import { describeRecurrence, getRecurrenceDates, RECURRENCE_CANCEL_NOTICE_HOURS } from '../../utils/bookingRecurrence';
+import { toLocalDateString } from '../../utils/timeSlots';
+import { RecurrenceFrequency } from '../../types/bookingRecurrence';
+import { BookingStatus, JobBooking } from '../../types/booking';
+
 const { width: screenWidth } = Dimensions.get('window');
 
 // =============================================================================
 // INTERFACES
 // =============================================================================
 
-export interface JobBooking {
-  id: string;
-  serviceType: string; // 'plumber', 'electrician', 'cleaner', etc.
-  serviceCategory: string; // 'Plomería', 'Electricidad', 'Limpieza'
-  title: string; // Service title/description
-  description?: string; // Detailed description
-
-  // Provider information
-  providerId: string;
-  providerName: string;
-  providerAvatar?: string;
-  providerRating: number;
-  providerCompletedJobs: number;
-
-  // Booking details
-  scheduledDate: string; // ISO date string
-  scheduledTime: string; // Time slot like "09:00-11:00"
-  duration: number; // Minutes
-  price: number; // CLP
-  currency: 'CLP';
-
-  // Status tracking
-  status: 'pending' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled' | 'no_show';
-  paymentStatus: 'pending' | 'paid' | 'refunded';
-
-  // Address information
-  address: {
-    label: string; // "Casa", "Trabajo"
-    fullAddress: string;
-    comuna: string;
-    specialInstructions?: string;
-  };
-
-  // Customer feedback
-  customerRating?: number; // 1-5 stars
-  customerReview?: string;
-  customerPhotos?: string[]; // Photos taken by customer
-  reviewDate?: string;
-
-  // Provider feedback
-  providerNotes?: string;
-  providerPhotos?: string[]; // Before/after photos
-
-  // Timestamps
-  createdAt: string; // ISO date
-  updatedAt: string; // ISO date
-  completedAt?: string; // ISO date
-  cancelledAt?: string; // ISO date
-
-  // Rebooking capability
-  canRebook: boolean;
-  canRate: boolean;
-  canCancel: boolean;
-}
+// Loaded by BookingService.getCustomerBookings; defined with the booking types
+export type { JobBooking } from '../../types/booking';
 
 interface JobHistoryProps {
   jobs?: JobBooking[];
@@ -104,8 +65,15 @@ interface JobHistoryProps {
 }
 
 type FilterType = 'all' | 'completed' | 'cancelled' | 'pending';
+
+// Bookings still ahead of the customer: accepted quotes count until the visit ends
+const UPCOMING_STATUSES: BookingStatus[] = ['pending', 'accepted', 'confirmed', 'in_progress'];
 type SortType = 'date_desc' | 'date_asc' | 'rating_desc' | 'price_desc';
 
+// Rebook, rate and cancel follow from the booking's status and schedule
+const getJobPermissions = (job: JobBooking) =>
+  getBookingPermissions(job.status, getBookingStartsAt(job.scheduledDate, job.scheduledTime.split('-')[0]), 'customer');
+
 // =============================================================================
 // JOB HISTORY LIST COMPONENT
 // =============================================================================
@@ -127,6 +95,8 @@ export const JobHistoryList: React.FC<JobHistoryProps> = ({
   const [selectedSort, setSelectedSort] = useState<SortType>('date_desc');
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showFilterModal, setShowFilterModal] = useState(false);
+  const [cancellingJobId, setCancellingJobId] = useState<string | null>(null);
+  const [timelineJobId, setTimelineJobId] = useState<string | null>(null);
 
   // =============================================================================
   // COMPUTED DATA
@@ -144,7 +114,7 @@ export const JobHistoryList: React.FC<JobHistoryProps> = ({
         filtered = jobs.filter(job => job.status === 'cancelled' || job.status === 'no_show');
         break;
       case 'pending':
-        filtered = jobs.filter(job => ['pending', 'confirmed', 'in_progress'].includes(job.status));
+        filtered = jobs.filter(job => UPCOMING_STATUSES.includes(job.status));
         break;
       default:
         filtered = jobs;
@@ -177,7 +147,7 @@ export const JobHistoryList: React.FC<JobHistoryProps> = ({
   const stats = useMemo(() => {
     const completed = jobs.filter(job => job.status === 'completed').length;
     const cancelled = jobs.filter(job => job.status === 'cancelled' || job.status === 'no_show').length;
-    const pending = jobs.filter(job => ['pending', 'confirmed', 'in_progress'].includes(job.status)).length;
+    const pending = jobs.filter(job => UPCOMING_STATUSES.includes(job.status)).length;
     const totalSpent = jobs
       .filter(job => job.status === 'completed')
       .reduce((sum, job) => sum + job.price, 0);
@@ -253,25 +223,110 @@ export const JobHistoryList: React.FC<JobHistoryProps> = ({
     }
   }, [onRatePress]);
 
+  // Shows the fee and refund under the cancellation policy before cancelling
+  const handleCancelPress = useCallback(async (job: JobBooking) => {
+    setCancellingJobId(job.id);
+    try {
+      const preview = await CancellationPolicyService.previewCancellation(job.id);
+
+      Alert.alert(
+        'Cancelar Reserva',
+        `${formatCancellationPreview(preview)}\n\n¿Quieres cancelar "${job.title}" con ${job.providerName}?`,
+        [
+          { text: 'Volver', style: 'cancel' },
+          {
+            text: 'Cancelar reserva',
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                await BookingService.cancel(job.id);
+                await onRefresh?.();
+              } catch (error) {
+                Alert.alert('Error', error instanceof Error ? error.message : 'No se pudo cancelar la reserva');
+              }
+            },
+          },
+        ]
+      );
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'No se pudo calcular el costo de cancelar');
+    } finally {
+      setCancellingJobId(null);
+    }
+  }, [onRefresh]);
+
+  // Asks the provider to repeat the job at the same time and price
+  const handleRepeatPress = useCallback((job: JobBooking) => {
+    const startsOn = job.scheduledDate.slice(0, 10);
+    const timeStart = job.scheduledTime.split('-')[0];
+    const propose = async (frequency: RecurrenceFrequency) => {
+      try {
+        await BookingRecurrenceService.propose(job.id, { frequency });
+        const schedule = describeRecurrence({ frequency, weekdays: [], startsOn, timeStart }).toLowerCase();
+        Alert.alert(
+          'Solicitud enviada',
+          `${job.providerName} debe aceptar el servicio periódico (${schedule}). Te avisaremos cuando responda.`
+        );
+        await onRefresh?.();
+      } catch (error) {
+        Alert.alert('Error', error instanceof Error ? error.message : 'No se pudo enviar la solicitud');
+      }
+    };
+
+    const today = new Date();
+    const nextWeeks = getRecurrenceDates(
+      { frequency: 'weekly', weekdays: [], startsOn },
+      toLocalDateString(new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1)),
+      toLocalDateString(new Date(today.getFullYear(), today.getMonth(), today.getDate() + 21))
+    ).map(date => `${date.slice(8, 10)}/${date.slice(5, 7)}`);
+
+    Alert.alert(
+      'Repetir Servicio',
+      `¿Cada cuánto quieres que ${job.providerName} repita "${job.title}"? Cada semana serían los días ${nextWeeks.join(', ')}. Las visitas se agendan solas y te avisamos si alguna cae en feriado.`,
+      [
+        { text: 'Cada semana', onPress: () => propose('weekly') },
+        { text: 'Cada dos semanas', onPress: () => propose('biweekly') },
+        { text: 'Cada mes', onPress: () => propose('monthly') },
+        { text: 'Volver', style: 'cancel' },
+      ]
+    );
+  }, [onRefresh]);
+
+  // Skips this visit or pauses the whole recurrence
+  const handleSkipPress = useCallback((job: JobBooking) => {
+    const run = async (action: () => Promise<unknown>) => {
+      try {
+        await action();
+        await onRefresh?.();
+      } catch (error) {
+        Alert.alert('Error', error instanceof Error ? error.message : 'No se pudo actualizar el servicio periódico');
+      }
+    };
+
+    Alert.alert(
+      'Servicio Periódico',
+      `"${job.title}" con ${job.providerName} se repite periódicamente. Omitir o pausar no tiene costo con más de ${RECURRENCE_CANCEL_NOTICE_HOURS} horas de anticipación.`,
+      [
+        { text: 'Omitir esta visita', onPress: () => run(() => BookingRecurrenceService.skipBooking(job.id)) },
+        {
+          text: 'Pausar servicio',
+          onPress: () => run(() => BookingRecurrenceService.pause(job.recurrenceId!)),
+        },
+        { text: 'Volver', style: 'cancel' },
+      ]
+    );
+  }, [onRefresh]);
+
   // =============================================================================
   // UTILITY FUNCTIONS
   // =============================================================================
 
-  const getStatusLabel = (status: JobBooking['status']): string => {
-    switch (status) {
-      case 'pending': return 'Pendiente';
-      case 'confirmed': return 'Confirmado';
-      case 'in_progress': return 'En Progreso';
-      case 'completed': return 'Completado';
-      case 'cancelled': return 'Cancelado';
-      case 'no_show': return 'No se presentó';
-      default: return status;
-    }
-  };
+  const getStatusLabel = (status: JobBooking['status']): string => BOOKING_STATUS_LABELS[status] ?? status;
 
   const getStatusColor = (status: JobBooking['status']): string => {
     switch (status) {
       case 'pending': return '#f59e0b';
+      case 'accepted':
       case 'confirmed': return '#3b82f6';
       case 'in_progress': return '#8b5cf6';
       case 'completed': return '#10b981';
@@ -281,19 +336,24 @@ export const JobHistoryList: React.FC<JobHistoryProps> = ({
     }
   };
 
+  // Scheduled dates are calendar days ('YYYY-MM-DD'), read in local time
   const formatJobDate = (dateString: string): string => {
-    const date = parseISO(dateString);
+    const [year, month, day] = dateString.slice(0, 10).split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    const now = new Date();
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const daysAgo = Math.round((today.getTime() - date.getTime()) / (24 * 60 * 60 * 1000));
 
-    if (isToday(date)) {
+    if (daysAgo === 0) {
       return 'Hoy';
-    } else if (isYesterday(date)) {
+    } else if (daysAgo === 1) {
       return 'Ayer';
-    } else if (isThisWeek(date)) {
-      return format(date, 'EEEE', { locale: es });
-    } else if (isThisMonth(date)) {
-      return format(date, 'd \'de\' MMMM', { locale: es });
+    } else if (daysAgo > -7 + today.getDay() && daysAgo <= today.getDay()) {
+      return date.toLocaleDateString('es-CL', { weekday: 'long' });
+    } else if (year === today.getFullYear() && month - 1 === today.getMonth()) {
+      return date.toLocaleDateString('es-CL', { day: 'numeric', month: 'long' });
     } else {
-      return format(date, 'd \'de\' MMMM, yyyy', { locale: es });
+      return date.toLocaleDateString('es-CL', { day: 'numeric', month: 'long', year: 'numeric' });
     }
   };
 
@@ -347,115 +407,170 @@ export const JobHistoryList: React.FC<JobHistoryProps> = ({
     </View>
   );
 
-  const renderJobCard = ({ item: job }: { item: JobBooking }) => (
-    <TouchableOpacity
-      style={styles.jobCard}
-      onPress={() => handleJobPress(job)}
-      activeOpacity={0.7}
-    >
-      {/* Job Header */}
-      <View style={styles.jobHeader}>
-        <View style={styles.jobTitleContainer}>
-          <Text style={styles.jobTitle}>{job.title}</Text>
-          <Text style={styles.jobCategory}>{job.serviceCategory}</Text>
-        </View>
+  const renderJobCard = ({ item: job }: { item: JobBooking }) => {
+    const permissions = getJobPermissions(job);
+
+    return (
+      <TouchableOpacity
+        style={styles.jobCard}
+        onPress={() => handleJobPress(job)}
+        activeOpacity={0.7}
+      >
+        {/* Job Header */}
+        <View style={styles.jobHeader}>
+          <View style={styles.jobTitleContainer}>
+            <Text style={styles.jobTitle}>{job.title}</Text>
+            <Text style={styles.jobCategory}>{job.serviceCategory}</Text>
+          </View>
 
-        <View style={styles.jobStatusContainer}>
-          <View style={[
-            styles.statusBadge,
-            { backgroundColor: getStatusColor(job.status) + '20' }
-          ]}>
+          <View style={styles.jobStatusContainer}>
             <View style={[
-              styles.statusDot,
-              { backgroundColor: getStatusColor(job.status) }
-            ]} />
-            <Text style={[
-              styles.statusText,
-              { color: getStatusColor(job.status) }
+              styles.statusBadge,
+              { backgroundColor: getStatusColor(job.status) + '20' }
             ]}>
-              {getStatusLabel(job.status)}
-            </Text>
+              <View style={[
+                styles.statusDot,
+                { backgroundColor: getStatusColor(job.status) }
+              ]} />
+              <Text style={[
+                styles.statusText,
+                { color: getStatusColor(job.status) }
+              ]}>
+                {getStatusLabel(job.status)}
+              </Text>
+            </View>
           </View>
         </View>
-      </View>
 
-      {/* Provider Info */}
-      <View style={styles.providerSection}>
-        <AvatarProgressiveImage
-          src={job.providerAvatar}
-          size={40}
-          userName={job.providerName}
-        />
-        <View style={styles.providerInfo}>
-          <Text style={styles.providerName}>{job.providerName}</Text>
-          <Text style={styles.providerStats}>
-            {formatRating(job.providerRating)} • {job.providerCompletedJobs} trabajos
-          </Text>
+        {/* Provider Info */}
+        <View style={styles.providerSection}>
+          <AvatarProgressiveImage
+            src={job.providerAvatar}
+            size={40}
+            userName={job.providerName}
+          />
+          <View style={styles.providerInfo}>
+            <Text style={styles.providerName}>{job.providerName}</Text>
+            <Text style={styles.providerStats}>
+              {formatRating(job.providerRating)} • {job.providerCompletedJobs} trabajos
+            </Text>
+          </View>
         </View>
-      </View>
 
-      {/* Job Details */}
-      <View style={styles.jobDetails}>
-        <View style={styles.jobDetailRow}>
-          <Text style={styles.jobDetailIcon}>📅</Text>
-          <Text style={styles.jobDetailText}>
-            {formatJobDate(job.scheduledDate)} • {job.scheduledTime}
-          </Text>
-        </View>
+        {/* Job Details */}
+        <View style={styles.jobDetails}>
+          <View style={styles.jobDetailRow}>
+            <Text style={styles.jobDetailIcon}>📅</Text>
+            <Text style={styles.jobDetailText}>
+              {formatJobDate(job.scheduledDate)} • {job.scheduledTime}
+            </Text>
+          </View>
 
-        <View style={styles.jobDetailRow}>
-          <Text style={styles.jobDetailIcon}>📍</Text>
-          <Text style={styles.jobDetailText} numberOfLines={1}>
-            {job.address.label} • {job.address.comuna}
-          </Text>
-        </View>
+          <View style={styles.jobDetailRow}>
+            <Text style={styles.jobDetailIcon}>📍</Text>
+            <Text style={styles.jobDetailText} numberOfLines={1}>
+              {job.address.label} • {job.address.comuna}
+            </Text>
+          </View>
+
+          <View style={styles.jobDetailRow}>
+            <Text style={styles.jobDetailIcon}>💰</Text>
+            <Text style={styles.jobDetailText}>{formatPrice(job.price)}</Text>
+          </View>
 
-        <View style={styles.jobDetailRow}>
-          <Text style={styles.jobDetailIcon}>💰</Text>
-          <Text style={styles.jobDetailText}>{formatPrice(job.price)}</Text>
+          {job.customerRating && (
+            <View style={styles.jobDetailRow}>
+              <Text style={styles.jobDetailIcon}>⭐</Text>
+              <Text style={styles.jobDetailText}>
+                Tu calificación: {formatRating(job.customerRating)}
+              </Text>
+            </View>
+          )}
         </View>
 
-        {job.customerRating && (
-          <View style={styles.jobDetailRow}>
-            <Text style={styles.jobDetailIcon}>⭐</Text>
-            <Text style={styles.jobDetailText}>
-              Tu calificación: {formatRating(job.customerRating)}
+        {/* Customer Review */}
+        {job.customerReview && (
+          <View style={styles.reviewSection}>
+            <Text style={styles.reviewText} numberOfLines={2}>
+              "{job.customerReview}"
             </Text>
           </View>
         )}
-      </View>
 
-      {/* Customer Review */}
-      {job.customerReview && (
-        <View style={styles.reviewSection}>
-          <Text style={styles.reviewText} numberOfLines={2}>
-            "{job.customerReview}"
-          </Text>
+        {/* Action Buttons */}
+        <View style={styles.jobActions}>
+          {permissions.canRebook && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => handleRebookPress(job)}
+            >
+              <Text style={styles.actionButtonText}>Reservar Nuevamente</Text>
+            </TouchableOpacity>
+          )}
+
+          {permissions.canRate && !job.customerRating && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.rateButton]}
+              onPress={() => handleRatePress(job)}
+            >
+              <Text style={styles.rateButtonText}>Calificar</Text>
+            </TouchableOpacity>
+          )}
+
+          {job.supportsRecurrence && !job.recurrenceId && ['accepted', 'confirmed', 'completed'].includes(job.status) && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => handleRepeatPress(job)}
+            >
+              <Text style={styles.actionButtonText}>Repetir</Text>
+            </TouchableOpacity>
+          )}
+
+          {job.recurrenceId && permissions.canCancel && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => handleSkipPress(job)}
+            >
+              <Text style={styles.actionButtonText}>Omitir</Text>
+            </TouchableOpacity>
+          )}
+
+          {permissions.canCancel && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.cancelButton]}
+              onPress={() => handleCancelPress(job)}
+              disabled={cancellingJobId === job.id}
+            >
+              {cancellingJobId === job.id ? (
+                <ActivityIndicator size="small" color="#dc2626" />
+              ) : (
+                <Text style={styles.cancelButtonText}>Cancelar</Text>
+              )}
+            </TouchableOpacity>
+          )}
         </View>
-      )}
 
-      {/* Action Buttons */}
-      <View style={styles.jobActions}>
-        {job.canRebook && (
+        {/* Visit record: arrival, photos, departure and care instructions */}
+        {(job.status === 'in_progress' || job.status === 'completed') && (
           <TouchableOpacity
-            style={styles.actionButton}
-            onPress={() => handleRebookPress(job)}
+            style={styles.timelineToggle}
+            onPress={() => setTimelineJobId(current => (current === job.id ? null : job.id))}
+            accessibilityLabel="Ver registro del trabajo"
           >
-            <Text style={styles.actionButtonText}>Reservar Nuevamente</Text>
+            <Text style={styles.actionButtonText}>
+              {timelineJobId === job.id ? 'Ocultar registro del trabajo' : 'Ver registro del trabajo'}
+            </Text>
           </TouchableOpacity>
         )}
-
-        {job.canRate && !job.customerRating && (
-          <TouchableOpacity
-            style={[styles.actionButton, styles.rateButton]}
-            onPress={() => handleRatePress(job)}
-          >
-            <Text style={styles.rateButtonText}>Calificar</Text>
-          </TouchableOpacity>
+        {timelineJobId === job.id && (
+          <View style={styles.timelineSection}>
+            <JobTimeline bookingId={job.id} />
+            {job.status === 'completed' && <CareInstructionsList bookingId={job.id} />}
+          </View>
         )}
-      </View>
-    </TouchableOpacity>
-  );
+      </TouchableOpacity>
+    );
+  };
 
   const renderFilterModal = () => (
     <Modal
@@ -790,6 +905,15 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#007AFF',
   },
+  timelineToggle: {
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  timelineSection: {
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
   rateButton: {
     backgroundColor: '#fff7ed',
     borderColor: '#fed7aa',
@@ -799,6 +923,15 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#ea580c',
   },
+  cancelButton: {
+    backgroundColor: '#fef2f2',
+    borderColor: '#fecaca',
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#dc2626',
+  },
   separator: {
     height: 12,
   },
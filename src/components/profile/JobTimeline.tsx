@@ -0,0 +1,264 @@
+// =============================================================================
+// JOB TIMELINE - ON-SITE VISIT RECORD
+// Epic #2: Profile Management - Job History
+// =============================================================================
+// Arrival, before/during/after photos and departure of a booking, as recorded by
+// the provider with JobExecutionScreen. Customers see it from their job history;
+// the photos are kept as evidence if a dispute is opened.
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  Modal,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Linking,
+  ActivityIndicator,
+} from 'react-native';
+
+import { JobExecutionService } from '../../services/jobExecutionService';
+import { BookingPhoto, JobExecution, JobTimelineEvent } from '../../types/jobExecution';
+import { buildJobTimeline, formatClockTime, getMapsUrl, PHOTO_TYPE_LABELS } from '../../utils/jobExecution';
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+interface JobTimelineProps {
+  bookingId?: string; // loads the record itself
+  execution?: JobExecution; // or shows one the parent already has
+}
+
+const EVENT_ICONS: Record<JobTimelineEvent['kind'], string> = {
+  scheduled: '📅',
+  confirmed: '✅',
+  check_in: '📍',
+  photos: '📷',
+  check_out: '🏁',
+};
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export const JobTimeline: React.FC<JobTimelineProps> = ({ bookingId, execution: providedExecution }) => {
+  // State
+  const [loadedExecution, setLoadedExecution] = useState<JobExecution | null>(null);
+  const [isLoading, setIsLoading] = useState(!providedExecution);
+  const [error, setError] = useState<string | null>(null);
+  const [openPhoto, setOpenPhoto] = useState<BookingPhoto | null>(null);
+
+  const execution = providedExecution ?? loadedExecution;
+
+  const loadExecution = useCallback(async () => {
+    if (providedExecution || !bookingId) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      setLoadedExecution(await JobExecutionService.getExecution(bookingId));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'No se pudo cargar el registro del trabajo.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [bookingId, providedExecution]);
+
+  useEffect(() => {
+    loadExecution();
+  }, [loadExecution]);
+
+  // =============================================================================
+  // RENDER METHODS
+  // =============================================================================
+
+  const renderEvent = (event: JobTimelineEvent, index: number, events: JobTimelineEvent[]) => {
+    const location = event.kind === 'check_in'
+      ? execution?.checkInLocation
+      : event.kind === 'check_out' ? execution?.checkOutLocation : null;
+
+    return (
+      <View key={`${event.kind}-${event.at}`} style={styles.event}>
+        <View style={styles.eventRail}>
+          <Text style={styles.eventIcon}>{EVENT_ICONS[event.kind]}</Text>
+          {index < events.length - 1 && <View style={styles.eventLine} />}
+        </View>
+
+        <View style={styles.eventBody}>
+          <Text style={styles.eventTitle}>
+            {event.title}
+            {event.kind === 'photos' && ` · ${formatClockTime(event.at)}`}
+          </Text>
+
+          {!!event.detail && (
+            location ? (
+              <TouchableOpacity
+                onPress={() => Linking.openURL(getMapsUrl(location))}
+                accessibilityLabel="Ver ubicación en el mapa"
+              >
+                <Text style={[styles.eventDetail, styles.eventLink]}>{event.detail}</Text>
+              </TouchableOpacity>
+            ) : (
+              <Text style={styles.eventDetail}>{event.detail}</Text>
+            )
+          )}
+
+          {event.photos && (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.photoStrip}>
+              {event.photos.map(photo => (
+                <TouchableOpacity
+                  key={photo.id}
+                  onPress={() => setOpenPhoto(photo)}
+                  accessibilityLabel={`${PHOTO_TYPE_LABELS[photo.type]}, ${formatClockTime(photo.takenAt)}`}
+                >
+                  {photo.url ? (
+                    <Image source={{ uri: photo.url }} style={styles.photo} />
+                  ) : (
+                    <View style={[styles.photo, styles.photoMissing]}>
+                      <Text style={styles.photoMissingText}>📷</Text>
+                    </View>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  const renderPhotoModal = () => (
+    <Modal visible={!!openPhoto} transparent animationType="fade" onRequestClose={() => setOpenPhoto(null)}>
+      <TouchableOpacity style={styles.modalBackdrop} activeOpacity={1} onPress={() => setOpenPhoto(null)}>
+        {openPhoto?.url && <Image source={{ uri: openPhoto.url }} style={styles.modalPhoto} resizeMode="contain" />}
+        {openPhoto && (
+          <View style={styles.modalCaption}>
+            <Text style={styles.modalCaptionTitle}>
+              {PHOTO_TYPE_LABELS[openPhoto.type]} · {formatClockTime(openPhoto.takenAt)}
+            </Text>
+            {!!openPhoto.caption && <Text style={styles.modalCaptionText}>{openPhoto.caption}</Text>}
+          </View>
+        )}
+      </TouchableOpacity>
+    </Modal>
+  );
+
+  if (isLoading) {
+    return <ActivityIndicator size="small" color="#007AFF" style={styles.loading} />;
+  }
+
+  if (!execution) {
+    return (
+      <TouchableOpacity onPress={loadExecution}>
+        <Text style={styles.emptyText}>{error || 'No se pudo cargar el registro del trabajo.'} Toca para reintentar.</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  const events = buildJobTimeline(execution);
+
+  return (
+    <View>
+      {events.map(renderEvent)}
+      {!execution.startedAt && (
+        <Text style={styles.emptyText}>
+          El profesional registrará su llegada, con fotos del lugar, al comenzar la visita.
+        </Text>
+      )}
+      {renderPhotoModal()}
+    </View>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const styles = StyleSheet.create({
+  loading: {
+    paddingVertical: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666666',
+    lineHeight: 20,
+  },
+  event: {
+    flexDirection: 'row',
+  },
+  eventRail: {
+    width: 32,
+    alignItems: 'center',
+  },
+  eventIcon: {
+    fontSize: 16,
+  },
+  eventLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#e0e0e0',
+    marginVertical: 4,
+  },
+  eventBody: {
+    flex: 1,
+    paddingBottom: 16,
+  },
+  eventTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  eventDetail: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 2,
+  },
+  eventLink: {
+    color: '#007AFF',
+  },
+  photoStrip: {
+    marginTop: 8,
+  },
+  photo: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    marginRight: 8,
+    backgroundColor: '#f0f0f0',
+  },
+  photoMissing: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  photoMissingText: {
+    fontSize: 20,
+  },
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.9)',
+    justifyContent: 'center',
+    padding: 16,
+  },
+  modalPhoto: {
+    width: '100%',
+    height: '75%',
+  },
+  modalCaption: {
+    marginTop: 12,
+  },
+  modalCaptionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  modalCaptionText: {
+    fontSize: 14,
+    color: '#dddddd',
+    marginTop: 4,
+  },
+});
+
+export default JobTimeline;
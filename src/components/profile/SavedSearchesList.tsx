@@ -0,0 +1,242 @@
+// =============================================================================
+// SAVED SEARCHES LIST - CUSTOMER SAVED SEARCHES AND ALERTS
+// Epic #2: Profile Management - Saved Searches
+// =============================================================================
+// Lists the customer's saved searches with alert toggles, re-run, share and delete
+// Alerts are written to notifications by run_saved_search_alerts (see migrations)
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Switch,
+  Share,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+
+// Enterprise auth hooks
+import { useEnterpriseAuth } from '../../hooks/useEnterpriseAuth';
+
+import { SavedSearchService } from '../../services/savedSearchService';
+import { createSavedSearchLink } from '../../utils/deepLinkHandler';
+import { SavedSearch } from '../../types/search';
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+interface SavedSearchesListProps {
+  onRunSearch: (savedSearch: SavedSearch) => void;
+}
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export const SavedSearchesList: React.FC<SavedSearchesListProps> = ({ onRunSearch }) => {
+  const { user } = useEnterpriseAuth();
+
+  // State
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadSavedSearches = useCallback(async () => {
+    if (!user?.id) return;
+
+    setIsLoading(true);
+    try {
+      setSavedSearches(await SavedSearchService.listSavedSearches());
+    } catch (error) {
+      console.error('Error loading saved searches:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    loadSavedSearches();
+  }, [loadSavedSearches]);
+
+  // =============================================================================
+  // HANDLERS
+  // =============================================================================
+
+  const toggleAlerts = async (savedSearch: SavedSearch, alertsEnabled: boolean) => {
+    // Optimistic update, reverted if the save fails
+    setSavedSearches(prev => prev.map(item =>
+      item.id === savedSearch.id ? { ...item, alertsEnabled } : item
+    ));
+
+    try {
+      await SavedSearchService.updateSavedSearch(savedSearch.id, { alertsEnabled });
+    } catch (error) {
+      setSavedSearches(prev => prev.map(item =>
+        item.id === savedSearch.id ? { ...item, alertsEnabled: !alertsEnabled } : item
+      ));
+      Alert.alert('Error', 'No se pudo actualizar la alerta. Intenta nuevamente.');
+    }
+  };
+
+  const confirmDelete = (savedSearch: SavedSearch) => {
+    Alert.alert(
+      'Eliminar búsqueda',
+      `¿Estás seguro de que quieres eliminar "${savedSearch.name}"?`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Eliminar',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await SavedSearchService.deleteSavedSearch(savedSearch.id);
+              setSavedSearches(prev => prev.filter(item => item.id !== savedSearch.id));
+            } catch (error) {
+              Alert.alert('Error', 'No se pudo eliminar la búsqueda. Intenta nuevamente.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const shareSavedSearch = (savedSearch: SavedSearch) => {
+    Share.share({
+      message: `${savedSearch.name}: ${createSavedSearchLink(savedSearch.id)}`,
+    });
+  };
+
+  // =============================================================================
+  // RENDER METHODS
+  // =============================================================================
+
+  const renderSavedSearch = (savedSearch: SavedSearch) => (
+    <View key={savedSearch.id} style={styles.searchCard}>
+      <TouchableOpacity
+        style={styles.searchInfo}
+        onPress={() => onRunSearch(savedSearch)}
+        accessibilityLabel={`Buscar ${savedSearch.name}`}
+      >
+        <Text style={styles.searchName}>{savedSearch.name}</Text>
+        <Text style={styles.searchDetail}>
+          {[savedSearch.query, savedSearch.filters.location?.commune].filter(Boolean).join(' • ')}
+        </Text>
+        {savedSearch.lastRunAt && (
+          <Text style={styles.searchMeta}>
+            {savedSearch.lastMatchCount} profesionales coinciden
+          </Text>
+        )}
+      </TouchableOpacity>
+
+      <View style={styles.searchActions}>
+        <View style={styles.alertToggle}>
+          <Text style={styles.alertLabel}>Alertas</Text>
+          <Switch
+            value={savedSearch.alertsEnabled}
+            onValueChange={(value) => toggleAlerts(savedSearch, value)}
+            trackColor={{ false: '#e0e0e0', true: '#007AFF' }}
+          />
+        </View>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => shareSavedSearch(savedSearch)}
+          accessibilityLabel="Compartir búsqueda"
+        >
+          <Text style={styles.actionButtonText}>🔗</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => confirmDelete(savedSearch)}
+          accessibilityLabel="Eliminar búsqueda"
+        >
+          <Text style={styles.actionButtonText}>🗑️</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  if (isLoading) {
+    return <ActivityIndicator size="small" color="#007AFF" style={styles.loading} />;
+  }
+
+  if (savedSearches.length === 0) {
+    return (
+      <Text style={styles.emptyText}>
+        Guarda una búsqueda desde los resultados y te avisaremos cuando haya nuevos profesionales.
+      </Text>
+    );
+  }
+
+  return <View>{savedSearches.map(renderSavedSearch)}</View>;
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const styles = StyleSheet.create({
+  loading: {
+    paddingVertical: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666666',
+    lineHeight: 20,
+  },
+  searchCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#f0f0f0',
+  },
+  searchInfo: {
+    marginBottom: 12,
+  },
+  searchName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 4,
+  },
+  searchDetail: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  searchMeta: {
+    fontSize: 12,
+    color: '#999999',
+    marginTop: 4,
+  },
+  searchActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  alertToggle: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  alertLabel: {
+    fontSize: 14,
+    color: '#333333',
+    marginRight: 8,
+  },
+  actionButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#f0f0f0',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  actionButtonText: {
+    fontSize: 16,
+  },
+});
+
+export default SavedSearchesList;
@@ -23,6 +23,14 @@ export type { JobBooking } from './JobHistoryList';
 export { default as ReviewForm } from './ReviewForm';
 export type { ReviewData } from './ReviewForm';
 
+export { default as SavedSearchesList } from './SavedSearchesList';
+
+export { default as CalendarSyncSettings } from './CalendarSyncSettings';
+
+export { default as JobTimeline } from './JobTimeline';
+
+export { default as CareInstructionsList } from './CareInstructionsList';
+
 // =============================================================================
 // PROFILE SCREENS
 // =============================================================================
@@ -1,36 +1,646 @@
-import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+/**
+ * AvailabilityCalendar Component
+ *
+ * Availability tab of the provider profile: weekly hours (several windows per day),
+ * buffer between jobs, daily job cap and time off such as vacations or sick days.
+ * Below them, the free slots of the coming week as customers will see them.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Switch,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Button, Input } from '../ui';
+import { colors, spacing, borderRadius } from '../../design/tokens';
+import { AvailabilityService } from '../../services/availabilityService';
+import {
+  AvailabilityException,
+  AvailabilityExceptionKind,
+  AvailableSlot,
+  TimeWindow,
+  Weekday,
+  WeeklyHours,
+} from '../../types/availability';
+import {
+  DEFAULT_WEEKLY_HOURS,
+  EXCEPTION_KIND_LABELS,
+  MAX_BUFFER_MINUTES,
+  MAX_JOBS_PER_DAY,
+  WEEKDAYS,
+  WEEKDAY_NAMES,
+  describeException,
+  formatDayWindows,
+  validateTimeWindow,
+  validateWeeklyHours,
+} from '../../utils/availability';
+import { toLocalDateString } from '../../utils/timeSlots';
 
 interface AvailabilityCalendarProps {
-  workingHours: any;
+  providerId: string;
   isAvailable: boolean;
-  onWorkingHoursChange: (hours: any) => void;
   onAvailabilityChange: (available: boolean) => void;
   isEditing: boolean;
 }
 
-export const AvailabilityCalendar: React.FC<AvailabilityCalendarProps> = (props) => {
+// Exception being added, with dates and hours as typed
+interface ExceptionDraft {
+  kind: AvailabilityExceptionKind;
+  startsOn: string;
+  endsOn: string;
+  timeStart: string;
+  timeEnd: string;
+  note: string;
+}
+
+const PREVIEW_DAYS = 7;
+const PREVIEW_SLOTS_PER_DAY = 4;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const EXCEPTION_KINDS = Object.keys(EXCEPTION_KIND_LABELS) as AvailabilityExceptionKind[];
+
+const addDays = (days: number) => {
+  const today = new Date();
+  return toLocalDateString(new Date(today.getFullYear(), today.getMonth(), today.getDate() + days));
+};
+
+const emptyDraft = (): ExceptionDraft => ({
+  kind: 'vacation',
+  startsOn: addDays(0),
+  endsOn: addDays(0),
+  timeStart: '',
+  timeEnd: '',
+  note: '',
+});
+
+const formatSlotDay = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day)
+    .toLocaleDateString('es-CL', { weekday: 'short', day: 'numeric', month: 'short' })
+    .replace(/\./g, '');
+};
+
+// Whole non-negative number typed into a field, or null when empty
+const parseCount = (text: string) => (text.trim() ? parseInt(text, 10) : null);
+
+export const AvailabilityCalendar: React.FC<AvailabilityCalendarProps> = ({
+  providerId,
+  isAvailable,
+  onAvailabilityChange,
+  isEditing,
+}) => {
+  const [weeklyHours, setWeeklyHours] = useState<WeeklyHours>(DEFAULT_WEEKLY_HOURS);
+  const [bufferText, setBufferText] = useState('0');
+  const [maxJobsText, setMaxJobsText] = useState('');
+  const [worksOnHolidays, setWorksOnHolidays] = useState(false);
+  const [exceptions, setExceptions] = useState<AvailabilityException[]>([]);
+  const [slots, setSlots] = useState<AvailableSlot[]>([]);
+  const [draft, setDraft] = useState<ExceptionDraft | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | undefined>();
+
+  const loadSlots = useCallback(async () => {
+    try {
+      setSlots(await AvailabilityService.getAvailableSlots(providerId, addDays(0), addDays(PREVIEW_DAYS - 1)));
+    } catch (slotError) {
+      // The preview is informative only
+      console.warn('⚠️ Available slots not loaded:', slotError);
+    }
+  }, [providerId]);
+
+  useEffect(() => {
+    if (!providerId) return;
+
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const availability = await AvailabilityService.getAvailability(providerId);
+        setWeeklyHours(availability.weeklyHours);
+        setBufferText(String(availability.bufferMinutes));
+        setMaxJobsText(availability.maxJobsPerDay ? String(availability.maxJobsPerDay) : '');
+        setWorksOnHolidays(availability.worksOnHolidays);
+        setExceptions(availability.exceptions);
+        setError(undefined);
+      } catch (loadError) {
+        setError(loadError instanceof Error ? loadError.message : 'No pudimos cargar tu disponibilidad.');
+      } finally {
+        setIsLoading(false);
+      }
+      loadSlots();
+    };
+
+    load();
+  }, [providerId, loadSlots]);
+
+  const updateDay = (day: Weekday, windows: TimeWindow[]) => {
+    setWeeklyHours(prev => ({ ...prev, [day]: windows }));
+  };
+
+  const updateWindow = (day: Weekday, index: number, changes: Partial<TimeWindow>) => {
+    updateDay(day, weeklyHours[day].map((window, i) => (i === index ? { ...window, ...changes } : window)));
+  };
+
+  // A new window starts where the day's last one ends
+  const addWindow = (day: Weekday) => {
+    const last = weeklyHours[day][weeklyHours[day].length - 1];
+    const window = last && last.end < '20:00' ? { start: last.end, end: '20:00' } : { start: '08:00', end: '18:00' };
+    updateDay(day, [...weeklyHours[day], window]);
+  };
+
+  const handleSave = async () => {
+    const bufferMinutes = parseCount(bufferText) ?? 0;
+    const maxJobsPerDay = parseCount(maxJobsText);
+
+    const problem = validateWeeklyHours(weeklyHours)
+      || (bufferMinutes > MAX_BUFFER_MINUTES ? `El tiempo entre trabajos puede ser de hasta ${MAX_BUFFER_MINUTES} minutos.` : null)
+      || (maxJobsPerDay !== null && (maxJobsPerDay < 1 || maxJobsPerDay > MAX_JOBS_PER_DAY)
+        ? `El máximo diario debe estar entre 1 y ${MAX_JOBS_PER_DAY} trabajos.`
+        : null);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await AvailabilityService.saveSettings(providerId, { weeklyHours, bufferMinutes, maxJobsPerDay, worksOnHolidays });
+      setError(undefined);
+      loadSlots();
+      Alert.alert('Disponibilidad guardada', 'Los clientes verán tus nuevos horarios al buscar y reservar.');
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'No pudimos guardar tu disponibilidad.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddException = async () => {
+    if (!draft) return;
+
+    const window = draft.timeStart || draft.timeEnd ? { start: draft.timeStart, end: draft.timeEnd } : null;
+    const problem = !DATE_PATTERN.test(draft.startsOn) || !DATE_PATTERN.test(draft.endsOn)
+      ? 'Usa el formato AAAA-MM-DD para las fechas.'
+      : draft.endsOn < draft.startsOn
+        ? 'La fecha de término debe ser igual o posterior a la de inicio.'
+        : draft.endsOn < addDays(0)
+          ? 'Elige fechas futuras.'
+          : window && validateTimeWindow(window);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const exception = await AvailabilityService.addException(providerId, {
+        kind: draft.kind,
+        startsOn: draft.startsOn,
+        endsOn: draft.endsOn,
+        window,
+        note: draft.note,
+      });
+      setExceptions(prev => [...prev, exception].sort((a, b) => a.startsOn.localeCompare(b.startsOn)));
+      setDraft(null);
+      setError(undefined);
+      loadSlots();
+    } catch (addError) {
+      setError(addError instanceof Error ? addError.message : 'No pudimos agregar el bloqueo.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteException = (exception: AvailabilityException) => {
+    Alert.alert('Eliminar bloqueo', describeException(exception), [
+      { text: 'Volver', style: 'cancel' },
+      {
+        text: 'Eliminar',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await AvailabilityService.deleteException(exception.id);
+            setExceptions(prev => prev.filter(item => item.id !== exception.id));
+            loadSlots();
+          } catch (deleteError) {
+            Alert.alert('Error', deleteError instanceof Error ? deleteError.message : 'No pudimos eliminar el bloqueo.');
+          }
+        },
+      },
+    ]);
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loading}>
+        <ActivityIndicator color={colors.primary[500]} />
+      </View>
+    );
+  }
+
+  const slotsByDay = slots.reduce<Record<string, AvailableSlot[]>>((days, slot) => {
+    (days[slot.date] = days[slot.date] || []).push(slot);
+    return days;
+  }, {});
+
   return (
     <View style={styles.container}>
-      <Text style={styles.title}>Calendario de Disponibilidad</Text>
-      <Text style={styles.subtitle}>Funcionalidad en desarrollo</Text>
+      <View style={styles.switchRow}>
+        <View style={styles.switchText}>
+          <Text style={styles.switchLabel}>Recibiendo trabajos</Text>
+          <Text style={styles.helperText}>Si lo desactivas, no apareces en las búsquedas.</Text>
+        </View>
+        <Switch value={isAvailable} onValueChange={onAvailabilityChange} disabled={!isEditing} />
+      </View>
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      <Text style={styles.sectionTitle}>Horario semanal</Text>
+      {WEEKDAYS.map(day => {
+        const windows = weeklyHours[day];
+        return (
+          <View key={day} style={styles.dayRow}>
+            <View style={styles.dayHeader}>
+              <Text style={styles.dayName}>{WEEKDAY_NAMES[day]}</Text>
+              {isEditing ? (
+                <Switch
+                  value={windows.length > 0}
+                  onValueChange={works => updateDay(day, works ? [{ start: '08:00', end: '18:00' }] : [])}
+                />
+              ) : (
+                <Text style={styles.dayHours}>{formatDayWindows(windows)}</Text>
+              )}
+            </View>
+
+            {isEditing && windows.map((window, index) => (
+              <View key={index} style={styles.windowRow}>
+                <TextInput
+                  style={styles.timeField}
+                  value={window.start}
+                  onChangeText={text => updateWindow(day, index, { start: text })}
+                  placeholder="08:00"
+                  placeholderTextColor={colors.neutral[400]}
+                  maxLength={5}
+                />
+                <Text style={styles.windowSeparator}>a</Text>
+                <TextInput
+                  style={styles.timeField}
+                  value={window.end}
+                  onChangeText={text => updateWindow(day, index, { end: text })}
+                  placeholder="18:00"
+                  placeholderTextColor={colors.neutral[400]}
+                  maxLength={5}
+                />
+                <TouchableOpacity
+                  onPress={() => updateDay(day, windows.filter((_, i) => i !== index))}
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                >
+                  <Text style={styles.removeText}>Quitar</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+            {isEditing && windows.length > 0 && (
+              <TouchableOpacity onPress={() => addWindow(day)}>
+                <Text style={styles.linkText}>+ Agregar horario</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      })}
+
+      <Text style={styles.sectionTitle}>Agenda</Text>
+      {isEditing ? (
+        <>
+          <Input
+            label="Minutos libres entre trabajos"
+            helperText="Para traslados y preparación, antes y después de cada trabajo"
+            value={bufferText}
+            onChangeText={text => setBufferText(text.replace(/\D/g, ''))}
+            keyboardType="numeric"
+          />
+          <Input
+            label="Máximo de trabajos por día"
+            helperText="Déjalo vacío si no tienes límite"
+            value={maxJobsText}
+            onChangeText={text => setMaxJobsText(text.replace(/\D/g, ''))}
+            keyboardType="numeric"
+          />
+          <View style={styles.switchRow}>
+            <Text style={[styles.switchLabel, styles.switchText]}>Trabajo en feriados</Text>
+            <Switch value={worksOnHolidays} onValueChange={setWorksOnHolidays} />
+          </View>
+          <Button
+            title="Guardar disponibilidad"
+            onPress={handleSave}
+            loading={isSaving}
+            disabled={isSaving}
+            style={styles.saveButton}
+          />
+        </>
+      ) : (
+        <View style={styles.summary}>
+          <Text style={styles.summaryText}>
+            {parseCount(bufferText) ? `${bufferText} minutos libres entre trabajos` : 'Sin tiempo libre entre trabajos'}
+          </Text>
+          <Text style={styles.summaryText}>
+            {maxJobsText ? `Hasta ${maxJobsText} trabajos por día` : 'Sin límite de trabajos por día'}
+          </Text>
+          <Text style={styles.summaryText}>{worksOnHolidays ? 'Trabaja en feriados' : 'No trabaja en feriados'}</Text>
+        </View>
+      )}
+
+      <Text style={styles.sectionTitle}>Vacaciones y días libres</Text>
+      {exceptions.length === 0 && <Text style={styles.helperText}>No tienes días bloqueados.</Text>}
+      {exceptions.map(exception => (
+        <View key={exception.id} style={styles.exceptionRow}>
+          <View style={styles.exceptionText}>
+            <Text style={styles.exceptionTitle}>{describeException(exception)}</Text>
+            {!!exception.note && <Text style={styles.helperText}>{exception.note}</Text>}
+          </View>
+          {isEditing && (
+            <TouchableOpacity
+              onPress={() => handleDeleteException(exception)}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <Text style={styles.removeText}>Eliminar</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+
+      {isEditing && !draft && (
+        <TouchableOpacity onPress={() => setDraft(emptyDraft())}>
+          <Text style={styles.linkText}>+ Bloquear días u horas</Text>
+        </TouchableOpacity>
+      )}
+
+      {isEditing && draft && (
+        <View style={styles.draft}>
+          <View style={styles.kindRow}>
+            {EXCEPTION_KINDS.map(kind => (
+              <TouchableOpacity
+                key={kind}
+                style={[styles.kindChip, draft.kind === kind && styles.kindChipActive]}
+                onPress={() => setDraft({ ...draft, kind })}
+              >
+                <Text style={[styles.kindChipText, draft.kind === kind && styles.kindChipTextActive]}>
+                  {EXCEPTION_KIND_LABELS[kind]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Input
+            label="Desde (AAAA-MM-DD)"
+            value={draft.startsOn}
+            onChangeText={startsOn => setDraft({ ...draft, startsOn, endsOn: draft.endsOn < startsOn ? startsOn : draft.endsOn })}
+          />
+          <Input
+            label="Hasta (AAAA-MM-DD)"
+            value={draft.endsOn}
+            onChangeText={endsOn => setDraft({ ...draft, endsOn })}
+          />
+          <Text style={styles.fieldLabel}>Solo algunas horas (opcional)</Text>
+          <View style={styles.windowRow}>
+            <TextInput
+              style={styles.timeField}
+              value={draft.timeStart}
+              onChangeText={timeStart => setDraft({ ...draft, timeStart })}
+              placeholder="10:00"
+              placeholderTextColor={colors.neutral[400]}
+              maxLength={5}
+            />
+            <Text style={styles.windowSeparator}>a</Text>
+            <TextInput
+              style={styles.timeField}
+              value={draft.timeEnd}
+              onChangeText={timeEnd => setDraft({ ...draft, timeEnd })}
+              placeholder="12:00"
+              placeholderTextColor={colors.neutral[400]}
+              maxLength={5}
+            />
+          </View>
+          <Input
+            label="Nota (opcional)"
+            placeholder="Solo la ves tú"
+            value={draft.note}
+            onChangeText={note => setDraft({ ...draft, note })}
+            maxLength={200}
+          />
+          <Text style={styles.helperText}>
+            Los trabajos ya agendados en esas fechas no se cancelan solos; cancélalos desde tus trabajos.
+          </Text>
+          <View style={styles.actions}>
+            <Button title="Cancelar" variant="secondary" onPress={() => setDraft(null)} style={styles.actionButton} />
+            <Button
+              title="Bloquear"
+              onPress={handleAddException}
+              loading={isSaving}
+              disabled={isSaving}
+              style={styles.actionButton}
+            />
+          </View>
+        </View>
+      )}
+
+      <Text style={styles.sectionTitle}>Próximos horarios libres</Text>
+      {Object.keys(slotsByDay).length === 0 && (
+        <Text style={styles.helperText}>No tienes horarios libres en los próximos {PREVIEW_DAYS} días.</Text>
+      )}
+      {Object.entries(slotsByDay).map(([date, daySlots]) => (
+        <View key={date} style={styles.slotDay}>
+          <Text style={styles.slotDayName}>{formatSlotDay(date)}</Text>
+          <Text style={styles.slotTimes}>
+            {daySlots.slice(0, PREVIEW_SLOTS_PER_DAY).map(slot => slot.start).join(' · ')}
+            {daySlots.length > PREVIEW_SLOTS_PER_DAY ? ` y ${daySlots.length - PREVIEW_SLOTS_PER_DAY} más` : ''}
+          </Text>
+        </View>
+      ))}
     </View>
   );
 };
 
 const styles = StyleSheet.create({
   container: {
-    padding: 20,
+    padding: spacing[4],
+  },
+  loading: {
+    padding: spacing[6],
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.neutral[900],
+    marginTop: spacing[6],
+    marginBottom: spacing[3],
+  },
+  switchRow: {
+    flexDirection: 'row',
     alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: spacing[3],
   },
-  title: {
-    fontSize: 18,
+  switchText: {
+    flex: 1,
+    marginRight: spacing[3],
+  },
+  switchLabel: {
+    fontSize: 15,
+    color: colors.neutral[900],
+  },
+  helperText: {
+    fontSize: 13,
+    color: colors.neutral[500],
+    marginTop: 2,
+  },
+  errorText: {
+    fontSize: 13,
+    color: colors.error[600],
+    marginBottom: spacing[2],
+  },
+  dayRow: {
+    paddingVertical: spacing[2],
+    borderBottomWidth: 1,
+    borderBottomColor: colors.neutral[100],
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  dayName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: colors.neutral[900],
+  },
+  dayHours: {
+    fontSize: 14,
+    color: colors.neutral[600],
+  },
+  windowRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing[2],
+  },
+  timeField: {
+    width: 72,
+    borderWidth: 1,
+    borderColor: colors.neutral[300],
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing[2],
+    paddingVertical: spacing[2],
+    fontSize: 14,
+    color: colors.neutral[900],
+    textAlign: 'center',
+  },
+  windowSeparator: {
+    fontSize: 14,
+    color: colors.neutral[500],
+    marginHorizontal: spacing[2],
+  },
+  removeText: {
+    fontSize: 13,
+    color: colors.error[600],
+    marginLeft: spacing[3],
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary[500],
+    marginTop: spacing[2],
+  },
+  saveButton: {
+    marginTop: spacing[2],
+  },
+  summary: {
+    padding: spacing[3],
+    borderRadius: borderRadius.lg,
+    backgroundColor: colors.neutral[50],
+  },
+  summaryText: {
+    fontSize: 14,
+    color: colors.neutral[700],
+    marginBottom: spacing[1],
+  },
+  exceptionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing[2],
+    borderBottomWidth: 1,
+    borderBottomColor: colors.neutral[100],
+  },
+  exceptionText: {
+    flex: 1,
+  },
+  exceptionTitle: {
+    fontSize: 14,
+    color: colors.neutral[900],
+  },
+  draft: {
+    marginTop: spacing[3],
+    padding: spacing[3],
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderColor: colors.neutral[200],
+    backgroundColor: colors.neutral[0],
+  },
+  kindRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: spacing[3],
+  },
+  kindChip: {
+    paddingHorizontal: spacing[3],
+    paddingVertical: spacing[1],
+    marginRight: spacing[2],
+    marginBottom: spacing[2],
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.neutral[300],
+  },
+  kindChipActive: {
+    borderColor: colors.primary[500],
+    backgroundColor: colors.primary[50],
+  },
+  kindChipText: {
+    fontSize: 13,
+    color: colors.neutral[700],
+  },
+  kindChipTextActive: {
+    color: colors.primary[500],
     fontWeight: '600',
-    color: '#333333',
-    marginBottom: 8,
   },
-  subtitle: {
+  fieldLabel: {
+    fontSize: 12,
+    color: colors.neutral[500],
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: spacing[3],
+  },
+  actionButton: {
+    flex: 1,
+    marginHorizontal: spacing[1],
+  },
+  slotDay: {
+    flexDirection: 'row',
+    paddingVertical: spacing[2],
+  },
+  slotDayName: {
+    width: 96,
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.neutral[800],
+    textTransform: 'capitalize',
+  },
+  slotTimes: {
+    flex: 1,
     fontSize: 14,
-    color: '#666666',
+    color: colors.neutral[600],
   },
-});
\ No newline at end of file
+});
@@ -0,0 +1,200 @@
+/**
+ * CareInstructionsPicker Component
+ *
+ * Completion step in JobExecutionScreen. Providers tick the care instructions that
+ * apply from the templates for the job's category, or write their own; they are saved
+ * with the booking at check-out. Time-based ones ("cada 3 meses") show the reminder
+ * the customer will get.
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Button, Input } from '../ui';
+import { colors, spacing, borderRadius } from '../../design/tokens';
+import { CareInstructionDraft } from '../../types/careInstructions';
+import {
+  MAX_CARE_INSTRUCTIONS,
+  MAX_CARE_INSTRUCTION_LENGTH,
+  describeCareReminder,
+  getCareReminder,
+  getSuggestedCareInstructions,
+  toCareInstructionDraft,
+} from '../../utils/careInstructions';
+
+interface CareInstructionsPickerProps {
+  projectTypeId: string | null;
+  category: string | null;
+  value: CareInstructionDraft[];
+  onChange: (instructions: CareInstructionDraft[]) => void;
+  disabled?: boolean;
+}
+
+export const CareInstructionsPicker: React.FC<CareInstructionsPickerProps> = ({
+  projectTypeId,
+  category,
+  value,
+  onChange,
+  disabled = false,
+}) => {
+  const [customText, setCustomText] = useState('');
+
+  const templates = getSuggestedCareInstructions(projectTypeId, category);
+  const customInstructions = value.filter(instruction => !instruction.templateId);
+  const isFull = value.length >= MAX_CARE_INSTRUCTIONS;
+  const customReminder = customText.trim() ? getCareReminder(customText) : null;
+
+  const isSelected = (templateId: string) => value.some(instruction => instruction.templateId === templateId);
+
+  const handleToggle = (templateId: string, text: string) => {
+    if (isSelected(templateId)) {
+      onChange(value.filter(instruction => instruction.templateId !== templateId));
+    } else if (!isFull) {
+      onChange([...value, toCareInstructionDraft(text, templateId)]);
+    }
+  };
+
+  const handleAddCustom = () => {
+    const text = customText.trim();
+    if (!text || isFull || value.some(instruction => instruction.text === text)) return;
+    onChange([...value, toCareInstructionDraft(text)]);
+    setCustomText('');
+  };
+
+  const handleRemoveCustom = (text: string) => {
+    onChange(value.filter(instruction => instruction.templateId || instruction.text !== text));
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Indicaciones de cuidado</Text>
+      <Text style={styles.subtitle}>
+        Elige las que aplican a este trabajo. El cliente las recibe al registrar tu salida y le recordaremos las
+        mantenciones periódicas.
+      </Text>
+
+      {templates.map(template => {
+        const selected = isSelected(template.id);
+        const reminder = getCareReminder(template.text);
+        return (
+          <TouchableOpacity
+            key={template.id}
+            style={[styles.option, selected && styles.optionSelected]}
+            onPress={() => handleToggle(template.id, template.text)}
+            disabled={disabled || (!selected && isFull)}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: selected }}
+          >
+            <View style={[styles.checkbox, selected && styles.checkboxSelected]}>
+              {selected && <Text style={styles.checkmark}>✓</Text>}
+            </View>
+            <View style={styles.optionBody}>
+              <Text style={styles.optionText}>{template.text}</Text>
+              {reminder && <Text style={styles.reminderText}>⏰ {describeCareReminder(reminder)}</Text>}
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+
+      {customInstructions.map(instruction => (
+        <View key={instruction.text} style={[styles.option, styles.optionSelected]}>
+          <View style={styles.optionBody}>
+            <Text style={styles.optionText}>{instruction.text}</Text>
+            {instruction.reminder && (
+              <Text style={styles.reminderText}>⏰ {describeCareReminder(instruction.reminder)}</Text>
+            )}
+          </View>
+          <TouchableOpacity
+            onPress={() => handleRemoveCustom(instruction.text)}
+            disabled={disabled}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <Text style={styles.removeText}>Quitar</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <Input
+        label="Agregar una indicación propia"
+        placeholder="Ej: Revisar la llave de paso cada 6 meses"
+        value={customText}
+        onChangeText={setCustomText}
+        maxLength={MAX_CARE_INSTRUCTION_LENGTH}
+        helperText={customReminder ? describeCareReminder(customReminder) : undefined}
+        editable={!disabled && !isFull}
+      />
+      <Button
+        title="Agregar indicación"
+        variant="secondary"
+        onPress={handleAddCustom}
+        disabled={disabled || isFull || !customText.trim()}
+      />
+
+      {isFull && (
+        <Text style={styles.subtitle}>Puedes dejar hasta {MAX_CARE_INSTRUCTIONS} indicaciones por trabajo.</Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing[2],
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.neutral[900],
+  },
+  subtitle: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: colors.neutral[600],
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: spacing[3],
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.neutral[200],
+  },
+  optionSelected: {
+    borderColor: colors.primary[500],
+    backgroundColor: colors.primary[50],
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: colors.neutral[400],
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: spacing[3],
+  },
+  checkboxSelected: {
+    borderColor: colors.primary[500],
+    backgroundColor: colors.primary[500],
+  },
+  checkmark: {
+    fontSize: 13,
+    color: '#FFFFFF',
+  },
+  optionBody: {
+    flex: 1,
+  },
+  optionText: {
+    fontSize: 14,
+    color: colors.neutral[900],
+  },
+  reminderText: {
+    fontSize: 12,
+    color: colors.neutral[500],
+    marginTop: 2,
+  },
+  removeText: {
+    fontSize: 13,
+    color: colors.error[500],
+    marginLeft: spacing[3],
+  },
+});
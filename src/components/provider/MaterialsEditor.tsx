@@ -0,0 +1,454 @@
+/**
+ * MaterialsEditor Component
+ *
+ * Materials sheet in QuoteScreen. Providers pick materials from the catalog for the
+ * job's service category (autocomplete with their own price, else the reference
+ * price) or add a free-form row, then set quantity and price per unit.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { Button, Input } from '../ui';
+import { colors, spacing, borderRadius } from '../../design/tokens';
+import { MaterialCatalogService } from '../../services/materialCatalogService';
+import { CatalogMaterial, MaterialItem } from '../../types/materials';
+import {
+  calculateMaterialSubtotal,
+  catalogMaterialToItem,
+  formatMaterialUnit,
+  getCatalogMaterialPrice,
+  getChangedProviderPrices,
+} from '../../utils/materials';
+
+export type { MaterialItem } from '../../types/materials';
+
+interface MaterialsEditorProps {
+  initialMaterials: MaterialItem[];
+  initialNotes?: string;
+  // Service category of the job, to suggest its materials first
+  serviceId?: string | null;
+  // Needed to remember the provider's prices for catalog materials
+  providerId?: string | null;
+  onSave: (materials: MaterialItem[], notes?: string) => void;
+  onCancel: () => void;
+}
+
+// Quantity and price as typed, so "1," or an empty field survive while editing
+interface EditorRow extends MaterialItem {
+  id: string;
+  quantityText: string;
+  priceText: string;
+}
+
+const SUGGESTION_LIMIT = 8;
+
+const formatCLP = (amount: number) => `$${Math.round(amount).toLocaleString('es-CL')}`;
+
+const parseDecimal = (text: string) => {
+  const value = parseFloat(text.replace(',', '.'));
+  return Number.isFinite(value) && value >= 0 ? value : 0;
+};
+
+let rowCounter = 0;
+const nextRowId = () => `material-${Date.now()}-${rowCounter++}`;
+
+const toRow = (item: MaterialItem): EditorRow => ({
+  ...item,
+  id: item.id || nextRowId(),
+  quantityText: String(item.quantity ?? 1),
+  priceText: String(Math.round(item.price_per_unit ?? 0)),
+});
+
+export const MaterialsEditor: React.FC<MaterialsEditorProps> = ({
+  initialMaterials,
+  initialNotes = '',
+  serviceId,
+  providerId,
+  onSave,
+  onCancel,
+}) => {
+  const [rows, setRows] = useState<EditorRow[]>(() => initialMaterials.map(toRow));
+  const [notes, setNotes] = useState(initialNotes);
+  const [query, setQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<CatalogMaterial[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | undefined>();
+  const [rememberPrices, setRememberPrices] = useState(true);
+  const searchTimeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  // Provider's saved price per catalog item, as last seen in the search results
+  const savedPricesRef = useRef<Record<string, number>>({});
+
+  // Search the catalog as the provider types; an empty query lists the category's usual materials
+  useEffect(() => {
+    if (searchTimeoutRef.current) {
+      clearTimeout(searchTimeoutRef.current);
+    }
+
+    searchTimeoutRef.current = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const results = await MaterialCatalogService.search(query, serviceId, SUGGESTION_LIMIT);
+        results.forEach(material => {
+          if (material.providerPrice !== null) savedPricesRef.current[material.id] = material.providerPrice;
+        });
+        setSuggestions(results);
+        setSearchError(undefined);
+      } catch (error) {
+        setSearchError(error instanceof Error ? error.message : 'No pudimos buscar materiales.');
+      } finally {
+        setIsSearching(false);
+      }
+    }, query ? 300 : 0);
+
+    return () => {
+      if (searchTimeoutRef.current) {
+        clearTimeout(searchTimeoutRef.current);
+      }
+    };
+  }, [query, serviceId]);
+
+  const updateRow = (id: string, changes: Partial<EditorRow>) => {
+    setRows(prev => prev.map(row => {
+      if (row.id !== id) return row;
+      const next = { ...row, ...changes };
+      next.quantity = parseDecimal(next.quantityText);
+      next.price_per_unit = Math.round(parseDecimal(next.priceText));
+      next.subtotal = calculateMaterialSubtotal(next.quantity, next.price_per_unit);
+      return next;
+    }));
+  };
+
+  const handleAddFromCatalog = (material: CatalogMaterial) => {
+    // Picking an item already in the list adds one more of it
+    const existing = rows.find(row => row.catalog_item_id === material.id);
+    if (existing) {
+      updateRow(existing.id, { quantityText: String(existing.quantity + 1) });
+    } else {
+      setRows(prev => [...prev, toRow(catalogMaterialToItem(material, nextRowId()))]);
+    }
+    setQuery('');
+  };
+
+  const handleAddCustom = () => {
+    setRows(prev => [
+      ...prev,
+      toRow({ id: nextRowId(), catalog_item_id: null, name: query.trim(), quantity: 1, unit: 'unidad', price_per_unit: 0, subtotal: 0 }),
+    ]);
+    setQuery('');
+  };
+
+  const handleRemove = (id: string) => {
+    setRows(prev => prev.filter(row => row.id !== id));
+  };
+
+  const handleSave = () => {
+    const materials: MaterialItem[] = rows
+      .filter(row => row.name.trim() && row.quantity > 0)
+      .map(row => ({
+        id: row.id,
+        catalog_item_id: row.catalog_item_id ?? null,
+        name: row.name.trim(),
+        quantity: row.quantity,
+        unit: row.unit.trim() || 'unidad',
+        price_per_unit: row.price_per_unit,
+        subtotal: row.subtotal,
+      }));
+
+    if (rememberPrices && providerId) {
+      // Remembering prices never blocks the quote
+      MaterialCatalogService.saveProviderPrices(providerId, getChangedProviderPrices(materials, savedPricesRef.current))
+        .catch(error => console.warn('⚠️ Material prices not saved:', error));
+    }
+
+    onSave(materials, notes.trim() || undefined);
+  };
+
+  const total = rows.reduce((sum, row) => sum + row.subtotal, 0);
+  const hasCatalogRows = rows.some(row => row.catalog_item_id);
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Input
+          label="Buscar en el catálogo"
+          placeholder="Ej: cañería PVC, cable 2,5, látex"
+          value={query}
+          onChangeText={setQuery}
+          error={searchError}
+          returnKeyType="search"
+        />
+
+        <View style={styles.suggestions}>
+          {isSearching && <ActivityIndicator color={colors.primary[500]} />}
+          {!isSearching && suggestions.map(material => (
+            <TouchableOpacity
+              key={material.id}
+              style={styles.suggestion}
+              onPress={() => handleAddFromCatalog(material)}
+            >
+              <View style={styles.suggestionText}>
+                <Text style={styles.suggestionName} numberOfLines={1}>
+                  {material.name}{material.brand ? ` · ${material.brand}` : ''}
+                </Text>
+                <Text style={styles.suggestionMeta}>
+                  {material.providerPrice !== null ? 'Tu precio' : 'Precio referencia'}
+                  {material.marketPrice !== null ? ` · Mercado ${formatCLP(material.marketPrice)}` : ''}
+                </Text>
+              </View>
+              <Text style={styles.suggestionPrice}>
+                {formatCLP(getCatalogMaterialPrice(material))}/{formatMaterialUnit(material.unit)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          {!isSearching && query.trim().length > 0 && suggestions.length === 0 && (
+            <Text style={styles.emptyText}>No está en el catálogo.</Text>
+          )}
+          <TouchableOpacity onPress={handleAddCustom}>
+            <Text style={styles.linkText}>
+              {query.trim() ? `+ Agregar "${query.trim()}" sin catálogo` : '+ Agregar material sin catálogo'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {rows.map(row => (
+          <View key={row.id} style={styles.row}>
+            <View style={styles.rowHeader}>
+              {row.catalog_item_id ? (
+                <Text style={styles.rowName} numberOfLines={2}>{row.name}</Text>
+              ) : (
+                <TextInput
+                  style={[styles.field, styles.rowNameInput]}
+                  value={row.name}
+                  onChangeText={text => updateRow(row.id, { name: text })}
+                  placeholder="Nombre del material"
+                  placeholderTextColor={colors.neutral[400]}
+                />
+              )}
+              <TouchableOpacity onPress={() => handleRemove(row.id)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                <Text style={styles.removeText}>Quitar</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.rowFields}>
+              <View style={styles.fieldGroup}>
+                <Text style={styles.fieldLabel}>Cantidad</Text>
+                <TextInput
+                  style={styles.field}
+                  value={row.quantityText}
+                  onChangeText={text => updateRow(row.id, { quantityText: text })}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+              <View style={styles.fieldGroup}>
+                <Text style={styles.fieldLabel}>Unidad</Text>
+                {row.catalog_item_id ? (
+                  <Text style={styles.fieldValue}>{formatMaterialUnit(row.unit)}</Text>
+                ) : (
+                  <TextInput
+                    style={styles.field}
+                    value={row.unit}
+                    onChangeText={text => updateRow(row.id, { unit: text })}
+                    autoCapitalize="none"
+                  />
+                )}
+              </View>
+              <View style={styles.fieldGroup}>
+                <Text style={styles.fieldLabel}>Precio c/u</Text>
+                <TextInput
+                  style={styles.field}
+                  value={row.priceText}
+                  onChangeText={text => updateRow(row.id, { priceText: text.replace(/\D/g, '') })}
+                  keyboardType="number-pad"
+                />
+              </View>
+            </View>
+            <Text style={styles.subtotal}>{formatCLP(row.subtotal)}</Text>
+          </View>
+        ))}
+
+        {rows.length > 0 && (
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Total materiales</Text>
+            <Text style={styles.totalValue}>{formatCLP(total)}</Text>
+          </View>
+        )}
+
+        {hasCatalogRows && providerId && (
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>Recordar mis precios para próximas cotizaciones</Text>
+            <Switch value={rememberPrices} onValueChange={setRememberPrices} />
+          </View>
+        )}
+
+        <Input
+          label="Notas sobre materiales"
+          placeholder="Ej: El cliente compra la cerámica; yo llevo adhesivo y fragüe"
+          value={notes}
+          onChangeText={setNotes}
+          multiline
+          maxLength={300}
+        />
+      </ScrollView>
+
+      <View style={styles.actions}>
+        <Button title="Cancelar" variant="secondary" onPress={onCancel} style={styles.actionButton} />
+        <Button title="Guardar" onPress={handleSave} style={styles.actionButton} />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingBottom: spacing[6],
+  },
+  suggestions: {
+    marginBottom: spacing[4],
+  },
+  suggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing[2],
+    borderBottomWidth: 1,
+    borderBottomColor: colors.neutral[100],
+  },
+  suggestionText: {
+    flex: 1,
+    marginRight: spacing[3],
+  },
+  suggestionName: {
+    fontSize: 14,
+    color: colors.neutral[900],
+  },
+  suggestionMeta: {
+    fontSize: 12,
+    color: colors.neutral[500],
+    marginTop: 2,
+  },
+  suggestionPrice: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.neutral[800],
+  },
+  emptyText: {
+    fontSize: 13,
+    color: colors.neutral[500],
+    marginVertical: spacing[2],
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary[500],
+    marginTop: spacing[3],
+  },
+  row: {
+    padding: spacing[3],
+    marginBottom: spacing[3],
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderColor: colors.neutral[200],
+    backgroundColor: colors.neutral[0],
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  rowName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.neutral[900],
+  },
+  rowNameInput: {
+    flex: 1,
+  },
+  removeText: {
+    fontSize: 13,
+    color: colors.error[600],
+    marginLeft: spacing[3],
+  },
+  rowFields: {
+    flexDirection: 'row',
+    marginTop: spacing[3],
+  },
+  fieldGroup: {
+    flex: 1,
+    marginRight: spacing[2],
+  },
+  fieldLabel: {
+    fontSize: 12,
+    color: colors.neutral[500],
+    marginBottom: spacing[1],
+  },
+  field: {
+    borderWidth: 1,
+    borderColor: colors.neutral[300],
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing[2],
+    paddingVertical: spacing[2],
+    fontSize: 14,
+    color: colors.neutral[900],
+  },
+  fieldValue: {
+    fontSize: 14,
+    color: colors.neutral[800],
+    paddingVertical: spacing[2],
+  },
+  subtotal: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.neutral[800],
+    textAlign: 'right',
+    marginTop: spacing[2],
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing[4],
+  },
+  totalLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.neutral[900],
+  },
+  totalValue: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.neutral[900],
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: spacing[4],
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.neutral[700],
+    marginRight: spacing[3],
+  },
+  actions: {
+    flexDirection: 'row',
+    paddingTop: spacing[3],
+    borderTopWidth: 1,
+    borderTopColor: colors.neutral[200],
+  },
+  actionButton: {
+    flex: 1,
+    marginHorizontal: spacing[1],
+  },
+});
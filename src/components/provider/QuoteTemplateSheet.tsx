@@ -0,0 +1,283 @@
+/**
+ * QuoteTemplateSheet Component
+ *
+ * Bottom sheet in QuoteScreen to apply one of the provider's saved quote templates
+ * or save the quote being composed as a new one.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Button, Input } from '../ui';
+import { colors, spacing, borderRadius } from '../../design/tokens';
+import { QuoteTemplateService } from '../../services/quoteTemplateService';
+import { QuoteTemplate } from '../../types/quoteTemplates';
+import { sumTemplateLabor } from '../../utils/quoteTemplates';
+
+export interface QuoteTemplateSaveOptions {
+  name: string;
+  // Save for this project type only, or for any job
+  forProjectType: boolean;
+  // Tie labor prices to the provider's rates
+  followRates: boolean;
+}
+
+interface QuoteTemplateSheetProps {
+  visible: boolean;
+  projectTypeId: string | null;
+  projectTypeName: string;
+  onApply: (template: QuoteTemplate) => void;
+  onSave: (options: QuoteTemplateSaveOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+const formatCLP = (amount: number) => `$${Math.round(amount).toLocaleString('es-CL')}`;
+
+export const QuoteTemplateSheet: React.FC<QuoteTemplateSheetProps> = ({
+  visible,
+  projectTypeId,
+  projectTypeName,
+  onApply,
+  onSave,
+  onClose,
+}) => {
+  const [templates, setTemplates] = useState<QuoteTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [forProjectType, setForProjectType] = useState(projectTypeId !== null);
+  const [followRates, setFollowRates] = useState(true);
+  const [nameError, setNameError] = useState<string | undefined>();
+
+  const loadTemplates = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setTemplates(await QuoteTemplateService.getTemplates(projectTypeId));
+    } catch (error) {
+      Alert.alert('Plantillas', error instanceof Error ? error.message : 'No pudimos cargar tus plantillas.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectTypeId]);
+
+  useEffect(() => {
+    if (!visible) return;
+    setName('');
+    setNameError(undefined);
+    loadTemplates();
+  }, [visible, loadTemplates]);
+
+  const handleDelete = (template: QuoteTemplate) => {
+    Alert.alert('Eliminar plantilla', `¿Eliminar "${template.name}"? Se borrará en todos tus dispositivos.`, [
+      { text: 'Cancelar', style: 'cancel' },
+      {
+        text: 'Eliminar',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await QuoteTemplateService.deleteTemplate(template.id);
+            setTemplates(prev => prev.filter(item => item.id !== template.id));
+          } catch (error) {
+            Alert.alert('Plantillas', error instanceof Error ? error.message : 'No pudimos eliminar la plantilla.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setNameError('Ponle un nombre a la plantilla');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave({ name: name.trim(), forProjectType: forProjectType && projectTypeId !== null, followRates });
+      setName('');
+      setNameError(undefined);
+      await loadTemplates();
+    } catch (error) {
+      setNameError(error instanceof Error ? error.message : 'No pudimos guardar la plantilla.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Plantillas</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.closeText}>Cerrar</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {isLoading && <ActivityIndicator color={colors.primary[500]} />}
+          {!isLoading && templates.length === 0 && (
+            <Text style={styles.emptyText}>
+              Aún no tienes plantillas. Guarda esta cotización para reutilizarla en trabajos parecidos.
+            </Text>
+          )}
+
+          {templates.map(template => (
+            <TouchableOpacity
+              key={template.id}
+              style={styles.templateCard}
+              onPress={() => onApply(template)}
+            >
+              <View style={styles.templateHeader}>
+                <Text style={styles.templateName} numberOfLines={1}>{template.name}</Text>
+                <TouchableOpacity onPress={() => handleDelete(template)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                  <Text style={styles.deleteText}>Eliminar</Text>
+                </TouchableOpacity>
+              </View>
+              <Text style={styles.templateMeta}>
+                {template.projectTypeName || 'Cualquier trabajo'}
+                {' · '}{template.laborItems.length} ítems de mano de obra
+                {template.materialsItems.length > 0 ? ` · ${template.materialsItems.length} materiales` : ''}
+              </Text>
+              <Text style={styles.templateTotal}>Mano de obra {formatCLP(sumTemplateLabor(template.laborItems))}</Text>
+              {template.pricesChanged && (
+                <Text style={styles.updatedText}>Precios actualizados a tus tarifas actuales</Text>
+              )}
+            </TouchableOpacity>
+          ))}
+
+          <View style={styles.saveSection}>
+            <Text style={styles.sectionTitle}>Guardar cotización actual</Text>
+            <Input
+              label="Nombre"
+              placeholder="Ej: Baño completo estándar"
+              value={name}
+              onChangeText={setName}
+              error={nameError}
+              maxLength={60}
+            />
+            {projectTypeId !== null && (
+              <View style={styles.switchRow}>
+                <Text style={styles.switchLabel}>Solo para {projectTypeName}</Text>
+                <Switch value={forProjectType} onValueChange={setForProjectType} />
+              </View>
+            )}
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>Actualizar precios cuando cambie mis tarifas</Text>
+              <Switch value={followRates} onValueChange={setFollowRates} />
+            </View>
+            <Button title="Guardar plantilla" onPress={handleSave} loading={isSaving} disabled={isSaving} />
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.neutral[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: spacing[5],
+    borderBottomWidth: 1,
+    borderBottomColor: colors.neutral[200],
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.neutral[900],
+  },
+  closeText: {
+    fontSize: 15,
+    color: colors.primary[500],
+  },
+  content: {
+    padding: spacing[5],
+    paddingBottom: spacing[12],
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.neutral[500],
+    textAlign: 'center',
+    marginVertical: spacing[6],
+  },
+  templateCard: {
+    padding: spacing[4],
+    marginBottom: spacing[3],
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderColor: colors.neutral[200],
+    backgroundColor: colors.neutral[0],
+  },
+  templateHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  templateName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.neutral[900],
+  },
+  deleteText: {
+    fontSize: 13,
+    color: colors.error[600],
+    marginLeft: spacing[3],
+  },
+  templateMeta: {
+    fontSize: 13,
+    color: colors.neutral[500],
+    marginTop: spacing[1],
+  },
+  templateTotal: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.neutral[800],
+    marginTop: spacing[2],
+  },
+  updatedText: {
+    fontSize: 12,
+    color: colors.warning[700],
+    marginTop: spacing[1],
+  },
+  saveSection: {
+    marginTop: spacing[6],
+    paddingTop: spacing[5],
+    borderTopWidth: 1,
+    borderTopColor: colors.neutral[200],
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.neutral[900],
+    marginBottom: spacing[3],
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: spacing[4],
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.neutral[700],
+    marginRight: spacing[3],
+  },
+});
@@ -0,0 +1,252 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Button, Input } from '../ui';
+import { colors, spacing, borderRadius } from '../../design/tokens';
+import { CustomerQuote } from '../../types/quoteInbox';
+import { QuoteChangeRequestInput, QuoteChangeTopic } from '../../types/quoteNegotiation';
+import { getUpcomingDays, isSlotInPast, TIME_WINDOW_OPTIONS } from '../../utils/timeSlots';
+import { QUOTE_CHANGE_TOPIC_LABELS, validateQuoteChangeRequest } from '../../utils/quoteNegotiation';
+
+interface QuoteChangeRequestModalProps {
+  quote: CustomerQuote | null;
+  isVisible: boolean;
+  isSubmitting?: boolean;
+  onSubmit: (input: QuoteChangeRequestInput) => void;
+  onCancel: () => void;
+}
+
+const TOPICS: QuoteChangeTopic[] = ['price', 'date', 'materials'];
+
+const formatCLP = (amount: number) => `$${Math.round(amount).toLocaleString('es-CL')}`;
+
+export const QuoteChangeRequestModal: React.FC<QuoteChangeRequestModalProps> = ({
+  quote,
+  isVisible,
+  isSubmitting = false,
+  onSubmit,
+  onCancel,
+}) => {
+  const [topics, setTopics] = useState<QuoteChangeTopic[]>([]);
+  const [proposedPrice, setProposedPrice] = useState('');
+  const [proposedDate, setProposedDate] = useState<string | null>(null);
+  const [timeWindow, setTimeWindow] = useState<{ start: string; end: string } | null>(null);
+  const [materialsNote, setMaterialsNote] = useState('');
+  const [message, setMessage] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  // Each opening starts a fresh request
+  useEffect(() => {
+    if (!isVisible) return;
+    setTopics([]);
+    setProposedPrice('');
+    setProposedDate(null);
+    setTimeWindow(null);
+    setMaterialsNote('');
+    setMessage('');
+    setErrors({});
+  }, [isVisible, quote?.id]);
+
+  if (!quote) return null;
+
+  const toggleTopic = (topic: QuoteChangeTopic) => {
+    setTopics(prev => (prev.includes(topic) ? prev.filter(item => item !== topic) : [...prev, topic]));
+  };
+
+  const handleSubmit = () => {
+    const price = parseInt(proposedPrice.replace(/\D/g, ''), 10);
+    const input: QuoteChangeRequestInput = {
+      topics,
+      proposedPrice: topics.includes('price') && !Number.isNaN(price) ? price : null,
+      proposedDate: topics.includes('date') ? proposedDate : null,
+      proposedTimeStart: topics.includes('date') ? timeWindow?.start ?? null : null,
+      proposedTimeEnd: topics.includes('date') ? timeWindow?.end ?? null : null,
+      materialsNote: topics.includes('materials') ? materialsNote : undefined,
+      message,
+    };
+
+    const validationErrors = validateQuoteChangeRequest(input, quote.breakdown.total);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    onSubmit(input);
+  };
+
+  return (
+    <Modal visible={isVisible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onCancel}>
+      <KeyboardAvoidingView style={styles.container} behavior={Platform.OS === 'ios' ? 'padding' : 'height'}>
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.title}>Pedir cambios</Text>
+          <Text style={styles.subtitle}>
+            {quote.provider.businessName || quote.provider.name} · v{quote.version} · {formatCLP(quote.breakdown.total)}
+          </Text>
+
+          <Text style={styles.fieldLabel}>¿Qué quieres cambiar?</Text>
+          <View style={styles.chipWrap}>
+            {TOPICS.map(topic => (
+              <TouchableOpacity
+                key={topic}
+                style={[styles.chip, topics.includes(topic) && styles.activeChip]}
+                onPress={() => toggleTopic(topic)}
+              >
+                <Text style={[styles.chipText, topics.includes(topic) && styles.activeChipText]}>
+                  {QUOTE_CHANGE_TOPIC_LABELS[topic]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {!!errors.topics && <Text style={styles.errorText}>{errors.topics}</Text>}
+
+          {topics.includes('price') && (
+            <Input
+              label="Tu oferta (CLP, total)"
+              placeholder={formatCLP(Math.round(quote.breakdown.total * 0.9))}
+              value={proposedPrice}
+              onChangeText={setProposedPrice}
+              keyboardType="numeric"
+              error={errors.price}
+              helperText="Opcional: también puedes explicar el cambio en el mensaje"
+            />
+          )}
+
+          {topics.includes('date') && (
+            <View>
+              <Text style={styles.fieldLabel}>Fecha</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+                {getUpcomingDays(14).map(day => (
+                  <TouchableOpacity
+                    key={day.date}
+                    style={[styles.chip, proposedDate === day.date && styles.activeChip]}
+                    onPress={() => {
+                      setProposedDate(day.date);
+                      if (timeWindow && isSlotInPast({ date: day.date, ...timeWindow })) setTimeWindow(null);
+                    }}
+                  >
+                    <Text style={[styles.chipText, proposedDate === day.date && styles.activeChipText]}>{day.label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+              <View style={styles.chipWrap}>
+                {TIME_WINDOW_OPTIONS.map(option => {
+                  const isActive = timeWindow?.start === option.start;
+                  const isPast = !!proposedDate && isSlotInPast({ date: proposedDate, start: option.start, end: option.end });
+                  return (
+                    <TouchableOpacity
+                      key={option.start}
+                      style={[styles.chip, isActive && styles.activeChip, isPast && styles.disabledChip]}
+                      onPress={() => setTimeWindow({ start: option.start, end: option.end })}
+                      disabled={isPast}
+                    >
+                      <Text style={[styles.chipText, isActive && styles.activeChipText]}>{option.label}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              {!!errors.date && <Text style={styles.errorText}>{errors.date}</Text>}
+            </View>
+          )}
+
+          {topics.includes('materials') && (
+            <Input
+              label="Materiales"
+              placeholder="Ej: yo compro la cerámica, o usar pintura lavable"
+              value={materialsNote}
+              onChangeText={setMaterialsNote}
+              multiline
+              error={errors.materials}
+            />
+          )}
+
+          <Input
+            label="Mensaje al profesional"
+            placeholder="Cuéntale por qué pides el cambio"
+            value={message}
+            onChangeText={setMessage}
+            multiline
+            maxLength={500}
+          />
+
+          <Button title="Enviar solicitud" onPress={handleSubmit} loading={isSubmitting} disabled={isSubmitting} />
+          <Button title="Cancelar" variant="ghost" onPress={onCancel} disabled={isSubmitting} style={styles.cancelButton} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.neutral[0],
+  },
+  content: {
+    padding: spacing[5],
+    paddingBottom: spacing[12],
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: colors.neutral[900],
+  },
+  subtitle: {
+    fontSize: 14,
+    color: colors.neutral[500],
+    marginTop: spacing[1],
+    marginBottom: spacing[4],
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.neutral[700],
+    marginBottom: spacing[2],
+  },
+  chipRow: {
+    marginBottom: spacing[2],
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: spacing[3],
+  },
+  chip: {
+    paddingHorizontal: spacing[3],
+    paddingVertical: spacing[2],
+    marginRight: spacing[2],
+    marginBottom: spacing[2],
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.neutral[300],
+    backgroundColor: colors.neutral[0],
+  },
+  activeChip: {
+    borderColor: colors.primary[500],
+    backgroundColor: colors.primary[50],
+  },
+  disabledChip: {
+    opacity: 0.4,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.neutral[700],
+  },
+  activeChipText: {
+    color: colors.primary[700],
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 12,
+    color: colors.error[600],
+    marginBottom: spacing[3],
+  },
+  cancelButton: {
+    marginTop: spacing[2],
+  },
+});
@@ -0,0 +1,66 @@
+/**
+ * QuotePdfShareButton Component
+ *
+ * Generates the PDF "cotización" for the current version of a quote and offers to
+ * send it by WhatsApp, email or the system share sheet.
+ */
+
+import React, { useState } from 'react';
+import { Text, StyleSheet, TouchableOpacity, Alert, ActivityIndicator, StyleProp, ViewStyle } from 'react-native';
+import { colors, spacing } from '../../design/tokens';
+import { QuoteDocumentService } from '../../services/quoteDocumentService';
+
+interface QuotePdfShareButtonProps {
+  quoteId: string;
+  // Job title, used in the shared message
+  title: string;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Same flow as the button, for screens that offer it from an alert
+ */
+export const shareQuotePdf = async (quoteId: string, title: string): Promise<void> => {
+  const document = await QuoteDocumentService.getQuotePdf(quoteId);
+
+  Alert.alert('Compartir cotización', `Cotización ${document.documentNumber}`, [
+    { text: 'WhatsApp', onPress: () => QuoteDocumentService.share(document, 'whatsapp', title) },
+    { text: 'Correo', onPress: () => QuoteDocumentService.share(document, 'email', title) },
+    { text: 'Otra app', onPress: () => QuoteDocumentService.share(document, 'other', title) },
+    { text: 'Cancelar', style: 'cancel' },
+  ]);
+};
+
+export const QuotePdfShareButton: React.FC<QuotePdfShareButtonProps> = ({ quoteId, title, style }) => {
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handlePress = async () => {
+    setIsGenerating(true);
+    try {
+      await shareQuotePdf(quoteId, title);
+    } catch (error) {
+      Alert.alert('PDF de cotización', error instanceof Error ? error.message : 'No pudimos generar el PDF de la cotización.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <TouchableOpacity style={[styles.button, style]} onPress={handlePress} disabled={isGenerating}>
+      {isGenerating
+        ? <ActivityIndicator size="small" color={colors.primary[500]} />
+        : <Text style={styles.text}>Descargar PDF o compartir</Text>}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    paddingVertical: spacing[2],
+  },
+  text: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.primary[500],
+  },
+});
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { colors, spacing, borderRadius } from '../../design/tokens';
+import { QuoteNegotiationService } from '../../services/quoteNegotiationService';
+import { QuoteChangeRequest, QuoteTimelineEntry } from '../../types/quoteNegotiation';
+import { describeRevisionChanges, QUOTE_CHANGE_TOPIC_LABELS } from '../../utils/quoteNegotiation';
+
+interface QuoteRevisionTimelineProps {
+  quoteId: string;
+  // Version the customer accepted, marked in the timeline
+  acceptedVersion: number | null;
+}
+
+const CHANGE_REQUEST_STATUS_LABELS: Record<QuoteChangeRequest['status'], string> = {
+  pending: 'Esperando respuesta',
+  answered: 'Respondida',
+  declined: 'Rechazada',
+  withdrawn: 'Cerrada',
+};
+
+const formatCLP = (amount: number) => `$${Math.round(amount).toLocaleString('es-CL')}`;
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString('es-CL', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+export const QuoteRevisionTimeline: React.FC<QuoteRevisionTimelineProps> = ({
+  quoteId,
+  acceptedVersion,
+}) => {
+  const [entries, setEntries] = useState<QuoteTimelineEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    QuoteNegotiationService.getTimeline(quoteId)
+      .then(result => {
+        if (cancelled) return;
+        setEntries(result);
+        setErrorMessage(null);
+      })
+      .catch((error: Error) => !cancelled && setErrorMessage(error.message))
+      .finally(() => !cancelled && setIsLoading(false));
+
+    return () => { cancelled = true; };
+  }, [quoteId]);
+
+  if (isLoading) {
+    return <ActivityIndicator style={styles.loading} color={colors.primary[500]} />;
+  }
+  if (errorMessage) {
+    return <Text style={styles.errorText}>{errorMessage}</Text>;
+  }
+
+  const renderChangeRequest = (changeRequest: QuoteChangeRequest) => (
+    <>
+      <Text style={styles.entryTitle}>
+        Pediste cambios en v{changeRequest.quoteVersion}: {changeRequest.topics.map(topic => QUOTE_CHANGE_TOPIC_LABELS[topic]).join(', ')}
+      </Text>
+      {changeRequest.proposedPrice !== null && (
+        <Text style={styles.entryLine}>Oferta: {formatCLP(changeRequest.proposedPrice)}</Text>
+      )}
+      {!!changeRequest.proposedDate && (
+        <Text style={styles.entryLine}>
+          Fecha propuesta: {changeRequest.proposedDate}
+          {changeRequest.proposedTimeStart ? ` ${changeRequest.proposedTimeStart}–${changeRequest.proposedTimeEnd}` : ''}
+        </Text>
+      )}
+      {!!changeRequest.materialsNote && <Text style={styles.entryLine}>Materiales: {changeRequest.materialsNote}</Text>}
+      {!!changeRequest.message && <Text style={styles.entryMessage}>“{changeRequest.message}”</Text>}
+      <Text style={styles.entryStatus}>{CHANGE_REQUEST_STATUS_LABELS[changeRequest.status]}</Text>
+      {!!changeRequest.responseMessage && (
+        <Text style={styles.entryMessage}>Profesional: “{changeRequest.responseMessage}”</Text>
+      )}
+    </>
+  );
+
+  return (
+    <View>
+      {entries.map(entry => {
+        if (entry.kind === 'change_request') {
+          return (
+            <View key={`request-${entry.changeRequest.id}`} style={[styles.entry, styles.customerEntry]}>
+              {renderChangeRequest(entry.changeRequest)}
+              <Text style={styles.entryTime}>{formatTimestamp(entry.at)}</Text>
+            </View>
+          );
+        }
+
+        const { revision } = entry;
+        const isAccepted = revision.version === acceptedVersion;
+        return (
+          <View key={`revision-${revision.id}`} style={[styles.entry, isAccepted && styles.acceptedEntry]}>
+            <View style={styles.entryHeader}>
+              <Text style={styles.entryTitle}>Versión {revision.version} · {formatCLP(revision.total)}</Text>
+              {isAccepted && <Text style={styles.acceptedBadge}>Aceptada</Text>}
+            </View>
+            {revision.version === 1 && <Text style={styles.entryLine}>Cotización original</Text>}
+            {describeRevisionChanges(revision.changes).map((line, index) => (
+              <Text key={index} style={styles.entryLine}>· {line}</Text>
+            ))}
+            {revision.version > 1 && !!revision.message && (
+              <Text style={styles.entryMessage}>“{revision.message}”</Text>
+            )}
+            <Text style={styles.entryTime}>{formatTimestamp(entry.at)}</Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  loading: {
+    marginVertical: spacing[2],
+  },
+  errorText: {
+    fontSize: 12,
+    color: colors.error[600],
+  },
+  entry: {
+    paddingLeft: spacing[3],
+    paddingVertical: spacing[2],
+    borderLeftWidth: 2,
+    borderLeftColor: colors.primary[200],
+  },
+  customerEntry: {
+    borderLeftColor: colors.warning[300],
+  },
+  acceptedEntry: {
+    borderLeftColor: colors.success[500],
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  entryTitle: {
+    flexShrink: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.neutral[900],
+  },
+  acceptedBadge: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.success[700],
+    backgroundColor: colors.success[50],
+    paddingHorizontal: spacing[2],
+    paddingVertical: 2,
+    borderRadius: borderRadius.full,
+    overflow: 'hidden',
+  },
+  entryLine: {
+    fontSize: 12,
+    color: colors.neutral[600],
+    marginTop: 2,
+  },
+  entryMessage: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    color: colors.neutral[700],
+    marginTop: spacing[1],
+  },
+  entryStatus: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.warning[700],
+    marginTop: spacing[1],
+  },
+  entryTime: {
+    fontSize: 11,
+    color: colors.neutral[400],
+    marginTop: spacing[1],
+  },
+});
@@ -0,0 +1,3 @@
+export { QuoteChangeRequestModal } from './QuoteChangeRequestModal';
+export { QuoteRevisionTimeline } from './QuoteRevisionTimeline';
+export { QuotePdfShareButton, shareQuotePdf } from './QuotePdfShareButton';
@@ -13,9 +13,11 @@ import {
 } from 'react-native';
 import { EnterpriseCard } from '../ui';
 import { colors, spacing, typography, borderRadius } from '../../design/tokens';
-import { SearchFilters, ServiceCategory, ProjectType } from '../../types/search';
+import { SearchFilters, SearchSortOption, ServiceCategory, ProjectType } from '../../types/search';
 import { SearchService } from '../../services/searchService';
-import { LocationService } from '../../services/locationService';
+import { LocationService, LocationSuggestion } from '../../services/locationService';
+import { matchServices, matchProjects } from '../../utils/searchQuery';
+import { TIME_WINDOW_OPTIONS, TimeWindowOption, getUpcomingDays, isSlotInPast } from '../../utils/timeSlots';
 
 const { width, height } = Dimensions.get('window');
 
@@ -24,14 +26,6 @@ interface LocationSearchInterfaceProps {
   initialSearchType?: 'project' | 'service';
 }
 
-interface LocationSuggestion {
-  id: string;
-  address: string;
-  commune: string;
-  region: string;
-  coordinates?: [number, number];
-}
-
 interface SearchSuggestion {
   id: string;
   name: string;
@@ -40,6 +34,15 @@ interface SearchSuggestion {
   synonyms: string[];
 }
 
+// Radius choices on the estimated driving distance (not routed, hence "~");
+// null searches the whole selected comuna/region
+const DISTANCE_OPTIONS: Array<{ label: string; value: number | null }> = [
+  { label: 'Cualquier distancia', value: null },
+  { label: 'Hasta ~5 km', value: 5 },
+  { label: 'Hasta ~10 km', value: 10 },
+  { label: 'Hasta ~25 km', value: 25 },
+];
+
 export const LocationSearchInterface: React.FC<LocationSearchInterfaceProps> = ({
   onSearch,
   initialSearchType = 'project',
@@ -50,6 +53,10 @@ export const LocationSearchInterface: React.FC<LocationSearchInterfaceProps> = (
   const [locationQuery, setLocationQuery] = useState('');
   const [selectedLocation, setSelectedLocation] = useState<LocationSuggestion | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const [maxDistanceKm, setMaxDistanceKm] = useState<number | null>(null);
+  const [sortBy, setSortBy] = useState<SearchSortOption>('relevance');
+  const [slotDate, setSlotDate] = useState<string | null>(null);
+  const [slotWindow, setSlotWindow] = useState<TimeWindowOption | null>(null);
 
   // Data state
   const [serviceCategories, setServiceCategories] = useState<ServiceCategory[]>([]);
@@ -169,38 +176,22 @@ export const LocationSearchInterface: React.FC<LocationSearchInterfaceProps> = (
     try {
       setIsLoadingSearch(true);
 
-      // Build comprehensive search suggestions with synonyms
-      const suggestions: SearchSuggestion[] = [];
-
-      if (searchType === 'service') {
-        serviceCategories.forEach(service => {
-          // Chilean service synonyms for better matching
-          const synonyms = getServiceSynonyms(service.name, service.id);
-          if (matchesQuery(query, service.name, synonyms)) {
-            suggestions.push({
-              id: service.id,
-              name: service.name,
-              type: 'service',
-              category: service.id,
-              synonyms
-            });
-          }
-        });
-      } else {
-        projectTypes.forEach(project => {
-          // Chilean project synonyms for better matching
-          const synonyms = getProjectSynonyms(project.name, project.id);
-          if (matchesQuery(query, project.name, synonyms)) {
-            suggestions.push({
-              id: project.id,
-              name: project.name,
-              type: 'project',
-              category: project.id,
-              synonyms
-            });
-          }
-        });
-      }
+      // Rank catalog entries with the Spanish query engine (typos, accents, slang)
+      const suggestions: SearchSuggestion[] = searchType === 'service'
+        ? matchServices(query, serviceCategories).map(candidate => ({
+            id: candidate.item.id,
+            name: candidate.item.name,
+            type: 'service' as const,
+            category: candidate.item.id,
+            synonyms: candidate.matchedTerms
+          }))
+        : matchProjects(query, projectTypes).map(candidate => ({
+            id: candidate.item.id,
+            name: candidate.item.name,
+            type: 'project' as const,
+            category: candidate.item.id,
+            synonyms: candidate.matchedTerms
+          }));
 
       setSearchSuggestions(suggestions.slice(0, 8)); // Limit to 8 suggestions
       setShowSearchSuggestions(suggestions.length > 0);
@@ -211,49 +202,6 @@ export const LocationSearchInterface: React.FC<LocationSearchInterfaceProps> = (
     }
   };
 
-  // Chilean-specific synonym matching
-  const getServiceSynonyms = (serviceName: string, serviceId: string): string[] => {
-    const synonymMap: Record<string, string[]> = {
-      'electricista': ['electricidad', 'eléctrico', 'luz', 'corriente', 'instalación eléctrica'],
-      'gasfiter': ['plomero', 'plomería', 'cañerías', 'agua', 'desagüe', 'baño'],
-      'limpieza_hogar': ['limpiar', 'limpieza', 'aseo', 'clean', 'cleaning', 'doméstica'],
-      'jardineria': ['jardín', 'pasto', 'plantas', 'césped', 'paisajismo'],
-      'pintor': ['pintura', 'pintar', 'paint', 'paredes'],
-      'carpintero': ['carpintería', 'madera', 'muebles', 'wood'],
-      'cerrajero': ['cerradura', 'llave', 'seguridad', 'lock'],
-      'tecnico_refrigeracion': ['refrigerador', 'nevera', 'aire acondicionado', 'frío']
-    };
-
-    return synonymMap[serviceId] || [serviceName.toLowerCase()];
-  };
-
-  const getProjectSynonyms = (projectName: string, projectId: string): string[] => {
-    const synonymMap: Record<string, string[]> = {
-      'reparar_bano': ['baño', 'bathroom', 'ducha', 'tina', 'inodoro', 'lavamanos'],
-      'renovar_cocina': ['cocina', 'kitchen', 'muebles cocina', 'mesón'],
-      'pintar_interior': ['pintar', 'pintura', 'paint', 'paredes', 'color'],
-      'limpieza_profunda': ['limpiar', 'limpieza', 'aseo', 'cleaning'],
-      'instalacion_electrica': ['electricidad', 'luz', 'cable', 'enchufes'],
-      'reparar_techo': ['techo', 'roof', 'goteras', 'filtraciones']
-    };
-
-    return synonymMap[projectId] || [projectName.toLowerCase()];
-  };
-
-  const matchesQuery = (query: string, name: string, synonyms: string[]): boolean => {
-    const lowerQuery = query.toLowerCase().trim();
-    const lowerName = name.toLowerCase();
-
-    // Direct name match
-    if (lowerName.includes(lowerQuery)) return true;
-
-    // Synonym match
-    return synonyms.some(synonym =>
-      synonym.toLowerCase().includes(lowerQuery) ||
-      lowerQuery.includes(synonym.toLowerCase())
-    );
-  };
-
   const handleLocationSelect = (location: LocationSuggestion) => {
     setSelectedLocation(location);
     setLocationQuery(location.address);
@@ -288,6 +236,9 @@ export const LocationSearchInterface: React.FC<LocationSearchInterfaceProps> = (
         region: selectedLocation.region,
         coordinates: selectedLocation.coordinates,
       },
+      ...(maxDistanceKm !== null && { maxDistanceKm }),
+      ...(slotDate && slotWindow && { timeSlot: { date: slotDate, start: slotWindow.start, end: slotWindow.end } }),
+      sortBy,
       ...(searchType === 'service' && finalCategory && { serviceType: finalCategory }),
       ...(searchType === 'project' && finalCategory && { projectType: finalCategory }),
     };
@@ -482,6 +433,87 @@ export const LocationSearchInterface: React.FC<LocationSearchInterfaceProps> = (
     </View>
   );
 
+  const renderDistanceFilters = () => (
+    <View style={styles.distanceFilters}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {DISTANCE_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.label}
+            style={[styles.filterChip, maxDistanceKm === option.value && styles.activeFilterChip]}
+            onPress={() => setMaxDistanceKm(option.value)}
+          >
+            <Text style={[styles.filterChipText, maxDistanceKm === option.value && styles.activeFilterChipText]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity
+          style={[styles.filterChip, sortBy === 'distance' && styles.activeFilterChip]}
+          onPress={() => setSortBy(sortBy === 'distance' ? 'relevance' : 'distance')}
+        >
+          <Text style={[styles.filterChipText, sortBy === 'distance' && styles.activeFilterChipText]}>
+            📍 Más cercanos
+          </Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+
+  // Day first, then the time window; the slot only applies once both are picked
+  const renderTimeSlotFilters = () => (
+    <View style={styles.timeSlotFilters}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <TouchableOpacity
+          style={[styles.filterChip, slotDate === null && styles.activeFilterChip]}
+          onPress={() => {
+            setSlotDate(null);
+            setSlotWindow(null);
+          }}
+        >
+          <Text style={[styles.filterChipText, slotDate === null && styles.activeFilterChipText]}>
+            📅 Cualquier día
+          </Text>
+        </TouchableOpacity>
+        {getUpcomingDays(7).map((day) => (
+          <TouchableOpacity
+            key={day.date}
+            style={[styles.filterChip, slotDate === day.date && styles.activeFilterChip]}
+            onPress={() => {
+              setSlotDate(day.date);
+              if (slotWindow && isSlotInPast({ date: day.date, ...slotWindow })) setSlotWindow(null);
+            }}
+          >
+            <Text style={[styles.filterChipText, slotDate === day.date && styles.activeFilterChipText]}>
+              {day.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {slotDate && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.timeWindowRow}>
+          {TIME_WINDOW_OPTIONS.map((option) => {
+            const isPast = isSlotInPast({ date: slotDate, start: option.start, end: option.end });
+            const isActive = slotWindow?.start === option.start;
+
+            return (
+              <TouchableOpacity
+                key={option.start}
+                style={[styles.filterChip, isActive && styles.activeFilterChip, isPast && styles.disabledFilterChip]}
+                onPress={() => setSlotWindow(isActive ? null : option)}
+                disabled={isPast}
+              >
+                <Text style={[styles.filterChipText, isActive && styles.activeFilterChipText]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+    </View>
+  );
+
   const renderCategories = () => {
     const items = searchType === 'project' ? projectTypes : serviceCategories;
 
@@ -510,7 +542,7 @@ export const LocationSearchInterface: React.FC<LocationSearchInterfaceProps> = (
               </Text>
               <Text style={styles.categoryPrice}>
                 {searchType === 'project'
-                  ? `CLP $${Number((item as ProjectType).avg_price_min ?? 0).toLocaleString()} - $${Number((item as ProjectType).avg_price_max ?? 0).toLocaleString()}`
+                  ? `CLP $${Number((item as ProjectType).avgPriceMin ?? 0).toLocaleString()} - $${Number((item as ProjectType).avgPriceMax ?? 0).toLocaleString()}`
                   : `CLP $${Number((item as ServiceCategory).avgPriceMin ?? 0).toLocaleString()} - $${Number((item as ServiceCategory).avgPriceMax ?? 0).toLocaleString()}`
                 }
               </Text>
@@ -558,6 +590,8 @@ export const LocationSearchInterface: React.FC<LocationSearchInterfaceProps> = (
       {renderLocationSelector()}
       {renderSearchTabs()}
       {renderIntelligentSearchBar()}
+      {renderDistanceFilters()}
+      {renderTimeSlotFilters()}
 
       <ScrollView style={styles.scrollContainer} showsVerticalScrollIndicator={false}>
         {renderCategories()}
@@ -725,6 +759,42 @@ const styles = StyleSheet.create({
     color: colors.neutral[0],
   },
 
+  // Distance filters
+  distanceFilters: {
+    marginTop: -spacing[3],
+    marginBottom: spacing[4],
+  },
+  filterChip: {
+    paddingHorizontal: spacing[3],
+    paddingVertical: spacing[2],
+    marginRight: spacing[2],
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.neutral[300],
+    backgroundColor: colors.neutral[0],
+  },
+  activeFilterChip: {
+    backgroundColor: colors.primary[500],
+    borderColor: colors.primary[500],
+  },
+  filterChipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.neutral[700],
+  },
+  activeFilterChipText: {
+    color: colors.neutral[0],
+  },
+  timeSlotFilters: {
+    marginBottom: spacing[4],
+  },
+  disabledFilterChip: {
+    opacity: 0.4,
+  },
+  timeWindowRow: {
+    marginTop: spacing[2],
+  },
+
   // Intelligent search section
   searchSection: {
     marginBottom: spacing[5],
@@ -0,0 +1,172 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import { colors, spacing, borderRadius } from '../../design/tokens';
+import { SearchFacets, SearchFilters, PriceFacet, RatingFacet } from '../../types/search';
+
+interface SearchFacetChipsProps {
+  facets: SearchFacets;
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+}
+
+interface FacetChip {
+  key: string;
+  label: string;
+  count: number;
+  active: boolean;
+  onPress: () => void;
+}
+
+export const SearchFacetChips: React.FC<SearchFacetChipsProps> = ({
+  facets,
+  filters,
+  onChange,
+}) => {
+  // Price buckets are half-open [min, max) while the price filter is inclusive
+  const bucketMax = (bucket: PriceFacet) =>
+    bucket.max !== undefined ? bucket.max - 1 : Number.MAX_SAFE_INTEGER;
+
+  const isPriceActive = (bucket: PriceFacet) =>
+    filters.priceRange?.min === bucket.min && filters.priceRange?.max === bucketMax(bucket);
+
+  const togglePrice = (bucket: PriceFacet) => {
+    const { priceRange, ...rest } = filters;
+    onChange(isPriceActive(bucket)
+      ? rest
+      : { ...rest, priceRange: { min: bucket.min, max: bucketMax(bucket), currency: 'CLP' } });
+  };
+
+  const toggleRating = (rating: RatingFacet) => {
+    const { rating: currentRating, ...rest } = filters;
+    onChange(currentRating === rating.minRating ? rest : { ...rest, rating: rating.minRating });
+  };
+
+  const toggleCommune = (commune: string) => {
+    if (!filters.location || filters.location.commune === commune) return;
+    // Drop the old coordinates so distance is measured from the new comuna
+    onChange({ ...filters, location: { commune, region: filters.location.region } });
+  };
+
+  const chips: FacetChip[] = [
+    {
+      key: 'verified',
+      label: 'Verificados',
+      count: facets.verified,
+      active: filters.verified === true,
+      onPress: () => onChange({ ...filters, verified: !filters.verified }),
+    },
+    {
+      key: 'available_today',
+      label: 'Disponible hoy',
+      count: facets.availableToday,
+      active: filters.availability === 'today',
+      onPress: () => onChange({
+        ...filters,
+        availability: filters.availability === 'today' ? undefined : 'today',
+      }),
+    },
+    ...facets.ratings.map(rating => ({
+      key: rating.key,
+      label: rating.label,
+      count: rating.count,
+      active: filters.rating === rating.minRating,
+      onPress: () => toggleRating(rating),
+    })),
+    ...facets.priceRanges.map(bucket => ({
+      key: bucket.key,
+      label: bucket.label,
+      count: bucket.count,
+      active: isPriceActive(bucket),
+      onPress: () => togglePrice(bucket),
+    })),
+    ...facets.communes.map(commune => ({
+      key: `commune_${commune.key}`,
+      label: commune.label,
+      count: commune.count,
+      active: filters.location?.commune === commune.key,
+      onPress: () => toggleCommune(commune.key),
+    })),
+  ];
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {chips.map(chip => {
+          // Selecting a zero-count value would empty the results; keep active chips pressable to undo
+          const disabled = chip.count === 0 && !chip.active;
+
+          return (
+            <TouchableOpacity
+              key={chip.key}
+              style={[
+                styles.chip,
+                chip.active && styles.activeChip,
+                disabled && styles.disabledChip,
+              ]}
+              onPress={chip.onPress}
+              disabled={disabled}
+            >
+              <Text style={[
+                styles.chipText,
+                chip.active && styles.activeChipText,
+                disabled && styles.disabledChipText,
+              ]}>
+                {chip.label} ({chip.count.toString()})
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+      {facets.total === 0 && (
+        <Text style={styles.emptyHint}>
+          Ningún profesional cumple todos los filtros. Quita alguno para ver más resultados.
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: spacing[4],
+  },
+  chip: {
+    paddingHorizontal: spacing[3],
+    paddingVertical: spacing[2],
+    marginRight: spacing[2],
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.neutral[300],
+    backgroundColor: colors.neutral[0],
+  },
+  activeChip: {
+    backgroundColor: colors.primary[500],
+    borderColor: colors.primary[500],
+  },
+  disabledChip: {
+    backgroundColor: colors.neutral[100],
+    borderColor: colors.neutral[200],
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.neutral[700],
+  },
+  activeChipText: {
+    color: colors.neutral[0],
+  },
+  disabledChipText: {
+    color: colors.neutral[400],
+  },
+  emptyHint: {
+    marginTop: spacing[2],
+    fontSize: 13,
+    color: colors.neutral[600],
+  },
+});
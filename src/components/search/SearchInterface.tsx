@@ -11,19 +11,22 @@ import {
 } from 'react-native';
 import { EnterpriseCard } from '../ui';
 import { colors, spacing, typography, borderRadius } from '../../design/tokens';
-import { SearchFilters, ServiceCategory, ProjectType } from '../../types/search';
+import { SearchFilters, SearchFacets, ServiceCategory, ProjectType } from '../../types/search';
 import { SearchService } from '../../services/searchService';
+import { SearchFacetChips } from './SearchFacetChips';
 
 const { width } = Dimensions.get('window');
 
 interface SearchInterfaceProps {
   onSearch: (query: string, filters: SearchFilters, searchType: 'project' | 'service') => void;
   initialSearchType?: 'project' | 'service';
+  facets?: SearchFacets; // from the last SearchResult, shown as filter chips
 }
 
 export const SearchInterface: React.FC<SearchInterfaceProps> = ({
   onSearch,
   initialSearchType = 'project',
+  facets,
 }) => {
   const [searchType, setSearchType] = useState<'project' | 'service'>(initialSearchType);
   const [searchQuery, setSearchQuery] = useState('');
@@ -31,6 +34,8 @@ export const SearchInterface: React.FC<SearchInterfaceProps> = ({
   const [serviceCategories, setServiceCategories] = useState<ServiceCategory[]>([]);
   const [projectTypes, setProjectTypes] = useState<ProjectType[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  // Facet selections (verified, rating, price...) carry over between searches
+  const [refinements, setRefinements] = useState<SearchFilters>({});
 
   // Load data from database
   useEffect(() => {
@@ -59,6 +64,7 @@ export const SearchInterface: React.FC<SearchInterfaceProps> = ({
 
   const handleSearch = () => {
     const filters: SearchFilters = {
+      ...refinements,
       ...(searchType === 'service' && selectedCategory && { serviceType: selectedCategory }),
       ...(searchType === 'project' && selectedCategory && { projectType: selectedCategory }),
     };
@@ -72,6 +78,7 @@ export const SearchInterface: React.FC<SearchInterfaceProps> = ({
 
     // Auto-search when category is selected
     const filters: SearchFilters = {
+      ...refinements,
       ...(searchType === 'service' && { serviceType: categoryId }),
       ...(searchType === 'project' && { projectType: categoryId }),
     };
@@ -79,6 +86,24 @@ export const SearchInterface: React.FC<SearchInterfaceProps> = ({
     onSearch('', filters, searchType);
   };
 
+  const handleFacetChange = (filters: SearchFilters) => {
+    const { serviceType, projectType, ...nextRefinements } = filters;
+    setRefinements(nextRefinements);
+    onSearch(searchQuery, filters, searchType);
+  };
+
+  const renderFacets = () => {
+    if (!facets) return null;
+
+    const filters: SearchFilters = {
+      ...refinements,
+      ...(searchType === 'service' && selectedCategory && { serviceType: selectedCategory }),
+      ...(searchType === 'project' && selectedCategory && { projectType: selectedCategory }),
+    };
+
+    return <SearchFacetChips facets={facets} filters={filters} onChange={handleFacetChange} />;
+  };
+
   const renderSearchTabs = () => (
     <View style={styles.tabContainer}>
       <TouchableOpacity
@@ -262,6 +287,7 @@ export const SearchInterface: React.FC<SearchInterfaceProps> = ({
     <EnterpriseCard style={styles.container}>
       {renderSearchTabs()}
       {renderSearchBar()}
+      {renderFacets()}
 
       <ScrollView style={styles.scrollContainer} showsVerticalScrollIndicator={false}>
         {searchType === 'project' ? renderProjectCategories() : renderServiceCategories()}
@@ -305,25 +305,3 @@ export const getServicesByProject = (projectId: string): ServiceCategory[] => {
   const allServices = [...project.requiredServices, ...project.optionalServices];
   return SERVICE_CATEGORIES.filter(service => allServices.includes(service.id));
 };
-
-// Chilean Communes (Major ones for MVP)
-export const CHILEAN_COMMUNES = [
-  // Santiago Metropolitan Region
-  { id: 'santiago', name: 'Santiago Centro', region: 'Metropolitana' },
-  { id: 'providencia', name: 'Providencia', region: 'Metropolitana' },
-  { id: 'las-condes', name: 'Las Condes', region: 'Metropolitana' },
-  { id: 'vitacura', name: 'Vitacura', region: 'Metropolitana' },
-  { id: 'nunoa', name: 'Ñuñoa', region: 'Metropolitana' },
-  { id: 'la-florida', name: 'La Florida', region: 'Metropolitana' },
-  { id: 'maipu', name: 'Maipú', region: 'Metropolitana' },
-  { id: 'puente-alto', name: 'Puente Alto', region: 'Metropolitana' },
-  { id: 'san-miguel', name: 'San Miguel', region: 'Metropolitana' },
-  { id: 'la-reina', name: 'La Reina', region: 'Metropolitana' },
-
-  // Valparaíso Region
-  { id: 'valparaiso', name: 'Valparaíso', region: 'Valparaíso' },
-  { id: 'vina-del-mar', name: 'Viña del Mar', region: 'Valparaíso' },
-
-  // Biobío Region
-  { id: 'concepcion', name: 'Concepción', region: 'Biobío' },
-];
\ No newline at end of file
@@ -212,8 +212,7 @@ export function useEnterpriseAuth(): UseEnterpriseAuthResult {
 
       // CRITICAL FIX: Use database function to check auth.users table
       // This is where email_confirmed_at actually gets set by Supabase Auth
-      const { data: verificationData, error: verificationError } = await supabase
-        .rpc('check_email_verification_status', { email_param: email.toLowerCase().trim() });
+      const { data: verificationData, error: verificationError } = await supabase.rpc('check_email_verification_status', { email_param: email.toLowerCase().trim() });
 
       if (verificationError) {
         console.error('❌ Enterprise: Auth verification query error:', verificationError);
@@ -229,8 +228,7 @@ export function useEnterpriseAuth(): UseEnterpriseAuthResult {
       console.log('🔍 Enterprise: Verification result:', result);
 
       // Debug: Get detailed info about user in both tables
-      const { data: debugData, error: debugError } = await supabase
-        .rpc('debug_auth_user_info', { email_param: email.toLowerCase().trim() });
+      const { data: debugData, error: debugError } = await supabase.rpc('debug_auth_user_info', { email_param: email.toLowerCase().trim() });
 
       if (!debugError && debugData) {
         console.log('🐛 Enterprise: Debug info:', debugData);
@@ -558,8 +556,7 @@ export function useEnterpriseAuth(): UseEnterpriseAuthResult {
     // Debug functions
     debugUserCreation: async (email: string) => {
       try {
-        const { data, error } = await supabase
-          .rpc('debug_user_creation_status', { email_param: email });
+        const { data, error } = await supabase.rpc('debug_user_creation_status', { email_param: email });
 
         if (error) {
           console.error('❌ Debug user creation failed:', error);
@@ -576,8 +573,7 @@ export function useEnterpriseAuth(): UseEnterpriseAuthResult {
 
     debugTokenTracking: async (email: string) => {
       try {
-        const { data, error } = await supabase
-          .rpc('debug_token_tracking', { email_param: email });
+        const { data, error } = await supabase.rpc('debug_token_tracking', { email_param: email });
 
         if (error) {
           console.error('❌ Debug token tracking failed:', error);
@@ -0,0 +1,137 @@
+// Provider job feed hook
+// Paged list of quotable jobs kept live through Realtime, with dismiss and undo
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  AvailableJob,
+  JobFeedCursor,
+  fetchAvailableJobs,
+  subscribeToJobFeed,
+  dismissJob as dismissJobRequest,
+  restoreJob as restoreJobRequest,
+} from '../services/providerJobsService';
+
+export interface UseProviderJobFeedReturn {
+  jobs: AvailableJob[];
+  totalCount: number;
+  hasMore: boolean;
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  loadMore: () => Promise<void>;
+  dismissJob: (jobId: string) => Promise<void>;
+  restoreJob: (job: AvailableJob) => Promise<void>;
+}
+
+// Same order as get_provider_job_feed: newest first, then by id
+const compareJobs = (a: AvailableJob, b: AvailableJob) =>
+  Date.parse(b.created_at) - Date.parse(a.created_at) || b.id.localeCompare(a.id);
+
+export function useProviderJobFeed(providerId?: string): UseProviderJobFeedReturn {
+  const [jobs, setJobs] = useState<AvailableJob[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Where the next page starts; Realtime inserts don't move it
+  const cursorRef = useRef<JobFeedCursor | null>(null);
+
+  const jobsRef = useRef<AvailableJob[]>([]);
+  jobsRef.current = jobs;
+
+  const upsertJob = useCallback((job: AvailableJob) => {
+    if (!jobsRef.current.some(item => item.id === job.id)) {
+      setTotalCount(count => count + 1);
+    }
+    setJobs(prev => [...prev.filter(item => item.id !== job.id), job].sort(compareJobs));
+  }, []);
+
+  const removeJob = useCallback((jobId: string) => {
+    if (!jobsRef.current.some(item => item.id === jobId)) return;
+    setTotalCount(count => Math.max(0, count - 1));
+    setJobs(prev => prev.filter(item => item.id !== jobId));
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!providerId) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const page = await fetchAvailableJobs(providerId);
+      cursorRef.current = page.nextCursor;
+      setJobs(page.jobs);
+      setTotalCount(page.totalCount);
+      setHasMore(page.hasMore);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'No pudimos cargar los trabajos disponibles.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [providerId]);
+
+  const loadMore = useCallback(async () => {
+    if (!providerId || !hasMore || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    try {
+      const page = await fetchAvailableJobs(providerId, cursorRef.current);
+      cursorRef.current = page.nextCursor;
+      // Realtime may already have added some of these jobs
+      setJobs(prev => {
+        const seen = new Set(prev.map(job => job.id));
+        return [...prev, ...page.jobs.filter(job => !seen.has(job.id))];
+      });
+      setTotalCount(page.totalCount);
+      setHasMore(page.hasMore);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'No pudimos cargar más trabajos.');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [providerId, hasMore, isLoadingMore]);
+
+  // Hidden right away; put back if the request fails
+  const dismissJob = useCallback(async (jobId: string) => {
+    if (!providerId) return;
+
+    const job = jobsRef.current.find(item => item.id === jobId);
+    removeJob(jobId);
+    try {
+      await dismissJobRequest(providerId, jobId);
+    } catch (dismissError) {
+      if (job) upsertJob(job);
+      throw dismissError;
+    }
+  }, [providerId, removeJob, upsertJob]);
+
+  const restoreJob = useCallback(async (job: AvailableJob) => {
+    if (!providerId) return;
+
+    await restoreJobRequest(providerId, job.id);
+    upsertJob(job);
+  }, [providerId, upsertJob]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!providerId) return;
+    return subscribeToJobFeed(providerId, { onJob: upsertJob, onRemove: removeJob });
+  }, [providerId, upsertJob, removeJob]);
+
+  return {
+    jobs,
+    totalCount,
+    hasMore,
+    isLoading,
+    isLoadingMore,
+    error,
+    refresh,
+    loadMore,
+    dismissJob,
+    restoreJob,
+  };
+}
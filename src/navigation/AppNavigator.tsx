@@ -103,14 +103,33 @@ export default function AppNavigator() {
               screens: {
                 MainTabs: {
                   screens: {
-                    Home: 'home',
+                    Home: {
+                      path: 'home',
+                      alias: ['search/saved/:savedSearchId'],
+                    },
+                    ServiceRequest: 'request/new',
+                    Quotes: {
+                      path: 'quotes',
+                      alias: ['quotes/:serviceRequestId'],
+                    },
                     Profile: 'profile',
                   },
                 },
                 CustomerProfile: 'profile/customer',
+                CustomerBookings: 'bookings',
+                // Calendar feed events link here for both parties; providers get a shortcut to JobExecution
+                BookingDetail: 'bookings/:bookingId',
                 ProviderProfile: 'profile/provider',
                 ProfileManagement: 'profile/management',
                 ProviderVerification: 'profile/verification',
+                ProviderJobs: 'provider/jobs',
+                // Quote expiry notifications link to the quote
+                ProviderQuotes: {
+                  path: 'provider/quotes',
+                  alias: ['provider/quotes/:quoteId'],
+                },
+                ProviderBookings: 'provider/bookings',
+                JobExecution: 'provider/bookings/:bookingId',
               },
             },
           },
@@ -1,12 +1,26 @@
 import React from 'react';
 import { Platform, View, Text } from 'react-native';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
+import { createStackNavigator } from '@react-navigation/stack';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { MainStackParamList } from '../types';
-import { HomeScreen, ProfileScreen } from '../screens/main';
-import { HomeIcon, UserIcon } from '../components/icons';
+import {
+  BookingDetailScreen,
+  CustomerBookingsScreen,
+  HomeScreen,
+  ProfileScreen,
+  QuoteInboxScreen,
+  ServiceRequestWizardScreen,
+} from '../screens/main';
+import { HomeIcon, MessageIcon, ServicesIcon, UserIcon } from '../components/icons';
+import { JobExecutionScreen } from '../screens/provider/JobExecutionScreen';
+import { ProviderBookingsScreen } from '../screens/provider/ProviderBookingsScreen';
+import { ProviderJobFeedScreen } from '../screens/provider/ProviderJobFeedScreen';
+import { ProviderQuotesScreen } from '../screens/provider/ProviderQuotesScreen';
+import { QuoteScreen } from '../screens/provider/QuoteScreen';
 
 const Tab = createBottomTabNavigator<MainStackParamList>();
+const Stack = createStackNavigator<MainStackParamList>();
 
 // Chilean marketplace design tokens
 const DESIGN_TOKENS = {
@@ -95,7 +109,7 @@ const DESIGN_TOKENS = {
   },
 };
 
-export const MainNavigator: React.FC = () => {
+const MainTabs: React.FC = () => {
   const insets = useSafeAreaInsets();
 
   // Calculate tab bar height with safe area
@@ -158,6 +172,40 @@ export const MainNavigator: React.FC = () => {
           tabBarTestID: 'main-tab-home',
         }}
       />
+      <Tab.Screen
+        name="ServiceRequest"
+        component={ServiceRequestWizardScreen}
+        options={{
+          tabBarLabel: 'Solicitar',
+          tabBarIcon: ({ focused, color, size = 24 }) => (
+            <ServicesIcon
+              filled={focused}
+              color={color}
+              size={size}
+              strokeWidth={focused ? 2.5 : 2}
+            />
+          ),
+          tabBarAccessibilityLabel: 'Solicitar - Publicar un trabajo y recibir cotizaciones',
+          tabBarButtonTestID: 'main-tab-request',
+        }}
+      />
+      <Tab.Screen
+        name="Quotes"
+        component={QuoteInboxScreen}
+        options={{
+          tabBarLabel: 'Cotizaciones',
+          tabBarIcon: ({ focused, color, size = 24 }) => (
+            <MessageIcon
+              filled={focused}
+              color={color}
+              size={size}
+              strokeWidth={focused ? 2.5 : 2}
+            />
+          ),
+          tabBarAccessibilityLabel: 'Cotizaciones - Comparar y aceptar cotizaciones',
+          tabBarButtonTestID: 'main-tab-quotes',
+        }}
+      />
       <Tab.Screen
         name="Profile"
         component={ProfileScreen}
@@ -177,4 +225,18 @@ export const MainNavigator: React.FC = () => {
       />
     </Tab.Navigator>
   );
-};
\ No newline at end of file
+};
+
+// Tabs plus the screens opened from them
+export const MainNavigator: React.FC = () => (
+  <Stack.Navigator screenOptions={{ headerShown: false }}>
+    <Stack.Screen name="MainTabs" component={MainTabs} />
+    <Stack.Screen name="CustomerBookings" component={CustomerBookingsScreen} />
+    <Stack.Screen name="BookingDetail" component={BookingDetailScreen} />
+    <Stack.Screen name="ProviderJobs" component={ProviderJobFeedScreen} />
+    <Stack.Screen name="ProviderQuotes" component={ProviderQuotesScreen} />
+    <Stack.Screen name="ProviderQuote" component={QuoteScreen} />
+    <Stack.Screen name="ProviderBookings" component={ProviderBookingsScreen} />
+    <Stack.Screen name="JobExecution" component={JobExecutionScreen} />
+  </Stack.Navigator>
+);
@@ -0,0 +1,217 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useFocusEffect } from '@react-navigation/native';
+import { ChevronLeftIcon } from '../../components/icons';
+import { Button } from '../../components/ui';
+import { JobTimeline } from '../../components/profile/JobTimeline';
+import { CareInstructionsList } from '../../components/profile/CareInstructionsList';
+import { colors, spacing, borderRadius } from '../../design/tokens';
+import { useAuth } from '../../hooks/useEnterpriseAuth';
+import { BookingService } from '../../services/bookingService';
+import { BookingStatus, JobBooking } from '../../types/booking';
+import { BOOKING_STATUS_LABELS } from '../../utils/bookingLifecycle';
+
+interface BookingDetailScreenProps {
+  navigation: any;
+  route: {
+    params: {
+      bookingId: string;
+    };
+  };
+}
+
+// Visits the provider can still check in to or finish from JobExecutionScreen
+const PROVIDER_OPEN_STATUSES: BookingStatus[] = ['accepted', 'confirmed', 'in_progress'];
+
+// Care instructions are left at check-out and stay with the booking once it's paid out
+const FINISHED_STATUSES: BookingStatus[] = ['completed', 'payment_released'];
+
+const formatVisitDate = (booking: JobBooking) => {
+  const [year, month, day] = booking.scheduledDate.split('-').map(Number);
+  const date = new Date(year, month - 1, day).toLocaleDateString('es-CL', { weekday: 'long', day: 'numeric', month: 'long' });
+  return `${date} · ${booking.scheduledTime.replace('-', '–')}`;
+};
+
+/**
+ * One booking with its execution timeline and, once finished, the care
+ * instructions the provider left. Opened from the customer's bookings and from
+ * calendar feed links, which reach both parties; the provider gets a shortcut to
+ * JobExecutionScreen instead.
+ */
+export const BookingDetailScreen: React.FC<BookingDetailScreenProps> = ({ route, navigation }) => {
+  const { bookingId } = route.params;
+  const { user } = useAuth();
+  const [booking, setBooking] = useState<JobBooking | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBooking = useCallback(async () => {
+    setError(null);
+    try {
+      const loaded = await BookingService.getJobBooking(bookingId);
+      setBooking(loaded);
+      if (!loaded) setError('No encontramos esta reserva.');
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'No pudimos cargar la reserva.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [bookingId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadBooking();
+    }, [loadBooking])
+  );
+
+  // Calendar links can open this screen with nothing underneath it
+  const handleBack = () => (navigation.canGoBack() ? navigation.goBack() : navigation.navigate('MainTabs'));
+
+  const isProvider = !!booking && booking.providerId === user?.id;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={handleBack} style={styles.backButton}>
+          <ChevronLeftIcon size={24} color={colors.neutral[900]} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>
+          {booking?.title ?? 'Reserva'}
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator style={styles.loading} color={colors.primary[500]} />
+      ) : !booking ? (
+        <Text style={styles.errorText}>{error}</Text>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          <View style={styles.card}>
+            <Text style={styles.status}>{BOOKING_STATUS_LABELS[booking.status]}</Text>
+            <Text style={styles.detail}>{formatVisitDate(booking)}</Text>
+            <Text style={styles.detail}>{booking.serviceCategory || booking.serviceType}</Text>
+            {!isProvider && <Text style={styles.detail}>{booking.providerName}</Text>}
+            <Text style={styles.detail}>{booking.address.fullAddress}</Text>
+            <Text style={styles.price}>${booking.price.toLocaleString('es-CL')}</Text>
+            {booking.description && <Text style={styles.description}>{booking.description}</Text>}
+
+            {isProvider && PROVIDER_OPEN_STATUSES.includes(booking.status) && (
+              <Button
+                title={booking.status === 'in_progress' ? 'Continuar trabajo' : 'Abrir visita'}
+                size="small"
+                onPress={() => navigation.navigate('JobExecution', { bookingId: booking.id })}
+                style={styles.action}
+              />
+            )}
+          </View>
+
+          <Text style={styles.sectionTitle}>Seguimiento</Text>
+          <JobTimeline bookingId={booking.id} />
+
+          {!isProvider && FINISHED_STATUSES.includes(booking.status) && (
+            <CareInstructionsList bookingId={booking.id} />
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.neutral[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing[4],
+    paddingVertical: spacing[3],
+    borderBottomWidth: 1,
+    borderBottomColor: colors.neutral[200],
+    backgroundColor: colors.neutral[0],
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.neutral[100],
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    paddingHorizontal: spacing[2],
+    color: colors.neutral[900],
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  loading: {
+    marginTop: spacing[8],
+  },
+  content: {
+    padding: spacing[5],
+    paddingBottom: spacing[24],
+  },
+  errorText: {
+    fontSize: 14,
+    color: colors.error[500],
+    margin: spacing[5],
+  },
+  card: {
+    padding: spacing[4],
+    borderRadius: borderRadius.xl,
+    borderWidth: 1,
+    borderColor: colors.neutral[200],
+    backgroundColor: colors.neutral[0],
+  },
+  status: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.neutral[900],
+  },
+  detail: {
+    fontSize: 14,
+    color: colors.neutral[600],
+    marginTop: spacing[1],
+  },
+  price: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.neutral[900],
+    marginTop: spacing[2],
+  },
+  description: {
+    fontSize: 14,
+    color: colors.neutral[700],
+    marginTop: spacing[2],
+  },
+  action: {
+    marginTop: spacing[3],
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.neutral[900],
+    marginTop: spacing[6],
+    marginBottom: spacing[3],
+  },
+});
+
+export default BookingDetailScreen;
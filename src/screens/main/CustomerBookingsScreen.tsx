@@ -0,0 +1,80 @@
+import React, { useCallback, useState } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import type { StackNavigationProp } from '@react-navigation/stack';
+import { useAuth } from '../../hooks/useEnterpriseAuth';
+import { JobHistoryList } from '../../components/profile/JobHistoryList';
+import { colors, spacing } from '../../design/tokens';
+import { MainStackParamList } from '../../types';
+import { JobBooking } from '../../types/booking';
+import { BookingService } from '../../services/bookingService';
+
+/**
+ * The customer's bookings, latest visit first. JobHistoryList handles the
+ * filters and the per-booking actions, including the cancellation fee preview;
+ * tapping a booking opens BookingDetailScreen.
+ */
+export const CustomerBookingsScreen: React.FC = () => {
+  const { user } = useAuth();
+  const navigation = useNavigation<StackNavigationProp<MainStackParamList>>();
+  const [bookings, setBookings] = useState<JobBooking[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBookings = useCallback(async () => {
+    if (!user?.id) return;
+    setError(null);
+    try {
+      setBookings(await BookingService.getCustomerBookings(user.id));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'No pudimos cargar tus reservas.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user?.id]);
+
+  // Reload on focus so a booking cancelled or rescheduled elsewhere shows its new state
+  useFocusEffect(
+    useCallback(() => {
+      loadBookings();
+    }, [loadBookings])
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {error && <Text style={styles.errorText}>{error}</Text>}
+      {isLoading && bookings.length === 0 ? (
+        <View style={styles.loading}>
+          <ActivityIndicator color={colors.primary[500]} />
+        </View>
+      ) : (
+        <JobHistoryList
+          jobs={bookings}
+          onRefresh={loadBookings}
+          onJobPress={job => navigation.navigate('BookingDetail', { bookingId: job.id })}
+        />
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.neutral[0],
+  },
+  loading: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  errorText: {
+    fontSize: 14,
+    color: colors.error[500],
+    paddingHorizontal: spacing[4],
+    paddingTop: spacing[3],
+  },
+});
+
+export default CustomerBookingsScreen;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -8,27 +8,36 @@ import {
   TextInput,
   Dimensions,
   ActivityIndicator,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import type { RouteProp } from '@react-navigation/native';
 import { useAuth } from '../../hooks/useEnterpriseAuth';
 import { EnterpriseCard, Button } from '../../components/ui';
 import { LocationSearchInterface } from '../../components/search/LocationSearchInterface';
+import { SearchFacetChips } from '../../components/search/SearchFacetChips';
 import { colors, spacing } from '../../design/tokens';
-import { SearchFilters, SearchResult } from '../../types/search';
+import { SearchFilters, SearchResult, PopularService } from '../../types/search';
 import { SearchService } from '../../services/searchService';
+import { LocationService } from '../../services/locationService';
+import { SavedSearchService } from '../../services/savedSearchService';
+import type { MainStackParamList } from '../../types';
+import { formatNextAvailable } from '../../utils/timeSlots';
 
 const { width } = Dimensions.get('window');
 
-// Service categories for Chilean market
+// Service categories for Chilean market. serviceIds are the service_categories rows each tile
+// groups; their demand (get_popular_services) decides the tile order.
 const SERVICE_CATEGORIES = [
-  { id: '1', name: 'Electricista', icon: '⚡', description: 'Instalación y reparación eléctrica', color: colors.warning[500] },
-  { id: '2', name: 'Plomero', icon: '🔧', description: 'Reparación de cañerías y grifos', color: colors.primary[500] },
-  { id: '3', name: 'Limpieza', icon: '🧽', description: 'Limpieza de hogar y oficinas', color: colors.success[500] },
-  { id: '4', name: 'Jardinería', icon: '🌱', description: 'Cuidado de jardines y plantas', color: colors.success[600] },
-  { id: '5', name: 'Pintura', icon: '🎨', description: 'Pintura interior y exterior', color: colors.secondary[500] },
-  { id: '6', name: 'Carpintería', icon: '🔨', description: 'Muebles y reparaciones de madera', color: colors.neutral[700] },
-  { id: '7', name: 'Técnico', icon: '📱', description: 'Reparación de electrodomésticos', color: colors.primary[600] },
-  { id: '8', name: 'Construcción', icon: '🏗️', description: 'Obras menores y remodelación', color: colors.neutral[800] },
+  { id: '1', name: 'Electricista', icon: '⚡', description: 'Instalación y reparación eléctrica', color: colors.warning[500], serviceIds: ['electricista', 'electricista_comercial'] },
+  { id: '2', name: 'Plomero', icon: '🔧', description: 'Reparación de cañerías y grifos', color: colors.primary[500], serviceIds: ['gasfiter', 'plomero'] },
+  { id: '3', name: 'Limpieza', icon: '🧽', description: 'Limpieza de hogar y oficinas', color: colors.success[500], serviceIds: ['limpieza_hogar', 'limpieza_oficina', 'limpieza_construccion'] },
+  { id: '4', name: 'Jardinería', icon: '🌱', description: 'Cuidado de jardines y plantas', color: colors.success[600], serviceIds: ['jardineria', 'paisajismo', 'poda_arboles'] },
+  { id: '5', name: 'Pintura', icon: '🎨', description: 'Pintura interior y exterior', color: colors.secondary[500], serviceIds: ['pintor_interior', 'pintor_exterior', 'empapelado'] },
+  { id: '6', name: 'Carpintería', icon: '🔨', description: 'Muebles y reparaciones de madera', color: colors.neutral[700], serviceIds: ['carpintero', 'carpintero_muebles', 'parquet'] },
+  { id: '7', name: 'Técnico', icon: '📱', description: 'Reparación de electrodomésticos', color: colors.primary[600], serviceIds: ['linea_blanca', 'tecnico_electrodomesticos', 'tecnico_tv', 'aire_acondicionado'] },
+  { id: '8', name: 'Construcción', icon: '🏗️', description: 'Obras menores y remodelación', color: colors.neutral[800], serviceIds: ['constructor', 'albanil', 'remodelacion'] },
 ];
 
 // Featured providers mock data (fixed for text rendering)
@@ -42,6 +51,55 @@ export const HomeScreen: React.FC = () => {
   const { user, signOut } = useAuth();
   const [searchResults, setSearchResults] = useState<SearchResult | null>(null);
   const [isSearching, setIsSearching] = useState(false);
+  const [lastQuery, setLastQuery] = useState('');
+  const [isSavingSearch, setIsSavingSearch] = useState(false);
+  const latestSearchRef = useRef(0);
+  const [popularLocation, setPopularLocation] = useState<{ commune: string; region: string } | null>(null);
+  const [popularServices, setPopularServices] = useState<PopularService[]>([]);
+  const navigation = useNavigation();
+  const route = useRoute<RouteProp<MainStackParamList, 'Home'>>();
+
+  // Saved search opened from the profile or a manito://search/saved/:id link
+  const savedSearchId = route.params?.savedSearchId;
+  useEffect(() => {
+    if (!savedSearchId) return;
+
+    SavedSearchService.getSavedSearch(savedSearchId)
+      .then(savedSearch => {
+        if (savedSearch) {
+          handleSearch(savedSearch.query, savedSearch.filters, 'service');
+        } else {
+          Alert.alert('Búsqueda no disponible', 'Esta búsqueda guardada ya no existe.');
+        }
+      })
+      .catch(error => console.error('Error loading saved search:', error))
+      // Clear the param so opening the same saved search again re-runs it
+      .finally(() => navigation.setParams({ savedSearchId: undefined } as never));
+  }, [savedSearchId]);
+
+  // Popular services follow the customer's location: current location first, then the
+  // comuna of their latest search
+  useEffect(() => {
+    LocationService.getCurrentLocation().then(location => {
+      if (location) {
+        setPopularLocation(prev => prev ?? { commune: location.commune, region: location.region });
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!popularLocation) return;
+    SearchService.getPopularServices(popularLocation.commune, popularLocation.region).then(setPopularServices);
+  }, [popularLocation]);
+
+  // Tiles with the most demand first; ties keep the default order (sort is stable)
+  const orderedCategories = useMemo(() => {
+    const demand = new Map(popularServices.map(service => [service.id, service.count]));
+    const tileDemand = (category: typeof SERVICE_CATEGORIES[number]) =>
+      category.serviceIds.reduce((total, serviceId) => total + (demand.get(serviceId) ?? 0), 0);
+
+    return [...SERVICE_CATEGORIES].sort((a, b) => tileDemand(b) - tileDemand(a));
+  }, [popularServices]);
 
   const handleSignOut = async () => {
     try {
@@ -55,15 +113,29 @@ export const HomeScreen: React.FC = () => {
 
   const handleSearch = async (query: string, filters: SearchFilters, searchType: 'project' | 'service') => {
     setIsSearching(true);
+    setLastQuery(query);
     console.log('Searching for:', { query, filters, searchType });
 
+    const searchLocation = filters.location;
+    if (searchLocation?.commune) {
+      setPopularLocation(prev => prev?.commune === searchLocation.commune
+        ? prev
+        : { commune: searchLocation.commune, region: searchLocation.region });
+    }
+
+    // Cached results may be refreshed in the background; ignore refreshes of older searches
+    const searchId = ++latestSearchRef.current;
+    const onRevalidate = (fresh: SearchResult) => {
+      if (searchId === latestSearchRef.current) setSearchResults(fresh);
+    };
+
     try {
       let results: SearchResult;
 
       if (searchType === 'service') {
-        results = await SearchService.searchProvidersByService(query, filters);
+        results = await SearchService.searchProvidersByService(query, filters, 20, 0, onRevalidate);
       } else {
-        results = await SearchService.searchProvidersByProject(query, filters);
+        results = await SearchService.searchProvidersByProject(query, filters, 20, 0, onRevalidate);
       }
 
       setSearchResults(results);
@@ -124,6 +196,24 @@ export const HomeScreen: React.FC = () => {
     }
   };
 
+  const handleSaveSearch = async () => {
+    if (!user?.id || !searchResults) return;
+
+    const commune = searchResults.filters.location?.commune;
+    const name = commune ? `${lastQuery} en ${commune}` : lastQuery;
+
+    setIsSavingSearch(true);
+    try {
+      await SavedSearchService.saveSearch(user.id, name, lastQuery, searchResults.filters);
+      Alert.alert('Búsqueda guardada', 'Te avisaremos cuando aparezcan nuevos profesionales. Puedes gestionarla desde tu perfil.');
+    } catch (error) {
+      console.error('Error saving search:', error instanceof Error ? error.message : error);
+      Alert.alert('Error', 'No se pudo guardar la búsqueda. Intenta nuevamente.');
+    } finally {
+      setIsSavingSearch(false);
+    }
+  };
+
   const handleServiceCategoryPress = (categoryId: string) => {
     // Navigate to service category screen
     console.log('Navigate to category:', categoryId);
@@ -173,9 +263,25 @@ export const HomeScreen: React.FC = () => {
                   <Text style={styles.sectionTitle}>
                     Resultados ({(searchResults.totalCount ?? 0).toString()})
                   </Text>
-                  {isSearching && <ActivityIndicator size="small" color={colors.primary[500]} />}
+                  {isSearching ? (
+                    <ActivityIndicator size="small" color={colors.primary[500]} />
+                  ) : searchResults.searchType === 'service' && (
+                    <TouchableOpacity onPress={handleSaveSearch} disabled={isSavingSearch}>
+                      <Text style={styles.seeAllText}>
+                        {isSavingSearch ? 'Guardando...' : '🔔 Guardar búsqueda'}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
                 </View>
 
+                {searchResults.facets && (
+                  <SearchFacetChips
+                    facets={searchResults.facets}
+                    filters={searchResults.filters}
+                    onChange={(filters) => handleSearch(lastQuery, filters, searchResults.searchType)}
+                  />
+                )}
+
                 {searchResults.providers.length > 0 ? (
                   searchResults.providers.map((provider) => (
                     <EnterpriseCard
@@ -209,8 +315,12 @@ export const HomeScreen: React.FC = () => {
                                 <Text style={styles.rating}>{(provider.rating ?? 0).toString()}</Text>
                                 <Text style={styles.reviewCount}>({(provider.reviewCount ?? 0).toString()} reseñas)</Text>
                               </View>
-                              {provider.distance && (
-                                <Text style={styles.distance}>• {provider.distance}km</Text>
+                              {(provider.drivingDistance ?? provider.distance) != null && (
+                                <Text style={styles.distance}>
+                                  • {provider.drivingDistance != null
+                                    ? LocationService.formatDistance(provider.drivingDistance, true)
+                                    : LocationService.formatDistance(provider.distance ?? 0)}
+                                </Text>
                               )}
                             </View>
                             {provider.pricing?.hourlyRate && (
@@ -218,6 +328,11 @@ export const HomeScreen: React.FC = () => {
                                 CLP ${Number(provider.pricing?.hourlyRate ?? 0).toLocaleString()}/hora
                               </Text>
                             )}
+                            <Text style={styles.nextAvailableText}>
+                              {provider.availability.nextAvailable
+                                ? `🗓️ Próximo disponible: ${formatNextAvailable(provider.availability.nextAvailable)}`
+                                : '🗓️ Sin horarios libres en las próximas 2 semanas'}
+                            </Text>
                           </View>
                         </View>
                       </View>
@@ -240,13 +355,15 @@ export const HomeScreen: React.FC = () => {
             {/* Service Categories - only show if no search results */}
             {!searchResults && (
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Servicios Populares</Text>
+              <Text style={styles.sectionTitle}>
+                Servicios Populares{popularServices[0]?.scope === 'comuna' ? ` en ${popularLocation?.commune}` : ''}
+              </Text>
               <ScrollView
                 horizontal
                 showsHorizontalScrollIndicator={false}
                 style={styles.categoriesContainer}
               >
-                {SERVICE_CATEGORIES.map((category) => (
+                {orderedCategories.map((category) => (
                   <TouchableOpacity
                     key={category.id}
                     style={styles.categoryCard}
@@ -629,6 +746,11 @@ const styles = StyleSheet.create({
     color: colors.primary[600],
     marginTop: spacing[2], // 8px
   },
+  nextAvailableText: {
+    fontSize: 13,
+    color: colors.neutral[600],
+    marginTop: spacing[1], // 4px
+  },
 
   // Trust Card
   trustCard: {
@@ -105,9 +105,17 @@ export const ProfileScreen: React.FC = () => {
           navigation.navigate('ProviderVerification');
         }
         break;
+      case 'provider-jobs':
+        navigation.navigate('ProviderJobs');
+        break;
+      case 'provider-quotes':
+        navigation.navigate('ProviderQuotes');
+        break;
+      case 'provider-bookings':
+        navigation.navigate('ProviderBookings');
+        break;
       case 'bookings':
-        // TODO: Navigate to bookings screen
-        console.log('Navigate to bookings');
+        navigation.navigate('CustomerBookings');
         break;
       case 'payments':
         // TODO: Navigate to payments screen
@@ -240,13 +248,39 @@ export const ProfileScreen: React.FC = () => {
             </TouchableOpacity>
 
             {user?.userType === 'provider' && (
-              <TouchableOpacity
-                style={styles.quickActionCard}
-                onPress={() => handleQuickAction('verification')}
-              >
-                <Text style={styles.quickActionIcon}>✅</Text>
-                <Text style={styles.quickActionText}>Verificación</Text>
-              </TouchableOpacity>
+              <>
+                <TouchableOpacity
+                  style={styles.quickActionCard}
+                  onPress={() => handleQuickAction('provider-jobs')}
+                >
+                  <Text style={styles.quickActionIcon}>🧰</Text>
+                  <Text style={styles.quickActionText}>Trabajos Disponibles</Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={styles.quickActionCard}
+                  onPress={() => handleQuickAction('provider-quotes')}
+                >
+                  <Text style={styles.quickActionIcon}>📝</Text>
+                  <Text style={styles.quickActionText}>Mis Cotizaciones</Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={styles.quickActionCard}
+                  onPress={() => handleQuickAction('provider-bookings')}
+                >
+                  <Text style={styles.quickActionIcon}>🗓️</Text>
+                  <Text style={styles.quickActionText}>Trabajos Agendados</Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={styles.quickActionCard}
+                  onPress={() => handleQuickAction('verification')}
+                >
+                  <Text style={styles.quickActionIcon}>✅</Text>
+                  <Text style={styles.quickActionText}>Verificación</Text>
+                </TouchableOpacity>
+              </>
             )}
           </View>
         </View>
@@ -0,0 +1,635 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import type { RouteProp } from '@react-navigation/native';
+import { useAuth } from '../../hooks/useEnterpriseAuth';
+import { Button } from '../../components/ui';
+import { colors, spacing, borderRadius } from '../../design/tokens';
+import { MainStackParamList } from '../../types';
+import { QuoteChangeRequestModal, QuotePdfShareButton, QuoteRevisionTimeline } from '../../components/quotes';
+import { QuoteInboxService } from '../../services/quoteInboxService';
+import { QuoteNegotiationService } from '../../services/quoteNegotiationService';
+import { CustomerQuote, QuoteHighlight, QuoteInboxRequest } from '../../types/quoteInbox';
+import { QuoteChangeRequestInput } from '../../types/quoteNegotiation';
+import {
+  getQuoteHighlights,
+  formatQuoteDuration,
+  formatQuoteExpiry,
+  QUOTE_HIGHLIGHT_LABELS,
+  TRUST_LEVEL_LABELS,
+} from '../../utils/quoteComparison';
+
+const REQUEST_STATUS_LABELS: Record<QuoteInboxRequest['status'], string> = {
+  open: 'Esperando cotizaciones',
+  quoted: 'Con cotizaciones',
+  booked: 'Agendada',
+  expired: 'Expirada',
+};
+
+const QUOTE_COLUMN_WIDTH = 260;
+
+const formatCLP = (amount: number) => `$${Math.round(amount).toLocaleString('es-CL')}`;
+
+const formatAvailability = (quote: CustomerQuote) => {
+  const [year, month, day] = quote.availability.date.split('-').map(Number);
+  const date = new Date(year, month - 1, day).toLocaleDateString('es-CL', { weekday: 'short', day: 'numeric', month: 'short' });
+  return `${date} · ${quote.availability.start}–${quote.availability.end}`;
+};
+
+export const QuoteInboxScreen: React.FC = () => {
+  const { user } = useAuth();
+  const navigation = useNavigation();
+  const route = useRoute<RouteProp<MainStackParamList, 'Quotes'>>();
+  const [requests, setRequests] = useState<QuoteInboxRequest[]>([]);
+  const [selectedRequestId, setSelectedRequestId] = useState<string | null>(route.params?.serviceRequestId ?? null);
+  const [quotes, setQuotes] = useState<CustomerQuote[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [acceptingQuoteId, setAcceptingQuoteId] = useState<string | null>(null);
+  const [expandedQuoteIds, setExpandedQuoteIds] = useState<string[]>([]);
+  const [historyQuoteIds, setHistoryQuoteIds] = useState<string[]>([]);
+  const [changeRequestQuote, setChangeRequestQuote] = useState<CustomerQuote | null>(null);
+  const [isSubmittingChanges, setIsSubmittingChanges] = useState(false);
+
+  // Deep link or wizard hand-off to a specific request
+  useEffect(() => {
+    const serviceRequestId = route.params?.serviceRequestId;
+    if (!serviceRequestId) return;
+
+    setSelectedRequestId(serviceRequestId);
+    navigation.setParams({ serviceRequestId: undefined } as never);
+  }, [route.params?.serviceRequestId]);
+
+  const loadRequests = useCallback(async () => {
+    if (!user?.id) return;
+    try {
+      setRequests(await QuoteInboxService.getCustomerRequests(user.id));
+    } catch (error) {
+      Alert.alert('Cotizaciones', error instanceof Error ? error.message : 'No pudimos cargar tus solicitudes.');
+    }
+  }, [user?.id]);
+
+  const loadQuotes = useCallback(async (serviceRequestId: string) => {
+    try {
+      setQuotes(await QuoteInboxService.getQuotes(serviceRequestId));
+    } catch (error) {
+      Alert.alert('Cotizaciones', error instanceof Error ? error.message : 'No pudimos cargar las cotizaciones.');
+      setSelectedRequestId(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    setIsLoading(true);
+    const load = selectedRequestId ? loadQuotes(selectedRequestId) : loadRequests();
+    load.finally(() => setIsLoading(false));
+  }, [selectedRequestId, loadRequests, loadQuotes]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await (selectedRequestId ? loadQuotes(selectedRequestId) : loadRequests());
+    setIsRefreshing(false);
+  };
+
+  const handleBackToList = () => {
+    setSelectedRequestId(null);
+    setQuotes([]);
+    setExpandedQuoteIds([]);
+    setHistoryQuoteIds([]);
+  };
+
+  const toggleExpanded = (quoteId: string) => {
+    setExpandedQuoteIds(prev =>
+      prev.includes(quoteId) ? prev.filter(id => id !== quoteId) : [...prev, quoteId]
+    );
+  };
+
+  const toggleHistory = (quoteId: string) => {
+    setHistoryQuoteIds(prev =>
+      prev.includes(quoteId) ? prev.filter(id => id !== quoteId) : [...prev, quoteId]
+    );
+  };
+
+  const handleRequestChanges = async (input: QuoteChangeRequestInput) => {
+    if (!changeRequestQuote) return;
+
+    setIsSubmittingChanges(true);
+    try {
+      await QuoteNegotiationService.requestChanges(changeRequestQuote.id, input);
+      setChangeRequestQuote(null);
+      Alert.alert('Solicitud enviada', 'El profesional te enviará una nueva versión o te responderá pronto.');
+    } catch (error) {
+      Alert.alert('No se pudo enviar', error instanceof Error ? error.message : 'Inténtalo nuevamente.');
+    } finally {
+      setIsSubmittingChanges(false);
+    }
+    await loadQuotes(changeRequestQuote.serviceRequestId);
+  };
+
+  const handleAccept = (quote: CustomerQuote) => {
+    const otherCount = quotes.filter(item => item.id !== quote.id && item.status === 'active').length;
+
+    Alert.alert(
+      'Aceptar cotización',
+      `Vas a contratar a ${quote.provider.businessName || quote.provider.name} por ${formatCLP(quote.breakdown.total)} el ${formatAvailability(quote)}.`
+        + (quote.pendingChangeRequest ? ' Tu solicitud de cambios se cerrará y aceptarás la versión actual.' : '')
+        + (otherCount > 0 ? ` Las otras ${otherCount} cotizaciones se rechazarán.` : ''),
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Aceptar',
+          onPress: async () => {
+            setAcceptingQuoteId(quote.id);
+            try {
+              await QuoteInboxService.acceptQuote(quote.id);
+              Alert.alert('¡Servicio agendado!', 'Avisamos al profesional. Te confirmará los detalles antes de la visita.');
+              await loadQuotes(quote.serviceRequestId);
+            } catch (error) {
+              Alert.alert('No se pudo aceptar', error instanceof Error ? error.message : 'Inténtalo nuevamente.');
+              await loadQuotes(quote.serviceRequestId);
+            } finally {
+              setAcceptingQuoteId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderRequestList = () => (
+    <ScrollView
+      contentContainerStyle={styles.listContainer}
+      refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}
+    >
+      <Text style={styles.title}>Cotizaciones</Text>
+      {requests.length === 0 && !isLoading && (
+        <Text style={styles.emptyText}>
+          Aún no publicas solicitudes. Cuando lo hagas, aquí verás las cotizaciones de los profesionales.
+        </Text>
+      )}
+      {requests.map(request => (
+        <TouchableOpacity
+          key={request.id}
+          style={styles.requestCard}
+          onPress={() => setSelectedRequestId(request.id)}
+        >
+          <View style={styles.requestHeader}>
+            <Text style={styles.requestTitle} numberOfLines={1}>{request.title}</Text>
+            {request.activeQuoteCount > 0 && (
+              <View style={styles.countBadge}>
+                <Text style={styles.countBadgeText}>{request.activeQuoteCount}</Text>
+              </View>
+            )}
+          </View>
+          <Text style={styles.requestStatus}>{REQUEST_STATUS_LABELS[request.status]}</Text>
+          {request.lowestTotal !== null && (
+            <Text style={styles.requestLowest}>Desde {formatCLP(request.lowestTotal)}</Text>
+          )}
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+
+  const renderAmountRow = (label: string, amount: number, emphasized = false) => (
+    <View style={styles.amountRow}>
+      <Text style={[styles.amountLabel, emphasized && styles.amountEmphasis]}>{label}</Text>
+      <Text style={[styles.amountValue, emphasized && styles.amountEmphasis]}>{formatCLP(amount)}</Text>
+    </View>
+  );
+
+  const renderQuoteColumn = (quote: CustomerQuote, highlights: QuoteHighlight[], canAccept: boolean, title: string) => {
+    const { provider, breakdown } = quote;
+    const isExpanded = expandedQuoteIds.includes(quote.id);
+    const showHistory = historyQuoteIds.includes(quote.id);
+    const expiry = quote.status === 'active' ? formatQuoteExpiry(quote.expiresAt) : null;
+
+    return (
+      <View key={quote.id} style={[styles.quoteColumn, quote.status === 'accepted' && styles.acceptedColumn]}>
+        {/* Provider */}
+        <View style={styles.providerHeader}>
+          <Text style={styles.providerName} numberOfLines={1}>{provider.businessName || provider.name}</Text>
+          {quote.version > 1 && <Text style={styles.versionBadge}>v{quote.version}</Text>}
+        </View>
+        <Text style={styles.providerMeta}>
+          {provider.totalReviews > 0 && provider.rating !== null
+            ? `★ ${provider.rating.toFixed(1)} (${provider.totalReviews})`
+            : 'Sin evaluaciones'}
+          {' · '}{provider.totalJobsCompleted} trabajos
+        </Text>
+        <View style={styles.trustRow}>
+          <Text style={styles.trustBadge}>{TRUST_LEVEL_LABELS[provider.trustLevel]}</Text>
+          {provider.isIdentityVerified && <Text style={styles.trustCheck}>✓ Identidad</Text>}
+          {provider.isBackgroundChecked && <Text style={styles.trustCheck}>✓ Antecedentes</Text>}
+        </View>
+
+        <View style={styles.highlightRow}>
+          {quote.status === 'accepted' && <Text style={[styles.highlight, styles.acceptedHighlight]}>Aceptada</Text>}
+          {highlights.map(highlight => (
+            <Text key={highlight} style={styles.highlight}>
+              {QUOTE_HIGHLIGHT_LABELS[highlight]}
+            </Text>
+          ))}
+        </View>
+
+        {/* Price */}
+        <Text style={styles.total}>{formatCLP(breakdown.total)}</Text>
+        <Text style={styles.totalCaption}>
+          {breakdown.iva > 0 ? `IVA ${breakdown.vatRate}% incluido` : 'Sin IVA'}
+          {quote.documentType ? ` · ${quote.documentType}` : ''}
+        </Text>
+
+        <View style={styles.section}>
+          {renderAmountRow('Mano de obra', breakdown.laborSubtotal)}
+          {isExpanded && breakdown.laborItems.map((item, index) => (
+            <Text key={`labor-${index}`} style={styles.itemLine}>· {item.name} {formatCLP(item.amount)}</Text>
+          ))}
+          {renderAmountRow(quote.includesMaterials ? 'Materiales' : 'Materiales (no incluidos)', breakdown.materialsSubtotal)}
+          {isExpanded && breakdown.materialsItems.map((item, index) => (
+            <Text key={`material-${index}`} style={styles.itemLine}>
+              · {item.quantity} {item.unit} {item.name} {formatCLP(item.subtotal)}
+            </Text>
+          ))}
+          {renderAmountRow('Traslado', breakdown.travelFee)}
+          {breakdown.feesSubtotal > 0 && renderAmountRow('Otros cargos', breakdown.feesSubtotal)}
+          {isExpanded && breakdown.additionalFees.map((item, index) => (
+            <Text key={`fee-${index}`} style={styles.itemLine}>· {item.name} {formatCLP(item.amount)}</Text>
+          ))}
+          {renderAmountRow('Subtotal', breakdown.subtotal)}
+          {renderAmountRow(`IVA (${breakdown.vatRate}%)`, breakdown.iva)}
+          {renderAmountRow('Total', breakdown.total, true)}
+          <TouchableOpacity onPress={() => toggleExpanded(quote.id)}>
+            <Text style={styles.toggleText}>{isExpanded ? 'Ocultar detalle' : 'Ver detalle'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Timing */}
+        <View style={styles.section}>
+          <Text style={styles.fieldLabel}>Duración</Text>
+          <Text style={styles.fieldValue}>{formatQuoteDuration(quote)}</Text>
+          {isExpanded && quote.sessionStructure?.sessions.map((session, index) => (
+            <Text key={`session-${index}`} style={styles.itemLine}>
+              · Visita {index + 1}: {session.hours} h{session.description ? ` – ${session.description}` : ''}
+            </Text>
+          ))}
+          <Text style={styles.fieldLabel}>Disponible</Text>
+          <Text style={styles.fieldValue}>{formatAvailability(quote)}</Text>
+          {expiry && (
+            <Text style={[styles.expiryText, expiry.isUrgent && styles.warningText]}>{expiry.label}</Text>
+          )}
+          {quote.requiresOnsiteConfirmation && (
+            <Text style={styles.warningText}>
+              Precio a confirmar en una visita{quote.siteVisitCost ? ` (${formatCLP(quote.siteVisitCost)})` : ''}
+            </Text>
+          )}
+        </View>
+
+        {!!quote.message && (
+          <Text style={styles.message} numberOfLines={isExpanded ? undefined : 3}>“{quote.message}”</Text>
+        )}
+
+        {/* Negotiation */}
+        <View style={styles.section}>
+          {quote.acceptedVersion !== null && (
+            <Text style={styles.fieldValue}>Versión aceptada: v{quote.acceptedVersion}</Text>
+          )}
+          {quote.pendingChangeRequest && (
+            <Text style={styles.pendingText}>Pediste cambios. Esperando respuesta del profesional.</Text>
+          )}
+          {canAccept && !quote.pendingChangeRequest && (
+            <TouchableOpacity onPress={() => setChangeRequestQuote(quote)}>
+              <Text style={styles.toggleText}>Pedir cambios o contraofertar</Text>
+            </TouchableOpacity>
+          )}
+          {(quote.version > 1 || quote.pendingChangeRequest) && (
+            <TouchableOpacity onPress={() => toggleHistory(quote.id)}>
+              <Text style={styles.toggleText}>{showHistory ? 'Ocultar historial' : 'Ver historial'}</Text>
+            </TouchableOpacity>
+          )}
+          {showHistory && (
+            <View style={styles.history}>
+              {/* Keyed on the thread state so it reloads after a new version or request */}
+              <QuoteRevisionTimeline
+                key={`${quote.version}-${quote.pendingChangeRequest?.id ?? ''}`}
+                quoteId={quote.id}
+                acceptedVersion={quote.acceptedVersion}
+              />
+            </View>
+          )}
+          <QuotePdfShareButton quoteId={quote.id} title={title} />
+        </View>
+
+        {canAccept && (
+          <Button
+            title="Aceptar"
+            onPress={() => handleAccept(quote)}
+            loading={acceptingQuoteId === quote.id}
+            disabled={acceptingQuoteId !== null}
+            style={styles.acceptButton}
+          />
+        )}
+      </View>
+    );
+  };
+
+  const renderComparison = () => {
+    const request = requests.find(item => item.id === selectedRequestId);
+    const highlights = getQuoteHighlights(quotes.filter(quote => quote.status === 'active'));
+    const hasAccepted = quotes.some(quote => quote.status === 'accepted');
+    const isOpen = !hasAccepted && (!request || request.status === 'open' || request.status === 'quoted');
+
+    return (
+      <ScrollView
+        contentContainerStyle={styles.listContainer}
+        refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}
+      >
+        <TouchableOpacity onPress={handleBackToList}>
+          <Text style={styles.backText}>‹ Mis solicitudes</Text>
+        </TouchableOpacity>
+        <Text style={styles.title} numberOfLines={2}>{request?.title || 'Cotizaciones'}</Text>
+
+        {quotes.length === 0 && !isLoading && (
+          <Text style={styles.emptyText}>
+            Todavía no llegan cotizaciones. Te avisaremos cuando un profesional responda.
+          </Text>
+        )}
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.columns}>
+          {quotes.map(quote => renderQuoteColumn(
+            quote,
+            highlights[quote.id] || [],
+            isOpen && quote.status === 'active',
+            request?.title || 'Cotización'
+          ))}
+        </ScrollView>
+
+        <QuoteChangeRequestModal
+          quote={changeRequestQuote}
+          isVisible={changeRequestQuote !== null}
+          isSubmitting={isSubmittingChanges}
+          onSubmit={handleRequestChanges}
+          onCancel={() => setChangeRequestQuote(null)}
+        />
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {isLoading && !isRefreshing && <ActivityIndicator style={styles.loading} color={colors.primary[500]} />}
+      {selectedRequestId ? renderComparison() : renderRequestList()}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.neutral[50],
+  },
+  loading: {
+    marginTop: spacing[4],
+  },
+  listContainer: {
+    padding: spacing[5],
+    paddingBottom: spacing[24],
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: colors.neutral[900],
+    marginBottom: spacing[4],
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.neutral[500],
+    textAlign: 'center',
+    marginVertical: spacing[8],
+  },
+  backText: {
+    fontSize: 15,
+    color: colors.primary[500],
+    marginBottom: spacing[2],
+  },
+
+  // Request list
+  requestCard: {
+    padding: spacing[4],
+    marginBottom: spacing[3],
+    borderRadius: borderRadius.xl,
+    borderWidth: 1,
+    borderColor: colors.neutral[200],
+    backgroundColor: colors.neutral[0],
+  },
+  requestHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  requestTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.neutral[900],
+  },
+  countBadge: {
+    minWidth: 24,
+    height: 24,
+    paddingHorizontal: spacing[2],
+    borderRadius: borderRadius.full,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.primary[500],
+  },
+  countBadgeText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: colors.neutral[0],
+  },
+  requestStatus: {
+    fontSize: 13,
+    color: colors.neutral[500],
+    marginTop: spacing[1],
+  },
+  requestLowest: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.success[600],
+    marginTop: spacing[1],
+  },
+
+  // Comparison columns
+  columns: {
+    paddingRight: spacing[5],
+  },
+  quoteColumn: {
+    width: QUOTE_COLUMN_WIDTH,
+    padding: spacing[4],
+    marginRight: spacing[3],
+    borderRadius: borderRadius.xl,
+    borderWidth: 1,
+    borderColor: colors.neutral[200],
+    backgroundColor: colors.neutral[0],
+  },
+  acceptedColumn: {
+    borderColor: colors.success[500],
+    borderWidth: 2,
+  },
+  providerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  versionBadge: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.neutral[700],
+    backgroundColor: colors.neutral[100],
+    paddingHorizontal: spacing[2],
+    paddingVertical: 2,
+    borderRadius: borderRadius.full,
+    marginLeft: spacing[2],
+    overflow: 'hidden',
+  },
+  providerName: {
+    flexShrink: 1,
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.neutral[900],
+  },
+  providerMeta: {
+    fontSize: 13,
+    color: colors.neutral[600],
+    marginTop: 2,
+  },
+  trustRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    marginTop: spacing[2],
+  },
+  trustBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.primary[700],
+    backgroundColor: colors.primary[50],
+    paddingHorizontal: spacing[2],
+    paddingVertical: 2,
+    borderRadius: borderRadius.full,
+    marginRight: spacing[2],
+    overflow: 'hidden',
+  },
+  trustCheck: {
+    fontSize: 12,
+    color: colors.success[600],
+    marginRight: spacing[2],
+  },
+  highlightRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    minHeight: 24,
+    marginTop: spacing[2],
+  },
+  highlight: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.warning[700],
+    backgroundColor: colors.warning[50],
+    paddingHorizontal: spacing[2],
+    paddingVertical: 2,
+    borderRadius: borderRadius.full,
+    marginRight: spacing[1],
+    marginBottom: spacing[1],
+    overflow: 'hidden',
+  },
+  acceptedHighlight: {
+    color: colors.success[700],
+    backgroundColor: colors.success[50],
+  },
+  total: {
+    fontSize: 26,
+    fontWeight: '700',
+    color: colors.neutral[900],
+    marginTop: spacing[2],
+  },
+  totalCaption: {
+    fontSize: 12,
+    color: colors.neutral[500],
+  },
+  section: {
+    marginTop: spacing[3],
+    paddingTop: spacing[3],
+    borderTopWidth: 1,
+    borderTopColor: colors.neutral[100],
+  },
+  amountRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 2,
+  },
+  amountLabel: {
+    fontSize: 13,
+    color: colors.neutral[600],
+  },
+  amountValue: {
+    fontSize: 13,
+    color: colors.neutral[800],
+  },
+  amountEmphasis: {
+    fontWeight: '700',
+    color: colors.neutral[900],
+  },
+  itemLine: {
+    fontSize: 12,
+    color: colors.neutral[500],
+    marginLeft: spacing[2],
+  },
+  toggleText: {
+    fontSize: 13,
+    color: colors.primary[500],
+    marginTop: spacing[2],
+  },
+  fieldLabel: {
+    fontSize: 12,
+    color: colors.neutral[500],
+    marginTop: spacing[1],
+  },
+  fieldValue: {
+    fontSize: 14,
+    color: colors.neutral[900],
+  },
+  expiryText: {
+    fontSize: 12,
+    color: colors.neutral[500],
+    marginTop: spacing[2],
+  },
+  warningText: {
+    fontSize: 12,
+    color: colors.warning[700],
+    marginTop: spacing[2],
+  },
+  message: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: colors.neutral[700],
+    marginTop: spacing[3],
+  },
+  pendingText: {
+    fontSize: 12,
+    color: colors.warning[700],
+  },
+  history: {
+    marginTop: spacing[2],
+  },
+  acceptButton: {
+    marginTop: spacing[4],
+  },
+});
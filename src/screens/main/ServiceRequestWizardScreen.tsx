@@ -0,0 +1,771 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  Image,
+  Alert,
+  ActivityIndicator,
+  Switch,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import * as ImagePicker from 'expo-image-picker';
+import { useAuth } from '../../hooks/useEnterpriseAuth';
+import { Button, Input } from '../../components/ui';
+import { colors, spacing, borderRadius } from '../../design/tokens';
+import { SearchService } from '../../services/searchService';
+import { ServiceRequestService } from '../../services/serviceRequestService';
+import { ServiceCategory, ProjectType } from '../../types/search';
+import {
+  CustomerAddress,
+  ServiceRequestDraft,
+  ServiceRequestErrors,
+  ServiceRequestSelection,
+  ServiceRequestStep,
+  SERVICE_REQUEST_STEPS,
+} from '../../types/serviceRequest';
+import {
+  validateServiceRequest,
+  validateServiceRequestStep,
+  describeServiceRequestError,
+  MAX_JOB_PHOTOS,
+  TITLE_MAX_LENGTH,
+  DESCRIPTION_MAX_LENGTH,
+} from '../../utils/serviceRequestValidation';
+import { TIME_WINDOW_OPTIONS, getUpcomingDays, isSlotInPast } from '../../utils/timeSlots';
+
+const STEP_TITLES: Record<ServiceRequestStep, string> = {
+  service: '¿Qué necesitas?',
+  details: 'Cuéntanos del trabajo',
+  address: '¿Dónde es el trabajo?',
+  schedule: '¿Cuándo te acomoda?',
+  budget: 'Tu presupuesto',
+  photos: 'Fotos del trabajo',
+  review: 'Revisa y publica',
+};
+
+const DRAFT_SAVE_DELAY_MS = 500;
+
+const parseAmount = (text: string): number | undefined => {
+  const digits = text.replace(/\D/g, '');
+  return digits ? Number(digits) : undefined;
+};
+
+const formatCLP = (amount?: number) => (amount ? `$${amount.toLocaleString('es-CL')}` : '');
+
+export const ServiceRequestWizardScreen: React.FC = () => {
+  const { user } = useAuth();
+  const navigation = useNavigation();
+  const [draft, setDraft] = useState<ServiceRequestDraft>(ServiceRequestService.createDraft());
+  const [errors, setErrors] = useState<ServiceRequestErrors>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [services, setServices] = useState<ServiceCategory[]>([]);
+  const [projects, setProjects] = useState<ProjectType[]>([]);
+  const [addresses, setAddresses] = useState<CustomerAddress[]>([]);
+  const [catalogMode, setCatalogMode] = useState<'project' | 'service'>('project');
+  const draftLoadedRef = useRef(false);
+
+  // Catalog, addresses and any saved draft
+  useEffect(() => {
+    if (!user?.id) return;
+
+    Promise.all([
+      SearchService.getServiceCategories(),
+      SearchService.getProjectTypes(),
+      ServiceRequestService.getCustomerAddresses(user.id).catch(error => {
+        Alert.alert('Direcciones', error.message);
+        return [];
+      }),
+      ServiceRequestService.loadDraft(user.id),
+    ])
+      .then(([serviceCategories, projectTypes, customerAddresses, savedDraft]) => {
+        setServices(serviceCategories);
+        setProjects(projectTypes);
+        setAddresses(customerAddresses);
+
+        if (savedDraft) {
+          Alert.alert(
+            'Tienes una solicitud sin terminar',
+            '¿Quieres continuar donde quedaste?',
+            [
+              {
+                text: 'Empezar de nuevo',
+                style: 'destructive',
+                onPress: () => ServiceRequestService.discardDraft(user.id, savedDraft),
+              },
+              { text: 'Continuar', onPress: () => setDraft(savedDraft) },
+            ]
+          );
+        } else {
+          const defaultAddress = customerAddresses.find(address => address.is_default) ?? customerAddresses[0];
+          if (defaultAddress) {
+            setDraft(prev => ({ ...prev, addressId: defaultAddress.id }));
+          }
+        }
+      })
+      .finally(() => {
+        draftLoadedRef.current = true;
+        setIsLoading(false);
+      });
+  }, [user?.id]);
+
+  // Every change is kept as the draft, debounced so typing doesn't write on each key
+  useEffect(() => {
+    if (!user?.id || !draftLoadedRef.current) return;
+
+    const timeout = setTimeout(() => ServiceRequestService.saveDraft(user.id, draft), DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [draft, user?.id]);
+
+  const stepIndex = SERVICE_REQUEST_STEPS.indexOf(draft.step);
+
+  const updateDraft = (changes: Partial<ServiceRequestDraft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    // Clear the errors of the fields being edited
+    setErrors(prev => {
+      const next = { ...prev };
+      if ('selection' in changes) delete next.selection;
+      if ('title' in changes) delete next.title;
+      if ('description' in changes) delete next.description;
+      if ('addressId' in changes) delete next.addressId;
+      if ('preferredDate' in changes) delete next.preferredDate;
+      if ('timeStart' in changes || 'preferredDate' in changes) delete next.timeWindow;
+      if ('budgetMin' in changes || 'budgetMax' in changes) delete next.budget;
+      if ('photos' in changes) delete next.photos;
+      return next;
+    });
+  };
+
+  const goToStep = (step: ServiceRequestStep) => {
+    setErrors({});
+    setDraft(prev => ({ ...prev, step }));
+  };
+
+  const handleNext = () => {
+    const stepErrors = validateServiceRequestStep(draft.step, draft);
+    if (Object.keys(stepErrors).length > 0) {
+      setErrors(stepErrors);
+      return;
+    }
+    goToStep(SERVICE_REQUEST_STEPS[stepIndex + 1]);
+  };
+
+  const handleBack = () => {
+    if (stepIndex > 0) goToStep(SERVICE_REQUEST_STEPS[stepIndex - 1]);
+  };
+
+  const handleSelect = (selection: ServiceRequestSelection) => {
+    // Budget follows the selection unless the customer already typed one
+    const budget = draft.selection && (draft.budgetMin !== undefined || draft.budgetMax !== undefined)
+      && (draft.budgetMin !== draft.selection.avgPriceMin || draft.budgetMax !== draft.selection.avgPriceMax)
+      ? {}
+      : ServiceRequestService.suggestedBudget(selection);
+
+    updateDraft({
+      selection,
+      ...budget,
+      title: draft.title || selection.name,
+    });
+  };
+
+  const handleAddPhoto = async () => {
+    if (!user?.id) return;
+    if (draft.photos.length >= MAX_JOB_PHOTOS) {
+      setErrors({ photos: `Puedes adjuntar hasta ${MAX_JOB_PHOTOS} fotos` });
+      return;
+    }
+
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (permission.status !== 'granted') {
+      Alert.alert('Permisos requeridos', 'Necesitamos acceso a tu galería para adjuntar fotos del trabajo.');
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      quality: 0.7,
+      exif: false,
+    });
+    if (result.canceled || !result.assets[0]) return;
+
+    setIsUploading(true);
+    try {
+      const photo = await ServiceRequestService.uploadPhoto(user.id, result.assets[0]);
+      updateDraft({ photos: [...draft.photos, photo] });
+    } catch (error) {
+      setErrors({ photos: error instanceof Error ? error.message : 'No pudimos subir la foto. Inténtalo nuevamente.' });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleRemovePhoto = (path: string) => {
+    updateDraft({ photos: draft.photos.filter(photo => photo.path !== path) });
+    ServiceRequestService.removePhoto(path);
+  };
+
+  const handleSubmit = async () => {
+    if (!user?.id) return;
+
+    const { errors: draftErrors, firstInvalidStep } = validateServiceRequest(draft);
+    if (firstInvalidStep) {
+      setDraft(prev => ({ ...prev, step: firstInvalidStep }));
+      setErrors(draftErrors);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const request = await ServiceRequestService.submit(user.id, draft);
+      setDraft(ServiceRequestService.createDraft());
+      Alert.alert(
+        '¡Solicitud publicada!',
+        'Te avisaremos cuando los profesionales de tu zona envíen sus cotizaciones.',
+        [{
+          text: 'Entendido',
+          onPress: () => navigation.navigate({ name: 'Quotes', params: { serviceRequestId: request.id } } as never),
+        }]
+      );
+    } catch (error) {
+      Alert.alert('No se pudo publicar', error instanceof Error ? error.message : describeServiceRequestError(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderError = (message?: string) =>
+    message ? <Text style={styles.errorText}>{message}</Text> : null;
+
+  const renderServiceStep = () => {
+    const items = catalogMode === 'project' ? projects : services;
+
+    return (
+      <View>
+        <View style={styles.segmented}>
+          {(['project', 'service'] as const).map(mode => (
+            <TouchableOpacity
+              key={mode}
+              style={[styles.segment, catalogMode === mode && styles.activeSegment]}
+              onPress={() => setCatalogMode(mode)}
+            >
+              <Text style={[styles.segmentText, catalogMode === mode && styles.activeSegmentText]}>
+                {mode === 'project' ? 'Proyectos' : 'Servicios'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {items.map(item => {
+          const isSelected = draft.selection?.kind === catalogMode && draft.selection.id === item.id;
+          return (
+            <TouchableOpacity
+              key={item.id}
+              style={[styles.optionCard, isSelected && styles.selectedOptionCard]}
+              onPress={() => handleSelect({
+                kind: catalogMode,
+                id: item.id,
+                name: item.name,
+                icon: item.icon,
+                avgPriceMin: item.avgPriceMin,
+                avgPriceMax: item.avgPriceMax,
+              })}
+            >
+              <Text style={styles.optionIcon}>{item.icon || '🔧'}</Text>
+              <View style={styles.optionContent}>
+                <Text style={styles.optionTitle}>{item.name}</Text>
+                {!!item.avgPriceMin && !!item.avgPriceMax && (
+                  <Text style={styles.optionSubtitle}>
+                    Precio habitual {formatCLP(item.avgPriceMin)} - {formatCLP(item.avgPriceMax)}
+                  </Text>
+                )}
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+        {renderError(errors.selection)}
+      </View>
+    );
+  };
+
+  const renderDetailsStep = () => (
+    <View>
+      <Input
+        label="Título"
+        placeholder="Ej: Cambiar enchufes del living"
+        value={draft.title}
+        onChangeText={title => updateDraft({ title })}
+        error={errors.title}
+        helperText={`${draft.title.trim().length}/${TITLE_MAX_LENGTH}`}
+      />
+      <Input
+        label="Descripción"
+        placeholder="Describe qué hay que hacer, medidas, materiales y cualquier detalle útil"
+        value={draft.description}
+        onChangeText={description => updateDraft({ description })}
+        error={errors.description}
+        helperText={`${draft.description.trim().length}/${DESCRIPTION_MAX_LENGTH}`}
+        multiline
+      />
+      <View style={styles.switchRow}>
+        <Text style={styles.switchLabel}>Es urgente</Text>
+        <Switch value={draft.isUrgent} onValueChange={isUrgent => updateDraft({ isUrgent })} />
+      </View>
+    </View>
+  );
+
+  const renderAddressStep = () => (
+    <View>
+      {addresses.length === 0 && (
+        <Text style={styles.emptyText}>
+          Aún no tienes direcciones guardadas. Agrega una en tu perfil para publicar la solicitud.
+        </Text>
+      )}
+      {addresses.map(address => (
+        <TouchableOpacity
+          key={address.id}
+          style={[styles.optionCard, draft.addressId === address.id && styles.selectedOptionCard]}
+          onPress={() => updateDraft({ addressId: address.id })}
+        >
+          <Text style={styles.optionIcon}>{address.address_type === 'work' ? '🏢' : '🏠'}</Text>
+          <View style={styles.optionContent}>
+            <Text style={styles.optionTitle}>{address.street}</Text>
+            <Text style={styles.optionSubtitle}>{address.comuna}, {address.region}</Text>
+          </View>
+        </TouchableOpacity>
+      ))}
+      {renderError(errors.addressId)}
+    </View>
+  );
+
+  const renderScheduleStep = () => (
+    <View>
+      <Text style={styles.fieldLabel}>Fecha</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+        {getUpcomingDays(14).map(day => (
+          <TouchableOpacity
+            key={day.date}
+            style={[styles.chip, draft.preferredDate === day.date && styles.activeChip]}
+            onPress={() => {
+              const windowIsPast = draft.timeStart && draft.timeEnd
+                && isSlotInPast({ date: day.date, start: draft.timeStart, end: draft.timeEnd });
+              updateDraft({
+                preferredDate: day.date,
+                ...(windowIsPast ? { timeStart: undefined, timeEnd: undefined } : {}),
+              });
+            }}
+          >
+            <Text style={[styles.chipText, draft.preferredDate === day.date && styles.activeChipText]}>
+              {day.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+      {renderError(errors.preferredDate)}
+
+      <Text style={styles.fieldLabel}>Horario</Text>
+      <View style={styles.chipWrap}>
+        {TIME_WINDOW_OPTIONS.map(option => {
+          const isActive = draft.timeStart === option.start && draft.timeEnd === option.end;
+          const isPast = !!draft.preferredDate && isSlotInPast({ date: draft.preferredDate, start: option.start, end: option.end });
+          return (
+            <TouchableOpacity
+              key={option.start}
+              style={[styles.chip, styles.wrappedChip, isActive && styles.activeChip, isPast && styles.disabledChip]}
+              onPress={() => updateDraft({ timeStart: option.start, timeEnd: option.end })}
+              disabled={isPast}
+            >
+              <Text style={[styles.chipText, isActive && styles.activeChipText]}>{option.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      {renderError(errors.timeWindow)}
+    </View>
+  );
+
+  const renderBudgetStep = () => (
+    <View>
+      {draft.selection?.avgPriceMin && draft.selection.avgPriceMax ? (
+        <Text style={styles.hintText}>
+          Para {draft.selection.name} se cobra normalmente entre {formatCLP(draft.selection.avgPriceMin)} y {formatCLP(draft.selection.avgPriceMax)}.
+        </Text>
+      ) : null}
+      <Input
+        label="Mínimo (CLP)"
+        placeholder="$20.000"
+        value={formatCLP(draft.budgetMin)}
+        onChangeText={text => updateDraft({ budgetMin: parseAmount(text) })}
+        keyboardType="numeric"
+      />
+      <Input
+        label="Máximo (CLP)"
+        placeholder="$70.000"
+        value={formatCLP(draft.budgetMax)}
+        onChangeText={text => updateDraft({ budgetMax: parseAmount(text) })}
+        keyboardType="numeric"
+      />
+      {renderError(errors.budget)}
+      <View style={styles.switchRow}>
+        <Text style={styles.switchLabel}>El profesional debe traer los materiales</Text>
+        <Switch value={draft.requiresMaterials} onValueChange={requiresMaterials => updateDraft({ requiresMaterials })} />
+      </View>
+    </View>
+  );
+
+  const renderPhotosStep = () => (
+    <View>
+      <Text style={styles.hintText}>
+        Las fotos ayudan a recibir cotizaciones más precisas. Opcional, hasta {MAX_JOB_PHOTOS}.
+      </Text>
+      <View style={styles.photoGrid}>
+        {draft.photos.map(photo => (
+          <View key={photo.path} style={styles.photoItem}>
+            {photo.previewUri
+              ? <Image source={{ uri: photo.previewUri }} style={styles.photo} />
+              : <View style={[styles.photo, styles.photoPlaceholder]} />}
+            <TouchableOpacity style={styles.removePhoto} onPress={() => handleRemovePhoto(photo.path)}>
+              <Text style={styles.removePhotoText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+        {draft.photos.length < MAX_JOB_PHOTOS && (
+          <TouchableOpacity style={[styles.photo, styles.addPhoto]} onPress={handleAddPhoto} disabled={isUploading}>
+            {isUploading
+              ? <ActivityIndicator color={colors.primary[500]} />
+              : <Text style={styles.addPhotoText}>＋</Text>}
+          </TouchableOpacity>
+        )}
+      </View>
+      {renderError(errors.photos)}
+    </View>
+  );
+
+  const renderReviewStep = () => {
+    const address = addresses.find(item => item.id === draft.addressId);
+    const window = TIME_WINDOW_OPTIONS.find(option => option.start === draft.timeStart && option.end === draft.timeEnd);
+    const rows: Array<[string, string, ServiceRequestStep]> = [
+      ['Trabajo', draft.selection?.name ?? '', 'service'],
+      ['Título', draft.title.trim(), 'details'],
+      ['Dirección', address ? `${address.street}, ${address.comuna}` : '', 'address'],
+      ['Fecha', `${draft.preferredDate ?? ''} ${window?.label ?? ''}`.trim(), 'schedule'],
+      ['Presupuesto', draft.budgetMin || draft.budgetMax ? `${formatCLP(draft.budgetMin) || '—'} - ${formatCLP(draft.budgetMax) || '—'}` : 'A convenir', 'budget'],
+      ['Fotos', draft.photos.length > 0 ? `${draft.photos.length}` : 'Sin fotos', 'photos'],
+    ];
+
+    return (
+      <View>
+        {rows.map(([label, value, step]) => (
+          <TouchableOpacity key={label} style={styles.reviewRow} onPress={() => goToStep(step)}>
+            <Text style={styles.reviewLabel}>{label}</Text>
+            <Text style={styles.reviewValue}>{value}</Text>
+          </TouchableOpacity>
+        ))}
+        {draft.isUrgent && <Text style={styles.urgentBadge}>⚡ Urgente</Text>}
+      </View>
+    );
+  };
+
+  const renderStep = () => {
+    switch (draft.step) {
+      case 'service': return renderServiceStep();
+      case 'details': return renderDetailsStep();
+      case 'address': return renderAddressStep();
+      case 'schedule': return renderScheduleStep();
+      case 'budget': return renderBudgetStep();
+      case 'photos': return renderPhotosStep();
+      case 'review': return renderReviewStep();
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ActivityIndicator style={styles.loading} color={colors.primary[500]} />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.stepCounter}>Paso {stepIndex + 1} de {SERVICE_REQUEST_STEPS.length}</Text>
+        <Text style={styles.title}>{STEP_TITLES[draft.step]}</Text>
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressFill, { width: `${((stepIndex + 1) / SERVICE_REQUEST_STEPS.length) * 100}%` }]} />
+        </View>
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer} keyboardShouldPersistTaps="handled">
+        {renderStep()}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        {stepIndex > 0 && (
+          <Button title="Atrás" variant="secondary" onPress={handleBack} style={styles.footerButton} />
+        )}
+        {draft.step === 'review' ? (
+          <Button title="Publicar solicitud" onPress={handleSubmit} loading={isSubmitting} style={styles.footerButton} />
+        ) : (
+          <Button title="Continuar" onPress={handleNext} disabled={isUploading} style={styles.footerButton} />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.neutral[50],
+  },
+  loading: {
+    flex: 1,
+  },
+  header: {
+    paddingHorizontal: spacing[5],
+    paddingTop: spacing[4],
+    paddingBottom: spacing[3],
+    backgroundColor: colors.neutral[0],
+  },
+  stepCounter: {
+    fontSize: 13,
+    color: colors.neutral[500],
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: colors.neutral[900],
+    marginTop: spacing[1],
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.neutral[200],
+    marginTop: spacing[3],
+  },
+  progressFill: {
+    height: 4,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.primary[500],
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: spacing[5],
+    paddingBottom: spacing[10],
+  },
+  footer: {
+    flexDirection: 'row',
+    padding: spacing[4],
+    paddingBottom: spacing[20],
+    backgroundColor: colors.neutral[0],
+    borderTopWidth: 1,
+    borderTopColor: colors.neutral[200],
+  },
+  footerButton: {
+    flex: 1,
+    marginHorizontal: spacing[1],
+  },
+
+  // Catalog and address options
+  segmented: {
+    flexDirection: 'row',
+    backgroundColor: colors.neutral[100],
+    borderRadius: borderRadius.lg,
+    padding: spacing[1],
+    marginBottom: spacing[4],
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: spacing[2],
+    alignItems: 'center',
+    borderRadius: borderRadius.md,
+  },
+  activeSegment: {
+    backgroundColor: colors.neutral[0],
+  },
+  segmentText: {
+    fontSize: 14,
+    color: colors.neutral[600],
+  },
+  activeSegmentText: {
+    color: colors.neutral[900],
+    fontWeight: '600',
+  },
+  optionCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing[4],
+    marginBottom: spacing[2],
+    borderRadius: borderRadius.xl,
+    borderWidth: 1,
+    borderColor: colors.neutral[200],
+    backgroundColor: colors.neutral[0],
+  },
+  selectedOptionCard: {
+    borderColor: colors.primary[500],
+    backgroundColor: colors.primary[50],
+  },
+  optionIcon: {
+    fontSize: 24,
+    marginRight: spacing[3],
+  },
+  optionContent: {
+    flex: 1,
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.neutral[900],
+  },
+  optionSubtitle: {
+    fontSize: 13,
+    color: colors.neutral[500],
+    marginTop: 2,
+  },
+
+  // Fields
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.neutral[700],
+    marginBottom: spacing[2],
+    marginTop: spacing[3],
+  },
+  errorText: {
+    fontSize: 13,
+    color: colors.error[500],
+    marginTop: spacing[2],
+  },
+  hintText: {
+    fontSize: 14,
+    color: colors.neutral[600],
+    marginBottom: spacing[4],
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.neutral[500],
+    textAlign: 'center',
+    marginVertical: spacing[6],
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: spacing[4],
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: colors.neutral[800],
+  },
+
+  // Date and time chips
+  chipRow: {
+    marginBottom: spacing[1],
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: spacing[3],
+    paddingVertical: spacing[2],
+    marginRight: spacing[2],
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.neutral[300],
+    backgroundColor: colors.neutral[0],
+  },
+  wrappedChip: {
+    marginBottom: spacing[2],
+  },
+  activeChip: {
+    backgroundColor: colors.primary[500],
+    borderColor: colors.primary[500],
+  },
+  disabledChip: {
+    opacity: 0.4,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.neutral[700],
+  },
+  activeChipText: {
+    color: colors.neutral[0],
+  },
+
+  // Photos
+  photoGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  photoItem: {
+    position: 'relative',
+  },
+  photo: {
+    width: 96,
+    height: 96,
+    borderRadius: borderRadius.lg,
+    marginRight: spacing[2],
+    marginBottom: spacing[2],
+  },
+  photoPlaceholder: {
+    backgroundColor: colors.neutral[200],
+  },
+  addPhoto: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: colors.neutral[400],
+  },
+  addPhotoText: {
+    fontSize: 28,
+    color: colors.neutral[500],
+  },
+  removePhoto: {
+    position: 'absolute',
+    top: spacing[1],
+    right: spacing[3],
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  removePhotoText: {
+    color: colors.neutral[0],
+    fontSize: 12,
+  },
+
+  // Review
+  reviewRow: {
+    paddingVertical: spacing[3],
+    borderBottomWidth: 1,
+    borderBottomColor: colors.neutral[200],
+  },
+  reviewLabel: {
+    fontSize: 13,
+    color: colors.neutral[500],
+  },
+  reviewValue: {
+    fontSize: 16,
+    color: colors.neutral[900],
+    marginTop: 2,
+  },
+  urgentBadge: {
+    marginTop: spacing[4],
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.warning[600],
+  },
+});
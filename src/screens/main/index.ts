@@ -1,2 +1,6 @@
 export { HomeScreen } from './HomeScreen';
-export { ProfileScreen } from './ProfileScreen';
\ No newline at end of file
+export { ProfileScreen } from './ProfileScreen';
+export { ServiceRequestWizardScreen } from './ServiceRequestWizardScreen';
+export { QuoteInboxScreen } from './QuoteInboxScreen';
+export { CustomerBookingsScreen } from './CustomerBookingsScreen';
+export { BookingDetailScreen } from './BookingDetailScreen';
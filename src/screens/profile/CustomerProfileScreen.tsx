@@ -41,6 +41,10 @@ import { AvatarProgressiveImage } from '../../components/storage/ProgressiveImag
 import { AutofillAwareInput } from '../../components/ui/AutofillAwareInput';
 import { Button } from '../../components/ui/Button';
 
+// Profile components
+import { SavedSearchesList } from '../../components/profile/SavedSearchesList';
+import { CalendarSyncSettings } from '../../components/profile/CalendarSyncSettings';
+
 // Types and validation
 import { validateChileanName, validateEmail } from '../../utils/chileanValidation';
 import { uploadProfileImage } from '../../services/profileStorageHelpers';
@@ -615,6 +619,26 @@ export const CustomerProfileScreen: React.FC = () => {
             </>
           ))}
 
+          {/* Saved Searches */}
+          <View style={styles.formSection}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Búsquedas Guardadas</Text>
+            </View>
+            <SavedSearchesList
+              onRunSearch={(savedSearch) =>
+                navigation.navigate({ name: 'Home', params: { savedSearchId: savedSearch.id } } as never)
+              }
+            />
+          </View>
+
+          {/* Calendar */}
+          <View style={styles.formSection}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Calendario</Text>
+            </View>
+            <CalendarSyncSettings />
+          </View>
+
           {/* Action Buttons */}
           {isEditing && (
             <View style={styles.actionButtons}>
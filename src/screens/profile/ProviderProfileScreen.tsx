@@ -48,6 +48,7 @@ import { AvailabilityCalendar } from '../../components/provider/AvailabilityCale
 import { PricingManager } from '../../components/provider/PricingManager';
 import { PortfolioUpload } from '../../components/provider/PortfolioUpload';
 import { EarningsTracker } from '../../components/provider/EarningsTracker';
+import { CalendarSyncSettings } from '../../components/profile/CalendarSyncSettings';
 
 // Types and validation
 import { validateChileanName, validateEmail } from '../../utils/chileanValidation';
@@ -586,13 +587,15 @@ export const ProviderProfileScreen: React.FC = () => {
         );
       case 'availability':
         return (
-          <AvailabilityCalendar
-            workingHours={formData.working_hours}
-            isAvailable={formData.is_available}
-            onWorkingHoursChange={(hours) => handleInputChange('working_hours', hours)}
-            onAvailabilityChange={(available) => handleInputChange('is_available', available)}
-            isEditing={isEditing}
-          />
+          <>
+            <AvailabilityCalendar
+              providerId={user?.id || ''}
+              isAvailable={formData.is_available}
+              onAvailabilityChange={(available) => handleInputChange('is_available', available)}
+              isEditing={isEditing}
+            />
+            <CalendarSyncSettings allowImport />
+          </>
         );
       case 'pricing':
         return (
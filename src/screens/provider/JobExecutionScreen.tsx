@@ -0,0 +1,402 @@
+/**
+ * JobExecutionScreen
+ * On-site flow for a booking: check in with a photo of the place, document the work
+ * with before/during/damage/after photos and check out with a photo of the result.
+ *
+ * Features:
+ * - Camera only, with EXIF: each photo carries when and (if the camera allows it)
+ *   where it was taken; arrival and departure use the location of their photo
+ * - The database enforces the same order: no check-in without a 'before' photo and
+ *   no check-out without an 'after' photo
+ * - The customer sees the same record as a timeline (JobTimeline)
+ * - Before checking out, the provider picks the care instructions left to the customer
+ */
+
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as ImagePicker from 'expo-image-picker';
+import { ChevronLeftIcon } from '../../components/icons';
+import { Button, Input } from '../../components/ui';
+import { JobTimeline } from '../../components/profile/JobTimeline';
+import { CareInstructionsPicker } from '../../components/provider/CareInstructionsPicker';
+import { colors, spacing, borderRadius } from '../../design/tokens';
+import { useEnterpriseAuth } from '../../hooks/useEnterpriseAuth';
+import { JobExecutionService } from '../../services/jobExecutionService';
+import type { CareInstructionDraft } from '../../types/careInstructions';
+import type { BookingPhoto, JobExecution } from '../../types/jobExecution';
+import type { PhotoType } from '../../types/storage';
+import { CHECK_IN_OPENS_BEFORE_MINUTES, getBookingStartsAt } from '../../utils/bookingLifecycle';
+import {
+  PHOTO_TYPE_LABELS,
+  WORKING_PHOTO_TYPES,
+  formatClockTime,
+  getJobExecutionStep,
+  hasPhotoOfType,
+} from '../../utils/jobExecution';
+
+interface JobExecutionScreenProps {
+  navigation: any;
+  route: {
+    params: {
+      bookingId: string;
+    };
+  };
+}
+
+const latestOfType = (photos: BookingPhoto[], types: PhotoType[]): BookingPhoto | undefined =>
+  [...photos].reverse().find(photo => types.includes(photo.type));
+
+export const JobExecutionScreen: React.FC<JobExecutionScreenProps> = ({ route, navigation }) => {
+  const { bookingId } = route.params;
+  const { user } = useEnterpriseAuth();
+
+  const [execution, setExecution] = useState<JobExecution | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  // Photo type being uploaded, or the check-in/out in progress
+  const [busy, setBusy] = useState<PhotoType | 'check_in' | 'check_out' | null>(null);
+  const [providerNotes, setProviderNotes] = useState('');
+  const [careInstructions, setCareInstructions] = useState<CareInstructionDraft[]>([]);
+
+  const loadExecution = useCallback(async () => {
+    try {
+      const loaded = await JobExecutionService.getExecution(bookingId);
+      setExecution(loaded);
+      setProviderNotes(current => current || loaded.providerNotes || '');
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'No se pudo cargar el trabajo');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [bookingId]);
+
+  useEffect(() => {
+    loadExecution();
+  }, [loadExecution]);
+
+  // Fresh photos only: the camera, never the gallery
+  const takePhoto = async (): Promise<ImagePicker.ImagePickerAsset | null> => {
+    const permission = await ImagePicker.requestCameraPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert('Permisos', 'Se necesitan permisos de cámara para registrar el trabajo');
+      return null;
+    }
+
+    const result = await ImagePicker.launchCameraAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      quality: 0.7,
+      exif: true,
+    });
+    return result.canceled ? null : result.assets[0];
+  };
+
+  const addPhoto = async (type: PhotoType): Promise<BookingPhoto | null> => {
+    if (!user?.id) return null;
+
+    const asset = await takePhoto();
+    if (!asset) return null;
+
+    setBusy(type);
+    try {
+      const photo = await JobExecutionService.addPhoto(user.id, bookingId, type, asset);
+      setExecution(current => current && { ...current, photos: [...current.photos, photo] });
+      return photo;
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'No se pudo guardar la foto');
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // A 'before' photo first (unless one is already attached), then the check-in at its location
+  const handleCheckIn = async () => {
+    if (!execution) return;
+
+    const photo = latestOfType(execution.photos, ['before']) ?? await addPhoto('before');
+    if (!photo) return;
+
+    setBusy('check_in');
+    try {
+      await JobExecutionService.checkIn(bookingId, photo.location);
+      await loadExecution();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'No se pudo registrar tu llegada');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const checkOut = async (photo: BookingPhoto) => {
+    setBusy('check_out');
+    try {
+      await JobExecutionService.checkOut(bookingId, photo.location, providerNotes, careInstructions);
+      await loadExecution();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'No se pudo registrar tu salida');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // An 'after' photo is required; offers to take one if there is none yet
+  const handleCheckOut = () => {
+    if (!execution) return;
+
+    const afterPhoto = latestOfType(execution.photos, ['after', 'completion']);
+    if (!afterPhoto) {
+      Alert.alert(
+        'Foto del trabajo terminado',
+        'Toma una foto del resultado antes de registrar tu salida. Quedará como respaldo ante cualquier reclamo.',
+        [
+          { text: 'Volver', style: 'cancel' },
+          {
+            text: 'Tomar foto',
+            onPress: async () => {
+              const photo = await addPhoto('after');
+              if (photo) await checkOut(photo);
+            },
+          },
+        ]
+      );
+      return;
+    }
+
+    Alert.alert(
+      'Registrar salida',
+      'El trabajo quedará como terminado y ya no podrás agregar fotos. ¿Continuar?',
+      [
+        { text: 'Volver', style: 'cancel' },
+        { text: 'Registrar salida', onPress: () => checkOut(afterPhoto) },
+      ]
+    );
+  };
+
+  if (isLoading || !execution) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+        <View style={styles.loading}>
+          {isLoading ? (
+            <ActivityIndicator size="large" color={colors.primary[500]} />
+          ) : (
+            <Button title="Reintentar" variant="secondary" onPress={loadExecution} />
+          )}
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const step = getJobExecutionStep(execution);
+  const checkInOpensAt = new Date(
+    getBookingStartsAt(execution.scheduledDate, execution.timeStart).getTime() - CHECK_IN_OPENS_BEFORE_MINUTES * 60 * 1000
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <ChevronLeftIcon size={24} color="#1A1A1A" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>
+          {execution.title}
+        </Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+        <View style={styles.card}>
+          {step === 'waiting' && (
+            <>
+              <Text style={styles.cardTitle}>Aún no es hora de la visita</Text>
+              <Text style={styles.cardText}>
+                Podrás registrar tu llegada desde las {formatClockTime(checkInOpensAt.toISOString())}.
+              </Text>
+            </>
+          )}
+
+          {step === 'arrival' && (
+            <>
+              <Text style={styles.cardTitle}>Registrar llegada</Text>
+              <Text style={styles.cardText}>
+                Al llegar, toma una foto del lugar antes de empezar. Registramos la hora y, si tu cámara
+                guarda la ubicación, dónde la tomaste.
+              </Text>
+              <Button
+                title={hasPhotoOfType(execution.photos, ['before']) ? 'Registrar llegada' : 'Tomar foto y registrar llegada'}
+                onPress={handleCheckIn}
+                loading={busy === 'before' || busy === 'check_in'}
+                disabled={busy !== null}
+              />
+            </>
+          )}
+
+          {step === 'working' && (
+            <>
+              <Text style={styles.cardTitle}>Trabajo en curso</Text>
+              <Text style={styles.cardText}>
+                Agrega fotos a medida que avanzas. Si encuentras daños que ya existían, fotografíalos antes de
+                tocarlos.
+              </Text>
+
+              <View style={styles.photoButtons}>
+                {WORKING_PHOTO_TYPES.map(type => (
+                  <TouchableOpacity
+                    key={type}
+                    style={[styles.photoButton, busy !== null && styles.photoButtonDisabled]}
+                    onPress={() => addPhoto(type)}
+                    disabled={busy !== null}
+                    accessibilityLabel={`Agregar foto: ${PHOTO_TYPE_LABELS[type]}`}
+                  >
+                    {busy === type ? (
+                      <ActivityIndicator size="small" color={colors.primary[500]} />
+                    ) : (
+                      <Text style={styles.photoButtonText}>+ {PHOTO_TYPE_LABELS[type]}</Text>
+                    )}
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <CareInstructionsPicker
+                projectTypeId={execution.projectTypeId}
+                category={execution.projectCategory}
+                value={careInstructions}
+                onChange={setCareInstructions}
+                disabled={busy !== null}
+              />
+
+              <Input
+                label="Notas para el cliente (opcional)"
+                value={providerNotes}
+                onChangeText={setProviderNotes}
+                multiline
+                maxLength={1000}
+              />
+
+              <Button
+                title="Registrar salida"
+                onPress={handleCheckOut}
+                loading={busy === 'after' || busy === 'check_out'}
+                disabled={busy !== null}
+              />
+            </>
+          )}
+
+          {step === 'finished' && (
+            <>
+              <Text style={styles.cardTitle}>Trabajo terminado</Text>
+              <Text style={styles.cardText}>
+                El cliente ya puede ver el registro de la visita. Las fotos quedan guardadas como respaldo.
+              </Text>
+            </>
+          )}
+
+          {step === 'closed' && (
+            <Text style={styles.cardText}>Esta reserva ya no está activa.</Text>
+          )}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Registro de la visita</Text>
+          <JobTimeline execution={execution} />
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  loading: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+    backgroundColor: '#FFFFFF',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontFamily: 'Rubik-SemiBold',
+    textAlign: 'center',
+    paddingHorizontal: spacing[2],
+    color: '#1A1A1A',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: spacing[4],
+    paddingBottom: spacing[20],
+  },
+  card: {
+    borderRadius: borderRadius.lg,
+    padding: spacing[4],
+    marginBottom: spacing[3],
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: colors.neutral[200],
+    gap: spacing[3],
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontFamily: 'Rubik-SemiBold',
+    color: colors.neutral[900],
+  },
+  cardText: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: colors.neutral[600],
+  },
+  photoButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing[2],
+  },
+  photoButton: {
+    minWidth: 140,
+    flexGrow: 1,
+    paddingVertical: spacing[3],
+    paddingHorizontal: spacing[3],
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.primary[500],
+    alignItems: 'center',
+  },
+  photoButtonDisabled: {
+    opacity: 0.5,
+  },
+  photoButtonText: {
+    fontSize: 14,
+    color: colors.primary[500],
+  },
+});
+
+export default JobExecutionScreen;
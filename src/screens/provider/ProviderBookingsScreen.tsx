@@ -0,0 +1,164 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import type { StackNavigationProp } from '@react-navigation/stack';
+import { useAuth } from '../../hooks/useEnterpriseAuth';
+import { Button } from '../../components/ui';
+import { colors, spacing, borderRadius } from '../../design/tokens';
+import { MainStackParamList } from '../../types';
+import { ProviderAgendaBooking } from '../../types/jobExecution';
+import { JobExecutionService } from '../../services/jobExecutionService';
+import { BOOKING_STATUS_LABELS } from '../../utils/bookingLifecycle';
+
+const formatVisitDate = (booking: ProviderAgendaBooking) => {
+  const [year, month, day] = booking.scheduledDate.split('-').map(Number);
+  const date = new Date(year, month - 1, day).toLocaleDateString('es-CL', { weekday: 'short', day: 'numeric', month: 'short' });
+  return `${date} · ${booking.timeStart}–${booking.timeEnd}`;
+};
+
+/**
+ * The provider's upcoming and ongoing visits, soonest first. Each one opens
+ * JobExecutionScreen to check in, document the work and check out.
+ */
+export const ProviderBookingsScreen: React.FC = () => {
+  const { user } = useAuth();
+  const navigation = useNavigation<StackNavigationProp<MainStackParamList>>();
+  const [bookings, setBookings] = useState<ProviderAgendaBooking[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBookings = useCallback(async () => {
+    if (!user?.id) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      setBookings(await JobExecutionService.getProviderAgenda(user.id));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'No pudimos cargar tus trabajos agendados.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user?.id]);
+
+  // Reload on return from JobExecutionScreen, where a visit may have started or ended
+  useFocusEffect(
+    useCallback(() => {
+      loadBookings();
+    }, [loadBookings])
+  );
+
+  const renderBooking = ({ item: booking }: { item: ProviderAgendaBooking }) => {
+    const isOngoing = booking.status === 'in_progress';
+
+    return (
+      <View style={[styles.bookingCard, isOngoing && styles.bookingCardOngoing]}>
+        <Text style={styles.bookingTitle} numberOfLines={1}>{booking.title}</Text>
+        <Text style={styles.bookingMeta}>{formatVisitDate(booking)}</Text>
+        <Text style={styles.bookingMeta}>{BOOKING_STATUS_LABELS[booking.status]}</Text>
+
+        <View style={styles.bookingActions}>
+          <Button
+            title={isOngoing ? 'Continuar trabajo' : 'Abrir visita'}
+            variant={isOngoing ? 'primary' : 'secondary'}
+            size="small"
+            onPress={() => navigation.navigate('JobExecution', { bookingId: booking.id })}
+          />
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <FlatList
+        data={bookings}
+        keyExtractor={booking => booking.id}
+        renderItem={renderBooking}
+        contentContainerStyle={styles.listContainer}
+        refreshControl={<RefreshControl refreshing={isLoading && bookings.length > 0} onRefresh={loadBookings} />}
+        ListHeaderComponent={
+          <View>
+            <Text style={styles.title}>Mis trabajos agendados</Text>
+            {error && <Text style={styles.errorText}>{error}</Text>}
+          </View>
+        }
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator style={styles.loading} color={colors.primary[500]} />
+          ) : (
+            <Text style={styles.emptyText}>
+              No tienes visitas pendientes. Las reservas que aceptes aparecerán aquí.
+            </Text>
+          )
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.neutral[50],
+  },
+  loading: {
+    marginTop: spacing[4],
+  },
+  listContainer: {
+    padding: spacing[5],
+    paddingBottom: spacing[24],
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: colors.neutral[900],
+  },
+  errorText: {
+    fontSize: 14,
+    color: colors.error[500],
+    marginTop: spacing[2],
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.neutral[500],
+    textAlign: 'center',
+    marginVertical: spacing[8],
+  },
+  bookingCard: {
+    padding: spacing[4],
+    marginTop: spacing[3],
+    borderRadius: borderRadius.xl,
+    borderWidth: 1,
+    borderColor: colors.neutral[200],
+    backgroundColor: colors.neutral[0],
+  },
+  bookingCardOngoing: {
+    borderColor: colors.primary[500],
+  },
+  bookingTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.neutral[900],
+  },
+  bookingMeta: {
+    fontSize: 13,
+    color: colors.neutral[500],
+    marginTop: spacing[1],
+  },
+  bookingActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing[2],
+    marginTop: spacing[3],
+  },
+});
+
+export default ProviderBookingsScreen;
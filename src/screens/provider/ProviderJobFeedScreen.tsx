@@ -0,0 +1,226 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import type { StackNavigationProp } from '@react-navigation/stack';
+import { useAuth } from '../../hooks/useEnterpriseAuth';
+import { useProviderJobFeed } from '../../hooks/useProviderJobFeed';
+import { Button } from '../../components/ui';
+import { colors, spacing, borderRadius } from '../../design/tokens';
+import { MainStackParamList } from '../../types';
+import { AvailableJob } from '../../types/providerJobs';
+import { LocationService } from '../../services/locationService';
+
+const formatCLP = (amount: number) => `$${Math.round(amount).toLocaleString('es-CL')}`;
+
+const formatBudget = (job: AvailableJob) => {
+  if (job.budget_min_clp && job.budget_max_clp) return `${formatCLP(job.budget_min_clp)} – ${formatCLP(job.budget_max_clp)}`;
+  if (job.budget_max_clp) return `Hasta ${formatCLP(job.budget_max_clp)}`;
+  if (job.budget_min_clp) return `Desde ${formatCLP(job.budget_min_clp)}`;
+  return null;
+};
+
+const formatPreferredDate = (job: AvailableJob) => {
+  if (!job.preferred_date) return 'Fecha flexible';
+  const [year, month, day] = job.preferred_date.split('-').map(Number);
+  const date = new Date(year, month - 1, day).toLocaleDateString('es-CL', { weekday: 'short', day: 'numeric', month: 'short' });
+  return job.preferred_time_start && job.preferred_time_end
+    ? `${date} · ${job.preferred_time_start.slice(0, 5)}–${job.preferred_time_end.slice(0, 5)}`
+    : date;
+};
+
+/**
+ * Open requests the provider can quote, newest first and kept live through Realtime.
+ * A job opens QuoteScreen; hiding one can be undone right away.
+ */
+export const ProviderJobFeedScreen: React.FC = () => {
+  const { user } = useAuth();
+  const navigation = useNavigation<StackNavigationProp<MainStackParamList>>();
+  const { jobs, totalCount, hasMore, isLoading, isLoadingMore, error, refresh, loadMore, dismissJob, restoreJob } =
+    useProviderJobFeed(user?.id);
+
+  const handleDismiss = async (job: AvailableJob) => {
+    try {
+      await dismissJob(job.id);
+      Alert.alert('Trabajo oculto', `"${job.title}" ya no aparecerá en tu lista.`, [
+        { text: 'Deshacer', onPress: () => restoreJob(job).catch(() => Alert.alert('Trabajos', 'No pudimos volver a mostrar este trabajo.')) },
+        { text: 'OK' },
+      ]);
+    } catch (dismissError) {
+      Alert.alert('Trabajos', dismissError instanceof Error ? dismissError.message : 'No pudimos ocultar este trabajo.');
+    }
+  };
+
+  const renderJob = ({ item: job }: { item: AvailableJob }) => {
+    const budget = formatBudget(job);
+    const distance = job.driving_distance_km ?? job.distance_km;
+
+    return (
+      <View style={styles.jobCard}>
+        <View style={styles.jobHeader}>
+          <Text style={styles.jobTitle} numberOfLines={1}>
+            {job.project_type.icon ? `${job.project_type.icon} ` : ''}{job.title}
+          </Text>
+          {job.is_urgent && <Text style={styles.urgentBadge}>Urgente</Text>}
+        </View>
+        <Text style={styles.jobMeta}>
+          {job.project_type.name} · {job.comuna}
+          {distance !== null ? ` · ${LocationService.formatDistance(distance, job.driving_distance_km !== null)}` : ''}
+        </Text>
+        <Text style={styles.jobMeta}>{formatPreferredDate(job)}</Text>
+        {job.description ? <Text style={styles.jobDescription} numberOfLines={3}>{job.description}</Text> : null}
+
+        <View style={styles.jobFooter}>
+          <View style={styles.jobAmounts}>
+            {budget && <Text style={styles.jobBudget}>Presupuesto: {budget}</Text>}
+            {job.suggested_quote && (
+              <Text style={styles.jobSuggested}>Sugerido: {formatCLP(job.suggested_quote.total_clp)}</Text>
+            )}
+            <Text style={styles.jobMeta}>
+              {job.quote_count === 0 ? 'Sin cotizaciones aún' : `${job.quote_count} cotizaciones`}
+            </Text>
+          </View>
+        </View>
+
+        <View style={styles.jobActions}>
+          <Button title="Ocultar" variant="ghost" size="small" onPress={() => handleDismiss(job)} />
+          <Button title="Cotizar" size="small" onPress={() => navigation.navigate('ProviderQuote', { job })} />
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <FlatList
+        data={jobs}
+        keyExtractor={job => job.id}
+        renderItem={renderJob}
+        contentContainerStyle={styles.listContainer}
+        refreshControl={<RefreshControl refreshing={isLoading && jobs.length > 0} onRefresh={refresh} />}
+        onEndReached={() => {
+          if (hasMore) loadMore();
+        }}
+        onEndReachedThreshold={0.5}
+        ListHeaderComponent={
+          <View>
+            <Text style={styles.title}>Trabajos disponibles</Text>
+            {totalCount > 0 && <Text style={styles.subtitle}>{totalCount} solicitudes para cotizar</Text>}
+            {error && <Text style={styles.errorText}>{error}</Text>}
+          </View>
+        }
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator style={styles.loading} color={colors.primary[500]} />
+          ) : (
+            <Text style={styles.emptyText}>
+              No hay solicitudes para tus servicios y zonas en este momento. Te mostraremos las nuevas apenas lleguen.
+            </Text>
+          )
+        }
+        ListFooterComponent={isLoadingMore ? <ActivityIndicator style={styles.loading} color={colors.primary[500]} /> : null}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.neutral[50],
+  },
+  loading: {
+    marginTop: spacing[4],
+  },
+  listContainer: {
+    padding: spacing[5],
+    paddingBottom: spacing[24],
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: colors.neutral[900],
+  },
+  subtitle: {
+    fontSize: 14,
+    color: colors.neutral[500],
+    marginTop: spacing[1],
+  },
+  errorText: {
+    fontSize: 14,
+    color: colors.error[500],
+    marginTop: spacing[2],
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.neutral[500],
+    textAlign: 'center',
+    marginVertical: spacing[8],
+  },
+  jobCard: {
+    padding: spacing[4],
+    marginTop: spacing[3],
+    borderRadius: borderRadius.xl,
+    borderWidth: 1,
+    borderColor: colors.neutral[200],
+    backgroundColor: colors.neutral[0],
+  },
+  jobHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  jobTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.neutral[900],
+  },
+  urgentBadge: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: colors.error[600],
+    marginLeft: spacing[2],
+  },
+  jobMeta: {
+    fontSize: 13,
+    color: colors.neutral[500],
+    marginTop: spacing[1],
+  },
+  jobDescription: {
+    fontSize: 14,
+    color: colors.neutral[700],
+    marginTop: spacing[2],
+  },
+  jobFooter: {
+    marginTop: spacing[3],
+  },
+  jobAmounts: {
+    gap: spacing[1],
+  },
+  jobBudget: {
+    fontSize: 14,
+    color: colors.neutral[700],
+  },
+  jobSuggested: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.success[600],
+  },
+  jobActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing[2],
+    marginTop: spacing[3],
+  },
+});
+
+export default ProviderJobFeedScreen;
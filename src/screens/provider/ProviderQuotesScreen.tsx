@@ -0,0 +1,276 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { RouteProp, useFocusEffect, useNavigation, useRoute } from '@react-navigation/native';
+import type { StackNavigationProp } from '@react-navigation/stack';
+import { useAuth } from '../../hooks/useEnterpriseAuth';
+import { Button } from '../../components/ui';
+import { colors, spacing, borderRadius } from '../../design/tokens';
+import { MainStackParamList } from '../../types';
+import {
+  extendQuoteValidity,
+  fetchProviderQuotes,
+  ProviderQuote,
+  QUOTE_EXTENSION_HOURS,
+} from '../../services/providerJobsService';
+import { QuoteNegotiationService } from '../../services/quoteNegotiationService';
+import { QUOTE_CHANGE_TOPIC_LABELS } from '../../utils/quoteNegotiation';
+
+const formatCLP = (amount: number) => `$${Math.round(amount).toLocaleString('es-CL')}`;
+
+const formatExpiry = (quote: ProviderQuote) => {
+  if (quote.status === 'expired') return 'Vencida';
+  if (!quote.expiresAt) return 'Sin vencimiento';
+  return `Vence el ${new Date(quote.expiresAt).toLocaleString('es-CL', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  })}`;
+};
+
+/**
+ * The provider's quotes still open to the customer. Those with a change request
+ * come first; answering one opens QuoteScreen to send the next version. Quotes can be
+ * kept open longer, or renewed after they expired.
+ */
+export const ProviderQuotesScreen: React.FC = () => {
+  const { user } = useAuth();
+  const navigation = useNavigation<StackNavigationProp<MainStackParamList>>();
+  const highlightedQuoteId = useRoute<RouteProp<MainStackParamList, 'ProviderQuotes'>>().params?.quoteId;
+  const [quotes, setQuotes] = useState<ProviderQuote[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+  const [extendingId, setExtendingId] = useState<string | null>(null);
+
+  const loadQuotes = useCallback(async () => {
+    if (!user?.id) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      setQuotes(await fetchProviderQuotes(user.id));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'No pudimos cargar tus cotizaciones.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user?.id]);
+
+  // Reload on return from QuoteScreen, where the answered request is closed
+  useFocusEffect(
+    useCallback(() => {
+      loadQuotes();
+    }, [loadQuotes])
+  );
+
+  // The list may be stale: load the request again before answering it
+  const handleAnswer = async (quote: ProviderQuote) => {
+    setOpeningId(quote.id);
+    try {
+      const changeRequest = await QuoteNegotiationService.getPendingChangeRequest(quote.id);
+      if (!changeRequest) {
+        Alert.alert('Cotizaciones', 'El cliente ya no espera cambios en esta cotización.');
+        loadQuotes();
+        return;
+      }
+
+      navigation.navigate('ProviderQuote', {
+        job: quote.job,
+        revision: {
+          quoteId: quote.id,
+          version: quote.version,
+          changeRequest,
+          materials: quote.materialsItems,
+        },
+      });
+    } catch (answerError) {
+      Alert.alert('Cotizaciones', answerError instanceof Error ? answerError.message : 'No pudimos abrir la solicitud de cambios.');
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  const handleExtend = async (quote: ProviderQuote) => {
+    setExtendingId(quote.id);
+    try {
+      const expiresAt = await extendQuoteValidity(quote.id);
+      setQuotes(current =>
+        current.map(item => (item.id === quote.id ? { ...item, status: 'active', expiresAt } : item))
+      );
+    } catch (extendError) {
+      Alert.alert('Cotizaciones', extendError instanceof Error ? extendError.message : 'No pudimos extender tu cotización.');
+    } finally {
+      setExtendingId(null);
+    }
+  };
+
+  const renderQuote = ({ item: quote }: { item: ProviderQuote }) => {
+    const changeRequest = quote.pendingChangeRequest;
+
+    return (
+      <View
+        style={[
+          styles.quoteCard,
+          (changeRequest || quote.id === highlightedQuoteId) && styles.quoteCardPending,
+        ]}
+      >
+        <Text style={styles.quoteTitle} numberOfLines={1}>
+          {quote.job.project_type.icon ? `${quote.job.project_type.icon} ` : ''}{quote.requestTitle}
+        </Text>
+        <Text style={styles.quoteMeta}>
+          {quote.job.project_type.name}
+          {quote.comuna ? ` · ${quote.comuna}` : ''}
+        </Text>
+        <Text style={styles.quoteMeta}>
+          Versión {quote.version} · {formatCLP(quote.totalClp)} · {formatExpiry(quote)}
+        </Text>
+
+        {changeRequest && (
+          <View style={styles.changeRequest}>
+            <Text style={styles.changeRequestTitle}>
+              {changeRequest.proposedPrice !== null ? 'Contraoferta' : 'Cambios pedidos'}:{' '}
+              {changeRequest.topics.map(topic => QUOTE_CHANGE_TOPIC_LABELS[topic]).join(', ')}
+            </Text>
+            {changeRequest.proposedPrice !== null && (
+              <Text style={styles.changeRequestText}>Oferta: {formatCLP(changeRequest.proposedPrice)}</Text>
+            )}
+            {changeRequest.message ? (
+              <Text style={styles.changeRequestText} numberOfLines={2}>“{changeRequest.message}”</Text>
+            ) : null}
+          </View>
+        )}
+
+        <View style={styles.quoteActions}>
+          <Button
+            title={quote.status === 'expired' ? 'Renovar' : `Extender ${QUOTE_EXTENSION_HOURS} h`}
+            variant={changeRequest ? 'ghost' : 'secondary'}
+            size="small"
+            loading={extendingId === quote.id}
+            disabled={extendingId !== null}
+            onPress={() => handleExtend(quote)}
+          />
+          {changeRequest && (
+            <Button
+              title="Responder cambios"
+              size="small"
+              loading={openingId === quote.id}
+              disabled={openingId !== null}
+              onPress={() => handleAnswer(quote)}
+            />
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <FlatList
+        data={quotes}
+        keyExtractor={quote => quote.id}
+        renderItem={renderQuote}
+        contentContainerStyle={styles.listContainer}
+        refreshControl={<RefreshControl refreshing={isLoading && quotes.length > 0} onRefresh={loadQuotes} />}
+        ListHeaderComponent={
+          <View>
+            <Text style={styles.title}>Mis cotizaciones</Text>
+            {error && <Text style={styles.errorText}>{error}</Text>}
+          </View>
+        }
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator style={styles.loading} color={colors.primary[500]} />
+          ) : (
+            <Text style={styles.emptyText}>
+              No tienes cotizaciones abiertas. Las que envíes aparecerán aquí hasta que el cliente elija.
+            </Text>
+          )
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.neutral[50],
+  },
+  loading: {
+    marginTop: spacing[4],
+  },
+  listContainer: {
+    padding: spacing[5],
+    paddingBottom: spacing[24],
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: colors.neutral[900],
+  },
+  errorText: {
+    fontSize: 14,
+    color: colors.error[500],
+    marginTop: spacing[2],
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.neutral[500],
+    textAlign: 'center',
+    marginVertical: spacing[8],
+  },
+  quoteCard: {
+    padding: spacing[4],
+    marginTop: spacing[3],
+    borderRadius: borderRadius.xl,
+    borderWidth: 1,
+    borderColor: colors.neutral[200],
+    backgroundColor: colors.neutral[0],
+  },
+  quoteCardPending: {
+    borderColor: colors.primary[500],
+  },
+  quoteTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.neutral[900],
+  },
+  quoteMeta: {
+    fontSize: 13,
+    color: colors.neutral[500],
+    marginTop: spacing[1],
+  },
+  changeRequest: {
+    marginTop: spacing[3],
+    padding: spacing[3],
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.primary[50],
+  },
+  changeRequestTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.neutral[900],
+  },
+  changeRequestText: {
+    fontSize: 13,
+    color: colors.neutral[700],
+    marginTop: spacing[1],
+  },
+  quoteActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing[2],
+    marginTop: spacing[3],
+  },
+});
+
+export default ProviderQuotesScreen;
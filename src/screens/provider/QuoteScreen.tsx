@@ -30,7 +30,7 @@ import { ProviderThemeWrapper, useProviderTheme } from '../../components/provide
 import { ChevronRightIcon, XIcon, ChevronLeftIcon } from '../../components/icons';
 import { HelperText } from '../../components/common';
 import { brandColors, spacing } from '../../design-system/tokens';
-import type { AvailableJob } from '../../services/providerJobsService';
+import type { QuoteJob } from '../../services/providerJobsService';
 import { submitProviderQuote } from '../../services/providerJobsService';
 import { fetchProviderQuoteOptions } from '../../services/businessEntityService';
 import type { QuoteOption } from '../../types/business-entities';
@@ -42,7 +42,14 @@ import { MaterialsEditor, type MaterialItem } from '../../components/provider/Ma
 import { useAuth } from '../../contexts/AuthContext';
 import { useAccurateDistance } from '../../hooks/useAccurateDistance';
 import { calculateProviderQuote } from '../../services/providerPricingService';
-import { supabase } from '../../services/supabase';
+import { QuoteNegotiationService } from '../../services/quoteNegotiationService';
+import { shareQuotePdf } from '../../components/quotes';
+import type { QuoteRevisionTarget } from '../../types/quoteNegotiation';
+import { QUOTE_CHANGE_TOPIC_LABELS } from '../../utils/quoteNegotiation';
+import { QuoteTemplateSheet, type QuoteTemplateSaveOptions } from '../../components/provider/QuoteTemplateSheet';
+import { QuoteTemplateService } from '../../services/quoteTemplateService';
+import type { QuoteTemplate } from '../../types/quoteTemplates';
+import { canFollowRates, sumTemplateLabor, toTemplateLaborItems } from '../../utils/quoteTemplates';
 import type { SessionStructure } from '../../types/scheduling';
 import { QuoteTypeSelector, type QuoteType, type VisitConfiguration } from '../../components/provider/QuoteTypeSelector';
 
@@ -50,7 +57,9 @@ interface QuoteScreenProps {
   navigation: any;
   route: {
     params: {
-      job: AvailableJob;
+      job: QuoteJob;
+      // Set when answering a customer's change request with a new version
+      revision?: QuoteRevisionTarget;
     };
   };
 }
@@ -58,7 +67,7 @@ interface QuoteScreenProps {
 type BottomSheetType = 'price' | 'duration' | 'materials' | 'notes' | null;
 
 export const QuoteScreen: React.FC<QuoteScreenProps> = ({ route, navigation }) => {
-  const { job } = route.params;
+  const { job, revision } = route.params;
   const theme = useProviderTheme();
   const { user } = useAuth();
 
@@ -86,13 +95,17 @@ export const QuoteScreen: React.FC<QuoteScreenProps> = ({ route, navigation }) =
   );
   const [totalHours, setTotalHours] = useState(job.suggested_quote?.estimated_duration_hours || 2);
   const [sessionStructure, setSessionStructure] = useState<SessionStructure | undefined>(undefined);
-  const [materials, setMaterials] = useState<MaterialItem[]>([]);
+  const [materials, setMaterials] = useState<MaterialItem[]>(revision?.materials ?? []);
   const [materialsNotes, setMaterialsNotes] = useState('');
   const [notes, setNotes] = useState(job.suggested_quote?.notes || '');
 
   // Bottom sheet state
   const [activeSheet, setActiveSheet] = useState<BottomSheetType>(null);
 
+  // Template applied to this quote, recorded as used once the quote is sent
+  const [isTemplateSheetVisible, setIsTemplateSheetVisible] = useState(false);
+  const [appliedTemplateId, setAppliedTemplateId] = useState<string | null>(null);
+
   // Submission state
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -165,7 +178,8 @@ export const QuoteScreen: React.FC<QuoteScreenProps> = ({ route, navigation }) =
     retry: retryDistance,
     isRetrying,
   } = useAccurateDistance(job.project_id, user?.id || '', {
-    skip: !user?.id,
+    // A new version starts from the quote already sent, not from a fresh suggestion
+    skip: !user?.id || Boolean(revision),
     onQuoteRecalculated: handleQuoteRecalculated,
   });
 
@@ -223,6 +237,7 @@ export const QuoteScreen: React.FC<QuoteScreenProps> = ({ route, navigation }) =
         unit: item.unit,
         price_per_unit: item.price_per_unit,
         subtotal: item.subtotal,
+        catalog_item_id: item.catalog_item_id ?? null,
       }));
 
       // Combine notes with materials notes and visit notes if present
@@ -232,6 +247,41 @@ export const QuoteScreen: React.FC<QuoteScreenProps> = ({ route, navigation }) =
       }
       const combinedNotes = notesToCombine.filter(Boolean).join('\n\n');
 
+      if (revision) {
+        // price_clp is labor + travel + fees; materials travel separately
+        const newVersion = await QuoteNegotiationService.reviseQuote(revision.quoteId, {
+          priceClp: totalPrice - (Number(priceBreakdown.materials) || 0),
+          materialsCostClp: Number(priceBreakdown.materials) || 0,
+          includesMaterials: materialsItems.length > 0,
+          laborItems: allLaborItems,
+          materialsItems,
+          additionalFees: [],
+          travelFeeClp: priceBreakdown.travel,
+          ivaClp: ivaAmount,
+          estimatedDurationHours: totalHours,
+          availabilityDate: revision.changeRequest?.proposedDate ?? undefined,
+          availabilityTimeStart: revision.changeRequest?.proposedTimeStart ?? undefined,
+          availabilityTimeEnd: revision.changeRequest?.proposedTimeEnd ?? undefined,
+          message: combinedNotes || undefined,
+          changeRequestId: revision.changeRequest?.id,
+        });
+
+        Alert.alert(
+          'Nueva versión enviada',
+          `El cliente recibió la versión ${newVersion} de tu cotización.`,
+          [
+            {
+              text: 'Compartir PDF',
+              onPress: () => shareQuotePdf(revision.quoteId, job.project_type.name)
+                .catch(error => Alert.alert('PDF de cotización', error instanceof Error ? error.message : 'Inténtalo nuevamente.'))
+                .finally(() => navigation.goBack()),
+            },
+            { text: 'Entendido', onPress: () => navigation.goBack() },
+          ]
+        );
+        return;
+      }
+
       // DEBUG: Log materials being sent
       console.log('📦 Materials being sent:', JSON.stringify(materialsItems, null, 2));
       console.log('📦 Materials count:', materialsItems.length);
@@ -239,36 +289,23 @@ export const QuoteScreen: React.FC<QuoteScreenProps> = ({ route, navigation }) =
       console.log('🏠 Quote type:', quoteType);
       console.log('🏠 Visit config:', visitConfig);
 
-      // Backend calculates ALL totals from JSONB arrays
-      const { data: quoteData, error: quoteError} = await supabase.rpc('create_provider_quote_with_business_context', {
-        p_project_id: job.project_id,
-        p_provider_id: user.id,
-        p_acting_as_business_id: quoteOption.business_id || null,
-        // Send all pricing - provider always gives a quote/estimate
-        p_labor_items: allLaborItems,
-        p_materials_items: materialsItems,
-        p_additional_fees: [],
-        p_travel_fee_clp: priceBreakdown.travel,
-        // Duration and session structure
-        p_estimated_duration_hours: totalHours,
-        p_notes: combinedNotes || null,
-        p_hours_per_session: sessionStructure ? sessionStructure.sessions[0].hours : totalHours,
-        p_requires_multiple_visits: sessionStructure !== undefined,
-        p_project_timeline_estimate: null, // Removed - session structure is the timeline
-        p_session_structure: sessionStructure || null,
-        // Unified visit workflow parameters
-        p_response_type: 'quote_now', // Always sending a quote/estimate
-        p_requires_onsite_confirmation: quoteType === 'visit_required',
-        p_site_visit_cost: quoteType === 'visit_required' ? visitConfig.cost : null,
+      // Backend calculates ALL totals from the itemized arrays
+      await submitProviderQuote(user.id, job, {
+        actingAsBusinessId: quoteOption.business_id,
+        laborItems: allLaborItems,
+        materialsItems,
+        additionalFees: [],
+        travelFeeClp: priceBreakdown.travel,
+        estimatedDurationHours: totalHours,
+        sessionStructure,
+        notes: combinedNotes,
+        siteVisitCostClp: quoteType === 'visit_required' ? visitConfig.cost : undefined,
       });
 
-      if (quoteError) {
-        console.error('❌ Quote creation error:', quoteError);
-        throw quoteError;
+      if (appliedTemplateId) {
+        QuoteTemplateService.markUsed(appliedTemplateId);
       }
 
-      console.log('✅ Quote created successfully:', quoteData);
-
       // Success message
       const alertTitle = '¡Cotización Enviada!';
       const alertMessage = quoteType === 'visit_required'
@@ -298,6 +335,88 @@ export const QuoteScreen: React.FC<QuoteScreenProps> = ({ route, navigation }) =
     }
   };
 
+  // Replaces labor, materials, notes, duration and visit setup; travel stays per job
+  const handleApplyTemplate = (template: QuoteTemplate) => {
+    setSuggestedLaborItems(template.laborItems.map(item => ({
+      name: item.name,
+      description: item.description ?? undefined,
+      amount: item.amount,
+    })));
+    setCustomCharges([]);
+    setMaterials(template.materialsItems);
+    setMaterialsNotes(template.materialsNotes);
+    setNotes(template.notes);
+    if (template.estimatedDurationHours) setTotalHours(template.estimatedDurationHours);
+    setSessionStructure(template.sessionStructure ?? undefined);
+    setQuoteType(template.quoteType);
+    if (template.visitConfig) setVisitConfig(template.visitConfig);
+    setPriceBreakdown(prev => ({
+      ...prev,
+      labor: sumTemplateLabor(template.laborItems),
+      materials: template.materialsItems.reduce((sum, item) => sum + (Number(item.subtotal) || 0), 0),
+    }));
+    setAppliedTemplateId(template.id);
+    setIsTemplateSheetVisible(false);
+  };
+
+  const handleSaveTemplate = async ({ name, forProjectType, followRates }: QuoteTemplateSaveOptions) => {
+    if (!user?.id) {
+      throw new Error('No se pudo identificar el usuario. Por favor inicia sesión nuevamente.');
+    }
+
+    const projectTypeId = forProjectType ? job.project_type.id : null;
+    const rates = await QuoteTemplateService.getProviderRates(user.id, projectTypeId);
+    const laborItems = [
+      ...suggestedLaborItems,
+      ...customCharges.map(charge => ({ name: charge.label, amount: charge.amount })),
+    ];
+
+    await QuoteTemplateService.saveTemplate(user.id, {
+      projectTypeId,
+      name,
+      laborItems: toTemplateLaborItems(laborItems, rates, {
+        followRates: followRates && canFollowRates(rates, projectTypeId !== null),
+        isProjectTemplate: projectTypeId !== null,
+      }),
+      materialsItems: materials,
+      materialsNotes,
+      notes,
+      estimatedDurationHours: totalHours || null,
+      sessionStructure: sessionStructure ?? null,
+      quoteType,
+      visitConfig: quoteType === 'visit_required' ? visitConfig : null,
+    });
+
+    Alert.alert('Plantilla guardada', `"${name}" quedó disponible en todos tus dispositivos.`);
+  };
+
+  const handleDeclineChanges = () => {
+    const changeRequest = revision?.changeRequest;
+    if (!changeRequest) return;
+
+    Alert.alert(
+      'Mantener cotización',
+      'El cliente verá que mantienes la versión actual. Puedes explicarle por qué en tus notas.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Mantener',
+          onPress: async () => {
+            try {
+              setIsSubmitting(true);
+              await QuoteNegotiationService.declineChanges(changeRequest.id, notes.trim() || undefined);
+              navigation.goBack();
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'No pudimos responder al cliente.');
+            } finally {
+              setIsSubmitting(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   return (
     <ProviderThemeWrapper>
       <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
@@ -376,6 +495,50 @@ export const QuoteScreen: React.FC<QuoteScreenProps> = ({ route, navigation }) =
             </View>
           )}
 
+          {/* Customer's change request being answered */}
+          {revision && (
+            <View style={[styles.quoteInfoBanner, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border }]}>
+              <Text style={[styles.quoteInfoValue, { color: theme.colors.text }]}>
+                Nueva versión de tu cotización (v{revision.version + 1})
+              </Text>
+              {revision.changeRequest && (
+                <View style={styles.warningBanner}>
+                  <Text style={styles.warningText}>
+                    El cliente pide cambios en: {revision.changeRequest.topics.map(topic => QUOTE_CHANGE_TOPIC_LABELS[topic]).join(', ')}
+                    {revision.changeRequest.proposedPrice !== null
+                      ? `\nOferta: ${formatCurrency(revision.changeRequest.proposedPrice)}`
+                      : ''}
+                    {revision.changeRequest.proposedDate
+                      ? `\nFecha: ${revision.changeRequest.proposedDate} ${revision.changeRequest.proposedTimeStart ?? ''}–${revision.changeRequest.proposedTimeEnd ?? ''}`
+                      : ''}
+                    {revision.changeRequest.materialsNote ? `\nMateriales: ${revision.changeRequest.materialsNote}` : ''}
+                    {revision.changeRequest.message ? `\n“${revision.changeRequest.message}”` : ''}
+                  </Text>
+                  <TouchableOpacity onPress={handleDeclineChanges} disabled={isSubmitting}>
+                    <Text style={[styles.declineText, { color: theme.colors.primary }]}>Mantener la versión actual</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+          )}
+
+          {/* Saved templates */}
+          <TouchableOpacity
+            style={[styles.card, { backgroundColor: theme.colors.surface }]}
+            onPress={() => setIsTemplateSheetVisible(true)}
+            activeOpacity={0.7}
+          >
+            <View style={styles.cardHeader}>
+              <Text style={[styles.cardTitle, { color: theme.colors.textPrimary }]}>
+                📋 Plantillas
+              </Text>
+              <ChevronRightIcon size={20} color={theme.colors.textMuted} />
+            </View>
+            <Text style={[styles.cardSubtext, { color: theme.colors.textSecondary }]}>
+              {appliedTemplateId ? 'Plantilla aplicada. Ajusta lo que necesites.' : 'Usa una plantilla guardada o guarda esta cotización'}
+            </Text>
+          </TouchableOpacity>
+
           {/* Unified Quote Type Selector - Replaces fragmented toggle + visit cards */}
           <QuoteTypeSelector
             value={quoteType}
@@ -612,12 +775,21 @@ export const QuoteScreen: React.FC<QuoteScreenProps> = ({ route, navigation }) =
               <ActivityIndicator size="small" color="#FFFFFF" />
             ) : (
               <Text style={styles.sendButtonText}>
-                Enviar Cotización
+                {revision ? 'Enviar Nueva Versión' : 'Enviar Cotización'}
               </Text>
             )}
           </TouchableOpacity>
         </View>
 
+        <QuoteTemplateSheet
+          visible={isTemplateSheetVisible}
+          projectTypeId={job.project_type.id}
+          projectTypeName={job.project_type.name}
+          onApply={handleApplyTemplate}
+          onSave={handleSaveTemplate}
+          onClose={() => setIsTemplateSheetVisible(false)}
+        />
+
         {/* Bottom Sheets */}
         {activeSheet && (
           <Modal
@@ -684,6 +856,9 @@ export const QuoteScreen: React.FC<QuoteScreenProps> = ({ route, navigation }) =
               {activeSheet === 'materials' && (
                 <MaterialsEditor
                   initialMaterials={materials}
+                  initialNotes={materialsNotes}
+                  serviceId={job.service.id}
+                  providerId={user?.id}
                   onSave={(updatedMaterials, notesValue) => {
                     setMaterials(updatedMaterials);
                     setMaterialsNotes(notesValue || '');
@@ -1060,4 +1235,9 @@ const styles = StyleSheet.create({
     lineHeight: 18,
     fontFamily: 'Rubik-Regular',
   },
+  declineText: {
+    fontSize: 13,
+    marginTop: 8,
+    fontFamily: 'Rubik-Medium',
+  },
 });
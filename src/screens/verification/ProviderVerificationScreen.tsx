@@ -79,7 +79,7 @@ export const ProviderVerificationScreen: React.FC<ProviderVerificationScreenProp
           comuna: '', // Will be set during signup
           verification_status: 'pending',
           verification_score: 0,
-          services_offered: [],
+          services: [],
           service_areas: [],
         });
       }
@@ -90,8 +90,8 @@ export const ProviderVerificationScreen: React.FC<ProviderVerificationScreenProp
 
       // Create mock workflow based on current status
       const mockWorkflow: VerificationWorkflow = {
-        id: `workflow_${providerProfile.id}`,
-        providerId: providerProfile.id,
+        id: `workflow_${providerProfile.user_id}`,
+        providerId: providerProfile.user_id,
         currentStep: overview.nextStep === 'upload_documents' ? 'documents_upload' :
                    overview.nextStep === 'wait_review' ? 'rut_validation' :
                    overview.nextStep === 'under_review' ? 'manual_review' :
@@ -142,7 +142,7 @@ export const ProviderVerificationScreen: React.FC<ProviderVerificationScreenProp
 
   // Save documents to database (real implementation)
   const saveDocumentsToDatabase = async (documents: VerificationDocument[]) => {
-    if (!verificationOverview?.profile?.id) {
+    if (!verificationOverview?.profile?.user_id) {
       throw new Error('Provider profile not found');
     }
 
@@ -154,7 +154,7 @@ export const ProviderVerificationScreen: React.FC<ProviderVerificationScreenProp
 
     // Create workflow step record
     await verificationService.createWorkflowStep({
-      provider_id: verificationOverview.profile.id,
+      provider_id: verificationOverview.profile.user_id,
       workflow_step: 'documents',
       status: 'completed',
       started_at: new Date().toISOString(),
@@ -447,7 +447,7 @@ export const ProviderVerificationScreen: React.FC<ProviderVerificationScreenProp
             <DocumentUploadSet
               onDocumentsComplete={handleDocumentsComplete}
               requiredDocuments={requiredDocuments}
-              providerId={verificationOverview?.profile?.id || 'temp_provider_id'}
+              providerId={verificationOverview?.profile?.user_id || 'temp_provider_id'}
             />
           </Card>
         );
@@ -0,0 +1,159 @@
+import { supabase } from './supabase';
+import {
+  AvailabilityException,
+  AvailabilityExceptionInput,
+  AvailabilityExceptionRow,
+  AvailableSlot,
+  ProviderAvailability,
+  ProviderAvailabilitySettings,
+} from '../types/availability';
+import { parseWorkingHours, serializeWorkingHours } from '../utils/availability';
+import { toLocalDateString } from '../utils/timeSlots';
+
+// get_provider_available_slots raises these messages; anything else is shown as a generic failure
+const SLOT_ERRORS: Record<string, string> = {
+  invalid_date_range: 'Elige un rango de hasta 31 días.',
+  invalid_duration: 'La duración del trabajo no es válida.',
+  provider_not_found: 'Este profesional ya no está disponible.',
+};
+
+/**
+ * Provider availability. Weekly hours, buffer and daily cap live on provider_profiles,
+ * time off in provider_availability_exceptions. The database turns them into free
+ * slots for search, for the booking slot list and when a booking is created.
+ */
+export class AvailabilityService {
+  // Settings plus exceptions that have not ended yet
+  static async getAvailability(providerId: string): Promise<ProviderAvailability> {
+    const [profileResult, exceptionsResult] = await Promise.all([
+      supabase
+        .from('provider_profiles')
+        .select('working_hours, buffer_minutes, max_jobs_per_day, holiday_availability')
+        .eq('user_id', providerId)
+        .single(),
+      supabase
+        .from('provider_availability_exceptions')
+        .select('*')
+        .eq('provider_id', providerId)
+        .gte('ends_on', toLocalDateString(new Date()))
+        .order('starts_on'),
+    ]);
+
+    const error = profileResult.error || exceptionsResult.error;
+    if (error || !profileResult.data) {
+      console.error('❌ Failed to load availability:', error);
+      throw new Error('No pudimos cargar tu disponibilidad. Inténtalo nuevamente.');
+    }
+
+    const profile = profileResult.data;
+    const holidays = profile.holiday_availability as { chilean_holidays?: boolean } | null;
+
+    return {
+      weeklyHours: parseWorkingHours(profile.working_hours),
+      bufferMinutes: profile.buffer_minutes,
+      maxJobsPerDay: profile.max_jobs_per_day,
+      worksOnHolidays: holidays?.chilean_holidays ?? false,
+      exceptions: (exceptionsResult.data || []).map(AvailabilityService.mapException),
+    };
+  }
+
+  static async saveSettings(providerId: string, settings: ProviderAvailabilitySettings): Promise<void> {
+    const { error } = await supabase
+      .from('provider_profiles')
+      .update({
+        working_hours: serializeWorkingHours(settings.weeklyHours),
+        buffer_minutes: settings.bufferMinutes,
+        max_jobs_per_day: settings.maxJobsPerDay,
+        // Own days off are exceptions now; custom_dates stays empty
+        holiday_availability: { custom_dates: [], chilean_holidays: settings.worksOnHolidays },
+      })
+      .eq('user_id', providerId);
+
+    if (error) {
+      console.error('❌ Failed to save availability:', error);
+      if (error.code === '23514') throw new Error('Revisa tus horarios, el tiempo entre trabajos y el máximo diario.');
+      throw new Error('No pudimos guardar tu disponibilidad. Inténtalo nuevamente.');
+    }
+
+    console.log('✅ Availability saved for provider:', providerId);
+  }
+
+  static async addException(providerId: string, input: AvailabilityExceptionInput): Promise<AvailabilityException> {
+    const { data, error } = await supabase
+      .from('provider_availability_exceptions')
+      .insert({
+        provider_id: providerId,
+        kind: input.kind,
+        starts_on: input.startsOn,
+        ends_on: input.endsOn,
+        time_start: input.window?.start ?? null,
+        time_end: input.window?.end ?? null,
+        note: input.note?.trim() || null,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('❌ Failed to add availability exception:', error);
+      if (error?.code === '23514') throw new Error('Revisa las fechas y horas del bloqueo.');
+      throw new Error('No pudimos guardar el bloqueo. Inténtalo nuevamente.');
+    }
+
+    console.log('✅ Availability exception added:', data.id);
+    return AvailabilityService.mapException(data);
+  }
+
+  static async deleteException(exceptionId: string): Promise<void> {
+    const { error } = await supabase.from('provider_availability_exceptions').delete().eq('id', exceptionId);
+
+    if (error) {
+      console.error('❌ Failed to delete availability exception:', error);
+      throw new Error('No pudimos eliminar el bloqueo. Inténtalo nuevamente.');
+    }
+  }
+
+  /**
+   * Bookable slots of durationMinutes between two dates ('YYYY-MM-DD', at most 31 days
+   * apart), after subtracting bookings, buffers, time off and full days. region is the
+   * customer's, for regional holidays.
+   */
+  static async getAvailableSlots(
+    providerId: string,
+    from: string,
+    to: string,
+    durationMinutes: number = 120,
+    region?: string | null
+  ): Promise<AvailableSlot[]> {
+    const { data, error } = await supabase.rpc('get_provider_available_slots', {
+      p_provider_id: providerId,
+      p_from: from,
+      p_to: to,
+      p_duration_minutes: durationMinutes,
+      p_region: region ?? undefined,
+    });
+
+    if (error) {
+      console.error('❌ Failed to load available slots:', error);
+      throw new Error(SLOT_ERRORS[error.message] || 'No pudimos cargar los horarios disponibles. Inténtalo nuevamente.');
+    }
+
+    return (data || []).map(slot => ({
+      date: slot.slot_date,
+      start: slot.slot_start.slice(0, 5),
+      end: slot.slot_end.slice(0, 5),
+    }));
+  }
+
+  private static mapException(row: AvailabilityExceptionRow): AvailabilityException {
+    return {
+      id: row.id,
+      kind: row.kind,
+      startsOn: row.starts_on,
+      endsOn: row.ends_on,
+      window: row.time_start && row.time_end
+        ? { start: row.time_start.slice(0, 5), end: row.time_end.slice(0, 5) }
+        : null,
+      note: row.note,
+    };
+  }
+}
@@ -0,0 +1,218 @@
+import { supabase } from './supabase';
+import {
+  BookingOccurrenceRow,
+  BookingRecurrence,
+  BookingRecurrenceRow,
+  IsoWeekday,
+  RecurrenceProposal,
+} from '../types/bookingRecurrence';
+
+// The recurrence commands raise these messages; anything else is shown as a generic failure
+const RECURRENCE_ERRORS: Record<string, string> = {
+  booking_not_found: 'Esta reserva ya no existe.',
+  recurrence_not_found: 'Este servicio periódico ya no existe.',
+  customer_only: 'Solo el cliente puede hacer esto.',
+  provider_only: 'Solo el profesional puede hacer esto.',
+  invalid_booking_status: 'Solo puedes repetir un servicio que el profesional ya aceptó.',
+  recurrence_not_supported: 'Este tipo de servicio no se puede agendar periódicamente.',
+  recurrence_exists: 'Este servicio ya tiene una repetición activa o pendiente.',
+  invalid_weekdays: 'Elige al menos un día de la semana.',
+  invalid_end_date: 'Elige una fecha futura.',
+  invalid_recurrence_status: 'El servicio periódico cambió de estado. Actualiza para ver su estado actual.',
+  invalid_occurrence: 'Esa fecha no es parte del servicio periódico.',
+  skip_too_late: 'Faltan menos de 24 horas para la visita. Para no recibirla, cancélala.',
+};
+
+const toMessage = (error: { message: string }, fallback: string) => RECURRENCE_ERRORS[error.message] || fallback;
+
+type RecurrenceWithOccurrences = BookingRecurrenceRow & { booking_occurrences: BookingOccurrenceRow[] | null };
+
+/**
+ * Recurring bookings. The customer proposes repeating an accepted booking and the
+ * provider accepts once; the database then generates the visits ahead of time and
+ * handles holiday collisions (see run_booking_recurrences).
+ */
+export class BookingRecurrenceService {
+  static async getForBooking(bookingId: string): Promise<BookingRecurrence | null> {
+    const { data: booking, error: bookingError } = await supabase
+      .from('bookings')
+      .select('recurrence_id')
+      .eq('id', bookingId)
+      .maybeSingle();
+
+    if (bookingError) {
+      console.error('❌ Failed to load booking recurrence:', bookingError);
+      throw new Error('No pudimos cargar el servicio periódico. Inténtalo nuevamente.');
+    }
+
+    // A proposal is not linked from the booking until the provider accepts it
+    const query = supabase.from('booking_recurrences').select('*, booking_occurrences(*)');
+    const { data, error } = await (booking?.recurrence_id
+      ? query.eq('id', booking.recurrence_id)
+      : query.eq('origin_booking_id', bookingId).in('status', ['proposed', 'active', 'paused'])
+    ).maybeSingle();
+
+    if (error) {
+      console.error('❌ Failed to load booking recurrence:', error);
+      throw new Error('No pudimos cargar el servicio periódico. Inténtalo nuevamente.');
+    }
+
+    return data ? BookingRecurrenceService.mapRecurrence(data as RecurrenceWithOccurrences) : null;
+  }
+
+  // The caller's recurrences that are still running or waiting for the provider
+  static async getActive(): Promise<BookingRecurrence[]> {
+    const { data, error } = await supabase
+      .from('booking_recurrences')
+      .select('*, booking_occurrences(*)')
+      .in('status', ['proposed', 'active', 'paused'])
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('❌ Failed to load booking recurrences:', error);
+      throw new Error('No pudimos cargar tus servicios periódicos. Inténtalo nuevamente.');
+    }
+
+    return (data || []).map(row => BookingRecurrenceService.mapRecurrence(row as RecurrenceWithOccurrences));
+  }
+
+  static async propose(bookingId: string, proposal: RecurrenceProposal): Promise<string> {
+    const { data, error } = await supabase.rpc('propose_booking_recurrence', {
+      p_booking_id: bookingId,
+      p_frequency: proposal.frequency,
+      p_weekdays: proposal.frequency === 'custom' ? proposal.weekdays : undefined,
+      p_ends_on: proposal.endsOn ?? undefined,
+      p_holiday_policy: proposal.holidayPolicy,
+    });
+
+    if (error) {
+      console.error('❌ Failed to propose booking recurrence:', error);
+      throw new Error(toMessage(error, 'No pudimos enviar la solicitud. Inténtalo nuevamente.'));
+    }
+
+    console.log('✅ Booking recurrence proposed:', data);
+    return data;
+  }
+
+  /**
+   * Provider's answer; returns how many visits were scheduled when accepting
+   */
+  static async respond(recurrenceId: string, accept: boolean): Promise<number> {
+    const { data, error } = await supabase.rpc('respond_booking_recurrence', {
+      p_recurrence_id: recurrenceId,
+      p_accept: accept,
+    });
+
+    if (error) {
+      console.error('❌ Failed to respond to booking recurrence:', error);
+      throw new Error(toMessage(error, 'No pudimos guardar tu respuesta. Inténtalo nuevamente.'));
+    }
+
+    console.log('✅ Booking recurrence answered:', recurrenceId, accept, data);
+    return data;
+  }
+
+  // occurrenceDate is the rule date, which differs from the visit date when a holiday moved it
+  static async skipOccurrence(recurrenceId: string, occurrenceDate: string): Promise<void> {
+    const { error } = await supabase.rpc('skip_booking_occurrence', {
+      p_recurrence_id: recurrenceId,
+      p_occurrence_date: occurrenceDate,
+    });
+
+    if (error) {
+      console.error('❌ Failed to skip booking occurrence:', error);
+      throw new Error(toMessage(error, 'No pudimos omitir la visita. Inténtalo nuevamente.'));
+    }
+
+    console.log('✅ Booking occurrence skipped:', recurrenceId, occurrenceDate);
+  }
+
+  /**
+   * Skips the occurrence a generated booking belongs to
+   */
+  static async skipBooking(bookingId: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('booking_occurrences')
+      .select('recurrence_id, occurrence_date')
+      .eq('booking_id', bookingId)
+      .maybeSingle();
+
+    if (error || !data) {
+      console.error('❌ Failed to find booking occurrence:', error);
+      throw new Error('Esta visita no es parte de un servicio periódico.');
+    }
+
+    await BookingRecurrenceService.skipOccurrence(data.recurrence_id, data.occurrence_date);
+  }
+
+  /**
+   * Pauses until the given date, or until resumed; returns how many visits were cancelled
+   */
+  static async pause(recurrenceId: string, until?: string | null): Promise<number> {
+    const { data, error } = await supabase.rpc('pause_booking_recurrence', {
+      p_recurrence_id: recurrenceId,
+      p_until: until ?? undefined,
+    });
+
+    if (error) {
+      console.error('❌ Failed to pause booking recurrence:', error);
+      throw new Error(toMessage(error, 'No pudimos pausar el servicio periódico. Inténtalo nuevamente.'));
+    }
+
+    console.log('✅ Booking recurrence paused:', recurrenceId, until);
+    return data;
+  }
+
+  // Returns how many visits were scheduled
+  static async resume(recurrenceId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('resume_booking_recurrence', { p_recurrence_id: recurrenceId });
+
+    if (error) {
+      console.error('❌ Failed to resume booking recurrence:', error);
+      throw new Error(toMessage(error, 'No pudimos reanudar el servicio periódico. Inténtalo nuevamente.'));
+    }
+
+    console.log('✅ Booking recurrence resumed:', recurrenceId);
+    return data;
+  }
+
+  // Returns how many visits were cancelled
+  static async end(recurrenceId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('end_booking_recurrence', { p_recurrence_id: recurrenceId });
+
+    if (error) {
+      console.error('❌ Failed to end booking recurrence:', error);
+      throw new Error(toMessage(error, 'No pudimos terminar el servicio periódico. Inténtalo nuevamente.'));
+    }
+
+    console.log('✅ Booking recurrence ended:', recurrenceId);
+    return data;
+  }
+
+  private static mapRecurrence(row: RecurrenceWithOccurrences): BookingRecurrence {
+    return {
+      id: row.id,
+      originBookingId: row.origin_booking_id,
+      customerId: row.customer_id,
+      providerId: row.provider_id,
+      frequency: row.frequency,
+      weekdays: (row.weekdays || []) as IsoWeekday[],
+      timeStart: row.time_start.slice(0, 5),
+      timeEnd: row.time_end.slice(0, 5),
+      startsOn: row.starts_on,
+      endsOn: row.ends_on,
+      holidayPolicy: row.holiday_policy,
+      status: row.status,
+      pausedUntil: row.paused_until,
+      occurrences: (row.booking_occurrences || [])
+        .map(occurrence => ({
+          occurrenceDate: occurrence.occurrence_date,
+          scheduledDate: occurrence.scheduled_date,
+          bookingId: occurrence.booking_id,
+          status: occurrence.status,
+          holidayName: occurrence.holiday_name,
+        }))
+        .sort((a, b) => a.occurrenceDate.localeCompare(b.occurrenceDate)),
+    };
+  }
+}
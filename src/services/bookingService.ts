@@ -0,0 +1,235 @@
+import { supabase } from './supabase';
+import { BookingRescheduleInput, BookingStatus, JobBooking } from '../types/booking';
+import { CareInstructionDraft } from '../types/careInstructions';
+import { GeoLocation } from '../types/storage';
+import { toCareInstructionsJson } from '../utils/careInstructions';
+import { toGeoLocationJson } from '../utils/jobExecution';
+
+// The booking commands raise these messages; anything else is shown as a generic failure
+const BOOKING_ERRORS: Record<string, string> = {
+  booking_not_found: 'Esta reserva ya no existe.',
+  provider_only: 'Solo el profesional puede hacer esto.',
+  invalid_booking_transition: 'La reserva cambió de estado. Actualiza para ver su estado actual.',
+  booking_already_started: 'La hora de la visita ya pasó.',
+  booking_too_early: 'Todavía no es la hora de la visita.',
+  before_photos_required: 'Toma al menos una foto del lugar antes de comenzar.',
+  after_photos_required: 'Toma al menos una foto del trabajo terminado antes de salir.',
+  invalid_location: 'No pudimos leer tu ubicación. Inténtalo nuevamente.',
+  invalid_care_instructions: 'Revisa las indicaciones de cuidado: cada una debe tener texto y como máximo 280 caracteres.',
+  invalid_time_range: 'La hora de término debe ser posterior a la de inicio.',
+  date_in_past: 'Elige una fecha y hora con al menos una hora de anticipación.',
+  slot_taken: 'El profesional ya tiene otro trabajo en ese horario.',
+  provider_unavailable: 'El profesional no está disponible ese día.',
+  daily_limit_reached: 'El profesional ya completó su agenda para ese día.',
+  reschedule_limit_reached: 'Esta reserva ya se reagendó el máximo de veces permitido. Puedes cancelarla.',
+  reschedule_too_late: 'Ya no se puede reagendar: la visita está muy próxima.',
+  booking_command_required: 'No se pudo actualizar la reserva.',
+};
+
+const toMessage = (error: { message: string }, fallback: string) => BOOKING_ERRORS[error.message] || fallback;
+
+const ADDRESS_LABELS: Record<string, string> = {
+  home: 'Casa',
+  work: 'Trabajo',
+  other: 'Otra dirección',
+};
+
+const CUSTOMER_BOOKING_COLUMNS = `
+  id, customer_id, title, description, status, scheduled_date, scheduled_time_start, scheduled_time_end,
+  total_price_clp, provider_id, provider_notes, recurrence_id, created_at, updated_at, completed_at, cancelled_at,
+  provider:users!bookings_provider_id_fkey(full_name, avatar_url, provider_profiles(business_name, rating, total_jobs_completed)),
+  services(name, category),
+  addresses(street, comuna, address_type),
+  payments(status),
+  reviews(reviewer_id, rating, comment, created_at)
+`;
+
+const minutesBetween = (start: string, end: string) => {
+  const [startHours, startMinutes] = start.split(':').map(Number);
+  const [endHours, endMinutes] = end.split(':').map(Number);
+  return endHours * 60 + endMinutes - (startHours * 60 + startMinutes);
+};
+
+/**
+ * Booking lifecycle commands. The database checks who may run each one and when,
+ * notifies the other party and records the transition in audit_log.
+ */
+export class BookingService {
+  // The customer's bookings, latest visit first, in the shape JobHistoryList shows
+  static async getCustomerBookings(customerId: string): Promise<JobBooking[]> {
+    return BookingService.loadJobBookings({ customerId });
+  }
+
+  // A single booking for its detail screen; null when it doesn't exist or the viewer isn't a party to it
+  static async getJobBooking(bookingId: string): Promise<JobBooking | null> {
+    const [booking] = await BookingService.loadJobBookings({ bookingId });
+    return booking ?? null;
+  }
+
+  private static async loadJobBookings(filter: { customerId?: string; bookingId?: string }): Promise<JobBooking[]> {
+    let query = supabase.from('bookings').select(CUSTOMER_BOOKING_COLUMNS);
+    if (filter.customerId) query = query.eq('customer_id', filter.customerId);
+    if (filter.bookingId) query = query.eq('id', filter.bookingId);
+
+    const [{ data, error }, { data: recurringCategories }] = await Promise.all([
+      query
+        .order('scheduled_date', { ascending: false })
+        .order('scheduled_time_start', { ascending: false }),
+      // services.category holds a service_categories id; propose_booking_recurrence joins on it the same way
+      supabase.from('service_categories').select('id').eq('supports_recurrence', true),
+    ]);
+
+    if (error) {
+      console.error('❌ Failed to load bookings:', error);
+      throw new Error('No pudimos cargar tus reservas. Inténtalo nuevamente.');
+    }
+
+    const recurringCategoryIds = new Set((recurringCategories || []).map(category => category.id));
+
+    return (data || []).map(booking => {
+      const timeStart = booking.scheduled_time_start.slice(0, 5);
+      const timeEnd = booking.scheduled_time_end.slice(0, 5);
+      const profile = booking.provider?.provider_profiles;
+      const paymentStatuses = (booking.payments || []).map(payment => payment.status);
+      const review = (booking.reviews || []).find(item => item.reviewer_id === booking.customer_id);
+
+      return {
+        id: booking.id,
+        serviceType: booking.services?.category ?? '',
+        serviceCategory: booking.services?.name ?? '',
+        title: booking.title,
+        description: booking.description ?? undefined,
+        providerId: booking.provider_id,
+        providerName: profile?.business_name || booking.provider?.full_name || 'Profesional',
+        providerAvatar: booking.provider?.avatar_url ?? undefined,
+        providerRating: Number(profile?.rating ?? 0),
+        providerCompletedJobs: profile?.total_jobs_completed ?? 0,
+        scheduledDate: booking.scheduled_date,
+        scheduledTime: `${timeStart}-${timeEnd}`,
+        duration: minutesBetween(timeStart, timeEnd),
+        price: booking.total_price_clp,
+        currency: 'CLP',
+        status: booking.status ?? 'pending',
+        paymentStatus: paymentStatuses.includes('refunded')
+          ? 'refunded'
+          : paymentStatuses.some(status => status === 'captured' || status === 'released')
+            ? 'paid'
+            : 'pending',
+        address: {
+          label: ADDRESS_LABELS[booking.addresses?.address_type ?? 'other'],
+          fullAddress: booking.addresses ? `${booking.addresses.street}, ${booking.addresses.comuna}` : '',
+          comuna: booking.addresses?.comuna ?? '',
+        },
+        customerRating: review?.rating,
+        customerReview: review?.comment ?? undefined,
+        reviewDate: review?.created_at ?? undefined,
+        providerNotes: booking.provider_notes ?? undefined,
+        recurrenceId: booking.recurrence_id ?? undefined,
+        supportsRecurrence: recurringCategoryIds.has(booking.services?.category ?? ''),
+        createdAt: booking.created_at ?? '',
+        updatedAt: booking.updated_at ?? '',
+        completedAt: booking.completed_at ?? undefined,
+        cancelledAt: booking.cancelled_at ?? undefined,
+      };
+    });
+  }
+
+  // Provider confirms they will attend
+  static async confirm(bookingId: string): Promise<void> {
+    const { error } = await supabase.rpc('confirm_booking', { p_booking_id: bookingId });
+
+    if (error) {
+      console.error('❌ Failed to confirm booking:', error);
+      throw new Error(toMessage(error, 'No pudimos confirmar la reserva. Inténtalo nuevamente.'));
+    }
+
+    console.log('✅ Booking confirmed:', bookingId);
+  }
+
+  // Check-in: the provider arrived and starts work; needs a 'before' photo (see JobExecutionService)
+  static async start(bookingId: string, location?: GeoLocation): Promise<void> {
+    const { error } = await supabase.rpc('start_booking', {
+      p_booking_id: bookingId,
+      p_location: location ? toGeoLocationJson(location) : undefined,
+    });
+
+    if (error) {
+      console.error('❌ Failed to start booking:', error);
+      throw new Error(toMessage(error, 'No pudimos registrar el inicio del trabajo. Inténtalo nuevamente.'));
+    }
+
+    console.log('✅ Booking started:', bookingId);
+  }
+
+  // Check-out: needs an 'after' photo; care instructions are saved for the customer's home
+  static async complete(
+    bookingId: string,
+    providerNotes?: string,
+    location?: GeoLocation,
+    careInstructions: CareInstructionDraft[] = []
+  ): Promise<void> {
+    const { error } = await supabase.rpc('complete_booking', {
+      p_booking_id: bookingId,
+      p_provider_notes: providerNotes?.trim() || undefined,
+      p_location: location ? toGeoLocationJson(location) : undefined,
+      p_care_instructions: careInstructions.length > 0 ? toCareInstructionsJson(careInstructions) : undefined,
+    });
+
+    if (error) {
+      console.error('❌ Failed to complete booking:', error);
+      throw new Error(toMessage(error, 'No pudimos marcar el trabajo como terminado. Inténtalo nuevamente.'));
+    }
+
+    console.log('✅ Booking completed:', bookingId);
+  }
+
+  static async cancel(bookingId: string, reason?: string): Promise<void> {
+    const { error } = await supabase.rpc('cancel_booking', {
+      p_booking_id: bookingId,
+      p_reason: reason?.trim() || undefined,
+    });
+
+    if (error) {
+      console.error('❌ Failed to cancel booking:', error);
+      throw new Error(toMessage(error, 'No pudimos cancelar la reserva. Inténtalo nuevamente.'));
+    }
+
+    console.log('✅ Booking cancelled:', bookingId);
+  }
+
+  /**
+   * Run by the party that showed up; returns who was recorded as absent
+   */
+  static async markNoShow(bookingId: string): Promise<'customer' | 'provider'> {
+    const { data, error } = await supabase.rpc('mark_booking_no_show', { p_booking_id: bookingId });
+
+    if (error) {
+      console.error('❌ Failed to mark no-show:', error);
+      throw new Error(toMessage(error, 'No pudimos registrar la inasistencia. Inténtalo nuevamente.'));
+    }
+
+    console.log('✅ Booking no-show recorded:', bookingId, data);
+    return data === 'provider' ? 'provider' : 'customer';
+  }
+
+  /**
+   * Moves the booking to a new slot; returns its status afterwards, 'accepted' when a
+   * customer moved a confirmed booking and the provider has to confirm again
+   */
+  static async reschedule(bookingId: string, input: BookingRescheduleInput): Promise<BookingStatus> {
+    const { data, error } = await supabase.rpc('reschedule_booking', {
+      p_booking_id: bookingId,
+      p_date: input.date,
+      p_time_start: input.timeStart,
+      p_time_end: input.timeEnd,
+    });
+
+    if (error) {
+      console.error('❌ Failed to reschedule booking:', error);
+      throw new Error(toMessage(error, 'No pudimos reagendar la reserva. Inténtalo nuevamente.'));
+    }
+
+    console.log('✅ Booking rescheduled:', bookingId);
+    return data as BookingStatus;
+  }
+}
@@ -0,0 +1,114 @@
+import { supabase, supabaseConfig } from './supabase';
+import {
+  CalendarFeed,
+  CalendarSyncResult,
+  ExternalCalendar,
+  ExternalCalendarRow,
+} from '../types/calendarSync';
+import { buildCalendarFeed } from '../utils/calendarSync';
+
+/**
+ * Calendar sync. Every user gets a secret iCalendar feed of their agreed bookings
+ * (calendar-feed function); providers can also import external calendars whose busy
+ * time blocks matching and booking (calendar-sync function, hourly via pg_cron).
+ */
+export class CalendarSyncService {
+  // Created on first use
+  static async getFeed(): Promise<CalendarFeed> {
+    const { data, error } = await supabase.rpc('get_calendar_feed_token');
+
+    if (error || !data) {
+      console.error('❌ Failed to load calendar feed:', error);
+      throw new Error('No pudimos obtener tu enlace de calendario. Inténtalo nuevamente.');
+    }
+
+    return buildCalendarFeed(supabaseConfig.url, data);
+  }
+
+  // The old URL stops working, so calendars subscribed to it stop updating
+  static async rotateFeed(): Promise<CalendarFeed> {
+    const { data, error } = await supabase.rpc('rotate_calendar_feed_token');
+
+    if (error || !data) {
+      console.error('❌ Failed to rotate calendar feed:', error);
+      throw new Error('No pudimos generar un nuevo enlace. Inténtalo nuevamente.');
+    }
+
+    console.log('✅ Calendar feed rotated');
+    return buildCalendarFeed(supabaseConfig.url, data);
+  }
+
+  static async getExternalCalendars(providerId: string): Promise<ExternalCalendar[]> {
+    const { data, error } = await supabase
+      .from('external_calendars')
+      .select('*')
+      .eq('provider_id', providerId)
+      .order('created_at');
+
+    if (error) {
+      console.error('❌ Failed to load external calendars:', error);
+      throw new Error('No pudimos cargar tus calendarios externos.');
+    }
+
+    return (data || []).map(CalendarSyncService.mapCalendar);
+  }
+
+  // Adds the calendar and imports it right away; a failed import is kept as last_error
+  static async addExternalCalendar(providerId: string, name: string, url: string): Promise<ExternalCalendar> {
+    const { data, error } = await supabase
+      .from('external_calendars')
+      .insert({ provider_id: providerId, name: name.trim() || undefined, url })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('❌ Failed to add external calendar:', error);
+      if (error?.code === '23505') throw new Error('Ya agregaste este calendario.');
+      if (error?.code === '23514') throw new Error('El enlace del calendario no es válido.');
+      throw new Error('No pudimos agregar el calendario. Inténtalo nuevamente.');
+    }
+
+    console.log('✅ External calendar added:', data.id);
+    await CalendarSyncService.syncExternalCalendars(data.id).catch(() => undefined);
+
+    const { data: synced } = await supabase.from('external_calendars').select('*').eq('id', data.id).single();
+    return CalendarSyncService.mapCalendar(synced || data);
+  }
+
+  static async removeExternalCalendar(calendarId: string): Promise<void> {
+    const { error } = await supabase.from('external_calendars').delete().eq('id', calendarId);
+
+    if (error) {
+      console.error('❌ Failed to remove external calendar:', error);
+      throw new Error('No pudimos quitar el calendario. Inténtalo nuevamente.');
+    }
+
+    console.log('✅ External calendar removed:', calendarId);
+  }
+
+  // All of the provider's calendars, or just one
+  static async syncExternalCalendars(calendarId?: string): Promise<CalendarSyncResult[]> {
+    const { data, error } = await supabase.functions.invoke('calendar-sync', {
+      body: calendarId ? { calendarId } : {},
+    });
+
+    if (error || !data?.results) {
+      console.error('❌ Failed to sync external calendars:', error);
+      throw new Error('No pudimos sincronizar tus calendarios. Inténtalo nuevamente.');
+    }
+
+    console.log('✅ External calendars synced:', data.results.length);
+    return data.results as CalendarSyncResult[];
+  }
+
+  private static mapCalendar(row: ExternalCalendarRow): ExternalCalendar {
+    return {
+      id: row.id,
+      name: row.name,
+      url: row.url,
+      lastSyncedAt: row.last_synced_at,
+      lastError: row.last_error,
+      busyBlockCount: row.busy_block_count,
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import { supabase } from './supabase';
+import { Json } from '../types/database';
+import {
+  CancellationPolicy,
+  CancellationPolicyInput,
+  CancellationPolicyRow,
+  CancellationPreview,
+  CustomerCancellationTier,
+  ProviderCancellationTier,
+} from '../types/cancellationPolicy';
+import { sortCancellationTiers } from '../utils/cancellationPolicy';
+
+/**
+ * Cancellation policies. The platform policy applies unless the provider set their
+ * own. Each booking keeps the policy in force when it was created; cancel_booking and
+ * mark_booking_no_show charge fees according to it.
+ */
+export class CancellationPolicyService {
+  // The policy that applies to new bookings with a provider
+  static async getPolicy(providerId: string): Promise<CancellationPolicy> {
+    const { data, error } = await supabase
+      .from('cancellation_policies')
+      .select('*')
+      .or(`provider_id.eq.${providerId},provider_id.is.null`)
+      .is('replaced_at', null);
+
+    if (error || !data?.length) {
+      console.error('❌ Failed to load cancellation policy:', error);
+      throw new Error('No pudimos cargar la política de cancelación. Inténtalo nuevamente.');
+    }
+
+    const row = data.find(policy => policy.provider_id === providerId) ?? data[0];
+    return CancellationPolicyService.mapPolicy(row);
+  }
+
+  // Creates or replaces the provider's own policy; bookings already made keep theirs
+  static async saveProviderPolicy(providerId: string, input: CancellationPolicyInput): Promise<void> {
+    const { error } = await supabase.rpc('save_provider_cancellation_policy', {
+      p_name: input.name.trim(),
+      p_customer_tiers: sortCancellationTiers(input.customerTiers) as unknown as Json,
+      p_provider_tiers: sortCancellationTiers(input.providerTiers) as unknown as Json,
+      p_customer_no_show_fee_pct: input.customerNoShowFeePct,
+      p_provider_no_show_penalty_points: input.providerNoShowPenaltyPoints,
+      p_max_reschedules: input.maxReschedules,
+      p_reschedule_min_hours_before: input.rescheduleMinHoursBefore,
+    });
+
+    if (error) {
+      console.error('❌ Failed to save cancellation policy:', error);
+      if (error.code === '23514') throw new Error('Revisa los porcentajes y plazos de la política.');
+      throw new Error('No pudimos guardar tu política de cancelación. Inténtalo nuevamente.');
+    }
+
+    console.log('✅ Cancellation policy saved for provider:', providerId);
+  }
+
+  // Goes back to the platform policy for new bookings
+  static async deleteProviderPolicy(): Promise<void> {
+    const { error } = await supabase.rpc('remove_provider_cancellation_policy');
+
+    if (error) {
+      console.error('❌ Failed to delete cancellation policy:', error);
+      throw new Error('No pudimos eliminar tu política de cancelación. Inténtalo nuevamente.');
+    }
+  }
+
+  /**
+   * What cancelling the booking would cost the current user right now
+   */
+  static async previewCancellation(bookingId: string): Promise<CancellationPreview> {
+    const { data, error } = await supabase.rpc('preview_booking_cancellation', { p_booking_id: bookingId });
+    const row = data?.[0];
+
+    if (error || !row) {
+      console.error('❌ Failed to preview cancellation:', error);
+      throw new Error('No pudimos calcular el costo de cancelar. Inténtalo nuevamente.');
+    }
+
+    return {
+      policyName: row.policy_name,
+      hoursBefore: Number(row.hours_before),
+      feePct: row.fee_pct,
+      feeClp: row.fee_clp,
+      refundClp: row.refund_clp,
+      penaltyPoints: row.penalty_points,
+      cancelledBy: row.cancelled_by === 'provider' ? 'provider' : 'customer',
+    };
+  }
+
+  private static mapPolicy(row: CancellationPolicyRow): CancellationPolicy {
+    return {
+      id: row.id,
+      providerId: row.provider_id,
+      name: row.name,
+      customerTiers: sortCancellationTiers((row.customer_tiers as unknown as CustomerCancellationTier[]) || []),
+      providerTiers: sortCancellationTiers((row.provider_tiers as unknown as ProviderCancellationTier[]) || []),
+      customerNoShowFeePct: row.customer_no_show_fee_pct,
+      providerNoShowPenaltyPoints: row.provider_no_show_penalty_points,
+      maxReschedules: row.max_reschedules,
+      rescheduleMinHoursBefore: row.reschedule_min_hours_before,
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import { supabase } from './supabase';
+import { BookingCareInstruction, BookingCareInstructionRow } from '../types/careInstructions';
+
+const CARE_ERRORS: Record<string, string> = {
+  care_instruction_not_found: 'Esta indicación ya no existe.',
+  customer_only: 'Solo el cliente puede cambiar sus recordatorios.',
+};
+
+const toInstruction = (row: BookingCareInstructionRow): BookingCareInstruction => ({
+  id: row.id,
+  bookingId: row.booking_id,
+  templateId: row.template_id,
+  text: row.text,
+  reminder: row.reminder_months ? { months: row.reminder_months, repeats: row.reminder_repeats } : null,
+  nextReminderOn: row.next_reminder_on,
+  lastRemindedAt: row.last_reminded_at,
+});
+
+/**
+ * Care instructions left with a completed booking. The provider sends them with
+ * complete_booking (see BookingService.complete); run_care_reminders notifies the
+ * customer when a time-based one is due.
+ */
+export class CareInstructionService {
+  static async getForBooking(bookingId: string): Promise<BookingCareInstruction[]> {
+    const { data, error } = await supabase
+      .from('booking_care_instructions')
+      .select('*')
+      .eq('booking_id', bookingId)
+      .order('position');
+
+    if (error) {
+      console.error('❌ Failed to load care instructions:', error);
+      throw new Error('No pudimos cargar las indicaciones de cuidado.');
+    }
+
+    return (data || []).map(toInstruction);
+  }
+
+  // The customer keeps the instruction but no longer gets its reminders
+  static async stopReminder(instructionId: string): Promise<void> {
+    const { error } = await supabase.rpc('stop_care_reminder', { p_instruction_id: instructionId });
+
+    if (error) {
+      console.error('❌ Failed to stop care reminder:', error);
+      throw new Error(CARE_ERRORS[error.message] || 'No pudimos desactivar el recordatorio. Inténtalo nuevamente.');
+    }
+
+    console.log('✅ Care reminder stopped:', instructionId);
+  }
+}
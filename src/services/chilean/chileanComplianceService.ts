@@ -33,6 +33,13 @@ export interface TrustScoreResult {
   calculated_at: string;
 }
 
+export interface ComplianceInitResult {
+  success: boolean;
+  message: string;
+  next_steps?: string[];
+  error?: string;
+}
+
 export type VerificationStage =
   | 'document_upload'
   | 'rut_verification'
@@ -60,17 +67,11 @@ class ChileanComplianceService {
   /**
    * Initialize Chilean compliance for a user
    */
-  async initializeCompliance(rutNumber?: string): Promise<{
-    success: boolean;
-    message: string;
-    next_steps?: string[];
-    error?: string;
-  }> {
+  async initializeCompliance(rutNumber?: string): Promise<ComplianceInitResult> {
     try {
-      const { data, error } = await supabase
-        .rpc('initialize_chilean_compliance', {
-          rut_number: rutNumber
-        });
+      const { data, error } = await supabase.rpc('initialize_chilean_compliance', {
+        rut_number: rutNumber
+      });
 
       if (error) {
         console.error('Error initializing compliance:', error);
@@ -81,7 +82,7 @@ class ChileanComplianceService {
         };
       }
 
-      return data;
+      return data as unknown as ComplianceInitResult;
     } catch (error) {
       console.error('Compliance initialization error:', error);
       return {
@@ -97,10 +98,9 @@ class ChileanComplianceService {
    */
   async calculateTrustScore(userId?: string): Promise<TrustScoreResult> {
     try {
-      const { data, error } = await supabase
-        .rpc('calculate_trust_score', {
-          target_user_id: userId
-        });
+      const { data, error } = await supabase.rpc('calculate_trust_score', {
+        target_user_id: userId
+      });
 
       if (error) {
         console.error('Error calculating trust score:', error);
@@ -121,7 +121,7 @@ class ChileanComplianceService {
         };
       }
 
-      return data;
+      return data as unknown as TrustScoreResult;
     } catch (error) {
       console.error('Trust score calculation error:', error);
       return {
@@ -169,8 +169,8 @@ class ChileanComplianceService {
         return {
           is_holiday: true,
           holiday_name: data.holiday_name,
-          affects_service_delivery: data.affects_service_delivery,
-          premium_rate_multiplier: data.premium_rate_multiplier
+          affects_service_delivery: data.affects_service_delivery ?? undefined,
+          premium_rate_multiplier: data.premium_rate_multiplier ?? undefined
         };
       }
 
@@ -217,13 +217,13 @@ export class VerificationService {
       }
 
       // Get documents
-      const documents = await this.getProviderDocuments(profile.id);
+      const documents = await this.getProviderDocuments(profile.user_id);
 
       // Get workflow steps
-      const workflowSteps = await this.getProviderWorkflow(profile.id);
+      const workflowSteps = await this.getProviderWorkflow(profile.user_id);
 
       // Get verification status
-      const status = await this.getVerificationStatus(profile.id);
+      const status = await this.getVerificationStatus(profile.user_id);
 
       // Calculate completion percentage
       const requiredDocuments = ['cedula_front', 'cedula_back', 'selfie'];
@@ -0,0 +1,186 @@
+import type { ImagePickerAsset } from 'expo-image-picker';
+import { supabase } from './supabase';
+import { EnterpriseStorageService, initializeStorageService } from './storageService';
+import { BookingService } from './bookingService';
+import { CareInstructionDraft } from '../types/careInstructions';
+import { BookingPhoto, JobExecution, JobPhotoRow, ProviderAgendaBooking } from '../types/jobExecution';
+import { GeoLocation, PhotoType } from '../types/storage';
+import { geoLocationFromExif, parseGeoLocation, takenAtFromExif, toGeoLocationJson } from '../utils/jobExecution';
+
+// add_job_photo raises these messages; anything else is shown as a generic failure
+const PHOTO_ERRORS: Record<string, string> = {
+  booking_not_found: 'Esta reserva ya no existe.',
+  provider_only: 'Solo el profesional puede agregar fotos del trabajo.',
+  booking_too_early: 'Podrás registrar tu llegada una hora antes de la visita.',
+  job_not_started: 'Registra tu llegada antes de agregar estas fotos.',
+  job_photos_closed: 'El trabajo ya terminó; no se pueden agregar más fotos.',
+  photo_not_uploaded: 'La foto no se subió correctamente. Tómala nuevamente.',
+};
+
+// Visits the provider still has to attend or finish
+const AGENDA_STATUSES = ['accepted', 'confirmed', 'in_progress'] as const;
+
+// Long enough to browse the timeline; evidence links for disputes are made by support
+const PHOTO_URL_SECONDS = 60 * 60;
+
+/**
+ * On-site job execution. The provider checks in with a 'before' photo and checks out
+ * with an 'after' photo; photos go to the job-photos bucket through uploadFile and are
+ * attached to the booking by add_job_photo, after which nobody can replace or delete
+ * them. Customers read the same data as a timeline.
+ */
+export class JobExecutionService {
+  static async getExecution(bookingId: string): Promise<JobExecution> {
+    const [bookingResult, photosResult] = await Promise.all([
+      supabase
+        .from('bookings')
+        .select('id, status, title, scheduled_date, scheduled_time_start, scheduled_time_end, confirmed_at, started_at, completed_at, check_in_location, check_out_location, provider_notes, service_requests(project_type_id, project_types(category))')
+        .eq('id', bookingId)
+        .single(),
+      supabase
+        .from('job_photos')
+        .select('*')
+        .eq('booking_id', bookingId)
+        .order('taken_at'),
+    ]);
+
+    const error = bookingResult.error || photosResult.error;
+    if (error || !bookingResult.data) {
+      console.error('❌ Failed to load job execution:', error);
+      throw new Error('No pudimos cargar el registro del trabajo. Inténtalo nuevamente.');
+    }
+
+    const booking = bookingResult.data;
+    return {
+      bookingId: booking.id,
+      status: booking.status ?? 'pending',
+      title: booking.title,
+      scheduledDate: booking.scheduled_date,
+      timeStart: booking.scheduled_time_start.slice(0, 5),
+      timeEnd: booking.scheduled_time_end.slice(0, 5),
+      confirmedAt: booking.confirmed_at,
+      startedAt: booking.started_at,
+      completedAt: booking.completed_at,
+      checkInLocation: parseGeoLocation(booking.check_in_location),
+      checkOutLocation: parseGeoLocation(booking.check_out_location),
+      providerNotes: booking.provider_notes,
+      projectTypeId: booking.service_requests?.project_type_id ?? null,
+      projectCategory: booking.service_requests?.project_types?.category ?? null,
+      photos: await JobExecutionService.withUrls(photosResult.data || []),
+    };
+  }
+
+  static async getProviderAgenda(providerId: string): Promise<ProviderAgendaBooking[]> {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select('id, status, title, scheduled_date, scheduled_time_start, scheduled_time_end')
+      .eq('provider_id', providerId)
+      .in('status', [...AGENDA_STATUSES])
+      .order('scheduled_date')
+      .order('scheduled_time_start');
+
+    if (error) {
+      console.error('❌ Failed to load provider agenda:', error);
+      throw new Error('No pudimos cargar tus trabajos agendados. Inténtalo nuevamente.');
+    }
+
+    return (data || []).map(booking => ({
+      id: booking.id,
+      status: booking.status ?? 'pending',
+      title: booking.title,
+      scheduledDate: booking.scheduled_date,
+      timeStart: booking.scheduled_time_start.slice(0, 5),
+      timeEnd: booking.scheduled_time_end.slice(0, 5),
+    }));
+  }
+
+  /**
+   * Uploads a camera photo and attaches it to the booking. Location and time come
+   * from the photo's EXIF when the camera recorded them.
+   */
+  static async addPhoto(
+    providerId: string,
+    bookingId: string,
+    type: PhotoType,
+    asset: ImagePickerAsset,
+    caption?: string
+  ): Promise<BookingPhoto> {
+    const mimeType = asset.mimeType || 'image/jpeg';
+    const fileName = asset.fileName || `${type}_${Date.now()}.${mimeType.split('/')[1] || 'jpg'}`;
+    const blob = await (await fetch(asset.uri)).blob();
+    const file = new File([blob], fileName, { type: mimeType });
+
+    const upload = await JobExecutionService.storage().uploadBookingPhoto(providerId, bookingId, file);
+    if (!upload.success || !upload.data) {
+      console.error('❌ Job photo upload failed:', upload.error);
+      throw new Error('No pudimos subir la foto. Revisa tu conexión e inténtalo nuevamente.');
+    }
+
+    const location = geoLocationFromExif(asset.exif);
+    const { data, error } = await supabase.rpc('add_job_photo', {
+      p_booking_id: bookingId,
+      p_photo_type: type,
+      p_file_path: upload.data.path,
+      p_original_filename: fileName,
+      p_file_size: file.size,
+      p_mime_type: mimeType,
+      p_taken_at: takenAtFromExif(asset.exif) ?? undefined,
+      p_geo_location: location ? toGeoLocationJson(location) : undefined,
+      p_image_dimensions: asset.width && asset.height ? { width: asset.width, height: asset.height } : undefined,
+      p_caption: caption?.trim() || undefined,
+    });
+
+    if (error || !data) {
+      console.error('❌ Failed to attach job photo:', error);
+      // Not evidence yet, so the upload can still be removed
+      await JobExecutionService.storage().deleteFiles({ bucket: 'job-photos', paths: [upload.data.path] });
+      throw new Error((error && PHOTO_ERRORS[error.message]) || 'No pudimos guardar la foto. Inténtalo nuevamente.');
+    }
+
+    console.log('📸 Job photo attached:', bookingId, type);
+    const [photo] = await JobExecutionService.withUrls([data as JobPhotoRow]);
+    return { ...photo, url: photo.url ?? asset.uri };
+  }
+
+  // Arrival: needs a 'before' photo already attached
+  static async checkIn(bookingId: string, location: GeoLocation | null): Promise<void> {
+    await BookingService.start(bookingId, location ?? undefined);
+  }
+
+  // Departure: needs an 'after' photo already attached; leaves the care instructions picked
+  static async checkOut(
+    bookingId: string,
+    location: GeoLocation | null,
+    providerNotes?: string,
+    careInstructions: CareInstructionDraft[] = []
+  ): Promise<void> {
+    await BookingService.complete(bookingId, providerNotes, location ?? undefined, careInstructions);
+  }
+
+  private static async withUrls(rows: JobPhotoRow[]): Promise<BookingPhoto[]> {
+    if (rows.length === 0) return [];
+
+    const { data } = await supabase.storage
+      .from('job-photos')
+      .createSignedUrls(rows.map(row => row.file_path), PHOTO_URL_SECONDS);
+
+    return rows.map((row, index) => ({
+      id: row.id,
+      type: row.photo_type as PhotoType,
+      path: row.file_path,
+      url: data?.[index]?.signedUrl ?? null,
+      caption: row.caption,
+      takenAt: row.taken_at,
+      location: parseGeoLocation(row.geo_location),
+    }));
+  }
+
+  // Uploads go through the app client so the job-photos policies see the provider's session
+  private static storage(): EnterpriseStorageService {
+    return initializeStorageService(
+      process.env.EXPO_PUBLIC_SUPABASE_URL!,
+      process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY!,
+      supabase
+    );
+  }
+}
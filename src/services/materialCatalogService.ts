@@ -0,0 +1,60 @@
+import { supabase } from './supabase';
+import { FunctionReturns } from '../types/database';
+import { CatalogMaterial, MaterialUnit, ProviderMaterialPrice } from '../types/materials';
+
+type CatalogSearchRow = FunctionReturns<'search_material_catalog'>[number];
+
+export class MaterialCatalogService {
+  /**
+   * Catalog materials for the MaterialsEditor autocomplete. Without a query, the
+   * usual materials for the service category; items the provider has priced first.
+   */
+  static async search(query: string, serviceId?: string | null, limit = 20): Promise<CatalogMaterial[]> {
+    const { data, error } = await supabase.rpc('search_material_catalog', {
+      p_query: query.trim() || undefined,
+      p_service_id: serviceId ?? undefined,
+      p_limit: limit,
+    });
+
+    if (error) {
+      console.error('❌ Failed to search materials catalog:', error);
+      throw new Error('No pudimos buscar en el catálogo de materiales.');
+    }
+
+    return (data || []).map(MaterialCatalogService.mapMaterial);
+  }
+
+  // Saves the provider's own price for catalog items, used instead of the reference price
+  static async saveProviderPrices(providerId: string, prices: ProviderMaterialPrice[]): Promise<void> {
+    if (prices.length === 0) return;
+
+    const { error } = await supabase.from('provider_material_prices').upsert(
+      prices.map(price => ({
+        provider_id: providerId,
+        catalog_item_id: price.catalogItemId,
+        price_clp: Math.max(0, Math.round(price.priceClp)),
+      })),
+      { onConflict: 'provider_id,catalog_item_id' }
+    );
+
+    if (error) {
+      console.error('❌ Failed to save material prices:', error);
+      throw new Error('No pudimos guardar tus precios de materiales.');
+    }
+
+    console.log('✅ Material prices saved:', prices.length);
+  }
+
+  private static mapMaterial(row: CatalogSearchRow): CatalogMaterial {
+    return {
+      id: row.id,
+      serviceId: row.service_id ?? null,
+      name: row.name,
+      brand: row.brand ?? null,
+      unit: row.unit as MaterialUnit,
+      referencePrice: row.reference_price_clp,
+      providerPrice: row.provider_price_clp ?? null,
+      marketPrice: row.market_price_clp ?? null,
+    };
+  }
+}
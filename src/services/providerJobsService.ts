@@ -0,0 +1,333 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { QuoteNegotiationService } from './quoteNegotiationService';
+import { FunctionReturns, Json, Tables } from '../types/database';
+import { QuoteLineItem, QuoteMaterialItem } from '../types/quoteInbox';
+import { QuoteChangeRequestRow } from '../types/quoteNegotiation';
+import {
+  AvailableJob,
+  AvailableJobsPage,
+  JobFeedCursor,
+  JobFeedHandlers,
+  ProviderQuote,
+  ProviderQuoteInput,
+  SuggestedQuote,
+} from '../types/providerJobs';
+
+export type {
+  AvailableJob,
+  AvailableJobsPage,
+  JobFeedCursor,
+  JobFeedHandlers,
+  ProviderQuote,
+  ProviderQuoteInput,
+  QuoteJob,
+  SuggestedQuote,
+} from '../types/providerJobs';
+
+type JobFeedRow = FunctionReturns<'get_provider_job_feed'>[number];
+type ProviderQuoteRow = FunctionReturns<'get_provider_quotes'>[number];
+
+export const JOB_FEED_PAGE_SIZE = 20;
+
+// Statuses in which a request still accepts quotes
+const QUOTABLE_STATUSES = ['open', 'quoted'];
+
+const mapJobRow = (row: JobFeedRow): AvailableJob => ({
+  id: row.id,
+  project_id: row.id,
+  title: row.title,
+  description: row.description,
+  status: row.status === 'quoted' ? 'quoted' : 'open',
+  is_urgent: row.is_urgent,
+  requires_materials: row.requires_materials,
+  budget_min_clp: row.budget_min_clp ?? null,
+  budget_max_clp: row.budget_max_clp ?? null,
+  preferred_date: row.preferred_date ?? null,
+  preferred_time_start: row.preferred_time_start ?? null,
+  preferred_time_end: row.preferred_time_end ?? null,
+  photos: row.photos || [],
+  comuna: row.comuna,
+  region: row.region,
+  service: { id: row.service_category_id, name: row.service_name },
+  project_type: {
+    id: row.project_type_id ?? null,
+    name: row.project_type_name || row.service_name,
+    icon: row.project_type_icon ?? null,
+  },
+  distance_km: row.distance_km ?? null,
+  driving_distance_km: row.driving_distance_km ?? null,
+  quote_count: row.quote_count || 0,
+  suggested_quote: (row.suggested_quote as unknown as SuggestedQuote | null) ?? null,
+  created_at: row.created_at,
+  expires_at: row.expires_at ?? null,
+});
+
+/**
+ * Open requests the provider can quote, newest first. Pass the previous page's
+ * nextCursor to continue after it.
+ */
+export async function fetchAvailableJobs(
+  providerId: string,
+  cursor: JobFeedCursor | null = null,
+  pageSize: number = JOB_FEED_PAGE_SIZE
+): Promise<AvailableJobsPage> {
+  // One extra row tells whether another page follows
+  const { data, error } = await supabase.rpc('get_provider_job_feed', {
+    p_provider_id: providerId,
+    p_limit: pageSize + 1,
+    p_before_created_at: cursor?.createdAt,
+    p_before_id: cursor?.id,
+  });
+
+  if (error) {
+    console.error('❌ Failed to load job feed:', error);
+    throw new Error('No pudimos cargar los trabajos disponibles. Inténtalo nuevamente.');
+  }
+
+  const rows = data || [];
+  const jobs = rows.slice(0, pageSize).map(mapJobRow);
+  const hasMore = rows.length > pageSize;
+  const last = jobs[jobs.length - 1];
+
+  return {
+    jobs,
+    // total_count is repeated on every row (window count); an empty page means no matches
+    totalCount: rows.length > 0 ? Number(rows[0].total_count) : 0,
+    hasMore,
+    nextCursor: hasMore ? { createdAt: last.created_at, id: last.id } : null,
+  };
+}
+
+/**
+ * A single job as the provider's feed would show it, or null when it no longer
+ * belongs there (booked, expired, dismissed, already quoted or out of reach)
+ */
+export async function fetchAvailableJob(providerId: string, jobId: string): Promise<AvailableJob | null> {
+  const { data, error } = await supabase.rpc('get_provider_job_feed', {
+    p_provider_id: providerId,
+    p_limit: 1,
+    p_service_request_id: jobId,
+  });
+
+  if (error) {
+    console.error('❌ Failed to load job:', error);
+    throw error;
+  }
+
+  return data && data.length > 0 ? mapJobRow(data[0]) : null;
+}
+
+export async function dismissJob(providerId: string, jobId: string): Promise<void> {
+  const { error } = await supabase
+    .from('provider_dismissed_jobs')
+    .upsert({ provider_id: providerId, service_request_id: jobId }, { onConflict: 'provider_id,service_request_id' });
+
+  if (error) {
+    console.error('❌ Failed to dismiss job:', error);
+    throw new Error('No pudimos ocultar este trabajo. Inténtalo nuevamente.');
+  }
+}
+
+// Undo for dismissJob
+export async function restoreJob(providerId: string, jobId: string): Promise<void> {
+  const { error } = await supabase
+    .from('provider_dismissed_jobs')
+    .delete()
+    .eq('provider_id', providerId)
+    .eq('service_request_id', jobId);
+
+  if (error) {
+    console.error('❌ Failed to restore job:', error);
+    throw new Error('No pudimos volver a mostrar este trabajo. Inténtalo nuevamente.');
+  }
+}
+
+/**
+ * Sends the provider's itemized quote for a job. The first quote moves the request
+ * to 'quoted' and the job leaves this provider's feed.
+ */
+export async function submitProviderQuote(
+  providerId: string,
+  job: Pick<AvailableJob, 'project_id'>,
+  input: ProviderQuoteInput
+): Promise<Json> {
+  const sessions = input.sessionStructure?.sessions;
+  const { data, error } = await supabase.rpc('create_provider_quote_with_business_context', {
+    p_project_id: job.project_id,
+    p_provider_id: providerId,
+    p_acting_as_business_id: input.actingAsBusinessId || undefined,
+    p_labor_items: input.laborItems as unknown as Json,
+    p_materials_items: input.materialsItems as unknown as Json,
+    p_additional_fees: input.additionalFees as unknown as Json,
+    p_travel_fee_clp: Math.round(input.travelFeeClp),
+    p_estimated_duration_hours: input.estimatedDurationHours,
+    p_notes: input.notes?.trim() || undefined,
+    // The session structure is the timeline; a single visit takes the whole job
+    p_hours_per_session: sessions?.length ? sessions[0].hours : input.estimatedDurationHours,
+    p_requires_multiple_visits: Boolean(sessions?.length),
+    p_session_structure: input.sessionStructure as unknown as Json | undefined,
+    p_response_type: 'quote_now',
+    p_requires_onsite_confirmation: input.siteVisitCostClp !== undefined,
+    p_site_visit_cost: input.siteVisitCostClp,
+  });
+
+  if (error) {
+    console.error('❌ Failed to submit quote:', error);
+    if (error.code === '23505') throw new Error('Ya enviaste una cotización para este trabajo.');
+    if (error.code === '23514') throw new Error('Revisa el precio y la duración de la cotización.');
+    if (error.code === '23503') throw new Error('Este trabajo ya no está disponible.');
+    throw new Error('No pudimos enviar tu cotización. Por favor intenta nuevamente.');
+  }
+
+  console.log('✅ Quote submitted:', data);
+  return data;
+}
+
+const sumAmounts = (items: QuoteLineItem[]) => items.reduce((sum, item) => sum + (Number(item.amount) || 0), 0);
+
+const mapProviderQuoteRow = (row: ProviderQuoteRow): ProviderQuote => {
+  const laborItems = (row.labor_items as unknown as QuoteLineItem[] | null) || [];
+  const additionalFees = (row.additional_fees as unknown as QuoteLineItem[] | null) || [];
+  // QuoteScreen edits fees as labor charges, so a new version carries them there
+  const editableLabor = [...laborItems, ...additionalFees];
+  const pendingChangeRequest = row.pending_change_request as unknown as QuoteChangeRequestRow | null;
+
+  return {
+    id: row.id,
+    serviceRequestId: row.service_request_id,
+    requestTitle: row.request_title,
+    comuna: row.comuna ?? null,
+    status: row.status === 'expired' ? 'expired' : 'active',
+    version: row.version,
+    totalClp: row.total_clp,
+    materialsItems: (row.materials_items as unknown as QuoteMaterialItem[] | null) || [],
+    expiresAt: row.expires_at ?? null,
+    createdAt: row.created_at,
+    pendingChangeRequest: pendingChangeRequest ? QuoteNegotiationService.mapChangeRequest(pendingChangeRequest) : null,
+    job: {
+      project_id: row.service_request_id,
+      service: { id: row.service_category_id, name: row.service_name },
+      project_type: {
+        id: row.project_type_id ?? null,
+        name: row.project_type_name || row.service_name,
+        icon: row.project_type_icon ?? null,
+      },
+      suggested_quote: {
+        total_clp: row.total_clp,
+        estimated_duration_hours: Number(row.estimated_duration_hours) || 2,
+        pricing_source: 'current_quote',
+        notes: row.message ?? null,
+        calculation_breakdown: {
+          labor_subtotal: sumAmounts(editableLabor),
+          materials_subtotal: row.materials_cost_clp,
+          travel_fee_clp: row.travel_fee_clp,
+          fees_subtotal: 0,
+          labor_items: editableLabor.map(item => ({
+            name: item.name,
+            description: item.description ?? undefined,
+            amount: item.amount,
+          })),
+        },
+      },
+    },
+  };
+};
+
+/**
+ * The provider's quotes on requests that still accept quotes, those with a change
+ * request waiting on the provider first. Expired ones are included so they can be
+ * renewed.
+ */
+export async function fetchProviderQuotes(providerId: string): Promise<ProviderQuote[]> {
+  const { data, error } = await supabase.rpc('get_provider_quotes', { p_provider_id: providerId });
+
+  if (error) {
+    console.error('❌ Failed to load provider quotes:', error);
+    throw new Error('No pudimos cargar tus cotizaciones. Inténtalo nuevamente.');
+  }
+
+  return (data || []).map(mapProviderQuoteRow);
+}
+
+// extend_quote_validity raises these messages; anything else is shown as a generic failure
+const EXTEND_ERRORS: Record<string, string> = {
+  quote_not_found: 'Esta cotización ya no existe.',
+  quote_not_extendable: 'Esta cotización ya fue aceptada o rechazada.',
+  request_closed: 'El cliente ya cerró esta solicitud.',
+  quote_date_passed: 'La fecha que ofreciste ya pasó. Envía una nueva versión con otra fecha.',
+  invalid_extension: 'Elige una extensión de entre 1 hora y 7 días.',
+};
+
+export const QUOTE_EXTENSION_HOURS = 48;
+
+/**
+ * Keeps the provider's quote open for longer, or renews it after it expired while
+ * the customer is still choosing. Never goes past the request's own expiry; returns
+ * the new expires_at.
+ */
+export async function extendQuoteValidity(quoteId: string, hours: number = QUOTE_EXTENSION_HOURS): Promise<string> {
+  const { data, error } = await supabase.rpc('extend_quote_validity', {
+    p_quote_id: quoteId,
+    p_hours: hours,
+  });
+
+  if (error) {
+    console.error('❌ Failed to extend quote:', error);
+    throw new Error(EXTEND_ERRORS[error.message] || 'No pudimos extender tu cotización. Inténtalo nuevamente.');
+  }
+
+  console.log('✅ Quote extended until', data);
+  return data;
+}
+
+/**
+ * Keeps a job feed live. Every change to a service request the provider can see is
+ * re-checked against the feed so matching, reach and suggested quote stay the same
+ * as in fetchAvailableJobs. Requests that get booked stop being visible to providers,
+ * so no change arrives for them; they drop out on the next fetch. Returns the
+ * unsubscribe function.
+ */
+export function subscribeToJobFeed(providerId: string, handlers: JobFeedHandlers): () => void {
+  const refresh = async (jobId: string) => {
+    try {
+      const job = await fetchAvailableJob(providerId, jobId);
+      if (job) {
+        handlers.onJob(job);
+      } else {
+        handlers.onRemove(jobId);
+      }
+    } catch (error) {
+      console.error('❌ Failed to refresh job from realtime change:', error);
+    }
+  };
+
+  const handleChange = (payload: RealtimePostgresChangesPayload<Tables<'service_requests'>>) => {
+    if (payload.eventType === 'DELETE') {
+      if (payload.old.id) handlers.onRemove(payload.old.id);
+      return;
+    }
+
+    const request = payload.new;
+    if (request.customer_id === providerId) return;
+
+    if (request.status && QUOTABLE_STATUSES.includes(request.status)) {
+      refresh(request.id);
+    } else {
+      handlers.onRemove(request.id);
+    }
+  };
+
+  const channel = supabase
+    .channel(`provider-job-feed:${providerId}`)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'service_requests' }, handleChange)
+    .subscribe(status => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.warn('⚠️ Job feed realtime unavailable:', status);
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
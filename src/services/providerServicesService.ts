@@ -4,53 +4,12 @@
  */
 
 import { supabase } from './supabase';
+import { Enums, Tables } from '../types/database';
 
-export interface ServiceCategory {
-  id: string;
-  name: string;
-  icon: string | null;
-  description: string | null;
-  avg_price_min: number | null;
-  avg_price_max: number | null;
-  is_active: boolean;
-  sort_order: number;
-}
-
-export interface ProjectType {
-  id: string;
-  name: string;
-  description: string | null;
-  estimated_duration: string | null;
-  avg_price_min: number | null;
-  avg_price_max: number | null;
-  complexity: 'easy' | 'medium' | 'hard';
-  icon: string | null;
-  category: 'electricidad' | 'gasfiteria_gas' | 'gasfiteria_agua' | 'pintura_terminaciones' | 'carpinteria_muebles' | 'ceramica_pisos' | 'construccion_obras' | 'remodelacion' | 'calefaccion_clima' | 'seguridad_portones' | 'jardin_exterior' | 'limpieza_mantenimiento' | 'mudanzas_transporte' | 'linea_blanca' | 'piscinas' | 'otros_servicios';
-  is_active: boolean;
-  sort_order: number;
-}
-
-export interface ProviderService {
-  provider_id: string;
-  service_id: string;
-  hourly_rate_clp: number | null;
-  fixed_rate_clp: number | null;
-  experience_years: number;
-  is_primary_service: boolean;
-}
-
-export interface ProviderProject {
-  id?: string;
-  provider_id: string;
-  project_type_id: string;
-  base_price_clp: number | null;
-  estimated_hours: number | null;
-  pricing_notes: string | null;
-  is_active: boolean;
-  allows_instant_quote: boolean;
-  requires_site_visit_for: 'all' | 'complex_only' | 'none';
-  service_id: string | null;
-}
+export type ServiceCategory = Tables<'service_categories'>;
+export type ProjectType = Tables<'project_types'>;
+export type ProviderService = Tables<'provider_services'>;
+export type ProviderProject = Tables<'provider_base_pricing'>;
 
 /**
  * Fetch all active service categories
@@ -76,7 +35,7 @@ export const fetchServiceCategories = async (): Promise<ServiceCategory[]> => {
 /**
  * Fetch all active project types, optionally filtered by category
  */
-export const fetchProjectTypes = async (category?: string): Promise<ProjectType[]> => {
+export const fetchProjectTypes = async (category?: Enums<'project_category'>): Promise<ProjectType[]> => {
   console.log('📋 Fetching project types...', { category });
 
   let query = supabase
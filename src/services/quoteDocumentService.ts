@@ -0,0 +1,44 @@
+import { Linking, Share } from 'react-native';
+import { supabase } from './supabase';
+import { QuoteDocument, QuoteShareChannel } from '../types/quoteDocuments';
+
+export class QuoteDocumentService {
+  /**
+   * PDF of the current version of a quote. Rendered by the quote-pdf edge function
+   * once per version and status; later calls return the stored file. Only the
+   * provider can force a new render.
+   */
+  static async getQuotePdf(quoteId: string, options: { force?: boolean } = {}): Promise<QuoteDocument> {
+    const { data, error } = await supabase.functions.invoke('quote-pdf', {
+      body: { quoteId, force: options.force ?? false },
+    });
+
+    if (error || !data?.url) {
+      console.error('❌ Failed to generate quote PDF:', error);
+      throw new Error('No pudimos generar el PDF de la cotización. Inténtalo nuevamente.');
+    }
+
+    console.log('✅ Quote PDF ready:', data.documentNumber);
+    return data as QuoteDocument;
+  }
+
+  static async share(document: QuoteDocument, channel: QuoteShareChannel, title: string): Promise<void> {
+    const message = `Cotización ${document.documentNumber} – ${title}\n${document.url}`;
+
+    if (channel === 'whatsapp') {
+      const appUrl = `whatsapp://send?text=${encodeURIComponent(message)}`;
+      const canOpenApp = await Linking.canOpenURL(appUrl).catch(() => false);
+      await Linking.openURL(canOpenApp ? appUrl : `https://wa.me/?text=${encodeURIComponent(message)}`);
+      return;
+    }
+
+    if (channel === 'email') {
+      const subject = `Cotización ${document.documentNumber}`;
+      const body = `Hola,\n\nTe comparto la cotización "${title}":\n${document.url}\n\nEl enlace es válido por 7 días.`;
+      await Linking.openURL(`mailto:?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`);
+      return;
+    }
+
+    await Share.share({ title: `Cotización ${document.documentNumber}`, message, url: document.url });
+  }
+}
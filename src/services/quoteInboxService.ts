@@ -0,0 +1,121 @@
+import { supabase } from './supabase';
+import { FunctionReturns, Tables } from '../types/database';
+import { CustomerQuote, QuoteInboxRequest, QuoteSessionStructure, TrustLevel } from '../types/quoteInbox';
+import { buildQuoteBreakdown } from '../utils/quoteComparison';
+import { QuoteNegotiationService } from './quoteNegotiationService';
+
+type QuoteRow = FunctionReturns<'get_service_request_quotes'>[number];
+
+// accept_quote raises these messages; anything else is shown as a generic failure
+const ACCEPT_ERRORS: Record<string, string> = {
+  quote_not_found: 'Esta cotización ya no existe.',
+  request_closed: 'Esta solicitud ya tiene una cotización aceptada o expiró.',
+  quote_not_active: 'El profesional retiró esta cotización o ya no está vigente.',
+  quote_expired: 'Esta cotización expiró. Pide al profesional que la renueve.',
+  quote_date_passed: 'La fecha propuesta ya pasó. Pide al profesional una nueva fecha.',
+  slot_taken: 'El profesional ya tomó otro trabajo en ese horario. Pídele una nueva fecha.',
+  provider_unavailable: 'El profesional no está disponible esa fecha. Pídele una nueva fecha.',
+  daily_limit_reached: 'El profesional ya completó su agenda para ese día. Pídele una nueva fecha.',
+};
+
+export class QuoteInboxService {
+  // Customer's requests, newest first, with how many quotes are waiting on each
+  static async getCustomerRequests(customerId: string): Promise<QuoteInboxRequest[]> {
+    const { data, error } = await supabase
+      .from('service_requests')
+      .select('id, title, status, created_at, expires_at, quotes(status, price_clp, materials_cost_clp, iva_clp)')
+      .eq('customer_id', customerId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('❌ Failed to load quote inbox:', error);
+      throw new Error('No pudimos cargar tus solicitudes. Inténtalo nuevamente.');
+    }
+
+    return (data || []).map(request => {
+      const activeQuotes = (request.quotes || []).filter(quote => quote.status === 'active');
+      const totals = activeQuotes.map(quote => quote.price_clp + (quote.materials_cost_clp || 0) + quote.iva_clp);
+
+      return {
+        id: request.id,
+        title: request.title,
+        status: request.status ?? 'open',
+        createdAt: request.created_at ?? '',
+        expiresAt: request.expires_at,
+        activeQuoteCount: activeQuotes.length,
+        lowestTotal: totals.length > 0 ? Math.min(...totals) : null,
+      };
+    });
+  }
+
+  // Active and accepted quotes of one request, cheapest first
+  static async getQuotes(serviceRequestId: string): Promise<CustomerQuote[]> {
+    const { data, error } = await supabase.rpc('get_service_request_quotes', {
+      p_service_request_id: serviceRequestId,
+    });
+
+    if (error) {
+      console.error('❌ Failed to load quotes:', error);
+      throw new Error('No pudimos cargar las cotizaciones. Inténtalo nuevamente.');
+    }
+
+    return (data || []).map(row => QuoteInboxService.mapQuote(serviceRequestId, row));
+  }
+
+  /**
+   * Accepts a quote. The database rejects the other quotes, books the request and
+   * creates the booking in the same transaction; returns the booking id.
+   */
+  static async acceptQuote(quoteId: string): Promise<string> {
+    const { data, error } = await supabase.rpc('accept_quote', { p_quote_id: quoteId });
+
+    if (error) {
+      console.error('❌ Failed to accept quote:', error);
+      throw new Error(ACCEPT_ERRORS[error.message] || 'No pudimos aceptar la cotización. Inténtalo nuevamente.');
+    }
+
+    console.log('✅ Quote accepted, booking created:', data);
+    return data;
+  }
+
+  private static mapQuote(serviceRequestId: string, row: QuoteRow): CustomerQuote {
+    return {
+      id: row.id,
+      serviceRequestId,
+      status: row.status === 'accepted' ? 'accepted' : 'active',
+      provider: {
+        id: row.provider_id,
+        name: row.provider_name,
+        businessName: row.business_name ?? null,
+        avatarUrl: row.avatar_url ?? null,
+        rating: row.rating !== null ? Number(row.rating) : null,
+        totalReviews: row.total_reviews,
+        totalJobsCompleted: row.total_jobs_completed,
+        verificationScore: row.verification_score,
+        isIdentityVerified: row.is_identity_verified,
+        isBackgroundChecked: row.is_background_checked,
+        trustLevel: row.trust_level as TrustLevel,
+      },
+      breakdown: buildQuoteBreakdown(row),
+      includesMaterials: row.includes_materials,
+      documentType: row.document_type ?? null,
+      estimatedDurationHours: row.estimated_duration_hours !== null ? Number(row.estimated_duration_hours) : null,
+      sessionStructure: (row.session_structure as unknown as QuoteSessionStructure | null) ?? null,
+      requiresOnsiteConfirmation: row.requires_onsite_confirmation,
+      siteVisitCost: row.site_visit_cost_clp ?? null,
+      message: row.message ?? null,
+      availability: {
+        date: row.availability_date,
+        start: row.availability_time_start.slice(0, 5),
+        end: row.availability_time_end.slice(0, 5),
+      },
+      expiresAt: row.expires_at ?? null,
+      createdAt: row.created_at,
+      version: row.version,
+      acceptedVersion: row.accepted_version ?? null,
+      pendingChangeRequest: row.pending_change_request
+        ? QuoteNegotiationService.mapChangeRequest(row.pending_change_request as unknown as Tables<'quote_change_requests'>)
+        : null,
+    };
+  }
+}
@@ -0,0 +1,181 @@
+import { supabase } from './supabase';
+import { Json } from '../types/database';
+import { QuoteLineItem, QuoteMaterialItem } from '../types/quoteInbox';
+import {
+  QuoteChangeRequest,
+  QuoteChangeRequestInput,
+  QuoteChangeRequestRow,
+  QuoteChangeTopic,
+  QuoteRevision,
+  QuoteRevisionChanges,
+  QuoteRevisionInput,
+  QuoteRevisionRow,
+  QuoteTimelineEntry,
+} from '../types/quoteNegotiation';
+
+// The negotiation functions raise these messages; anything else is shown as a generic failure
+const NEGOTIATION_ERRORS: Record<string, string> = {
+  quote_not_found: 'Esta cotización ya no existe.',
+  quote_not_active: 'Esta cotización ya no está vigente.',
+  change_request_pending: 'Ya pediste cambios en esta cotización. Espera la respuesta del profesional.',
+  change_request_not_found: 'El cliente retiró esta solicitud de cambios o ya fue respondida.',
+  invalid_change_request: 'Revisa los cambios que pides: indica el precio, la fecha o los materiales.',
+};
+
+export class QuoteNegotiationService {
+  /**
+   * Versions and change requests of a quote, oldest first. A change request sorts
+   * before the revision that answered it since it was created earlier.
+   */
+  static async getTimeline(quoteId: string): Promise<QuoteTimelineEntry[]> {
+    const [revisions, changeRequests] = await Promise.all([
+      supabase.from('quote_revisions').select('*').eq('quote_id', quoteId).order('version'),
+      supabase.from('quote_change_requests').select('*').eq('quote_id', quoteId).order('created_at'),
+    ]);
+
+    const error = revisions.error || changeRequests.error;
+    if (error) {
+      console.error('❌ Failed to load quote history:', error);
+      throw new Error('No pudimos cargar el historial de la cotización. Inténtalo nuevamente.');
+    }
+
+    const entries: QuoteTimelineEntry[] = [
+      ...(revisions.data || []).map(row => {
+        const revision = QuoteNegotiationService.mapRevision(row);
+        return { kind: 'revision' as const, at: revision.createdAt, revision };
+      }),
+      ...(changeRequests.data || []).map(row => {
+        const changeRequest = QuoteNegotiationService.mapChangeRequest(row);
+        return { kind: 'change_request' as const, at: changeRequest.createdAt, changeRequest };
+      }),
+    ];
+
+    return entries.sort((a, b) => a.at.localeCompare(b.at));
+  }
+
+  // Customer asks the provider for a new version; returns the change request id
+  static async requestChanges(quoteId: string, input: QuoteChangeRequestInput): Promise<string> {
+    const { data, error } = await supabase.rpc('request_quote_changes', {
+      p_quote_id: quoteId,
+      p_topics: input.topics,
+      p_proposed_price_clp: input.proposedPrice ?? undefined,
+      p_proposed_date: input.proposedDate ?? undefined,
+      p_proposed_time_start: input.proposedTimeStart ?? undefined,
+      p_proposed_time_end: input.proposedTimeEnd ?? undefined,
+      p_materials_note: input.materialsNote,
+      p_message: input.message,
+    });
+
+    if (error) {
+      console.error('❌ Failed to request quote changes:', error);
+      throw new Error(NEGOTIATION_ERRORS[error.message] || 'No pudimos enviar tu solicitud. Inténtalo nuevamente.');
+    }
+
+    console.log('✅ Quote change request sent:', data);
+    return data;
+  }
+
+  /**
+   * Provider issues a new version of the quote. The database records the diff
+   * against the previous version and answers the pending change request; returns
+   * the new version number.
+   */
+  static async reviseQuote(quoteId: string, input: QuoteRevisionInput): Promise<number> {
+    const { data, error } = await supabase.rpc('revise_quote', {
+      p_quote_id: quoteId,
+      p_price_clp: input.priceClp,
+      p_materials_cost_clp: input.materialsCostClp,
+      p_includes_materials: input.includesMaterials,
+      p_labor_items: input.laborItems as unknown as Json,
+      p_materials_items: input.materialsItems as unknown as Json,
+      p_additional_fees: input.additionalFees as unknown as Json,
+      p_travel_fee_clp: input.travelFeeClp,
+      p_vat_rate: input.vatRate,
+      p_iva_clp: input.ivaClp,
+      p_estimated_duration_hours: input.estimatedDurationHours ?? undefined,
+      p_availability_date: input.availabilityDate,
+      p_availability_time_start: input.availabilityTimeStart,
+      p_availability_time_end: input.availabilityTimeEnd,
+      p_message: input.message,
+      p_change_request_id: input.changeRequestId,
+    });
+
+    if (error) {
+      console.error('❌ Failed to revise quote:', error);
+      throw new Error(NEGOTIATION_ERRORS[error.message] || 'No pudimos enviar la nueva versión. Inténtalo nuevamente.');
+    }
+
+    console.log('✅ Quote revised to version', data);
+    return data;
+  }
+
+  // Provider keeps the current version
+  static async declineChanges(changeRequestId: string, responseMessage?: string): Promise<void> {
+    const { error } = await supabase.rpc('decline_quote_changes', {
+      p_change_request_id: changeRequestId,
+      p_response_message: responseMessage,
+    });
+
+    if (error) {
+      console.error('❌ Failed to decline quote changes:', error);
+      throw new Error(NEGOTIATION_ERRORS[error.message] || 'No pudimos responder la solicitud. Inténtalo nuevamente.');
+    }
+  }
+
+  // Pending change request on one of the provider's quotes, if any
+  static async getPendingChangeRequest(quoteId: string): Promise<QuoteChangeRequest | null> {
+    const { data, error } = await supabase
+      .from('quote_change_requests')
+      .select('*')
+      .eq('quote_id', quoteId)
+      .eq('status', 'pending')
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Failed to load quote change request:', error);
+      throw new Error('No pudimos cargar la solicitud de cambios. Inténtalo nuevamente.');
+    }
+
+    return data ? QuoteNegotiationService.mapChangeRequest(data) : null;
+  }
+
+  static mapChangeRequest(row: QuoteChangeRequestRow): QuoteChangeRequest {
+    return {
+      id: row.id,
+      quoteId: row.quote_id,
+      quoteVersion: row.quote_version,
+      topics: row.topics as QuoteChangeTopic[],
+      proposedPrice: row.proposed_price_clp,
+      proposedDate: row.proposed_date,
+      proposedTimeStart: row.proposed_time_start?.slice(0, 5) ?? null,
+      proposedTimeEnd: row.proposed_time_end?.slice(0, 5) ?? null,
+      materialsNote: row.materials_note,
+      message: row.message,
+      status: row.status,
+      answeredVersion: row.answered_version,
+      responseMessage: row.response_message,
+      createdAt: row.created_at,
+    };
+  }
+
+  private static mapRevision(row: QuoteRevisionRow): QuoteRevision {
+    return {
+      id: row.id,
+      quoteId: row.quote_id,
+      version: row.version,
+      total: row.price_clp + row.materials_cost_clp + row.iva_clp,
+      laborItems: Array.isArray(row.labor_items) ? (row.labor_items as unknown as QuoteLineItem[]) : [],
+      materialsItems: Array.isArray(row.materials_items) ? (row.materials_items as unknown as QuoteMaterialItem[]) : [],
+      availability: {
+        date: row.availability_date,
+        start: row.availability_time_start.slice(0, 5),
+        end: row.availability_time_end.slice(0, 5),
+      },
+      estimatedDurationHours: row.estimated_duration_hours !== null ? Number(row.estimated_duration_hours) : null,
+      message: row.message,
+      changes: (row.changes as unknown as QuoteRevisionChanges | null) ?? null,
+      changeRequestId: row.change_request_id,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,136 @@
+import { supabase } from './supabase';
+import { FunctionReturns, Json } from '../types/database';
+import { QuoteMaterialItem, QuoteSessionStructure } from '../types/quoteInbox';
+import {
+  QuoteTemplate,
+  QuoteTemplateInput,
+  QuoteTemplateLaborItem,
+  QuoteTemplateRates,
+  QuoteTemplateVisitConfig,
+} from '../types/quoteTemplates';
+
+type TemplateRow = FunctionReturns<'get_provider_quote_templates'>[number];
+
+export class QuoteTemplateService {
+  /**
+   * The provider's templates for a project type plus their general ones, with labor
+   * priced at the provider's current rates. Without a project type, all templates.
+   */
+  static async getTemplates(projectTypeId?: string | null): Promise<QuoteTemplate[]> {
+    const { data, error } = await supabase.rpc('get_provider_quote_templates', {
+      p_project_type_id: projectTypeId ?? undefined,
+    });
+
+    if (error) {
+      console.error('❌ Failed to load quote templates:', error);
+      throw new Error('No pudimos cargar tus plantillas. Inténtalo nuevamente.');
+    }
+
+    return (data || []).map(QuoteTemplateService.mapTemplate);
+  }
+
+  // Creates a template, or overwrites it when templateId is given
+  static async saveTemplate(providerId: string, input: QuoteTemplateInput, templateId?: string): Promise<string> {
+    const row = {
+      provider_id: providerId,
+      project_type_id: input.projectTypeId,
+      name: input.name.trim(),
+      labor_items: input.laborItems as unknown as Json,
+      materials_items: input.materialsItems as unknown as Json,
+      materials_notes: input.materialsNotes.trim() || null,
+      notes: input.notes.trim() || null,
+      estimated_duration_hours: input.estimatedDurationHours,
+      session_structure: (input.sessionStructure as unknown as Json) ?? null,
+      quote_type: input.quoteType,
+      visit_config: (input.visitConfig as unknown as Json) ?? null,
+    };
+
+    const query = templateId
+      ? supabase.from('provider_quote_templates').update(row).eq('id', templateId)
+      : supabase.from('provider_quote_templates').insert(row);
+    const { data, error } = await query.select('id').single();
+
+    if (error) {
+      console.error('❌ Failed to save quote template:', error);
+      if (error.code === '23505') throw new Error('Ya tienes una plantilla con ese nombre.');
+      throw new Error('No pudimos guardar la plantilla. Inténtalo nuevamente.');
+    }
+
+    console.log('✅ Quote template saved:', data.id);
+    return data.id;
+  }
+
+  static async deleteTemplate(templateId: string): Promise<void> {
+    const { error } = await supabase.from('provider_quote_templates').delete().eq('id', templateId);
+
+    if (error) {
+      console.error('❌ Failed to delete quote template:', error);
+      throw new Error('No pudimos eliminar la plantilla. Inténtalo nuevamente.');
+    }
+  }
+
+  // Keeps recently used templates on top; failing to record it never blocks the quote
+  static async markUsed(templateId: string): Promise<void> {
+    const { error } = await supabase
+      .from('provider_quote_templates')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', templateId);
+
+    if (error) {
+      console.warn('⚠️ Failed to record quote template use:', error);
+    }
+  }
+
+  /**
+   * Rates that rate-based labor items follow: the provider's hourly rate and their
+   * base price for the project type. Either may be missing.
+   */
+  static async getProviderRates(
+    providerId: string,
+    projectTypeId: string | null
+  ): Promise<QuoteTemplateRates> {
+    const [profile, basePricing] = await Promise.all([
+      supabase.from('provider_profiles').select('hourly_rate_clp').eq('user_id', providerId).maybeSingle(),
+      projectTypeId
+        ? supabase
+          .from('provider_base_pricing')
+          .select('base_price_clp')
+          .eq('provider_id', providerId)
+          .eq('project_type_id', projectTypeId)
+          .eq('is_active', true)
+          .maybeSingle()
+        : Promise.resolve({ data: null, error: null }),
+    ]);
+
+    const error = profile.error || basePricing.error;
+    if (error) {
+      console.error('❌ Failed to load provider rates:', error);
+      throw new Error('No pudimos cargar tus tarifas. Inténtalo nuevamente.');
+    }
+
+    return {
+      hourlyRate: profile.data?.hourly_rate_clp ?? null,
+      basePrice: basePricing.data?.base_price_clp ?? null,
+    };
+  }
+
+  private static mapTemplate(row: TemplateRow): QuoteTemplate {
+    return {
+      id: row.id,
+      projectTypeId: row.project_type_id ?? null,
+      projectTypeName: row.project_type_name ?? null,
+      name: row.name,
+      laborItems: Array.isArray(row.labor_items) ? (row.labor_items as unknown as QuoteTemplateLaborItem[]) : [],
+      materialsItems: Array.isArray(row.materials_items) ? (row.materials_items as unknown as QuoteMaterialItem[]) : [],
+      materialsNotes: row.materials_notes ?? '',
+      notes: row.notes ?? '',
+      estimatedDurationHours: row.estimated_duration_hours !== null ? Number(row.estimated_duration_hours) : null,
+      sessionStructure: (row.session_structure as unknown as QuoteSessionStructure | null) ?? null,
+      quoteType: row.quote_type === 'visit_required' ? 'visit_required' : 'direct',
+      visitConfig: (row.visit_config as unknown as QuoteTemplateVisitConfig | null) ?? null,
+      pricesChanged: row.prices_changed,
+      lastUsedAt: row.last_used_at ?? null,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,126 @@
+import { supabase } from './supabase';
+import { SearchService } from './searchService';
+import { LocationService } from './locationService';
+import { SavedSearch, SearchFilters } from '../types/search';
+import { Json } from '../types/database';
+
+interface SavedSearchRow {
+  id: string;
+  name: string;
+  query: string;
+  filters: SearchFilters | null;
+  alerts_enabled: boolean;
+  last_run_at: string | null;
+  last_match_count: number | null;
+  created_at: string;
+}
+
+const SAVED_SEARCH_COLUMNS = 'id, name, query, filters, alerts_enabled, last_run_at, last_match_count, created_at';
+
+export class SavedSearchService {
+  // Saved searches of the signed-in customer, newest first (RLS scopes rows to the owner)
+  static async listSavedSearches(): Promise<SavedSearch[]> {
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .select(SAVED_SEARCH_COLUMNS)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('❌ Failed to load saved searches:', error);
+      throw error;
+    }
+
+    return ((data || []) as SavedSearchRow[]).map(SavedSearchService.mapRow);
+  }
+
+  static async getSavedSearch(id: string): Promise<SavedSearch | null> {
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .select(SAVED_SEARCH_COLUMNS)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Failed to load saved search:', error);
+      throw error;
+    }
+
+    return data ? SavedSearchService.mapRow(data as SavedSearchRow) : null;
+  }
+
+  // Save a service search. The query is matched to services now so the alert job can
+  // re-run it in the database; coordinates are resolved so the radius still applies.
+  static async saveSearch(userId: string, name: string, query: string, filters: SearchFilters): Promise<SavedSearch> {
+    const matches = await SearchService.intelligentServiceMatch(query, filters.serviceType);
+    if (matches.length === 0) {
+      throw new Error('No encontramos servicios para esta búsqueda');
+    }
+
+    const location = filters.location;
+    const coordinates = location?.coordinates
+      || (location ? LocationService.resolveCoordinates(location.commune, location.region) : null);
+    // Sort order is a view preference and a time slot is a one-off; alerts match neither
+    const { sortBy, timeSlot, ...savedFilters } = filters;
+
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .insert({
+        user_id: userId,
+        name: name.trim() || query.trim(),
+        query: query.trim(),
+        filters: (location && coordinates ? { ...savedFilters, location: { ...location, coordinates } } : savedFilters) as Json,
+        service_ids: matches.map(match => match.id),
+        match_weights: matches.map(match => match.strength)
+      })
+      .select(SAVED_SEARCH_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('❌ Failed to save search:', error);
+      throw error;
+    }
+
+    console.log('✅ Saved search created:', data.id);
+    return SavedSearchService.mapRow(data as SavedSearchRow);
+  }
+
+  static async updateSavedSearch(id: string, updates: { name?: string; alertsEnabled?: boolean }): Promise<void> {
+    const { error } = await supabase
+      .from('saved_searches')
+      .update({
+        ...(updates.name !== undefined && { name: updates.name.trim() }),
+        ...(updates.alertsEnabled !== undefined && { alerts_enabled: updates.alertsEnabled })
+      })
+      .eq('id', id);
+
+    if (error) {
+      console.error('❌ Failed to update saved search:', error);
+      throw error;
+    }
+  }
+
+  static async deleteSavedSearch(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('saved_searches')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('❌ Failed to delete saved search:', error);
+      throw error;
+    }
+  }
+
+  private static mapRow(row: SavedSearchRow): SavedSearch {
+    return {
+      id: row.id,
+      name: row.name,
+      query: row.query,
+      filters: row.filters || {},
+      alertsEnabled: row.alerts_enabled,
+      lastRunAt: row.last_run_at ? new Date(row.last_run_at) : undefined,
+      lastMatchCount: row.last_match_count ?? 0,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
@@ -0,0 +1,182 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { analytics } from './analytics';
+
+// Device-side tiers in front of the server search cache (search_providers_cached).
+// Entries younger than FRESH_MS are served as-is; older ones are served immediately
+// while a fresh fetch runs in the background (stale-while-revalidate). Anything up to
+// MAX_AGE_MS is kept as an offline fallback when the network fetch fails.
+const FRESH_MS = 60 * 1000;
+const MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const MEMORY_LIMIT = 50;
+const STORAGE_LIMIT = 20;
+const STORAGE_PREFIX = 'manito.searchCache.';
+const STORAGE_INDEX_KEY = `${STORAGE_PREFIX}index`;
+
+export type SearchCacheTier = 'memory' | 'storage' | 'server';
+export type SearchCacheMissTier = 'device' | 'server';
+
+interface CacheEntry<T> {
+  key: string;
+  value: T;
+  storedAt: number;
+}
+
+export class SearchCache {
+  private static memory = new Map<string, CacheEntry<unknown>>();
+  private static revalidating = new Map<string, Promise<unknown>>();
+
+  // Stable cache key: identical searches hash the same regardless of property order
+  static createKey(parts: unknown[]): string {
+    return SearchCache.stableStringify(parts);
+  }
+
+  // Serve from the device tiers when possible and revalidate stale entries in the background.
+  // onRevalidate receives the fresh value when a stale entry was served.
+  static async staleWhileRevalidate<T>(
+    key: string,
+    searchType: 'service' | 'project',
+    fetcher: () => Promise<T>,
+    onRevalidate?: (value: T) => void
+  ): Promise<T> {
+    const cached = await SearchCache.read<T>(key);
+    const age = cached ? Date.now() - cached.entry.storedAt : Infinity;
+
+    if (!cached || age > MAX_AGE_MS) {
+      SearchCache.trackMiss('device', searchType);
+      try {
+        const value = await fetcher();
+        await SearchCache.write(key, value);
+        return value;
+      } catch (error) {
+        // Offline reopen: an expired copy beats no results
+        if (cached) {
+          console.log('📦 Search cache: serving expired entry after fetch failure');
+          return cached.entry.value;
+        }
+        throw error;
+      }
+    }
+
+    SearchCache.trackHit(cached.tier, searchType, age);
+
+    if (age > FRESH_MS) {
+      SearchCache.revalidate(key, fetcher, onRevalidate);
+    }
+
+    return cached.entry.value;
+  }
+
+  static trackHit(tier: SearchCacheTier, searchType: string, ageMs: number): void {
+    analytics.track('search_cache_hit', {
+      tier,
+      search_type: searchType,
+      age_seconds: Math.round(ageMs / 1000),
+      stale: tier !== 'server' && ageMs > FRESH_MS,
+    });
+  }
+
+  static trackMiss(tier: SearchCacheMissTier, searchType: string): void {
+    analytics.track('search_cache_miss', {
+      tier,
+      search_type: searchType,
+    });
+  }
+
+  private static revalidate<T>(key: string, fetcher: () => Promise<T>, onRevalidate?: (value: T) => void): void {
+    // One background fetch per key, however many times the stale entry is read
+    if (SearchCache.revalidating.has(key)) return;
+
+    const request = fetcher()
+      .then(async value => {
+        await SearchCache.write(key, value);
+        onRevalidate?.(value);
+      })
+      .catch(error => console.log('📦 Search cache: background refresh failed, keeping cached entry:', error?.message || error))
+      .finally(() => SearchCache.revalidating.delete(key));
+
+    SearchCache.revalidating.set(key, request);
+  }
+
+  private static async read<T>(key: string): Promise<{ entry: CacheEntry<T>; tier: SearchCacheTier } | null> {
+    const inMemory = SearchCache.memory.get(key) as CacheEntry<T> | undefined;
+    if (inMemory) {
+      return { entry: inMemory, tier: 'memory' };
+    }
+
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_PREFIX + SearchCache.hash(key));
+      if (!stored) return null;
+
+      const entry = JSON.parse(stored) as CacheEntry<T>;
+      if (entry.key !== key) return null; // hash collision
+
+      SearchCache.remember(entry);
+      return { entry, tier: 'storage' };
+    } catch (error) {
+      console.error('❌ Search cache: failed to read storage:', error);
+      return null;
+    }
+  }
+
+  private static async write<T>(key: string, value: T): Promise<void> {
+    const entry: CacheEntry<T> = { key, value, storedAt: Date.now() };
+    SearchCache.remember(entry);
+
+    try {
+      const hash = SearchCache.hash(key);
+      const index = (await SearchCache.readStorageIndex()).filter(existing => existing !== hash);
+      index.unshift(hash);
+      const evicted = index.splice(STORAGE_LIMIT);
+
+      await AsyncStorage.multiSet([
+        [STORAGE_PREFIX + hash, JSON.stringify(entry)],
+        [STORAGE_INDEX_KEY, JSON.stringify(index)],
+      ]);
+      if (evicted.length > 0) {
+        await AsyncStorage.multiRemove(evicted.map(oldHash => STORAGE_PREFIX + oldHash));
+      }
+    } catch (error) {
+      console.error('❌ Search cache: failed to write storage:', error);
+    }
+  }
+
+  // Map keeps insertion order, so re-inserting makes it a simple LRU
+  private static remember(entry: CacheEntry<unknown>): void {
+    SearchCache.memory.delete(entry.key);
+    SearchCache.memory.set(entry.key, entry);
+
+    if (SearchCache.memory.size > MEMORY_LIMIT) {
+      const oldestKey = SearchCache.memory.keys().next().value;
+      if (oldestKey !== undefined) SearchCache.memory.delete(oldestKey);
+    }
+  }
+
+  private static async readStorageIndex(): Promise<string[]> {
+    const stored = await AsyncStorage.getItem(STORAGE_INDEX_KEY);
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  // FNV-1a, used only to build short AsyncStorage keys; entries carry the full key
+  private static hash(value: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
+  }
+
+  private static stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => SearchCache.stableStringify(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.keys(value as Record<string, unknown>)
+        .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+        .sort()
+        .map(key => `${JSON.stringify(key)}:${SearchCache.stableStringify((value as Record<string, unknown>)[key])}`);
+      return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+  }
+}
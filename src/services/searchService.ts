@@ -1,637 +1,383 @@
 import { supabase } from './supabase';
-import { SearchFilters, SearchResult, EnhancedServiceProvider, ServiceCategory, ProjectType } from '../types/search';
+import { SearchFilters, SearchResult, ServiceProvider, EnhancedServiceProvider, ServiceCategory, ProjectType, SearchMatch, SearchFacets, PopularService } from '../types/search';
+import { matchServices, matchProjects } from '../utils/searchQuery';
+import { LocationService } from './locationService';
+import { SearchCache } from './searchCache';
+import { FunctionReturns, Json } from '../types/database';
+
+// Row shape shared by search_providers_by_service and search_providers_by_project
+interface ProviderSearchRow {
+  provider_id: string;
+  user_name: string;
+  business_name: string | null;
+  avatar_url: string | null;
+  rating: number | null;
+  total_reviews: number | null;
+  verification_status: EnhancedServiceProvider['verificationStatus'];
+  hourly_rate_clp?: number | null;
+  fixed_rate_clp?: number | null;
+  base_price_clp?: number | null;
+  response_time_hours: number | null;
+  is_available_today: boolean;
+  service_areas: string[] | null;
+  latitude: number | null;
+  longitude: number | null;
+  distance_km: number | null;
+  driving_distance_km: number | null;
+  specialties: string[] | null;
+  languages: string[] | null;
+  total_jobs_completed: number | null;
+  relevance_score: number | null;
+  next_free_slot: string | null;
+  total_count: number | string;
+}
+
+// JSONB shape returned by build_search_facets
+interface FacetsRow {
+  total: number;
+  price_ranges: Array<{ key: string; min: number; max: number | null; count: number }> | null;
+  ratings: Array<{ min_rating: number; count: number }> | null;
+  verified: number;
+  available_today: number;
+  communes: Array<{ name: string; count: number }> | null;
+}
+
+// A page as returned by search_providers_cached; also what the device cache stores
+interface SearchPayload {
+  rows: ProviderSearchRow[];
+  facets: FacetsRow | null;
+  totalCount?: number; // set when the page itself can't tell (past the last result)
+}
+
+interface CachedSearchResponse extends SearchPayload {
+  cached_at: string;
+  from_cache: boolean;
+}
 
 export class SearchService {
-  // Service-based search using intelligent matching
+  private static catalogPromise: Promise<{ services: ServiceCategory[]; projects: ProjectType[] }> | null = null;
+  // Hard-coded lists returned when the database fails; never memoized
+  private static fallbackLists = new WeakSet<object>();
+
+  // Service-based search ranked by the database.
+  // Ranking blend (see provider_relevance_score in migrations): 35% synonym match strength,
+  // 25% rating, 15% verification, 15% response time, 10% distance to the customer.
+  // Results come from the search cache when possible; when a stale page is served,
+  // onRevalidate receives the fresh one once the background fetch completes.
   static async searchProvidersByService(
     query: string,
     filters: SearchFilters,
     limit: number = 20,
-    offset: number = 0
+    offset: number = 0,
+    onRevalidate?: (result: SearchResult) => void
   ): Promise<SearchResult> {
     try {
-      console.log('🔍 Starting intelligent service search with:', { query, filters, limit, offset });
+      console.log('🔍 Starting service search with:', { query, filters, limit, offset });
 
-      // Get matching service categories using intelligent search
-      const matchingServices = SearchService.intelligentServiceMatch(query, filters.serviceType);
-      console.log('🎯 Matched services:', matchingServices);
-
-      // Generate relevant mock providers based on matched services
-      const mockProviders = SearchService.generateRelevantProviders(matchingServices, filters);
-
-      console.log('✅ Service search successful, returning intelligent matches');
+      const payload = await SearchCache.staleWhileRevalidate(
+        SearchCache.createKey(['service', query.trim().toLowerCase(), filters, limit, offset]),
+        'service',
+        () => SearchService.fetchServiceSearch(query, filters, limit, offset),
+        onRevalidate && (fresh => onRevalidate(SearchService.toSearchResult(fresh, filters, 'service')))
+      );
 
-      return {
-        providers: mockProviders,
-        totalCount: mockProviders.length,
-        filters,
-        searchType: 'service'
-      };
+      console.log(`✅ Service search returned ${payload.rows.length} providers`);
+      return SearchService.toSearchResult(payload, filters, 'service');
     } catch (error) {
-      console.error('Service search error:', error?.message || error);
+      console.error('Service search error:', error instanceof Error ? error.message : error);
       console.error('Full error details:', JSON.stringify(error, null, 2));
       throw error;
     }
   }
 
-  // Intelligent service matching with Chilean synonyms
-  private static intelligentServiceMatch(query: string, serviceType?: string): string[] {
+  private static async fetchServiceSearch(
+    query: string,
+    filters: SearchFilters,
+    limit: number,
+    offset: number
+  ): Promise<SearchPayload> {
+    const matchingServices = await SearchService.intelligentServiceMatch(query, filters.serviceType);
+    console.log('🎯 Matched services:', matchingServices);
+
+    if (matchingServices.length === 0) {
+      return { rows: [], facets: null };
+    }
+
+    return SearchService.fetchCachedSearch('service', {
+      p_service_ids: matchingServices.map(match => match.id),
+      p_match_weights: matchingServices.map(match => match.strength),
+      ...SearchService.buildFilterParams(filters),
+      p_urgency: filters.urgency || 'normal',
+      p_sort_by: filters.sortBy || 'relevance',
+      p_limit: limit,
+      p_offset: offset
+    });
+  }
+
+  // Free-text service matching through the Spanish query engine (accent folding,
+  // typo tolerance, stemming and weighted Chilean synonyms). Strength is the engine score (0..1).
+  static async intelligentServiceMatch(query: string, serviceType?: string): Promise<SearchMatch[]> {
     if (serviceType) {
-      return [serviceType]; // Direct category selection
+      return [{ id: serviceType, strength: 1 }]; // Direct category selection
     }
 
     if (!query || query.trim().length < 2) {
       return [];
     }
 
-    const lowerQuery = query.toLowerCase().trim();
-
-    // Comprehensive Chilean service synonym mapping
-    const serviceSynonyms: Record<string, string[]> = {
-      'electricista': [
-        'electricista', 'eléctrico', 'electricidad', 'luz', 'corriente', 'cable', 'enchufes',
-        'instalación eléctrica', 'tablero eléctrico', 'cortocircuito', 'electric'
-      ],
-      'gasfiter': [
-        'gasfiter', 'plomero', 'plomería', 'cañerías', 'agua', 'desagüe', 'baño', 'ducha',
-        'inodoro', 'lavamanos', 'tina', 'llave de agua', 'filtración', 'destape', 'plumber'
-      ],
-      'limpieza_hogar': [
-        'limpieza', 'limpiar', 'aseo', 'limpieza del hogar', 'limpieza doméstica', 'cleaning',
-        'clean', 'doméstica', 'asesora del hogar', 'nana', 'empleada doméstica'
-      ],
-      'jardineria': [
-        'jardinería', 'jardín', 'pasto', 'plantas', 'césped', 'paisajismo', 'poda',
-        'mantención jardín', 'riego', 'garden', 'jardinero'
-      ],
-      'pintor': [
-        'pintor', 'pintura', 'pintar', 'paint', 'paredes', 'muros', 'fachada',
-        'empapelado', 'barniz', 'esmalte', 'latex'
-      ],
-      'carpintero': [
-        'carpintero', 'carpintería', 'madera', 'muebles', 'wood', 'closet',
-        'puertas', 'ventanas', 'deck', 'pergola', 'carpenter'
-      ],
-      'cerrajero': [
-        'cerrajero', 'cerradura', 'llave', 'seguridad', 'lock', 'candado',
-        'chapas', 'llaves de auto', 'duplicado llave', 'locksmith'
-      ],
-      'tecnico_refrigeracion': [
-        'técnico refrigeración', 'refrigerador', 'nevera', 'aire acondicionado', 'frío',
-        'reparación electrodomésticos', 'lavadora', 'secadora', 'microondas'
-      ],
-      'construccion': [
-        'construcción', 'albañil', 'maestro', 'obra', 'cemento', 'ladrillos',
-        'remodelación', 'ampliación', 'constructor', 'building'
-      ],
-      'mecanico_auto': [
-        'mecánico auto', 'mecánico', 'auto', 'carro', 'vehículo', 'motor',
-        'frenos', 'revisión técnica', 'mantención auto', 'mechanic'
-      ]
-    };
-
-    const matchedServices: string[] = [];
-
-    // Check each service for query matches
-    Object.entries(serviceSynonyms).forEach(([serviceId, synonyms]) => {
-      const hasMatch = synonyms.some(synonym => {
-        const lowerSynonym = synonym.toLowerCase();
-        return lowerSynonym.includes(lowerQuery) || lowerQuery.includes(lowerSynonym);
-      });
-
-      if (hasMatch) {
-        matchedServices.push(serviceId);
-      }
-    });
-
-    return matchedServices;
+    const { services } = await SearchService.getSearchCatalog();
+    return matchServices(query, services).map(candidate => ({
+      id: candidate.item.id,
+      strength: candidate.score
+    }));
   }
 
-  // Generate providers based on matched services
-  private static generateRelevantProviders(matchingServices: string[], filters: SearchFilters): any[] {
-    const providers: any[] = [];
-
-    // Service-specific provider templates
-    const serviceProviders: Record<string, any> = {
-      'electricista': {
-        id: '1',
-        name: 'Juan Pérez',
-        businessName: 'Electricidad JP',
-        rating: 4.9,
-        reviewCount: 127,
-        services: ['electricista'],
-        serviceAreas: ['santiago'],
-        location: {
-          commune: 'santiago',
-          region: 'Metropolitana'
-        },
-        isVerified: true,
-        verificationStatus: 'approved' as const,
-        responseTime: '2 hours',
-        responseTimeHours: 2,
-        isAvailableToday: true,
-        pricing: {
-          hourlyRate: 25000
-        },
-        availability: {
-          nextAvailable: new Date(),
-          isAvailableToday: true,
-          workingHours: {
-            start: '08:00',
-            end: '18:00'
-          }
-        },
-        portfolio: {
-          photos: [],
-          completedProjects: 127
-        },
-        certifications: [],
-        languages: ['español'],
-        specialties: ['instalación eléctrica', 'reparaciones'],
-        distance: '0.8 km'
-      },
-      'limpieza_hogar': {
-        id: '2',
-        name: 'María González',
-        businessName: 'Limpieza Profesional MG',
-        rating: 4.8,
-        reviewCount: 89,
-        services: ['limpieza_hogar'],
-        serviceAreas: ['santiago'],
-        location: {
-          commune: 'santiago',
-          region: 'Metropolitana'
-        },
-        isVerified: true,
-        verificationStatus: 'approved' as const,
-        responseTime: '1 hour',
-        responseTimeHours: 1,
-        isAvailableToday: true,
-        pricing: {
-          hourlyRate: 15000
-        },
-        availability: {
-          nextAvailable: new Date(),
-          isAvailableToday: true,
-          workingHours: {
-            start: '08:00',
-            end: '17:00'
-          }
-        },
-        portfolio: {
-          photos: [],
-          completedProjects: 89
-        },
-        certifications: [],
-        languages: ['español'],
-        specialties: ['limpieza profunda', 'limpieza regular'],
-        distance: '1.2 km'
-      },
-      'gasfiter': {
-        id: '3',
-        name: 'Carlos Rodríguez',
-        businessName: 'Gasfitería CR',
-        rating: 4.7,
-        reviewCount: 156,
-        services: ['gasfiter'],
-        serviceAreas: ['santiago'],
-        location: {
-          commune: 'santiago',
-          region: 'Metropolitana'
-        },
-        isVerified: true,
-        verificationStatus: 'approved' as const,
-        responseTime: '3 hours',
-        responseTimeHours: 3,
-        isAvailableToday: true,
-        pricing: {
-          hourlyRate: 30000
-        },
-        availability: {
-          nextAvailable: new Date(),
-          isAvailableToday: true,
-          workingHours: {
-            start: '07:00',
-            end: '19:00'
-          }
-        },
-        portfolio: {
-          photos: [],
-          completedProjects: 156
-        },
-        certifications: [],
-        languages: ['español'],
-        specialties: ['reparación cañerías', 'instalación sanitarios'],
-        distance: '0.5 km'
-      },
-      'jardineria': {
-        id: '4',
-        name: 'Luis Fernández',
-        businessName: 'Jardines LF',
-        rating: 4.6,
-        reviewCount: 73,
-        services: ['jardineria'],
-        serviceAreas: ['santiago'],
-        location: {
-          commune: 'santiago',
-          region: 'Metropolitana'
-        },
-        isVerified: true,
-        verificationStatus: 'approved' as const,
-        responseTime: '4 hours',
-        responseTimeHours: 4,
-        isAvailableToday: false,
-        pricing: {
-          hourlyRate: 18000
-        },
-        availability: {
-          nextAvailable: new Date(Date.now() + 86400000),
-          isAvailableToday: false,
-          workingHours: {
-            start: '08:00',
-            end: '16:00'
-          }
-        },
-        portfolio: {
-          photos: [],
-          completedProjects: 73
-        },
-        certifications: [],
-        languages: ['español'],
-        specialties: ['poda', 'paisajismo'],
-        distance: '2.1 km'
-      },
-      'pintor': {
-        id: '5',
-        name: 'Ana Morales',
-        businessName: 'Pinturas AM',
-        rating: 4.9,
-        reviewCount: 112,
-        services: ['pintor'],
-        serviceAreas: ['santiago'],
-        location: {
-          commune: 'santiago',
-          region: 'Metropolitana'
-        },
-        isVerified: true,
-        verificationStatus: 'approved' as const,
-        responseTime: '2 hours',
-        responseTimeHours: 2,
-        isAvailableToday: true,
-        pricing: {
-          hourlyRate: 22000
-        },
-        availability: {
-          nextAvailable: new Date(),
-          isAvailableToday: true,
-          workingHours: {
-            start: '09:00',
-            end: '18:00'
-          }
-        },
-        portfolio: {
-          photos: [],
-          completedProjects: 112
-        },
-        certifications: [],
-        languages: ['español'],
-        specialties: ['pintura interior', 'pintura exterior'],
-        distance: '1.8 km'
-      }
-    };
-
-    // Add providers for each matched service
-    matchingServices.forEach(serviceId => {
-      if (serviceProviders[serviceId]) {
-        // Filter by location if specified
-        const provider = serviceProviders[serviceId];
-        if (filters.location) {
-          if (provider.location.commune.toLowerCase() === filters.location.commune?.toLowerCase() ||
-              provider.location.region.toLowerCase() === filters.location.region?.toLowerCase()) {
-            providers.push(provider);
-          }
-        } else {
-          providers.push(provider);
+  // Database catalog used for matching, loaded once per session. A fallback answer is
+  // used for this search only, so the next one asks the database again.
+  private static getSearchCatalog(): Promise<{ services: ServiceCategory[]; projects: ProjectType[] }> {
+    if (!SearchService.catalogPromise) {
+      const catalogPromise = Promise.all([
+        SearchService.getServiceCategories(),
+        SearchService.getProjectTypes()
+      ]).then(([services, projects]) => {
+        const isFallback = SearchService.fallbackLists.has(services) || SearchService.fallbackLists.has(projects);
+        if (isFallback && SearchService.catalogPromise === catalogPromise) {
+          SearchService.catalogPromise = null;
         }
-      }
-    });
-
-    // If no specific matches but query exists, return most relevant services
-    if (providers.length === 0 && matchingServices.length === 0) {
-      // Return popular services as fallback
-      providers.push(serviceProviders['electricista'], serviceProviders['limpieza_hogar']);
+        return { services, projects };
+      });
+      SearchService.catalogPromise = catalogPromise;
     }
-
-    return providers;
+    return SearchService.catalogPromise;
   }
 
-  // Project-based search using intelligent matching
+  // Project-based search ranked by the database using the same relevance blend,
+  // where match strength is the share of the project's services a provider covers.
   static async searchProvidersByProject(
     query: string,
     filters: SearchFilters,
     limit: number = 20,
-    offset: number = 0
+    offset: number = 0,
+    onRevalidate?: (result: SearchResult) => void
   ): Promise<SearchResult> {
     try {
-      console.log('🔍 Starting intelligent project search with:', { query, filters, limit, offset });
+      console.log('🔍 Starting project search with:', { query, filters, limit, offset });
+
+      const payload = await SearchCache.staleWhileRevalidate(
+        SearchCache.createKey(['project', query.trim().toLowerCase(), filters, limit, offset]),
+        'project',
+        () => SearchService.fetchProjectSearch(query, filters, limit, offset),
+        onRevalidate && (fresh => onRevalidate(SearchService.toSearchResult(fresh, filters, 'project')))
+      );
+
+      console.log(`✅ Project search returned ${payload.rows.length} providers`);
+      return SearchService.toSearchResult(payload, filters, 'project');
+    } catch (error) {
+      console.error('Project search error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  }
 
-      // Get matching project types using intelligent search
-      const matchingProjects = SearchService.intelligentProjectMatch(query, filters.projectType);
-      console.log('🎯 Matched projects:', matchingProjects);
+  private static async fetchProjectSearch(
+    query: string,
+    filters: SearchFilters,
+    limit: number,
+    offset: number
+  ): Promise<SearchPayload> {
+    const matchingProjects = await SearchService.intelligentProjectMatch(query, filters.projectType);
+    console.log('🎯 Matched projects:', matchingProjects);
+
+    const bestProject = matchingProjects[0];
+    if (!bestProject) {
+      return { rows: [], facets: null };
+    }
 
-      // Generate relevant mock providers based on matched projects
-      const mockProviders = SearchService.generateRelevantProjectProviders(matchingProjects, filters);
+    return SearchService.fetchCachedSearch('project', {
+      p_project_id: bestProject.id,
+      p_match_weight: bestProject.strength,
+      ...SearchService.buildFilterParams(filters),
+      p_sort_by: filters.sortBy || 'relevance',
+      p_limit: limit,
+      p_offset: offset
+    });
+  }
 
-      console.log('✅ Project search successful, returning intelligent matches');
+  // Server tier: search_providers_cached hashes the parameters and either serves the
+  // cached page (invalidated by provider changes) or runs the search and stores it
+  private static async fetchCachedSearch(
+    searchType: 'service' | 'project',
+    params: Record<string, unknown>
+  ): Promise<SearchPayload> {
+    const { data, error } = await supabase.rpc('search_providers_cached', {
+      p_search_type: searchType,
+      p_params: params as Json
+    });
 
-      return {
-        providers: mockProviders,
-        totalCount: mockProviders.length,
-        filters,
-        searchType: 'project'
-      };
-    } catch (error) {
-      console.error('Project search error:', error?.message || error);
+    if (error) {
+      console.error('Database error:', error);
       throw error;
     }
+
+    const response = data as unknown as CachedSearchResponse;
+    if (response.from_cache) {
+      SearchCache.trackHit('server', searchType, Date.now() - new Date(response.cached_at).getTime());
+    } else {
+      SearchCache.trackMiss('server', searchType);
+    }
+
+    const rows = response.rows || [];
+    // A page past the last result carries no total_count; ask for the first row instead
+    if (rows.length === 0 && Number(params.p_offset) > 0) {
+      const firstPage = await SearchService.fetchCachedSearch(searchType, { ...params, p_offset: 0, p_limit: 1 });
+      return { rows, facets: response.facets, totalCount: SearchService.getTotalCount(firstPage) };
+    }
+
+    return { rows, facets: response.facets };
   }
 
-  // Intelligent project matching with Chilean synonyms
-  private static intelligentProjectMatch(query: string, projectType?: string): string[] {
+  private static toSearchResult(
+    payload: SearchPayload,
+    filters: SearchFilters,
+    searchType: 'service' | 'project'
+  ): SearchResult {
+    return {
+      providers: payload.rows.map(row => SearchService.mapEnhancedProviderToServiceProvider(SearchService.mapSearchRow(row))),
+      totalCount: SearchService.getTotalCount(payload),
+      filters,
+      searchType,
+      facets: payload.facets ? SearchService.mapFacets(payload.facets) : undefined
+    };
+  }
+
+  // Free-text project matching through the Spanish query engine
+  private static async intelligentProjectMatch(query: string, projectType?: string): Promise<SearchMatch[]> {
     if (projectType) {
-      return [projectType]; // Direct category selection
+      return [{ id: projectType, strength: 1 }]; // Direct category selection
     }
 
     if (!query || query.trim().length < 2) {
       return [];
     }
 
-    const lowerQuery = query.toLowerCase().trim();
-
-    // Comprehensive Chilean project synonym mapping
-    const projectSynonyms: Record<string, string[]> = {
-      'reparar_bano': [
-        'reparar baño', 'baño', 'bathroom', 'ducha', 'tina', 'inodoro', 'lavamanos',
-        'reparación baño', 'arreglar baño', 'fix bathroom', 'filtración baño'
-      ],
-      'renovar_cocina': [
-        'renovar cocina', 'cocina', 'kitchen', 'muebles cocina', 'mesón', 'remodelación cocina',
-        'cambiar cocina', 'nueva cocina', 'kitchen renovation', 'remodel kitchen'
-      ],
-      'pintar_interior': [
-        'pintar', 'pintura', 'paint', 'paredes', 'color', 'pintar casa', 'pintar interior',
-        'painting', 'cambiar color', 'repintar'
-      ],
-      'pintar_exterior': [
-        'pintar exterior', 'fachada', 'pintar casa exterior', 'muros exteriores',
-        'exterior paint', 'pintar afuera'
-      ],
-      'limpieza_profunda': [
-        'limpieza profunda', 'limpiar', 'limpieza', 'aseo', 'cleaning', 'deep clean',
-        'limpieza general', 'limpieza completa'
-      ],
-      'instalacion_electrica': [
-        'instalación eléctrica', 'electricidad', 'luz', 'cable', 'enchufes', 'tablero eléctrico',
-        'electrical installation', 'wiring', 'instalar luz'
-      ],
-      'reparar_techo': [
-        'reparar techo', 'techo', 'roof', 'goteras', 'filtraciones', 'arreglar techo',
-        'roof repair', 'leak roof', 'tejado'
-      ],
-      'reparar_piso': [
-        'reparar piso', 'piso', 'suelo', 'floor', 'parquet', 'baldosas', 'cerámica',
-        'floor repair', 'cambiar piso'
-      ],
-      'instalar_ventanas': [
-        'instalar ventanas', 'ventanas', 'windows', 'cambiar ventanas', 'ventanas nuevas',
-        'window installation', 'reemplazar ventanas'
-      ],
-      'reparar_puertas': [
-        'reparar puertas', 'puertas', 'doors', 'cambiar puertas', 'arreglar puertas',
-        'door repair', 'instalar puertas'
-      ]
-    };
-
-    const matchedProjects: string[] = [];
-
-    // Check each project for query matches
-    Object.entries(projectSynonyms).forEach(([projectId, synonyms]) => {
-      const hasMatch = synonyms.some(synonym => {
-        const lowerSynonym = synonym.toLowerCase();
-        return lowerSynonym.includes(lowerQuery) || lowerQuery.includes(lowerSynonym);
-      });
+    const { projects } = await SearchService.getSearchCatalog();
+    return matchProjects(query, projects).map(candidate => ({
+      id: candidate.item.id,
+      strength: candidate.score
+    }));
+  }
 
-      if (hasMatch) {
-        matchedProjects.push(projectId);
-      }
-    });
+  // Translate SearchFilters into the RPC parameters shared by both search functions.
+  // When only a comuna/region was picked, distance is measured from its centroid.
+  private static buildFilterParams(filters: SearchFilters) {
+    const location = filters.location;
+    const coordinates = location?.coordinates
+      || (location ? LocationService.resolveCoordinates(location.commune, location.region) : null);
+    const [longitude, latitude] = coordinates || [];
 
-    return matchedProjects;
+    return {
+      p_commune: filters.location?.commune || null,
+      p_region: filters.location?.region || null,
+      p_min_price: filters.priceRange?.min ?? null,
+      p_max_price: filters.priceRange?.max ?? null,
+      p_min_rating: filters.rating ?? null,
+      p_verified_only: filters.verified === true,
+      p_available_today: filters.availability === 'today',
+      p_latitude: latitude ?? null,
+      p_longitude: longitude ?? null,
+      p_max_distance_km: coordinates ? filters.maxDistanceKm ?? null : null,
+      p_slot_date: filters.timeSlot?.date ?? null,
+      p_slot_start: filters.timeSlot?.start ?? null,
+      p_slot_end: filters.timeSlot?.end ?? null
+    };
   }
 
-  // Generate providers based on matched projects
-  private static generateRelevantProjectProviders(matchingProjects: string[], filters: SearchFilters): any[] {
-    const providers: any[] = [];
-
-    // Project-specific provider templates
-    const projectProviders: Record<string, any> = {
-      'reparar_bano': {
-        id: '10',
-        name: 'Carlos Rodríguez',
-        businessName: 'Gasfitería y Baños CR',
-        rating: 4.7,
-        reviewCount: 156,
-        services: ['gasfiter', 'remodelacion'],
-        serviceAreas: ['santiago'],
-        location: {
-          commune: 'santiago',
-          region: 'Metropolitana'
-        },
-        isVerified: true,
-        verificationStatus: 'approved' as const,
-        responseTime: '3 hours',
-        responseTimeHours: 3,
-        isAvailableToday: true,
-        pricing: {
-          hourlyRate: 30000,
-          fixedRate: 150000
-        },
-        availability: {
-          nextAvailable: new Date(),
-          isAvailableToday: true,
-          workingHours: {
-            start: '07:00',
-            end: '19:00'
-          }
-        },
-        portfolio: {
-          photos: [],
-          completedProjects: 156
-        },
-        certifications: [],
-        languages: ['español'],
-        specialties: ['reparación baños', 'instalación sanitarios'],
-        distance: '0.5 km'
-      },
-      'renovar_cocina': {
-        id: '11',
-        name: 'María González',
-        businessName: 'Construcción y Remodelaciones MG',
-        rating: 4.8,
-        reviewCount: 89,
-        services: ['construccion', 'remodelacion'],
-        serviceAreas: ['santiago'],
-        location: {
-          commune: 'santiago',
-          region: 'Metropolitana'
-        },
-        isVerified: true,
-        verificationStatus: 'approved' as const,
-        responseTime: '4 hours',
-        responseTimeHours: 4,
-        isAvailableToday: false,
-        pricing: {
-          hourlyRate: 35000,
-          fixedRate: 800000
-        },
-        availability: {
-          nextAvailable: new Date(Date.now() + 86400000),
-          isAvailableToday: false,
-          workingHours: {
-            start: '08:00',
-            end: '17:00'
-          }
-        },
-        portfolio: {
-          photos: [],
-          completedProjects: 89
-        },
-        certifications: [],
-        languages: ['español'],
-        specialties: ['remodelación cocinas', 'diseño interior'],
-        distance: '1.2 km'
-      },
-      'pintar_interior': {
-        id: '12',
-        name: 'Ana Morales',
-        businessName: 'Pinturas Profesionales AM',
-        rating: 4.9,
-        reviewCount: 112,
-        services: ['pintor'],
-        serviceAreas: ['santiago'],
-        location: {
-          commune: 'santiago',
-          region: 'Metropolitana'
-        },
-        isVerified: true,
-        verificationStatus: 'approved' as const,
-        responseTime: '2 hours',
-        responseTimeHours: 2,
-        isAvailableToday: true,
-        pricing: {
-          hourlyRate: 22000,
-          fixedRate: 120000
-        },
-        availability: {
-          nextAvailable: new Date(),
-          isAvailableToday: true,
-          workingHours: {
-            start: '09:00',
-            end: '18:00'
-          }
-        },
-        portfolio: {
-          photos: [],
-          completedProjects: 112
-        },
-        certifications: [],
-        languages: ['español'],
-        specialties: ['pintura interior', 'decoración'],
-        distance: '1.8 km'
-      },
-      'limpieza_profunda': {
-        id: '13',
-        name: 'Patricia Silva',
-        businessName: 'Limpieza Profunda PS',
-        rating: 4.8,
-        reviewCount: 94,
-        services: ['limpieza_hogar'],
-        serviceAreas: ['santiago'],
-        location: {
-          commune: 'santiago',
-          region: 'Metropolitana'
-        },
-        isVerified: true,
-        verificationStatus: 'approved' as const,
-        responseTime: '1 hour',
-        responseTimeHours: 1,
-        isAvailableToday: true,
-        pricing: {
-          hourlyRate: 18000,
-          fixedRate: 80000
-        },
-        availability: {
-          nextAvailable: new Date(),
-          isAvailableToday: true,
-          workingHours: {
-            start: '08:00',
-            end: '17:00'
-          }
-        },
-        portfolio: {
-          photos: [],
-          completedProjects: 94
-        },
-        certifications: [],
-        languages: ['español'],
-        specialties: ['limpieza profunda', 'sanitización'],
-        distance: '0.9 km'
-      }
-    };
+  private static mapFacets(row: FacetsRow): SearchFacets {
+    const formatPrice = (value: number) => `$${value.toLocaleString('es-CL')}`;
 
-    // Add providers for each matched project
-    matchingProjects.forEach(projectId => {
-      if (projectProviders[projectId]) {
-        // Filter by location if specified
-        const provider = projectProviders[projectId];
-        if (filters.location) {
-          if (provider.location.commune.toLowerCase() === filters.location.commune?.toLowerCase() ||
-              provider.location.region.toLowerCase() === filters.location.region?.toLowerCase()) {
-            providers.push(provider);
-          }
-        } else {
-          providers.push(provider);
-        }
-      }
-    });
+    return {
+      total: Number(row.total || 0),
+      priceRanges: (row.price_ranges || []).map(bucket => ({
+        key: bucket.key,
+        label: bucket.max == null
+          ? `Más de ${formatPrice(bucket.min)}`
+          : bucket.min === 0
+            ? `Hasta ${formatPrice(bucket.max)}`
+            : `${formatPrice(bucket.min)} - ${formatPrice(bucket.max)}`,
+        count: Number(bucket.count),
+        min: bucket.min,
+        max: bucket.max ?? undefined
+      })),
+      ratings: (row.ratings || []).map(rating => ({
+        key: `rating_${rating.min_rating}`,
+        label: `${Number(rating.min_rating).toFixed(1).replace('.', ',')}+ ⭐`,
+        count: Number(rating.count),
+        minRating: Number(rating.min_rating)
+      })),
+      verified: Number(row.verified || 0),
+      availableToday: Number(row.available_today || 0),
+      communes: (row.communes || []).map(commune => ({
+        key: commune.name,
+        label: commune.name,
+        count: Number(commune.count)
+      }))
+    };
+  }
 
-    // If no specific matches but query exists, return most relevant projects
-    if (providers.length === 0 && matchingProjects.length === 0) {
-      // Return popular projects as fallback
-      providers.push(projectProviders['reparar_bano'], projectProviders['limpieza_profunda']);
-    }
+  // total_count is repeated on every row (window count); an empty first page means no matches
+  private static getTotalCount(payload: SearchPayload): number {
+    if (payload.totalCount !== undefined) return payload.totalCount;
+    return payload.rows.length > 0 ? Number(payload.rows[0].total_count) : 0;
+  }
 
-    return providers;
+  // Map a database search row to the enhanced provider shape
+  private static mapSearchRow(row: ProviderSearchRow): EnhancedServiceProvider {
+    return {
+      providerId: row.provider_id,
+      userName: row.user_name,
+      businessName: row.business_name || undefined,
+      avatarUrl: row.avatar_url || undefined,
+      rating: Number(row.rating || 0),
+      totalReviews: row.total_reviews || 0,
+      verificationStatus: row.verification_status,
+      hourlyRateClp: row.hourly_rate_clp ?? undefined,
+      fixedRateClp: row.fixed_rate_clp ?? row.base_price_clp ?? undefined,
+      responseTimeHours: row.response_time_hours ?? undefined,
+      isAvailableToday: row.is_available_today,
+      serviceAreas: row.service_areas || [],
+      coordinates: row.latitude != null && row.longitude != null
+        ? { latitude: row.latitude, longitude: row.longitude }
+        : undefined,
+      distance: row.distance_km ?? undefined,
+      drivingDistance: row.driving_distance_km ?? undefined,
+      portfolioPhotos: [],
+      specialties: row.specialties || [],
+      languages: row.languages || [],
+      completedProjects: row.total_jobs_completed || 0,
+      relevanceScore: row.relevance_score ?? undefined,
+      nextAvailableSlot: row.next_free_slot ? new Date(row.next_free_slot) : null
+    };
   }
 
-  // Quick search for autocomplete
+  // Quick search for autocomplete, ranked by the Spanish query engine
   static async quickSearch(query: string, type: 'service' | 'project' = 'service') {
     try {
       console.log('🔍 Quick search:', { query, type });
 
-      // Return mock suggestions based on type
-      const mockSuggestions = type === 'service'
-        ? ['Electricista', 'Plomero', 'Limpieza', 'Jardinería']
-        : ['Reparar Baño', 'Renovar Cocina', 'Pintar Paredes', 'Limpieza Profunda'];
+      const { services, projects } = await SearchService.getSearchCatalog();
+      const candidates = type === 'service'
+        ? matchServices(query, services)
+        : matchProjects(query, projects);
 
-      const filtered = mockSuggestions.filter(item =>
-        item.toLowerCase().includes(query.toLowerCase())
-      );
+      const results = candidates.map(candidate => ({
+        id: candidate.item.id,
+        name: candidate.item.name,
+        score: candidate.score
+      }));
 
-      console.log('✅ Quick search results:', filtered);
-      return filtered.map((item, index) => ({ id: index + 1, name: item }));
+      console.log('✅ Quick search results:', results);
+      return results;
     } catch (error) {
-      console.error('Quick search error:', error?.message || error);
+      console.error('Quick search error:', error instanceof Error ? error.message : error);
       return [];
     }
   }
@@ -664,10 +410,10 @@ export class SearchService {
         avgPriceMax: service.avg_price_max || 70000,
         urgencyLevels: service.urgency_levels || ['normal'],
         color: service.color || '#6b7280',
-        isActive: service.is_active,
+        isActive: service.is_active ?? true,
         sortOrder: service.sort_order || 0,
-        createdAt: new Date(service.created_at),
-        updatedAt: new Date(service.updated_at)
+        createdAt: service.created_at ? new Date(service.created_at) : new Date(),
+        updatedAt: service.updated_at ? new Date(service.updated_at) : new Date()
       }));
 
       return categories;
@@ -675,7 +421,7 @@ export class SearchService {
       console.error('Error fetching service categories:', error?.message || error);
 
       // Return fallback Chilean services if database fails
-      return [
+      const fallback: ServiceCategory[] = [
         {
           id: 'electricista',
           name: 'Electricista',
@@ -719,76 +465,8 @@ export class SearchService {
           updatedAt: new Date()
         }
       ];
-    }
-  }
-
-  // Helper functions to map existing data to our format
-  private static getServiceIcon(serviceName: string): string {
-    const iconMap: Record<string, string> = {
-      'Electricista': '⚡',
-      'Gasfitero': '🚿',
-      'Técnico en Refrigeración': '📱',
-      'Cerrajero': '🔐',
-      'Jardinero': '🌱',
-      'Limpieza del Hogar': '🧽',
-      'Pintor': '🎨',
-      'Carpintero': '🔨'
-    };
-    return iconMap[serviceName] || '🔧';
-  }
-
-  private static getServiceColor(category: string): string {
-    const colorMap: Record<string, string> = {
-      'Electricidad': '#f59e0b',
-      'Plomería': '#3b82f6',
-      'Electrodomésticos': '#2563eb',
-      'Seguridad': '#4b5563',
-      'Jardín': '#059669',
-      'Limpieza': '#10b981',
-      'Pintura': '#8b5cf6',
-      'Carpintería': '#6b7280'
-    };
-    return colorMap[category] || '#6b7280';
-  }
-
-  private static getDefaultPriceMin(serviceName: string): number {
-    const priceMap: Record<string, number> = {
-      'Electricista': 25000,
-      'Gasfitero': 30000,
-      'Técnico en Refrigeración': 20000,
-      'Cerrajero': 15000,
-      'Jardinero': 18000,
-      'Limpieza del Hogar': 15000,
-      'Pintor': 200,
-      'Carpintero': 25000
-    };
-    return priceMap[serviceName] || 20000;
-  }
-
-  private static getDefaultPriceMax(serviceName: string): number {
-    const priceMap: Record<string, number> = {
-      'Electricista': 80000,
-      'Gasfitero': 90000,
-      'Técnico en Refrigeración': 75000,
-      'Cerrajero': 60000,
-      'Jardinero': 60000,
-      'Limpieza del Hogar': 50000,
-      'Pintor': 800,
-      'Carpintero': 100000
-    };
-    return priceMap[serviceName] || 70000;
-  }
-
-  private static getDefaultUrgencyLevels(serviceName: string): Array<'normal' | 'urgente' | 'emergencia'> {
-    const emergencyServices = ['Electricista', 'Gasfitero', 'Cerrajero'];
-    const urgentServices = ['Técnico en Refrigeración', 'Limpieza del Hogar'];
-
-    if (emergencyServices.includes(serviceName)) {
-      return ['normal', 'urgente', 'emergencia'];
-    } else if (urgentServices.includes(serviceName)) {
-      return ['normal', 'urgente'];
-    } else {
-      return ['normal'];
+      SearchService.fallbackLists.add(fallback);
+      return fallback;
     }
   }
 
@@ -815,16 +493,16 @@ export class SearchService {
         id: project.id,
         name: project.name,
         description: project.description || '',
-        estimated_duration: project.estimated_duration || '1 día',
-        avg_price_min: project.avg_price_min || 20000,
-        avg_price_max: project.avg_price_max || 70000,
+        estimatedDuration: project.estimated_duration || '1 día',
+        avgPriceMin: project.avg_price_min || 20000,
+        avgPriceMax: project.avg_price_max || 70000,
         complexity: project.complexity || 'medium',
         icon: project.icon || '🏠',
         category: project.category || 'interior',
-        is_active: project.is_active,
-        sort_order: project.sort_order || 0,
-        created_at: project.created_at,
-        updated_at: project.updated_at
+        isActive: project.is_active ?? true,
+        sortOrder: project.sort_order || 0,
+        createdAt: project.created_at ? new Date(project.created_at) : new Date(),
+        updatedAt: project.updated_at ? new Date(project.updated_at) : new Date()
       }));
 
       return projectTypes;
@@ -832,83 +510,89 @@ export class SearchService {
       console.error('Error fetching project types:', error?.message || error);
 
       // Return fallback Chilean projects if database fails
-      return [
+      const fallback: ProjectType[] = [
         {
           id: 'reparar_bano',
           name: 'Reparar Baño',
           description: 'Reparación de problemas en el baño',
-          estimated_duration: '1-3 días',
-          avg_price_min: 40000,
-          avg_price_max: 150000,
+          estimatedDuration: '1-3 días',
+          avgPriceMin: 40000,
+          avgPriceMax: 150000,
           complexity: 'medium' as const,
           icon: '🚿',
           category: 'interior' as const,
-          is_active: true,
-          sort_order: 1,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
+          isActive: true,
+          sortOrder: 1,
+          createdAt: new Date(),
+          updatedAt: new Date()
         },
         {
           id: 'renovar_cocina',
           name: 'Renovar Cocina',
           description: 'Renovación completa de cocina',
-          estimated_duration: '1-3 semanas',
-          avg_price_min: 1200000,
-          avg_price_max: 5000000,
+          estimatedDuration: '1-3 semanas',
+          avgPriceMin: 1200000,
+          avgPriceMax: 5000000,
           complexity: 'complex' as const,
           icon: '🍳',
           category: 'interior' as const,
-          is_active: true,
-          sort_order: 2,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
+          isActive: true,
+          sortOrder: 2,
+          createdAt: new Date(),
+          updatedAt: new Date()
         },
         {
           id: 'pintar_interior',
           name: 'Pintar Interior',
           description: 'Pintura de paredes interiores',
-          estimated_duration: '2-5 días',
-          avg_price_min: 150000,
-          avg_price_max: 600000,
+          estimatedDuration: '2-5 días',
+          avgPriceMin: 150000,
+          avgPriceMax: 600000,
           complexity: 'simple' as const,
           icon: '🎨',
           category: 'interior' as const,
-          is_active: true,
-          sort_order: 3,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
+          isActive: true,
+          sortOrder: 3,
+          createdAt: new Date(),
+          updatedAt: new Date()
         }
       ];
+      SearchService.fallbackLists.add(fallback);
+      return fallback;
     }
   }
 
-  // Get popular services in a location
-  static async getPopularServices(commune?: string, region?: string) {
+  // Popular services by real demand over the last 90 days: the comuna's ranking when it
+  // has enough volume, else the region's, else national (see get_popular_services)
+  static async getPopularServices(commune?: string, region?: string): Promise<PopularService[]> {
     try {
       console.log('🔍 Getting popular services for:', { commune, region });
 
-      // Return mock popular services
-      const mockPopularServices = [
-        { id: 'electricista', name: 'Electricista', count: 45 },
-        { id: 'plomero', name: 'Plomero', count: 38 },
-        { id: 'limpieza', name: 'Limpieza', count: 32 },
-        { id: 'jardineria', name: 'Jardinería', count: 28 },
-        { id: 'pintura', name: 'Pintura', count: 25 },
-        { id: 'carpintero', name: 'Carpintero', count: 22 },
-        { id: 'tecnico', name: 'Técnico', count: 18 },
-        { id: 'construccion', name: 'Construcción', count: 15 }
-      ];
+      const { data, error } = await supabase.rpc('get_popular_services', {
+        p_commune: commune || undefined,
+        p_region: region || undefined
+      });
+
+      if (error) throw error;
+
+      const popularServices: PopularService[] = (data || []).map((row: FunctionReturns<'get_popular_services'>[number]) => ({
+        id: row.service_id,
+        name: row.service_name,
+        icon: row.icon || undefined,
+        count: Number(row.demand_count),
+        scope: row.scope as PopularService['scope']
+      }));
 
-      console.log('✅ Popular services fetched successfully');
-      return mockPopularServices;
+      console.log(`✅ Popular services fetched (${popularServices[0]?.scope ?? 'none'} ranking)`);
+      return popularServices;
     } catch (error) {
-      console.error('Error fetching popular services:', error?.message || error);
+      console.error('Error fetching popular services:', error instanceof Error ? error.message : error);
       return [];
     }
   }
 
   // Helper function to map enhanced provider to standard format
-  private static mapEnhancedProviderToServiceProvider(provider: EnhancedServiceProvider) {
+  private static mapEnhancedProviderToServiceProvider(provider: EnhancedServiceProvider): ServiceProvider {
     return {
       id: provider.providerId,
       name: provider.userName,
@@ -932,7 +616,7 @@ export class SearchService {
         fixedRate: provider.fixedRateClp
       },
       availability: {
-        nextAvailable: new Date(), // Would need actual data
+        nextAvailable: provider.nextAvailableSlot,
         isAvailableToday: provider.isAvailableToday,
         workingHours: {
           start: '08:00',
@@ -947,7 +631,9 @@ export class SearchService {
       languages: provider.languages,
       specialties: provider.specialties,
       coordinates: provider.coordinates,
-      distance: provider.distance
+      distance: provider.distance,
+      drivingDistance: provider.drivingDistance,
+      relevanceScore: provider.relevanceScore
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,182 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { ImagePickerAsset } from 'expo-image-picker';
+import { supabase } from './supabase';
+import { EnterpriseStorageService, initializeStorageService } from './storageService';
+import {
+  CustomerAddress,
+  ServiceRequestDraft,
+  ServiceRequestPhoto,
+  ServiceRequestRow,
+  ServiceRequestSelection,
+} from '../types/serviceRequest';
+import { describeServiceRequestError, validateServiceRequest } from '../utils/serviceRequestValidation';
+
+// One draft per customer on the device; it survives app restarts until the request is
+// published or discarded. Photos are uploaded as they are picked, so the draft only
+// keeps their object paths.
+const DRAFT_PREFIX = 'manito.serviceRequestDraft.';
+const PHOTO_PREVIEW_SECONDS = 60 * 60;
+
+export class ServiceRequestService {
+  static createDraft(): ServiceRequestDraft {
+    return {
+      step: 'service',
+      title: '',
+      description: '',
+      isUrgent: false,
+      requiresMaterials: false,
+      photos: [],
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  static async loadDraft(customerId: string): Promise<ServiceRequestDraft | null> {
+    try {
+      const stored = await AsyncStorage.getItem(DRAFT_PREFIX + customerId);
+      if (!stored) return null;
+
+      const draft = JSON.parse(stored) as ServiceRequestDraft;
+
+      // Local picker URIs may be gone after a restart; preview from storage instead
+      const storage = ServiceRequestService.storage();
+      const photos = await Promise.all(draft.photos.map(async photo => ({
+        path: photo.path,
+        previewUri: (await storage.getSignedUrl('job-photos', photo.path, PHOTO_PREVIEW_SECONDS)) ?? photo.previewUri,
+      })));
+
+      return { ...draft, photos };
+    } catch (error) {
+      console.error('❌ Failed to load service request draft:', error);
+      return null;
+    }
+  }
+
+  static async saveDraft(customerId: string, draft: ServiceRequestDraft): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        DRAFT_PREFIX + customerId,
+        JSON.stringify({ ...draft, updatedAt: new Date().toISOString() })
+      );
+    } catch (error) {
+      console.error('❌ Failed to save service request draft:', error);
+    }
+  }
+
+  // Discarding also removes photos that were uploaded for the draft
+  static async discardDraft(customerId: string, draft: ServiceRequestDraft): Promise<void> {
+    if (draft.photos.length > 0) {
+      await ServiceRequestService.storage().deleteFiles({
+        bucket: 'job-photos',
+        paths: draft.photos.map(photo => photo.path),
+      });
+    }
+    await AsyncStorage.removeItem(DRAFT_PREFIX + customerId);
+  }
+
+  // Saved addresses of the customer, default first
+  static async getCustomerAddresses(customerId: string): Promise<CustomerAddress[]> {
+    const { data, error } = await supabase
+      .from('addresses')
+      .select('*')
+      .eq('user_id', customerId)
+      .order('is_default', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('❌ Failed to load addresses:', error);
+      throw new Error('No pudimos cargar tus direcciones. Inténtalo nuevamente.');
+    }
+
+    return data || [];
+  }
+
+  // Budget pre-filled from the catalog's typical price range
+  static suggestedBudget(selection: ServiceRequestSelection): Pick<ServiceRequestDraft, 'budgetMin' | 'budgetMax'> {
+    return {
+      budgetMin: selection.avgPriceMin || undefined,
+      budgetMax: selection.avgPriceMax || undefined,
+    };
+  }
+
+  static async uploadPhoto(customerId: string, asset: ImagePickerAsset): Promise<ServiceRequestPhoto> {
+    const mimeType = asset.mimeType || 'image/jpeg';
+    const fileName = asset.fileName || `foto_${Date.now()}.${mimeType.split('/')[1] || 'jpg'}`;
+    const blob = await (await fetch(asset.uri)).blob();
+    const file = new File([blob], fileName, { type: mimeType });
+
+    const response = await ServiceRequestService.storage().uploadJobPhoto(customerId, file);
+    if (!response.success || !response.data) {
+      console.error('❌ Job photo upload failed:', response.error);
+      throw new Error(describeServiceRequestError({ message: response.error }));
+    }
+
+    console.log('📸 Job photo uploaded:', response.data.path);
+    return { path: response.data.path, previewUri: asset.uri };
+  }
+
+  static async removePhoto(path: string): Promise<void> {
+    const response = await ServiceRequestService.storage().deleteFiles({ bucket: 'job-photos', paths: [path] });
+    if (!response.success) {
+      console.error('❌ Failed to remove job photo:', response.error);
+    }
+  }
+
+  // Publishes the draft as an open service request and clears the draft
+  static async submit(customerId: string, draft: ServiceRequestDraft): Promise<ServiceRequestRow> {
+    const { firstInvalidStep } = validateServiceRequest(draft);
+    if (firstInvalidStep || !draft.selection || !draft.addressId) {
+      throw new Error('Revisa los datos de la solicitud antes de publicarla');
+    }
+
+    const { data: serviceId, error: serviceError } = await supabase.rpc(
+      'request_service_id',
+      draft.selection.kind === 'project'
+        ? { p_project_type_id: draft.selection.id }
+        : { p_category_id: draft.selection.id }
+    );
+
+    if (serviceError || !serviceId) {
+      console.error('❌ Failed to resolve request service:', serviceError);
+      throw new Error(serviceError ? describeServiceRequestError(serviceError) : 'El servicio elegido ya no está disponible. Elige otro.');
+    }
+
+    const { data, error } = await supabase
+      .from('service_requests')
+      .insert({
+        customer_id: customerId,
+        service_id: serviceId,
+        project_type_id: draft.selection.kind === 'project' ? draft.selection.id : null,
+        title: draft.title.trim(),
+        description: draft.description.trim(),
+        address_id: draft.addressId,
+        preferred_date: draft.preferredDate ?? null,
+        preferred_time_start: draft.timeStart ?? null,
+        preferred_time_end: draft.timeEnd ?? null,
+        budget_min_clp: draft.budgetMin ?? null,
+        budget_max_clp: draft.budgetMax ?? null,
+        is_urgent: draft.isUrgent,
+        requires_materials: draft.requiresMaterials,
+        photos: draft.photos.map(photo => photo.path),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('❌ Failed to create service request:', error);
+      throw new Error(describeServiceRequestError(error));
+    }
+
+    await AsyncStorage.removeItem(DRAFT_PREFIX + customerId);
+    console.log('✅ Service request published:', data.id);
+    return data;
+  }
+
+  // Uploads go through the app client so the job-photos policies see the customer's session
+  private static storage(): EnterpriseStorageService {
+    return initializeStorageService(
+      process.env.EXPO_PUBLIC_SUPABASE_URL!,
+      process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY!,
+      supabase
+    );
+  }
+}
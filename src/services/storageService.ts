@@ -70,8 +70,10 @@ export class EnterpriseStorageService {
   private supabase: SupabaseClient;
   private eventEmitter: StorageEventEmitter;
 
-  constructor(supabaseUrl: string, supabaseKey: string) {
-    this.supabase = createClient(supabaseUrl, supabaseKey);
+  // Pass the app's client to upload with the signed-in user's session (needed for
+  // private buckets whose policies are scoped to auth.uid())
+  constructor(supabaseUrl: string, supabaseKey: string, client?: SupabaseClient<any, any, any>) {
+    this.supabase = (client as SupabaseClient | undefined) ?? createClient(supabaseUrl, supabaseKey);
     this.eventEmitter = new StorageEventEmitter();
   }
 
@@ -605,6 +607,33 @@ export class EnterpriseStorageService {
     };
   }
 
+  // =============================================================================
+  // JOB PHOTOS
+  // =============================================================================
+
+  // Photos attached to a service request; stored under the customer's folder so the
+  // job-photos bucket policies can scope them to their owner
+  async uploadJobPhoto(customerId: string, file: File, onProgress?: (progress: number) => void): Promise<UploadResponse> {
+    return this.uploadFile({
+      file,
+      bucket: 'job-photos',
+      folder: customerId,
+      imageType: 'jobPhoto',
+      onProgress
+    });
+  }
+
+  // Photos a provider takes on site; under the provider's folder, grouped by booking,
+  // until add_job_photo attaches them to the booking
+  async uploadBookingPhoto(providerId: string, bookingId: string, file: File): Promise<UploadResponse> {
+    return this.uploadFile({
+      file,
+      bucket: 'job-photos',
+      folder: `${providerId}/${bookingId}`,
+      imageType: 'jobPhoto',
+    });
+  }
+
   // =============================================================================
   // URL GENERATION
   // =============================================================================
@@ -641,9 +670,13 @@ export class EnterpriseStorageService {
 
 let storageServiceInstance: EnterpriseStorageService | null = null;
 
-export const initializeStorageService = (supabaseUrl: string, supabaseKey: string): EnterpriseStorageService => {
+export const initializeStorageService = (
+  supabaseUrl: string,
+  supabaseKey: string,
+  client?: SupabaseClient<any, any, any>
+): EnterpriseStorageService => {
   if (!storageServiceInstance) {
-    storageServiceInstance = new EnterpriseStorageService(supabaseUrl, supabaseKey);
+    storageServiceInstance = new EnterpriseStorageService(supabaseUrl, supabaseKey, client);
   }
   return storageServiceInstance;
 };
@@ -2,6 +2,7 @@ import { createClient, SupabaseClient, processLock } from '@supabase/supabase-js
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Linking from 'expo-linking';
 import { AppState, Platform } from 'react-native';
+import { Database } from '../types/database';
 
 // Environment validation with detailed error messages
 const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
@@ -77,7 +78,7 @@ export const createSessionFromUrl = async (url: string) => {
 };
 
 // Create typed Supabase client with modern 2025 configuration
-export const supabase: SupabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
+export const supabase: SupabaseClient<Database> = createClient<Database>(supabaseUrl, supabaseAnonKey, {
   auth: {
     // Platform-specific storage configuration
     ...(Platform.OS !== "web" ? { storage: AsyncStorage } : {}),
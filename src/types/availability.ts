@@ -0,0 +1,44 @@
+// Provider availability: weekly hours, time off, buffer between jobs and a daily cap
+
+import { Tables } from './database';
+
+export type AvailabilityExceptionRow = Tables<'provider_availability_exceptions'>;
+export type AvailabilityExceptionKind = AvailabilityExceptionRow['kind'];
+
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+// Local time 'HH:MM'
+export interface TimeWindow {
+  start: string;
+  end: string;
+}
+
+// An empty list is a day off
+export type WeeklyHours = Record<Weekday, TimeWindow[]>;
+
+export interface AvailabilityException {
+  id: string;
+  kind: AvailabilityExceptionKind;
+  startsOn: string; // 'YYYY-MM-DD'
+  endsOn: string;
+  window: TimeWindow | null; // null = whole day
+  note: string | null;
+}
+
+export type AvailabilityExceptionInput = Omit<AvailabilityException, 'id'>;
+
+export interface ProviderAvailability {
+  weeklyHours: WeeklyHours;
+  bufferMinutes: number;
+  maxJobsPerDay: number | null; // null = no cap
+  worksOnHolidays: boolean;
+  exceptions: AvailabilityException[];
+}
+
+export type ProviderAvailabilitySettings = Omit<ProviderAvailability, 'exceptions'>;
+
+export interface AvailableSlot {
+  date: string; // 'YYYY-MM-DD'
+  start: string; // 'HH:MM'
+  end: string;
+}
@@ -0,0 +1,85 @@
+// Booking lifecycle: statuses, who acts on a booking and what they may do with it
+
+import { Enums, Tables } from './database';
+
+export type BookingRow = Tables<'bookings'>;
+
+export type BookingStatus = Enums<'booking_status'>;
+
+export type BookingRole = 'customer' | 'provider';
+
+// Commands bookingService runs; each maps to a database function
+export type BookingCommand = 'confirm' | 'start' | 'complete' | 'cancel' | 'no_show' | 'reschedule';
+
+// Derived from status, schedule and role by getBookingPermissions; never stored
+export interface BookingPermissions {
+  canConfirm: boolean;
+  canStart: boolean;
+  canComplete: boolean;
+  canCancel: boolean;
+  canMarkNoShow: boolean;
+  canReschedule: boolean;
+  canRate: boolean;
+  canRebook: boolean;
+}
+
+export interface BookingRescheduleInput {
+  date: string; // 'YYYY-MM-DD'
+  timeStart: string; // 'HH:MM'
+  timeEnd: string;
+}
+
+// A booking as the customer's job history shows it (JobHistoryList)
+export interface JobBooking {
+  id: string;
+  serviceType: string; // 'plumber', 'electrician', 'cleaner', etc.
+  serviceCategory: string; // 'Plomería', 'Electricidad', 'Limpieza'
+  title: string; // Service title/description
+  description?: string; // Detailed description
+
+  // Provider information
+  providerId: string;
+  providerName: string;
+  providerAvatar?: string;
+  providerRating: number;
+  providerCompletedJobs: number;
+
+  // Booking details
+  scheduledDate: string; // ISO date string
+  scheduledTime: string; // Time slot like "09:00-11:00"
+  duration: number; // Minutes
+  price: number; // CLP
+  currency: 'CLP';
+
+  // Status tracking
+  status: BookingStatus;
+  paymentStatus: 'pending' | 'paid' | 'refunded';
+
+  // Recurrence
+  recurrenceId?: string; // set on visits of an accepted recurrence
+  supportsRecurrence?: boolean; // the service category can repeat on a schedule
+
+  // Address information
+  address: {
+    label: string; // "Casa", "Trabajo"
+    fullAddress: string;
+    comuna: string;
+    specialInstructions?: string;
+  };
+
+  // Customer feedback
+  customerRating?: number; // 1-5 stars
+  customerReview?: string;
+  customerPhotos?: string[]; // Photos taken by customer
+  reviewDate?: string;
+
+  // Provider feedback
+  providerNotes?: string;
+  providerPhotos?: string[]; // Before/after photos
+
+  // Timestamps
+  createdAt: string; // ISO date
+  updatedAt: string; // ISO date
+  completedAt?: string; // ISO date
+  cancelledAt?: string; // ISO date
+}
@@ -0,0 +1,46 @@
+// Recurring bookings: a rule repeating an agreed booking and what happened on each of its dates
+
+import { Tables } from './database';
+
+export type BookingRecurrenceRow = Tables<'booking_recurrences'>;
+export type BookingOccurrenceRow = Tables<'booking_occurrences'>;
+
+export type RecurrenceFrequency = BookingRecurrenceRow['frequency'];
+export type RecurrenceStatus = BookingRecurrenceRow['status'];
+export type RecurrenceHolidayPolicy = BookingRecurrenceRow['holiday_policy'];
+export type OccurrenceStatus = BookingOccurrenceRow['status'];
+
+// ISO weekday: 1 = Monday ... 7 = Sunday
+export type IsoWeekday = 1 | 2 | 3 | 4 | 5 | 6 | 7;
+
+export interface BookingOccurrence {
+  occurrenceDate: string; // rule date 'YYYY-MM-DD'
+  scheduledDate: string | null; // differs when a holiday moved the visit; null when there is no visit
+  bookingId: string | null;
+  status: OccurrenceStatus;
+  holidayName: string | null;
+}
+
+export interface BookingRecurrence {
+  id: string;
+  originBookingId: string;
+  customerId: string;
+  providerId: string;
+  frequency: RecurrenceFrequency;
+  weekdays: IsoWeekday[]; // 'custom' only
+  timeStart: string; // 'HH:MM'
+  timeEnd: string;
+  startsOn: string;
+  endsOn: string | null;
+  holidayPolicy: RecurrenceHolidayPolicy;
+  status: RecurrenceStatus;
+  pausedUntil: string | null;
+  occurrences: BookingOccurrence[];
+}
+
+export interface RecurrenceProposal {
+  frequency: RecurrenceFrequency;
+  weekdays?: IsoWeekday[];
+  endsOn?: string | null;
+  holidayPolicy?: RecurrenceHolidayPolicy;
+}
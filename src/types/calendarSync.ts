@@ -0,0 +1,26 @@
+// Calendar sync: the user's iCalendar feed and the external calendars a provider imports
+
+import { Tables } from './database';
+
+export type ExternalCalendarRow = Tables<'external_calendars'>;
+
+export interface CalendarFeed {
+  httpsUrl: string; // to paste into Google Calendar "From URL" or Outlook
+  webcalUrl: string; // opens the subscribe dialog on iOS and macOS
+  googleUrl: string; // Google Calendar's add-by-URL page
+}
+
+export interface ExternalCalendar {
+  id: string;
+  name: string;
+  url: string;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+  busyBlockCount: number;
+}
+
+export interface CalendarSyncResult {
+  calendarId: string;
+  busyBlocks: number;
+  error?: string;
+}
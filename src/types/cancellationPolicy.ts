@@ -0,0 +1,42 @@
+// Cancellation policies: fees, refunds and reliability penalties by notice before the visit
+
+import { Tables } from './database';
+import { BookingRole } from './booking';
+
+export type CancellationPolicyRow = Tables<'cancellation_policies'>;
+
+// Applies when at least minHoursBefore hours are left before the visit
+export interface CustomerCancellationTier {
+  min_hours_before: number;
+  fee_pct: number; // share of the total paid to the provider
+}
+
+export interface ProviderCancellationTier {
+  min_hours_before: number;
+  penalty_points: number;
+}
+
+export interface CancellationPolicy {
+  id: string;
+  providerId: string | null; // null = platform policy
+  name: string;
+  customerTiers: CustomerCancellationTier[];
+  providerTiers: ProviderCancellationTier[];
+  customerNoShowFeePct: number;
+  providerNoShowPenaltyPoints: number;
+  maxReschedules: number;
+  rescheduleMinHoursBefore: number;
+}
+
+export type CancellationPolicyInput = Omit<CancellationPolicy, 'id' | 'providerId'>;
+
+// What cancelling costs the caller right now
+export interface CancellationPreview {
+  policyName: string;
+  hoursBefore: number;
+  feePct: number;
+  feeClp: number;
+  refundClp: number;
+  penaltyPoints: number;
+  cancelledBy: BookingRole;
+}
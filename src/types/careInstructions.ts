@@ -0,0 +1,29 @@
+// Care instructions the provider leaves at check-out, and the maintenance reminders
+// sent to the customer from them
+
+import { Tables } from './database';
+
+export type BookingCareInstructionRow = Tables<'booking_care_instructions'>;
+
+// Read from the instruction's text: "cada 3 meses" repeats, "en 6 meses" is sent once
+export interface CareReminder {
+  months: number;
+  repeats: boolean;
+}
+
+// An instruction picked or written in the completion step, before it is saved
+export interface CareInstructionDraft {
+  templateId: string | null; // null when the provider wrote it
+  text: string;
+  reminder: CareReminder | null;
+}
+
+export interface BookingCareInstruction {
+  id: string;
+  bookingId: string;
+  templateId: string | null;
+  text: string;
+  reminder: CareReminder | null;
+  nextReminderOn: string | null; // 'YYYY-MM-DD'; null once sent or stopped
+  lastRemindedAt: string | null;
+}
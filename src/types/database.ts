@@ -1,232 +1,3829 @@
-export interface Database {
+// Generated by scripts/generate-database-types.js from supabase/migrations.
+// Do not edit by hand: change the migrations and run `npm run db:types`.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[];
+
+export type Database = {
   public: {
     Tables: {
-      provider_profiles: {
+      addresses: {
         Row: {
+          address_type: Database["public"]["Enums"]["address_type"] | null;
+          city: string;
+          comuna: string;
+          coordinates: Json | null;
+          created_at: string | null;
           id: string;
+          is_default: boolean | null;
+          postal_code: string | null;
+          region: string;
+          street: string;
+          updated_at: string | null;
           user_id: string;
-          first_name: string;
-          last_name: string;
-          phone: string;
-          email: string;
-          rut?: string;
-          date_of_birth?: string;
-          region_code?: string;
-          provincia_code?: string;
-          comuna_code?: string;
-          verification_status: 'pending' | 'documents_pending' | 'under_review' | 'approved' | 'rejected' | 'suspended';
-          rut_validation_status: 'pending' | 'valid' | 'invalid' | 'not_found';
-          rut_validation_data?: any;
-          background_check_status: 'pending' | 'clean' | 'flagged' | 'criminal_record';
-          identity_verification_status: 'pending' | 'passed' | 'failed' | 'manual_review';
-          face_match_score?: number;
-          manual_review_required: boolean;
-          admin_notes?: string;
+        };
+        Insert: {
+          address_type?: Database["public"]["Enums"]["address_type"] | null;
+          city: string;
+          comuna: string;
+          coordinates?: Json | null;
+          created_at?: string | null;
+          id?: string;
+          is_default?: boolean | null;
+          postal_code?: string | null;
+          region: string;
+          street: string;
+          updated_at?: string | null;
+          user_id: string;
+        };
+        Update: {
+          address_type?: Database["public"]["Enums"]["address_type"] | null;
+          city?: string;
+          comuna?: string;
+          coordinates?: Json | null;
+          created_at?: string | null;
+          id?: string;
+          is_default?: boolean | null;
+          postal_code?: string | null;
+          region?: string;
+          street?: string;
+          updated_at?: string | null;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "addresses_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      audit_log: {
+        Row: {
+          created_at: string | null;
+          details: Json | null;
+          event_type: string;
+          id: number;
+          user_id: string | null;
+        };
+        Insert: {
+          created_at?: string | null;
+          details?: Json | null;
+          event_type: string;
+          id?: number;
+          user_id?: string | null;
+        };
+        Update: {
+          created_at?: string | null;
+          details?: Json | null;
+          event_type?: string;
+          id?: number;
+          user_id?: string | null;
+        };
+        Relationships: [];
+      };
+      booking_care_instructions: {
+        Row: {
+          address_id: string | null;
+          booking_id: string;
           created_at: string;
+          customer_id: string;
+          id: string;
+          last_reminded_at: string | null;
+          next_reminder_on: string | null;
+          position: number;
+          provider_id: string;
+          reminder_months: number | null;
+          reminder_repeats: boolean;
+          template_id: string | null;
+          text: string;
           updated_at: string;
         };
         Insert: {
+          address_id?: string | null;
+          booking_id: string;
+          created_at?: string;
+          customer_id: string;
           id?: string;
-          user_id: string;
-          first_name: string;
-          last_name: string;
-          phone: string;
-          email: string;
-          rut?: string;
-          date_of_birth?: string;
-          region_code?: string;
-          provincia_code?: string;
-          comuna_code?: string;
-          verification_status?: 'pending' | 'documents_pending' | 'under_review' | 'approved' | 'rejected' | 'suspended';
-          rut_validation_status?: 'pending' | 'valid' | 'invalid' | 'not_found';
-          rut_validation_data?: any;
-          background_check_status?: 'pending' | 'clean' | 'flagged' | 'criminal_record';
-          identity_verification_status?: 'pending' | 'passed' | 'failed' | 'manual_review';
-          face_match_score?: number;
-          manual_review_required?: boolean;
-          admin_notes?: string;
+          last_reminded_at?: string | null;
+          next_reminder_on?: string | null;
+          position?: number;
+          provider_id: string;
+          reminder_months?: number | null;
+          reminder_repeats?: boolean;
+          template_id?: string | null;
+          text: string;
+          updated_at?: string;
+        };
+        Update: {
+          address_id?: string | null;
+          booking_id?: string;
           created_at?: string;
+          customer_id?: string;
+          id?: string;
+          last_reminded_at?: string | null;
+          next_reminder_on?: string | null;
+          position?: number;
+          provider_id?: string;
+          reminder_months?: number | null;
+          reminder_repeats?: boolean;
+          template_id?: string | null;
+          text?: string;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: "booking_care_instructions_address_id_fkey";
+            columns: ["address_id"];
+            isOneToOne: false;
+            referencedRelation: "addresses";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "booking_care_instructions_booking_id_fkey";
+            columns: ["booking_id"];
+            isOneToOne: false;
+            referencedRelation: "bookings";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "booking_care_instructions_customer_id_fkey";
+            columns: ["customer_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "booking_care_instructions_provider_id_fkey";
+            columns: ["provider_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      booking_occurrences: {
+        Row: {
+          booking_id: string | null;
+          created_at: string;
+          holiday_name: string | null;
+          id: string;
+          occurrence_date: string;
+          recurrence_id: string;
+          scheduled_date: string | null;
+          status: "scheduled" | "moved" | "skipped" | "holiday_skipped" | "unavailable";
+        };
+        Insert: {
+          booking_id?: string | null;
+          created_at?: string;
+          holiday_name?: string | null;
+          id?: string;
+          occurrence_date: string;
+          recurrence_id: string;
+          scheduled_date?: string | null;
+          status: "scheduled" | "moved" | "skipped" | "holiday_skipped" | "unavailable";
+        };
         Update: {
+          booking_id?: string | null;
+          created_at?: string;
+          holiday_name?: string | null;
           id?: string;
-          user_id?: string;
-          first_name?: string;
-          last_name?: string;
-          phone?: string;
-          email?: string;
-          rut?: string;
-          date_of_birth?: string;
-          region_code?: string;
-          provincia_code?: string;
-          comuna_code?: string;
-          verification_status?: 'pending' | 'documents_pending' | 'under_review' | 'approved' | 'rejected' | 'suspended';
-          rut_validation_status?: 'pending' | 'valid' | 'invalid' | 'not_found';
-          rut_validation_data?: any;
-          background_check_status?: 'pending' | 'clean' | 'flagged' | 'criminal_record';
-          identity_verification_status?: 'pending' | 'passed' | 'failed' | 'manual_review';
-          face_match_score?: number;
-          manual_review_required?: boolean;
-          admin_notes?: string;
+          occurrence_date?: string;
+          recurrence_id?: string;
+          scheduled_date?: string | null;
+          status?: "scheduled" | "moved" | "skipped" | "holiday_skipped" | "unavailable";
+        };
+        Relationships: [
+          {
+            foreignKeyName: "booking_occurrences_booking_id_fkey";
+            columns: ["booking_id"];
+            isOneToOne: false;
+            referencedRelation: "bookings";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "booking_occurrences_recurrence_id_fkey";
+            columns: ["recurrence_id"];
+            isOneToOne: false;
+            referencedRelation: "booking_recurrences";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      booking_recurrences: {
+        Row: {
+          created_at: string;
+          customer_id: string;
+          ends_on: string | null;
+          frequency: "weekly" | "biweekly" | "monthly" | "custom";
+          generated_until: string | null;
+          holiday_policy: "next_day" | "skip";
+          horizon_days: number;
+          id: string;
+          origin_booking_id: string;
+          paused_until: string | null;
+          provider_id: string;
+          starts_on: string;
+          status: "proposed" | "active" | "paused" | "declined" | "ended";
+          time_end: string;
+          time_start: string;
+          updated_at: string;
+          weekdays: number[];
+        };
+        Insert: {
+          created_at?: string;
+          customer_id: string;
+          ends_on?: string | null;
+          frequency: "weekly" | "biweekly" | "monthly" | "custom";
+          generated_until?: string | null;
+          holiday_policy?: "next_day" | "skip";
+          horizon_days?: number;
+          id?: string;
+          origin_booking_id: string;
+          paused_until?: string | null;
+          provider_id: string;
+          starts_on: string;
+          status?: "proposed" | "active" | "paused" | "declined" | "ended";
+          time_end: string;
+          time_start: string;
+          updated_at?: string;
+          weekdays?: number[];
+        };
+        Update: {
           created_at?: string;
+          customer_id?: string;
+          ends_on?: string | null;
+          frequency?: "weekly" | "biweekly" | "monthly" | "custom";
+          generated_until?: string | null;
+          holiday_policy?: "next_day" | "skip";
+          horizon_days?: number;
+          id?: string;
+          origin_booking_id?: string;
+          paused_until?: string | null;
+          provider_id?: string;
+          starts_on?: string;
+          status?: "proposed" | "active" | "paused" | "declined" | "ended";
+          time_end?: string;
+          time_start?: string;
           updated_at?: string;
+          weekdays?: number[];
         };
+        Relationships: [
+          {
+            foreignKeyName: "booking_recurrences_customer_id_fkey";
+            columns: ["customer_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "booking_recurrences_origin_booking_id_fkey";
+            columns: ["origin_booking_id"];
+            isOneToOne: false;
+            referencedRelation: "bookings";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "booking_recurrences_provider_id_fkey";
+            columns: ["provider_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
       };
-      verification_documents: {
+      bookings: {
         Row: {
+          accepted_at: string | null;
+          address_id: string;
+          cancellation_fee_clp: number | null;
+          cancellation_policy_id: string | null;
+          cancellation_reason: string | null;
+          cancelled_at: string | null;
+          cancelled_by: string | null;
+          check_in_location: Json | null;
+          check_out_location: Json | null;
+          completed_at: string | null;
+          completion_photos: string[] | null;
+          confirmed_at: string | null;
+          created_at: string | null;
+          customer_id: string;
+          customer_notes: string | null;
+          description: string | null;
           id: string;
+          materials_cost_clp: number | null;
+          no_show_at: string | null;
+          no_show_party: "customer" | "provider" | null;
+          platform_fee_clp: number;
           provider_id: string;
-          document_type: 'cedula_front' | 'cedula_back' | 'selfie' | 'proof_of_skills' | 'business_license' | 'insurance_certificate';
-          document_category: 'identity' | 'skills' | 'business' | 'insurance';
-          file_name: string;
-          file_path: string;
-          file_size: number;
-          mime_type: string;
-          upload_status: 'pending' | 'uploaded' | 'processing' | 'processed' | 'failed';
-          processing_status?: 'pending' | 'processing' | 'completed' | 'failed' | 'manual_review';
-          ocr_status?: 'pending' | 'processing' | 'completed' | 'failed';
-          ocr_data?: any;
-          manual_review_required: boolean;
-          approved?: boolean;
-          uploaded_at: string;
-          uploaded_by?: string;
+          provider_notes: string | null;
+          quote_id: string | null;
+          recurrence_id: string | null;
+          refund_clp: number | null;
+          reschedule_count: number;
+          scheduled_date: string;
+          scheduled_time_end: string;
+          scheduled_time_start: string;
+          service_id: string;
+          service_price_clp: number;
+          service_request_id: string | null;
+          started_at: string | null;
+          status: Database["public"]["Enums"]["booking_status"] | null;
+          title: string;
+          total_price_clp: number;
+          updated_at: string | null;
         };
         Insert: {
+          accepted_at?: string | null;
+          address_id: string;
+          cancellation_fee_clp?: number | null;
+          cancellation_policy_id?: string | null;
+          cancellation_reason?: string | null;
+          cancelled_at?: string | null;
+          cancelled_by?: string | null;
+          check_in_location?: Json | null;
+          check_out_location?: Json | null;
+          completed_at?: string | null;
+          completion_photos?: string[] | null;
+          confirmed_at?: string | null;
+          created_at?: string | null;
+          customer_id: string;
+          customer_notes?: string | null;
+          description?: string | null;
           id?: string;
+          materials_cost_clp?: number | null;
+          no_show_at?: string | null;
+          no_show_party?: "customer" | "provider" | null;
+          platform_fee_clp: number;
           provider_id: string;
-          document_type: 'cedula_front' | 'cedula_back' | 'selfie' | 'proof_of_skills' | 'business_license' | 'insurance_certificate';
-          document_category?: 'identity' | 'skills' | 'business' | 'insurance';
-          file_name: string;
-          file_path: string;
-          file_size: number;
-          mime_type: string;
-          upload_status?: 'pending' | 'uploaded' | 'processing' | 'processed' | 'failed';
-          processing_status?: 'pending' | 'processing' | 'completed' | 'failed' | 'manual_review';
-          ocr_status?: 'pending' | 'processing' | 'completed' | 'failed';
-          ocr_data?: any;
-          manual_review_required?: boolean;
-          approved?: boolean;
-          uploaded_at?: string;
-          uploaded_by?: string;
+          provider_notes?: string | null;
+          quote_id?: string | null;
+          recurrence_id?: string | null;
+          refund_clp?: number | null;
+          reschedule_count?: number;
+          scheduled_date: string;
+          scheduled_time_end: string;
+          scheduled_time_start: string;
+          service_id: string;
+          service_price_clp: number;
+          service_request_id?: string | null;
+          started_at?: string | null;
+          status?: Database["public"]["Enums"]["booking_status"] | null;
+          title: string;
+          total_price_clp: number;
+          updated_at?: string | null;
         };
         Update: {
+          accepted_at?: string | null;
+          address_id?: string;
+          cancellation_fee_clp?: number | null;
+          cancellation_policy_id?: string | null;
+          cancellation_reason?: string | null;
+          cancelled_at?: string | null;
+          cancelled_by?: string | null;
+          check_in_location?: Json | null;
+          check_out_location?: Json | null;
+          completed_at?: string | null;
+          completion_photos?: string[] | null;
+          confirmed_at?: string | null;
+          created_at?: string | null;
+          customer_id?: string;
+          customer_notes?: string | null;
+          description?: string | null;
           id?: string;
+          materials_cost_clp?: number | null;
+          no_show_at?: string | null;
+          no_show_party?: "customer" | "provider" | null;
+          platform_fee_clp?: number;
           provider_id?: string;
-          document_type?: 'cedula_front' | 'cedula_back' | 'selfie' | 'proof_of_skills' | 'business_license' | 'insurance_certificate';
-          document_category?: 'identity' | 'skills' | 'business' | 'insurance';
-          file_name?: string;
-          file_path?: string;
-          file_size?: number;
-          mime_type?: string;
-          upload_status?: 'pending' | 'uploaded' | 'processing' | 'processed' | 'failed';
-          processing_status?: 'pending' | 'processing' | 'completed' | 'failed' | 'manual_review';
-          ocr_status?: 'pending' | 'processing' | 'completed' | 'failed';
-          ocr_data?: any;
-          manual_review_required?: boolean;
-          approved?: boolean;
-          uploaded_at?: string;
-          uploaded_by?: string;
+          provider_notes?: string | null;
+          quote_id?: string | null;
+          recurrence_id?: string | null;
+          refund_clp?: number | null;
+          reschedule_count?: number;
+          scheduled_date?: string;
+          scheduled_time_end?: string;
+          scheduled_time_start?: string;
+          service_id?: string;
+          service_price_clp?: number;
+          service_request_id?: string | null;
+          started_at?: string | null;
+          status?: Database["public"]["Enums"]["booking_status"] | null;
+          title?: string;
+          total_price_clp?: number;
+          updated_at?: string | null;
         };
+        Relationships: [
+          {
+            foreignKeyName: "bookings_address_id_fkey";
+            columns: ["address_id"];
+            isOneToOne: false;
+            referencedRelation: "addresses";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "bookings_cancellation_policy_id_fkey";
+            columns: ["cancellation_policy_id"];
+            isOneToOne: false;
+            referencedRelation: "cancellation_policies";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "bookings_cancelled_by_fkey";
+            columns: ["cancelled_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "bookings_customer_id_fkey";
+            columns: ["customer_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "bookings_provider_id_fkey";
+            columns: ["provider_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "bookings_quote_id_fkey";
+            columns: ["quote_id"];
+            isOneToOne: false;
+            referencedRelation: "quotes";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "bookings_recurrence_id_fkey";
+            columns: ["recurrence_id"];
+            isOneToOne: false;
+            referencedRelation: "booking_recurrences";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "bookings_service_id_fkey";
+            columns: ["service_id"];
+            isOneToOne: false;
+            referencedRelation: "services";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "bookings_service_request_id_fkey";
+            columns: ["service_request_id"];
+            isOneToOne: false;
+            referencedRelation: "service_requests";
+            referencedColumns: ["id"];
+          },
+        ];
       };
-      verification_workflows: {
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string;
+          last_accessed_at: string | null;
+          token: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          last_accessed_at?: string | null;
+          token?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          last_accessed_at?: string | null;
+          token?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feed_tokens_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: true;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      cancellation_policies: {
+        Row: {
+          created_at: string;
+          customer_no_show_fee_pct: number;
+          customer_tiers: Json;
+          id: string;
+          max_reschedules: number;
+          name: string;
+          provider_id: string | null;
+          provider_no_show_penalty_points: number;
+          provider_tiers: Json;
+          replaced_at: string | null;
+          reschedule_min_hours_before: number;
+          updated_at: string;
+        };
+        Insert: {
+          created_at?: string;
+          customer_no_show_fee_pct?: number;
+          customer_tiers: Json;
+          id?: string;
+          max_reschedules?: number;
+          name: string;
+          provider_id?: string | null;
+          provider_no_show_penalty_points?: number;
+          provider_tiers: Json;
+          replaced_at?: string | null;
+          reschedule_min_hours_before?: number;
+          updated_at?: string;
+        };
+        Update: {
+          created_at?: string;
+          customer_no_show_fee_pct?: number;
+          customer_tiers?: Json;
+          id?: string;
+          max_reschedules?: number;
+          name?: string;
+          provider_id?: string | null;
+          provider_no_show_penalty_points?: number;
+          provider_tiers?: Json;
+          replaced_at?: string | null;
+          reschedule_min_hours_before?: number;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "cancellation_policies_provider_id_fkey";
+            columns: ["provider_id"];
+            isOneToOne: false;
+            referencedRelation: "provider_profiles";
+            referencedColumns: ["user_id"];
+          },
+        ];
+      };
+      chilean_comunas: {
+        Row: {
+          aliases: string[];
+          id: number;
+          latitude: number | null;
+          longitude: number | null;
+          name: string;
+          province: string;
+          province_code: string | null;
+          region_id: number;
+        };
+        Insert: {
+          aliases?: string[];
+          id: number;
+          latitude?: number | null;
+          longitude?: number | null;
+          name: string;
+          province: string;
+          province_code?: string | null;
+          region_id: number;
+        };
+        Update: {
+          aliases?: string[];
+          id?: number;
+          latitude?: number | null;
+          longitude?: number | null;
+          name?: string;
+          province?: string;
+          province_code?: string | null;
+          region_id?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "chilean_comunas_region_id_fkey";
+            columns: ["region_id"];
+            isOneToOne: false;
+            referencedRelation: "chilean_regions";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      chilean_holidays: {
+        Row: {
+          affects_service_delivery: boolean | null;
+          applicable_regions: string[] | null;
+          created_at: string | null;
+          holiday_date: string;
+          holiday_name: string;
+          holiday_type: "national" | "regional" | "religious" | "civic";
+          id: string;
+          is_business_day: boolean | null;
+          premium_rate_multiplier: number | null;
+        };
+        Insert: {
+          affects_service_delivery?: boolean | null;
+          applicable_regions?: string[] | null;
+          created_at?: string | null;
+          holiday_date: string;
+          holiday_name: string;
+          holiday_type: "national" | "regional" | "religious" | "civic";
+          id?: string;
+          is_business_day?: boolean | null;
+          premium_rate_multiplier?: number | null;
+        };
+        Update: {
+          affects_service_delivery?: boolean | null;
+          applicable_regions?: string[] | null;
+          created_at?: string | null;
+          holiday_date?: string;
+          holiday_name?: string;
+          holiday_type?: "national" | "regional" | "religious" | "civic";
+          id?: string;
+          is_business_day?: boolean | null;
+          premium_rate_multiplier?: number | null;
+        };
+        Relationships: [];
+      };
+      chilean_regions: {
+        Row: {
+          abbreviation: string;
+          capital: string;
+          id: number;
+          name: string;
+          roman_numeral: string;
+        };
+        Insert: {
+          abbreviation: string;
+          capital: string;
+          id: number;
+          name: string;
+          roman_numeral: string;
+        };
+        Update: {
+          abbreviation?: string;
+          capital?: string;
+          id?: number;
+          name?: string;
+          roman_numeral?: string;
+        };
+        Relationships: [];
+      };
+      disputes: {
+        Row: {
+          admin_id: string | null;
+          admin_notes: string | null;
+          booking_id: string;
+          category: "payment_issue" | "service_quality" | "no_show" | "cancellation" | "damage_claim" | "overcharge" | "other";
+          complainant_id: string;
+          created_at: string | null;
+          description: string;
+          evidence_files: string[] | null;
+          id: string;
+          payment_id: string;
+          requested_resolution: string | null;
+          resolution_notes: string | null;
+          resolved_at: string | null;
+          respondent_id: string;
+          status: Database["public"]["Enums"]["dispute_status"] | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          admin_id?: string | null;
+          admin_notes?: string | null;
+          booking_id: string;
+          category: "payment_issue" | "service_quality" | "no_show" | "cancellation" | "damage_claim" | "overcharge" | "other";
+          complainant_id: string;
+          created_at?: string | null;
+          description: string;
+          evidence_files?: string[] | null;
+          id?: string;
+          payment_id: string;
+          requested_resolution?: string | null;
+          resolution_notes?: string | null;
+          resolved_at?: string | null;
+          respondent_id: string;
+          status?: Database["public"]["Enums"]["dispute_status"] | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          admin_id?: string | null;
+          admin_notes?: string | null;
+          booking_id?: string;
+          category?: "payment_issue" | "service_quality" | "no_show" | "cancellation" | "damage_claim" | "overcharge" | "other";
+          complainant_id?: string;
+          created_at?: string | null;
+          description?: string;
+          evidence_files?: string[] | null;
+          id?: string;
+          payment_id?: string;
+          requested_resolution?: string | null;
+          resolution_notes?: string | null;
+          resolved_at?: string | null;
+          respondent_id?: string;
+          status?: Database["public"]["Enums"]["dispute_status"] | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "disputes_admin_id_fkey";
+            columns: ["admin_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "disputes_booking_id_fkey";
+            columns: ["booking_id"];
+            isOneToOne: false;
+            referencedRelation: "bookings";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "disputes_complainant_id_fkey";
+            columns: ["complainant_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "disputes_payment_id_fkey";
+            columns: ["payment_id"];
+            isOneToOne: false;
+            referencedRelation: "payments";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "disputes_respondent_id_fkey";
+            columns: ["respondent_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      external_busy_blocks: {
         Row: {
+          calendar_id: string;
+          ends_at: string;
           id: string;
           provider_id: string;
-          current_step: 'documents_upload' | 'rut_validation' | 'background_check' | 'identity_verification' | 'manual_review' | 'final_approval' | 'completed' | 'rejected';
-          steps_completed: string[];
-          auto_verification_possible: boolean;
-          started_at: string;
-          completed_at?: string;
-          final_decision?: 'approved' | 'rejected' | 'pending';
+          starts_at: string;
         };
         Insert: {
+          calendar_id: string;
+          ends_at: string;
           id?: string;
           provider_id: string;
-          current_step?: 'documents_upload' | 'rut_validation' | 'background_check' | 'identity_verification' | 'manual_review' | 'final_approval' | 'completed' | 'rejected';
-          steps_completed?: string[];
-          auto_verification_possible?: boolean;
-          started_at?: string;
-          completed_at?: string;
-          final_decision?: 'approved' | 'rejected' | 'pending';
+          starts_at: string;
         };
         Update: {
+          calendar_id?: string;
+          ends_at?: string;
           id?: string;
           provider_id?: string;
-          current_step?: 'documents_upload' | 'rut_validation' | 'background_check' | 'identity_verification' | 'manual_review' | 'final_approval' | 'completed' | 'rejected';
-          steps_completed?: string[];
-          auto_verification_possible?: boolean;
-          started_at?: string;
-          completed_at?: string;
-          final_decision?: 'approved' | 'rejected' | 'pending';
+          starts_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: "external_busy_blocks_calendar_id_fkey";
+            columns: ["calendar_id"];
+            isOneToOne: false;
+            referencedRelation: "external_calendars";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "external_busy_blocks_provider_id_fkey";
+            columns: ["provider_id"];
+            isOneToOne: false;
+            referencedRelation: "provider_profiles";
+            referencedColumns: ["user_id"];
+          },
+        ];
       };
-      verification_history: {
+      external_calendars: {
         Row: {
+          busy_block_count: number;
+          created_at: string;
           id: string;
+          last_error: string | null;
+          last_synced_at: string | null;
+          name: string;
           provider_id: string;
-          action_type: 'document_uploaded' | 'rut_validation_started' | 'rut_validation_completed' | 'background_check_started' | 'background_check_completed' | 'identity_verification_started' | 'identity_verification_completed' | 'status_changed' | 'approved' | 'rejected';
-          performed_by?: string;
-          performed_by_type?: 'system' | 'admin' | 'provider';
-          action_data?: any;
-          notes?: string;
-          created_at: string;
+          updated_at: string;
+          url: string;
         };
         Insert: {
+          busy_block_count?: number;
+          created_at?: string;
+          id?: string;
+          last_error?: string | null;
+          last_synced_at?: string | null;
+          name?: string;
+          provider_id: string;
+          updated_at?: string;
+          url: string;
+        };
+        Update: {
+          busy_block_count?: number;
+          created_at?: string;
           id?: string;
+          last_error?: string | null;
+          last_synced_at?: string | null;
+          name?: string;
+          provider_id?: string;
+          updated_at?: string;
+          url?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "external_calendars_provider_id_fkey";
+            columns: ["provider_id"];
+            isOneToOne: false;
+            referencedRelation: "provider_profiles";
+            referencedColumns: ["user_id"];
+          },
+        ];
+      };
+      job_photos: {
+        Row: {
+          booking_id: string;
+          caption: string | null;
+          created_at: string;
+          customer_id: string;
+          file_path: string;
+          file_size: number;
+          geo_location: Json | null;
+          id: string;
+          image_dimensions: Json | null;
+          metadata: Json;
+          mime_type: string;
+          original_filename: string;
+          photo_type: "before" | "during" | "after" | "damage" | "completion";
           provider_id: string;
-          action_type: 'document_uploaded' | 'rut_validation_started' | 'rut_validation_completed' | 'background_check_started' | 'background_check_completed' | 'identity_verification_started' | 'identity_verification_completed' | 'status_changed' | 'approved' | 'rejected';
-          performed_by?: string;
-          performed_by_type?: 'system' | 'admin' | 'provider';
-          action_data?: any;
-          notes?: string;
+          storage_bucket: string;
+          taken_at: string;
+          thumbnail_path: string | null;
+          updated_at: string;
+          upload_status: "uploading" | "uploaded" | "processing" | "optimized" | "verified" | "failed";
+        };
+        Insert: {
+          booking_id: string;
+          caption?: string | null;
           created_at?: string;
+          customer_id: string;
+          file_path: string;
+          file_size: number;
+          geo_location?: Json | null;
+          id?: string;
+          image_dimensions?: Json | null;
+          metadata?: Json;
+          mime_type: string;
+          original_filename: string;
+          photo_type: "before" | "during" | "after" | "damage" | "completion";
+          provider_id: string;
+          storage_bucket?: string;
+          taken_at?: string;
+          thumbnail_path?: string | null;
+          updated_at?: string;
+          upload_status?: "uploading" | "uploaded" | "processing" | "optimized" | "verified" | "failed";
         };
         Update: {
+          booking_id?: string;
+          caption?: string | null;
+          created_at?: string;
+          customer_id?: string;
+          file_path?: string;
+          file_size?: number;
+          geo_location?: Json | null;
           id?: string;
+          image_dimensions?: Json | null;
+          metadata?: Json;
+          mime_type?: string;
+          original_filename?: string;
+          photo_type?: "before" | "during" | "after" | "damage" | "completion";
           provider_id?: string;
-          action_type?: 'document_uploaded' | 'rut_validation_started' | 'rut_validation_completed' | 'background_check_started' | 'background_check_completed' | 'identity_verification_started' | 'identity_verification_completed' | 'status_changed' | 'approved' | 'rejected';
-          performed_by?: string;
-          performed_by_type?: 'system' | 'admin' | 'provider';
-          action_data?: any;
-          notes?: string;
+          storage_bucket?: string;
+          taken_at?: string;
+          thumbnail_path?: string | null;
+          updated_at?: string;
+          upload_status?: "uploading" | "uploaded" | "processing" | "optimized" | "verified" | "failed";
+        };
+        Relationships: [
+          {
+            foreignKeyName: "job_photos_booking_id_fkey";
+            columns: ["booking_id"];
+            isOneToOne: false;
+            referencedRelation: "bookings";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "job_photos_customer_id_fkey";
+            columns: ["customer_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "job_photos_provider_id_fkey";
+            columns: ["provider_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      material_catalog_items: {
+        Row: {
+          brand: string | null;
+          created_at: string;
+          id: string;
+          is_active: boolean;
+          keywords: string | null;
+          name: string;
+          reference_price_clp: number;
+          search_text: string | null;
+          service_id: string | null;
+          sort_order: number;
+          unit: "unidad" | "metro" | "m2" | "m3" | "litro" | "galon" | "kg" | "saco" | "rollo" | "caja" | "tineta" | "plancha" | "par" | "juego";
+          updated_at: string;
+        };
+        Insert: {
+          brand?: string | null;
+          created_at?: string;
+          id?: string;
+          is_active?: boolean;
+          keywords?: string | null;
+          name: string;
+          reference_price_clp: number;
+          search_text?: never;
+          service_id?: string | null;
+          sort_order?: number;
+          unit: "unidad" | "metro" | "m2" | "m3" | "litro" | "galon" | "kg" | "saco" | "rollo" | "caja" | "tineta" | "plancha" | "par" | "juego";
+          updated_at?: string;
+        };
+        Update: {
+          brand?: string | null;
           created_at?: string;
+          id?: string;
+          is_active?: boolean;
+          keywords?: string | null;
+          name?: string;
+          reference_price_clp?: number;
+          search_text?: never;
+          service_id?: string | null;
+          sort_order?: number;
+          unit?: "unidad" | "metro" | "m2" | "m3" | "litro" | "galon" | "kg" | "saco" | "rollo" | "caja" | "tineta" | "plancha" | "par" | "juego";
+          updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: "material_catalog_items_service_id_fkey";
+            columns: ["service_id"];
+            isOneToOne: false;
+            referencedRelation: "service_categories";
+            referencedColumns: ["id"];
+          },
+        ];
       };
-      verification_notifications: {
+      messages: {
         Row: {
+          attachments: string[] | null;
+          booking_id: string;
+          content: string;
+          created_at: string | null;
           id: string;
-          provider_id: string;
-          notification_type: 'verification_started' | 'documents_received' | 'under_review' | 'approved' | 'rejected' | 'resubmission_required';
-          send_email: boolean;
-          send_push: boolean;
-          subject: string;
+          is_deleted: boolean | null;
+          is_read: boolean | null;
+          message_type: "text" | "image" | "document" | "system" | null;
+          read_at: string | null;
+          recipient_id: string;
+          sender_id: string;
+        };
+        Insert: {
+          attachments?: string[] | null;
+          booking_id: string;
+          content: string;
+          created_at?: string | null;
+          id?: string;
+          is_deleted?: boolean | null;
+          is_read?: boolean | null;
+          message_type?: "text" | "image" | "document" | "system" | null;
+          read_at?: string | null;
+          recipient_id: string;
+          sender_id: string;
+        };
+        Update: {
+          attachments?: string[] | null;
+          booking_id?: string;
+          content?: string;
+          created_at?: string | null;
+          id?: string;
+          is_deleted?: boolean | null;
+          is_read?: boolean | null;
+          message_type?: "text" | "image" | "document" | "system" | null;
+          read_at?: string | null;
+          recipient_id?: string;
+          sender_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "messages_booking_id_fkey";
+            columns: ["booking_id"];
+            isOneToOne: false;
+            referencedRelation: "bookings";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "messages_recipient_id_fkey";
+            columns: ["recipient_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "messages_sender_id_fkey";
+            columns: ["sender_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      notifications: {
+        Row: {
+          booking_id: string | null;
+          created_at: string | null;
+          expires_at: string | null;
+          id: string;
+          is_read: boolean | null;
           message: string;
-          status: 'pending' | 'sent' | 'delivered' | 'failed';
-          created_at: string;
+          payment_id: string | null;
+          quote_id: string | null;
+          read_at: string | null;
+          review_id: string | null;
+          saved_search_id: string | null;
+          sent_email: boolean | null;
+          sent_push: boolean | null;
+          sent_sms: boolean | null;
+          service_request_id: string | null;
+          title: string;
+          type: Database["public"]["Enums"]["notification_type"];
+          user_id: string;
         };
         Insert: {
+          booking_id?: string | null;
+          created_at?: string | null;
+          expires_at?: string | null;
           id?: string;
-          provider_id: string;
-          notification_type: 'verification_started' | 'documents_received' | 'under_review' | 'approved' | 'rejected' | 'resubmission_required';
-          send_email?: boolean;
-          send_push?: boolean;
-          subject: string;
+          is_read?: boolean | null;
           message: string;
-          status?: 'pending' | 'sent' | 'delivered' | 'failed';
-          created_at?: string;
+          payment_id?: string | null;
+          quote_id?: string | null;
+          read_at?: string | null;
+          review_id?: string | null;
+          saved_search_id?: string | null;
+          sent_email?: boolean | null;
+          sent_push?: boolean | null;
+          sent_sms?: boolean | null;
+          service_request_id?: string | null;
+          title: string;
+          type: Database["public"]["Enums"]["notification_type"];
+          user_id: string;
         };
         Update: {
+          booking_id?: string | null;
+          created_at?: string | null;
+          expires_at?: string | null;
           id?: string;
-          provider_id?: string;
-          notification_type?: 'verification_started' | 'documents_received' | 'under_review' | 'approved' | 'rejected' | 'resubmission_required';
-          send_email?: boolean;
-          send_push?: boolean;
-          subject?: string;
+          is_read?: boolean | null;
           message?: string;
-          status?: 'pending' | 'sent' | 'delivered' | 'failed';
+          payment_id?: string | null;
+          quote_id?: string | null;
+          read_at?: string | null;
+          review_id?: string | null;
+          saved_search_id?: string | null;
+          sent_email?: boolean | null;
+          sent_push?: boolean | null;
+          sent_sms?: boolean | null;
+          service_request_id?: string | null;
+          title?: string;
+          type?: Database["public"]["Enums"]["notification_type"];
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "notifications_booking_id_fkey";
+            columns: ["booking_id"];
+            isOneToOne: false;
+            referencedRelation: "bookings";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "notifications_payment_id_fkey";
+            columns: ["payment_id"];
+            isOneToOne: false;
+            referencedRelation: "payments";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "notifications_quote_id_fkey";
+            columns: ["quote_id"];
+            isOneToOne: false;
+            referencedRelation: "quotes";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "notifications_review_id_fkey";
+            columns: ["review_id"];
+            isOneToOne: false;
+            referencedRelation: "reviews";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "notifications_saved_search_id_fkey";
+            columns: ["saved_search_id"];
+            isOneToOne: false;
+            referencedRelation: "saved_searches";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "notifications_service_request_id_fkey";
+            columns: ["service_request_id"];
+            isOneToOne: false;
+            referencedRelation: "service_requests";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      payments: {
+        Row: {
+          amount_clp: number;
+          authorized_at: string | null;
+          booking_id: string;
+          captured_at: string | null;
+          created_at: string | null;
+          customer_id: string;
+          external_authorization_code: string | null;
+          external_payment_id: string | null;
+          failed_at: string | null;
+          failure_reason: string | null;
+          id: string;
+          metadata: Json | null;
+          payment_method: Database["public"]["Enums"]["payment_method"];
+          platform_fee_clp: number;
+          provider_amount_clp: number;
+          provider_id: string;
+          released_at: string | null;
+          status: Database["public"]["Enums"]["payment_status"] | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          amount_clp: number;
+          authorized_at?: string | null;
+          booking_id: string;
+          captured_at?: string | null;
+          created_at?: string | null;
+          customer_id: string;
+          external_authorization_code?: string | null;
+          external_payment_id?: string | null;
+          failed_at?: string | null;
+          failure_reason?: string | null;
+          id?: string;
+          metadata?: Json | null;
+          payment_method: Database["public"]["Enums"]["payment_method"];
+          platform_fee_clp: number;
+          provider_amount_clp: number;
+          provider_id: string;
+          released_at?: string | null;
+          status?: Database["public"]["Enums"]["payment_status"] | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          amount_clp?: number;
+          authorized_at?: string | null;
+          booking_id?: string;
+          captured_at?: string | null;
+          created_at?: string | null;
+          customer_id?: string;
+          external_authorization_code?: string | null;
+          external_payment_id?: string | null;
+          failed_at?: string | null;
+          failure_reason?: string | null;
+          id?: string;
+          metadata?: Json | null;
+          payment_method?: Database["public"]["Enums"]["payment_method"];
+          platform_fee_clp?: number;
+          provider_amount_clp?: number;
+          provider_id?: string;
+          released_at?: string | null;
+          status?: Database["public"]["Enums"]["payment_status"] | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "payments_booking_id_fkey";
+            columns: ["booking_id"];
+            isOneToOne: false;
+            referencedRelation: "bookings";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "payments_customer_id_fkey";
+            columns: ["customer_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "payments_provider_id_fkey";
+            columns: ["provider_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      project_services: {
+        Row: {
+          is_required: boolean | null;
+          project_id: string;
+          service_id: string;
+        };
+        Insert: {
+          is_required?: boolean | null;
+          project_id: string;
+          service_id: string;
+        };
+        Update: {
+          is_required?: boolean | null;
+          project_id?: string;
+          service_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "project_services_project_id_fkey";
+            columns: ["project_id"];
+            isOneToOne: false;
+            referencedRelation: "project_types";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "project_services_service_id_fkey";
+            columns: ["service_id"];
+            isOneToOne: false;
+            referencedRelation: "service_categories";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      project_types: {
+        Row: {
+          avg_price_max: number | null;
+          avg_price_min: number | null;
+          category: Database["public"]["Enums"]["project_category"];
+          complexity: Database["public"]["Enums"]["complexity_level"] | null;
+          created_at: string | null;
+          description: string | null;
+          estimated_duration: string | null;
+          icon: string | null;
+          id: string;
+          is_active: boolean | null;
+          name: string;
+          sort_order: number | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          avg_price_max?: number | null;
+          avg_price_min?: number | null;
+          category: Database["public"]["Enums"]["project_category"];
+          complexity?: Database["public"]["Enums"]["complexity_level"] | null;
+          created_at?: string | null;
+          description?: string | null;
+          estimated_duration?: string | null;
+          icon?: string | null;
+          id: string;
+          is_active?: boolean | null;
+          name: string;
+          sort_order?: number | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          avg_price_max?: number | null;
+          avg_price_min?: number | null;
+          category?: Database["public"]["Enums"]["project_category"];
+          complexity?: Database["public"]["Enums"]["complexity_level"] | null;
+          created_at?: string | null;
+          description?: string | null;
+          estimated_duration?: string | null;
+          icon?: string | null;
+          id?: string;
+          is_active?: boolean | null;
+          name?: string;
+          sort_order?: number | null;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+      provider_availability_exceptions: {
+        Row: {
+          created_at: string;
+          ends_on: string;
+          id: string;
+          kind: "vacation" | "sick" | "personal" | "other";
+          note: string | null;
+          provider_id: string;
+          starts_on: string;
+          time_end: string | null;
+          time_start: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          created_at?: string;
+          ends_on: string;
+          id?: string;
+          kind?: "vacation" | "sick" | "personal" | "other";
+          note?: string | null;
+          provider_id: string;
+          starts_on: string;
+          time_end?: string | null;
+          time_start?: string | null;
+          updated_at?: string;
+        };
+        Update: {
           created_at?: string;
+          ends_on?: string;
+          id?: string;
+          kind?: "vacation" | "sick" | "personal" | "other";
+          note?: string | null;
+          provider_id?: string;
+          starts_on?: string;
+          time_end?: string | null;
+          time_start?: string | null;
+          updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: "provider_availability_exceptions_provider_id_fkey";
+            columns: ["provider_id"];
+            isOneToOne: false;
+            referencedRelation: "provider_profiles";
+            referencedColumns: ["user_id"];
+          },
+        ];
       };
-    };
-  };
-}
\ No newline at end of file
+      provider_base_pricing: {
+        Row: {
+          allows_instant_quote: boolean;
+          base_price_clp: number | null;
+          created_at: string | null;
+          estimated_hours: number | null;
+          id: string;
+          is_active: boolean;
+          pricing_notes: string | null;
+          project_type_id: string;
+          provider_id: string;
+          requires_site_visit_for: "all" | "complex_only" | "none";
+          service_id: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          allows_instant_quote?: boolean;
+          base_price_clp?: number | null;
+          created_at?: string | null;
+          estimated_hours?: number | null;
+          id?: string;
+          is_active?: boolean;
+          pricing_notes?: string | null;
+          project_type_id: string;
+          provider_id: string;
+          requires_site_visit_for?: "all" | "complex_only" | "none";
+          service_id?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          allows_instant_quote?: boolean;
+          base_price_clp?: number | null;
+          created_at?: string | null;
+          estimated_hours?: number | null;
+          id?: string;
+          is_active?: boolean;
+          pricing_notes?: string | null;
+          project_type_id?: string;
+          provider_id?: string;
+          requires_site_visit_for?: "all" | "complex_only" | "none";
+          service_id?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "provider_base_pricing_project_type_id_fkey";
+            columns: ["project_type_id"];
+            isOneToOne: false;
+            referencedRelation: "project_types";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "provider_base_pricing_provider_id_fkey";
+            columns: ["provider_id"];
+            isOneToOne: false;
+            referencedRelation: "provider_profiles";
+            referencedColumns: ["user_id"];
+          },
+          {
+            foreignKeyName: "provider_base_pricing_service_id_fkey";
+            columns: ["service_id"];
+            isOneToOne: false;
+            referencedRelation: "service_categories";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      provider_dismissed_jobs: {
+        Row: {
+          dismissed_at: string;
+          provider_id: string;
+          service_request_id: string;
+        };
+        Insert: {
+          dismissed_at?: string;
+          provider_id: string;
+          service_request_id: string;
+        };
+        Update: {
+          dismissed_at?: string;
+          provider_id?: string;
+          service_request_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "provider_dismissed_jobs_provider_id_fkey";
+            columns: ["provider_id"];
+            isOneToOne: false;
+            referencedRelation: "provider_profiles";
+            referencedColumns: ["user_id"];
+          },
+          {
+            foreignKeyName: "provider_dismissed_jobs_service_request_id_fkey";
+            columns: ["service_request_id"];
+            isOneToOne: false;
+            referencedRelation: "service_requests";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      provider_material_prices: {
+        Row: {
+          catalog_item_id: string;
+          price_clp: number;
+          provider_id: string;
+          updated_at: string;
+        };
+        Insert: {
+          catalog_item_id: string;
+          price_clp: number;
+          provider_id: string;
+          updated_at?: string;
+        };
+        Update: {
+          catalog_item_id?: string;
+          price_clp?: number;
+          provider_id?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "provider_material_prices_catalog_item_id_fkey";
+            columns: ["catalog_item_id"];
+            isOneToOne: false;
+            referencedRelation: "material_catalog_items";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "provider_material_prices_provider_id_fkey";
+            columns: ["provider_id"];
+            isOneToOne: false;
+            referencedRelation: "provider_profiles";
+            referencedColumns: ["user_id"];
+          },
+        ];
+      };
+      provider_profiles: {
+        Row: {
+          background_check_status: Database["public"]["Enums"]["verification_status"] | null;
+          bank_account_info: Json | null;
+          buffer_minutes: number;
+          business_name: string | null;
+          business_name_search: string | null;
+          callout_fee_clp: number | null;
+          certifications: string[] | null;
+          comuna: string | null;
+          coordinates: unknown | null;
+          created_at: string | null;
+          description: string | null;
+          description_search: string | null;
+          has_callout_fee: boolean | null;
+          holiday_availability: Json | null;
+          hourly_rate_clp: number | null;
+          is_available: boolean | null;
+          is_available_today: boolean | null;
+          is_background_checked: boolean | null;
+          is_identity_verified: boolean | null;
+          languages: string[] | null;
+          max_jobs_per_day: number | null;
+          max_travel_distance_km: number | null;
+          min_job_value_clp: number | null;
+          rating: number | null;
+          response_time_hours: number | null;
+          search_vector: unknown | null;
+          service_areas: string[] | null;
+          services: string[] | null;
+          specialties: string[] | null;
+          total_jobs_completed: number | null;
+          total_reviews: number | null;
+          updated_at: string | null;
+          user_id: string;
+          verification_documents: Json | null;
+          verification_score: number | null;
+          verification_status: Database["public"]["Enums"]["verification_status"] | null;
+          working_hours: Json | null;
+        };
+        Insert: {
+          background_check_status?: Database["public"]["Enums"]["verification_status"] | null;
+          bank_account_info?: Json | null;
+          buffer_minutes?: number;
+          business_name?: string | null;
+          business_name_search?: string | null;
+          callout_fee_clp?: number | null;
+          certifications?: string[] | null;
+          comuna?: string | null;
+          coordinates?: unknown | null;
+          created_at?: string | null;
+          description?: string | null;
+          description_search?: string | null;
+          has_callout_fee?: boolean | null;
+          holiday_availability?: Json | null;
+          hourly_rate_clp?: number | null;
+          is_available?: boolean | null;
+          is_available_today?: boolean | null;
+          is_background_checked?: boolean | null;
+          is_identity_verified?: boolean | null;
+          languages?: string[] | null;
+          max_jobs_per_day?: number | null;
+          max_travel_distance_km?: number | null;
+          min_job_value_clp?: number | null;
+          rating?: number | null;
+          response_time_hours?: number | null;
+          search_vector?: unknown | null;
+          service_areas?: string[] | null;
+          services?: string[] | null;
+          specialties?: string[] | null;
+          total_jobs_completed?: number | null;
+          total_reviews?: number | null;
+          updated_at?: string | null;
+          user_id: string;
+          verification_documents?: Json | null;
+          verification_score?: number | null;
+          verification_status?: Database["public"]["Enums"]["verification_status"] | null;
+          working_hours?: Json | null;
+        };
+        Update: {
+          background_check_status?: Database["public"]["Enums"]["verification_status"] | null;
+          bank_account_info?: Json | null;
+          buffer_minutes?: number;
+          business_name?: string | null;
+          business_name_search?: string | null;
+          callout_fee_clp?: number | null;
+          certifications?: string[] | null;
+          comuna?: string | null;
+          coordinates?: unknown | null;
+          created_at?: string | null;
+          description?: string | null;
+          description_search?: string | null;
+          has_callout_fee?: boolean | null;
+          holiday_availability?: Json | null;
+          hourly_rate_clp?: number | null;
+          is_available?: boolean | null;
+          is_available_today?: boolean | null;
+          is_background_checked?: boolean | null;
+          is_identity_verified?: boolean | null;
+          languages?: string[] | null;
+          max_jobs_per_day?: number | null;
+          max_travel_distance_km?: number | null;
+          min_job_value_clp?: number | null;
+          rating?: number | null;
+          response_time_hours?: number | null;
+          search_vector?: unknown | null;
+          service_areas?: string[] | null;
+          services?: string[] | null;
+          specialties?: string[] | null;
+          total_jobs_completed?: number | null;
+          total_reviews?: number | null;
+          updated_at?: string | null;
+          user_id?: string;
+          verification_documents?: Json | null;
+          verification_score?: number | null;
+          verification_status?: Database["public"]["Enums"]["verification_status"] | null;
+          working_hours?: Json | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "provider_profiles_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: true;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      provider_projects: {
+        Row: {
+          base_price_clp: number | null;
+          can_provide_estimate: boolean | null;
+          created_at: string | null;
+          portfolio_count: number | null;
+          project_id: string;
+          provider_id: string;
+        };
+        Insert: {
+          base_price_clp?: number | null;
+          can_provide_estimate?: boolean | null;
+          created_at?: string | null;
+          portfolio_count?: number | null;
+          project_id: string;
+          provider_id: string;
+        };
+        Update: {
+          base_price_clp?: number | null;
+          can_provide_estimate?: boolean | null;
+          created_at?: string | null;
+          portfolio_count?: number | null;
+          project_id?: string;
+          provider_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "provider_projects_project_id_fkey";
+            columns: ["project_id"];
+            isOneToOne: false;
+            referencedRelation: "project_types";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "provider_projects_provider_id_fkey";
+            columns: ["provider_id"];
+            isOneToOne: false;
+            referencedRelation: "provider_profiles";
+            referencedColumns: ["user_id"];
+          },
+        ];
+      };
+      provider_quote_templates: {
+        Row: {
+          created_at: string;
+          estimated_duration_hours: number | null;
+          id: string;
+          labor_items: Json;
+          last_used_at: string | null;
+          materials_items: Json;
+          materials_notes: string | null;
+          name: string;
+          notes: string | null;
+          project_type_id: string | null;
+          provider_id: string;
+          quote_type: "direct" | "visit_required";
+          session_structure: Json | null;
+          updated_at: string;
+          visit_config: Json | null;
+        };
+        Insert: {
+          created_at?: string;
+          estimated_duration_hours?: number | null;
+          id?: string;
+          labor_items?: Json;
+          last_used_at?: string | null;
+          materials_items?: Json;
+          materials_notes?: string | null;
+          name: string;
+          notes?: string | null;
+          project_type_id?: string | null;
+          provider_id: string;
+          quote_type?: "direct" | "visit_required";
+          session_structure?: Json | null;
+          updated_at?: string;
+          visit_config?: Json | null;
+        };
+        Update: {
+          created_at?: string;
+          estimated_duration_hours?: number | null;
+          id?: string;
+          labor_items?: Json;
+          last_used_at?: string | null;
+          materials_items?: Json;
+          materials_notes?: string | null;
+          name?: string;
+          notes?: string | null;
+          project_type_id?: string | null;
+          provider_id?: string;
+          quote_type?: "direct" | "visit_required";
+          session_structure?: Json | null;
+          updated_at?: string;
+          visit_config?: Json | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "provider_quote_templates_project_type_id_fkey";
+            columns: ["project_type_id"];
+            isOneToOne: false;
+            referencedRelation: "project_types";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "provider_quote_templates_provider_id_fkey";
+            columns: ["provider_id"];
+            isOneToOne: false;
+            referencedRelation: "provider_profiles";
+            referencedColumns: ["user_id"];
+          },
+        ];
+      };
+      provider_reliability_events: {
+        Row: {
+          booking_id: string | null;
+          created_at: string;
+          event_type: "late_cancellation" | "no_show";
+          id: string;
+          penalty_points: number;
+          provider_id: string;
+        };
+        Insert: {
+          booking_id?: string | null;
+          created_at?: string;
+          event_type: "late_cancellation" | "no_show";
+          id?: string;
+          penalty_points: number;
+          provider_id: string;
+        };
+        Update: {
+          booking_id?: string | null;
+          created_at?: string;
+          event_type?: "late_cancellation" | "no_show";
+          id?: string;
+          penalty_points?: number;
+          provider_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "provider_reliability_events_booking_id_fkey";
+            columns: ["booking_id"];
+            isOneToOne: false;
+            referencedRelation: "bookings";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "provider_reliability_events_provider_id_fkey";
+            columns: ["provider_id"];
+            isOneToOne: false;
+            referencedRelation: "provider_profiles";
+            referencedColumns: ["user_id"];
+          },
+        ];
+      };
+      provider_services: {
+        Row: {
+          created_at: string | null;
+          experience_years: number | null;
+          fixed_rate_clp: number | null;
+          hourly_rate_clp: number | null;
+          is_primary_service: boolean | null;
+          provider_id: string;
+          service_id: string;
+        };
+        Insert: {
+          created_at?: string | null;
+          experience_years?: number | null;
+          fixed_rate_clp?: number | null;
+          hourly_rate_clp?: number | null;
+          is_primary_service?: boolean | null;
+          provider_id: string;
+          service_id: string;
+        };
+        Update: {
+          created_at?: string | null;
+          experience_years?: number | null;
+          fixed_rate_clp?: number | null;
+          hourly_rate_clp?: number | null;
+          is_primary_service?: boolean | null;
+          provider_id?: string;
+          service_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "provider_services_provider_id_fkey";
+            columns: ["provider_id"];
+            isOneToOne: false;
+            referencedRelation: "provider_profiles";
+            referencedColumns: ["user_id"];
+          },
+          {
+            foreignKeyName: "provider_services_service_id_fkey";
+            columns: ["service_id"];
+            isOneToOne: false;
+            referencedRelation: "service_categories";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      quote_change_requests: {
+        Row: {
+          answered_version: number | null;
+          created_at: string;
+          customer_id: string;
+          id: string;
+          materials_note: string | null;
+          message: string | null;
+          proposed_date: string | null;
+          proposed_price_clp: number | null;
+          proposed_time_end: string | null;
+          proposed_time_start: string | null;
+          quote_id: string;
+          quote_version: number;
+          response_message: string | null;
+          status: "pending" | "answered" | "declined" | "withdrawn";
+          topics: string[];
+          updated_at: string;
+        };
+        Insert: {
+          answered_version?: number | null;
+          created_at?: string;
+          customer_id: string;
+          id?: string;
+          materials_note?: string | null;
+          message?: string | null;
+          proposed_date?: string | null;
+          proposed_price_clp?: number | null;
+          proposed_time_end?: string | null;
+          proposed_time_start?: string | null;
+          quote_id: string;
+          quote_version: number;
+          response_message?: string | null;
+          status?: "pending" | "answered" | "declined" | "withdrawn";
+          topics: string[];
+          updated_at?: string;
+        };
+        Update: {
+          answered_version?: number | null;
+          created_at?: string;
+          customer_id?: string;
+          id?: string;
+          materials_note?: string | null;
+          message?: string | null;
+          proposed_date?: string | null;
+          proposed_price_clp?: number | null;
+          proposed_time_end?: string | null;
+          proposed_time_start?: string | null;
+          quote_id?: string;
+          quote_version?: number;
+          response_message?: string | null;
+          status?: "pending" | "answered" | "declined" | "withdrawn";
+          topics?: string[];
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "quote_change_requests_customer_id_fkey";
+            columns: ["customer_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "quote_change_requests_quote_id_fkey";
+            columns: ["quote_id"];
+            isOneToOne: false;
+            referencedRelation: "quotes";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      quote_documents: {
+        Row: {
+          created_at: string;
+          created_by: string | null;
+          document_number: string;
+          id: string;
+          quote_id: string;
+          quote_status: string;
+          quote_version: number;
+          storage_path: string;
+        };
+        Insert: {
+          created_at?: string;
+          created_by?: string | null;
+          document_number: string;
+          id?: string;
+          quote_id: string;
+          quote_status: string;
+          quote_version: number;
+          storage_path: string;
+        };
+        Update: {
+          created_at?: string;
+          created_by?: string | null;
+          document_number?: string;
+          id?: string;
+          quote_id?: string;
+          quote_status?: string;
+          quote_version?: number;
+          storage_path?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "quote_documents_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "quote_documents_quote_id_fkey";
+            columns: ["quote_id"];
+            isOneToOne: false;
+            referencedRelation: "quotes";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      quote_revisions: {
+        Row: {
+          additional_fees: Json;
+          availability_date: string;
+          availability_time_end: string;
+          availability_time_start: string;
+          change_request_id: string | null;
+          changes: Json | null;
+          created_at: string;
+          estimated_duration_hours: number | null;
+          id: string;
+          includes_materials: boolean;
+          iva_clp: number;
+          labor_items: Json;
+          materials_cost_clp: number;
+          materials_items: Json;
+          message: string | null;
+          price_clp: number;
+          quote_id: string;
+          travel_fee_clp: number;
+          vat_rate: number;
+          version: number;
+        };
+        Insert: {
+          additional_fees?: Json;
+          availability_date: string;
+          availability_time_end: string;
+          availability_time_start: string;
+          change_request_id?: string | null;
+          changes?: Json | null;
+          created_at?: string;
+          estimated_duration_hours?: number | null;
+          id?: string;
+          includes_materials?: boolean;
+          iva_clp?: number;
+          labor_items?: Json;
+          materials_cost_clp?: number;
+          materials_items?: Json;
+          message?: string | null;
+          price_clp: number;
+          quote_id: string;
+          travel_fee_clp?: number;
+          vat_rate?: number;
+          version: number;
+        };
+        Update: {
+          additional_fees?: Json;
+          availability_date?: string;
+          availability_time_end?: string;
+          availability_time_start?: string;
+          change_request_id?: string | null;
+          changes?: Json | null;
+          created_at?: string;
+          estimated_duration_hours?: number | null;
+          id?: string;
+          includes_materials?: boolean;
+          iva_clp?: number;
+          labor_items?: Json;
+          materials_cost_clp?: number;
+          materials_items?: Json;
+          message?: string | null;
+          price_clp?: number;
+          quote_id?: string;
+          travel_fee_clp?: number;
+          vat_rate?: number;
+          version?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "quote_revisions_change_request_id_fkey";
+            columns: ["change_request_id"];
+            isOneToOne: false;
+            referencedRelation: "quote_change_requests";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "quote_revisions_quote_id_fkey";
+            columns: ["quote_id"];
+            isOneToOne: false;
+            referencedRelation: "quotes";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      quotes: {
+        Row: {
+          accepted_version: number | null;
+          additional_fees: Json;
+          availability_date: string;
+          availability_time_end: string;
+          availability_time_start: string;
+          created_at: string | null;
+          document_type: string | null;
+          estimated_duration_hours: number | null;
+          expires_at: string | null;
+          expiry_reminder_sent_at: string | null;
+          id: string;
+          includes_materials: boolean | null;
+          iva_clp: number;
+          labor_items: Json;
+          materials_cost_clp: number | null;
+          materials_items: Json;
+          message: string | null;
+          price_clp: number;
+          provider_id: string;
+          requires_onsite_confirmation: boolean;
+          service_request_id: string;
+          session_structure: Json | null;
+          site_visit_cost_clp: number | null;
+          status: "active" | "accepted" | "rejected" | "expired" | null;
+          travel_fee_clp: number;
+          updated_at: string | null;
+          vat_rate: number;
+          version: number;
+        };
+        Insert: {
+          accepted_version?: number | null;
+          additional_fees?: Json;
+          availability_date: string;
+          availability_time_end: string;
+          availability_time_start: string;
+          created_at?: string | null;
+          document_type?: string | null;
+          estimated_duration_hours?: number | null;
+          expires_at?: string | null;
+          expiry_reminder_sent_at?: string | null;
+          id?: string;
+          includes_materials?: boolean | null;
+          iva_clp?: number;
+          labor_items?: Json;
+          materials_cost_clp?: number | null;
+          materials_items?: Json;
+          message?: string | null;
+          price_clp: number;
+          provider_id: string;
+          requires_onsite_confirmation?: boolean;
+          service_request_id: string;
+          session_structure?: Json | null;
+          site_visit_cost_clp?: number | null;
+          status?: "active" | "accepted" | "rejected" | "expired" | null;
+          travel_fee_clp?: number;
+          updated_at?: string | null;
+          vat_rate?: number;
+          version?: number;
+        };
+        Update: {
+          accepted_version?: number | null;
+          additional_fees?: Json;
+          availability_date?: string;
+          availability_time_end?: string;
+          availability_time_start?: string;
+          created_at?: string | null;
+          document_type?: string | null;
+          estimated_duration_hours?: number | null;
+          expires_at?: string | null;
+          expiry_reminder_sent_at?: string | null;
+          id?: string;
+          includes_materials?: boolean | null;
+          iva_clp?: number;
+          labor_items?: Json;
+          materials_cost_clp?: number | null;
+          materials_items?: Json;
+          message?: string | null;
+          price_clp?: number;
+          provider_id?: string;
+          requires_onsite_confirmation?: boolean;
+          service_request_id?: string;
+          session_structure?: Json | null;
+          site_visit_cost_clp?: number | null;
+          status?: "active" | "accepted" | "rejected" | "expired" | null;
+          travel_fee_clp?: number;
+          updated_at?: string | null;
+          vat_rate?: number;
+          version?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "quotes_provider_id_fkey";
+            columns: ["provider_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "quotes_service_request_id_fkey";
+            columns: ["service_request_id"];
+            isOneToOne: false;
+            referencedRelation: "service_requests";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      reviews: {
+        Row: {
+          booking_id: string;
+          comment: string | null;
+          communication_rating: number | null;
+          created_at: string | null;
+          helpful_votes: number | null;
+          id: string;
+          is_featured: boolean | null;
+          is_public: boolean | null;
+          photos: string[] | null;
+          punctuality_rating: number | null;
+          quality_rating: number | null;
+          rating: number;
+          reviewee_id: string;
+          reviewer_id: string;
+          title: string | null;
+          updated_at: string | null;
+          value_rating: number | null;
+        };
+        Insert: {
+          booking_id: string;
+          comment?: string | null;
+          communication_rating?: number | null;
+          created_at?: string | null;
+          helpful_votes?: number | null;
+          id?: string;
+          is_featured?: boolean | null;
+          is_public?: boolean | null;
+          photos?: string[] | null;
+          punctuality_rating?: number | null;
+          quality_rating?: number | null;
+          rating: number;
+          reviewee_id: string;
+          reviewer_id: string;
+          title?: string | null;
+          updated_at?: string | null;
+          value_rating?: number | null;
+        };
+        Update: {
+          booking_id?: string;
+          comment?: string | null;
+          communication_rating?: number | null;
+          created_at?: string | null;
+          helpful_votes?: number | null;
+          id?: string;
+          is_featured?: boolean | null;
+          is_public?: boolean | null;
+          photos?: string[] | null;
+          punctuality_rating?: number | null;
+          quality_rating?: number | null;
+          rating?: number;
+          reviewee_id?: string;
+          reviewer_id?: string;
+          title?: string | null;
+          updated_at?: string | null;
+          value_rating?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "reviews_booking_id_fkey";
+            columns: ["booking_id"];
+            isOneToOne: false;
+            referencedRelation: "bookings";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "reviews_reviewee_id_fkey";
+            columns: ["reviewee_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "reviews_reviewer_id_fkey";
+            columns: ["reviewer_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      saved_search_matches: {
+        Row: {
+          first_seen_at: string | null;
+          provider_id: string;
+          saved_search_id: string;
+        };
+        Insert: {
+          first_seen_at?: string | null;
+          provider_id: string;
+          saved_search_id: string;
+        };
+        Update: {
+          first_seen_at?: string | null;
+          provider_id?: string;
+          saved_search_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "saved_search_matches_provider_id_fkey";
+            columns: ["provider_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "saved_search_matches_saved_search_id_fkey";
+            columns: ["saved_search_id"];
+            isOneToOne: false;
+            referencedRelation: "saved_searches";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      saved_searches: {
+        Row: {
+          alerts_enabled: boolean;
+          created_at: string | null;
+          filters: Json;
+          id: string;
+          last_match_count: number;
+          last_run_at: string | null;
+          match_weights: number[] | null;
+          name: string;
+          query: string;
+          service_ids: string[];
+          updated_at: string | null;
+          user_id: string;
+        };
+        Insert: {
+          alerts_enabled?: boolean;
+          created_at?: string | null;
+          filters?: Json;
+          id?: string;
+          last_match_count?: number;
+          last_run_at?: string | null;
+          match_weights?: number[] | null;
+          name: string;
+          query?: string;
+          service_ids: string[];
+          updated_at?: string | null;
+          user_id: string;
+        };
+        Update: {
+          alerts_enabled?: boolean;
+          created_at?: string | null;
+          filters?: Json;
+          id?: string;
+          last_match_count?: number;
+          last_run_at?: string | null;
+          match_weights?: number[] | null;
+          name?: string;
+          query?: string;
+          service_ids?: string[];
+          updated_at?: string | null;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "saved_searches_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      search_cache: {
+        Row: {
+          created_at: string | null;
+          expires_at: string | null;
+          facets: Json | null;
+          filters_hash: string | null;
+          id: string;
+          location_key: string | null;
+          provider_ids: string[] | null;
+          result_count: number | null;
+          results: Json | null;
+          search_key: string;
+          search_type: string;
+          service_ids: string[] | null;
+        };
+        Insert: {
+          created_at?: string | null;
+          expires_at?: string | null;
+          facets?: Json | null;
+          filters_hash?: string | null;
+          id?: string;
+          location_key?: string | null;
+          provider_ids?: string[] | null;
+          result_count?: number | null;
+          results?: Json | null;
+          search_key: string;
+          search_type: string;
+          service_ids?: string[] | null;
+        };
+        Update: {
+          created_at?: string | null;
+          expires_at?: string | null;
+          facets?: Json | null;
+          filters_hash?: string | null;
+          id?: string;
+          location_key?: string | null;
+          provider_ids?: string[] | null;
+          result_count?: number | null;
+          results?: Json | null;
+          search_key?: string;
+          search_type?: string;
+          service_ids?: string[] | null;
+        };
+        Relationships: [];
+      };
+      service_categories: {
+        Row: {
+          avg_price_max: number | null;
+          avg_price_min: number | null;
+          color: string | null;
+          created_at: string | null;
+          description: string | null;
+          icon: string | null;
+          id: string;
+          is_active: boolean | null;
+          name: string;
+          sort_order: number | null;
+          supports_recurrence: boolean;
+          updated_at: string | null;
+          urgency_levels: Database["public"]["Enums"]["urgency_level"][] | null;
+        };
+        Insert: {
+          avg_price_max?: number | null;
+          avg_price_min?: number | null;
+          color?: string | null;
+          created_at?: string | null;
+          description?: string | null;
+          icon?: string | null;
+          id: string;
+          is_active?: boolean | null;
+          name: string;
+          sort_order?: number | null;
+          supports_recurrence?: boolean;
+          updated_at?: string | null;
+          urgency_levels?: Database["public"]["Enums"]["urgency_level"][] | null;
+        };
+        Update: {
+          avg_price_max?: number | null;
+          avg_price_min?: number | null;
+          color?: string | null;
+          created_at?: string | null;
+          description?: string | null;
+          icon?: string | null;
+          id?: string;
+          is_active?: boolean | null;
+          name?: string;
+          sort_order?: number | null;
+          supports_recurrence?: boolean;
+          updated_at?: string | null;
+          urgency_levels?: Database["public"]["Enums"]["urgency_level"][] | null;
+        };
+        Relationships: [];
+      };
+      service_requests: {
+        Row: {
+          address_id: string;
+          budget_max_clp: number | null;
+          budget_min_clp: number | null;
+          created_at: string | null;
+          customer_id: string;
+          description: string;
+          expires_at: string | null;
+          id: string;
+          is_urgent: boolean | null;
+          photos: string[] | null;
+          preferred_date: string | null;
+          preferred_time_end: string | null;
+          preferred_time_start: string | null;
+          project_type_id: string | null;
+          requires_materials: boolean | null;
+          service_id: string;
+          status: "open" | "quoted" | "booked" | "expired" | null;
+          title: string;
+          updated_at: string | null;
+        };
+        Insert: {
+          address_id: string;
+          budget_max_clp?: number | null;
+          budget_min_clp?: number | null;
+          created_at?: string | null;
+          customer_id: string;
+          description: string;
+          expires_at?: string | null;
+          id?: string;
+          is_urgent?: boolean | null;
+          photos?: string[] | null;
+          preferred_date?: string | null;
+          preferred_time_end?: string | null;
+          preferred_time_start?: string | null;
+          project_type_id?: string | null;
+          requires_materials?: boolean | null;
+          service_id: string;
+          status?: "open" | "quoted" | "booked" | "expired" | null;
+          title: string;
+          updated_at?: string | null;
+        };
+        Update: {
+          address_id?: string;
+          budget_max_clp?: number | null;
+          budget_min_clp?: number | null;
+          created_at?: string | null;
+          customer_id?: string;
+          description?: string;
+          expires_at?: string | null;
+          id?: string;
+          is_urgent?: boolean | null;
+          photos?: string[] | null;
+          preferred_date?: string | null;
+          preferred_time_end?: string | null;
+          preferred_time_start?: string | null;
+          project_type_id?: string | null;
+          requires_materials?: boolean | null;
+          service_id?: string;
+          status?: "open" | "quoted" | "booked" | "expired" | null;
+          title?: string;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "service_requests_address_id_fkey";
+            columns: ["address_id"];
+            isOneToOne: false;
+            referencedRelation: "addresses";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "service_requests_customer_id_fkey";
+            columns: ["customer_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "service_requests_project_type_id_fkey";
+            columns: ["project_type_id"];
+            isOneToOne: false;
+            referencedRelation: "project_types";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "service_requests_service_id_fkey";
+            columns: ["service_id"];
+            isOneToOne: false;
+            referencedRelation: "services";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      services: {
+        Row: {
+          category: string;
+          created_at: string | null;
+          description: string | null;
+          icon_url: string | null;
+          id: string;
+          is_active: boolean | null;
+          name: string;
+        };
+        Insert: {
+          category: string;
+          created_at?: string | null;
+          description?: string | null;
+          icon_url?: string | null;
+          id?: string;
+          is_active?: boolean | null;
+          name: string;
+        };
+        Update: {
+          category?: string;
+          created_at?: string | null;
+          description?: string | null;
+          icon_url?: string | null;
+          id?: string;
+          is_active?: boolean | null;
+          name?: string;
+        };
+        Relationships: [];
+      };
+      users: {
+        Row: {
+          avatar_url: string | null;
+          country_code: string | null;
+          created_at: string | null;
+          email: string;
+          email_verified_at: string | null;
+          full_name: string;
+          id: string;
+          is_verified: boolean | null;
+          last_seen_at: string | null;
+          onboarding_completed: boolean | null;
+          phone_number: string | null;
+          phone_verified_at: string | null;
+          rut_number: string | null;
+          rut_verified: boolean | null;
+          updated_at: string | null;
+          user_type: Database["public"]["Enums"]["user_type"];
+        };
+        Insert: {
+          avatar_url?: string | null;
+          country_code?: string | null;
+          created_at?: string | null;
+          email: string;
+          email_verified_at?: string | null;
+          full_name: string;
+          id?: string;
+          is_verified?: boolean | null;
+          last_seen_at?: string | null;
+          onboarding_completed?: boolean | null;
+          phone_number?: string | null;
+          phone_verified_at?: string | null;
+          rut_number?: string | null;
+          rut_verified?: boolean | null;
+          updated_at?: string | null;
+          user_type?: Database["public"]["Enums"]["user_type"];
+        };
+        Update: {
+          avatar_url?: string | null;
+          country_code?: string | null;
+          created_at?: string | null;
+          email?: string;
+          email_verified_at?: string | null;
+          full_name?: string;
+          id?: string;
+          is_verified?: boolean | null;
+          last_seen_at?: string | null;
+          onboarding_completed?: boolean | null;
+          phone_number?: string | null;
+          phone_verified_at?: string | null;
+          rut_number?: string | null;
+          rut_verified?: boolean | null;
+          updated_at?: string | null;
+          user_type?: Database["public"]["Enums"]["user_type"];
+        };
+        Relationships: [];
+      };
+      verification_documents: {
+        Row: {
+          created_at: string | null;
+          document_type: "cedula_front" | "cedula_back" | "selfie" | "certificate";
+          file_name: string;
+          file_path: string;
+          file_size: number;
+          id: string;
+          provider_id: string | null;
+          updated_at: string | null;
+          upload_status: "uploading" | "uploaded" | "processing" | "verified" | "rejected" | null;
+          verification_result: Json | null;
+        };
+        Insert: {
+          created_at?: string | null;
+          document_type: "cedula_front" | "cedula_back" | "selfie" | "certificate";
+          file_name: string;
+          file_path: string;
+          file_size: number;
+          id?: string;
+          provider_id?: string | null;
+          updated_at?: string | null;
+          upload_status?: "uploading" | "uploaded" | "processing" | "verified" | "rejected" | null;
+          verification_result?: Json | null;
+        };
+        Update: {
+          created_at?: string | null;
+          document_type?: "cedula_front" | "cedula_back" | "selfie" | "certificate";
+          file_name?: string;
+          file_path?: string;
+          file_size?: number;
+          id?: string;
+          provider_id?: string | null;
+          updated_at?: string | null;
+          upload_status?: "uploading" | "uploaded" | "processing" | "verified" | "rejected" | null;
+          verification_result?: Json | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "verification_documents_provider_id_fkey";
+            columns: ["provider_id"];
+            isOneToOne: false;
+            referencedRelation: "provider_profiles";
+            referencedColumns: ["user_id"];
+          },
+        ];
+      };
+      verification_workflows: {
+        Row: {
+          completed_at: string | null;
+          created_at: string | null;
+          error_message: string | null;
+          id: string;
+          metadata: Json | null;
+          provider_id: string | null;
+          retry_count: number | null;
+          started_at: string | null;
+          status: "pending" | "in_progress" | "completed" | "failed" | null;
+          updated_at: string | null;
+          workflow_step: "documents" | "identity" | "background" | "admin_review";
+        };
+        Insert: {
+          completed_at?: string | null;
+          created_at?: string | null;
+          error_message?: string | null;
+          id?: string;
+          metadata?: Json | null;
+          provider_id?: string | null;
+          retry_count?: number | null;
+          started_at?: string | null;
+          status?: "pending" | "in_progress" | "completed" | "failed" | null;
+          updated_at?: string | null;
+          workflow_step: "documents" | "identity" | "background" | "admin_review";
+        };
+        Update: {
+          completed_at?: string | null;
+          created_at?: string | null;
+          error_message?: string | null;
+          id?: string;
+          metadata?: Json | null;
+          provider_id?: string | null;
+          retry_count?: number | null;
+          started_at?: string | null;
+          status?: "pending" | "in_progress" | "completed" | "failed" | null;
+          updated_at?: string | null;
+          workflow_step?: "documents" | "identity" | "background" | "admin_review";
+        };
+        Relationships: [
+          {
+            foreignKeyName: "verification_workflows_provider_id_fkey";
+            columns: ["provider_id"];
+            isOneToOne: false;
+            referencedRelation: "provider_profiles";
+            referencedColumns: ["user_id"];
+          },
+        ];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      accept_quote: {
+        Args: {
+          p_quote_id: string;
+        };
+        Returns: string;
+      };
+      add_job_photo: {
+        Args: {
+          p_booking_id: string;
+          p_photo_type: string;
+          p_file_path: string;
+          p_original_filename: string;
+          p_file_size: number;
+          p_mime_type: string;
+          p_taken_at?: string;
+          p_geo_location?: Json;
+          p_image_dimensions?: Json;
+          p_caption?: string;
+        };
+        Returns: Database["public"]["Tables"]["job_photos"]["Row"];
+      };
+      analyze_search_performance: {
+        Args: {
+          days_back?: number;
+        };
+        Returns: {
+          metric_name: string;
+          metric_value: number;
+          metric_unit: string;
+        }[];
+      };
+      booking_cancellation_terms: {
+        Args: {
+          p_booking_id: string;
+          p_kind: string;
+        };
+        Returns: {
+          policy_id: string;
+          policy_name: string;
+          hours_before: number;
+          fee_pct: number;
+          fee_clp: number;
+          refund_clp: number;
+          penalty_points: number;
+        }[];
+      };
+      booking_starts_at: {
+        Args: {
+          p_date: string;
+          p_time: string;
+        };
+        Returns: string;
+      };
+      booking_transition_allowed: {
+        Args: {
+          p_from: string;
+          p_to: string;
+        };
+        Returns: boolean;
+      };
+      build_search_facets: {
+        Args: {
+          p_rows: Json;
+          p_min_price?: number;
+          p_max_price?: number;
+          p_min_rating?: number;
+          p_verified_only?: boolean;
+          p_available_today?: boolean;
+        };
+        Returns: Json;
+      };
+      cache_search_results: {
+        Args: {
+          p_search_type: string;
+          p_search_key: string;
+          p_location_key: string;
+          p_filters_hash: string;
+          p_service_ids: string[];
+          p_results: Json;
+          p_facets: Json;
+          p_ttl?: string;
+        };
+        Returns: undefined;
+      };
+      calculate_distance: {
+        Args: {
+          lat1: number;
+          lng1: number;
+          lat2: number;
+          lng2: number;
+        };
+        Returns: number;
+      };
+      calculate_trust_score: {
+        Args: {
+          target_user_id?: string;
+        };
+        Returns: Json;
+      };
+      calculate_verification_score: {
+        Args: {
+          provider_id: string;
+        };
+        Returns: number;
+      };
+      can_view_request_photos: {
+        Args: {
+          p_service_request_id: string;
+        };
+        Returns: boolean;
+      };
+      cancel_booking: {
+        Args: {
+          p_booking_id: string;
+          p_reason?: string;
+        };
+        Returns: undefined;
+      };
+      cancel_recurring_bookings: {
+        Args: {
+          p_recurrence_id: string;
+          p_from: string;
+          p_until: string;
+          p_reason: string;
+          p_command: string;
+        };
+        Returns: number;
+      };
+      check_email_verification_status: {
+        Args: {
+          email_param: string;
+        };
+        Returns: {
+          user_id: string;
+          email: string;
+          email_confirmed_at: string;
+          is_verified: boolean;
+        }[];
+      };
+      check_profile_exists: {
+        Args: {
+          user_id_param: string;
+        };
+        Returns: Json;
+      };
+      clean_expired_search_cache: {
+        Args: never;
+        Returns: number;
+      };
+      complete_booking: {
+        Args: {
+          p_booking_id: string;
+          p_provider_notes?: string;
+          p_location?: Json;
+          p_care_instructions?: Json;
+        };
+        Returns: undefined;
+      };
+      confirm_booking: {
+        Args: {
+          p_booking_id: string;
+        };
+        Returns: undefined;
+      };
+      create_provider_quote_with_business_context: {
+        Args: {
+          p_project_id: string;
+          p_provider_id: string;
+          p_labor_items: Json;
+          p_materials_items: Json;
+          p_additional_fees: Json;
+          p_travel_fee_clp: number;
+          p_estimated_duration_hours: number;
+          p_hours_per_session: number;
+          p_requires_multiple_visits: boolean;
+          p_response_type: string;
+          p_requires_onsite_confirmation: boolean;
+          p_acting_as_business_id?: string;
+          p_notes?: string;
+          p_session_structure?: Json;
+          p_project_timeline_estimate?: string;
+          p_site_visit_cost?: number;
+        };
+        Returns: Json;
+      };
+      create_user_profile_safe: {
+        Args: {
+          user_id: string;
+          user_email: string;
+          user_full_name?: string;
+          user_type?: string;
+          user_phone?: string;
+        };
+        Returns: Json;
+      };
+      current_cancellation_policy: {
+        Args: {
+          p_provider_id: string;
+        };
+        Returns: Database["public"]["Tables"]["cancellation_policies"]["Row"];
+      };
+      debug_auth_user_info: {
+        Args: {
+          email_param: string;
+        };
+        Returns: Json;
+      };
+      debug_token_tracking: {
+        Args: {
+          email_param: string;
+        };
+        Returns: Json;
+      };
+      debug_user_creation_status: {
+        Args: {
+          email_param: string;
+        };
+        Returns: Json;
+      };
+      decline_quote_changes: {
+        Args: {
+          p_change_request_id: string;
+          p_response_message?: string;
+        };
+        Returns: undefined;
+      };
+      end_booking_recurrence: {
+        Args: {
+          p_recurrence_id: string;
+        };
+        Returns: number;
+      };
+      estimate_driving_distance_km: {
+        Args: {
+          p_distance_km: number;
+        };
+        Returns: number;
+      };
+      extend_quote_validity: {
+        Args: {
+          p_quote_id: string;
+          p_hours?: number;
+        };
+        Returns: string;
+      };
+      generate_recurring_bookings: {
+        Args: {
+          p_recurrence_id: string;
+        };
+        Returns: number;
+      };
+      get_calendar_feed_events: {
+        Args: {
+          p_token: string;
+        };
+        Returns: {
+          booking_id: string;
+          role: string;
+          status: string;
+          title: string;
+          description: string;
+          scheduled_date: string;
+          time_start: string;
+          time_end: string;
+          address: string;
+          contact_name: string;
+          contact_phone: string;
+          contact_email: string;
+          customer_notes: string;
+          provider_notes: string;
+          updated_at: string;
+        }[];
+      };
+      get_calendar_feed_token: {
+        Args: never;
+        Returns: string;
+      };
+      get_country_from_phone: {
+        Args: {
+          phone_number: string;
+        };
+        Returns: string;
+      };
+      get_marketplace_stats: {
+        Args: never;
+        Returns: Json;
+      };
+      get_phase1_profile_completion: {
+        Args: {
+          user_id_param: string;
+        };
+        Returns: Json;
+      };
+      get_popular_services: {
+        Args: {
+          p_commune?: string;
+          p_region?: string;
+          p_days?: number;
+          p_limit?: number;
+          p_min_volume?: number;
+        };
+        Returns: {
+          service_id: string;
+          service_name: string;
+          icon: string;
+          demand_count: number;
+          scope: string;
+        }[];
+      };
+      get_project_services: {
+        Args: {
+          p_project_id: string;
+        };
+        Returns: {
+          service_id: string;
+          service_name: string;
+          is_required: boolean;
+          provider_count: number;
+          avg_hourly_rate: number;
+        }[];
+      };
+      get_provider_available_slots: {
+        Args: {
+          p_provider_id: string;
+          p_from: string;
+          p_to: string;
+          p_duration_minutes?: number;
+          p_step_minutes?: number;
+          p_region?: string;
+        };
+        Returns: {
+          slot_date: string;
+          slot_start: string;
+          slot_end: string;
+        }[];
+      };
+      get_provider_job_feed: {
+        Args: {
+          p_provider_id: string;
+          p_limit?: number;
+          p_before_created_at?: string;
+          p_before_id?: string;
+          p_service_request_id?: string;
+        };
+        Returns: {
+          id: string;
+          title: string;
+          description: string;
+          status: string;
+          is_urgent: boolean;
+          requires_materials: boolean;
+          budget_min_clp: number;
+          budget_max_clp: number;
+          preferred_date: string;
+          preferred_time_start: string;
+          preferred_time_end: string;
+          photos: string[];
+          comuna: string;
+          region: string;
+          service_category_id: string;
+          service_name: string;
+          project_type_id: string;
+          project_type_name: string;
+          project_type_icon: string;
+          distance_km: number;
+          driving_distance_km: number;
+          quote_count: number;
+          suggested_quote: Json;
+          created_at: string;
+          expires_at: string;
+          total_count: number;
+        }[];
+      };
+      get_provider_quote_templates: {
+        Args: {
+          p_project_type_id?: string;
+        };
+        Returns: {
+          id: string;
+          project_type_id: string;
+          project_type_name: string;
+          name: string;
+          labor_items: Json;
+          materials_items: Json;
+          materials_notes: string;
+          notes: string;
+          estimated_duration_hours: number;
+          session_structure: Json;
+          quote_type: string;
+          visit_config: Json;
+          prices_changed: boolean;
+          last_used_at: string;
+          updated_at: string;
+        }[];
+      };
+      get_provider_quotes: {
+        Args: {
+          p_provider_id: string;
+        };
+        Returns: {
+          id: string;
+          service_request_id: string;
+          request_title: string;
+          comuna: string;
+          service_category_id: string;
+          service_name: string;
+          project_type_id: string;
+          project_type_name: string;
+          project_type_icon: string;
+          status: string;
+          version: number;
+          price_clp: number;
+          materials_cost_clp: number;
+          labor_items: Json;
+          materials_items: Json;
+          additional_fees: Json;
+          travel_fee_clp: number;
+          iva_clp: number;
+          total_clp: number;
+          estimated_duration_hours: number;
+          message: string;
+          expires_at: string;
+          created_at: string;
+          pending_change_request: Json;
+        }[];
+      };
+      get_provider_verification_status: {
+        Args: {
+          provider_id: string;
+        };
+        Returns: Json;
+      };
+      get_quote_document_data: {
+        Args: {
+          p_quote_id: string;
+        };
+        Returns: Json;
+      };
+      get_search_performance_stats: {
+        Args: never;
+        Returns: {
+          search_type: string;
+          total_searches: number;
+          cache_hits: number;
+          avg_result_count: number;
+          most_searched_key: string;
+        }[];
+      };
+      get_service_projects: {
+        Args: {
+          p_service_id: string;
+        };
+        Returns: {
+          project_id: string;
+          project_name: string;
+          is_required_for: boolean;
+          complexity: Database["public"]["Enums"]["complexity_level"];
+          avg_price_min: number;
+          avg_price_max: number;
+        }[];
+      };
+      get_service_request_quotes: {
+        Args: {
+          p_service_request_id: string;
+        };
+        Returns: {
+          id: string;
+          provider_id: string;
+          provider_name: string;
+          business_name: string;
+          avatar_url: string;
+          rating: number;
+          total_reviews: number;
+          total_jobs_completed: number;
+          verification_score: number;
+          is_identity_verified: boolean;
+          is_background_checked: boolean;
+          trust_level: string;
+          status: string;
+          price_clp: number;
+          materials_cost_clp: number;
+          includes_materials: boolean;
+          labor_items: Json;
+          materials_items: Json;
+          additional_fees: Json;
+          travel_fee_clp: number;
+          document_type: string;
+          vat_rate: number;
+          iva_clp: number;
+          total_clp: number;
+          estimated_duration_hours: number;
+          session_structure: Json;
+          requires_onsite_confirmation: boolean;
+          site_visit_cost_clp: number;
+          message: string;
+          availability_date: string;
+          availability_time_start: string;
+          availability_time_end: string;
+          expires_at: string;
+          created_at: string;
+          version: number;
+          accepted_version: number;
+          pending_change_request: Json;
+        }[];
+      };
+      get_simple_profile_status: {
+        Args: never;
+        Returns: Json;
+      };
+      get_user_profile_status: {
+        Args: never;
+        Returns: Json;
+      };
+      get_user_profile_status_enterprise: {
+        Args: never;
+        Returns: Json;
+      };
+      handle_email_confirmation: {
+        Args: {
+          user_id: string;
+        };
+        Returns: Json;
+      };
+      initialize_chilean_compliance: {
+        Args: {
+          rut_number?: string;
+        };
+        Returns: Json;
+      };
+      lock_booking_for_command: {
+        Args: {
+          p_booking_id: string;
+          p_command: string;
+        };
+        Returns: Database["public"]["Tables"]["bookings"]["Row"];
+      };
+      lock_booking_recurrence: {
+        Args: {
+          p_recurrence_id: string;
+        };
+        Returns: Database["public"]["Tables"]["booking_recurrences"]["Row"];
+      };
+      log_slow_search_queries: {
+        Args: never;
+        Returns: {
+          query_text: string;
+          calls: number;
+          total_time: number;
+          mean_time: number;
+        }[];
+      };
+      maintenance_search_system: {
+        Args: never;
+        Returns: string;
+      };
+      mark_booking_no_show: {
+        Args: {
+          p_booking_id: string;
+        };
+        Returns: string;
+      };
+      pause_booking_recurrence: {
+        Args: {
+          p_recurrence_id: string;
+          p_until?: string;
+        };
+        Returns: number;
+      };
+      phase1_system_health: {
+        Args: never;
+        Returns: Json;
+      };
+      phase2_system_health: {
+        Args: never;
+        Returns: Json;
+      };
+      preview_booking_cancellation: {
+        Args: {
+          p_booking_id: string;
+        };
+        Returns: {
+          policy_name: string;
+          hours_before: number;
+          fee_pct: number;
+          fee_clp: number;
+          refund_clp: number;
+          penalty_points: number;
+          cancelled_by: string;
+        }[];
+      };
+      price_quote_template_items: {
+        Args: {
+          p_labor_items: Json;
+          p_hourly_rate_clp: number;
+          p_base_price_clp: number;
+        };
+        Returns: Json;
+      };
+      propose_booking_recurrence: {
+        Args: {
+          p_booking_id: string;
+          p_frequency: string;
+          p_weekdays?: number[];
+          p_ends_on?: string;
+          p_holiday_policy?: string;
+        };
+        Returns: string;
+      };
+      provider_busy_intervals: {
+        Args: {
+          p_provider_id: string;
+          p_date: string;
+          p_exclude_booking_id?: string;
+        };
+        Returns: {
+          busy_start: string;
+          busy_end: string;
+        }[];
+      };
+      provider_day_is_full: {
+        Args: {
+          p_provider_id: string;
+          p_date: string;
+          p_exclude_booking_id?: string;
+        };
+        Returns: boolean;
+      };
+      provider_is_off: {
+        Args: {
+          p_holiday_availability: Json;
+          p_date: string;
+          p_region?: string;
+        };
+        Returns: boolean;
+      };
+      provider_next_free_slot: {
+        Args: {
+          p_provider_id: string;
+          p_working_hours: Json;
+          p_holiday_availability: Json;
+          p_region: string;
+          p_from: string;
+          p_duration?: string;
+          p_days_ahead?: number;
+        };
+        Returns: string;
+      };
+      provider_relevance_score: {
+        Args: {
+          p_match_strength: number;
+          p_rating: number;
+          p_is_verified: boolean;
+          p_response_time_hours: number;
+          p_distance_km: number;
+        };
+        Returns: number;
+      };
+      provider_reliability_points: {
+        Args: {
+          p_provider_id: string;
+        };
+        Returns: number;
+      };
+      provider_schedule_conflict: {
+        Args: {
+          p_provider_id: string;
+          p_date: string;
+          p_start: string;
+          p_end: string;
+          p_exclude_booking_id?: string;
+        };
+        Returns: string;
+      };
+      provider_slot_is_free: {
+        Args: {
+          p_provider_id: string;
+          p_working_hours: Json;
+          p_holiday_availability: Json;
+          p_region: string;
+          p_date: string;
+          p_start: string;
+          p_end: string;
+        };
+        Returns: boolean;
+      };
+      provider_trust_level: {
+        Args: {
+          p_verification_score: number;
+          p_rating: number;
+          p_total_reviews: number;
+        };
+        Returns: string;
+      };
+      provider_working_window: {
+        Args: {
+          p_working_hours: Json;
+          p_date: string;
+        };
+        Returns: {
+          window_start: string;
+          window_end: string;
+        }[];
+      };
+      quick_search: {
+        Args: {
+          p_query: string;
+          p_search_type?: string;
+          p_limit?: number;
+        };
+        Returns: {
+          item_type: string;
+          item_id: string;
+          title: string;
+          subtitle: string;
+          icon: string;
+          category: string;
+        }[];
+      };
+      quote_items_diff: {
+        Args: {
+          p_old: Json;
+          p_new: Json;
+        };
+        Returns: Json;
+      };
+      recurrence_dates: {
+        Args: {
+          p_frequency: string;
+          p_weekdays: number[];
+          p_starts_on: string;
+          p_from: string;
+          p_to: string;
+        };
+        Returns: string[];
+      };
+      refresh_search_materialized_views: {
+        Args: never;
+        Returns: string;
+      };
+      remove_provider_cancellation_policy: {
+        Args: never;
+        Returns: undefined;
+      };
+      replace_external_busy_blocks: {
+        Args: {
+          p_calendar_id: string;
+          p_blocks: Json;
+          p_error?: string;
+        };
+        Returns: number;
+      };
+      request_quote_changes: {
+        Args: {
+          p_quote_id: string;
+          p_topics: string[];
+          p_proposed_price_clp?: number;
+          p_proposed_date?: string;
+          p_proposed_time_start?: string;
+          p_proposed_time_end?: string;
+          p_materials_note?: string;
+          p_message?: string;
+        };
+        Returns: string;
+      };
+      request_service_id: {
+        Args: {
+          p_category_id?: string;
+          p_project_type_id?: string;
+        };
+        Returns: string;
+      };
+      reschedule_booking: {
+        Args: {
+          p_booking_id: string;
+          p_date: string;
+          p_time_start: string;
+          p_time_end: string;
+        };
+        Returns: string;
+      };
+      respond_booking_recurrence: {
+        Args: {
+          p_recurrence_id: string;
+          p_accept: boolean;
+        };
+        Returns: number;
+      };
+      resume_booking_recurrence: {
+        Args: {
+          p_recurrence_id: string;
+        };
+        Returns: number;
+      };
+      revise_quote: {
+        Args: {
+          p_quote_id: string;
+          p_price_clp: number;
+          p_materials_cost_clp?: number;
+          p_includes_materials?: boolean;
+          p_labor_items?: Json;
+          p_materials_items?: Json;
+          p_additional_fees?: Json;
+          p_travel_fee_clp?: number;
+          p_vat_rate?: number;
+          p_iva_clp?: number;
+          p_estimated_duration_hours?: number;
+          p_availability_date?: string;
+          p_availability_time_start?: string;
+          p_availability_time_end?: string;
+          p_message?: string;
+          p_change_request_id?: string;
+        };
+        Returns: number;
+      };
+      rotate_calendar_feed_token: {
+        Args: never;
+        Returns: string;
+      };
+      run_booking_recurrences: {
+        Args: {
+          p_batch_size?: number;
+        };
+        Returns: {
+          recurrences_ended: number;
+          recurrences_resumed: number;
+          bookings_created: number;
+        }[];
+      };
+      run_care_reminders: {
+        Args: never;
+        Returns: number;
+      };
+      run_quote_expiry: {
+        Args: {
+          p_batch_size?: number;
+          p_reminder_window?: string;
+        };
+        Returns: {
+          requests_expired: number;
+          quotes_expired: number;
+          reminders_sent: number;
+        }[];
+      };
+      run_saved_search_alerts: {
+        Args: {
+          p_batch_size?: number;
+        };
+        Returns: number;
+      };
+      save_provider_cancellation_policy: {
+        Args: {
+          p_name: string;
+          p_customer_tiers: Json;
+          p_provider_tiers: Json;
+          p_customer_no_show_fee_pct: number;
+          p_provider_no_show_penalty_points: number;
+          p_max_reschedules: number;
+          p_reschedule_min_hours_before: number;
+        };
+        Returns: string;
+      };
+      search_facets_by_project: {
+        Args: {
+          p_project_id: string;
+          p_match_weight?: number;
+          p_commune?: string;
+          p_region?: string;
+          p_min_price?: number;
+          p_max_price?: number;
+          p_min_rating?: number;
+          p_verified_only?: boolean;
+          p_available_today?: boolean;
+          p_search_text?: string;
+          p_latitude?: number;
+          p_longitude?: number;
+          p_max_distance_km?: number;
+          p_slot_date?: string;
+          p_slot_start?: string;
+          p_slot_end?: string;
+        };
+        Returns: Json;
+      };
+      search_facets_by_service: {
+        Args: {
+          p_service_ids: string[];
+          p_match_weights?: number[];
+          p_commune?: string;
+          p_region?: string;
+          p_min_price?: number;
+          p_max_price?: number;
+          p_min_rating?: number;
+          p_verified_only?: boolean;
+          p_available_today?: boolean;
+          p_urgency?: Database["public"]["Enums"]["urgency_level"];
+          p_search_text?: string;
+          p_latitude?: number;
+          p_longitude?: number;
+          p_max_distance_km?: number;
+          p_slot_date?: string;
+          p_slot_start?: string;
+          p_slot_end?: string;
+        };
+        Returns: Json;
+      };
+      search_material_catalog: {
+        Args: {
+          p_query?: string;
+          p_service_id?: string;
+          p_limit?: number;
+        };
+        Returns: {
+          id: string;
+          service_id: string;
+          name: string;
+          brand: string;
+          unit: string;
+          reference_price_clp: number;
+          provider_price_clp: number;
+          market_price_clp: number;
+        }[];
+      };
+      search_providers_by_project: {
+        Args: {
+          p_project_id: string;
+          p_match_weight?: number;
+          p_commune?: string;
+          p_region?: string;
+          p_min_price?: number;
+          p_max_price?: number;
+          p_min_rating?: number;
+          p_verified_only?: boolean;
+          p_available_today?: boolean;
+          p_search_text?: string;
+          p_latitude?: number;
+          p_longitude?: number;
+          p_max_distance_km?: number;
+          p_sort_by?: string;
+          p_limit?: number;
+          p_offset?: number;
+          p_slot_date?: string;
+          p_slot_start?: string;
+          p_slot_end?: string;
+        };
+        Returns: {
+          provider_id: string;
+          user_name: string;
+          business_name: string;
+          avatar_url: string;
+          rating: number;
+          total_reviews: number;
+          verification_status: Database["public"]["Enums"]["verification_status"];
+          is_verified: boolean;
+          base_price_clp: number;
+          can_provide_estimate: boolean;
+          response_time_hours: number;
+          is_available_today: boolean;
+          service_areas: string[];
+          latitude: number;
+          longitude: number;
+          distance_km: number;
+          driving_distance_km: number;
+          specialties: string[];
+          languages: string[];
+          certifications: string[];
+          total_jobs_completed: number;
+          portfolio_count: number;
+          required_services: string[];
+          optional_services: string[];
+          matching_services_count: number;
+          business_info: Json;
+          match_strength: number;
+          relevance_score: number;
+          next_free_slot: string;
+          total_count: number;
+        }[];
+      };
+      search_providers_by_service: {
+        Args: {
+          p_service_ids: string[];
+          p_match_weights?: number[];
+          p_commune?: string;
+          p_region?: string;
+          p_min_price?: number;
+          p_max_price?: number;
+          p_min_rating?: number;
+          p_verified_only?: boolean;
+          p_available_today?: boolean;
+          p_urgency?: Database["public"]["Enums"]["urgency_level"];
+          p_search_text?: string;
+          p_latitude?: number;
+          p_longitude?: number;
+          p_max_distance_km?: number;
+          p_sort_by?: string;
+          p_limit?: number;
+          p_offset?: number;
+          p_slot_date?: string;
+          p_slot_start?: string;
+          p_slot_end?: string;
+        };
+        Returns: {
+          provider_id: string;
+          user_name: string;
+          business_name: string;
+          avatar_url: string;
+          rating: number;
+          total_reviews: number;
+          verification_status: Database["public"]["Enums"]["verification_status"];
+          is_verified: boolean;
+          matched_service_id: string;
+          hourly_rate_clp: number;
+          fixed_rate_clp: number;
+          response_time_hours: number;
+          is_available_today: boolean;
+          service_areas: string[];
+          latitude: number;
+          longitude: number;
+          distance_km: number;
+          driving_distance_km: number;
+          specialties: string[];
+          languages: string[];
+          certifications: string[];
+          total_jobs_completed: number;
+          business_info: Json;
+          portfolio_count: number;
+          match_strength: number;
+          relevance_score: number;
+          next_free_slot: string;
+          total_count: number;
+        }[];
+      };
+      search_providers_cached: {
+        Args: {
+          p_search_type: string;
+          p_params: Json;
+        };
+        Returns: Json;
+      };
+      skip_booking_occurrence: {
+        Args: {
+          p_recurrence_id: string;
+          p_occurrence_date: string;
+        };
+        Returns: undefined;
+      };
+      start_booking: {
+        Args: {
+          p_booking_id: string;
+          p_location?: Json;
+        };
+        Returns: undefined;
+      };
+      stop_care_reminder: {
+        Args: {
+          p_instruction_id: string;
+        };
+        Returns: undefined;
+      };
+      valid_cancellation_tiers: {
+        Args: {
+          p_tiers: Json;
+          p_key: string;
+          p_max: number;
+        };
+        Returns: boolean;
+      };
+      valid_geo_location: {
+        Args: {
+          p_location: Json;
+        };
+        Returns: boolean;
+      };
+      valid_working_hours: {
+        Args: {
+          p_working_hours: Json;
+        };
+        Returns: boolean;
+      };
+      validate_rut: {
+        Args: {
+          rut: string;
+        };
+        Returns: boolean;
+      };
+    };
+    Enums: {
+      address_type: "home" | "work" | "other";
+      booking_status: "pending" | "accepted" | "confirmed" | "in_progress" | "completed" | "payment_released" | "cancelled" | "disputed" | "no_show";
+      complexity_level: "simple" | "medium" | "complex";
+      dispute_status: "open" | "investigating" | "resolved" | "closed";
+      notification_type: "booking_request" | "booking_accepted" | "booking_cancelled" | "payment_received" | "job_completed" | "review_received" | "message_received" | "verification_approved" | "verification_rejected" | "dispute_opened" | "saved_search_match" | "quote_changes_requested" | "quote_revised" | "quote_changes_declined" | "quote_expiring" | "quote_expired" | "quote_extended" | "service_request_expired" | "booking_confirmed" | "booking_started" | "booking_rescheduled" | "booking_no_show" | "booking_recurrence_proposed" | "booking_recurrence_updated" | "booking_recurrence_conflict" | "care_instructions" | "care_reminder";
+      payment_method: "credit_card" | "bank_transfer" | "transbank" | "mercadopago" | "klarna";
+      payment_status: "pending" | "authorized" | "captured" | "released" | "refunded" | "failed";
+      project_category: "interior" | "exterior" | "electrical" | "plumbing" | "maintenance" | "cleaning" | "construction";
+      urgency_level: "normal" | "urgente" | "emergencia";
+      user_type: "consumer" | "provider" | "customer" | "admin";
+      verification_status: "pending" | "in_review" | "approved" | "rejected";
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+type PublicSchema = Database["public"];
+
+export type Tables<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Row"];
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Insert"];
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Update"];
+export type Enums<T extends keyof PublicSchema["Enums"]> = PublicSchema["Enums"][T];
+export type FunctionArgs<T extends keyof PublicSchema["Functions"]> = PublicSchema["Functions"][T]["Args"];
+export type FunctionReturns<T extends keyof PublicSchema["Functions"]> = PublicSchema["Functions"][T]["Returns"];
+
+export const Constants = {
+  public: {
+    Enums: {
+      address_type: ["home", "work", "other"],
+      booking_status: ["pending", "accepted", "confirmed", "in_progress", "completed", "payment_released", "cancelled", "disputed", "no_show"],
+      complexity_level: ["simple", "medium", "complex"],
+      dispute_status: ["open", "investigating", "resolved", "closed"],
+      notification_type: ["booking_request", "booking_accepted", "booking_cancelled", "payment_received", "job_completed", "review_received", "message_received", "verification_approved", "verification_rejected", "dispute_opened", "saved_search_match", "quote_changes_requested", "quote_revised", "quote_changes_declined", "quote_expiring", "quote_expired", "quote_extended", "service_request_expired", "booking_confirmed", "booking_started", "booking_rescheduled", "booking_no_show", "booking_recurrence_proposed", "booking_recurrence_updated", "booking_recurrence_conflict", "care_instructions", "care_reminder"],
+      payment_method: ["credit_card", "bank_transfer", "transbank", "mercadopago", "klarna"],
+      payment_status: ["pending", "authorized", "captured", "released", "refunded", "failed"],
+      project_category: ["interior", "exterior", "electrical", "plumbing", "maintenance", "cleaning", "construction"],
+      urgency_level: ["normal", "urgente", "emergencia"],
+      user_type: ["consumer", "provider", "customer", "admin"],
+      verification_status: ["pending", "in_review", "approved", "rejected"],
+    },
+  },
+} as const;
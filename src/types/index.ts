@@ -1,3 +1,6 @@
+import type { QuoteJob } from './providerJobs';
+import type { QuoteRevisionTarget } from './quoteNegotiation';
+
 // Core user types for Manito marketplace
 export type UserType = 'customer' | 'provider';
 
@@ -361,13 +364,23 @@ export type AuthStackParamList = {
 };
 
 export type MainStackParamList = {
-  Home: undefined;
+  Home: { savedSearchId?: string } | undefined;
+  ServiceRequest: undefined;
+  Quotes: { serviceRequestId?: string } | undefined;
   Profile: undefined;
   CustomerProfile: undefined;
   MainTabs: undefined;
+  CustomerBookings: undefined;
+  BookingDetail: { bookingId: string };
   ProviderProfile: undefined;
   ProfileManagement: undefined;
   ProviderVerification: undefined;
+  ProviderJobs: undefined;
+  // quoteId highlights the quote a notification is about
+  ProviderQuotes: { quoteId?: string } | undefined;
+  ProviderQuote: { job: QuoteJob; revision?: QuoteRevisionTarget };
+  ProviderBookings: undefined;
+  JobExecution: { bookingId: string };
 };
 
 export type ProfileSetupStackParamList = {
@@ -405,186 +418,5 @@ export const AMERICAS_COUNTRIES: Record<string, CountryInfo> = {
   'VE': { code: '+58', name: 'Venezuela', flag: '🇻🇪' },
 } as const;
 
-// Supabase Database Types (matching deployed schema)
-export interface Database {
-  public: {
-    Tables: {
-      users: {
-        Row: {
-          id: string;
-          email: string;
-          full_name: string | null;
-          user_type: 'customer' | 'provider' | 'admin';
-          phone_number: string | null;
-          whatsapp_number: string | null;
-          rut_number: string | null;
-          is_verified: boolean;
-          created_at: string;
-          updated_at: string;
-        };
-        Insert: {
-          id?: string;
-          email: string;
-          full_name?: string | null;
-          user_type?: 'customer' | 'provider' | 'admin';
-          phone_number?: string | null;
-          whatsapp_number?: string | null;
-          rut_number?: string | null;
-          is_verified?: boolean;
-          created_at?: string;
-          updated_at?: string;
-        };
-        Update: {
-          id?: string;
-          email?: string;
-          full_name?: string | null;
-          user_type?: 'customer' | 'provider' | 'admin';
-          phone_number?: string | null;
-          whatsapp_number?: string | null;
-          rut_number?: string | null;
-          is_verified?: boolean;
-          created_at?: string;
-          updated_at?: string;
-        };
-      };
-      provider_profiles: {
-        Row: {
-          id: string;
-          user_id: string;
-          business_name: string | null;
-          services_offered: string[];
-          service_areas: string[];
-          comuna: string;
-          verification_status: 'pending' | 'in_review' | 'approved' | 'rejected';
-          verification_score: number;
-          is_identity_verified: boolean;
-          is_background_checked: boolean;
-          created_at: string;
-          updated_at: string;
-        };
-        Insert: {
-          id?: string;
-          user_id: string;
-          business_name?: string | null;
-          services_offered?: string[];
-          service_areas?: string[];
-          comuna: string;
-          verification_status?: 'pending' | 'in_review' | 'approved' | 'rejected';
-          verification_score?: number;
-          is_identity_verified?: boolean;
-          is_background_checked?: boolean;
-          created_at?: string;
-          updated_at?: string;
-        };
-        Update: {
-          id?: string;
-          user_id?: string;
-          business_name?: string | null;
-          services_offered?: string[];
-          service_areas?: string[];
-          comuna?: string;
-          verification_status?: 'pending' | 'in_review' | 'approved' | 'rejected';
-          verification_score?: number;
-          is_identity_verified?: boolean;
-          is_background_checked?: boolean;
-          created_at?: string;
-          updated_at?: string;
-        };
-      };
-      verification_documents: {
-        Row: {
-          id: string;
-          provider_id: string;
-          document_type: 'cedula_front' | 'cedula_back' | 'selfie' | 'certificate';
-          file_path: string;
-          file_name: string;
-          file_size: number;
-          upload_status: 'uploading' | 'uploaded' | 'processing' | 'verified' | 'rejected';
-          verification_result: any | null;
-          created_at: string;
-          updated_at: string;
-        };
-        Insert: {
-          id?: string;
-          provider_id: string;
-          document_type: 'cedula_front' | 'cedula_back' | 'selfie' | 'certificate';
-          file_path: string;
-          file_name: string;
-          file_size: number;
-          upload_status?: 'uploading' | 'uploaded' | 'processing' | 'verified' | 'rejected';
-          verification_result?: any | null;
-          created_at?: string;
-          updated_at?: string;
-        };
-        Update: {
-          id?: string;
-          provider_id?: string;
-          document_type?: 'cedula_front' | 'cedula_back' | 'selfie' | 'certificate';
-          file_path?: string;
-          file_name?: string;
-          file_size?: number;
-          upload_status?: 'uploading' | 'uploaded' | 'processing' | 'verified' | 'rejected';
-          verification_result?: any | null;
-          created_at?: string;
-          updated_at?: string;
-        };
-      };
-      verification_workflows: {
-        Row: {
-          id: string;
-          provider_id: string;
-          workflow_step: 'documents' | 'identity' | 'background' | 'admin_review';
-          status: 'pending' | 'in_progress' | 'completed' | 'failed';
-          started_at: string;
-          completed_at: string | null;
-          error_message: string | null;
-          retry_count: number;
-          metadata: any | null;
-          created_at: string;
-          updated_at: string;
-        };
-        Insert: {
-          id?: string;
-          provider_id: string;
-          workflow_step: 'documents' | 'identity' | 'background' | 'admin_review';
-          status?: 'pending' | 'in_progress' | 'completed' | 'failed';
-          started_at?: string;
-          completed_at?: string | null;
-          error_message?: string | null;
-          retry_count?: number;
-          metadata?: any | null;
-          created_at?: string;
-          updated_at?: string;
-        };
-        Update: {
-          id?: string;
-          provider_id?: string;
-          workflow_step?: 'documents' | 'identity' | 'background' | 'admin_review';
-          status?: 'pending' | 'in_progress' | 'completed' | 'failed';
-          started_at?: string;
-          completed_at?: string | null;
-          error_message?: string | null;
-          retry_count?: number;
-          metadata?: any | null;
-          created_at?: string;
-          updated_at?: string;
-        };
-      };
-    };
-    Functions: {
-      get_provider_verification_status: {
-        Args: { provider_id: string };
-        Returns: {
-          verification_status: string;
-          verification_score: number;
-          missing_documents: string[];
-          next_steps: string[];
-        };
-      };
-      calculate_verification_score: {
-        Args: { provider_id: string };
-        Returns: number;
-      };
-    };
-  };
-}
\ No newline at end of file
+// Supabase Database types, generated from supabase/migrations (see scripts/generate-database-types.js)
+export type { Database, Json, Tables, TablesInsert, TablesUpdate, Enums } from './database';
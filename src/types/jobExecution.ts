@@ -0,0 +1,61 @@
+// Job execution on site: check-in and check-out with before/after photos, and the
+// timeline both parties see
+
+import { Tables } from './database';
+import { BookingStatus } from './booking';
+import { GeoLocation, PhotoType } from './storage';
+
+export type JobPhotoRow = Tables<'job_photos'>;
+
+// A photo attached to a booking, with a short-lived URL to show it
+export interface BookingPhoto {
+  id: string;
+  type: PhotoType;
+  path: string;
+  url: string | null;
+  caption: string | null;
+  takenAt: string;
+  location: GeoLocation | null;
+}
+
+export interface JobExecution {
+  bookingId: string;
+  status: BookingStatus;
+  title: string;
+  scheduledDate: string; // 'YYYY-MM-DD'
+  timeStart: string; // 'HH:MM'
+  timeEnd: string;
+  confirmedAt: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  checkInLocation: GeoLocation | null;
+  checkOutLocation: GeoLocation | null;
+  providerNotes: string | null;
+  // From the service request, to suggest care instructions at check-out
+  projectTypeId: string | null;
+  projectCategory: string | null;
+  photos: BookingPhoto[];
+}
+
+// A visit still ahead of the provider, listed in ProviderBookingsScreen
+export interface ProviderAgendaBooking {
+  id: string;
+  status: BookingStatus;
+  title: string;
+  scheduledDate: string; // 'YYYY-MM-DD'
+  timeStart: string; // 'HH:MM'
+  timeEnd: string;
+}
+
+// Where the provider is in the visit; derived from status and photos, never stored
+export type JobExecutionStep = 'waiting' | 'arrival' | 'working' | 'finished' | 'closed';
+
+export type JobTimelineEventKind = 'scheduled' | 'confirmed' | 'check_in' | 'photos' | 'check_out';
+
+export interface JobTimelineEvent {
+  kind: JobTimelineEventKind;
+  at: string; // ISO timestamp
+  title: string;
+  detail?: string;
+  photos?: BookingPhoto[];
+}
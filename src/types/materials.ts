@@ -0,0 +1,29 @@
+// Materials catalog for MaterialsEditor: shared items per service category plus the provider's own prices
+
+import { Tables } from './database';
+import { QuoteMaterialItem } from './quoteInbox';
+
+export type MaterialCatalogRow = Tables<'material_catalog_items'>;
+
+export type MaterialUnit = MaterialCatalogRow['unit'];
+
+export interface CatalogMaterial {
+  id: string;
+  serviceId: string | null; // null = any trade
+  name: string;
+  brand: string | null;
+  unit: MaterialUnit;
+  referencePrice: number;
+  providerPrice: number | null; // the provider's saved price, if any
+  marketPrice: number | null; // median quoted by other providers, last 180 days
+}
+
+// A row in MaterialsEditor; id is local to the editor
+export interface MaterialItem extends QuoteMaterialItem {
+  id?: string;
+}
+
+export interface ProviderMaterialPrice {
+  catalogItemId: string;
+  priceClp: number;
+}
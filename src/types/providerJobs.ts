@@ -0,0 +1,112 @@
+// Provider job feed types: open service requests a provider can quote
+
+import { QuoteLineItem, QuoteMaterialItem, QuoteSessionStructure } from './quoteInbox';
+import { QuoteChangeRequest } from './quoteNegotiation';
+
+// Where the suggested labor price came from, most specific first; 'current_quote' when
+// a new version starts from the quote already sent
+export type SuggestedQuoteSource = 'base_pricing' | 'project' | 'fixed_rate' | 'hourly_rate' | 'catalog' | 'current_quote';
+
+export interface SuggestedLaborItem {
+  name: string;
+  description?: string;
+  amount: number;
+}
+
+export interface SuggestedQuote {
+  total_clp: number;
+  estimated_duration_hours: number;
+  pricing_source: SuggestedQuoteSource;
+  notes: string | null;
+  calculation_breakdown: {
+    labor_subtotal: number;
+    materials_subtotal: number;
+    travel_fee_clp: number;
+    fees_subtotal: number;
+    labor_items: SuggestedLaborItem[];
+  };
+}
+
+export interface AvailableJob {
+  id: string;
+  project_id: string; // same as id; the quote RPCs call the job a project
+  title: string;
+  description: string;
+  status: 'open' | 'quoted';
+  is_urgent: boolean;
+  requires_materials: boolean;
+  budget_min_clp: number | null;
+  budget_max_clp: number | null;
+  preferred_date: string | null; // 'YYYY-MM-DD'
+  preferred_time_start: string | null; // 'HH:MM:SS'
+  preferred_time_end: string | null;
+  photos: string[]; // object paths in the job-photos bucket
+  comuna: string;
+  region: string;
+  service: { id: string; name: string };
+  // The project the customer picked, or the service category when they picked a broad service
+  project_type: { id: string | null; name: string; icon: string | null };
+  distance_km: number | null;
+  driving_distance_km: number | null;
+  quote_count: number;
+  suggested_quote: SuggestedQuote | null;
+  created_at: string;
+  expires_at: string | null;
+}
+
+// What QuoteScreen needs from a job, whether it comes from the feed or from a quote
+// already sent
+export type QuoteJob = Pick<AvailableJob, 'project_id' | 'service' | 'project_type' | 'suggested_quote'>;
+
+// The feed is paged on (created_at, id); the next page starts after this job
+export interface JobFeedCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface AvailableJobsPage {
+  jobs: AvailableJob[];
+  totalCount: number;
+  hasMore: boolean;
+  nextCursor: JobFeedCursor | null;
+}
+
+// Itemized quote for create_provider_quote_with_business_context; the database
+// computes the totals and IVA from the items
+export interface ProviderQuoteInput {
+  actingAsBusinessId?: string | null;
+  laborItems: QuoteLineItem[];
+  materialsItems: QuoteMaterialItem[];
+  additionalFees: QuoteLineItem[];
+  travelFeeClp: number;
+  estimatedDurationHours: number;
+  sessionStructure?: QuoteSessionStructure;
+  notes?: string;
+  // Set when the price must be confirmed on a paid site visit
+  siteVisitCostClp?: number;
+}
+
+// One of the provider's own quotes on a request that still accepts quotes
+export interface ProviderQuote {
+  id: string;
+  serviceRequestId: string;
+  requestTitle: string;
+  comuna: string | null;
+  status: 'active' | 'expired';
+  version: number;
+  totalClp: number;
+  materialsItems: QuoteMaterialItem[];
+  expiresAt: string | null;
+  createdAt: string;
+  // The customer's request waiting on the provider, if any
+  pendingChangeRequest: QuoteChangeRequest | null;
+  // The quote as a job QuoteScreen can open to send a new version
+  job: QuoteJob;
+}
+
+export interface JobFeedHandlers {
+  // A job entered the feed or changed (new request, more quotes, edited details)
+  onJob: (job: AvailableJob) => void;
+  // A job left the feed (booked, expired, deleted or no longer a match)
+  onRemove: (jobId: string) => void;
+}
@@ -0,0 +1,14 @@
+/**
+ * Quote PDF documents rendered by the quote-pdf edge function
+ */
+
+export interface QuoteDocument {
+  // Signed URL, valid for 7 days
+  url: string;
+  path: string;
+  // e.g. COT-3F2A91C0-v2
+  documentNumber: string;
+  version: number;
+}
+
+export type QuoteShareChannel = 'whatsapp' | 'email' | 'other';
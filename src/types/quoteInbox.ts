@@ -0,0 +1,95 @@
+// Customer quote inbox types: the quotes on a service request, side by side
+
+import { ServiceRequestRow } from './serviceRequest';
+import { QuoteChangeRequest } from './quoteNegotiation';
+
+// Same levels as TrustScoreResult.trust_level
+export type TrustLevel = 'unverified' | 'basic' | 'verified' | 'premium' | 'elite';
+
+export interface QuoteLineItem {
+  name: string;
+  description?: string | null;
+  amount: number;
+}
+
+export interface QuoteMaterialItem {
+  name: string;
+  quantity: number;
+  unit: string;
+  price_per_unit: number;
+  subtotal: number;
+  // Set when the item was picked from the materials catalog
+  catalog_item_id?: string | null;
+}
+
+export interface QuoteSession {
+  hours: number;
+  description?: string;
+}
+
+export interface QuoteSessionStructure {
+  sessions: QuoteSession[];
+}
+
+// All amounts in CLP; subtotal is before IVA
+export interface QuoteBreakdown {
+  laborItems: QuoteLineItem[];
+  materialsItems: QuoteMaterialItem[];
+  additionalFees: QuoteLineItem[];
+  laborSubtotal: number;
+  materialsSubtotal: number;
+  travelFee: number;
+  feesSubtotal: number;
+  subtotal: number;
+  vatRate: number;
+  iva: number;
+  total: number;
+}
+
+export interface CustomerQuote {
+  id: string;
+  serviceRequestId: string;
+  status: 'active' | 'accepted';
+  provider: {
+    id: string;
+    name: string;
+    businessName: string | null;
+    avatarUrl: string | null;
+    rating: number | null;
+    totalReviews: number;
+    totalJobsCompleted: number;
+    verificationScore: number;
+    isIdentityVerified: boolean;
+    isBackgroundChecked: boolean;
+    trustLevel: TrustLevel;
+  };
+  breakdown: QuoteBreakdown;
+  includesMaterials: boolean;
+  documentType: string | null;
+  estimatedDurationHours: number | null;
+  sessionStructure: QuoteSessionStructure | null;
+  requiresOnsiteConfirmation: boolean;
+  siteVisitCost: number | null;
+  message: string | null;
+  availability: { date: string; start: string; end: string };
+  expiresAt: string | null;
+  createdAt: string;
+  version: number;
+  acceptedVersion: number | null;
+  // Change request the provider has not answered yet
+  pendingChangeRequest: QuoteChangeRequest | null;
+}
+
+// A request in the inbox list with a summary of its quotes
+export interface QuoteInboxRequest {
+  id: string;
+  title: string;
+  status: NonNullable<ServiceRequestRow['status']>;
+  createdAt: string;
+  expiresAt: string | null;
+  activeQuoteCount: number;
+  lowestTotal: number | null;
+}
+
+// What a quote stands out for in the comparison
+export type QuoteHighlight = 'lowest_price' | 'shortest_duration' | 'best_rated' | 'most_trusted' | 'earliest_date';
@@ -0,0 +1,107 @@
+// Quote negotiation types: customer change requests and the provider's revised versions
+
+import { Tables } from './database';
+import { QuoteLineItem, QuoteMaterialItem } from './quoteInbox';
+
+export type QuoteRevisionRow = Tables<'quote_revisions'>;
+export type QuoteChangeRequestRow = Tables<'quote_change_requests'>;
+
+export type QuoteChangeTopic = 'price' | 'date' | 'materials';
+export type QuoteChangeRequestStatus = QuoteChangeRequestRow['status'];
+
+export interface QuoteChangeRequest {
+  id: string;
+  quoteId: string;
+  quoteVersion: number;
+  topics: QuoteChangeTopic[];
+  proposedPrice: number | null;
+  proposedDate: string | null;
+  proposedTimeStart: string | null;
+  proposedTimeEnd: string | null;
+  materialsNote: string | null;
+  message: string | null;
+  status: QuoteChangeRequestStatus;
+  answeredVersion: number | null;
+  responseMessage: string | null;
+  createdAt: string;
+}
+
+// The quote QuoteScreen answers with a new version
+export interface QuoteRevisionTarget {
+  quoteId: string;
+  version: number;
+  changeRequest?: QuoteChangeRequest;
+  // Materials of the current version, to edit rather than retype
+  materials?: QuoteMaterialItem[];
+}
+
+// Customer side of request_quote_changes; a price proposal makes it a counter-offer
+export interface QuoteChangeRequestInput {
+  topics: QuoteChangeTopic[];
+  proposedPrice?: number | null;
+  proposedDate?: string | null;
+  proposedTimeStart?: string | null;
+  proposedTimeEnd?: string | null;
+  materialsNote?: string;
+  message?: string;
+}
+
+export interface QuoteItemsDiff<T> {
+  added: T[];
+  removed: T[];
+  changed: Array<{ name: string; from: T; to: T }>;
+}
+
+interface ValueChange<T> {
+  from: T;
+  to: T;
+}
+
+// quote_revisions.changes; absent keys did not change
+export interface QuoteRevisionChanges {
+  labor?: QuoteItemsDiff<QuoteLineItem>;
+  materials?: QuoteItemsDiff<QuoteMaterialItem>;
+  fees?: QuoteItemsDiff<QuoteLineItem>;
+  total?: ValueChange<number>;
+  availability?: ValueChange<{ date: string; start: string; end: string }>;
+  duration?: ValueChange<number | null>;
+}
+
+export interface QuoteRevision {
+  id: string;
+  quoteId: string;
+  version: number;
+  total: number;
+  laborItems: QuoteLineItem[];
+  materialsItems: QuoteMaterialItem[];
+  availability: { date: string; start: string; end: string };
+  estimatedDurationHours: number | null;
+  message: string | null;
+  changes: QuoteRevisionChanges | null;
+  changeRequestId: string | null;
+  createdAt: string;
+}
+
+// Provider side of revise_quote; availability fields left out keep the current slot
+export interface QuoteRevisionInput {
+  priceClp: number;
+  materialsCostClp: number;
+  includesMaterials?: boolean;
+  laborItems: QuoteLineItem[];
+  materialsItems: QuoteMaterialItem[];
+  additionalFees: QuoteLineItem[];
+  travelFeeClp: number;
+  vatRate?: number;
+  ivaClp: number;
+  estimatedDurationHours?: number | null;
+  availabilityDate?: string;
+  availabilityTimeStart?: string;
+  availabilityTimeEnd?: string;
+  message?: string;
+  changeRequestId?: string;
+}
+
+// Versions and change requests of one quote in the order they happened
+export type QuoteTimelineEntry =
+  | { kind: 'revision'; at: string; revision: QuoteRevision }
+  | { kind: 'change_request'; at: string; changeRequest: QuoteChangeRequest };
@@ -0,0 +1,55 @@
+// Provider quote templates: saved labor, materials, notes and visit setup for QuoteScreen
+
+import { Tables } from './database';
+import { QuoteMaterialItem, QuoteSessionStructure } from './quoteInbox';
+
+export type QuoteTemplateRow = Tables<'provider_quote_templates'>;
+
+// How a labor item is priced when the template is applied
+export type TemplateRateBasis = 'fixed' | 'hourly' | 'base_price';
+
+export interface QuoteTemplateLaborItem {
+  name: string;
+  description?: string | null;
+  // Last known price; what the job gets for 'fixed' items or when the rate is missing
+  amount: number;
+  rate_basis: TemplateRateBasis;
+  hours?: number; // 'hourly': hours x provider hourly rate
+  factor?: number; // 'base_price': share of the base price for the project type
+}
+
+// Same shape as VisitConfiguration in QuoteTypeSelector
+export interface QuoteTemplateVisitConfig {
+  cost: number;
+  isDeductible: boolean;
+  notes: string;
+}
+
+export interface QuoteTemplate {
+  id: string;
+  projectTypeId: string | null; // null = usable for any job
+  projectTypeName: string | null;
+  name: string;
+  laborItems: QuoteTemplateLaborItem[];
+  materialsItems: QuoteMaterialItem[];
+  materialsNotes: string;
+  notes: string;
+  estimatedDurationHours: number | null;
+  sessionStructure: QuoteSessionStructure | null;
+  quoteType: 'direct' | 'visit_required';
+  visitConfig: QuoteTemplateVisitConfig | null;
+  // Labor was re-priced because the provider's rates changed since it was saved
+  pricesChanged: boolean;
+  lastUsedAt: string | null;
+  updatedAt: string;
+}
+
+export interface QuoteTemplateRates {
+  hourlyRate: number | null;
+  basePrice: number | null;
+}
+
+export type QuoteTemplateInput = Omit<
+  QuoteTemplate,
+  'id' | 'projectTypeName' | 'pricesChanged' | 'lastUsedAt' | 'updatedAt'
+>;
@@ -56,8 +56,20 @@ export interface SearchFilters {
   priceRange?: PriceRange;
   urgency?: UrgencyLevel;
   availability?: 'today' | 'this-week' | 'flexible';
+  timeSlot?: TimeSlot; // only providers free for the whole window
   rating?: number;
   verified?: boolean;
+  maxDistanceKm?: number; // radius on the estimated driving distance from location
+  sortBy?: SearchSortOption;
+}
+
+export type SearchSortOption = 'relevance' | 'distance';
+
+// A concrete visit window in local Chilean time, e.g. Saturday 10:00–13:00
+export interface TimeSlot {
+  date: string; // YYYY-MM-DD
+  start: string; // HH:MM
+  end: string; // HH:MM
 }
 
 export interface Location {
@@ -77,6 +89,55 @@ export interface SearchResult {
   totalCount: number;
   filters: SearchFilters;
   searchType: 'project' | 'service';
+  facets?: SearchFacets; // only on the first page
+}
+
+// Service category ranked by recent request + booking volume; scope is the area the
+// ranking came from after falling back from comuna to region to the whole country
+export interface PopularService {
+  id: string;
+  name: string;
+  icon?: string;
+  count: number;
+  scope: 'comuna' | 'region' | 'national';
+}
+
+// A query + filters saved on the customer's account; alerts fire when a new provider matches
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  alertsEnabled: boolean;
+  lastRunAt?: Date;
+  lastMatchCount: number;
+  createdAt: Date;
+}
+
+// Facet counts apply every active filter except the facet's own dimension,
+// so each count is the number of results you'd get by selecting that value.
+export interface SearchFacetCount {
+  key: string;
+  label: string;
+  count: number;
+}
+
+export interface PriceFacet extends SearchFacetCount {
+  min: number;
+  max?: number;
+}
+
+export interface RatingFacet extends SearchFacetCount {
+  minRating: number;
+}
+
+export interface SearchFacets {
+  total: number;
+  priceRanges: PriceFacet[];
+  ratings: RatingFacet[];
+  verified: number;
+  availableToday: number;
+  communes: SearchFacetCount[];
 }
 
 export interface ServiceProvider {
@@ -101,7 +162,7 @@ export interface ServiceProvider {
     calloutFee?: number;
   };
   availability: {
-    nextAvailable: Date;
+    nextAvailable: Date | null; // null: no free slot in the next two weeks
     isAvailableToday: boolean;
     workingHours: {
       start: string;
@@ -125,6 +186,14 @@ export interface ServiceProvider {
     longitude: number;
   };
   distance?: number; // km from search location
+  drivingDistance?: number; // estimated road km from search location (1.3x straight line, not routed)
+  relevanceScore?: number; // 0..1 blend computed by the search functions
+}
+
+// A service or project id matched from free text, with how strongly it matched (0..1)
+export interface SearchMatch {
+  id: string;
+  strength: number;
 }
 
 // Enhanced search result from database functions
@@ -143,8 +212,11 @@ export interface EnhancedServiceProvider {
   serviceAreas: string[];
   coordinates?: { latitude: number; longitude: number };
   distance?: number;
+  drivingDistance?: number;
   portfolioPhotos: string[];
   specialties: string[];
   languages: string[];
   completedProjects: number;
+  relevanceScore?: number;
+  nextAvailableSlot: Date | null;
 }
\ No newline at end of file
@@ -0,0 +1,64 @@
+// Service request (job posting) types for the customer request wizard
+
+import { Tables } from './database';
+
+export type ServiceRequestRow = Tables<'service_requests'>;
+export type CustomerAddress = Tables<'addresses'>;
+
+export type ServiceRequestStep = 'service' | 'details' | 'address' | 'schedule' | 'budget' | 'photos' | 'review';
+
+export const SERVICE_REQUEST_STEPS: ServiceRequestStep[] = [
+  'service',
+  'details',
+  'address',
+  'schedule',
+  'budget',
+  'photos',
+  'review',
+];
+
+// What the customer picked in the first step: a specific project or a broad service
+export interface ServiceRequestSelection {
+  kind: 'project' | 'service';
+  id: string;
+  name: string;
+  icon?: string;
+  avgPriceMin?: number;
+  avgPriceMax?: number;
+}
+
+export interface ServiceRequestPhoto {
+  path: string; // object path in the job-photos bucket
+  previewUri?: string; // local or signed URL, only for display
+}
+
+// Everything the wizard has collected so far; persisted as the customer's draft
+export interface ServiceRequestDraft {
+  step: ServiceRequestStep;
+  selection?: ServiceRequestSelection;
+  title: string;
+  description: string;
+  addressId?: string;
+  preferredDate?: string; // 'YYYY-MM-DD'
+  timeStart?: string; // 'HH:MM'
+  timeEnd?: string;
+  isUrgent: boolean;
+  budgetMin?: number;
+  budgetMax?: number;
+  requiresMaterials: boolean;
+  photos: ServiceRequestPhoto[];
+  updatedAt: string;
+}
+
+export type ServiceRequestField =
+  | 'selection'
+  | 'title'
+  | 'description'
+  | 'addressId'
+  | 'preferredDate'
+  | 'timeWindow'
+  | 'budget'
+  | 'photos';
+
+// Field -> Spanish message shown under the field
+export type ServiceRequestErrors = Partial<Record<ServiceRequestField, string>>;
@@ -0,0 +1,143 @@
+/**
+ * Provider availability helpers: reading and writing provider_profiles.working_hours
+ * in the shapes provider_working_window() understands, validation and Spanish labels
+ */
+
+import { Json } from '../types/database';
+import { AvailabilityException, AvailabilityExceptionKind, TimeWindow, Weekday, WeeklyHours } from '../types/availability';
+
+export const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+export const WEEKDAY_NAMES: Record<Weekday, string> = {
+  monday: 'Lunes',
+  tuesday: 'Martes',
+  wednesday: 'Miércoles',
+  thursday: 'Jueves',
+  friday: 'Viernes',
+  saturday: 'Sábado',
+  sunday: 'Domingo',
+};
+
+export const EXCEPTION_KIND_LABELS: Record<AvailabilityExceptionKind, string> = {
+  vacation: 'Vacaciones',
+  sick: 'Licencia / enfermedad',
+  personal: 'Asunto personal',
+  other: 'Otro',
+};
+
+export const MAX_BUFFER_MINUTES = 240;
+export const MAX_JOBS_PER_DAY = 20;
+
+const DEFAULT_WINDOW: TimeWindow = { start: '08:00', end: '18:00' };
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// What a provider without saved hours gets: Monday to Saturday, 08:00-18:00
+export const DEFAULT_WEEKLY_HOURS: WeeklyHours = {
+  monday: [DEFAULT_WINDOW],
+  tuesday: [DEFAULT_WINDOW],
+  wednesday: [DEFAULT_WINDOW],
+  thursday: [DEFAULT_WINDOW],
+  friday: [DEFAULT_WINDOW],
+  saturday: [DEFAULT_WINDOW],
+  sunday: [],
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toWindow = (value: unknown): TimeWindow | null => {
+  if (!isRecord(value) || value.enabled === false) return null;
+  const { start, end } = value;
+  if (typeof start !== 'string' || typeof end !== 'string') return null;
+  return { start: start.slice(0, 5), end: end.slice(0, 5) };
+};
+
+/**
+ * Weekly hours from working_hours: the legacy single window (Monday to Saturday),
+ * one window per weekday or a list of windows per weekday
+ */
+export const parseWorkingHours = (workingHours: Json | null | undefined): WeeklyHours => {
+  if (!isRecord(workingHours) || Object.keys(workingHours).length === 0) return DEFAULT_WEEKLY_HOURS;
+
+  if ('start' in workingHours) {
+    const window = toWindow(workingHours) ?? DEFAULT_WINDOW;
+    return WEEKDAYS.reduce(
+      (hours, day) => ({ ...hours, [day]: day === 'sunday' ? [] : [window] }),
+      {} as WeeklyHours
+    );
+  }
+
+  return WEEKDAYS.reduce((hours, day) => {
+    const value = workingHours[day];
+    const windows = (Array.isArray(value) ? value : [value])
+      .map(toWindow)
+      .filter((window): window is TimeWindow => window !== null)
+      .sort((a, b) => a.start.localeCompare(b.start));
+    return { ...hours, [day]: windows };
+  }, {} as WeeklyHours);
+};
+
+// Always the per-weekday list shape, so every day is explicit
+export const serializeWorkingHours = (hours: WeeklyHours): Json =>
+  WEEKDAYS.reduce(
+    (json, day) => ({
+      ...json,
+      [day]: [...hours[day]]
+        .sort((a, b) => a.start.localeCompare(b.start))
+        .map(window => ({ start: window.start, end: window.end })),
+    }),
+    {} as Record<Weekday, Json>
+  );
+
+/**
+ * First problem with a window, or null when it is valid
+ */
+export const validateTimeWindow = (window: TimeWindow): string | null => {
+  if (!TIME_PATTERN.test(window.start) || !TIME_PATTERN.test(window.end)) {
+    return 'Usa el formato HH:MM, por ejemplo 08:30.';
+  }
+  if (window.start >= window.end) return 'La hora de término debe ser posterior a la de inicio.';
+  return null;
+};
+
+/**
+ * First problem in the weekly hours, naming the day, or null when they are valid
+ */
+export const validateWeeklyHours = (hours: WeeklyHours): string | null => {
+  for (const day of WEEKDAYS) {
+    const windows = [...hours[day]].sort((a, b) => a.start.localeCompare(b.start));
+
+    for (const [index, window] of windows.entries()) {
+      const problem = validateTimeWindow(window);
+      if (problem) return `${WEEKDAY_NAMES[day]}: ${problem}`;
+      if (index > 0 && window.start < windows[index - 1].end) {
+        return `${WEEKDAY_NAMES[day]}: los horarios se superponen.`;
+      }
+    }
+  }
+
+  if (WEEKDAYS.every(day => hours[day].length === 0)) return 'Marca al menos un día de trabajo.';
+  return null;
+};
+
+/**
+ * "08:00–13:00, 15:00–19:00" or "No trabaja"
+ */
+export const formatDayWindows = (windows: TimeWindow[]): string =>
+  windows.length ? windows.map(window => `${window.start}–${window.end}`).join(', ') : 'No trabaja';
+
+const formatDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('es-CL', { day: 'numeric', month: 'short' });
+};
+
+/**
+ * "Vacaciones · 3 feb – 14 feb" or "Asunto personal · 5 mar, 10:00–12:00"
+ */
+export const describeException = (exception: Pick<AvailabilityException, 'kind' | 'startsOn' | 'endsOn' | 'window'>): string => {
+  const dates = exception.startsOn === exception.endsOn
+    ? formatDate(exception.startsOn)
+    : `${formatDate(exception.startsOn)} – ${formatDate(exception.endsOn)}`;
+  const time = exception.window ? `, ${exception.window.start}–${exception.window.end}` : '';
+  return `${EXCEPTION_KIND_LABELS[exception.kind]} · ${dates}${time}`;
+};
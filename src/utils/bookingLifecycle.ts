@@ -0,0 +1,108 @@
+/**
+ * Booking lifecycle rules, mirroring booking_transition_allowed() and the booking
+ * commands in the database so the app only offers actions that will succeed
+ */
+
+import { BookingCommand, BookingPermissions, BookingRole, BookingStatus } from '../types/booking';
+
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  pending: ['accepted', 'confirmed', 'cancelled'],
+  accepted: ['confirmed', 'in_progress', 'cancelled', 'no_show'],
+  confirmed: ['in_progress', 'cancelled', 'no_show'],
+  in_progress: ['completed', 'disputed'],
+  completed: ['payment_released', 'disputed'],
+  disputed: ['completed', 'payment_released', 'cancelled'],
+  payment_released: [],
+  cancelled: [],
+  no_show: [],
+};
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  pending: 'Pendiente',
+  accepted: 'Aceptado',
+  confirmed: 'Confirmado',
+  in_progress: 'En Progreso',
+  completed: 'Completado',
+  payment_released: 'Pagado',
+  cancelled: 'Cancelado',
+  disputed: 'En disputa',
+  no_show: 'No se presentó',
+};
+
+// Same windows as start_booking and mark_booking_no_show
+export const CHECK_IN_OPENS_BEFORE_MINUTES = 60;
+export const NO_SHOW_AFTER_MINUTES = 30;
+
+const MINUTE = 1000 * 60;
+
+const COMMAND_FROM: Record<BookingCommand, BookingStatus[]> = {
+  confirm: ['pending', 'accepted'],
+  start: ['accepted', 'confirmed'],
+  complete: ['in_progress'],
+  cancel: ['pending', 'accepted', 'confirmed'],
+  no_show: ['accepted', 'confirmed'],
+  reschedule: ['pending', 'accepted', 'confirmed'],
+};
+
+const PROVIDER_COMMANDS: BookingCommand[] = ['confirm', 'start', 'complete'];
+
+export const canTransition = (from: BookingStatus, to: BookingStatus): boolean =>
+  BOOKING_TRANSITIONS[from].includes(to);
+
+/**
+ * Scheduled start from the booking's local date and 'HH:MM' time. Booking times are
+ * Chilean local time, which is the device time for the app's users.
+ */
+export const getBookingStartsAt = (date: string, timeStart: string): Date => {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  const [hours, minutes] = timeStart.split(':').map(Number);
+  return new Date(year, month - 1, day, hours || 0, minutes || 0);
+};
+
+/**
+ * Whether a participant may run a command now: right role, right status and inside
+ * the command's time window
+ */
+export const canRunBookingCommand = (
+  command: BookingCommand,
+  status: BookingStatus,
+  startsAt: Date,
+  role: BookingRole,
+  now: Date = new Date()
+): boolean => {
+  if (!COMMAND_FROM[command].includes(status)) return false;
+  if (PROVIDER_COMMANDS.includes(command) && role !== 'provider') return false;
+
+  const minutesToStart = (startsAt.getTime() - now.getTime()) / MINUTE;
+  switch (command) {
+    case 'confirm':
+      return minutesToStart > 0;
+    case 'start':
+      return minutesToStart <= CHECK_IN_OPENS_BEFORE_MINUTES;
+    case 'no_show':
+      return minutesToStart <= -NO_SHOW_AFTER_MINUTES;
+    default:
+      return true;
+  }
+};
+
+export const getBookingPermissions = (
+  status: BookingStatus,
+  startsAt: Date,
+  role: BookingRole,
+  now: Date = new Date()
+): BookingPermissions => {
+  const can = (command: BookingCommand) => canRunBookingCommand(command, status, startsAt, role, now);
+  const isFinished = status === 'completed' || status === 'payment_released';
+
+  return {
+    canConfirm: can('confirm'),
+    canStart: can('start'),
+    canComplete: can('complete'),
+    canCancel: can('cancel'),
+    canMarkNoShow: can('no_show'),
+    canReschedule: can('reschedule'),
+    canRate: role === 'customer' && isFinished,
+    canRebook: role === 'customer' && (isFinished || status === 'cancelled' || status === 'no_show'),
+  };
+};
@@ -0,0 +1,113 @@
+/**
+ * Recurring booking helpers: rule dates mirroring recurrence_dates() in the database
+ * and the Spanish labels for recurrences and their occurrences
+ */
+
+import {
+  BookingRecurrence,
+  IsoWeekday,
+  OccurrenceStatus,
+  RecurrenceFrequency,
+  RecurrenceStatus,
+} from '../types/bookingRecurrence';
+import { toLocalDateString } from './timeSlots';
+
+export const RECURRENCE_FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  weekly: 'Cada semana',
+  biweekly: 'Cada dos semanas',
+  monthly: 'Cada mes',
+  custom: 'Días específicos',
+};
+
+export const RECURRENCE_STATUS_LABELS: Record<RecurrenceStatus, string> = {
+  proposed: 'Esperando al profesional',
+  active: 'Activo',
+  paused: 'En pausa',
+  declined: 'Rechazado',
+  ended: 'Terminado',
+};
+
+export const OCCURRENCE_STATUS_LABELS: Record<OccurrenceStatus, string> = {
+  scheduled: 'Agendada',
+  moved: 'Movida por feriado',
+  skipped: 'Omitida',
+  holiday_skipped: 'Sin visita por feriado',
+  unavailable: 'Profesional no disponible',
+};
+
+export const WEEKDAY_LABELS: Record<IsoWeekday, string> = {
+  1: 'lunes',
+  2: 'martes',
+  3: 'miércoles',
+  4: 'jueves',
+  5: 'viernes',
+  6: 'sábado',
+  7: 'domingo',
+};
+
+// "los lunes", "los sábados"
+const pluralWeekday = (day: IsoWeekday) => (day >= 6 ? `${WEEKDAY_LABELS[day]}s` : WEEKDAY_LABELS[day]);
+
+// A skipped or paused visit is only cancelled this far ahead; see cancel_recurring_bookings()
+export const RECURRENCE_CANCEL_NOTICE_HOURS = 24;
+
+const parseDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const isoWeekday = (date: Date) => (date.getDay() || 7) as IsoWeekday;
+
+/**
+ * Rule dates ('YYYY-MM-DD') in [from, to]. Monthly keeps the day of month, or the
+ * last day of shorter months.
+ */
+export const getRecurrenceDates = (
+  rule: Pick<BookingRecurrence, 'frequency' | 'weekdays' | 'startsOn'>,
+  from: string,
+  to: string
+): string[] => {
+  const start = parseDate(rule.startsOn);
+  const dayStep = rule.frequency === 'weekly' ? 7 : rule.frequency === 'biweekly' ? 14 : 1;
+  const dates: string[] = [];
+
+  for (let step = 0; ; step++) {
+    let date: Date;
+    if (rule.frequency === 'monthly') {
+      const lastDay = new Date(start.getFullYear(), start.getMonth() + step + 1, 0).getDate();
+      date = new Date(start.getFullYear(), start.getMonth() + step, Math.min(start.getDate(), lastDay));
+    } else {
+      date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + step * dayStep);
+    }
+
+    const value = toLocalDateString(date);
+    if (value > to) break;
+    if (value < from) continue;
+    if (rule.frequency === 'custom' && !rule.weekdays.includes(isoWeekday(date))) continue;
+    dates.push(value);
+  }
+
+  return dates;
+};
+
+/**
+ * "Cada semana, los martes a las 10:00"
+ */
+export const describeRecurrence = (
+  rule: Pick<BookingRecurrence, 'frequency' | 'weekdays' | 'startsOn' | 'timeStart'>
+): string => {
+  const time = rule.timeStart.slice(0, 5);
+  const start = parseDate(rule.startsOn);
+
+  switch (rule.frequency) {
+    case 'monthly':
+      return `Cada mes, el día ${start.getDate()} a las ${time}`;
+    case 'custom': {
+      const days = [...rule.weekdays].sort((a, b) => a - b).map(pluralWeekday);
+      const list = days.length > 1 ? `${days.slice(0, -1).join(', ')} y ${days[days.length - 1]}` : days[0];
+      return `Cada semana, los ${list} a las ${time}`;
+    }
+    default:
+      return `${RECURRENCE_FREQUENCY_LABELS[rule.frequency]}, los ${pluralWeekday(isoWeekday(start))} a las ${time}`;
+  }
+};
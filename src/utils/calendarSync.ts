@@ -0,0 +1,61 @@
+/**
+ * Calendar sync helpers: feed URLs for the subscribe buttons, validation of external
+ * calendar URLs and the Spanish wording of sync errors stored by calendar-sync
+ */
+
+import { CalendarFeed, ExternalCalendar } from '../types/calendarSync';
+
+export const MAX_EXTERNAL_CALENDARS = 5;
+
+const SYNC_ERROR_LABELS: Record<string, string> = {
+  timeout: 'El calendario tardó demasiado en responder.',
+  unreachable: 'No pudimos conectarnos con el calendario.',
+  not_a_calendar: 'El enlace no es un calendario ICS.',
+  calendar_too_large: 'El calendario es demasiado grande.',
+  invalid_calendar: 'No pudimos leer el calendario.',
+  invalid_url: 'Usa un enlace https o webcal.',
+  private_host: 'El enlace debe apuntar a un calendario público en internet.',
+  too_many_redirects: 'El enlace redirige demasiadas veces.',
+  http_401: 'El calendario es privado. Usa la dirección secreta en formato iCal.',
+  http_403: 'El calendario es privado. Usa la dirección secreta en formato iCal.',
+  http_404: 'El calendario ya no existe en ese enlace.',
+};
+
+/**
+ * Subscription URLs for a feed token; supabaseUrl is the project URL the app talks to
+ */
+export const buildCalendarFeed = (supabaseUrl: string, token: string): CalendarFeed => {
+  const httpsUrl = `${supabaseUrl.replace(/\/$/, '')}/functions/v1/calendar-feed?token=${token}`;
+  const webcalUrl = httpsUrl.replace(/^https?:/, 'webcal:');
+  return {
+    httpsUrl,
+    webcalUrl,
+    googleUrl: `https://calendar.google.com/calendar/r?cid=${encodeURIComponent(webcalUrl)}`,
+  };
+};
+
+/**
+ * Trimmed https or webcal URL, or null when it can't be a calendar subscription
+ */
+export const normalizeCalendarUrl = (text: string): string | null => {
+  const url = text.trim();
+  if (!/^(https|webcal):\/\/[^\s/]+\.[^\s]+$/i.test(url)) return null;
+  return url;
+};
+
+/**
+ * "Sincronizado · 12 bloques ocupados", the Spanish error, or "Sincronizando…"
+ */
+export const describeSyncStatus = (calendar: ExternalCalendar): string => {
+  if (calendar.lastError) {
+    const reason = SYNC_ERROR_LABELS[calendar.lastError]
+      || (calendar.lastError.startsWith('http_') ? 'El calendario respondió con un error.' : 'No pudimos leer el calendario.');
+    return `Error: ${reason}`;
+  }
+  if (!calendar.lastSyncedAt) return 'Sincronizando…';
+
+  const minutes = Math.round((Date.now() - new Date(calendar.lastSyncedAt).getTime()) / 60000);
+  const when = minutes < 1 ? 'recién' : minutes < 60 ? `hace ${minutes} min` : `hace ${Math.round(minutes / 60)} h`;
+  const blocks = calendar.busyBlockCount === 1 ? '1 bloque ocupado' : `${calendar.busyBlockCount} bloques ocupados`;
+  return `Sincronizado ${when} · ${blocks}`;
+};
@@ -0,0 +1,60 @@
+/**
+ * Cancellation policy helpers: the Spanish texts describing a policy and what a
+ * cancellation costs, as computed by booking_cancellation_terms() in the database
+ */
+
+import {
+  CancellationPolicy,
+  CancellationPreview,
+  CustomerCancellationTier,
+  ProviderCancellationTier,
+} from '../types/cancellationPolicy';
+
+const formatCLP = (amount: number) => `$${Math.round(amount).toLocaleString('es-CL')}`;
+
+// Highest thresholds first, the order the database reads them in
+export const sortCancellationTiers = <T extends { min_hours_before: number }>(tiers: T[]): T[] =>
+  [...tiers].sort((a, b) => b.min_hours_before - a.min_hours_before);
+
+const formatNotice = (hours: number) => {
+  if (hours === 0) return 'a última hora';
+  if (hours % 24 === 0) return `con ${hours / 24} día${hours === 24 ? '' : 's'} o más de anticipación`;
+  return `con ${hours} h o más de anticipación`;
+};
+
+const formatPoints = (points: number) => `${points} punto${points === 1 ? '' : 's'} de penalización`;
+
+export const describeCustomerTiers = (tiers: CustomerCancellationTier[]): string[] =>
+  sortCancellationTiers(tiers).map(tier =>
+    `Cancelar ${formatNotice(tier.min_hours_before)}: ${tier.fee_pct === 0 ? 'sin costo' : `cargo del ${tier.fee_pct}%`}`
+  );
+
+export const describeProviderTiers = (tiers: ProviderCancellationTier[]): string[] =>
+  sortCancellationTiers(tiers).map(tier =>
+    `Cancelar ${formatNotice(tier.min_hours_before)}: ${
+      tier.penalty_points === 0 ? 'sin penalización' : formatPoints(tier.penalty_points)
+    }`
+  );
+
+export const describeReschedulePolicy = (policy: Pick<CancellationPolicy, 'maxReschedules' | 'rescheduleMinHoursBefore'>): string =>
+  policy.maxReschedules === 0
+    ? 'Esta reserva no se puede reagendar.'
+    : `Puedes reagendar hasta ${policy.maxReschedules} ${policy.maxReschedules === 1 ? 'vez' : 'veces'}, con al menos ${policy.rescheduleMinHoursBefore} h de anticipación.`;
+
+/**
+ * Body of the cancellation confirmation dialog
+ */
+export const formatCancellationPreview = (preview: CancellationPreview): string => {
+  if (preview.cancelledBy === 'provider') {
+    const penalty = preview.penaltyPoints === 0
+      ? 'Cancelar ahora no afecta tu reputación.'
+      : `Cancelar ahora suma ${formatPoints(preview.penaltyPoints)} a tu reputación.`;
+    return `El cliente recibirá el reembolso completo (${formatCLP(preview.refundClp)}).\n${penalty}`;
+  }
+
+  if (preview.feeClp === 0) {
+    return `Cancelar ahora no tiene costo. Se te reembolsarán ${formatCLP(preview.refundClp)}.`;
+  }
+
+  return `Según la política «${preview.policyName}», cancelar ahora tiene un cargo del ${preview.feePct}% (${formatCLP(preview.feeClp)}) para el profesional.\nSe te reembolsarán ${formatCLP(preview.refundClp)}.`;
+};
@@ -4,6 +4,9 @@
  * Comprehensive templates covering all 26 project categories and 300+ service types
  * in the Manito marketplace. Each category has specific, actionable care instructions
  * that providers can quickly select when completing jobs.
+ *
+ * Also printed on quotes by the quote-pdf edge function, which imports the copy that
+ * `npm run functions:shared` writes to supabase/functions/_shared.
  */
 
 export interface CareInstruction {
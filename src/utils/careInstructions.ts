@@ -0,0 +1,87 @@
+/**
+ * Care instruction helpers: the templates offered for a job, the reminder read from
+ * an instruction's text and how reminders are described to the customer
+ */
+
+import { Json } from '../types/database';
+import { CareInstructionDraft, CareReminder } from '../types/careInstructions';
+import {
+  CareInstruction,
+  getCareInstructionsForProjectType,
+  getGenericCareInstructions,
+} from './careInstructionTemplates';
+
+// complete_booking accepts up to 20 instructions of 280 characters
+export const MAX_CARE_INSTRUCTIONS = 20;
+export const MAX_CARE_INSTRUCTION_LENGTH = 280;
+
+const MONTHS_PER_UNIT: Record<string, number> = { mes: 1, meses: 1, ano: 12, anos: 12 };
+const MONTHS_PER_ADVERB: Record<string, number> = { mensual: 1, trimestral: 3, semestral: 6, anual: 12 };
+
+const normalize = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+/**
+ * Templates for the job's project type category, or the generic ones when the
+ * booking has none (same choice as the quote PDF)
+ */
+export const getSuggestedCareInstructions = (
+  projectTypeId: string | null,
+  category: string | null
+): CareInstruction[] =>
+  category ? getCareInstructionsForProjectType(projectTypeId ?? '', category) : getGenericCareInstructions();
+
+/**
+ * Reminder for a time-based instruction, counted in months from the completion date.
+ * A range uses its lower bound ("cada 3-6 meses" is every 3 months); daily and weekly
+ * routines ("regar diariamente") are not reminders.
+ */
+export const getCareReminder = (text: string): CareReminder | null => {
+  const normalized = normalize(text);
+  const clamp = (months: number) => Math.min(Math.max(months, 1), 60);
+
+  const every = normalized.match(/\bcada (\d+)(?:\s*-\s*\d+)? (mes|meses|ano|anos)\b/);
+  if (every) return { months: clamp(Number(every[1]) * MONTHS_PER_UNIT[every[2]]), repeats: true };
+
+  const everyOne = normalized.match(/\bcada (mes|ano)\b/);
+  if (everyOne) return { months: MONTHS_PER_UNIT[everyOne[1]], repeats: true };
+
+  const once = normalized.match(/\ben (\d+)(?:\s*-\s*\d+)? (mes|meses|ano|anos)\b/);
+  if (once) return { months: clamp(Number(once[1]) * MONTHS_PER_UNIT[once[2]]), repeats: false };
+
+  const adverb = normalized.match(/\b(mensual|trimestral|semestral|anual)(?:mente)?\b/);
+  if (adverb) return { months: MONTHS_PER_ADVERB[adverb[1]], repeats: true };
+
+  return null;
+};
+
+export const toCareInstructionDraft = (text: string, templateId: string | null = null): CareInstructionDraft => ({
+  templateId,
+  text: text.trim(),
+  reminder: getCareReminder(text),
+});
+
+// Shape complete_booking expects in p_care_instructions
+export const toCareInstructionsJson = (drafts: CareInstructionDraft[]): Json =>
+  drafts.map(draft => ({
+    template_id: draft.templateId,
+    text: draft.text.trim(),
+    reminder_months: draft.reminder?.months ?? null,
+    reminder_repeats: draft.reminder?.repeats ?? false,
+  }));
+
+// "3 meses", "2 años"; a single unit is "mes"/"año" after "cada" and "1 mes"/"1 año" after "en"
+const formatMonths = (months: number, single: string) => {
+  if (months % 12 === 0) return months === 12 ? `${single}año` : `${months / 12} años`;
+  return months === 1 ? `${single}mes` : `${months} meses`;
+};
+
+// "Recordatorio cada 3 meses", "Recordatorio cada año", "Recordatorio en 6 meses"
+export const describeCareReminder = (reminder: CareReminder): string =>
+  reminder.repeats
+    ? `Recordatorio cada ${formatMonths(reminder.months, '')}`
+    : `Recordatorio en ${formatMonths(reminder.months, '1 ')}`;
+
+// 'YYYY-MM-DD' as dd/mm/yyyy
+export const formatReminderDate = (date: string): string =>
+  `${date.slice(8, 10)}/${date.slice(5, 7)}/${date.slice(0, 4)}`;
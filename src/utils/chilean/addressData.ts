@@ -1,15 +1,18 @@
 /**
  * Chilean Address Data - Regions, Provinces, and Comunas
  *
- * Complete dataset of Chilean administrative divisions for address collection
- * Based on official INE (Instituto Nacional de Estadísticas) data
+ * Canonical dataset of Chilean administrative divisions: all 16 regions,
+ * 56 provinces and 346 comunas, keyed by the official INE/CUT codes.
+ * Addresses, search and location services all read from this file.
  */
 
 export interface Comuna {
-  code: string;
+  code: string; // CUT code, e.g. '13101'
   name: string;
   provinceCode: string;
   regionCode: string;
+  coordinates: [number, number]; // [longitude, latitude] of the main town
+  aliases?: string[]; // alternate names people type ("Santiago Centro", "Puerto Natales")
 }
 
 export interface Province {
@@ -22,43 +25,59 @@ export interface Region {
   code: string;
   name: string;
   number: string;
+  shortName: string; // everyday name used in listings and provider service areas
 }
 
 /**
- * Chilean Regions (15 regions)
+ * Chilean Regions (16 regions)
  */
 export const CHILEAN_REGIONS: Region[] = [
-  { code: '15', name: 'Arica y Parinacota', number: 'XV' },
-  { code: '01', name: 'Tarapacá', number: 'I' },
-  { code: '02', name: 'Antofagasta', number: 'II' },
-  { code: '03', name: 'Atacama', number: 'III' },
-  { code: '04', name: 'Coquimbo', number: 'IV' },
-  { code: '05', name: 'Valparaíso', number: 'V' },
-  { code: '13', name: 'Metropolitana de Santiago', number: 'RM' },
-  { code: '06', name: 'Libertador General Bernardo O\'Higgins', number: 'VI' },
-  { code: '07', name: 'Maule', number: 'VII' },
-  { code: '16', name: 'Ñuble', number: 'XVI' },
-  { code: '08', name: 'Biobío', number: 'VIII' },
-  { code: '09', name: 'La Araucanía', number: 'IX' },
-  { code: '14', name: 'Los Ríos', number: 'XIV' },
-  { code: '10', name: 'Los Lagos', number: 'X' },
-  { code: '11', name: 'Aysén del General Carlos Ibáñez del Campo', number: 'XI' },
-  { code: '12', name: 'Magallanes y de la Antártica Chilena', number: 'XII' },
+  { code: '15', name: 'Arica y Parinacota', number: 'XV', shortName: 'Arica y Parinacota' },
+  { code: '01', name: 'Tarapacá', number: 'I', shortName: 'Tarapacá' },
+  { code: '02', name: 'Antofagasta', number: 'II', shortName: 'Antofagasta' },
+  { code: '03', name: 'Atacama', number: 'III', shortName: 'Atacama' },
+  { code: '04', name: 'Coquimbo', number: 'IV', shortName: 'Coquimbo' },
+  { code: '05', name: 'Valparaíso', number: 'V', shortName: 'Valparaíso' },
+  { code: '13', name: 'Metropolitana de Santiago', number: 'RM', shortName: 'Metropolitana' },
+  { code: '06', name: 'Libertador General Bernardo O\'Higgins', number: 'VI', shortName: 'O\'Higgins' },
+  { code: '07', name: 'Maule', number: 'VII', shortName: 'Maule' },
+  { code: '16', name: 'Ñuble', number: 'XVI', shortName: 'Ñuble' },
+  { code: '08', name: 'Biobío', number: 'VIII', shortName: 'Biobío' },
+  { code: '09', name: 'La Araucanía', number: 'IX', shortName: 'La Araucanía' },
+  { code: '14', name: 'Los Ríos', number: 'XIV', shortName: 'Los Ríos' },
+  { code: '10', name: 'Los Lagos', number: 'X', shortName: 'Los Lagos' },
+  { code: '11', name: 'Aysén del General Carlos Ibáñez del Campo', number: 'XI', shortName: 'Aysén' },
+  { code: '12', name: 'Magallanes y de la Antártica Chilena', number: 'XII', shortName: 'Magallanes' },
 ];
 
 /**
- * Major Chilean Provinces (most relevant for marketplace)
+ * Chilean Provinces (56 provinces)
  */
 export const CHILEAN_PROVINCES: Province[] = [
-  // Region Metropolitana (RM) - Most important for MVP
-  { code: '131', name: 'Santiago', regionCode: '13' },
-  { code: '132', name: 'Cordillera', regionCode: '13' },
-  { code: '133', name: 'Chacabuco', regionCode: '13' },
-  { code: '134', name: 'Maipo', regionCode: '13' },
-  { code: '135', name: 'Melipilla', regionCode: '13' },
-  { code: '136', name: 'Talagante', regionCode: '13' },
+  // Arica y Parinacota
+  { code: '151', name: 'Arica', regionCode: '15' },
+  { code: '152', name: 'Parinacota', regionCode: '15' },
+
+  // Tarapacá
+  { code: '011', name: 'Iquique', regionCode: '01' },
+  { code: '014', name: 'Tamarugal', regionCode: '01' },
+
+  // Antofagasta
+  { code: '021', name: 'Antofagasta', regionCode: '02' },
+  { code: '022', name: 'El Loa', regionCode: '02' },
+  { code: '023', name: 'Tocopilla', regionCode: '02' },
+
+  // Atacama
+  { code: '031', name: 'Copiapó', regionCode: '03' },
+  { code: '032', name: 'Chañaral', regionCode: '03' },
+  { code: '033', name: 'Huasco', regionCode: '03' },
+
+  // Coquimbo
+  { code: '041', name: 'Elqui', regionCode: '04' },
+  { code: '042', name: 'Choapa', regionCode: '04' },
+  { code: '043', name: 'Limarí', regionCode: '04' },
 
-  // Valparaíso Region (V) - Second priority
+  // Valparaíso
   { code: '051', name: 'Valparaíso', regionCode: '05' },
   { code: '052', name: 'Isla de Pascua', regionCode: '05' },
   { code: '053', name: 'Los Andes', regionCode: '05' },
@@ -68,97 +87,525 @@ export const CHILEAN_PROVINCES: Province[] = [
   { code: '057', name: 'San Felipe de Aconcagua', regionCode: '05' },
   { code: '058', name: 'Marga Marga', regionCode: '05' },
 
-  // Other major provinces (can be expanded)
-  { code: '021', name: 'Antofagasta', regionCode: '02' },
-  { code: '041', name: 'Elqui', regionCode: '04' },
+  // Metropolitana
+  { code: '131', name: 'Santiago', regionCode: '13' },
+  { code: '132', name: 'Cordillera', regionCode: '13' },
+  { code: '133', name: 'Chacabuco', regionCode: '13' },
+  { code: '134', name: 'Maipo', regionCode: '13' },
+  { code: '135', name: 'Melipilla', regionCode: '13' },
+  { code: '136', name: 'Talagante', regionCode: '13' },
+
+  // O'Higgins
+  { code: '061', name: 'Cachapoal', regionCode: '06' },
+  { code: '062', name: 'Cardenal Caro', regionCode: '06' },
+  { code: '063', name: 'Colchagua', regionCode: '06' },
+
+  // Maule
+  { code: '071', name: 'Talca', regionCode: '07' },
+  { code: '072', name: 'Cauquenes', regionCode: '07' },
+  { code: '073', name: 'Curicó', regionCode: '07' },
+  { code: '074', name: 'Linares', regionCode: '07' },
+
+  // Ñuble
+  { code: '161', name: 'Diguillín', regionCode: '16' },
+  { code: '162', name: 'Itata', regionCode: '16' },
+  { code: '163', name: 'Punilla', regionCode: '16' },
+
+  // Biobío
   { code: '081', name: 'Concepción', regionCode: '08' },
+  { code: '082', name: 'Arauco', regionCode: '08' },
+  { code: '083', name: 'Biobío', regionCode: '08' },
+
+  // La Araucanía
+  { code: '091', name: 'Cautín', regionCode: '09' },
+  { code: '092', name: 'Malleco', regionCode: '09' },
+
+  // Los Ríos
+  { code: '141', name: 'Valdivia', regionCode: '14' },
+  { code: '142', name: 'Ranco', regionCode: '14' },
+
+  // Los Lagos
   { code: '101', name: 'Llanquihue', regionCode: '10' },
+  { code: '102', name: 'Chiloé', regionCode: '10' },
+  { code: '103', name: 'Osorno', regionCode: '10' },
+  { code: '104', name: 'Palena', regionCode: '10' },
+
+  // Aysén
+  { code: '111', name: 'Coyhaique', regionCode: '11' },
+  { code: '112', name: 'Aysén', regionCode: '11' },
+  { code: '113', name: 'Capitán Prat', regionCode: '11' },
+  { code: '114', name: 'General Carrera', regionCode: '11' },
+
+  // Magallanes
+  { code: '121', name: 'Magallanes', regionCode: '12' },
+  { code: '122', name: 'Antártica Chilena', regionCode: '12' },
+  { code: '123', name: 'Tierra del Fuego', regionCode: '12' },
+  { code: '124', name: 'Última Esperanza', regionCode: '12' },
 ];
 
 /**
- * Chilean Comunas - Focus on Santiago Metropolitan Area for MVP
- * This includes the most important comunas for the marketplace launch
+ * Chilean Comunas (346 comunas)
+ * Coordinates point at each comuna's main town rather than its geographic
+ * centre, which is what matters for travel distance.
  */
 export const CHILEAN_COMUNAS: Comuna[] = [
-  // Santiago Province - High-income areas (priority for MVP)
-  { code: '13101', name: 'Santiago', provinceCode: '131', regionCode: '13' },
-  { code: '13102', name: 'Cerrillos', provinceCode: '131', regionCode: '13' },
-  { code: '13103', name: 'Cerro Navia', provinceCode: '131', regionCode: '13' },
-  { code: '13104', name: 'Conchalí', provinceCode: '131', regionCode: '13' },
-  { code: '13105', name: 'El Bosque', provinceCode: '131', regionCode: '13' },
-  { code: '13106', name: 'Estación Central', provinceCode: '131', regionCode: '13' },
-  { code: '13107', name: 'Huechuraba', provinceCode: '131', regionCode: '13' },
-  { code: '13108', name: 'Independencia', provinceCode: '131', regionCode: '13' },
-  { code: '13109', name: 'La Cisterna', provinceCode: '131', regionCode: '13' },
-  { code: '13110', name: 'La Florida', provinceCode: '131', regionCode: '13' },
-  { code: '13111', name: 'La Granja', provinceCode: '131', regionCode: '13' },
-  { code: '13112', name: 'La Pintana', provinceCode: '131', regionCode: '13' },
-  { code: '13113', name: 'La Reina', provinceCode: '131', regionCode: '13' },
-  { code: '13114', name: 'Las Condes', provinceCode: '131', regionCode: '13' },
-  { code: '13115', name: 'Lo Barnechea', provinceCode: '131', regionCode: '13' },
-  { code: '13116', name: 'Lo Espejo', provinceCode: '131', regionCode: '13' },
-  { code: '13117', name: 'Lo Prado', provinceCode: '131', regionCode: '13' },
-  { code: '13118', name: 'Macul', provinceCode: '131', regionCode: '13' },
-  { code: '13119', name: 'Maipú', provinceCode: '131', regionCode: '13' },
-  { code: '13120', name: 'Ñuñoa', provinceCode: '131', regionCode: '13' },
-  { code: '13121', name: 'Pedro Aguirre Cerda', provinceCode: '131', regionCode: '13' },
-  { code: '13122', name: 'Peñalolén', provinceCode: '131', regionCode: '13' },
-  { code: '13123', name: 'Providencia', provinceCode: '131', regionCode: '13' },
-  { code: '13124', name: 'Pudahuel', provinceCode: '131', regionCode: '13' },
-  { code: '13125', name: 'Quilicura', provinceCode: '131', regionCode: '13' },
-  { code: '13126', name: 'Quinta Normal', provinceCode: '131', regionCode: '13' },
-  { code: '13127', name: 'Recoleta', provinceCode: '131', regionCode: '13' },
-  { code: '13128', name: 'Renca', provinceCode: '131', regionCode: '13' },
-  { code: '13129', name: 'San Joaquín', provinceCode: '131', regionCode: '13' },
-  { code: '13130', name: 'San Miguel', provinceCode: '131', regionCode: '13' },
-  { code: '13131', name: 'San Ramón', provinceCode: '131', regionCode: '13' },
-  { code: '13132', name: 'Vitacura', provinceCode: '131', regionCode: '13' },
-
-  // Cordillera Province
-  { code: '13201', name: 'Puente Alto', provinceCode: '132', regionCode: '13' },
-  { code: '13202', name: 'Pirque', provinceCode: '132', regionCode: '13' },
-  { code: '13203', name: 'San José de Maipo', provinceCode: '132', regionCode: '13' },
-
-  // Chacabuco Province
-  { code: '13301', name: 'Colina', provinceCode: '133', regionCode: '13' },
-  { code: '13302', name: 'Lampa', provinceCode: '133', regionCode: '13' },
-  { code: '13303', name: 'Tiltil', provinceCode: '133', regionCode: '13' },
-
-  // Maipo Province
-  { code: '13401', name: 'San Bernardo', provinceCode: '134', regionCode: '13' },
-  { code: '13402', name: 'Buin', provinceCode: '134', regionCode: '13' },
-  { code: '13403', name: 'Calera de Tango', provinceCode: '134', regionCode: '13' },
-  { code: '13404', name: 'Paine', provinceCode: '134', regionCode: '13' },
-
-  // Melipilla Province
-  { code: '13501', name: 'Melipilla', provinceCode: '135', regionCode: '13' },
-  { code: '13502', name: 'Alhué', provinceCode: '135', regionCode: '13' },
-  { code: '13503', name: 'Curacaví', provinceCode: '135', regionCode: '13' },
-  { code: '13504', name: 'María Pinto', provinceCode: '135', regionCode: '13' },
-  { code: '13505', name: 'San Pedro', provinceCode: '135', regionCode: '13' },
-
-  // Talagante Province
-  { code: '13601', name: 'Talagante', provinceCode: '136', regionCode: '13' },
-  { code: '13602', name: 'El Monte', provinceCode: '136', regionCode: '13' },
-  { code: '13603', name: 'Isla de Maipo', provinceCode: '136', regionCode: '13' },
-  { code: '13604', name: 'Padre Hurtado', provinceCode: '136', regionCode: '13' },
-  { code: '13605', name: 'Peñaflor', provinceCode: '136', regionCode: '13' },
-
-  // Valparaíso Region - Major comunas
-  { code: '05101', name: 'Valparaíso', provinceCode: '051', regionCode: '05' },
-  { code: '05102', name: 'Casablanca', provinceCode: '051', regionCode: '05' },
-  { code: '05103', name: 'Concón', provinceCode: '051', regionCode: '05' },
-  { code: '05104', name: 'Juan Fernández', provinceCode: '051', regionCode: '05' },
-  { code: '05105', name: 'Puchuncaví', provinceCode: '051', regionCode: '05' },
-  { code: '05107', name: 'Quintero', provinceCode: '051', regionCode: '05' },
-  { code: '05109', name: 'Viña del Mar', provinceCode: '051', regionCode: '05' },
-
-  // Other major cities (can be expanded for nationwide rollout)
-  { code: '02101', name: 'Antofagasta', provinceCode: '021', regionCode: '02' },
-  { code: '04101', name: 'La Serena', provinceCode: '041', regionCode: '04' },
-  { code: '04102', name: 'Coquimbo', provinceCode: '041', regionCode: '04' },
-  { code: '08101', name: 'Concepción', provinceCode: '081', regionCode: '08' },
-  { code: '10101', name: 'Puerto Montt', provinceCode: '101', regionCode: '10' },
+  // Arica y Parinacota - Arica Province
+  { code: '15101', name: 'Arica', provinceCode: '151', regionCode: '15', coordinates: [-70.3126, -18.4783] },
+  { code: '15102', name: 'Camarones', provinceCode: '151', regionCode: '15', coordinates: [-69.8667, -19.0167] },
+
+  // Arica y Parinacota - Parinacota Province
+  { code: '15201', name: 'Putre', provinceCode: '152', regionCode: '15', coordinates: [-69.5597, -18.1975] },
+  { code: '15202', name: 'General Lagos', provinceCode: '152', regionCode: '15', coordinates: [-69.4772, -17.5950], aliases: ['Visviri'] },
+
+  // Tarapacá - Iquique Province
+  { code: '01101', name: 'Iquique', provinceCode: '011', regionCode: '01', coordinates: [-70.1503, -20.2133] },
+  { code: '01107', name: 'Alto Hospicio', provinceCode: '011', regionCode: '01', coordinates: [-70.1010, -20.2690] },
+
+  // Tarapacá - Tamarugal Province
+  { code: '01401', name: 'Pozo Almonte', provinceCode: '014', regionCode: '01', coordinates: [-69.7860, -20.2560] },
+  { code: '01402', name: 'Camiña', provinceCode: '014', regionCode: '01', coordinates: [-69.4270, -19.3120] },
+  { code: '01403', name: 'Colchane', provinceCode: '014', regionCode: '01', coordinates: [-68.6380, -19.2760] },
+  { code: '01404', name: 'Huara', provinceCode: '014', regionCode: '01', coordinates: [-69.7710, -19.9960] },
+  { code: '01405', name: 'Pica', provinceCode: '014', regionCode: '01', coordinates: [-69.3290, -20.4900] },
+
+  // Antofagasta - Antofagasta Province
+  { code: '02101', name: 'Antofagasta', provinceCode: '021', regionCode: '02', coordinates: [-70.3975, -23.6509] },
+  { code: '02102', name: 'Mejillones', provinceCode: '021', regionCode: '02', coordinates: [-70.4500, -23.1000] },
+  { code: '02103', name: 'Sierra Gorda', provinceCode: '021', regionCode: '02', coordinates: [-69.3210, -22.8920] },
+  { code: '02104', name: 'Taltal', provinceCode: '021', regionCode: '02', coordinates: [-70.4850, -25.4050] },
+
+  // Antofagasta - El Loa Province
+  { code: '02201', name: 'Calama', provinceCode: '022', regionCode: '02', coordinates: [-68.9290, -22.4560] },
+  { code: '02202', name: 'Ollagüe', provinceCode: '022', regionCode: '02', coordinates: [-68.2530, -21.2240] },
+  { code: '02203', name: 'San Pedro de Atacama', provinceCode: '022', regionCode: '02', coordinates: [-68.2000, -22.9110] },
+
+  // Antofagasta - Tocopilla Province
+  { code: '02301', name: 'Tocopilla', provinceCode: '023', regionCode: '02', coordinates: [-70.1980, -22.0920] },
+  { code: '02302', name: 'María Elena', provinceCode: '023', regionCode: '02', coordinates: [-69.6650, -22.3450] },
+
+  // Atacama - Copiapó Province
+  { code: '03101', name: 'Copiapó', provinceCode: '031', regionCode: '03', coordinates: [-70.3322, -27.3668] },
+  { code: '03102', name: 'Caldera', provinceCode: '031', regionCode: '03', coordinates: [-70.8180, -27.0670] },
+  { code: '03103', name: 'Tierra Amarilla', provinceCode: '031', regionCode: '03', coordinates: [-70.2660, -27.4830] },
+
+  // Atacama - Chañaral Province
+  { code: '03201', name: 'Chañaral', provinceCode: '032', regionCode: '03', coordinates: [-70.6220, -26.3470] },
+  { code: '03202', name: 'Diego de Almagro', provinceCode: '032', regionCode: '03', coordinates: [-70.0490, -26.3690] },
+
+  // Atacama - Huasco Province
+  { code: '03301', name: 'Vallenar', provinceCode: '033', regionCode: '03', coordinates: [-70.7590, -28.5760] },
+  { code: '03302', name: 'Alto del Carmen', provinceCode: '033', regionCode: '03', coordinates: [-70.4880, -28.7530] },
+  { code: '03303', name: 'Freirina', provinceCode: '033', regionCode: '03', coordinates: [-71.0730, -28.5060] },
+  { code: '03304', name: 'Huasco', provinceCode: '033', regionCode: '03', coordinates: [-71.2200, -28.4660] },
+
+  // Coquimbo - Elqui Province
+  { code: '04101', name: 'La Serena', provinceCode: '041', regionCode: '04', coordinates: [-71.2520, -29.9027] },
+  { code: '04102', name: 'Coquimbo', provinceCode: '041', regionCode: '04', coordinates: [-71.3436, -29.9533] },
+  { code: '04103', name: 'Andacollo', provinceCode: '041', regionCode: '04', coordinates: [-71.0830, -30.2330] },
+  { code: '04104', name: 'La Higuera', provinceCode: '041', regionCode: '04', coordinates: [-71.2650, -29.4930] },
+  { code: '04105', name: 'Paiguano', provinceCode: '041', regionCode: '04', coordinates: [-70.5200, -30.0300], aliases: ['Paihuano'] },
+  { code: '04106', name: 'Vicuña', provinceCode: '041', regionCode: '04', coordinates: [-70.7080, -30.0320] },
+
+  // Coquimbo - Choapa Province
+  { code: '04201', name: 'Illapel', provinceCode: '042', regionCode: '04', coordinates: [-71.1690, -31.6330] },
+  { code: '04202', name: 'Canela', provinceCode: '042', regionCode: '04', coordinates: [-71.4570, -31.3960] },
+  { code: '04203', name: 'Los Vilos', provinceCode: '042', regionCode: '04', coordinates: [-71.5100, -31.9110] },
+  { code: '04204', name: 'Salamanca', provinceCode: '042', regionCode: '04', coordinates: [-70.9630, -31.7790] },
+
+  // Coquimbo - Limarí Province
+  { code: '04301', name: 'Ovalle', provinceCode: '043', regionCode: '04', coordinates: [-71.2000, -30.6030] },
+  { code: '04302', name: 'Combarbalá', provinceCode: '043', regionCode: '04', coordinates: [-71.0030, -31.1780] },
+  { code: '04303', name: 'Monte Patria', provinceCode: '043', regionCode: '04', coordinates: [-70.9560, -30.6940] },
+  { code: '04304', name: 'Punitaqui', provinceCode: '043', regionCode: '04', coordinates: [-71.2560, -30.8330] },
+  { code: '04305', name: 'Río Hurtado', provinceCode: '043', regionCode: '04', coordinates: [-70.9280, -30.4130], aliases: ['Samo Alto'] },
+
+  // Valparaíso - Valparaíso Province
+  { code: '05101', name: 'Valparaíso', provinceCode: '051', regionCode: '05', coordinates: [-71.6127, -33.0472], aliases: ['Valpo'] },
+  { code: '05102', name: 'Casablanca', provinceCode: '051', regionCode: '05', coordinates: [-71.4080, -33.3190] },
+  { code: '05103', name: 'Concón', provinceCode: '051', regionCode: '05', coordinates: [-71.5180, -32.9230] },
+  { code: '05104', name: 'Juan Fernández', provinceCode: '051', regionCode: '05', coordinates: [-78.8330, -33.6390], aliases: ['Robinson Crusoe'] },
+  { code: '05105', name: 'Puchuncaví', provinceCode: '051', regionCode: '05', coordinates: [-71.4150, -32.7260] },
+  { code: '05107', name: 'Quintero', provinceCode: '051', regionCode: '05', coordinates: [-71.5300, -32.7830] },
+  { code: '05109', name: 'Viña del Mar', provinceCode: '051', regionCode: '05', coordinates: [-71.5518, -33.0245], aliases: ['Viña'] },
+
+  // Valparaíso - Isla de Pascua Province
+  { code: '05201', name: 'Isla de Pascua', provinceCode: '052', regionCode: '05', coordinates: [-109.4333, -27.1500], aliases: ['Rapa Nui', 'Hanga Roa'] },
+
+  // Valparaíso - Los Andes Province
+  { code: '05301', name: 'Los Andes', provinceCode: '053', regionCode: '05', coordinates: [-70.5983, -32.8337] },
+  { code: '05302', name: 'Calle Larga', provinceCode: '053', regionCode: '05', coordinates: [-70.6300, -32.8600] },
+  { code: '05303', name: 'Rinconada', provinceCode: '053', regionCode: '05', coordinates: [-70.7080, -32.8380] },
+  { code: '05304', name: 'San Esteban', provinceCode: '053', regionCode: '05', coordinates: [-70.5800, -32.8000] },
+
+  // Valparaíso - Petorca Province
+  { code: '05401', name: 'La Ligua', provinceCode: '054', regionCode: '05', coordinates: [-71.2311, -32.4524] },
+  { code: '05402', name: 'Cabildo', provinceCode: '054', regionCode: '05', coordinates: [-71.0660, -32.4270] },
+  { code: '05403', name: 'Papudo', provinceCode: '054', regionCode: '05', coordinates: [-71.4490, -32.5070] },
+  { code: '05404', name: 'Petorca', provinceCode: '054', regionCode: '05', coordinates: [-70.9340, -32.2520] },
+  { code: '05405', name: 'Zapallar', provinceCode: '054', regionCode: '05', coordinates: [-71.4580, -32.5530] },
+
+  // Valparaíso - Quillota Province
+  { code: '05501', name: 'Quillota', provinceCode: '055', regionCode: '05', coordinates: [-71.2489, -32.8794] },
+  { code: '05502', name: 'Calera', provinceCode: '055', regionCode: '05', coordinates: [-71.1890, -32.7880], aliases: ['La Calera'] },
+  { code: '05503', name: 'Hijuelas', provinceCode: '055', regionCode: '05', coordinates: [-71.1440, -32.8000] },
+  { code: '05504', name: 'La Cruz', provinceCode: '055', regionCode: '05', coordinates: [-71.2290, -32.8260] },
+  { code: '05506', name: 'Nogales', provinceCode: '055', regionCode: '05', coordinates: [-71.2040, -32.7350] },
+
+  // Valparaíso - San Antonio Province
+  { code: '05601', name: 'San Antonio', provinceCode: '056', regionCode: '05', coordinates: [-71.6127, -33.5933] },
+  { code: '05602', name: 'Algarrobo', provinceCode: '056', regionCode: '05', coordinates: [-71.6700, -33.3630] },
+  { code: '05603', name: 'Cartagena', provinceCode: '056', regionCode: '05', coordinates: [-71.6060, -33.5530] },
+  { code: '05604', name: 'El Quisco', provinceCode: '056', regionCode: '05', coordinates: [-71.6970, -33.3970] },
+  { code: '05605', name: 'El Tabo', provinceCode: '056', regionCode: '05', coordinates: [-71.6670, -33.4550] },
+  { code: '05606', name: 'Santo Domingo', provinceCode: '056', regionCode: '05', coordinates: [-71.6290, -33.6350] },
+
+  // Valparaíso - San Felipe de Aconcagua Province
+  { code: '05701', name: 'San Felipe', provinceCode: '057', regionCode: '05', coordinates: [-70.7254, -32.7507] },
+  { code: '05702', name: 'Catemu', provinceCode: '057', regionCode: '05', coordinates: [-70.9590, -32.7790] },
+  { code: '05703', name: 'Llaillay', provinceCode: '057', regionCode: '05', coordinates: [-70.9560, -32.8410], aliases: ['Llay-Llay'] },
+  { code: '05704', name: 'Panquehue', provinceCode: '057', regionCode: '05', coordinates: [-70.8410, -32.8080] },
+  { code: '05705', name: 'Putaendo', provinceCode: '057', regionCode: '05', coordinates: [-70.7170, -32.6270] },
+  { code: '05706', name: 'Santa María', provinceCode: '057', regionCode: '05', coordinates: [-70.6590, -32.7470] },
+
+  // Valparaíso - Marga Marga Province
+  { code: '05801', name: 'Quilpué', provinceCode: '058', regionCode: '05', coordinates: [-71.4425, -33.0472] },
+  { code: '05802', name: 'Limache', provinceCode: '058', regionCode: '05', coordinates: [-71.2670, -33.0170] },
+  { code: '05803', name: 'Olmué', provinceCode: '058', regionCode: '05', coordinates: [-71.1870, -33.0000] },
+  { code: '05804', name: 'Villa Alemana', provinceCode: '058', regionCode: '05', coordinates: [-71.3730, -33.0420] },
+
+  // Metropolitana - Santiago Province
+  { code: '13101', name: 'Santiago', provinceCode: '131', regionCode: '13', coordinates: [-70.6505, -33.4378], aliases: ['Santiago Centro', 'Stgo'] },
+  { code: '13102', name: 'Cerrillos', provinceCode: '131', regionCode: '13', coordinates: [-70.7110, -33.4970] },
+  { code: '13103', name: 'Cerro Navia', provinceCode: '131', regionCode: '13', coordinates: [-70.7440, -33.4250] },
+  { code: '13104', name: 'Conchalí', provinceCode: '131', regionCode: '13', coordinates: [-70.6750, -33.3840] },
+  { code: '13105', name: 'El Bosque', provinceCode: '131', regionCode: '13', coordinates: [-70.6760, -33.5620] },
+  { code: '13106', name: 'Estación Central', provinceCode: '131', regionCode: '13', coordinates: [-70.6990, -33.4590], aliases: ['Est. Central'] },
+  { code: '13107', name: 'Huechuraba', provinceCode: '131', regionCode: '13', coordinates: [-70.6360, -33.3670] },
+  { code: '13108', name: 'Independencia', provinceCode: '131', regionCode: '13', coordinates: [-70.6650, -33.4160] },
+  { code: '13109', name: 'La Cisterna', provinceCode: '131', regionCode: '13', coordinates: [-70.6640, -33.5290] },
+  { code: '13110', name: 'La Florida', provinceCode: '131', regionCode: '13', coordinates: [-70.5980, -33.5220] },
+  { code: '13111', name: 'La Granja', provinceCode: '131', regionCode: '13', coordinates: [-70.6270, -33.5390] },
+  { code: '13112', name: 'La Pintana', provinceCode: '131', regionCode: '13', coordinates: [-70.6340, -33.5830] },
+  { code: '13113', name: 'La Reina', provinceCode: '131', regionCode: '13', coordinates: [-70.5350, -33.4450] },
+  { code: '13114', name: 'Las Condes', provinceCode: '131', regionCode: '13', coordinates: [-70.5670, -33.4080] },
+  { code: '13115', name: 'Lo Barnechea', provinceCode: '131', regionCode: '13', coordinates: [-70.5180, -33.3520] },
+  { code: '13116', name: 'Lo Espejo', provinceCode: '131', regionCode: '13', coordinates: [-70.6890, -33.5200] },
+  { code: '13117', name: 'Lo Prado', provinceCode: '131', regionCode: '13', coordinates: [-70.7250, -33.4440] },
+  { code: '13118', name: 'Macul', provinceCode: '131', regionCode: '13', coordinates: [-70.5990, -33.4910] },
+  { code: '13119', name: 'Maipú', provinceCode: '131', regionCode: '13', coordinates: [-70.7580, -33.5110] },
+  { code: '13120', name: 'Ñuñoa', provinceCode: '131', regionCode: '13', coordinates: [-70.5970, -33.4560] },
+  { code: '13121', name: 'Pedro Aguirre Cerda', provinceCode: '131', regionCode: '13', coordinates: [-70.6730, -33.4920], aliases: ['PAC'] },
+  { code: '13122', name: 'Peñalolén', provinceCode: '131', regionCode: '13', coordinates: [-70.5440, -33.4860] },
+  { code: '13123', name: 'Providencia', provinceCode: '131', regionCode: '13', coordinates: [-70.6150, -33.4330] },
+  { code: '13124', name: 'Pudahuel', provinceCode: '131', regionCode: '13', coordinates: [-70.7640, -33.4400] },
+  { code: '13125', name: 'Quilicura', provinceCode: '131', regionCode: '13', coordinates: [-70.7280, -33.3600] },
+  { code: '13126', name: 'Quinta Normal', provinceCode: '131', regionCode: '13', coordinates: [-70.6990, -33.4280] },
+  { code: '13127', name: 'Recoleta', provinceCode: '131', regionCode: '13', coordinates: [-70.6400, -33.4060] },
+  { code: '13128', name: 'Renca', provinceCode: '131', regionCode: '13', coordinates: [-70.7280, -33.4060] },
+  { code: '13129', name: 'San Joaquín', provinceCode: '131', regionCode: '13', coordinates: [-70.6280, -33.4960] },
+  { code: '13130', name: 'San Miguel', provinceCode: '131', regionCode: '13', coordinates: [-70.6510, -33.4970] },
+  { code: '13131', name: 'San Ramón', provinceCode: '131', regionCode: '13', coordinates: [-70.6420, -33.5360] },
+  { code: '13132', name: 'Vitacura', provinceCode: '131', regionCode: '13', coordinates: [-70.5730, -33.3900] },
+
+  // Metropolitana - Cordillera Province
+  { code: '13201', name: 'Puente Alto', provinceCode: '132', regionCode: '13', coordinates: [-70.5750, -33.6110] },
+  { code: '13202', name: 'Pirque', provinceCode: '132', regionCode: '13', coordinates: [-70.5740, -33.6380] },
+  { code: '13203', name: 'San José de Maipo', provinceCode: '132', regionCode: '13', coordinates: [-70.3520, -33.6420], aliases: ['Cajón del Maipo'] },
+
+  // Metropolitana - Chacabuco Province
+  { code: '13301', name: 'Colina', provinceCode: '133', regionCode: '13', coordinates: [-70.6750, -33.2010] },
+  { code: '13302', name: 'Lampa', provinceCode: '133', regionCode: '13', coordinates: [-70.8780, -33.2860] },
+  { code: '13303', name: 'Tiltil', provinceCode: '133', regionCode: '13', coordinates: [-70.9270, -33.0830], aliases: ['Til Til'] },
+
+  // Metropolitana - Maipo Province
+  { code: '13401', name: 'San Bernardo', provinceCode: '134', regionCode: '13', coordinates: [-70.7000, -33.5920] },
+  { code: '13402', name: 'Buin', provinceCode: '134', regionCode: '13', coordinates: [-70.7430, -33.7320] },
+  { code: '13403', name: 'Calera de Tango', provinceCode: '134', regionCode: '13', coordinates: [-70.7800, -33.6300] },
+  { code: '13404', name: 'Paine', provinceCode: '134', regionCode: '13', coordinates: [-70.7410, -33.8080] },
+
+  // Metropolitana - Melipilla Province
+  { code: '13501', name: 'Melipilla', provinceCode: '135', regionCode: '13', coordinates: [-71.2150, -33.6890] },
+  { code: '13502', name: 'Alhué', provinceCode: '135', regionCode: '13', coordinates: [-71.0970, -34.0370] },
+  { code: '13503', name: 'Curacaví', provinceCode: '135', regionCode: '13', coordinates: [-71.1330, -33.4030] },
+  { code: '13504', name: 'María Pinto', provinceCode: '135', regionCode: '13', coordinates: [-71.1210, -33.5150] },
+  { code: '13505', name: 'San Pedro', provinceCode: '135', regionCode: '13', coordinates: [-71.4620, -33.8950] },
+
+  // Metropolitana - Talagante Province
+  { code: '13601', name: 'Talagante', provinceCode: '136', regionCode: '13', coordinates: [-70.9280, -33.6640] },
+  { code: '13602', name: 'El Monte', provinceCode: '136', regionCode: '13', coordinates: [-71.0170, -33.6800] },
+  { code: '13603', name: 'Isla de Maipo', provinceCode: '136', regionCode: '13', coordinates: [-70.8990, -33.7530] },
+  { code: '13604', name: 'Padre Hurtado', provinceCode: '136', regionCode: '13', coordinates: [-70.8120, -33.5680] },
+  { code: '13605', name: 'Peñaflor', provinceCode: '136', regionCode: '13', coordinates: [-70.8760, -33.6060] },
+
+  // O'Higgins - Cachapoal Province
+  { code: '06101', name: 'Rancagua', provinceCode: '061', regionCode: '06', coordinates: [-70.7398, -34.1708] },
+  { code: '06102', name: 'Codegua', provinceCode: '061', regionCode: '06', coordinates: [-70.6680, -34.0360] },
+  { code: '06103', name: 'Coinco', provinceCode: '061', regionCode: '06', coordinates: [-70.9710, -34.2920] },
+  { code: '06104', name: 'Coltauco', provinceCode: '061', regionCode: '06', coordinates: [-71.0850, -34.2870] },
+  { code: '06105', name: 'Doñihue', provinceCode: '061', regionCode: '06', coordinates: [-70.9650, -34.2260] },
+  { code: '06106', name: 'Graneros', provinceCode: '061', regionCode: '06', coordinates: [-70.7270, -34.0650] },
+  { code: '06107', name: 'Las Cabras', provinceCode: '061', regionCode: '06', coordinates: [-71.3090, -34.2930] },
+  { code: '06108', name: 'Machalí', provinceCode: '061', regionCode: '06', coordinates: [-70.6510, -34.1800] },
+  { code: '06109', name: 'Malloa', provinceCode: '061', regionCode: '06', coordinates: [-70.9440, -34.4460] },
+  { code: '06110', name: 'Mostazal', provinceCode: '061', regionCode: '06', coordinates: [-70.7020, -33.9770], aliases: ['San Francisco de Mostazal'] },
+  { code: '06111', name: 'Olivar', provinceCode: '061', regionCode: '06', coordinates: [-70.8230, -34.2100] },
+  { code: '06112', name: 'Peumo', provinceCode: '061', regionCode: '06', coordinates: [-71.1700, -34.3800] },
+  { code: '06113', name: 'Pichidegua', provinceCode: '061', regionCode: '06', coordinates: [-71.2830, -34.3580] },
+  { code: '06114', name: 'Quinta de Tilcoco', provinceCode: '061', regionCode: '06', coordinates: [-70.9600, -34.3520] },
+  { code: '06115', name: 'Rengo', provinceCode: '061', regionCode: '06', coordinates: [-70.8570, -34.4020] },
+  { code: '06116', name: 'Requínoa', provinceCode: '061', regionCode: '06', coordinates: [-70.8140, -34.2860] },
+  { code: '06117', name: 'San Vicente', provinceCode: '061', regionCode: '06', coordinates: [-71.0780, -34.4380], aliases: ['San Vicente de Tagua Tagua'] },
+
+  // O'Higgins - Cardenal Caro Province
+  { code: '06201', name: 'Pichilemu', provinceCode: '062', regionCode: '06', coordinates: [-72.0030, -34.3870] },
+  { code: '06202', name: 'La Estrella', provinceCode: '062', regionCode: '06', coordinates: [-71.6070, -34.2020] },
+  { code: '06203', name: 'Litueche', provinceCode: '062', regionCode: '06', coordinates: [-71.7240, -34.1100] },
+  { code: '06204', name: 'Marchihue', provinceCode: '062', regionCode: '06', coordinates: [-71.6140, -34.3970], aliases: ['Marchigüe'] },
+  { code: '06205', name: 'Navidad', provinceCode: '062', regionCode: '06', coordinates: [-71.8340, -33.9570] },
+  { code: '06206', name: 'Paredones', provinceCode: '062', regionCode: '06', coordinates: [-71.8980, -34.6470] },
+
+  // O'Higgins - Colchagua Province
+  { code: '06301', name: 'San Fernando', provinceCode: '063', regionCode: '06', coordinates: [-70.9890, -34.5840] },
+  { code: '06302', name: 'Chépica', provinceCode: '063', regionCode: '06', coordinates: [-71.2700, -34.7310] },
+  { code: '06303', name: 'Chimbarongo', provinceCode: '063', regionCode: '06', coordinates: [-71.0430, -34.7120] },
+  { code: '06304', name: 'Lolol', provinceCode: '063', regionCode: '06', coordinates: [-71.6450, -34.7290] },
+  { code: '06305', name: 'Nancagua', provinceCode: '063', regionCode: '06', coordinates: [-71.1760, -34.6620] },
+  { code: '06306', name: 'Palmilla', provinceCode: '063', regionCode: '06', coordinates: [-71.3580, -34.6030] },
+  { code: '06307', name: 'Peralillo', provinceCode: '063', regionCode: '06', coordinates: [-71.4920, -34.4770] },
+  { code: '06308', name: 'Placilla', provinceCode: '063', regionCode: '06', coordinates: [-71.1150, -34.6160] },
+  { code: '06309', name: 'Pumanque', provinceCode: '063', regionCode: '06', coordinates: [-71.6660, -34.6070] },
+  { code: '06310', name: 'Santa Cruz', provinceCode: '063', regionCode: '06', coordinates: [-71.3650, -34.6390] },
+
+  // Maule - Talca Province
+  { code: '07101', name: 'Talca', provinceCode: '071', regionCode: '07', coordinates: [-71.6554, -35.4264] },
+  { code: '07102', name: 'Constitución', provinceCode: '071', regionCode: '07', coordinates: [-72.4170, -35.3330] },
+  { code: '07103', name: 'Curepto', provinceCode: '071', regionCode: '07', coordinates: [-72.0210, -35.0910] },
+  { code: '07104', name: 'Empedrado', provinceCode: '071', regionCode: '07', coordinates: [-72.2830, -35.6000] },
+  { code: '07105', name: 'Maule', provinceCode: '071', regionCode: '07', coordinates: [-71.7050, -35.5320] },
+  { code: '07106', name: 'Pelarco', provinceCode: '071', regionCode: '07', coordinates: [-71.4500, -35.3710] },
+  { code: '07107', name: 'Pencahue', provinceCode: '071', regionCode: '07', coordinates: [-71.8280, -35.4040] },
+  { code: '07108', name: 'Río Claro', provinceCode: '071', regionCode: '07', coordinates: [-71.2660, -35.2820], aliases: ['Cumpeo'] },
+  { code: '07109', name: 'San Clemente', provinceCode: '071', regionCode: '07', coordinates: [-71.4860, -35.5500] },
+  { code: '07110', name: 'San Rafael', provinceCode: '071', regionCode: '07', coordinates: [-71.5250, -35.3110] },
+
+  // Maule - Cauquenes Province
+  { code: '07201', name: 'Cauquenes', provinceCode: '072', regionCode: '07', coordinates: [-72.3220, -35.9670] },
+  { code: '07202', name: 'Chanco', provinceCode: '072', regionCode: '07', coordinates: [-72.5330, -35.7330] },
+  { code: '07203', name: 'Pelluhue', provinceCode: '072', regionCode: '07', coordinates: [-72.5720, -35.8140], aliases: ['Curanipe'] },
+
+  // Maule - Curicó Province
+  { code: '07301', name: 'Curicó', provinceCode: '073', regionCode: '07', coordinates: [-71.2394, -34.9828] },
+  { code: '07302', name: 'Hualañé', provinceCode: '073', regionCode: '07', coordinates: [-71.8050, -34.9770] },
+  { code: '07303', name: 'Licantén', provinceCode: '073', regionCode: '07', coordinates: [-72.0010, -34.9840] },
+  { code: '07304', name: 'Molina', provinceCode: '073', regionCode: '07', coordinates: [-71.2820, -35.1140] },
+  { code: '07305', name: 'Rauco', provinceCode: '073', regionCode: '07', coordinates: [-71.3180, -34.9290] },
+  { code: '07306', name: 'Romeral', provinceCode: '073', regionCode: '07', coordinates: [-71.1250, -34.9620] },
+  { code: '07307', name: 'Sagrada Familia', provinceCode: '073', regionCode: '07', coordinates: [-71.3830, -35.0000] },
+  { code: '07308', name: 'Teno', provinceCode: '073', regionCode: '07', coordinates: [-71.1620, -34.8700] },
+  { code: '07309', name: 'Vichuquén', provinceCode: '073', regionCode: '07', coordinates: [-72.0080, -34.8600] },
+
+  // Maule - Linares Province
+  { code: '07401', name: 'Linares', provinceCode: '074', regionCode: '07', coordinates: [-71.5930, -35.8460] },
+  { code: '07402', name: 'Colbún', provinceCode: '074', regionCode: '07', coordinates: [-71.4060, -35.6950] },
+  { code: '07403', name: 'Longaví', provinceCode: '074', regionCode: '07', coordinates: [-71.6830, -35.9650] },
+  { code: '07404', name: 'Parral', provinceCode: '074', regionCode: '07', coordinates: [-71.8260, -36.1430] },
+  { code: '07405', name: 'Retiro', provinceCode: '074', regionCode: '07', coordinates: [-71.7590, -36.0450] },
+  { code: '07406', name: 'San Javier', provinceCode: '074', regionCode: '07', coordinates: [-71.7290, -35.5950], aliases: ['San Javier de Loncomilla'] },
+  { code: '07407', name: 'Villa Alegre', provinceCode: '074', regionCode: '07', coordinates: [-71.7500, -35.6860] },
+  { code: '07408', name: 'Yerbas Buenas', provinceCode: '074', regionCode: '07', coordinates: [-71.5830, -35.7500] },
+
+  // Ñuble - Diguillín Province
+  { code: '16101', name: 'Chillán', provinceCode: '161', regionCode: '16', coordinates: [-72.1034, -36.6066] },
+  { code: '16102', name: 'Bulnes', provinceCode: '161', regionCode: '16', coordinates: [-72.3010, -36.7420] },
+  { code: '16103', name: 'Chillán Viejo', provinceCode: '161', regionCode: '16', coordinates: [-72.1320, -36.6230] },
+  { code: '16104', name: 'El Carmen', provinceCode: '161', regionCode: '16', coordinates: [-72.0330, -36.9000] },
+  { code: '16105', name: 'Pemuco', provinceCode: '161', regionCode: '16', coordinates: [-72.1000, -36.9770] },
+  { code: '16106', name: 'Pinto', provinceCode: '161', regionCode: '16', coordinates: [-71.8930, -36.6980] },
+  { code: '16107', name: 'Quillón', provinceCode: '161', regionCode: '16', coordinates: [-72.4700, -36.7380] },
+  { code: '16108', name: 'San Ignacio', provinceCode: '161', regionCode: '16', coordinates: [-71.9880, -36.8180] },
+  { code: '16109', name: 'Yungay', provinceCode: '161', regionCode: '16', coordinates: [-72.0130, -37.1210] },
+
+  // Ñuble - Itata Province
+  { code: '16201', name: 'Quirihue', provinceCode: '162', regionCode: '16', coordinates: [-72.5410, -36.2800] },
+  { code: '16202', name: 'Cobquecura', provinceCode: '162', regionCode: '16', coordinates: [-72.7910, -36.1320] },
+  { code: '16203', name: 'Coelemu', provinceCode: '162', regionCode: '16', coordinates: [-72.7020, -36.4870] },
+  { code: '16204', name: 'Ninhue', provinceCode: '162', regionCode: '16', coordinates: [-72.3970, -36.4010] },
+  { code: '16205', name: 'Portezuelo', provinceCode: '162', regionCode: '16', coordinates: [-72.4330, -36.5290] },
+  { code: '16206', name: 'Ránquil', provinceCode: '162', regionCode: '16', coordinates: [-72.5530, -36.6480], aliases: ['Ñipas'] },
+  { code: '16207', name: 'Treguaco', provinceCode: '162', regionCode: '16', coordinates: [-72.6660, -36.4280] },
+
+  // Ñuble - Punilla Province
+  { code: '16301', name: 'San Carlos', provinceCode: '163', regionCode: '16', coordinates: [-71.9580, -36.4240] },
+  { code: '16302', name: 'Coihueco', provinceCode: '163', regionCode: '16', coordinates: [-71.8330, -36.6170] },
+  { code: '16303', name: 'Ñiquén', provinceCode: '163', regionCode: '16', coordinates: [-71.8990, -36.2850] },
+  { code: '16304', name: 'San Fabián', provinceCode: '163', regionCode: '16', coordinates: [-71.5490, -36.5540], aliases: ['San Fabián de Alico'] },
+  { code: '16305', name: 'San Nicolás', provinceCode: '163', regionCode: '16', coordinates: [-72.2120, -36.4990] },
+
+  // Biobío - Concepción Province
+  { code: '08101', name: 'Concepción', provinceCode: '081', regionCode: '08', coordinates: [-73.0498, -36.8270], aliases: ['Conce'] },
+  { code: '08102', name: 'Coronel', provinceCode: '081', regionCode: '08', coordinates: [-73.1500, -37.0170] },
+  { code: '08103', name: 'Chiguayante', provinceCode: '081', regionCode: '08', coordinates: [-73.0280, -36.9250] },
+  { code: '08104', name: 'Florida', provinceCode: '081', regionCode: '08', coordinates: [-72.6620, -36.8210] },
+  { code: '08105', name: 'Hualqui', provinceCode: '081', regionCode: '08', coordinates: [-72.9370, -36.9750] },
+  { code: '08106', name: 'Lota', provinceCode: '081', regionCode: '08', coordinates: [-73.1570, -37.0890] },
+  { code: '08107', name: 'Penco', provinceCode: '081', regionCode: '08', coordinates: [-72.9960, -36.7400] },
+  { code: '08108', name: 'San Pedro de la Paz', provinceCode: '081', regionCode: '08', coordinates: [-73.1080, -36.8430] },
+  { code: '08109', name: 'Santa Juana', provinceCode: '081', regionCode: '08', coordinates: [-72.9360, -37.1730] },
+  { code: '08110', name: 'Talcahuano', provinceCode: '081', regionCode: '08', coordinates: [-73.1168, -36.7249] },
+  { code: '08111', name: 'Tomé', provinceCode: '081', regionCode: '08', coordinates: [-72.9580, -36.6170] },
+  { code: '08112', name: 'Hualpén', provinceCode: '081', regionCode: '08', coordinates: [-73.0950, -36.7870] },
+
+  // Biobío - Arauco Province
+  { code: '08201', name: 'Lebu', provinceCode: '082', regionCode: '08', coordinates: [-73.6500, -37.6080] },
+  { code: '08202', name: 'Arauco', provinceCode: '082', regionCode: '08', coordinates: [-73.3180, -37.2460] },
+  { code: '08203', name: 'Cañete', provinceCode: '082', regionCode: '08', coordinates: [-73.3960, -37.8010] },
+  { code: '08204', name: 'Contulmo', provinceCode: '082', regionCode: '08', coordinates: [-73.2290, -38.0130] },
+  { code: '08205', name: 'Curanilahue', provinceCode: '082', regionCode: '08', coordinates: [-73.3480, -37.4770] },
+  { code: '08206', name: 'Los Álamos', provinceCode: '082', regionCode: '08', coordinates: [-73.4640, -37.6280] },
+  { code: '08207', name: 'Tirúa', provinceCode: '082', regionCode: '08', coordinates: [-73.4990, -38.3420] },
+
+  // Biobío - Biobío Province
+  { code: '08301', name: 'Los Ángeles', provinceCode: '083', regionCode: '08', coordinates: [-72.3540, -37.4690] },
+  { code: '08302', name: 'Antuco', provinceCode: '083', regionCode: '08', coordinates: [-71.6770, -37.3270] },
+  { code: '08303', name: 'Cabrero', provinceCode: '083', regionCode: '08', coordinates: [-72.4050, -37.0340] },
+  { code: '08304', name: 'Laja', provinceCode: '083', regionCode: '08', coordinates: [-72.7160, -37.2840] },
+  { code: '08305', name: 'Mulchén', provinceCode: '083', regionCode: '08', coordinates: [-72.2410, -37.7190] },
+  { code: '08306', name: 'Nacimiento', provinceCode: '083', regionCode: '08', coordinates: [-72.6730, -37.5020] },
+  { code: '08307', name: 'Negrete', provinceCode: '083', regionCode: '08', coordinates: [-72.5310, -37.5860] },
+  { code: '08308', name: 'Quilaco', provinceCode: '083', regionCode: '08', coordinates: [-71.9990, -37.6800] },
+  { code: '08309', name: 'Quilleco', provinceCode: '083', regionCode: '08', coordinates: [-71.9660, -37.4690] },
+  { code: '08310', name: 'San Rosendo', provinceCode: '083', regionCode: '08', coordinates: [-72.7240, -37.2640] },
+  { code: '08311', name: 'Santa Bárbara', provinceCode: '083', regionCode: '08', coordinates: [-72.0210, -37.6630] },
+  { code: '08312', name: 'Tucapel', provinceCode: '083', regionCode: '08', coordinates: [-71.9500, -37.2330], aliases: ['Huépil'] },
+  { code: '08313', name: 'Yumbel', provinceCode: '083', regionCode: '08', coordinates: [-72.5610, -37.0980] },
+  { code: '08314', name: 'Alto Biobío', provinceCode: '083', regionCode: '08', coordinates: [-71.6100, -37.9820], aliases: ['Ralco'] },
+
+  // La Araucanía - Cautín Province
+  { code: '09101', name: 'Temuco', provinceCode: '091', regionCode: '09', coordinates: [-72.5904, -38.7359] },
+  { code: '09102', name: 'Carahue', provinceCode: '091', regionCode: '09', coordinates: [-73.1640, -38.7110] },
+  { code: '09103', name: 'Cunco', provinceCode: '091', regionCode: '09', coordinates: [-72.0260, -38.9310] },
+  { code: '09104', name: 'Curarrehue', provinceCode: '091', regionCode: '09', coordinates: [-71.5880, -39.3590] },
+  { code: '09105', name: 'Freire', provinceCode: '091', regionCode: '09', coordinates: [-72.6220, -38.9530] },
+  { code: '09106', name: 'Galvarino', provinceCode: '091', regionCode: '09', coordinates: [-72.7800, -38.4080] },
+  { code: '09107', name: 'Gorbea', provinceCode: '091', regionCode: '09', coordinates: [-72.6720, -39.1000] },
+  { code: '09108', name: 'Lautaro', provinceCode: '091', regionCode: '09', coordinates: [-72.4360, -38.5300] },
+  { code: '09109', name: 'Loncoche', provinceCode: '091', regionCode: '09', coordinates: [-72.6310, -39.3670] },
+  { code: '09110', name: 'Melipeuco', provinceCode: '091', regionCode: '09', coordinates: [-71.6920, -38.8490] },
+  { code: '09111', name: 'Nueva Imperial', provinceCode: '091', regionCode: '09', coordinates: [-72.9500, -38.7450] },
+  { code: '09112', name: 'Padre Las Casas', provinceCode: '091', regionCode: '09', coordinates: [-72.5970, -38.7660] },
+  { code: '09113', name: 'Perquenco', provinceCode: '091', regionCode: '09', coordinates: [-72.3750, -38.4150] },
+  { code: '09114', name: 'Pitrufquén', provinceCode: '091', regionCode: '09', coordinates: [-72.6430, -38.9860] },
+  { code: '09115', name: 'Pucón', provinceCode: '091', regionCode: '09', coordinates: [-71.9540, -39.2820] },
+  { code: '09116', name: 'Saavedra', provinceCode: '091', regionCode: '09', coordinates: [-73.3960, -38.7840], aliases: ['Puerto Saavedra'] },
+  { code: '09117', name: 'Teodoro Schmidt', provinceCode: '091', regionCode: '09', coordinates: [-73.0920, -38.9950] },
+  { code: '09118', name: 'Toltén', provinceCode: '091', regionCode: '09', coordinates: [-73.2170, -39.2060] },
+  { code: '09119', name: 'Vilcún', provinceCode: '091', regionCode: '09', coordinates: [-72.2240, -38.6690] },
+  { code: '09120', name: 'Villarrica', provinceCode: '091', regionCode: '09', coordinates: [-72.2270, -39.2800] },
+  { code: '09121', name: 'Cholchol', provinceCode: '091', regionCode: '09', coordinates: [-72.8450, -38.5980], aliases: ['Chol Chol'] },
+
+  // La Araucanía - Malleco Province
+  { code: '09201', name: 'Angol', provinceCode: '092', regionCode: '09', coordinates: [-72.7160, -37.7950] },
+  { code: '09202', name: 'Collipulli', provinceCode: '092', regionCode: '09', coordinates: [-72.4330, -37.9550] },
+  { code: '09203', name: 'Curacautín', provinceCode: '092', regionCode: '09', coordinates: [-71.8890, -38.4390] },
+  { code: '09204', name: 'Ercilla', provinceCode: '092', regionCode: '09', coordinates: [-72.3580, -38.0590] },
+  { code: '09205', name: 'Lonquimay', provinceCode: '092', regionCode: '09', coordinates: [-71.3740, -38.4500] },
+  { code: '09206', name: 'Los Sauces', provinceCode: '092', regionCode: '09', coordinates: [-72.8290, -37.9750] },
+  { code: '09207', name: 'Lumaco', provinceCode: '092', regionCode: '09', coordinates: [-72.8920, -38.1640] },
+  { code: '09208', name: 'Purén', provinceCode: '092', regionCode: '09', coordinates: [-73.0720, -38.0320] },
+  { code: '09209', name: 'Renaico', provinceCode: '092', regionCode: '09', coordinates: [-72.5870, -37.6660] },
+  { code: '09210', name: 'Traiguén', provinceCode: '092', regionCode: '09', coordinates: [-72.6650, -38.2500] },
+  { code: '09211', name: 'Victoria', provinceCode: '092', regionCode: '09', coordinates: [-72.3330, -38.2330] },
+
+  // Los Ríos - Valdivia Province
+  { code: '14101', name: 'Valdivia', provinceCode: '141', regionCode: '14', coordinates: [-73.2459, -39.8142] },
+  { code: '14102', name: 'Corral', provinceCode: '141', regionCode: '14', coordinates: [-73.4310, -39.8870] },
+  { code: '14103', name: 'Lanco', provinceCode: '141', regionCode: '14', coordinates: [-72.7750, -39.4520] },
+  { code: '14104', name: 'Los Lagos', provinceCode: '141', regionCode: '14', coordinates: [-72.8330, -39.8500] },
+  { code: '14105', name: 'Máfil', provinceCode: '141', regionCode: '14', coordinates: [-72.9570, -39.6650] },
+  { code: '14106', name: 'Mariquina', provinceCode: '141', regionCode: '14', coordinates: [-72.9620, -39.5400], aliases: ['San José de la Mariquina'] },
+  { code: '14107', name: 'Paillaco', provinceCode: '141', regionCode: '14', coordinates: [-72.8710, -40.0710] },
+  { code: '14108', name: 'Panguipulli', provinceCode: '141', regionCode: '14', coordinates: [-72.3370, -39.6440] },
+
+  // Los Ríos - Ranco Province
+  { code: '14201', name: 'La Unión', provinceCode: '142', regionCode: '14', coordinates: [-73.0830, -40.2930] },
+  { code: '14202', name: 'Futrono', provinceCode: '142', regionCode: '14', coordinates: [-72.3930, -40.1290] },
+  { code: '14203', name: 'Lago Ranco', provinceCode: '142', regionCode: '14', coordinates: [-72.5000, -40.3120] },
+  { code: '14204', name: 'Río Bueno', provinceCode: '142', regionCode: '14', coordinates: [-72.9560, -40.3350] },
+
+  // Los Lagos - Llanquihue Province
+  { code: '10101', name: 'Puerto Montt', provinceCode: '101', regionCode: '10', coordinates: [-72.9424, -41.4693] },
+  { code: '10102', name: 'Calbuco', provinceCode: '101', regionCode: '10', coordinates: [-73.1320, -41.7730] },
+  { code: '10103', name: 'Cochamó', provinceCode: '101', regionCode: '10', coordinates: [-72.3060, -41.4920] },
+  { code: '10104', name: 'Fresia', provinceCode: '101', regionCode: '10', coordinates: [-73.4230, -41.1530] },
+  { code: '10105', name: 'Frutillar', provinceCode: '101', regionCode: '10', coordinates: [-73.0600, -41.1260] },
+  { code: '10106', name: 'Los Muermos', provinceCode: '101', regionCode: '10', coordinates: [-73.4650, -41.3990] },
+  { code: '10107', name: 'Llanquihue', provinceCode: '101', regionCode: '10', coordinates: [-73.0050, -41.2580] },
+  { code: '10108', name: 'Maullín', provinceCode: '101', regionCode: '10', coordinates: [-73.6000, -41.6170] },
+  { code: '10109', name: 'Puerto Varas', provinceCode: '101', regionCode: '10', coordinates: [-72.9850, -41.3190] },
+
+  // Los Lagos - Chiloé Province
+  { code: '10201', name: 'Castro', provinceCode: '102', regionCode: '10', coordinates: [-73.7620, -42.4800] },
+  { code: '10202', name: 'Ancud', provinceCode: '102', regionCode: '10', coordinates: [-73.8280, -41.8690] },
+  { code: '10203', name: 'Chonchi', provinceCode: '102', regionCode: '10', coordinates: [-73.7730, -42.6230] },
+  { code: '10204', name: 'Curaco de Vélez', provinceCode: '102', regionCode: '10', coordinates: [-73.6030, -42.4400] },
+  { code: '10205', name: 'Dalcahue', provinceCode: '102', regionCode: '10', coordinates: [-73.6500, -42.3790] },
+  { code: '10206', name: 'Puqueldón', provinceCode: '102', regionCode: '10', coordinates: [-73.6710, -42.6020] },
+  { code: '10207', name: 'Queilén', provinceCode: '102', regionCode: '10', coordinates: [-73.4770, -42.8720] },
+  { code: '10208', name: 'Quellón', provinceCode: '102', regionCode: '10', coordinates: [-73.6170, -43.1160] },
+  { code: '10209', name: 'Quemchi', provinceCode: '102', regionCode: '10', coordinates: [-73.4740, -42.1440] },
+  { code: '10210', name: 'Quinchao', provinceCode: '102', regionCode: '10', coordinates: [-73.4930, -42.4720], aliases: ['Achao'] },
+
+  // Los Lagos - Osorno Province
+  { code: '10301', name: 'Osorno', provinceCode: '103', regionCode: '10', coordinates: [-73.1330, -40.5740] },
+  { code: '10302', name: 'Puerto Octay', provinceCode: '103', regionCode: '10', coordinates: [-72.8840, -40.9730] },
+  { code: '10303', name: 'Purranque', provinceCode: '103', regionCode: '10', coordinates: [-73.1680, -40.9100] },
+  { code: '10304', name: 'Puyehue', provinceCode: '103', regionCode: '10', coordinates: [-72.6000, -40.6830], aliases: ['Entre Lagos'] },
+  { code: '10305', name: 'Río Negro', provinceCode: '103', regionCode: '10', coordinates: [-73.2330, -40.7830] },
+  { code: '10306', name: 'San Juan de la Costa', provinceCode: '103', regionCode: '10', coordinates: [-73.4000, -40.5170] },
+  { code: '10307', name: 'San Pablo', provinceCode: '103', regionCode: '10', coordinates: [-73.0100, -40.4130] },
+
+  // Los Lagos - Palena Province
+  { code: '10401', name: 'Chaitén', provinceCode: '104', regionCode: '10', coordinates: [-72.7080, -42.9160] },
+  { code: '10402', name: 'Futaleufú', provinceCode: '104', regionCode: '10', coordinates: [-71.8670, -43.1850] },
+  { code: '10403', name: 'Hualaihué', provinceCode: '104', regionCode: '10', coordinates: [-72.4710, -41.9680], aliases: ['Hornopirén'] },
+  { code: '10404', name: 'Palena', provinceCode: '104', regionCode: '10', coordinates: [-71.8040, -43.6160] },
+
+  // Aysén - Coyhaique Province
+  { code: '11101', name: 'Coyhaique', provinceCode: '111', regionCode: '11', coordinates: [-72.0662, -45.5712], aliases: ['Coihaique'] },
+  { code: '11102', name: 'Lago Verde', provinceCode: '111', regionCode: '11', coordinates: [-71.8460, -44.2370] },
+
+  // Aysén - Aysén Province
+  { code: '11201', name: 'Aysén', provinceCode: '112', regionCode: '11', coordinates: [-72.6920, -45.4030], aliases: ['Puerto Aysén', 'Aisén'] },
+  { code: '11202', name: 'Cisnes', provinceCode: '112', regionCode: '11', coordinates: [-72.6830, -44.7280], aliases: ['Puerto Cisnes'] },
+  { code: '11203', name: 'Guaitecas', provinceCode: '112', regionCode: '11', coordinates: [-73.7460, -43.8970], aliases: ['Melinka'] },
+
+  // Aysén - Capitán Prat Province
+  { code: '11301', name: 'Cochrane', provinceCode: '113', regionCode: '11', coordinates: [-72.5750, -47.2540] },
+  { code: '11302', name: 'O\'Higgins', provinceCode: '113', regionCode: '11', coordinates: [-72.5600, -48.4670], aliases: ['Villa O\'Higgins'] },
+  { code: '11303', name: 'Tortel', provinceCode: '113', regionCode: '11', coordinates: [-73.5340, -47.7990], aliases: ['Caleta Tortel'] },
+
+  // Aysén - General Carrera Province
+  { code: '11401', name: 'Chile Chico', provinceCode: '114', regionCode: '11', coordinates: [-71.7240, -46.5410] },
+  { code: '11402', name: 'Río Ibáñez', provinceCode: '114', regionCode: '11', coordinates: [-71.9360, -46.2940], aliases: ['Puerto Ingeniero Ibáñez'] },
+
+  // Magallanes - Magallanes Province
+  { code: '12101', name: 'Punta Arenas', provinceCode: '121', regionCode: '12', coordinates: [-70.9171, -53.1638] },
+  { code: '12102', name: 'Laguna Blanca', provinceCode: '121', regionCode: '12', coordinates: [-71.4110, -52.4980], aliases: ['Villa Tehuelches'] },
+  { code: '12103', name: 'Río Verde', provinceCode: '121', regionCode: '12', coordinates: [-71.5000, -52.5830] },
+  { code: '12104', name: 'San Gregorio', provinceCode: '121', regionCode: '12', coordinates: [-69.5460, -52.4560], aliases: ['Punta Delgada'] },
+
+  // Magallanes - Antártica Chilena Province
+  { code: '12201', name: 'Cabo de Hornos', provinceCode: '122', regionCode: '12', coordinates: [-67.6040, -54.9340], aliases: ['Puerto Williams'] },
+  { code: '12202', name: 'Antártica', provinceCode: '122', regionCode: '12', coordinates: [-58.9660, -62.1990], aliases: ['Villa Las Estrellas'] },
+
+  // Magallanes - Tierra del Fuego Province
+  { code: '12301', name: 'Porvenir', provinceCode: '123', regionCode: '12', coordinates: [-70.3690, -53.2960] },
+  { code: '12302', name: 'Primavera', provinceCode: '123', regionCode: '12', coordinates: [-69.2880, -52.7770], aliases: ['Cerro Sombrero'] },
+  { code: '12303', name: 'Timaukel', provinceCode: '123', regionCode: '12', coordinates: [-69.6470, -53.6440], aliases: ['Cameron'] },
+
+  // Magallanes - Última Esperanza Province
+  { code: '12401', name: 'Natales', provinceCode: '124', regionCode: '12', coordinates: [-72.5060, -51.7290], aliases: ['Puerto Natales'] },
+  { code: '12402', name: 'Torres del Paine', provinceCode: '124', regionCode: '12', coordinates: [-72.3420, -51.2640], aliases: ['Cerro Castillo'] },
 ];
 
 /**
@@ -191,6 +638,8 @@ export const POPULAR_SERVICE_AREAS = [
   'Valparaíso',
 ];
 
+const COMUNAS_BY_CODE = new Map(CHILEAN_COMUNAS.map(comuna => [comuna.code, comuna]));
+
 /**
  * Utility functions for address data
  */
@@ -212,18 +661,99 @@ export function getComunasByRegion(regionCode: string): Comuna[] {
 }
 
 export function getComunaByCode(code: string): Comuna | undefined {
-  return CHILEAN_COMUNAS.find(comuna => comuna.code === code);
+  return COMUNAS_BY_CODE.get(code);
 }
 
 export function getProvinceByCode(code: string): Province | undefined {
   return CHILEAN_PROVINCES.find(province => province.code === code);
 }
 
-export function searchComunas(query: string): Comuna[] {
-  const lowerQuery = query.toLowerCase();
-  return CHILEAN_COMUNAS.filter(comuna =>
-    comuna.name.toLowerCase().includes(lowerQuery)
-  ).slice(0, 10); // Limit results for performance
+/**
+ * Find a comuna by its name or one of its aliases, ignoring accents and case
+ */
+export function getComunaByName(name: string): Comuna | undefined {
+  const target = normalizePlaceName(name);
+  if (!target) return undefined;
+  return CHILEAN_COMUNAS.find(comuna =>
+    getComunaNames(comuna).some(candidate => normalizePlaceName(candidate) === target)
+  );
+}
+
+/**
+ * Find a region by name, tolerating accents and short forms
+ * ("Metropolitana", "O'Higgins", "Aysén")
+ */
+export function getRegionByName(name: string): Region | undefined {
+  const target = normalizePlaceName(name);
+  if (!target) return undefined;
+  return (
+    CHILEAN_REGIONS.find(region =>
+      normalizePlaceName(region.name) === target || normalizePlaceName(region.shortName) === target
+    ) ||
+    CHILEAN_REGIONS.find(region => normalizePlaceName(region.name).includes(target))
+  );
+}
+
+/**
+ * Reference point of a region: the coordinates of its capital comuna.
+ * Regional capitals carry the XX101 CUT code.
+ */
+export function getRegionCentroid(regionCode: string): [number, number] | undefined {
+  return getComunaByCode(`${regionCode}101`)?.coordinates;
+}
+
+/**
+ * Accent-insensitive comuna search over names and aliases.
+ * Exact matches rank first, then prefix matches, then matches anywhere in the name.
+ */
+export function searchComunas(
+  query: string,
+  options: { limit?: number; regionCode?: string; provinceCode?: string } = {}
+): Comuna[] {
+  const { limit = 10, regionCode, provinceCode } = options;
+  const target = normalizePlaceName(query);
+  if (!target) return [];
+
+  return CHILEAN_COMUNAS
+    .filter(comuna =>
+      (!regionCode || comuna.regionCode === regionCode) &&
+      (!provinceCode || comuna.provinceCode === provinceCode)
+    )
+    .map(comuna => ({ comuna, rank: rankComunaMatch(comuna, target) }))
+    .filter(({ rank }) => rank !== null)
+    .sort((a, b) => (a.rank as number) - (b.rank as number) || a.comuna.name.localeCompare(b.comuna.name, 'es'))
+    .slice(0, limit) // Limit results for performance
+    .map(({ comuna }) => comuna);
+}
+
+// Lower is better; an alias ranks just behind the same kind of match on the official name
+function rankComunaMatch(comuna: Comuna, target: string): number | null {
+  let best: number | null = null;
+  getComunaNames(comuna).forEach((candidate, index) => {
+    const name = normalizePlaceName(candidate);
+    let rank: number | null = null;
+    if (name === target) rank = 0;
+    else if (name.startsWith(target)) rank = 1;
+    else if (name.split(/[\s'-]+/).some(word => word.startsWith(target))) rank = 2;
+    else if (name.includes(target)) rank = 3;
+
+    if (rank !== null && index > 0) rank += 0.5;
+    if (rank !== null && (best === null || rank < best)) best = rank;
+  });
+  return best;
+}
+
+function getComunaNames(comuna: Comuna): string[] {
+  return comuna.aliases ? [comuna.name, ...comuna.aliases] : [comuna.name];
+}
+
+function normalizePlaceName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\./g, '')
+    .toLowerCase()
+    .trim();
 }
 
 export function getFullAddress(comunaCode: string): {
@@ -270,4 +800,4 @@ export function isPremiumComuna(comunaName: string): boolean {
  */
 export function isPopularServiceArea(comunaName: string): boolean {
   return POPULAR_SERVICE_AREAS.includes(comunaName);
-}
\ No newline at end of file
+}
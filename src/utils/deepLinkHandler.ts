@@ -21,3 +21,8 @@ export interface AuthCallbackResult {
   session?: Session | null;
   user?: User | null;
 }
+
+// Saved searches open the Home tab and re-run the search (see linking config in AppNavigator)
+export function createSavedSearchLink(savedSearchId: string): string {
+  return Linking.createURL(`search/saved/${savedSearchId}`);
+}
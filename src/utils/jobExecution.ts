@@ -0,0 +1,194 @@
+/**
+ * Job execution helpers: which step of the visit the provider is in, photo labels,
+ * locations read from camera EXIF and the timeline shown to both parties
+ */
+
+import { Json } from '../types/database';
+import { BookingPhoto, JobExecution, JobExecutionStep, JobTimelineEvent } from '../types/jobExecution';
+import { GeoLocation, PhotoType } from '../types/storage';
+import { canRunBookingCommand, getBookingStartsAt } from './bookingLifecycle';
+
+export const PHOTO_TYPE_LABELS: Record<PhotoType, string> = {
+  before: 'Antes del trabajo',
+  during: 'Durante el trabajo',
+  after: 'Trabajo terminado',
+  damage: 'Daños encontrados',
+  completion: 'Entrega',
+};
+
+// Photo types a provider can add while working, in the order they are offered
+export const WORKING_PHOTO_TYPES: PhotoType[] = ['before', 'during', 'damage', 'after'];
+
+// add_job_photo keeps captions to 280 characters
+export const MAX_PHOTO_CAPTION_LENGTH = 280;
+
+const MINUTE = 1000 * 60;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// 'HH:MM' in device (Chilean) time
+export const formatClockTime = (iso: string): string => {
+  const date = new Date(iso);
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const formatDuration = (minutes: number): string => {
+  if (minutes < 60) return `${minutes} min`;
+  const rest = minutes % 60;
+  return rest ? `${Math.floor(minutes / 60)} h ${rest} min` : `${minutes / 60} h`;
+};
+
+export const parseGeoLocation = (value: Json | null): GeoLocation | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const { lat, lng, accuracy, timestamp } = value as Record<string, Json>;
+  if (typeof lat !== 'number' || typeof lng !== 'number') return null;
+
+  return {
+    lat,
+    lng,
+    accuracy: typeof accuracy === 'number' ? accuracy : undefined,
+    timestamp: typeof timestamp === 'string' ? timestamp : undefined,
+  };
+};
+
+// Shape valid_geo_location() accepts; optional fields are left out rather than null
+export const toGeoLocationJson = (location: GeoLocation): Json => ({
+  lat: location.lat,
+  lng: location.lng,
+  ...(location.accuracy !== undefined ? { accuracy: location.accuracy } : {}),
+  ...(location.timestamp ? { timestamp: location.timestamp } : {}),
+});
+
+const toNumber = (value: unknown): number | null => {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && isFinite(number) ? number : null;
+};
+
+/**
+ * Where a photo was taken, from expo-image-picker EXIF (exif: true). Android puts the
+ * GPS tags at the top level and iOS under '{GPS}'; either may be missing when the
+ * camera has no location permission.
+ */
+export const geoLocationFromExif = (exif: Record<string, any> | null | undefined): GeoLocation | null => {
+  if (!exif) return null;
+
+  const gps = exif['{GPS}'] || {};
+  const lat = toNumber(exif.GPSLatitude ?? gps.Latitude);
+  const lng = toNumber(exif.GPSLongitude ?? gps.Longitude);
+  if (lat === null || lng === null || (lat === 0 && lng === 0)) return null;
+
+  const latRef = exif.GPSLatitudeRef ?? gps.LatitudeRef;
+  const lngRef = exif.GPSLongitudeRef ?? gps.LongitudeRef;
+  const accuracy = toNumber(exif.GPSHPositioningError ?? gps.HPositioningError);
+
+  return {
+    lat: latRef === 'S' ? -Math.abs(lat) : lat,
+    lng: lngRef === 'W' ? -Math.abs(lng) : lng,
+    accuracy: accuracy !== null ? Math.round(accuracy) : undefined,
+    timestamp: new Date().toISOString(),
+  };
+};
+
+// EXIF DateTimeOriginal ('2025:11:18 14:05:09', device local time) as ISO
+export const takenAtFromExif = (exif: Record<string, any> | null | undefined): string | null => {
+  const original = exif?.DateTimeOriginal ?? exif?.['{Exif}']?.DateTimeOriginal;
+  const match = typeof original === 'string'
+    ? original.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})$/)
+    : null;
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return new Date(year, month - 1, day, hours, minutes, seconds).toISOString();
+};
+
+// "-33.44890, -70.66930 (±12 m)"
+export const formatGeoLocation = (location: GeoLocation | null): string => {
+  if (!location) return 'Ubicación no disponible';
+  const accuracy = location.accuracy !== undefined ? ` (±${location.accuracy} m)` : '';
+  return `${location.lat.toFixed(5)}, ${location.lng.toFixed(5)}${accuracy}`;
+};
+
+export const getMapsUrl = (location: GeoLocation): string =>
+  `https://www.google.com/maps/search/?api=1&query=${location.lat},${location.lng}`;
+
+export const hasPhotoOfType = (photos: BookingPhoto[], types: PhotoType[]): boolean =>
+  photos.some(photo => types.includes(photo.type));
+
+/**
+ * Same rules as start_booking, add_job_photo and complete_booking: arrival opens an
+ * hour before the start and needs a 'before' photo; departure needs an 'after' photo
+ */
+export const getJobExecutionStep = (execution: JobExecution, now: Date = new Date()): JobExecutionStep => {
+  switch (execution.status) {
+    case 'accepted':
+    case 'confirmed': {
+      const startsAt = getBookingStartsAt(execution.scheduledDate, execution.timeStart);
+      return canRunBookingCommand('start', execution.status, startsAt, 'provider', now) ? 'arrival' : 'waiting';
+    }
+    case 'in_progress':
+      return 'working';
+    case 'completed':
+    case 'payment_released':
+    case 'disputed':
+      return 'finished';
+    default:
+      return 'closed';
+  }
+};
+
+/**
+ * Visit timeline: schedule, confirmation, arrival, photos grouped by consecutive type,
+ * and departure with the time spent on site
+ */
+export const buildJobTimeline = (execution: JobExecution): JobTimelineEvent[] => {
+  const startsAt = getBookingStartsAt(execution.scheduledDate, execution.timeStart);
+  const scheduled: JobTimelineEvent = {
+    kind: 'scheduled',
+    at: startsAt.toISOString(),
+    title: 'Visita agendada',
+    detail: `${execution.scheduledDate.slice(8, 10)}/${execution.scheduledDate.slice(5, 7)} de ${execution.timeStart} a ${execution.timeEnd}`,
+  };
+
+  const events: JobTimelineEvent[] = [];
+
+  if (execution.confirmedAt) {
+    events.push({ kind: 'confirmed', at: execution.confirmedAt, title: 'El profesional confirmó la visita' });
+  }
+
+  if (execution.startedAt) {
+    events.push({
+      kind: 'check_in',
+      at: execution.startedAt,
+      title: `Llegada a las ${formatClockTime(execution.startedAt)}`,
+      detail: formatGeoLocation(execution.checkInLocation),
+    });
+  }
+
+  const photos = [...execution.photos].sort((a, b) => Date.parse(a.takenAt) - Date.parse(b.takenAt));
+  photos.forEach(photo => {
+    const last = events[events.length - 1];
+    if (last?.kind === 'photos' && last.photos?.[0].type === photo.type) {
+      last.photos.push(photo);
+      return;
+    }
+    events.push({ kind: 'photos', at: photo.takenAt, title: PHOTO_TYPE_LABELS[photo.type], photos: [photo] });
+  });
+
+  if (execution.completedAt) {
+    const minutesOnSite = execution.startedAt
+      ? Math.round((new Date(execution.completedAt).getTime() - new Date(execution.startedAt).getTime()) / MINUTE)
+      : null;
+    events.push({
+      kind: 'check_out',
+      at: execution.completedAt,
+      title: `Salida a las ${formatClockTime(execution.completedAt)}`,
+      detail: [
+        formatGeoLocation(execution.checkOutLocation),
+        minutesOnSite !== null ? `${formatDuration(minutesOnSite)} en el lugar` : null,
+      ].filter(Boolean).join(' · '),
+    });
+  }
+
+  // A photo group is placed at its first photo
+  return [scheduled, ...events.sort((a, b) => Date.parse(a.at) - Date.parse(b.at))];
+};
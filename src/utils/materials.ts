@@ -0,0 +1,65 @@
+/**
+ * Helpers for the materials catalog and MaterialsEditor
+ */
+
+import { CatalogMaterial, MaterialItem, MaterialUnit, ProviderMaterialPrice } from '../types/materials';
+
+export const MATERIAL_UNIT_LABELS: Record<MaterialUnit, string> = {
+  unidad: 'unidad',
+  metro: 'metro',
+  m2: 'm²',
+  m3: 'm³',
+  litro: 'litro',
+  galon: 'galón',
+  kg: 'kg',
+  saco: 'saco',
+  rollo: 'rollo',
+  caja: 'caja',
+  tineta: 'tineta',
+  plancha: 'plancha',
+  par: 'par',
+  juego: 'juego',
+};
+
+// Free-form rows keep whatever unit the provider typed
+export const formatMaterialUnit = (unit: string): string =>
+  MATERIAL_UNIT_LABELS[unit as MaterialUnit] ?? unit;
+
+export const calculateMaterialSubtotal = (quantity: number, pricePerUnit: number): number =>
+  Math.round((Number(quantity) || 0) * (Number(pricePerUnit) || 0));
+
+// The price a catalog item starts at: the provider's own, else the reference price
+export const getCatalogMaterialPrice = (material: CatalogMaterial): number =>
+  material.providerPrice ?? material.referencePrice;
+
+export const catalogMaterialToItem = (material: CatalogMaterial, id: string): MaterialItem => {
+  const pricePerUnit = getCatalogMaterialPrice(material);
+  return {
+    id,
+    catalog_item_id: material.id,
+    name: material.brand ? `${material.name} ${material.brand}` : material.name,
+    quantity: 1,
+    unit: material.unit,
+    price_per_unit: pricePerUnit,
+    subtotal: calculateMaterialSubtotal(1, pricePerUnit),
+  };
+};
+
+/**
+ * Catalog rows whose price differs from what the provider has saved for that item,
+ * one entry per catalog item (the last row wins)
+ */
+export const getChangedProviderPrices = (
+  items: MaterialItem[],
+  savedPrices: Record<string, number>
+): ProviderMaterialPrice[] => {
+  const changed = new Map<string, number>();
+  items.forEach(item => {
+    if (!item.catalog_item_id) return;
+    const price = Math.round(Number(item.price_per_unit) || 0);
+    if (savedPrices[item.catalog_item_id] !== price) {
+      changed.set(item.catalog_item_id, price);
+    }
+  });
+  return Array.from(changed, ([catalogItemId, priceClp]) => ({ catalogItemId, priceClp }));
+};
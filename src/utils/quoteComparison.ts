@@ -0,0 +1,145 @@
+/**
+ * Helpers for comparing quotes side by side in the customer's quote inbox
+ */
+
+import {
+  CustomerQuote,
+  QuoteBreakdown,
+  QuoteHighlight,
+  QuoteLineItem,
+  QuoteMaterialItem,
+  TrustLevel,
+} from '../types/quoteInbox';
+
+export const TRUST_LEVEL_LABELS: Record<TrustLevel, string> = {
+  unverified: 'Sin verificar',
+  basic: 'Básico',
+  verified: 'Verificado',
+  premium: 'Premium',
+  elite: 'Elite',
+};
+
+const TRUST_LEVEL_RANK: Record<TrustLevel, number> = {
+  unverified: 0,
+  basic: 1,
+  verified: 2,
+  premium: 3,
+  elite: 4,
+};
+
+export const QUOTE_HIGHLIGHT_LABELS: Record<QuoteHighlight, string> = {
+  lowest_price: 'Mejor precio',
+  shortest_duration: 'Más rápido',
+  best_rated: 'Mejor evaluado',
+  most_trusted: 'Más confiable',
+  earliest_date: 'Disponible antes',
+};
+
+const sumAmounts = (items: Array<{ amount: number }>) =>
+  items.reduce((sum, item) => sum + (Number(item.amount) || 0), 0);
+
+/**
+ * Breakdown of a quote row. price_clp is labor + travel + fees, so labor is what
+ * remains after travel and fees; quotes without labor items show it as one line.
+ */
+export const buildQuoteBreakdown = (row: {
+  price_clp: number;
+  materials_cost_clp: number;
+  labor_items: unknown;
+  materials_items: unknown;
+  additional_fees: unknown;
+  travel_fee_clp: number;
+  vat_rate: number;
+  iva_clp: number;
+}): QuoteBreakdown => {
+  const laborItems = Array.isArray(row.labor_items) ? (row.labor_items as QuoteLineItem[]) : [];
+  const materialsItems = Array.isArray(row.materials_items) ? (row.materials_items as QuoteMaterialItem[]) : [];
+  const additionalFees = Array.isArray(row.additional_fees) ? (row.additional_fees as QuoteLineItem[]) : [];
+
+  const travelFee = row.travel_fee_clp || 0;
+  const feesSubtotal = sumAmounts(additionalFees);
+  const laborSubtotal = Math.max(0, row.price_clp - travelFee - feesSubtotal);
+  const materialsSubtotal = row.materials_cost_clp
+    || materialsItems.reduce((sum, item) => sum + (Number(item.subtotal) || 0), 0);
+  const subtotal = laborSubtotal + materialsSubtotal + travelFee + feesSubtotal;
+
+  return {
+    laborItems: laborItems.length > 0 ? laborItems : [{ name: 'Mano de obra', amount: laborSubtotal }],
+    materialsItems,
+    additionalFees,
+    laborSubtotal,
+    materialsSubtotal,
+    travelFee,
+    feesSubtotal,
+    subtotal,
+    vatRate: Number(row.vat_rate) || 0,
+    iva: row.iva_clp || 0,
+    total: subtotal + (row.iva_clp || 0),
+  };
+};
+
+/**
+ * What each quote stands out for among the others. A highlight goes to every quote
+ * tied for the best value, and none is given when fewer than two quotes compete.
+ */
+export const getQuoteHighlights = (quotes: CustomerQuote[]): Record<string, QuoteHighlight[]> => {
+  const highlights: Record<string, QuoteHighlight[]> = {};
+  quotes.forEach(quote => { highlights[quote.id] = []; });
+  if (quotes.length < 2) return highlights;
+
+  const award = (highlight: QuoteHighlight, value: (quote: CustomerQuote) => number | null, lowerIsBetter: boolean) => {
+    const scored = quotes
+      .map(quote => ({ id: quote.id, value: value(quote) }))
+      .filter((entry): entry is { id: string; value: number } => entry.value !== null);
+    if (scored.length < 2) return;
+
+    const values = scored.map(entry => entry.value);
+    const best = lowerIsBetter ? Math.min(...values) : Math.max(...values);
+    // Not a highlight when everyone is equal
+    if (values.every(item => item === best)) return;
+
+    scored.filter(entry => entry.value === best).forEach(entry => highlights[entry.id].push(highlight));
+  };
+
+  award('lowest_price', quote => quote.breakdown.total, true);
+  award('shortest_duration', quote => quote.estimatedDurationHours, true);
+  award('best_rated', quote => (quote.provider.totalReviews > 0 ? quote.provider.rating : null), false);
+  award('most_trusted', quote => TRUST_LEVEL_RANK[quote.provider.trustLevel], false);
+  award('earliest_date', quote => new Date(`${quote.availability.date}T${quote.availability.start}`).getTime(), true);
+
+  return highlights;
+};
+
+/**
+ * "3 h" or "3 visitas · 9 h en total"
+ */
+export const formatQuoteDuration = (quote: CustomerQuote): string => {
+  const sessions = quote.sessionStructure?.sessions || [];
+  if (sessions.length > 1) {
+    const totalHours = sessions.reduce((sum, session) => sum + (Number(session.hours) || 0), 0);
+    return `${sessions.length} visitas · ${totalHours} h en total`;
+  }
+  return quote.estimatedDurationHours ? `${quote.estimatedDurationHours} h` : 'Por definir';
+};
+
+/**
+ * "Vence en 5 h" or "Vence en 2 días"; null once the quote has lapsed. Quotes close
+ * to their deadline are flagged so the screen can warn the customer.
+ */
+export const formatQuoteExpiry = (
+  expiresAt: string | null,
+  now: Date = new Date()
+): { label: string; isUrgent: boolean } | null => {
+  if (!expiresAt) return null;
+
+  const hoursLeft = (new Date(expiresAt).getTime() - now.getTime()) / (1000 * 60 * 60);
+  if (hoursLeft <= 0) return null;
+
+  const label = hoursLeft < 1
+    ? 'Vence en menos de 1 h'
+    : hoursLeft < 48
+      ? `Vence en ${Math.floor(hoursLeft)} h`
+      : `Vence en ${Math.floor(hoursLeft / 24)} días`;
+
+  return { label, isUrgent: hoursLeft < 12 };
+};
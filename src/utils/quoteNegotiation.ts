@@ -0,0 +1,93 @@
+/**
+ * Helpers for quote negotiation: change request validation and readable revision diffs
+ */
+
+import { QuoteChangeRequestInput, QuoteChangeTopic, QuoteItemsDiff, QuoteRevisionChanges } from '../types/quoteNegotiation';
+
+export const QUOTE_CHANGE_TOPIC_LABELS: Record<QuoteChangeTopic, string> = {
+  price: 'Precio',
+  date: 'Fecha',
+  materials: 'Materiales',
+};
+
+const formatCLP = (amount: number) => `$${Math.round(amount).toLocaleString('es-CL')}`;
+
+const formatDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('es-CL', { weekday: 'short', day: 'numeric', month: 'short' });
+};
+
+/**
+ * Field errors keyed by topic, in Spanish. Mirrors the checks in request_quote_changes.
+ */
+export const validateQuoteChangeRequest = (
+  input: QuoteChangeRequestInput,
+  currentTotal: number
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  if (input.topics.length === 0) {
+    errors.topics = 'Elige qué quieres cambiar';
+  }
+  if (input.topics.includes('price')) {
+    if (input.proposedPrice !== null && input.proposedPrice !== undefined) {
+      if (input.proposedPrice <= 0) {
+        errors.price = 'Ingresa un monto válido';
+      } else if (input.proposedPrice >= currentTotal) {
+        errors.price = `Tu oferta debe ser menor a ${formatCLP(currentTotal)}`;
+      }
+    } else if (!input.message?.trim()) {
+      errors.price = 'Propón un monto o explica el cambio en el mensaje';
+    }
+  }
+  if (input.topics.includes('date') && !input.proposedDate) {
+    errors.date = 'Elige la fecha que te acomoda';
+  }
+  if (input.topics.includes('date') && !!input.proposedDate && !input.proposedTimeStart) {
+    errors.date = 'Elige un horario';
+  }
+  if (input.topics.includes('materials') && !input.materialsNote?.trim()) {
+    errors.materials = 'Cuéntale al profesional qué cambiar en los materiales';
+  }
+
+  return errors;
+};
+
+const describeItemsDiff = (label: string, diff: QuoteItemsDiff<{ name: string }> | undefined): string[] => {
+  if (!diff) return [];
+  return [
+    ...diff.added.map(item => `${label}: se agregó ${item.name}`),
+    ...diff.removed.map(item => `${label}: se quitó ${item.name}`),
+    ...diff.changed.map(item => `${label}: cambió ${item.name}`),
+  ];
+};
+
+/**
+ * One line per change between a revision and the previous version, e.g.
+ * "Total: $120.000 → $100.000" or "Materiales: se quitó Cerámica"
+ */
+export const describeRevisionChanges = (changes: QuoteRevisionChanges | null): string[] => {
+  if (!changes) return [];
+
+  const lines: string[] = [];
+  if (changes.total) {
+    lines.push(`Total: ${formatCLP(changes.total.from)} → ${formatCLP(changes.total.to)}`);
+  }
+  if (changes.availability) {
+    const { from, to } = changes.availability;
+    lines.push(
+      `Fecha: ${formatDate(from.date)} ${from.start.slice(0, 5)} → ${formatDate(to.date)} ${to.start.slice(0, 5)}`
+    );
+  }
+  if (changes.duration) {
+    const format = (hours: number | null) => (hours !== null ? `${hours} h` : 'por definir');
+    lines.push(`Duración: ${format(changes.duration.from)} → ${format(changes.duration.to)}`);
+  }
+
+  return [
+    ...lines,
+    ...describeItemsDiff('Mano de obra', changes.labor),
+    ...describeItemsDiff('Materiales', changes.materials),
+    ...describeItemsDiff('Otros cargos', changes.fees),
+  ];
+};
@@ -0,0 +1,49 @@
+/**
+ * Helpers for provider quote templates
+ */
+
+import { QuoteLineItem } from '../types/quoteInbox';
+import { QuoteTemplateLaborItem, QuoteTemplateRates } from '../types/quoteTemplates';
+
+const roundTo = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Labor items of the quote being composed as template items. When the template
+ * should follow rate changes, each amount is stored relative to the base price for
+ * the project type (project templates) or to the hourly rate, and re-priced the way
+ * get_provider_quote_templates does so the saved amount matches what comes back.
+ */
+export const toTemplateLaborItems = (
+  items: QuoteLineItem[],
+  rates: QuoteTemplateRates,
+  options: { followRates: boolean; isProjectTemplate: boolean }
+): QuoteTemplateLaborItem[] =>
+  items.map(item => {
+    const base = {
+      name: item.name,
+      description: item.description ?? null,
+      amount: Math.round(Number(item.amount) || 0),
+    };
+
+    if (options.followRates && options.isProjectTemplate && rates.basePrice) {
+      const factor = roundTo(base.amount / rates.basePrice, 4);
+      return { ...base, rate_basis: 'base_price' as const, factor, amount: Math.round(factor * rates.basePrice) };
+    }
+    if (options.followRates && rates.hourlyRate) {
+      const hours = roundTo(base.amount / rates.hourlyRate, 4);
+      return { ...base, rate_basis: 'hourly' as const, hours, amount: Math.round(hours * rates.hourlyRate) };
+    }
+    return { ...base, rate_basis: 'fixed' as const };
+  });
+
+/**
+ * Whether toTemplateLaborItems can tie prices to a rate at all
+ */
+export const canFollowRates = (rates: QuoteTemplateRates, isProjectTemplate: boolean): boolean =>
+  !!rates.hourlyRate || (isProjectTemplate && !!rates.basePrice);
+
+export const sumTemplateLabor = (items: QuoteTemplateLaborItem[]): number =>
+  items.reduce((sum, item) => sum + (Number(item.amount) || 0), 0);
@@ -0,0 +1,430 @@
+/**
+ * Spanish Query Understanding for Service Search
+ *
+ * Turns free text such as "gasfitter urgente en Ñuñoa" or "maestro chasquilla"
+ * into scored ServiceCategory and ProjectType candidates.
+ *
+ * Pipeline: accent folding -> tokenizing -> stopword removal -> light Spanish
+ * stemming -> fuzzy token matching (edit distance with transpositions) against
+ * a weighted Chilean synonym lexicon plus each item's name and description.
+ */
+
+import { ServiceCategory, ProjectType } from '../types/search';
+import { SERVICE_CATEGORIES, PROJECT_TYPES } from '../data/searchData';
+
+export interface WeightedTerm {
+  term: string;
+  weight: number; // 0..1, how strongly the term implies the item
+}
+
+export interface QueryCandidate<T> {
+  item: T;
+  score: number; // 0..1
+  matchedTerms: string[];
+}
+
+export interface QueryUnderstanding {
+  normalizedQuery: string;
+  tokens: string[];
+  services: QueryCandidate<ServiceCategory>[];
+  projects: QueryCandidate<ProjectType>[];
+}
+
+export interface QueryMatchOptions {
+  minScore?: number;
+  limit?: number;
+}
+
+const DEFAULT_MIN_SCORE = 0.35;
+const DEFAULT_LIMIT = 8;
+
+const NAME_WEIGHT = 1;
+const DESCRIPTION_WEIGHT = 0.4;
+const EXTRA_TERM_BONUS = 0.05;
+const MAX_EXTRA_TERM_BONUS = 0.1;
+
+const STOPWORDS = new Set([
+  'a', 'al', 'con', 'de', 'del', 'el', 'en', 'la', 'las', 'lo', 'los', 'mi', 'mis', 'me',
+  'o', 'para', 'por', 'que', 'se', 'su', 'sus', 'un', 'una', 'unos', 'unas', 'y',
+  'necesito', 'busco', 'quiero', 'favor', 'hola', 'urgente', 'hoy'
+]);
+
+// Ordered longest-first so the most specific suffix wins
+const STEM_SUFFIXES = [
+  'amientos', 'imientos', 'aciones', 'iciones', 'amiento', 'imiento', 'adoras', 'adores',
+  'ciones', 'acion', 'icion', 'idades', 'idad', 'ador', 'eria', 'ista', 'ismo', 'able',
+  'ible', 'cion', 'ando', 'iendo', 'eza', 'ura', 'ero', 'era', 'ado', 'ada', 'ico', 'ica',
+  'or', 'ar', 'er', 'ir', 'o', 'a', 'e'
+];
+
+// Chilean synonyms and slang. Keys cover both the static catalog ids in
+// data/searchData.ts and the service_categories / project_types ids in the database.
+const SERVICE_TERMS: Record<string, WeightedTerm[]> = {
+  electricista: [
+    { term: 'electricista', weight: 1 }, { term: 'eléctrico', weight: 0.9 },
+    { term: 'electricidad', weight: 0.9 }, { term: 'cortocircuito', weight: 0.9 },
+    { term: 'enchufe', weight: 0.8 }, { term: 'tablero', weight: 0.8 },
+    { term: 'corriente', weight: 0.7 }, { term: 'automático', weight: 0.6 },
+    { term: 'cable', weight: 0.6 }, { term: 'luz', weight: 0.6 },
+    { term: 'maestro chasquilla', weight: 0.5 }
+  ],
+  gasfiter: [
+    { term: 'gasfiter', weight: 1 }, { term: 'gásfiter', weight: 1 },
+    { term: 'gasfitería', weight: 0.95 }, { term: 'plomero', weight: 0.9 },
+    { term: 'calefont', weight: 0.9 }, { term: 'cañería', weight: 0.85 },
+    { term: 'destape', weight: 0.85 }, { term: 'fuga', weight: 0.8 },
+    { term: 'desagüe', weight: 0.8 }, { term: 'filtración', weight: 0.7 },
+    { term: 'inodoro', weight: 0.7 }, { term: 'lavamanos', weight: 0.7 },
+    { term: 'ducha', weight: 0.7 }, { term: 'gas', weight: 0.6 },
+    { term: 'agua', weight: 0.5 }, { term: 'maestro chasquilla', weight: 0.5 }
+  ],
+  plomero: [
+    { term: 'plomero', weight: 1 }, { term: 'plomería', weight: 0.95 },
+    { term: 'gasfiter', weight: 0.85 }, { term: 'cañería', weight: 0.85 },
+    { term: 'fuga', weight: 0.8 }, { term: 'desagüe', weight: 0.8 },
+    { term: 'destape', weight: 0.8 }, { term: 'agua', weight: 0.5 }
+  ],
+  limpieza: [
+    { term: 'limpieza', weight: 1 }, { term: 'aseo', weight: 0.9 },
+    { term: 'limpiar', weight: 0.9 }, { term: 'asesora del hogar', weight: 0.8 },
+    { term: 'nana', weight: 0.7 }, { term: 'doméstica', weight: 0.7 },
+    { term: 'cleaning', weight: 0.6 }
+  ],
+  jardineria: [
+    { term: 'jardinería', weight: 1 }, { term: 'jardinero', weight: 0.95 },
+    { term: 'jardín', weight: 0.9 }, { term: 'pasto', weight: 0.8 },
+    { term: 'césped', weight: 0.8 }, { term: 'poda', weight: 0.7 },
+    { term: 'riego', weight: 0.7 }, { term: 'paisajismo', weight: 0.7 },
+    { term: 'plantas', weight: 0.6 }
+  ],
+  pintura: [
+    { term: 'pintor', weight: 1 }, { term: 'pintura', weight: 0.95 },
+    { term: 'pintar', weight: 0.9 }, { term: 'látex', weight: 0.6 },
+    { term: 'esmalte', weight: 0.6 }, { term: 'paredes', weight: 0.6 },
+    { term: 'fachada', weight: 0.6 }, { term: 'muros', weight: 0.5 }
+  ],
+  carpintero: [
+    { term: 'carpintero', weight: 1 }, { term: 'carpintería', weight: 0.95 },
+    { term: 'madera', weight: 0.7 }, { term: 'muebles', weight: 0.7 },
+    { term: 'closet', weight: 0.7 }, { term: 'repisa', weight: 0.6 },
+    { term: 'puerta', weight: 0.6 }, { term: 'maestro chasquilla', weight: 0.6 }
+  ],
+  tecnico: [
+    { term: 'electrodoméstico', weight: 0.95 }, { term: 'línea blanca', weight: 0.95 },
+    { term: 'lavadora', weight: 0.9 }, { term: 'refrigerador', weight: 0.9 },
+    { term: 'secadora', weight: 0.85 }, { term: 'lavavajillas', weight: 0.85 },
+    { term: 'técnico', weight: 0.8 }, { term: 'microondas', weight: 0.8 }
+  ],
+  construccion: [
+    { term: 'construcción', weight: 1 }, { term: 'constructor', weight: 1 },
+    { term: 'albañil', weight: 0.95 }, { term: 'ampliación', weight: 0.85 },
+    { term: 'remodelación', weight: 0.8 }, { term: 'radier', weight: 0.8 },
+    { term: 'maestro chasquilla', weight: 0.75 }, { term: 'obra', weight: 0.7 },
+    { term: 'cemento', weight: 0.7 }, { term: 'maestro', weight: 0.6 }
+  ],
+  cerrajero: [
+    { term: 'cerrajero', weight: 1 }, { term: 'cerradura', weight: 0.95 },
+    { term: 'chapa', weight: 0.9 }, { term: 'candado', weight: 0.8 },
+    { term: 'llave', weight: 0.6 }
+  ]
+};
+
+// Database service_categories ids that share a synonym group with a static catalog id
+const SERVICE_TERM_ALIASES: Record<string, string> = {
+  electricista_comercial: 'electricista',
+  limpieza_hogar: 'limpieza',
+  pintor_interior: 'pintura',
+  pintor_exterior: 'pintura',
+  carpintero_muebles: 'carpintero',
+  tecnico_electrodomesticos: 'tecnico',
+  linea_blanca: 'tecnico',
+  constructor: 'construccion',
+  albanil: 'construccion'
+};
+
+const PROJECT_TERMS: Record<string, WeightedTerm[]> = {
+  'bathroom-repair': [
+    { term: 'baño', weight: 0.9 }, { term: 'inodoro', weight: 0.7 },
+    { term: 'wc', weight: 0.7 }, { term: 'ducha', weight: 0.7 }, { term: 'tina', weight: 0.6 }
+  ],
+  'kitchen-renovation': [
+    { term: 'cocina', weight: 0.9 }, { term: 'muebles de cocina', weight: 0.8 },
+    { term: 'mesón', weight: 0.7 }
+  ],
+  'wall-painting': [
+    { term: 'pintar', weight: 0.9 }, { term: 'paredes', weight: 0.8 }, { term: 'pintura', weight: 0.8 }
+  ],
+  'floor-installation': [
+    { term: 'piso', weight: 0.9 }, { term: 'piso flotante', weight: 0.95 },
+    { term: 'porcelanato', weight: 0.7 }, { term: 'cerámica', weight: 0.7 }
+  ],
+  'light-fixture': [
+    { term: 'luminaria', weight: 0.95 }, { term: 'lámpara', weight: 0.9 },
+    { term: 'foco', weight: 0.8 }, { term: 'luz', weight: 0.6 }
+  ],
+  'electrical-repair': [
+    { term: 'tablero', weight: 0.9 }, { term: 'cortocircuito', weight: 0.8 },
+    { term: 'enchufe', weight: 0.6 }
+  ],
+  'leak-repair': [
+    { term: 'filtración', weight: 0.95 }, { term: 'fuga', weight: 0.9 },
+    { term: 'gotera', weight: 0.7 }
+  ],
+  'toilet-repair': [
+    { term: 'wc', weight: 0.95 }, { term: 'inodoro', weight: 0.95 }, { term: 'estanque', weight: 0.7 }
+  ],
+  'garden-maintenance': [
+    { term: 'jardín', weight: 0.9 }, { term: 'pasto', weight: 0.8 }, { term: 'poda', weight: 0.6 }
+  ],
+  'exterior-painting': [
+    { term: 'fachada', weight: 0.95 }, { term: 'pintar exterior', weight: 0.95 }
+  ],
+  'deep-cleaning': [
+    { term: 'limpieza profunda', weight: 1 }, { term: 'limpieza', weight: 0.8 },
+    { term: 'aseo', weight: 0.7 }
+  ],
+  'appliance-repair': [
+    { term: 'electrodoméstico', weight: 0.9 }, { term: 'lavadora', weight: 0.9 },
+    { term: 'refrigerador', weight: 0.8 }, { term: 'línea blanca', weight: 0.9 }
+  ],
+  'lock-installation': [
+    { term: 'cerradura', weight: 0.95 }, { term: 'chapa', weight: 0.9 }
+  ]
+};
+
+// Database project_types ids that share a synonym group with a static catalog id
+const PROJECT_TERM_ALIASES: Record<string, string> = {
+  reparar_bano: 'bathroom-repair',
+  renovar_bano: 'bathroom-repair',
+  renovar_cocina: 'kitchen-renovation',
+  muebles_cocina: 'kitchen-renovation',
+  pintar_interior: 'wall-painting',
+  pintar_casa: 'wall-painting',
+  instalar_piso: 'floor-installation',
+  instalar_luces: 'light-fixture',
+  cambiar_tablero: 'electrical-repair',
+  instalar_enchufe: 'electrical-repair',
+  reparar_filtracion: 'leak-repair',
+  cambiar_wc: 'toilet-repair',
+  mantener_jardin: 'garden-maintenance',
+  pintar_fachada: 'exterior-painting',
+  limpieza_profunda: 'deep-cleaning',
+  reparar_lavadora: 'appliance-repair',
+  reparar_refrigerador: 'appliance-repair',
+  cambiar_cerraduras: 'lock-installation'
+};
+
+/**
+ * Lowercases and removes diacritics (á -> a, ñ -> n, ü -> u)
+ */
+export function foldAccents(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Light Spanish stemmer: strips plurals and common derivational suffixes
+ * so "electricista", "eléctrico" and "electricidad" share the stem "electric"
+ */
+export function stemSpanish(word: string): string {
+  let stem = foldAccents(word);
+
+  // Plurals: luces -> luz, cañerías -> cañería, muebles -> mueble
+  if (stem.length > 4 && stem.endsWith('ces')) {
+    stem = stem.slice(0, -3) + 'z';
+  } else if (stem.length > 4 && stem.endsWith('es') && !/[aeiou]es$/.test(stem)) {
+    stem = stem.slice(0, -2);
+  } else if (stem.length > 3 && stem.endsWith('s')) {
+    stem = stem.slice(0, -1);
+  }
+
+  for (const suffix of STEM_SUFFIXES) {
+    if (stem.endsWith(suffix) && stem.length - suffix.length >= 4) {
+      return stem.slice(0, -suffix.length);
+    }
+  }
+
+  return stem;
+}
+
+/**
+ * Splits text into folded, stemmed tokens without stopwords
+ */
+export function tokenizeQuery(text: string): string[] {
+  return foldAccents(text)
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0 && !STOPWORDS.has(token))
+    .map(stemSpanish);
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and
+ * adjacent transpositions ("elcetricista") as one edit each
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+
+  for (let i = 0; i < rows; i++) d[i][0] = i;
+  for (let j = 0; j < cols; j++) d[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + cost
+      );
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+/**
+ * Similarity (0..1) between a query token and a lexicon token, both stemmed.
+ * Allows prefixes while the user is typing and 1 typo for short words, 2 for long ones.
+ */
+export function tokenSimilarity(queryToken: string, termToken: string): number {
+  if (queryToken === termToken) return 1;
+
+  // Partial input: "elec" -> "electric"
+  if (queryToken.length >= 3 && termToken.startsWith(queryToken)) {
+    return 0.75 + 0.25 * (queryToken.length / termToken.length);
+  }
+
+  // Longer form of the term: "gasfiteria" -> "gasfit"
+  if (termToken.length >= 4 && queryToken.startsWith(termToken)) {
+    return 0.9;
+  }
+
+  const maxLength = Math.max(queryToken.length, termToken.length);
+  const allowedEdits = maxLength <= 4 ? 0 : maxLength <= 7 ? 1 : 2;
+  if (allowedEdits === 0) return 0;
+
+  const distance = editDistance(queryToken, termToken);
+  return distance <= allowedEdits ? 1 - distance / maxLength : 0;
+}
+
+/**
+ * Scores a (possibly multi-word) term against the query tokens.
+ * Every word of the term must be present in the query for it to count.
+ */
+function scoreTerm(queryTokens: string[], term: WeightedTerm): number {
+  const termTokens = tokenizeQuery(term.term);
+  if (termTokens.length === 0 || queryTokens.length === 0) return 0;
+
+  let total = 0;
+  for (const termToken of termTokens) {
+    const best = Math.max(...queryTokens.map(queryToken => tokenSimilarity(queryToken, termToken)));
+    if (best === 0) return 0;
+    total += best;
+  }
+
+  return term.weight * (total / termTokens.length);
+}
+
+function getItemTerms(
+  item: { id: string; name: string; description?: string },
+  lexicon: Record<string, WeightedTerm[]>,
+  aliases: Record<string, string>
+): WeightedTerm[] {
+  const terms: WeightedTerm[] = [{ term: item.name, weight: NAME_WEIGHT }];
+  terms.push(...(lexicon[item.id] || lexicon[aliases[item.id]] || []));
+
+  if (item.description) {
+    tokenizeQuery(item.description).forEach(token => {
+      if (token.length >= 4) terms.push({ term: token, weight: DESCRIPTION_WEIGHT });
+    });
+  }
+
+  return terms;
+}
+
+function rankItems<T extends { id: string; name: string; description?: string }>(
+  queryTokens: string[],
+  items: T[],
+  lexicon: Record<string, WeightedTerm[]>,
+  aliases: Record<string, string>,
+  options: QueryMatchOptions
+): QueryCandidate<T>[] {
+  const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+  const limit = options.limit ?? DEFAULT_LIMIT;
+
+  const candidates: QueryCandidate<T>[] = [];
+
+  items.forEach(item => {
+    const hits = getItemTerms(item, lexicon, aliases)
+      .map(term => ({ term: term.term, score: scoreTerm(queryTokens, term) }))
+      .filter(hit => hit.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    if (hits.length === 0) return;
+
+    // Several distinct terms agreeing ("fuga de agua") is stronger evidence than one
+    const bonus = Math.min((hits.length - 1) * EXTRA_TERM_BONUS, MAX_EXTRA_TERM_BONUS);
+    const score = Math.min(hits[0].score + bonus, 1);
+
+    if (score >= minScore) {
+      candidates.push({
+        item,
+        score: Math.round(score * 1000) / 1000,
+        matchedTerms: Array.from(new Set(hits.map(hit => hit.term)))
+      });
+    }
+  });
+
+  return candidates
+    .sort((a, b) => b.score - a.score || a.item.name.localeCompare(b.item.name))
+    .slice(0, limit);
+}
+
+/**
+ * Scored service categories for free text. Defaults to the static catalog.
+ */
+export function matchServices(
+  query: string,
+  services: ServiceCategory[] = SERVICE_CATEGORIES,
+  options: QueryMatchOptions = {}
+): QueryCandidate<ServiceCategory>[] {
+  return rankItems(tokenizeQuery(query), services, SERVICE_TERMS, SERVICE_TERM_ALIASES, options);
+}
+
+/**
+ * Scored project types for free text. Defaults to the static catalog.
+ */
+export function matchProjects(
+  query: string,
+  projects: ProjectType[] = PROJECT_TYPES,
+  options: QueryMatchOptions = {}
+): QueryCandidate<ProjectType>[] {
+  return rankItems(tokenizeQuery(query), projects, PROJECT_TERMS, PROJECT_TERM_ALIASES, options);
+}
+
+/**
+ * Full query understanding: normalized text, tokens and both candidate lists
+ */
+export function understandQuery(
+  query: string,
+  catalog: { services?: ServiceCategory[]; projects?: ProjectType[] } = {},
+  options: QueryMatchOptions = {}
+): QueryUnderstanding {
+  return {
+    normalizedQuery: foldAccents(query).replace(/\s+/g, ' ').trim(),
+    tokens: tokenizeQuery(query),
+    services: matchServices(query, catalog.services, options),
+    projects: matchProjects(query, catalog.projects, options)
+  };
+}
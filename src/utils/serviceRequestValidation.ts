@@ -0,0 +1,164 @@
+/**
+ * Validation for the service request wizard
+ *
+ * Every message is Spanish and meant to be shown as-is under the field, including
+ * the ones translated from database and storage errors.
+ */
+
+import {
+  ServiceRequestDraft,
+  ServiceRequestErrors,
+  ServiceRequestStep,
+  SERVICE_REQUEST_STEPS,
+} from '../types/serviceRequest';
+import { isSlotInPast, toLocalDateString } from './timeSlots';
+
+export const TITLE_MIN_LENGTH = 5;
+export const TITLE_MAX_LENGTH = 80;
+export const DESCRIPTION_MIN_LENGTH = 20;
+export const DESCRIPTION_MAX_LENGTH = 1000;
+export const MAX_JOB_PHOTOS = 8; // service_requests valid_photo_count
+export const MIN_BUDGET_CLP = 5000;
+export const MAX_SCHEDULE_DAYS = 90;
+
+const formatCLP = (amount: number) => `$${amount.toLocaleString('es-CL')}`;
+
+/**
+ * Errors for one wizard step; an empty object means the customer can continue
+ */
+export const validateServiceRequestStep = (
+  step: ServiceRequestStep,
+  draft: ServiceRequestDraft,
+  now: Date = new Date()
+): ServiceRequestErrors => {
+  const errors: ServiceRequestErrors = {};
+
+  switch (step) {
+    case 'service':
+      if (!draft.selection) {
+        errors.selection = 'Elige el tipo de trabajo que necesitas';
+      }
+      break;
+
+    case 'details': {
+      const title = draft.title.trim();
+      const description = draft.description.trim();
+
+      if (title.length < TITLE_MIN_LENGTH) {
+        errors.title = `El título debe tener al menos ${TITLE_MIN_LENGTH} caracteres`;
+      } else if (title.length > TITLE_MAX_LENGTH) {
+        errors.title = `El título no puede superar los ${TITLE_MAX_LENGTH} caracteres`;
+      }
+
+      if (description.length < DESCRIPTION_MIN_LENGTH) {
+        errors.description = `Describe el trabajo con al menos ${DESCRIPTION_MIN_LENGTH} caracteres para que los profesionales puedan cotizar`;
+      } else if (description.length > DESCRIPTION_MAX_LENGTH) {
+        errors.description = `La descripción no puede superar los ${DESCRIPTION_MAX_LENGTH} caracteres`;
+      }
+      break;
+    }
+
+    case 'address':
+      if (!draft.addressId) {
+        errors.addressId = 'Elige la dirección donde se hará el trabajo';
+      }
+      break;
+
+    case 'schedule': {
+      if (!draft.preferredDate) {
+        errors.preferredDate = 'Elige una fecha para el trabajo';
+        break;
+      }
+
+      const today = toLocalDateString(now);
+      const lastDay = toLocalDateString(new Date(now.getFullYear(), now.getMonth(), now.getDate() + MAX_SCHEDULE_DAYS));
+      if (draft.preferredDate < today) {
+        errors.preferredDate = 'La fecha no puede ser anterior a hoy';
+      } else if (draft.preferredDate > lastDay) {
+        errors.preferredDate = `Solo puedes agendar hasta ${MAX_SCHEDULE_DAYS} días en adelante`;
+      }
+
+      if (!draft.timeStart || !draft.timeEnd) {
+        errors.timeWindow = 'Elige un horario';
+      } else if (draft.timeStart >= draft.timeEnd) {
+        errors.timeWindow = 'La hora de término debe ser posterior a la de inicio';
+      } else if (!errors.preferredDate && isSlotInPast({ date: draft.preferredDate, start: draft.timeStart, end: draft.timeEnd }, now)) {
+        errors.timeWindow = 'Ese horario ya pasó, elige uno más tarde';
+      }
+      break;
+    }
+
+    case 'budget': {
+      const { budgetMin, budgetMax } = draft;
+
+      if (budgetMin !== undefined && (!Number.isInteger(budgetMin) || budgetMin < MIN_BUDGET_CLP)) {
+        errors.budget = `El presupuesto mínimo debe ser de al menos ${formatCLP(MIN_BUDGET_CLP)}`;
+      } else if (budgetMax !== undefined && (!Number.isInteger(budgetMax) || budgetMax < MIN_BUDGET_CLP)) {
+        errors.budget = `El presupuesto máximo debe ser de al menos ${formatCLP(MIN_BUDGET_CLP)}`;
+      } else if (budgetMin !== undefined && budgetMax !== undefined && budgetMin > budgetMax) {
+        errors.budget = 'El presupuesto mínimo no puede ser mayor que el máximo';
+      }
+      break;
+    }
+
+    case 'photos':
+      if (draft.photos.length > MAX_JOB_PHOTOS) {
+        errors.photos = `Puedes adjuntar hasta ${MAX_JOB_PHOTOS} fotos`;
+      }
+      break;
+
+    case 'review':
+      break;
+  }
+
+  return errors;
+};
+
+/**
+ * All errors of the draft, used before submitting. Returns the first step with
+ * errors so the wizard can send the customer back to it.
+ */
+export const validateServiceRequest = (
+  draft: ServiceRequestDraft,
+  now: Date = new Date()
+): { errors: ServiceRequestErrors; firstInvalidStep: ServiceRequestStep | null } => {
+  let errors: ServiceRequestErrors = {};
+  let firstInvalidStep: ServiceRequestStep | null = null;
+
+  for (const step of SERVICE_REQUEST_STEPS) {
+    const stepErrors = validateServiceRequestStep(step, draft, now);
+    if (Object.keys(stepErrors).length > 0) {
+      errors = { ...errors, ...stepErrors };
+      firstInvalidStep = firstInvalidStep ?? step;
+    }
+  }
+
+  return { errors, firstInvalidStep };
+};
+
+/**
+ * Spanish message for an error raised while saving the request or uploading photos
+ */
+export const describeServiceRequestError = (error: any): string => {
+  const message: string = error?.message || '';
+
+  // Postgres check constraints on service_requests
+  if (error?.code === '23514') {
+    if (message.includes('valid_budget')) return 'Revisa el presupuesto: el mínimo no puede ser mayor que el máximo y ambos deben ser positivos';
+    if (message.includes('valid_time_range')) return 'La hora de término debe ser posterior a la de inicio';
+    if (message.includes('valid_photo_count')) return `Puedes adjuntar hasta ${MAX_JOB_PHOTOS} fotos`;
+    return 'Algunos datos de la solicitud no son válidos. Revísalos e inténtalo nuevamente.';
+  }
+  if (error?.code === '23503') return 'La dirección o el servicio elegido ya no está disponible. Elige otro.';
+  if (error?.code === '42501') return 'Tu sesión expiró. Vuelve a iniciar sesión para publicar la solicitud.';
+
+  // EnterpriseStorageService.validateFile
+  if (message.includes('File size exceeds')) return 'La foto supera el tamaño máximo de 8 MB';
+  if (message.includes('is not allowed for this bucket')) return 'Formato de foto no permitido. Usa JPG, PNG o WebP.';
+
+  if (message.includes('Network request failed') || message.includes('Failed to fetch')) {
+    return 'Sin conexión. Tu borrador quedó guardado; inténtalo cuando vuelvas a tener internet.';
+  }
+
+  return 'No pudimos publicar tu solicitud. Inténtalo nuevamente.';
+};
@@ -0,0 +1,74 @@
+/**
+ * Date and time slot helpers for availability-aware search
+ *
+ * Slots are local Chilean time in the same shape bookings use
+ * (scheduled_date 'YYYY-MM-DD', scheduled_time_start/_end 'HH:MM').
+ */
+
+import { TimeSlot } from '../types/search';
+
+export interface TimeWindowOption {
+  label: string;
+  start: string;
+  end: string;
+}
+
+export interface SlotDayOption {
+  date: string;
+  label: string;
+}
+
+// Time windows offered in search; they match common visit lengths for home services
+export const TIME_WINDOW_OPTIONS: TimeWindowOption[] = [
+  { label: 'Mañana 08:00–11:00', start: '08:00', end: '11:00' },
+  { label: 'Media mañana 10:00–13:00', start: '10:00', end: '13:00' },
+  { label: 'Tarde 14:00–17:00', start: '14:00', end: '17:00' },
+  { label: 'Última hora 17:00–20:00', start: '17:00', end: '20:00' },
+];
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/**
+ * Local calendar date as 'YYYY-MM-DD' (toISOString would shift it to UTC)
+ */
+export const toLocalDateString = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * The next `count` days starting today, labelled "Hoy", "Mañana", then "sáb 22"
+ */
+export const getUpcomingDays = (count: number = 7, from: Date = new Date()): SlotDayOption[] =>
+  Array.from({ length: count }, (_, offset) => {
+    const day = new Date(from.getFullYear(), from.getMonth(), from.getDate() + offset);
+    const label = offset === 0
+      ? 'Hoy'
+      : offset === 1
+        ? 'Mañana'
+        : `${day.toLocaleDateString('es-CL', { weekday: 'short' }).replace('.', '')} ${day.getDate()}`;
+
+    return { date: toLocalDateString(day), label };
+  });
+
+/**
+ * A window that has already started today can't be booked anymore
+ */
+export const isSlotInPast = (slot: TimeSlot, now: Date = new Date()): boolean => {
+  const [hours, minutes] = slot.start.split(':').map(Number);
+  const [year, month, day] = slot.date.split('-').map(Number);
+  return new Date(year, month - 1, day, hours, minutes) <= now;
+};
+
+/**
+ * "hoy 10:00", "mañana 14:00" or "sáb 22 10:00" for a provider's next free slot
+ */
+export const formatNextAvailable = (date: Date, now: Date = new Date()): string => {
+  const time = `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  const dayDiff = Math.round(
+    (new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+      - new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()) / 86400000
+  );
+
+  if (dayDiff <= 0) return `hoy ${time}`;
+  if (dayDiff === 1) return `mañana ${time}`;
+  return `${date.toLocaleDateString('es-CL', { weekday: 'short' }).replace('.', '')} ${date.getDate()} ${time}`;
+};
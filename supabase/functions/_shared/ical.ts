@@ -0,0 +1,448 @@
+/**
+ * iCalendar (RFC 5545) helpers for Edge Functions
+ * Writing: escaping, line folding and UTC timestamps for calendar-feed.
+ * Reading: busy time out of an external ICS calendar for calendar-sync, including
+ * time zones, all-day events and the common recurrence rules.
+ */
+
+export const DEFAULT_TIME_ZONE = 'America/Santiago'
+
+// UID domain of events published by calendar-feed
+export const FEED_UID_DOMAIN = 'manito.cl'
+
+// ============================================================================
+// TIME ZONES
+// ============================================================================
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>()
+
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+const zoneOffset = (instant: number, timeZone: string) => {
+  let formatter = offsetFormatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+    offsetFormatters.set(timeZone, formatter)
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(new Date(instant)).map((part) => [part.type, part.value]))
+  const asUtc = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second)
+  return asUtc - Math.floor(instant / 1000) * 1000
+}
+
+export interface WallTime {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+/**
+ * Instant of a wall-clock time in a zone. A time skipped by a DST change resolves
+ * to the later offset, like most calendar apps.
+ */
+export const zonedToUtc = (wall: WallTime, timeZone: string): Date => {
+  const guess = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second)
+  const first = guess - zoneOffset(guess, timeZone)
+  return new Date(guess - zoneOffset(first, timeZone))
+}
+
+// ============================================================================
+// WRITING
+// ============================================================================
+
+export const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+
+const encoder = new TextEncoder()
+
+// Lines longer than 75 octets continue on the next line after a space
+export const foldLine = (line: string) => {
+  if (encoder.encode(line).length <= 75) return line
+
+  const chunks: string[] = []
+  let chunk = ''
+  let size = 0
+  for (const char of line) {
+    const charSize = encoder.encode(char).length
+    if (size + charSize > (chunks.length ? 74 : 75)) {
+      chunks.push(chunk)
+      chunk = ''
+      size = 0
+    }
+    chunk += char
+    size += charSize
+  }
+  chunks.push(chunk)
+  return chunks.join('\r\n ')
+}
+
+// 20251120T130000Z
+export const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+export interface CalendarEvent {
+  uid: string
+  start: Date
+  end: Date
+  summary: string
+  description?: string
+  location?: string
+  url?: string
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED'
+  lastModified?: Date
+}
+
+export const buildCalendar = (name: string, events: CalendarEvent[], now = new Date()) => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Manito//Reservas//ES',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${DEFAULT_TIME_ZONE}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ]
+
+  events.forEach((event) => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatUtc(now)}`,
+      `DTSTART:${formatUtc(event.start)}`,
+      `DTEND:${formatUtc(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    )
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+    if (event.url) lines.push(`URL:${event.url}`)
+    if (event.status) lines.push(`STATUS:${event.status}`)
+    if (event.lastModified) lines.push(`LAST-MODIFIED:${formatUtc(event.lastModified)}`)
+    lines.push('END:VEVENT')
+  })
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+// ============================================================================
+// READING
+// ============================================================================
+
+interface Property {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+const unfold = (text: string) => text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(Boolean)
+
+// NAME;PARAM=a;PARAM2="b:c":value
+const parseProperty = (line: string): Property | null => {
+  let inQuotes = false
+  let colon = -1
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i
+      break
+    }
+  }
+  if (colon < 0) return null
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';')
+  const params: Record<string, string> = {}
+  rawParams.forEach((param) => {
+    const [key, ...rest] = param.split('=')
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '')
+  })
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) }
+}
+
+interface ParsedTime {
+  wall: WallTime
+  timeZone: string // 'UTC' for ...Z values
+  allDay: boolean
+}
+
+const parseTime = (value: string, params: Record<string, string>, defaultZone: string): ParsedTime | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim())
+  if (!match) return null
+
+  const [, year, month, day, hour, minute, second, utc] = match
+  const tzid = params.TZID && isValidTimeZone(params.TZID) ? params.TZID : defaultZone
+  return {
+    wall: {
+      year: +year,
+      month: +month,
+      day: +day,
+      hour: hour ? +hour : 0,
+      minute: minute ? +minute : 0,
+      second: second ? +second : 0,
+    },
+    timeZone: utc ? 'UTC' : tzid,
+    allDay: !hour || params.VALUE === 'DATE',
+  }
+}
+
+const toInstant = (time: ParsedTime) =>
+  time.timeZone === 'UTC'
+    ? new Date(Date.UTC(time.wall.year, time.wall.month - 1, time.wall.day, time.wall.hour, time.wall.minute, time.wall.second))
+    : zonedToUtc(time.wall, time.timeZone)
+
+// P1W, P1DT2H, PT45M
+const parseDuration = (value: string) => {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim())
+  if (!match) return null
+  const [, sign, weeks, days, hours, minutes, seconds] = match
+  const ms = ((((+(weeks || 0) * 7 + +(days || 0)) * 24 + +(hours || 0)) * 60 + +(minutes || 0)) * 60 + +(seconds || 0)) * 1000
+  return sign === '-' ? -ms : ms
+}
+
+interface RawEvent {
+  uid: string
+  start: ParsedTime
+  end: ParsedTime | null
+  duration: number | null
+  rrule: Record<string, string> | null
+  exdates: number[]
+  recurrenceId: number | null
+  skip: boolean
+}
+
+export interface BusyBlock {
+  starts_at: string
+  ends_at: string
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+const MAX_INSTANCES_PER_EVENT = 1000
+
+const addDays = (wall: WallTime, days: number): WallTime => {
+  const date = new Date(Date.UTC(wall.year, wall.month - 1, wall.day + days))
+  return { ...wall, year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() }
+}
+
+const addMonths = (wall: WallTime, months: number): WallTime | null => {
+  const date = new Date(Date.UTC(wall.year, wall.month - 1 + months, 1))
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate()
+  // RFC 5545: a month without the start's day has no instance
+  if (wall.day > lastDay) return null
+  return { ...wall, year: date.getUTCFullYear(), month: date.getUTCMonth() + 1 }
+}
+
+const DAY_MS = 86400000
+
+/**
+ * Starts of an event's instances that overlap [from, to). Supports FREQ DAILY/WEEKLY/
+ * MONTHLY/YEARLY with INTERVAL, COUNT, UNTIL and BYDAY for weekly rules; other BY*
+ * parts are ignored, which can only add busy time, never hide it.
+ */
+const expandStarts = (event: RawEvent, duration: number, from: number, to: number): number[] => {
+  const first = toInstant(event.start).getTime()
+  if (!event.rrule) return first + duration > from && first < to ? [first] : []
+
+  const rule = event.rrule
+  const interval = Math.max(1, parseInt(rule.INTERVAL || '1', 10) || 1)
+  const count = rule.COUNT ? parseInt(rule.COUNT, 10) : Infinity
+  const until = rule.UNTIL ? parseTime(rule.UNTIL, {}, event.start.timeZone) : null
+  const untilInstant = until ? toInstant(until).getTime() : Infinity
+  const byDay = rule.FREQ === 'WEEKLY' && rule.BYDAY
+    ? rule.BYDAY.split(',').map((day) => WEEKDAY_CODES.indexOf(day.slice(-2))).filter((day) => day >= 0)
+    : []
+
+  const stepDays = rule.FREQ === 'DAILY' ? interval : rule.FREQ === 'WEEKLY' ? interval * 7 : 0
+  const stepMonths = rule.FREQ === 'MONTHLY' ? interval : rule.FREQ === 'YEARLY' ? interval * 12 : 0
+  if (!stepDays && !stepMonths) return first + duration > from && first < to ? [first] : []
+
+  // Without COUNT, jump close to the window instead of walking years of old instances
+  let step = 0
+  if (count === Infinity) {
+    const lead = from - duration - first - 2 * DAY_MS
+    if (lead > 0) step = Math.floor(lead / ((stepDays || stepMonths * 28) * DAY_MS))
+    if (stepMonths) step = Math.floor(step * 28 / 31)
+  }
+
+  const instantOf = (wall: WallTime) =>
+    event.start.timeZone === 'UTC'
+      ? Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second)
+      : zonedToUtc(wall, event.start.timeZone).getTime()
+
+  const starts: number[] = []
+  let emitted = 0
+
+  for (; starts.length < MAX_INSTANCES_PER_EVENT; step++) {
+    let candidates: WallTime[]
+    if (stepDays) {
+      const periodStart = addDays(event.start.wall, step * stepDays)
+      if (!byDay.length) {
+        candidates = [periodStart]
+      } else {
+        // The week's days counted from the DTSTART weekday
+        const startDay = new Date(Date.UTC(periodStart.year, periodStart.month - 1, periodStart.day)).getUTCDay()
+        candidates = byDay
+          .map((day) => (day - startDay + 7) % 7)
+          .sort((a, b) => a - b)
+          .map((offset) => addDays(periodStart, offset))
+      }
+    } else {
+      const wall = addMonths(event.start.wall, step * stepMonths)
+      candidates = wall ? [wall] : []
+    }
+
+    for (const wall of candidates) {
+      const instant = instantOf(wall)
+      if (instant < first) continue
+      if (instant > untilInstant || instant >= to || emitted >= count) return starts
+      emitted++
+      if (instant + duration > from && !event.exdates.includes(instant)) starts.push(instant)
+    }
+  }
+
+  return starts
+}
+
+const durationOf = (event: RawEvent) => {
+  if (event.end) return toInstant(event.end).getTime() - toInstant(event.start).getTime()
+  if (event.duration !== null) return event.duration
+  // No end: a date lasts the whole day, a time is a point in time
+  return event.start.allDay ? DAY_MS : 0
+}
+
+/**
+ * Busy time of a calendar between two instants, merged into non-overlapping blocks.
+ * Cancelled, free (TRANSP:TRANSPARENT) and Manito feed events are left out.
+ */
+export const parseBusyBlocks = (ics: string, from: Date, to: Date): BusyBlock[] => {
+  const lines = unfold(ics)
+  const calendarZone = lines
+    .map(parseProperty)
+    .find((property) => property?.name === 'X-WR-TIMEZONE')?.value
+  const defaultZone = calendarZone && isValidTimeZone(calendarZone) ? calendarZone : DEFAULT_TIME_ZONE
+
+  const events: RawEvent[] = []
+  const stack: string[] = []
+  let current: Partial<RawEvent> & { exdates: number[] } | null = null
+
+  for (const line of lines) {
+    const property = parseProperty(line)
+    if (!property) continue
+
+    if (property.name === 'BEGIN') {
+      stack.push(property.value.toUpperCase())
+      if (property.value.toUpperCase() === 'VEVENT') {
+        current = { uid: '', exdates: [], skip: false, rrule: null, recurrenceId: null, end: null, duration: null }
+      }
+      continue
+    }
+    if (property.name === 'END') {
+      const component = stack.pop()
+      if (component === 'VEVENT' && current) {
+        if (current.start) events.push(current as RawEvent)
+        current = null
+      }
+      continue
+    }
+    // Properties of a VALARM inside the event are not the event's
+    if (!current || stack[stack.length - 1] !== 'VEVENT') continue
+
+    switch (property.name) {
+      case 'UID':
+        current.uid = property.value
+        break
+      case 'DTSTART':
+        current.start = parseTime(property.value, property.params, defaultZone) ?? undefined
+        break
+      case 'DTEND':
+        current.end = parseTime(property.value, property.params, defaultZone)
+        break
+      case 'DURATION':
+        current.duration = parseDuration(property.value)
+        break
+      case 'RRULE':
+        current.rrule = Object.fromEntries(
+          property.value.split(';').map((part) => {
+            const [key, value = ''] = part.split('=')
+            return [key.toUpperCase(), value.toUpperCase()]
+          })
+        )
+        break
+      case 'EXDATE':
+        property.value.split(',').forEach((value) => {
+          const time = parseTime(value, property.params, defaultZone)
+          if (time) current!.exdates.push(toInstant(time).getTime())
+        })
+        break
+      case 'RECURRENCE-ID': {
+        const time = parseTime(property.value, property.params, defaultZone)
+        current.recurrenceId = time ? toInstant(time).getTime() : null
+        break
+      }
+      case 'STATUS':
+        if (property.value.toUpperCase() === 'CANCELLED') current.skip = true
+        break
+      case 'TRANSP':
+        if (property.value.toUpperCase() === 'TRANSPARENT') current.skip = true
+        break
+    }
+  }
+
+  // A modified instance (RECURRENCE-ID) replaces the rule's instance at that time
+  const overridden = new Map<string, number[]>()
+  events
+    .filter((event) => event.recurrenceId !== null)
+    .forEach((event) => overridden.set(event.uid, [...(overridden.get(event.uid) || []), event.recurrenceId!]))
+
+  const fromMs = from.getTime()
+  const toMs = to.getTime()
+  const intervals: Array<[number, number]> = []
+
+  events
+    .filter((event) => !event.skip && !event.uid.toLowerCase().endsWith(`@${FEED_UID_DOMAIN}`))
+    .forEach((event) => {
+      const duration = durationOf(event)
+      if (duration <= 0) return
+
+      const excluded = event.recurrenceId === null ? overridden.get(event.uid) || [] : []
+      expandStarts(event, duration, fromMs, toMs)
+        .filter((start) => !excluded.includes(start))
+        .forEach((start) => intervals.push([Math.max(start, fromMs), Math.min(start + duration, toMs)]))
+    })
+
+  intervals.sort((a, b) => a[0] - b[0])
+  const merged: Array<[number, number]> = []
+  intervals.forEach(([start, end]) => {
+    const last = merged[merged.length - 1]
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end)
+    else merged.push([start, end])
+  })
+
+  return merged.map(([start, end]) => ({
+    starts_at: new Date(start).toISOString(),
+    ends_at: new Date(end).toISOString(),
+  }))
+}
@@ -0,0 +1,125 @@
+/**
+ * CALENDAR FEED - Secret iCalendar subscription URL per user
+ * GET /calendar-feed?token=... lists the user's agreed bookings with address, the
+ * other party's contact details, notes and a link back into the app. Calendar apps
+ * call it without a session, so the token is the only credential (verify_jwt off).
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { CalendarEvent, FEED_UID_DOMAIN, buildCalendar, zonedToUtc, DEFAULT_TIME_ZONE } from '../_shared/ical.ts'
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+// Universal link prefix handled by the app (see linking config in AppNavigator)
+const APP_LINK_BASE = Deno.env.get('APP_LINK_BASE') || 'https://auth.manito.cl'
+
+const CACHE_SECONDS = 15 * 60
+
+interface FeedRow {
+  booking_id: string
+  role: 'provider' | 'customer'
+  status: string
+  title: string
+  description: string | null
+  scheduled_date: string
+  time_start: string
+  time_end: string
+  address: string | null
+  contact_name: string
+  contact_phone: string | null
+  contact_email: string | null
+  customer_notes: string | null
+  provider_notes: string | null
+  updated_at: string
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  accepted: 'Aceptada',
+  confirmed: 'Confirmada',
+  in_progress: 'En curso',
+  completed: 'Completada',
+  payment_released: 'Pagada',
+}
+
+// '2025-11-20' + '10:30:00' in Chilean time
+const toInstant = (date: string, time: string) => {
+  const [year, month, day] = date.split('-').map(Number)
+  const [hour, minute, second = 0] = time.split(':').map(Number)
+  return zonedToUtc({ year, month, day, hour, minute, second }, DEFAULT_TIME_ZONE)
+}
+
+const toEvent = (row: FeedRow): CalendarEvent => {
+  const link = `${APP_LINK_BASE}/bookings/${row.booking_id}`
+  const isProvider = row.role === 'provider'
+
+  const details = [
+    `${isProvider ? 'Cliente' : 'Profesional'}: ${row.contact_name}`,
+    row.contact_phone && `Teléfono: ${row.contact_phone}`,
+    row.contact_email && `Email: ${row.contact_email}`,
+    row.address && `Dirección: ${row.address}`,
+    `Estado: ${STATUS_LABELS[row.status] || row.status}`,
+  ]
+  const notes = [
+    row.customer_notes && `Notas del cliente: ${row.customer_notes}`,
+    row.provider_notes && `Notas del profesional: ${row.provider_notes}`,
+  ]
+
+  const description = [
+    details.filter(Boolean).join('\n'),
+    row.description,
+    notes.filter(Boolean).join('\n'),
+    `Ver en Manito: ${link}`,
+  ].filter(Boolean).join('\n\n')
+
+  return {
+    uid: `booking-${row.booking_id}@${FEED_UID_DOMAIN}`,
+    start: toInstant(row.scheduled_date, row.time_start),
+    end: toInstant(row.scheduled_date, row.time_end),
+    summary: isProvider ? `${row.title} · ${row.contact_name}` : `${row.title} con ${row.contact_name}`,
+    description,
+    location: row.address || undefined,
+    url: link,
+    status: 'CONFIRMED',
+    lastModified: new Date(row.updated_at),
+  }
+}
+
+serve(async (req) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return new Response('Method not allowed', { status: 405 })
+  }
+
+  // ?token=... or /calendar-feed/<token>.ics, which some calendar apps prefer
+  const url = new URL(req.url)
+  const token = url.searchParams.get('token') || url.pathname.split('/').pop()?.replace(/\.ics$/, '')
+  if (!token || !/^[0-9a-f]{48}$/.test(token)) {
+    return new Response('Not found', { status: 404 })
+  }
+
+  try {
+    const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+    const { data, error } = await admin.rpc('get_calendar_feed_events', { p_token: token })
+
+    if (error) {
+      if (error.message === 'feed_not_found') {
+        return new Response('Not found', { status: 404 })
+      }
+      throw error
+    }
+
+    const body = buildCalendar('Manito', ((data || []) as FeedRow[]).map(toEvent))
+    console.log('✅ Calendar feed served:', (data || []).length, 'events')
+
+    return new Response(req.method === 'HEAD' ? null : body, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="manito.ics"',
+        'Cache-Control': `private, max-age=${CACHE_SECONDS}`,
+      },
+    })
+  } catch (error) {
+    console.error('❌ Calendar feed failed:', error)
+    return new Response('Calendar unavailable', { status: 500 })
+  }
+})
@@ -0,0 +1,336 @@
+/**
+ * CALENDAR SYNC - Imports busy time from providers' external ICS calendars
+ * Called by the app for the signed-in provider's calendars (optionally just one) and
+ * hourly with the service role for every calendar due a refresh. Only start and end
+ * times are kept; see replace_external_busy_blocks.
+ *
+ * Calendar URLs are provider input, so only https (or webcal, fetched over https) is
+ * followed, and never to a loopback, private or link-local address. The request goes
+ * to the address that was checked rather than resolving the host again, and redirects
+ * are followed by hand so every hop is checked the same way.
+ *
+ * With LOCAL_CALENDAR_DIR set, https://calendars.test/<name>.ics is read from
+ * <name>.ics in that directory, so a local file (see fixtures/) can stand in for a
+ * remote calendar in tests. The .test domain never resolves and production never
+ * sets the variable.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import { parseBusyBlocks } from '../_shared/ical.ts'
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')!
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const LOCAL_CALENDAR_DIR = Deno.env.get('LOCAL_CALENDAR_DIR')
+const LOCAL_CALENDAR_HOST = 'calendars.test'
+
+const HORIZON_DAYS = 90
+const FETCH_TIMEOUT_MS = 15000
+const MAX_CALENDAR_BYTES = 5 * 1024 * 1024
+const MAX_REDIRECTS = 3
+const BATCH_SIZE = 50
+const STALE_AFTER_MINUTES = 55
+
+interface CalendarSyncRequest {
+  calendarId?: string
+}
+
+interface ExternalCalendar {
+  id: string
+  url: string
+}
+
+interface SyncResult {
+  calendarId: string
+  busyBlocks: number
+  error?: string
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+// Error codes stored in external_calendars.last_error; the app words them in Spanish
+class SyncError extends Error {}
+
+const isPrivateIPv4 = (address: string): boolean => {
+  const [a, b] = address.split('.').map(Number)
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224
+  )
+}
+
+const isPrivateIPv6 = (address: string): boolean => {
+  const lower = address.toLowerCase()
+  if (lower === '::' || lower === '::1') return true
+
+  // IPv4-mapped addresses, which URL parsing rewrites to hex (::ffff:7f00:1)
+  const mapped = lower.match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/)
+  if (mapped) {
+    if (mapped[1]) return isPrivateIPv4(mapped[1])
+    const high = parseInt(mapped[2], 16)
+    const low = parseInt(mapped[3], 16)
+    return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`)
+  }
+
+  // fc00::/7 unique local, fe80::/10 link-local, ff00::/8 multicast
+  return /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower) || lower.startsWith('ff')
+}
+
+const isPrivateAddress = (address: string): boolean =>
+  address.includes(':') ? isPrivateIPv6(address) : isPrivateIPv4(address)
+
+// The first address of an https URL's host, once every address it resolves to is public
+const resolvePublicAddress = async (url: URL): Promise<string> => {
+  if (url.protocol !== 'https:' || url.username || url.password) throw new SyncError('invalid_url')
+
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  if (host === 'localhost' || host.endsWith('.localhost')) throw new SyncError('private_host')
+
+  let addresses: string[]
+  if (host.includes(':') || /^\d+\.\d+\.\d+\.\d+$/.test(host)) {
+    addresses = [host]
+  } else {
+    const [ipv4, ipv6] = await Promise.all([
+      Deno.resolveDns(host, 'A').catch(() => [] as string[]),
+      Deno.resolveDns(host, 'AAAA').catch(() => [] as string[]),
+    ])
+    addresses = [...ipv4, ...ipv6]
+    if (addresses.length === 0) throw new SyncError('unreachable')
+  }
+
+  if (addresses.some(isPrivateAddress)) throw new SyncError('private_host')
+  return addresses[0]
+}
+
+const CRLF = [13, 10]
+const HEADER_END = [13, 10, 13, 10]
+
+const indexOfBytes = (data: Uint8Array, pattern: number[], from = 0): number => {
+  for (let i = from; i <= data.length - pattern.length; i++) {
+    if (pattern.every((byte, j) => data[i + j] === byte)) return i
+  }
+  return -1
+}
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+const decodeChunked = (body: Uint8Array): Uint8Array => {
+  const chunks: Uint8Array[] = []
+  let offset = 0
+  while (true) {
+    const lineEnd = indexOfBytes(body, CRLF, offset)
+    const size = lineEnd === -1 ? NaN : parseInt(new TextDecoder().decode(body.subarray(offset, lineEnd)), 16)
+    if (Number.isNaN(size)) throw new SyncError('unreachable')
+    if (size === 0) return concatBytes(chunks)
+    chunks.push(body.subarray(lineEnd + 2, lineEnd + 2 + size))
+    offset = lineEnd + 2 + size + 2
+  }
+}
+
+interface CalendarResponse {
+  status: number
+  location: string | null
+  body: string
+}
+
+// A GET sent to the address resolvePublicAddress checked, so the host can't resolve
+// somewhere else between the check and the request. TLS still verifies the
+// certificate against the URL's host name.
+const getFromAddress = async (url: URL, address: string, signal: AbortSignal): Promise<CalendarResponse> => {
+  const tcp = await Deno.connect({ hostname: address, port: Number(url.port) || 443 })
+  const conn = await Deno.startTls(tcp, { hostname: url.hostname.replace(/^\[|\]$/g, '') })
+  const close = () => {
+    try {
+      conn.close()
+    } catch {
+      // already closed by an abort
+    }
+  }
+  signal.addEventListener('abort', close)
+
+  try {
+    const request = new TextEncoder().encode(
+      [
+        `GET ${url.pathname}${url.search} HTTP/1.1`,
+        `Host: ${url.host}`,
+        'Accept: text/calendar, text/plain;q=0.5',
+        'Accept-Encoding: identity',
+        'Connection: close',
+        '',
+        '',
+      ].join('\r\n')
+    )
+    for (let written = 0; written < request.length; ) {
+      written += await conn.write(request.subarray(written))
+    }
+
+    const parts: Uint8Array[] = []
+    const buffer = new Uint8Array(64 * 1024)
+    let received = 0
+    for (let read = await conn.read(buffer); read !== null; read = await conn.read(buffer)) {
+      received += read
+      if (received > MAX_CALENDAR_BYTES) throw new SyncError('calendar_too_large')
+      parts.push(buffer.slice(0, read))
+    }
+
+    const response = concatBytes(parts)
+    const headerEnd = indexOfBytes(response, HEADER_END)
+    if (headerEnd === -1) throw new SyncError('unreachable')
+
+    const [statusLine, ...headerLines] = new TextDecoder().decode(response.subarray(0, headerEnd)).split('\r\n')
+    const status = Number(statusLine.split(' ')[1])
+    const headers = new Headers()
+    for (const line of headerLines) {
+      const colon = line.indexOf(':')
+      if (colon > 0) headers.append(line.slice(0, colon).trim(), line.slice(colon + 1).trim())
+    }
+
+    let body = response.subarray(headerEnd + HEADER_END.length)
+    if (headers.get('Transfer-Encoding')?.toLowerCase().includes('chunked')) body = decodeChunked(body)
+
+    return { status, location: headers.get('Location'), body: new TextDecoder().decode(body) }
+  } finally {
+    signal.removeEventListener('abort', close)
+    close()
+  }
+}
+
+const checkCalendar = (text: string): string => {
+  if (text.length > MAX_CALENDAR_BYTES) throw new SyncError('calendar_too_large')
+  if (!text.includes('BEGIN:VCALENDAR')) throw new SyncError('not_a_calendar')
+  return text
+}
+
+const loadCalendar = async (rawUrl: string): Promise<string> => {
+  let url: URL
+  try {
+    url = new URL(rawUrl.replace(/^webcal:/i, 'https:'))
+  } catch {
+    throw new SyncError('invalid_url')
+  }
+
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS)
+  try {
+    if (LOCAL_CALENDAR_DIR && url.hostname === LOCAL_CALENDAR_HOST) {
+      const name = url.pathname.slice(1)
+      if (!/^[\w-]+\.ics$/.test(name)) throw new SyncError('invalid_url')
+      return checkCalendar(await Deno.readTextFile(`${LOCAL_CALENDAR_DIR}/${name}`))
+    }
+
+    for (let redirects = 0; ; redirects++) {
+      const address = await resolvePublicAddress(url)
+      const response = await getFromAddress(url, address, controller.signal)
+
+      if (response.status >= 300 && response.status < 400 && response.location) {
+        if (redirects >= MAX_REDIRECTS) throw new SyncError('too_many_redirects')
+        url = new URL(response.location, url)
+        continue
+      }
+      if (response.status < 200 || response.status >= 300) throw new SyncError(`http_${response.status}`)
+
+      return checkCalendar(response.body)
+    }
+  } catch (error) {
+    if (error instanceof SyncError) throw error
+    throw new SyncError(controller.signal.aborted ? 'timeout' : 'unreachable')
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+const syncCalendar = async (admin: SupabaseClient, calendar: ExternalCalendar): Promise<SyncResult> => {
+  const from = new Date(Date.now() - 24 * 60 * 60 * 1000)
+  const to = new Date(Date.now() + HORIZON_DAYS * 24 * 60 * 60 * 1000)
+
+  let blocks: ReturnType<typeof parseBusyBlocks> | null = null
+  let syncError: string | undefined
+  try {
+    blocks = parseBusyBlocks(await loadCalendar(calendar.url), from, to)
+  } catch (error) {
+    syncError = error instanceof SyncError ? error.message : 'invalid_calendar'
+    console.error('❌ Calendar not imported:', calendar.id, error)
+  }
+
+  const { data, error } = await admin.rpc('replace_external_busy_blocks', {
+    p_calendar_id: calendar.id,
+    p_blocks: blocks ?? [],
+    p_error: syncError ?? null,
+  })
+  if (error) throw error
+
+  return { calendarId: calendar.id, busyBlocks: syncError ? 0 : (data as number), error: syncError }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const authorization = req.headers.get('Authorization')
+    if (!authorization) {
+      return jsonResponse({ error: 'unauthorized' }, 401)
+    }
+
+    const body = ((await req.json().catch(() => ({}))) || {}) as CalendarSyncRequest
+    const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+    let calendars: ExternalCalendar[]
+
+    if (authorization === `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+      // Scheduled run: calendars never synced or not refreshed within the hour
+      const staleBefore = new Date(Date.now() - STALE_AFTER_MINUTES * 60 * 1000).toISOString()
+      const { data, error } = await admin
+        .from('external_calendars')
+        .select('id, url')
+        .or(`last_synced_at.is.null,last_synced_at.lt.${staleBefore}`)
+        .order('last_synced_at', { ascending: true, nullsFirst: true })
+        .limit(BATCH_SIZE)
+      if (error) throw error
+      calendars = data || []
+    } else {
+      // Read as the caller so providers only sync their own calendars
+      const userClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+        global: { headers: { Authorization: authorization } },
+      })
+      let query = userClient.from('external_calendars').select('id, url')
+      if (body.calendarId) query = query.eq('id', body.calendarId)
+      const { data, error } = await query
+      if (error) {
+        return jsonResponse({ error: 'unauthorized' }, 401)
+      }
+      calendars = data || []
+    }
+
+    const results: SyncResult[] = []
+    for (const calendar of calendars) {
+      results.push(await syncCalendar(admin, calendar))
+    }
+
+    console.log('✅ Calendars synced:', results.length)
+    return jsonResponse({ results })
+  } catch (error) {
+    console.error('❌ Calendar sync failed:', error)
+    return jsonResponse({ error: 'sync_failed' }, 500)
+  }
+})
@@ -0,0 +1,514 @@
+/**
+ * QUOTE PDF - Printable "cotización" in Spanish
+ * Renders a quote version with provider RUT, customer data, itemised labor and
+ * materials, IVA or boleta de honorarios retention, validity and care instructions.
+ * Stores it in the quote-documents bucket and returns a signed URL to share.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'https://esm.sh/pdf-lib@1.17.1'
+import { corsHeaders } from '../_shared/cors.ts'
+import { getCareInstructionsForProjectType, getGenericCareInstructions } from '../_shared/careInstructionTemplates.ts'
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')!
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const BUCKET = 'quote-documents'
+const SIGNED_URL_SECONDS = 60 * 60 * 24 * 7 // 7 days, long enough to forward by WhatsApp
+const MAX_CARE_INSTRUCTIONS = 12
+
+// Boleta de honorarios retention by year (Ley 21.133)
+const HONORARIOS_RETENTION: Record<number, number> = {
+  2025: 14.5,
+  2026: 15.25,
+  2027: 16,
+}
+const HONORARIOS_RETENTION_FINAL = 17
+
+const DOCUMENT_TYPE_LABELS: Record<string, string> = {
+  boleta_honorarios: 'Boleta de honorarios',
+  boleta_servicios: 'Boleta de servicios',
+  factura_electronica: 'Factura electrónica',
+  factura_exenta: 'Factura exenta',
+}
+
+const BRAND = rgb(0.047, 0.482, 0.702) // Manito blue #0c7bb3
+const TEXT = rgb(0.13, 0.13, 0.13)
+const MUTED = rgb(0.42, 0.42, 0.42)
+const RULE = rgb(0.85, 0.85, 0.85)
+
+const PAGE_WIDTH = 595.28 // A4
+const PAGE_HEIGHT = 841.89
+const MARGIN = 48
+
+interface LineItem {
+  name: string
+  description?: string | null
+  amount: number
+}
+
+interface MaterialItem {
+  name: string
+  quantity: number
+  unit: string
+  price_per_unit: number
+  subtotal: number
+}
+
+interface QuoteDocumentData {
+  quote: {
+    id: string
+    version: number
+    status: string
+    price_clp: number
+    materials_cost_clp: number
+    includes_materials: boolean
+    labor_items: LineItem[]
+    materials_items: MaterialItem[]
+    additional_fees: LineItem[]
+    travel_fee_clp: number
+    document_type: string | null
+    vat_rate: number
+    iva_clp: number
+    estimated_duration_hours: number | null
+    availability_date: string
+    availability_time_start: string
+    availability_time_end: string
+    message: string | null
+    expires_at: string | null
+    created_at: string
+    updated_at: string | null
+  }
+  provider: {
+    id: string
+    full_name: string
+    business_name: string | null
+    rut: string | null
+    email: string | null
+    phone: string | null
+    comuna: string | null
+  }
+  customer: {
+    full_name: string
+    rut: string | null
+    email: string | null
+    phone: string | null
+  }
+  request: {
+    title: string
+    description: string
+    project_type_id: string | null
+    project_type_name: string | null
+    project_type_category: string | null
+    address: { street: string | null; comuna: string; city: string; region: string } | null
+  }
+}
+
+interface QuotePdfRequest {
+  quoteId: string
+  // Provider only: render again even if this version and status already have a document
+  force?: boolean
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+const formatCLP = (amount: number) =>
+  '$' + Math.round(amount).toString().replace(/\B(?=(\d{3})+(?!\d))/g, '.')
+
+const formatDate = (value: string) => {
+  const [year, month, day] = value.slice(0, 10).split('-')
+  return `${day}-${month}-${year}`
+}
+
+// 12.345.678-9
+const formatRUT = (rut: string) => {
+  const clean = rut.replace(/[^0-9kK]/g, '').toUpperCase()
+  if (clean.length < 2) return rut
+  const body = clean.slice(0, -1).replace(/\B(?=(\d{3})+(?!\d))/g, '.')
+  return `${body}-${clean.slice(-1)}`
+}
+
+// Standard PDF fonts only cover WinAnsi: keep Spanish accents, drop emoji and the like
+const sanitize = (text: string) =>
+  text.normalize('NFC').replace(/[^\n\x20-\x7E\xA0-\xFF\u2013\u2014\u201C\u201D\u2022]/g, '').trim()
+
+const honorariosRetentionRate = (year: number) =>
+  HONORARIOS_RETENTION[year] ?? (year < 2025 ? HONORARIOS_RETENTION[2025] : HONORARIOS_RETENTION_FINAL)
+
+/**
+ * Writes top to bottom and starts a new page when the current one is full
+ */
+class DocumentWriter {
+  private page: PDFPage
+  private y = PAGE_HEIGHT - MARGIN
+
+  constructor(private pdf: PDFDocument, private regular: PDFFont, private bold: PDFFont) {
+    this.page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  }
+
+  get currentPage() {
+    return this.page
+  }
+
+  get cursor() {
+    return this.y
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN) {
+      this.page = this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+      this.y = PAGE_HEIGHT - MARGIN
+    }
+  }
+
+  moveDown(height: number) {
+    this.y -= height
+  }
+
+  wrap(text: string, size: number, width: number, bold = false): string[] {
+    const font = bold ? this.bold : this.regular
+    const lines: string[] = []
+    sanitize(text).split('\n').forEach((paragraph) => {
+      let line = ''
+      paragraph.split(/\s+/).forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word
+        if (font.widthOfTextAtSize(candidate, size) > width && line) {
+          lines.push(line)
+          line = word
+        } else {
+          line = candidate
+        }
+      })
+      lines.push(line)
+    })
+    return lines
+  }
+
+  text(text: string, options: { size?: number; bold?: boolean; color?: ReturnType<typeof rgb>; x?: number; width?: number } = {}) {
+    const size = options.size ?? 10
+    const x = options.x ?? MARGIN
+    const width = options.width ?? PAGE_WIDTH - MARGIN - x
+    this.wrap(text, size, width, options.bold).forEach((line) => {
+      this.ensureSpace(size + 4)
+      this.page.drawText(line, {
+        x,
+        y: this.y - size,
+        size,
+        font: options.bold ? this.bold : this.regular,
+        color: options.color ?? TEXT,
+      })
+      this.y -= size + 4
+    })
+  }
+
+  // Label on the left, amount right-aligned
+  row(label: string, amount: string, options: { bold?: boolean; size?: number; indent?: number } = {}) {
+    const size = options.size ?? 10
+    const font = options.bold ? this.bold : this.regular
+    const amountWidth = font.widthOfTextAtSize(amount, size)
+    const labelLines = this.wrap(label, size, PAGE_WIDTH - 2 * MARGIN - 110 - (options.indent ?? 0), options.bold)
+    this.ensureSpace(labelLines.length * (size + 4))
+    this.page.drawText(amount, { x: PAGE_WIDTH - MARGIN - amountWidth, y: this.y - size, size, font, color: TEXT })
+    labelLines.forEach((line) => {
+      this.page.drawText(line, { x: MARGIN + (options.indent ?? 0), y: this.y - size, size, font, color: TEXT })
+      this.y -= size + 4
+    })
+  }
+
+  section(title: string) {
+    this.ensureSpace(40)
+    this.y -= 12
+    this.page.drawText(sanitize(title).toUpperCase(), { x: MARGIN, y: this.y - 10, size: 10, font: this.bold, color: BRAND })
+    this.y -= 16
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 0.75,
+      color: RULE,
+    })
+    this.y -= 6
+  }
+}
+
+// Templates for the job's project type category, or the generic ones (same choice as the app's picker)
+const careInstructionsFor = (request: QuoteDocumentData['request']) =>
+  (request.project_type_category
+    ? getCareInstructionsForProjectType(request.project_type_id ?? '', request.project_type_category)
+    : getGenericCareInstructions()
+  ).slice(0, MAX_CARE_INSTRUCTIONS).map((instruction) => instruction.text)
+
+// Both sides download the same file, so it carries what the provider may see: the
+// customer's RUT, contact and street only once the quote is accepted
+const sharedView = (data: QuoteDocumentData): QuoteDocumentData =>
+  data.quote.status === 'accepted'
+    ? data
+    : {
+      ...data,
+      customer: { ...data.customer, rut: null, email: null, phone: null },
+      request: {
+        ...data.request,
+        address: data.request.address ? { ...data.request.address, street: null } : null,
+      },
+    }
+
+async function renderQuotePdf(data: QuoteDocumentData, documentNumber: string, careInstructions: string[]) {
+  const pdf = await PDFDocument.create()
+  const regular = await pdf.embedFont(StandardFonts.Helvetica)
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold)
+  const { quote, provider, customer, request } = data
+
+  pdf.setTitle(`Cotización ${documentNumber}`)
+  pdf.setAuthor(sanitize(provider.business_name || provider.full_name))
+  pdf.setCreator('Manito')
+  pdf.setLanguage('es-CL')
+
+  const writer = new DocumentWriter(pdf, regular, bold)
+  const issuedAt = quote.updated_at || quote.created_at
+
+  // Header band
+  const header = writer.currentPage
+  header.drawRectangle({ x: 0, y: PAGE_HEIGHT - 90, width: PAGE_WIDTH, height: 90, color: BRAND })
+  header.drawText('manito', { x: MARGIN, y: PAGE_HEIGHT - 55, size: 26, font: bold, color: rgb(1, 1, 1) })
+  const title = 'COTIZACIÓN'
+  header.drawText(title, {
+    x: PAGE_WIDTH - MARGIN - bold.widthOfTextAtSize(title, 18),
+    y: PAGE_HEIGHT - 45,
+    size: 18,
+    font: bold,
+    color: rgb(1, 1, 1),
+  })
+  const number = `N° ${documentNumber}`
+  header.drawText(number, {
+    x: PAGE_WIDTH - MARGIN - regular.widthOfTextAtSize(number, 10),
+    y: PAGE_HEIGHT - 65,
+    size: 10,
+    font: regular,
+    color: rgb(1, 1, 1),
+  })
+  writer.moveDown(90)
+
+  writer.text(
+    `Emitida el ${formatDate(issuedAt)}` + (quote.expires_at ? ` · Válida hasta el ${formatDate(quote.expires_at)}` : ''),
+    { size: 9, color: MUTED }
+  )
+
+  // Parties
+  writer.section('Profesional')
+  writer.text(provider.business_name || provider.full_name, { bold: true })
+  if (provider.business_name) writer.text(provider.full_name)
+  writer.text(`RUT: ${provider.rut ? formatRUT(provider.rut) : 'No informado'}`)
+  const providerContact = [provider.phone, provider.email, provider.comuna].filter(Boolean).join(' · ')
+  if (providerContact) writer.text(providerContact, { color: MUTED })
+
+  writer.section('Cliente')
+  writer.text(customer.full_name, { bold: true })
+  if (customer.rut) writer.text(`RUT: ${formatRUT(customer.rut)}`)
+  const customerContact = [customer.phone, customer.email].filter(Boolean).join(' · ')
+  if (customerContact) writer.text(customerContact, { color: MUTED })
+  if (request.address) {
+    writer.text(
+      [request.address.street, request.address.comuna, request.address.region].filter(Boolean).join(', '),
+      { color: MUTED }
+    )
+  }
+
+  // Job
+  writer.section('Trabajo')
+  writer.text(request.title, { bold: true })
+  if (request.project_type_name) writer.text(request.project_type_name, { color: MUTED })
+  writer.text(
+    `Fecha propuesta: ${formatDate(quote.availability_date)}, ${quote.availability_time_start.slice(0, 5)}–${quote.availability_time_end.slice(0, 5)}`
+      + (quote.estimated_duration_hours ? ` · Duración estimada: ${quote.estimated_duration_hours} h` : '')
+  )
+
+  // Items; price_clp is labor + travel + fees
+  const laborItems = Array.isArray(quote.labor_items) ? quote.labor_items : []
+  const materialsItems = Array.isArray(quote.materials_items) ? quote.materials_items : []
+  const additionalFees = Array.isArray(quote.additional_fees) ? quote.additional_fees : []
+  const feesSubtotal = additionalFees.reduce((sum, item) => sum + (Number(item.amount) || 0), 0)
+  const travelFee = quote.travel_fee_clp || 0
+  const laborSubtotal = Math.max(0, quote.price_clp - travelFee - feesSubtotal)
+
+  writer.section('Mano de obra')
+  if (laborItems.length > 0) {
+    laborItems.forEach((item) => {
+      writer.row(item.name, formatCLP(item.amount))
+      if (item.description) writer.text(item.description, { size: 8, color: MUTED, x: MARGIN + 10 })
+    })
+  } else {
+    writer.row('Mano de obra', formatCLP(laborSubtotal))
+  }
+
+  if (materialsItems.length > 0 || quote.materials_cost_clp > 0) {
+    writer.section(quote.includes_materials ? 'Materiales' : 'Materiales (referencia, no incluidos)')
+    materialsItems.forEach((item) => {
+      writer.row(
+        `${item.quantity} ${item.unit} · ${item.name} (${formatCLP(item.price_per_unit)} c/u)`,
+        formatCLP(item.subtotal)
+      )
+    })
+    if (materialsItems.length === 0) writer.row('Materiales', formatCLP(quote.materials_cost_clp))
+  }
+
+  if (travelFee > 0 || additionalFees.length > 0) {
+    writer.section('Otros cargos')
+    if (travelFee > 0) writer.row('Traslado', formatCLP(travelFee))
+    additionalFees.forEach((item) => writer.row(item.name, formatCLP(item.amount)))
+  }
+
+  // Totals
+  const subtotal = quote.price_clp + (quote.materials_cost_clp || 0)
+  writer.section('Resumen')
+  const documentType = quote.document_type ?? ''
+
+  if (documentType === 'boleta_honorarios') {
+    const rate = honorariosRetentionRate(new Date(issuedAt).getFullYear())
+    const retention = Math.round((subtotal * rate) / 100)
+    writer.row('Total honorarios (bruto)', formatCLP(subtotal), { bold: true, size: 12 })
+    writer.row(`Retención ${rate.toString().replace('.', ',')}%`, formatCLP(retention))
+    writer.row('Líquido a recibir por el profesional', formatCLP(subtotal - retention))
+    writer.text(
+      'Se emite boleta de honorarios. Si quien paga es una empresa, retiene el impuesto y paga el líquido; '
+        + 'si es una persona, paga el total bruto.',
+      { size: 8, color: MUTED }
+    )
+  } else if (quote.iva_clp > 0) {
+    writer.row('Neto', formatCLP(subtotal))
+    writer.row(`IVA ${Number(quote.vat_rate).toString().replace('.', ',')}%`, formatCLP(quote.iva_clp))
+    writer.row('Total', formatCLP(subtotal + quote.iva_clp), { bold: true, size: 12 })
+  } else {
+    writer.row('Total', formatCLP(subtotal), { bold: true, size: 12 })
+    writer.text('Exento de IVA', { size: 8, color: MUTED })
+  }
+  if (DOCUMENT_TYPE_LABELS[documentType]) {
+    writer.text(`Documento tributario: ${DOCUMENT_TYPE_LABELS[documentType]}`, { size: 9, color: MUTED })
+  }
+
+  if (quote.message) {
+    writer.section('Notas del profesional')
+    writer.text(quote.message)
+  }
+
+  if (careInstructions.length > 0) {
+    writer.section('Cuidados después del trabajo')
+    careInstructions.forEach((instruction) => writer.text(`• ${instruction}`, { size: 9 }))
+  }
+
+  writer.section('Condiciones')
+  writer.text(
+    (quote.expires_at
+      ? `Esta cotización es válida hasta el ${formatDate(quote.expires_at)}. `
+      : '')
+      + 'Los precios están en pesos chilenos. El trabajo se agenda al aceptar la cotización en la app Manito.',
+    { size: 8, color: MUTED }
+  )
+
+  // Footer on every page
+  pdf.getPages().forEach((page: PDFPage, index: number, pages: PDFPage[]) => {
+    const footer = `Cotización ${documentNumber} · Página ${index + 1} de ${pages.length} · manito.cl`
+    page.drawText(footer, {
+      x: (PAGE_WIDTH - regular.widthOfTextAtSize(footer, 8)) / 2,
+      y: MARGIN / 2,
+      size: 8,
+      font: regular,
+      color: MUTED,
+    })
+  })
+
+  return await pdf.save()
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const authorization = req.headers.get('Authorization')
+    if (!authorization) {
+      return jsonResponse({ error: 'unauthorized' }, 401)
+    }
+
+    const body = (await req.json()) as QuotePdfRequest
+    if (!body?.quoteId) {
+      return jsonResponse({ error: 'quote_id_required' }, 400)
+    }
+
+    // Read as the caller so only the provider or the customer of the quote gets the data
+    const userClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: authorization } },
+    })
+    const { data: documentData, error: dataError } = await userClient.rpc('get_quote_document_data', {
+      p_quote_id: body.quoteId,
+    })
+    if (dataError || !documentData) {
+      console.error('❌ Quote data not available:', dataError)
+      return jsonResponse({ error: 'quote_not_found' }, 404)
+    }
+
+    const data = documentData as QuoteDocumentData
+    const { data: { user } } = await userClient.auth.getUser()
+    if (body.force && user?.id !== data.provider.id) {
+      return jsonResponse({ error: 'provider_only' }, 403)
+    }
+
+    const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+    const storagePath = `quotes/${data.quote.id}/v${data.quote.version}.pdf`
+    const documentNumber = `COT-${data.quote.id.slice(0, 8).toUpperCase()}-v${data.quote.version}`
+
+    const { data: existing } = await admin
+      .from('quote_documents')
+      .select('storage_path, quote_status')
+      .eq('quote_id', data.quote.id)
+      .eq('quote_version', data.quote.version)
+      .maybeSingle()
+
+    // A status change renders again: an accepted quote adds the customer's details
+    if (!existing || existing.quote_status !== data.quote.status || body.force) {
+      const bytes = await renderQuotePdf(sharedView(data), documentNumber, careInstructionsFor(data.request))
+
+      const { error: uploadError } = await admin.storage
+        .from(BUCKET)
+        .upload(storagePath, bytes, { contentType: 'application/pdf', upsert: true })
+      if (uploadError) throw uploadError
+
+      const { error: recordError } = await admin
+        .from('quote_documents')
+        .upsert(
+          {
+            quote_id: data.quote.id,
+            quote_version: data.quote.version,
+            storage_path: storagePath,
+            document_number: documentNumber,
+            quote_status: data.quote.status,
+            created_by: user?.id ?? null,
+          },
+          { onConflict: 'quote_id,quote_version' }
+        )
+      if (recordError) throw recordError
+
+      console.log('✅ Quote PDF rendered:', storagePath)
+    }
+
+    const { data: signed, error: signError } = await admin.storage
+      .from(BUCKET)
+      .createSignedUrl(storagePath, SIGNED_URL_SECONDS, { download: `cotizacion-${documentNumber}.pdf` })
+    if (signError || !signed) throw signError
+
+    return jsonResponse({
+      url: signed.signedUrl,
+      path: storagePath,
+      documentNumber,
+      version: data.quote.version,
+    })
+  } catch (error) {
+    console.error('❌ Quote PDF failed:', error)
+    return jsonResponse({ error: 'render_failed' }, 500)
+  }
+})
@@ -0,0 +1,433 @@
+-- Geo-Radius Provider Search
+-- November 18, 2025
+--
+-- Extends the ranked search functions with:
+--   * an estimated driving distance per provider (see estimate_driving_distance_km);
+--     it is not routed, so the app always shows it as approximate
+--   * an optional radius on that estimate around the customer's address or comuna centroid
+--   * the provider's own max_travel_distance_km, unless they list the comuna explicitly
+--   * sorting by distance instead of relevance (p_sort_by = 'distance')
+
+-- ============================================================================
+-- 1. DRIVING DISTANCE ESTIMATE
+-- ============================================================================
+--
+-- Roads between comunas are rarely straight; 1.3x the great-circle distance is a
+-- reasonable urban estimate, not a routed distance. Keep in sync with
+-- ROAD_DISTANCE_FACTOR in locationService.ts.
+
+CREATE OR REPLACE FUNCTION estimate_driving_distance_km(p_distance_km FLOAT)
+RETURNS FLOAT AS $$
+BEGIN
+  IF p_distance_km IS NULL THEN
+    RETURN NULL;
+  END IF;
+  RETURN ROUND((p_distance_km * 1.3)::NUMERIC, 1)::FLOAT;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ============================================================================
+-- 2. SERVICE-BASED SEARCH
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS search_providers_by_service(
+  TEXT[], FLOAT[], TEXT, TEXT, INTEGER, INTEGER, DECIMAL, BOOLEAN, BOOLEAN, urgency_level, TEXT, FLOAT, FLOAT, INTEGER, INTEGER
+);
+
+CREATE OR REPLACE FUNCTION search_providers_by_service(
+  p_service_ids TEXT[],
+  p_match_weights FLOAT[] DEFAULT NULL,
+  p_commune TEXT DEFAULT NULL,
+  p_region TEXT DEFAULT NULL,
+  p_min_price INTEGER DEFAULT NULL,
+  p_max_price INTEGER DEFAULT NULL,
+  p_min_rating DECIMAL DEFAULT NULL,
+  p_verified_only BOOLEAN DEFAULT FALSE,
+  p_available_today BOOLEAN DEFAULT FALSE,
+  p_urgency urgency_level DEFAULT 'normal',
+  p_search_text TEXT DEFAULT NULL,
+  p_latitude FLOAT DEFAULT NULL,
+  p_longitude FLOAT DEFAULT NULL,
+  p_max_distance_km FLOAT DEFAULT NULL,
+  p_sort_by TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+) RETURNS TABLE (
+  provider_id UUID,
+  user_name TEXT,
+  business_name TEXT,
+  avatar_url TEXT,
+  rating DECIMAL,
+  total_reviews INTEGER,
+  verification_status verification_status,
+  is_verified BOOLEAN,
+  matched_service_id TEXT,
+  hourly_rate_clp INTEGER,
+  fixed_rate_clp INTEGER,
+  response_time_hours INTEGER,
+  is_available_today BOOLEAN,
+  service_areas TEXT[],
+  latitude FLOAT,
+  longitude FLOAT,
+  distance_km FLOAT,
+  driving_distance_km FLOAT,
+  specialties TEXT[],
+  languages TEXT[],
+  certifications TEXT[],
+  total_jobs_completed INTEGER,
+  business_info JSONB,
+  portfolio_count INTEGER,
+  match_strength FLOAT,
+  relevance_score FLOAT,
+  total_count BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH requested_services AS (
+    SELECT
+      s.service_id,
+      COALESCE(p_match_weights[s.ordinality], 1.0) AS weight
+    FROM unnest(p_service_ids) WITH ORDINALITY AS s(service_id, ordinality)
+  ),
+  -- One row per provider: the strongest matching service they offer
+  best_service AS (
+    SELECT DISTINCT ON (ps.provider_id)
+      ps.provider_id,
+      ps.service_id,
+      ps.hourly_rate_clp,
+      ps.fixed_rate_clp,
+      rs.weight
+    FROM provider_services ps
+    INNER JOIN requested_services rs ON rs.service_id = ps.service_id
+    WHERE (p_min_price IS NULL OR ps.hourly_rate_clp >= p_min_price OR ps.fixed_rate_clp >= p_min_price)
+      AND (p_max_price IS NULL OR ps.hourly_rate_clp <= p_max_price OR ps.fixed_rate_clp <= p_max_price)
+      AND (p_urgency = 'normal' OR p_urgency = ANY(
+        SELECT unnest(sc.urgency_levels) FROM service_categories sc WHERE sc.id = ps.service_id
+      ))
+    ORDER BY ps.provider_id, rs.weight DESC, ps.is_primary_service DESC
+  ),
+  candidates AS (
+    SELECT
+      pp.user_id,
+      u.full_name,
+      pp.business_name,
+      u.avatar_url,
+      pp.rating,
+      pp.total_reviews,
+      pp.verification_status,
+      COALESCE(u.is_verified, FALSE) AS is_verified,
+      bs.service_id,
+      bs.hourly_rate_clp,
+      bs.fixed_rate_clp,
+      pp.response_time_hours,
+      pp.is_available_today,
+      pp.service_areas,
+      pp.coordinates[1] AS latitude,
+      pp.coordinates[0] AS longitude,
+      CASE
+        WHEN p_latitude IS NOT NULL AND p_longitude IS NOT NULL AND pp.coordinates IS NOT NULL THEN
+          calculate_distance(p_latitude, p_longitude, pp.coordinates[1], pp.coordinates[0])
+        ELSE NULL
+      END AS distance_km,
+      (p_commune = ANY(pp.service_areas) OR p_region = ANY(pp.service_areas)) IS TRUE AS serves_area,
+      pp.max_travel_distance_km,
+      pp.specialties,
+      pp.languages,
+      pp.certifications,
+      pp.total_jobs_completed,
+      JSONB_BUILD_OBJECT(
+        'rut', u.rut_number,
+        'companyName', pp.business_name,
+        'businessType', CASE WHEN pp.business_name IS NOT NULL THEN 'company' ELSE 'individual' END
+      ) AS business_info,
+      COALESCE(
+        (SELECT COUNT(*)::INTEGER FROM provider_projects ppr WHERE ppr.provider_id = pp.user_id),
+        0
+      ) AS portfolio_count,
+      bs.weight AS match_strength
+    FROM best_service bs
+    INNER JOIN provider_profiles pp ON pp.user_id = bs.provider_id
+    INNER JOIN users u ON u.id = pp.user_id
+    WHERE pp.verification_status = 'approved'
+      AND pp.is_available = TRUE
+      AND (NOT p_verified_only OR u.is_verified = TRUE)
+      AND (NOT p_available_today OR pp.is_available_today = TRUE)
+      AND (p_min_rating IS NULL OR pp.rating >= p_min_rating)
+      AND (p_search_text IS NULL OR pp.search_vector @@ plainto_tsquery('spanish', p_search_text))
+  ),
+  -- Declared service areas decide reach unless a radius is requested; providers
+  -- without coordinates still qualify for a radius search if they list the comuna.
+  within_reach AS (
+    SELECT
+      cd.*,
+      estimate_driving_distance_km(cd.distance_km) AS driving_distance_km,
+      provider_relevance_score(cd.match_strength, cd.rating, cd.is_verified, cd.response_time_hours, cd.distance_km) AS relevance
+    FROM candidates cd
+    WHERE (
+        CASE
+          WHEN p_max_distance_km IS NOT NULL AND cd.distance_km IS NOT NULL THEN
+            estimate_driving_distance_km(cd.distance_km) <= p_max_distance_km
+          WHEN p_max_distance_km IS NOT NULL THEN cd.serves_area
+          ELSE (p_commune IS NULL AND p_region IS NULL) OR cd.serves_area
+        END
+      )
+      AND (
+        cd.serves_area
+        OR cd.distance_km IS NULL
+        OR cd.max_travel_distance_km IS NULL
+        OR estimate_driving_distance_km(cd.distance_km) <= cd.max_travel_distance_km
+      )
+  )
+  SELECT
+    c.user_id,
+    c.full_name,
+    c.business_name,
+    c.avatar_url,
+    c.rating,
+    c.total_reviews,
+    c.verification_status,
+    c.is_verified,
+    c.service_id,
+    c.hourly_rate_clp,
+    c.fixed_rate_clp,
+    c.response_time_hours,
+    c.is_available_today,
+    c.service_areas,
+    c.latitude,
+    c.longitude,
+    c.distance_km,
+    c.driving_distance_km,
+    c.specialties,
+    c.languages,
+    c.certifications,
+    c.total_jobs_completed,
+    c.business_info,
+    c.portfolio_count,
+    c.match_strength,
+    c.relevance,
+    COUNT(*) OVER () AS total_count
+  FROM within_reach c
+  ORDER BY
+    CASE WHEN p_sort_by = 'distance' THEN c.driving_distance_km END ASC NULLS LAST,
+    c.relevance DESC,
+    c.total_reviews DESC,
+    c.user_id
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================================================
+-- 3. PROJECT-BASED SEARCH
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS search_providers_by_project(
+  TEXT, FLOAT, TEXT, TEXT, INTEGER, INTEGER, DECIMAL, BOOLEAN, BOOLEAN, TEXT, FLOAT, FLOAT, INTEGER, INTEGER
+);
+
+-- Match strength for projects is the share of the project's services the provider
+-- covers: required services count double, optional services count once.
+CREATE OR REPLACE FUNCTION search_providers_by_project(
+  p_project_id TEXT,
+  p_match_weight FLOAT DEFAULT 1.0,
+  p_commune TEXT DEFAULT NULL,
+  p_region TEXT DEFAULT NULL,
+  p_min_price INTEGER DEFAULT NULL,
+  p_max_price INTEGER DEFAULT NULL,
+  p_min_rating DECIMAL DEFAULT NULL,
+  p_verified_only BOOLEAN DEFAULT FALSE,
+  p_available_today BOOLEAN DEFAULT FALSE,
+  p_search_text TEXT DEFAULT NULL,
+  p_latitude FLOAT DEFAULT NULL,
+  p_longitude FLOAT DEFAULT NULL,
+  p_max_distance_km FLOAT DEFAULT NULL,
+  p_sort_by TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+) RETURNS TABLE (
+  provider_id UUID,
+  user_name TEXT,
+  business_name TEXT,
+  avatar_url TEXT,
+  rating DECIMAL,
+  total_reviews INTEGER,
+  verification_status verification_status,
+  is_verified BOOLEAN,
+  base_price_clp INTEGER,
+  can_provide_estimate BOOLEAN,
+  response_time_hours INTEGER,
+  is_available_today BOOLEAN,
+  service_areas TEXT[],
+  latitude FLOAT,
+  longitude FLOAT,
+  distance_km FLOAT,
+  driving_distance_km FLOAT,
+  specialties TEXT[],
+  languages TEXT[],
+  certifications TEXT[],
+  total_jobs_completed INTEGER,
+  portfolio_count INTEGER,
+  required_services TEXT[],
+  optional_services TEXT[],
+  matching_services_count INTEGER,
+  business_info JSONB,
+  match_strength FLOAT,
+  relevance_score FLOAT,
+  total_count BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH project_info AS (
+    SELECT
+      pt.id,
+      COALESCE(ARRAY_AGG(ps_req.service_id) FILTER (WHERE ps_req.is_required), '{}') AS required_services,
+      COALESCE(ARRAY_AGG(ps_req.service_id) FILTER (WHERE NOT ps_req.is_required), '{}') AS optional_services
+    FROM project_types pt
+    LEFT JOIN project_services ps_req ON ps_req.project_id = pt.id
+    WHERE pt.id = p_project_id
+    GROUP BY pt.id
+  ),
+  provider_matches AS (
+    SELECT
+      pp.user_id,
+      pi.required_services,
+      pi.optional_services,
+      COUNT(CASE WHEN ps.service_id = ANY(pi.required_services) THEN 1 END)::INTEGER AS required_matches,
+      COUNT(CASE WHEN ps.service_id = ANY(pi.optional_services) THEN 1 END)::INTEGER AS optional_matches,
+      COALESCE(ppr.base_price_clp, 0) AS base_price_clp,
+      COALESCE(ppr.can_provide_estimate, TRUE) AS can_provide_estimate,
+      COALESCE(ppr.portfolio_count, 0) AS portfolio_count
+    FROM provider_profiles pp
+    CROSS JOIN project_info pi
+    LEFT JOIN provider_services ps ON ps.provider_id = pp.user_id
+    LEFT JOIN provider_projects ppr ON ppr.provider_id = pp.user_id AND ppr.project_id = p_project_id
+    WHERE pp.verification_status = 'approved'
+      AND pp.is_available = TRUE
+      AND (NOT p_available_today OR pp.is_available_today = TRUE)
+      AND (p_min_rating IS NULL OR pp.rating >= p_min_rating)
+      AND (p_search_text IS NULL OR pp.search_vector @@ plainto_tsquery('spanish', p_search_text))
+    GROUP BY pp.user_id, pi.required_services, pi.optional_services, ppr.base_price_clp, ppr.can_provide_estimate, ppr.portfolio_count
+    HAVING COUNT(CASE WHEN ps.service_id = ANY(pi.required_services) THEN 1 END) >= COALESCE(array_length(pi.required_services, 1), 0)
+       AND (ppr.base_price_clp IS NOT NULL OR COUNT(ps.service_id) > 0)
+  ),
+  candidates AS (
+    SELECT
+      pm.*,
+      u.full_name,
+      pp.business_name,
+      u.avatar_url,
+      pp.rating,
+      pp.total_reviews,
+      pp.verification_status,
+      COALESCE(u.is_verified, FALSE) AS is_verified,
+      pp.response_time_hours,
+      pp.is_available_today,
+      pp.service_areas,
+      pp.coordinates[1] AS latitude,
+      pp.coordinates[0] AS longitude,
+      CASE
+        WHEN p_latitude IS NOT NULL AND p_longitude IS NOT NULL AND pp.coordinates IS NOT NULL THEN
+          calculate_distance(p_latitude, p_longitude, pp.coordinates[1], pp.coordinates[0])
+        ELSE NULL
+      END AS distance_km,
+      (p_commune = ANY(pp.service_areas) OR p_region = ANY(pp.service_areas)) IS TRUE AS serves_area,
+      pp.max_travel_distance_km,
+      pp.specialties,
+      pp.languages,
+      pp.certifications,
+      pp.total_jobs_completed,
+      JSONB_BUILD_OBJECT(
+        'rut', u.rut_number,
+        'companyName', pp.business_name,
+        'businessType', CASE WHEN pp.business_name IS NOT NULL THEN 'company' ELSE 'individual' END
+      ) AS business_info,
+      COALESCE(p_match_weight, 1.0) * CASE
+        WHEN COALESCE(array_length(pm.required_services, 1), 0) + COALESCE(array_length(pm.optional_services, 1), 0) = 0 THEN 1.0
+        ELSE (2 * pm.required_matches + pm.optional_matches)::FLOAT /
+             (2 * COALESCE(array_length(pm.required_services, 1), 0) + COALESCE(array_length(pm.optional_services, 1), 0))
+      END AS match_strength
+    FROM provider_matches pm
+    INNER JOIN provider_profiles pp ON pp.user_id = pm.user_id
+    INNER JOIN users u ON u.id = pm.user_id
+    WHERE (NOT p_verified_only OR u.is_verified = TRUE)
+      AND (p_min_price IS NULL OR pm.base_price_clp >= p_min_price)
+      AND (p_max_price IS NULL OR pm.base_price_clp <= p_max_price)
+  ),
+  -- Declared service areas decide reach unless a radius is requested; providers
+  -- without coordinates still qualify for a radius search if they list the comuna.
+  within_reach AS (
+    SELECT
+      cd.*,
+      estimate_driving_distance_km(cd.distance_km) AS driving_distance_km,
+      provider_relevance_score(cd.match_strength, cd.rating, cd.is_verified, cd.response_time_hours, cd.distance_km) AS relevance
+    FROM candidates cd
+    WHERE (
+        CASE
+          WHEN p_max_distance_km IS NOT NULL AND cd.distance_km IS NOT NULL THEN
+            estimate_driving_distance_km(cd.distance_km) <= p_max_distance_km
+          WHEN p_max_distance_km IS NOT NULL THEN cd.serves_area
+          ELSE (p_commune IS NULL AND p_region IS NULL) OR cd.serves_area
+        END
+      )
+      AND (
+        cd.serves_area
+        OR cd.distance_km IS NULL
+        OR cd.max_travel_distance_km IS NULL
+        OR estimate_driving_distance_km(cd.distance_km) <= cd.max_travel_distance_km
+      )
+  )
+  SELECT
+    c.user_id,
+    c.full_name,
+    c.business_name,
+    c.avatar_url,
+    c.rating,
+    c.total_reviews,
+    c.verification_status,
+    c.is_verified,
+    c.base_price_clp,
+    c.can_provide_estimate,
+    c.response_time_hours,
+    c.is_available_today,
+    c.service_areas,
+    c.latitude,
+    c.longitude,
+    c.distance_km,
+    c.driving_distance_km,
+    c.specialties,
+    c.languages,
+    c.certifications,
+    c.total_jobs_completed,
+    c.portfolio_count,
+    c.required_services,
+    c.optional_services,
+    c.required_matches + c.optional_matches,
+    c.business_info,
+    c.match_strength,
+    c.relevance,
+    COUNT(*) OVER () AS total_count
+  FROM within_reach c
+  ORDER BY
+    CASE WHEN p_sort_by = 'distance' THEN c.driving_distance_km END ASC NULLS LAST,
+    c.relevance DESC,
+    c.portfolio_count DESC,
+    c.user_id
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION estimate_driving_distance_km(FLOAT) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION search_providers_by_service TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION search_providers_by_project TO authenticated, anon;
+
+-- ============================================================================
+-- 4. COMMENTS
+-- ============================================================================
+
+COMMENT ON FUNCTION estimate_driving_distance_km(FLOAT) IS
+  'Estimated (not routed) road distance: great-circle km x 1.3, rounded to 0.1 km';
+COMMENT ON FUNCTION search_providers_by_service IS
+  'Ranked service search with optional estimated driving-distance radius and distance sort; true total_count for pagination';
+COMMENT ON FUNCTION search_providers_by_project IS
+  'Ranked project search with optional estimated driving-distance radius and distance sort; true total_count for pagination';
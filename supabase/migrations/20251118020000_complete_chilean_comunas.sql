@@ -0,0 +1,404 @@
+-- Complete Chilean Comuna Dataset
+-- November 18, 2025
+--
+-- 010_marketplace_optimization.sql only seeded the 32 comunas of Santiago province.
+-- This migration loads all 346 comunas (INE/CUT codes) with their province code,
+-- main-town coordinates and common alternate names, mirroring CHILEAN_COMUNAS in
+-- src/utils/chilean/addressData.ts so addresses, search and pricing agree.
+
+-- ============================================================================
+-- 1. SCHEMA
+-- ============================================================================
+
+ALTER TABLE chilean_comunas ADD COLUMN IF NOT EXISTS province_code TEXT;
+ALTER TABLE chilean_comunas ADD COLUMN IF NOT EXISTS latitude FLOAT;
+ALTER TABLE chilean_comunas ADD COLUMN IF NOT EXISTS longitude FLOAT;
+ALTER TABLE chilean_comunas ADD COLUMN IF NOT EXISTS aliases TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_chilean_comunas_region ON chilean_comunas(region_id);
+CREATE INDEX IF NOT EXISTS idx_chilean_comunas_name ON chilean_comunas(LOWER(name));
+
+-- ============================================================================
+-- 2. DATA
+-- ============================================================================
+
+INSERT INTO chilean_comunas (id, name, region_id, province, province_code, latitude, longitude, aliases) VALUES
+  -- Region 15
+  (15101, 'Arica', 15, 'Arica', '151', -18.4783, -70.3126, '{}'),
+  (15102, 'Camarones', 15, 'Arica', '151', -19.0167, -69.8667, '{}'),
+  (15201, 'Putre', 15, 'Parinacota', '152', -18.1975, -69.5597, '{}'),
+  (15202, 'General Lagos', 15, 'Parinacota', '152', -17.5950, -69.4772, ARRAY['Visviri']),
+  -- Region 1
+  (1101, 'Iquique', 1, 'Iquique', '011', -20.2133, -70.1503, '{}'),
+  (1107, 'Alto Hospicio', 1, 'Iquique', '011', -20.2690, -70.1010, '{}'),
+  (1401, 'Pozo Almonte', 1, 'Tamarugal', '014', -20.2560, -69.7860, '{}'),
+  (1402, 'Camiña', 1, 'Tamarugal', '014', -19.3120, -69.4270, '{}'),
+  (1403, 'Colchane', 1, 'Tamarugal', '014', -19.2760, -68.6380, '{}'),
+  (1404, 'Huara', 1, 'Tamarugal', '014', -19.9960, -69.7710, '{}'),
+  (1405, 'Pica', 1, 'Tamarugal', '014', -20.4900, -69.3290, '{}'),
+  -- Region 2
+  (2101, 'Antofagasta', 2, 'Antofagasta', '021', -23.6509, -70.3975, '{}'),
+  (2102, 'Mejillones', 2, 'Antofagasta', '021', -23.1000, -70.4500, '{}'),
+  (2103, 'Sierra Gorda', 2, 'Antofagasta', '021', -22.8920, -69.3210, '{}'),
+  (2104, 'Taltal', 2, 'Antofagasta', '021', -25.4050, -70.4850, '{}'),
+  (2201, 'Calama', 2, 'El Loa', '022', -22.4560, -68.9290, '{}'),
+  (2202, 'Ollagüe', 2, 'El Loa', '022', -21.2240, -68.2530, '{}'),
+  (2203, 'San Pedro de Atacama', 2, 'El Loa', '022', -22.9110, -68.2000, '{}'),
+  (2301, 'Tocopilla', 2, 'Tocopilla', '023', -22.0920, -70.1980, '{}'),
+  (2302, 'María Elena', 2, 'Tocopilla', '023', -22.3450, -69.6650, '{}'),
+  -- Region 3
+  (3101, 'Copiapó', 3, 'Copiapó', '031', -27.3668, -70.3322, '{}'),
+  (3102, 'Caldera', 3, 'Copiapó', '031', -27.0670, -70.8180, '{}'),
+  (3103, 'Tierra Amarilla', 3, 'Copiapó', '031', -27.4830, -70.2660, '{}'),
+  (3201, 'Chañaral', 3, 'Chañaral', '032', -26.3470, -70.6220, '{}'),
+  (3202, 'Diego de Almagro', 3, 'Chañaral', '032', -26.3690, -70.0490, '{}'),
+  (3301, 'Vallenar', 3, 'Huasco', '033', -28.5760, -70.7590, '{}'),
+  (3302, 'Alto del Carmen', 3, 'Huasco', '033', -28.7530, -70.4880, '{}'),
+  (3303, 'Freirina', 3, 'Huasco', '033', -28.5060, -71.0730, '{}'),
+  (3304, 'Huasco', 3, 'Huasco', '033', -28.4660, -71.2200, '{}'),
+  -- Region 4
+  (4101, 'La Serena', 4, 'Elqui', '041', -29.9027, -71.2520, '{}'),
+  (4102, 'Coquimbo', 4, 'Elqui', '041', -29.9533, -71.3436, '{}'),
+  (4103, 'Andacollo', 4, 'Elqui', '041', -30.2330, -71.0830, '{}'),
+  (4104, 'La Higuera', 4, 'Elqui', '041', -29.4930, -71.2650, '{}'),
+  (4105, 'Paiguano', 4, 'Elqui', '041', -30.0300, -70.5200, ARRAY['Paihuano']),
+  (4106, 'Vicuña', 4, 'Elqui', '041', -30.0320, -70.7080, '{}'),
+  (4201, 'Illapel', 4, 'Choapa', '042', -31.6330, -71.1690, '{}'),
+  (4202, 'Canela', 4, 'Choapa', '042', -31.3960, -71.4570, '{}'),
+  (4203, 'Los Vilos', 4, 'Choapa', '042', -31.9110, -71.5100, '{}'),
+  (4204, 'Salamanca', 4, 'Choapa', '042', -31.7790, -70.9630, '{}'),
+  (4301, 'Ovalle', 4, 'Limarí', '043', -30.6030, -71.2000, '{}'),
+  (4302, 'Combarbalá', 4, 'Limarí', '043', -31.1780, -71.0030, '{}'),
+  (4303, 'Monte Patria', 4, 'Limarí', '043', -30.6940, -70.9560, '{}'),
+  (4304, 'Punitaqui', 4, 'Limarí', '043', -30.8330, -71.2560, '{}'),
+  (4305, 'Río Hurtado', 4, 'Limarí', '043', -30.4130, -70.9280, ARRAY['Samo Alto']),
+  -- Region 5
+  (5101, 'Valparaíso', 5, 'Valparaíso', '051', -33.0472, -71.6127, ARRAY['Valpo']),
+  (5102, 'Casablanca', 5, 'Valparaíso', '051', -33.3190, -71.4080, '{}'),
+  (5103, 'Concón', 5, 'Valparaíso', '051', -32.9230, -71.5180, '{}'),
+  (5104, 'Juan Fernández', 5, 'Valparaíso', '051', -33.6390, -78.8330, ARRAY['Robinson Crusoe']),
+  (5105, 'Puchuncaví', 5, 'Valparaíso', '051', -32.7260, -71.4150, '{}'),
+  (5107, 'Quintero', 5, 'Valparaíso', '051', -32.7830, -71.5300, '{}'),
+  (5109, 'Viña del Mar', 5, 'Valparaíso', '051', -33.0245, -71.5518, ARRAY['Viña']),
+  (5201, 'Isla de Pascua', 5, 'Isla de Pascua', '052', -27.1500, -109.4333, ARRAY['Rapa Nui', 'Hanga Roa']),
+  (5301, 'Los Andes', 5, 'Los Andes', '053', -32.8337, -70.5983, '{}'),
+  (5302, 'Calle Larga', 5, 'Los Andes', '053', -32.8600, -70.6300, '{}'),
+  (5303, 'Rinconada', 5, 'Los Andes', '053', -32.8380, -70.7080, '{}'),
+  (5304, 'San Esteban', 5, 'Los Andes', '053', -32.8000, -70.5800, '{}'),
+  (5401, 'La Ligua', 5, 'Petorca', '054', -32.4524, -71.2311, '{}'),
+  (5402, 'Cabildo', 5, 'Petorca', '054', -32.4270, -71.0660, '{}'),
+  (5403, 'Papudo', 5, 'Petorca', '054', -32.5070, -71.4490, '{}'),
+  (5404, 'Petorca', 5, 'Petorca', '054', -32.2520, -70.9340, '{}'),
+  (5405, 'Zapallar', 5, 'Petorca', '054', -32.5530, -71.4580, '{}'),
+  (5501, 'Quillota', 5, 'Quillota', '055', -32.8794, -71.2489, '{}'),
+  (5502, 'Calera', 5, 'Quillota', '055', -32.7880, -71.1890, ARRAY['La Calera']),
+  (5503, 'Hijuelas', 5, 'Quillota', '055', -32.8000, -71.1440, '{}'),
+  (5504, 'La Cruz', 5, 'Quillota', '055', -32.8260, -71.2290, '{}'),
+  (5506, 'Nogales', 5, 'Quillota', '055', -32.7350, -71.2040, '{}'),
+  (5601, 'San Antonio', 5, 'San Antonio', '056', -33.5933, -71.6127, '{}'),
+  (5602, 'Algarrobo', 5, 'San Antonio', '056', -33.3630, -71.6700, '{}'),
+  (5603, 'Cartagena', 5, 'San Antonio', '056', -33.5530, -71.6060, '{}'),
+  (5604, 'El Quisco', 5, 'San Antonio', '056', -33.3970, -71.6970, '{}'),
+  (5605, 'El Tabo', 5, 'San Antonio', '056', -33.4550, -71.6670, '{}'),
+  (5606, 'Santo Domingo', 5, 'San Antonio', '056', -33.6350, -71.6290, '{}'),
+  (5701, 'San Felipe', 5, 'San Felipe de Aconcagua', '057', -32.7507, -70.7254, '{}'),
+  (5702, 'Catemu', 5, 'San Felipe de Aconcagua', '057', -32.7790, -70.9590, '{}'),
+  (5703, 'Llaillay', 5, 'San Felipe de Aconcagua', '057', -32.8410, -70.9560, ARRAY['Llay-Llay']),
+  (5704, 'Panquehue', 5, 'San Felipe de Aconcagua', '057', -32.8080, -70.8410, '{}'),
+  (5705, 'Putaendo', 5, 'San Felipe de Aconcagua', '057', -32.6270, -70.7170, '{}'),
+  (5706, 'Santa María', 5, 'San Felipe de Aconcagua', '057', -32.7470, -70.6590, '{}'),
+  (5801, 'Quilpué', 5, 'Marga Marga', '058', -33.0472, -71.4425, '{}'),
+  (5802, 'Limache', 5, 'Marga Marga', '058', -33.0170, -71.2670, '{}'),
+  (5803, 'Olmué', 5, 'Marga Marga', '058', -33.0000, -71.1870, '{}'),
+  (5804, 'Villa Alemana', 5, 'Marga Marga', '058', -33.0420, -71.3730, '{}'),
+  -- Region 13
+  (13101, 'Santiago', 13, 'Santiago', '131', -33.4378, -70.6505, ARRAY['Santiago Centro', 'Stgo']),
+  (13102, 'Cerrillos', 13, 'Santiago', '131', -33.4970, -70.7110, '{}'),
+  (13103, 'Cerro Navia', 13, 'Santiago', '131', -33.4250, -70.7440, '{}'),
+  (13104, 'Conchalí', 13, 'Santiago', '131', -33.3840, -70.6750, '{}'),
+  (13105, 'El Bosque', 13, 'Santiago', '131', -33.5620, -70.6760, '{}'),
+  (13106, 'Estación Central', 13, 'Santiago', '131', -33.4590, -70.6990, ARRAY['Est. Central']),
+  (13107, 'Huechuraba', 13, 'Santiago', '131', -33.3670, -70.6360, '{}'),
+  (13108, 'Independencia', 13, 'Santiago', '131', -33.4160, -70.6650, '{}'),
+  (13109, 'La Cisterna', 13, 'Santiago', '131', -33.5290, -70.6640, '{}'),
+  (13110, 'La Florida', 13, 'Santiago', '131', -33.5220, -70.5980, '{}'),
+  (13111, 'La Granja', 13, 'Santiago', '131', -33.5390, -70.6270, '{}'),
+  (13112, 'La Pintana', 13, 'Santiago', '131', -33.5830, -70.6340, '{}'),
+  (13113, 'La Reina', 13, 'Santiago', '131', -33.4450, -70.5350, '{}'),
+  (13114, 'Las Condes', 13, 'Santiago', '131', -33.4080, -70.5670, '{}'),
+  (13115, 'Lo Barnechea', 13, 'Santiago', '131', -33.3520, -70.5180, '{}'),
+  (13116, 'Lo Espejo', 13, 'Santiago', '131', -33.5200, -70.6890, '{}'),
+  (13117, 'Lo Prado', 13, 'Santiago', '131', -33.4440, -70.7250, '{}'),
+  (13118, 'Macul', 13, 'Santiago', '131', -33.4910, -70.5990, '{}'),
+  (13119, 'Maipú', 13, 'Santiago', '131', -33.5110, -70.7580, '{}'),
+  (13120, 'Ñuñoa', 13, 'Santiago', '131', -33.4560, -70.5970, '{}'),
+  (13121, 'Pedro Aguirre Cerda', 13, 'Santiago', '131', -33.4920, -70.6730, ARRAY['PAC']),
+  (13122, 'Peñalolén', 13, 'Santiago', '131', -33.4860, -70.5440, '{}'),
+  (13123, 'Providencia', 13, 'Santiago', '131', -33.4330, -70.6150, '{}'),
+  (13124, 'Pudahuel', 13, 'Santiago', '131', -33.4400, -70.7640, '{}'),
+  (13125, 'Quilicura', 13, 'Santiago', '131', -33.3600, -70.7280, '{}'),
+  (13126, 'Quinta Normal', 13, 'Santiago', '131', -33.4280, -70.6990, '{}'),
+  (13127, 'Recoleta', 13, 'Santiago', '131', -33.4060, -70.6400, '{}'),
+  (13128, 'Renca', 13, 'Santiago', '131', -33.4060, -70.7280, '{}'),
+  (13129, 'San Joaquín', 13, 'Santiago', '131', -33.4960, -70.6280, '{}'),
+  (13130, 'San Miguel', 13, 'Santiago', '131', -33.4970, -70.6510, '{}'),
+  (13131, 'San Ramón', 13, 'Santiago', '131', -33.5360, -70.6420, '{}'),
+  (13132, 'Vitacura', 13, 'Santiago', '131', -33.3900, -70.5730, '{}'),
+  (13201, 'Puente Alto', 13, 'Cordillera', '132', -33.6110, -70.5750, '{}'),
+  (13202, 'Pirque', 13, 'Cordillera', '132', -33.6380, -70.5740, '{}'),
+  (13203, 'San José de Maipo', 13, 'Cordillera', '132', -33.6420, -70.3520, ARRAY['Cajón del Maipo']),
+  (13301, 'Colina', 13, 'Chacabuco', '133', -33.2010, -70.6750, '{}'),
+  (13302, 'Lampa', 13, 'Chacabuco', '133', -33.2860, -70.8780, '{}'),
+  (13303, 'Tiltil', 13, 'Chacabuco', '133', -33.0830, -70.9270, ARRAY['Til Til']),
+  (13401, 'San Bernardo', 13, 'Maipo', '134', -33.5920, -70.7000, '{}'),
+  (13402, 'Buin', 13, 'Maipo', '134', -33.7320, -70.7430, '{}'),
+  (13403, 'Calera de Tango', 13, 'Maipo', '134', -33.6300, -70.7800, '{}'),
+  (13404, 'Paine', 13, 'Maipo', '134', -33.8080, -70.7410, '{}'),
+  (13501, 'Melipilla', 13, 'Melipilla', '135', -33.6890, -71.2150, '{}'),
+  (13502, 'Alhué', 13, 'Melipilla', '135', -34.0370, -71.0970, '{}'),
+  (13503, 'Curacaví', 13, 'Melipilla', '135', -33.4030, -71.1330, '{}'),
+  (13504, 'María Pinto', 13, 'Melipilla', '135', -33.5150, -71.1210, '{}'),
+  (13505, 'San Pedro', 13, 'Melipilla', '135', -33.8950, -71.4620, '{}'),
+  (13601, 'Talagante', 13, 'Talagante', '136', -33.6640, -70.9280, '{}'),
+  (13602, 'El Monte', 13, 'Talagante', '136', -33.6800, -71.0170, '{}'),
+  (13603, 'Isla de Maipo', 13, 'Talagante', '136', -33.7530, -70.8990, '{}'),
+  (13604, 'Padre Hurtado', 13, 'Talagante', '136', -33.5680, -70.8120, '{}'),
+  (13605, 'Peñaflor', 13, 'Talagante', '136', -33.6060, -70.8760, '{}'),
+  -- Region 6
+  (6101, 'Rancagua', 6, 'Cachapoal', '061', -34.1708, -70.7398, '{}'),
+  (6102, 'Codegua', 6, 'Cachapoal', '061', -34.0360, -70.6680, '{}'),
+  (6103, 'Coinco', 6, 'Cachapoal', '061', -34.2920, -70.9710, '{}'),
+  (6104, 'Coltauco', 6, 'Cachapoal', '061', -34.2870, -71.0850, '{}'),
+  (6105, 'Doñihue', 6, 'Cachapoal', '061', -34.2260, -70.9650, '{}'),
+  (6106, 'Graneros', 6, 'Cachapoal', '061', -34.0650, -70.7270, '{}'),
+  (6107, 'Las Cabras', 6, 'Cachapoal', '061', -34.2930, -71.3090, '{}'),
+  (6108, 'Machalí', 6, 'Cachapoal', '061', -34.1800, -70.6510, '{}'),
+  (6109, 'Malloa', 6, 'Cachapoal', '061', -34.4460, -70.9440, '{}'),
+  (6110, 'Mostazal', 6, 'Cachapoal', '061', -33.9770, -70.7020, ARRAY['San Francisco de Mostazal']),
+  (6111, 'Olivar', 6, 'Cachapoal', '061', -34.2100, -70.8230, '{}'),
+  (6112, 'Peumo', 6, 'Cachapoal', '061', -34.3800, -71.1700, '{}'),
+  (6113, 'Pichidegua', 6, 'Cachapoal', '061', -34.3580, -71.2830, '{}'),
+  (6114, 'Quinta de Tilcoco', 6, 'Cachapoal', '061', -34.3520, -70.9600, '{}'),
+  (6115, 'Rengo', 6, 'Cachapoal', '061', -34.4020, -70.8570, '{}'),
+  (6116, 'Requínoa', 6, 'Cachapoal', '061', -34.2860, -70.8140, '{}'),
+  (6117, 'San Vicente', 6, 'Cachapoal', '061', -34.4380, -71.0780, ARRAY['San Vicente de Tagua Tagua']),
+  (6201, 'Pichilemu', 6, 'Cardenal Caro', '062', -34.3870, -72.0030, '{}'),
+  (6202, 'La Estrella', 6, 'Cardenal Caro', '062', -34.2020, -71.6070, '{}'),
+  (6203, 'Litueche', 6, 'Cardenal Caro', '062', -34.1100, -71.7240, '{}'),
+  (6204, 'Marchihue', 6, 'Cardenal Caro', '062', -34.3970, -71.6140, ARRAY['Marchigüe']),
+  (6205, 'Navidad', 6, 'Cardenal Caro', '062', -33.9570, -71.8340, '{}'),
+  (6206, 'Paredones', 6, 'Cardenal Caro', '062', -34.6470, -71.8980, '{}'),
+  (6301, 'San Fernando', 6, 'Colchagua', '063', -34.5840, -70.9890, '{}'),
+  (6302, 'Chépica', 6, 'Colchagua', '063', -34.7310, -71.2700, '{}'),
+  (6303, 'Chimbarongo', 6, 'Colchagua', '063', -34.7120, -71.0430, '{}'),
+  (6304, 'Lolol', 6, 'Colchagua', '063', -34.7290, -71.6450, '{}'),
+  (6305, 'Nancagua', 6, 'Colchagua', '063', -34.6620, -71.1760, '{}'),
+  (6306, 'Palmilla', 6, 'Colchagua', '063', -34.6030, -71.3580, '{}'),
+  (6307, 'Peralillo', 6, 'Colchagua', '063', -34.4770, -71.4920, '{}'),
+  (6308, 'Placilla', 6, 'Colchagua', '063', -34.6160, -71.1150, '{}'),
+  (6309, 'Pumanque', 6, 'Colchagua', '063', -34.6070, -71.6660, '{}'),
+  (6310, 'Santa Cruz', 6, 'Colchagua', '063', -34.6390, -71.3650, '{}'),
+  -- Region 7
+  (7101, 'Talca', 7, 'Talca', '071', -35.4264, -71.6554, '{}'),
+  (7102, 'Constitución', 7, 'Talca', '071', -35.3330, -72.4170, '{}'),
+  (7103, 'Curepto', 7, 'Talca', '071', -35.0910, -72.0210, '{}'),
+  (7104, 'Empedrado', 7, 'Talca', '071', -35.6000, -72.2830, '{}'),
+  (7105, 'Maule', 7, 'Talca', '071', -35.5320, -71.7050, '{}'),
+  (7106, 'Pelarco', 7, 'Talca', '071', -35.3710, -71.4500, '{}'),
+  (7107, 'Pencahue', 7, 'Talca', '071', -35.4040, -71.8280, '{}'),
+  (7108, 'Río Claro', 7, 'Talca', '071', -35.2820, -71.2660, ARRAY['Cumpeo']),
+  (7109, 'San Clemente', 7, 'Talca', '071', -35.5500, -71.4860, '{}'),
+  (7110, 'San Rafael', 7, 'Talca', '071', -35.3110, -71.5250, '{}'),
+  (7201, 'Cauquenes', 7, 'Cauquenes', '072', -35.9670, -72.3220, '{}'),
+  (7202, 'Chanco', 7, 'Cauquenes', '072', -35.7330, -72.5330, '{}'),
+  (7203, 'Pelluhue', 7, 'Cauquenes', '072', -35.8140, -72.5720, ARRAY['Curanipe']),
+  (7301, 'Curicó', 7, 'Curicó', '073', -34.9828, -71.2394, '{}'),
+  (7302, 'Hualañé', 7, 'Curicó', '073', -34.9770, -71.8050, '{}'),
+  (7303, 'Licantén', 7, 'Curicó', '073', -34.9840, -72.0010, '{}'),
+  (7304, 'Molina', 7, 'Curicó', '073', -35.1140, -71.2820, '{}'),
+  (7305, 'Rauco', 7, 'Curicó', '073', -34.9290, -71.3180, '{}'),
+  (7306, 'Romeral', 7, 'Curicó', '073', -34.9620, -71.1250, '{}'),
+  (7307, 'Sagrada Familia', 7, 'Curicó', '073', -35.0000, -71.3830, '{}'),
+  (7308, 'Teno', 7, 'Curicó', '073', -34.8700, -71.1620, '{}'),
+  (7309, 'Vichuquén', 7, 'Curicó', '073', -34.8600, -72.0080, '{}'),
+  (7401, 'Linares', 7, 'Linares', '074', -35.8460, -71.5930, '{}'),
+  (7402, 'Colbún', 7, 'Linares', '074', -35.6950, -71.4060, '{}'),
+  (7403, 'Longaví', 7, 'Linares', '074', -35.9650, -71.6830, '{}'),
+  (7404, 'Parral', 7, 'Linares', '074', -36.1430, -71.8260, '{}'),
+  (7405, 'Retiro', 7, 'Linares', '074', -36.0450, -71.7590, '{}'),
+  (7406, 'San Javier', 7, 'Linares', '074', -35.5950, -71.7290, ARRAY['San Javier de Loncomilla']),
+  (7407, 'Villa Alegre', 7, 'Linares', '074', -35.6860, -71.7500, '{}'),
+  (7408, 'Yerbas Buenas', 7, 'Linares', '074', -35.7500, -71.5830, '{}'),
+  -- Region 16
+  (16101, 'Chillán', 16, 'Diguillín', '161', -36.6066, -72.1034, '{}'),
+  (16102, 'Bulnes', 16, 'Diguillín', '161', -36.7420, -72.3010, '{}'),
+  (16103, 'Chillán Viejo', 16, 'Diguillín', '161', -36.6230, -72.1320, '{}'),
+  (16104, 'El Carmen', 16, 'Diguillín', '161', -36.9000, -72.0330, '{}'),
+  (16105, 'Pemuco', 16, 'Diguillín', '161', -36.9770, -72.1000, '{}'),
+  (16106, 'Pinto', 16, 'Diguillín', '161', -36.6980, -71.8930, '{}'),
+  (16107, 'Quillón', 16, 'Diguillín', '161', -36.7380, -72.4700, '{}'),
+  (16108, 'San Ignacio', 16, 'Diguillín', '161', -36.8180, -71.9880, '{}'),
+  (16109, 'Yungay', 16, 'Diguillín', '161', -37.1210, -72.0130, '{}'),
+  (16201, 'Quirihue', 16, 'Itata', '162', -36.2800, -72.5410, '{}'),
+  (16202, 'Cobquecura', 16, 'Itata', '162', -36.1320, -72.7910, '{}'),
+  (16203, 'Coelemu', 16, 'Itata', '162', -36.4870, -72.7020, '{}'),
+  (16204, 'Ninhue', 16, 'Itata', '162', -36.4010, -72.3970, '{}'),
+  (16205, 'Portezuelo', 16, 'Itata', '162', -36.5290, -72.4330, '{}'),
+  (16206, 'Ránquil', 16, 'Itata', '162', -36.6480, -72.5530, ARRAY['Ñipas']),
+  (16207, 'Treguaco', 16, 'Itata', '162', -36.4280, -72.6660, '{}'),
+  (16301, 'San Carlos', 16, 'Punilla', '163', -36.4240, -71.9580, '{}'),
+  (16302, 'Coihueco', 16, 'Punilla', '163', -36.6170, -71.8330, '{}'),
+  (16303, 'Ñiquén', 16, 'Punilla', '163', -36.2850, -71.8990, '{}'),
+  (16304, 'San Fabián', 16, 'Punilla', '163', -36.5540, -71.5490, ARRAY['San Fabián de Alico']),
+  (16305, 'San Nicolás', 16, 'Punilla', '163', -36.4990, -72.2120, '{}'),
+  -- Region 8
+  (8101, 'Concepción', 8, 'Concepción', '081', -36.8270, -73.0498, ARRAY['Conce']),
+  (8102, 'Coronel', 8, 'Concepción', '081', -37.0170, -73.1500, '{}'),
+  (8103, 'Chiguayante', 8, 'Concepción', '081', -36.9250, -73.0280, '{}'),
+  (8104, 'Florida', 8, 'Concepción', '081', -36.8210, -72.6620, '{}'),
+  (8105, 'Hualqui', 8, 'Concepción', '081', -36.9750, -72.9370, '{}'),
+  (8106, 'Lota', 8, 'Concepción', '081', -37.0890, -73.1570, '{}'),
+  (8107, 'Penco', 8, 'Concepción', '081', -36.7400, -72.9960, '{}'),
+  (8108, 'San Pedro de la Paz', 8, 'Concepción', '081', -36.8430, -73.1080, '{}'),
+  (8109, 'Santa Juana', 8, 'Concepción', '081', -37.1730, -72.9360, '{}'),
+  (8110, 'Talcahuano', 8, 'Concepción', '081', -36.7249, -73.1168, '{}'),
+  (8111, 'Tomé', 8, 'Concepción', '081', -36.6170, -72.9580, '{}'),
+  (8112, 'Hualpén', 8, 'Concepción', '081', -36.7870, -73.0950, '{}'),
+  (8201, 'Lebu', 8, 'Arauco', '082', -37.6080, -73.6500, '{}'),
+  (8202, 'Arauco', 8, 'Arauco', '082', -37.2460, -73.3180, '{}'),
+  (8203, 'Cañete', 8, 'Arauco', '082', -37.8010, -73.3960, '{}'),
+  (8204, 'Contulmo', 8, 'Arauco', '082', -38.0130, -73.2290, '{}'),
+  (8205, 'Curanilahue', 8, 'Arauco', '082', -37.4770, -73.3480, '{}'),
+  (8206, 'Los Álamos', 8, 'Arauco', '082', -37.6280, -73.4640, '{}'),
+  (8207, 'Tirúa', 8, 'Arauco', '082', -38.3420, -73.4990, '{}'),
+  (8301, 'Los Ángeles', 8, 'Biobío', '083', -37.4690, -72.3540, '{}'),
+  (8302, 'Antuco', 8, 'Biobío', '083', -37.3270, -71.6770, '{}'),
+  (8303, 'Cabrero', 8, 'Biobío', '083', -37.0340, -72.4050, '{}'),
+  (8304, 'Laja', 8, 'Biobío', '083', -37.2840, -72.7160, '{}'),
+  (8305, 'Mulchén', 8, 'Biobío', '083', -37.7190, -72.2410, '{}'),
+  (8306, 'Nacimiento', 8, 'Biobío', '083', -37.5020, -72.6730, '{}'),
+  (8307, 'Negrete', 8, 'Biobío', '083', -37.5860, -72.5310, '{}'),
+  (8308, 'Quilaco', 8, 'Biobío', '083', -37.6800, -71.9990, '{}'),
+  (8309, 'Quilleco', 8, 'Biobío', '083', -37.4690, -71.9660, '{}'),
+  (8310, 'San Rosendo', 8, 'Biobío', '083', -37.2640, -72.7240, '{}'),
+  (8311, 'Santa Bárbara', 8, 'Biobío', '083', -37.6630, -72.0210, '{}'),
+  (8312, 'Tucapel', 8, 'Biobío', '083', -37.2330, -71.9500, ARRAY['Huépil']),
+  (8313, 'Yumbel', 8, 'Biobío', '083', -37.0980, -72.5610, '{}'),
+  (8314, 'Alto Biobío', 8, 'Biobío', '083', -37.9820, -71.6100, ARRAY['Ralco']),
+  -- Region 9
+  (9101, 'Temuco', 9, 'Cautín', '091', -38.7359, -72.5904, '{}'),
+  (9102, 'Carahue', 9, 'Cautín', '091', -38.7110, -73.1640, '{}'),
+  (9103, 'Cunco', 9, 'Cautín', '091', -38.9310, -72.0260, '{}'),
+  (9104, 'Curarrehue', 9, 'Cautín', '091', -39.3590, -71.5880, '{}'),
+  (9105, 'Freire', 9, 'Cautín', '091', -38.9530, -72.6220, '{}'),
+  (9106, 'Galvarino', 9, 'Cautín', '091', -38.4080, -72.7800, '{}'),
+  (9107, 'Gorbea', 9, 'Cautín', '091', -39.1000, -72.6720, '{}'),
+  (9108, 'Lautaro', 9, 'Cautín', '091', -38.5300, -72.4360, '{}'),
+  (9109, 'Loncoche', 9, 'Cautín', '091', -39.3670, -72.6310, '{}'),
+  (9110, 'Melipeuco', 9, 'Cautín', '091', -38.8490, -71.6920, '{}'),
+  (9111, 'Nueva Imperial', 9, 'Cautín', '091', -38.7450, -72.9500, '{}'),
+  (9112, 'Padre Las Casas', 9, 'Cautín', '091', -38.7660, -72.5970, '{}'),
+  (9113, 'Perquenco', 9, 'Cautín', '091', -38.4150, -72.3750, '{}'),
+  (9114, 'Pitrufquén', 9, 'Cautín', '091', -38.9860, -72.6430, '{}'),
+  (9115, 'Pucón', 9, 'Cautín', '091', -39.2820, -71.9540, '{}'),
+  (9116, 'Saavedra', 9, 'Cautín', '091', -38.7840, -73.3960, ARRAY['Puerto Saavedra']),
+  (9117, 'Teodoro Schmidt', 9, 'Cautín', '091', -38.9950, -73.0920, '{}'),
+  (9118, 'Toltén', 9, 'Cautín', '091', -39.2060, -73.2170, '{}'),
+  (9119, 'Vilcún', 9, 'Cautín', '091', -38.6690, -72.2240, '{}'),
+  (9120, 'Villarrica', 9, 'Cautín', '091', -39.2800, -72.2270, '{}'),
+  (9121, 'Cholchol', 9, 'Cautín', '091', -38.5980, -72.8450, ARRAY['Chol Chol']),
+  (9201, 'Angol', 9, 'Malleco', '092', -37.7950, -72.7160, '{}'),
+  (9202, 'Collipulli', 9, 'Malleco', '092', -37.9550, -72.4330, '{}'),
+  (9203, 'Curacautín', 9, 'Malleco', '092', -38.4390, -71.8890, '{}'),
+  (9204, 'Ercilla', 9, 'Malleco', '092', -38.0590, -72.3580, '{}'),
+  (9205, 'Lonquimay', 9, 'Malleco', '092', -38.4500, -71.3740, '{}'),
+  (9206, 'Los Sauces', 9, 'Malleco', '092', -37.9750, -72.8290, '{}'),
+  (9207, 'Lumaco', 9, 'Malleco', '092', -38.1640, -72.8920, '{}'),
+  (9208, 'Purén', 9, 'Malleco', '092', -38.0320, -73.0720, '{}'),
+  (9209, 'Renaico', 9, 'Malleco', '092', -37.6660, -72.5870, '{}'),
+  (9210, 'Traiguén', 9, 'Malleco', '092', -38.2500, -72.6650, '{}'),
+  (9211, 'Victoria', 9, 'Malleco', '092', -38.2330, -72.3330, '{}'),
+  -- Region 14
+  (14101, 'Valdivia', 14, 'Valdivia', '141', -39.8142, -73.2459, '{}'),
+  (14102, 'Corral', 14, 'Valdivia', '141', -39.8870, -73.4310, '{}'),
+  (14103, 'Lanco', 14, 'Valdivia', '141', -39.4520, -72.7750, '{}'),
+  (14104, 'Los Lagos', 14, 'Valdivia', '141', -39.8500, -72.8330, '{}'),
+  (14105, 'Máfil', 14, 'Valdivia', '141', -39.6650, -72.9570, '{}'),
+  (14106, 'Mariquina', 14, 'Valdivia', '141', -39.5400, -72.9620, ARRAY['San José de la Mariquina']),
+  (14107, 'Paillaco', 14, 'Valdivia', '141', -40.0710, -72.8710, '{}'),
+  (14108, 'Panguipulli', 14, 'Valdivia', '141', -39.6440, -72.3370, '{}'),
+  (14201, 'La Unión', 14, 'Ranco', '142', -40.2930, -73.0830, '{}'),
+  (14202, 'Futrono', 14, 'Ranco', '142', -40.1290, -72.3930, '{}'),
+  (14203, 'Lago Ranco', 14, 'Ranco', '142', -40.3120, -72.5000, '{}'),
+  (14204, 'Río Bueno', 14, 'Ranco', '142', -40.3350, -72.9560, '{}'),
+  -- Region 10
+  (10101, 'Puerto Montt', 10, 'Llanquihue', '101', -41.4693, -72.9424, '{}'),
+  (10102, 'Calbuco', 10, 'Llanquihue', '101', -41.7730, -73.1320, '{}'),
+  (10103, 'Cochamó', 10, 'Llanquihue', '101', -41.4920, -72.3060, '{}'),
+  (10104, 'Fresia', 10, 'Llanquihue', '101', -41.1530, -73.4230, '{}'),
+  (10105, 'Frutillar', 10, 'Llanquihue', '101', -41.1260, -73.0600, '{}'),
+  (10106, 'Los Muermos', 10, 'Llanquihue', '101', -41.3990, -73.4650, '{}'),
+  (10107, 'Llanquihue', 10, 'Llanquihue', '101', -41.2580, -73.0050, '{}'),
+  (10108, 'Maullín', 10, 'Llanquihue', '101', -41.6170, -73.6000, '{}'),
+  (10109, 'Puerto Varas', 10, 'Llanquihue', '101', -41.3190, -72.9850, '{}'),
+  (10201, 'Castro', 10, 'Chiloé', '102', -42.4800, -73.7620, '{}'),
+  (10202, 'Ancud', 10, 'Chiloé', '102', -41.8690, -73.8280, '{}'),
+  (10203, 'Chonchi', 10, 'Chiloé', '102', -42.6230, -73.7730, '{}'),
+  (10204, 'Curaco de Vélez', 10, 'Chiloé', '102', -42.4400, -73.6030, '{}'),
+  (10205, 'Dalcahue', 10, 'Chiloé', '102', -42.3790, -73.6500, '{}'),
+  (10206, 'Puqueldón', 10, 'Chiloé', '102', -42.6020, -73.6710, '{}'),
+  (10207, 'Queilén', 10, 'Chiloé', '102', -42.8720, -73.4770, '{}'),
+  (10208, 'Quellón', 10, 'Chiloé', '102', -43.1160, -73.6170, '{}'),
+  (10209, 'Quemchi', 10, 'Chiloé', '102', -42.1440, -73.4740, '{}'),
+  (10210, 'Quinchao', 10, 'Chiloé', '102', -42.4720, -73.4930, ARRAY['Achao']),
+  (10301, 'Osorno', 10, 'Osorno', '103', -40.5740, -73.1330, '{}'),
+  (10302, 'Puerto Octay', 10, 'Osorno', '103', -40.9730, -72.8840, '{}'),
+  (10303, 'Purranque', 10, 'Osorno', '103', -40.9100, -73.1680, '{}'),
+  (10304, 'Puyehue', 10, 'Osorno', '103', -40.6830, -72.6000, ARRAY['Entre Lagos']),
+  (10305, 'Río Negro', 10, 'Osorno', '103', -40.7830, -73.2330, '{}'),
+  (10306, 'San Juan de la Costa', 10, 'Osorno', '103', -40.5170, -73.4000, '{}'),
+  (10307, 'San Pablo', 10, 'Osorno', '103', -40.4130, -73.0100, '{}'),
+  (10401, 'Chaitén', 10, 'Palena', '104', -42.9160, -72.7080, '{}'),
+  (10402, 'Futaleufú', 10, 'Palena', '104', -43.1850, -71.8670, '{}'),
+  (10403, 'Hualaihué', 10, 'Palena', '104', -41.9680, -72.4710, ARRAY['Hornopirén']),
+  (10404, 'Palena', 10, 'Palena', '104', -43.6160, -71.8040, '{}'),
+  -- Region 11
+  (11101, 'Coyhaique', 11, 'Coyhaique', '111', -45.5712, -72.0662, ARRAY['Coihaique']),
+  (11102, 'Lago Verde', 11, 'Coyhaique', '111', -44.2370, -71.8460, '{}'),
+  (11201, 'Aysén', 11, 'Aysén', '112', -45.4030, -72.6920, ARRAY['Puerto Aysén', 'Aisén']),
+  (11202, 'Cisnes', 11, 'Aysén', '112', -44.7280, -72.6830, ARRAY['Puerto Cisnes']),
+  (11203, 'Guaitecas', 11, 'Aysén', '112', -43.8970, -73.7460, ARRAY['Melinka']),
+  (11301, 'Cochrane', 11, 'Capitán Prat', '113', -47.2540, -72.5750, '{}'),
+  (11302, 'O''Higgins', 11, 'Capitán Prat', '113', -48.4670, -72.5600, ARRAY['Villa O''Higgins']),
+  (11303, 'Tortel', 11, 'Capitán Prat', '113', -47.7990, -73.5340, ARRAY['Caleta Tortel']),
+  (11401, 'Chile Chico', 11, 'General Carrera', '114', -46.5410, -71.7240, '{}'),
+  (11402, 'Río Ibáñez', 11, 'General Carrera', '114', -46.2940, -71.9360, ARRAY['Puerto Ingeniero Ibáñez']),
+  -- Region 12
+  (12101, 'Punta Arenas', 12, 'Magallanes', '121', -53.1638, -70.9171, '{}'),
+  (12102, 'Laguna Blanca', 12, 'Magallanes', '121', -52.4980, -71.4110, ARRAY['Villa Tehuelches']),
+  (12103, 'Río Verde', 12, 'Magallanes', '121', -52.5830, -71.5000, '{}'),
+  (12104, 'San Gregorio', 12, 'Magallanes', '121', -52.4560, -69.5460, ARRAY['Punta Delgada']),
+  (12201, 'Cabo de Hornos', 12, 'Antártica Chilena', '122', -54.9340, -67.6040, ARRAY['Puerto Williams']),
+  (12202, 'Antártica', 12, 'Antártica Chilena', '122', -62.1990, -58.9660, ARRAY['Villa Las Estrellas']),
+  (12301, 'Porvenir', 12, 'Tierra del Fuego', '123', -53.2960, -70.3690, '{}'),
+  (12302, 'Primavera', 12, 'Tierra del Fuego', '123', -52.7770, -69.2880, ARRAY['Cerro Sombrero']),
+  (12303, 'Timaukel', 12, 'Tierra del Fuego', '123', -53.6440, -69.6470, ARRAY['Cameron']),
+  (12401, 'Natales', 12, 'Última Esperanza', '124', -51.7290, -72.5060, ARRAY['Puerto Natales']),
+  (12402, 'Torres del Paine', 12, 'Última Esperanza', '124', -51.2640, -72.3420, ARRAY['Cerro Castillo'])
+ON CONFLICT (id) DO UPDATE SET
+  name = EXCLUDED.name,
+  region_id = EXCLUDED.region_id,
+  province = EXCLUDED.province,
+  province_code = EXCLUDED.province_code,
+  latitude = EXCLUDED.latitude,
+  longitude = EXCLUDED.longitude,
+  aliases = EXCLUDED.aliases;
+
+-- ============================================================================
+-- 3. COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN chilean_comunas.id IS 'Official INE/CUT comuna code';
+COMMENT ON COLUMN chilean_comunas.latitude IS 'Latitude of the comuna main town, used for distance search';
+COMMENT ON COLUMN chilean_comunas.longitude IS 'Longitude of the comuna main town, used for distance search';
+COMMENT ON COLUMN chilean_comunas.aliases IS 'Alternate names customers type (e.g. Santiago Centro, Puerto Natales)';
@@ -0,0 +1,209 @@
+-- Search Facets
+-- November 18, 2025
+--
+-- Counts per filter value for the provider search, so the app can show chips like
+-- "Verificados (12)" and warn before a filter leads to zero results.
+--
+-- Each facet is counted with every active filter applied EXCEPT its own dimension:
+-- the "Verificados" count answers "how many results would I get if I turned this on",
+-- whether or not it is currently on. Location, radius and the matched services are
+-- always applied, since they define the result set itself.
+
+-- ============================================================================
+-- 1. FACET AGGREGATION
+-- ============================================================================
+--
+-- p_rows is a JSONB array of {prices, rating, is_verified, is_available_today, service_areas}
+-- built from either search function; both share the same facet logic. prices holds
+-- every rate the price filter looks at (hourly and fixed for services, the base price
+-- for projects): like the filter, a row is in range when any rate is at least the
+-- minimum and any rate is at most the maximum, so a chip's count is what it returns.
+
+CREATE OR REPLACE FUNCTION build_search_facets(
+  p_rows JSONB,
+  p_min_price INTEGER DEFAULT NULL,
+  p_max_price INTEGER DEFAULT NULL,
+  p_min_rating DECIMAL DEFAULT NULL,
+  p_verified_only BOOLEAN DEFAULT FALSE,
+  p_available_today BOOLEAN DEFAULT FALSE
+) RETURNS JSONB AS $$
+  WITH provider_rows AS (
+    SELECT
+      ARRAY(
+        SELECT p::INTEGER FROM jsonb_array_elements_text(COALESCE(r->'prices', '[]'::JSONB)) AS p
+      ) AS prices,
+      COALESCE((r->>'rating')::DECIMAL, 0) AS rating,
+      COALESCE((r->>'is_verified')::BOOLEAN, FALSE) AS is_verified,
+      COALESCE((r->>'is_available_today')::BOOLEAN, FALSE) AS is_available_today,
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(r->'service_areas', '[]'::JSONB))) AS service_areas
+    FROM jsonb_array_elements(COALESCE(p_rows, '[]'::JSONB)) AS r
+  ),
+  flagged AS (
+    SELECT
+      pr.*,
+      (p_min_price IS NULL OR COALESCE(p_min_price <= ANY(pr.prices), FALSE))
+        AND (p_max_price IS NULL OR COALESCE(p_max_price >= ANY(pr.prices), FALSE)) AS price_ok,
+      (p_min_rating IS NULL OR pr.rating >= p_min_rating) AS rating_ok,
+      (NOT COALESCE(p_verified_only, FALSE) OR pr.is_verified) AS verified_ok,
+      (NOT COALESCE(p_available_today, FALSE) OR pr.is_available_today) AS today_ok
+    FROM provider_rows pr
+  ),
+  price_buckets(bucket_key, min_price, max_price) AS (
+    VALUES
+      ('under_20k', 0, 20000),
+      ('20k_50k', 20000, 50000),
+      ('50k_100k', 50000, 100000),
+      ('over_100k', 100000, NULL::INTEGER)
+  ),
+  rating_thresholds(min_rating) AS (
+    VALUES (4.5), (4.0), (3.0)
+  )
+  SELECT JSONB_BUILD_OBJECT(
+    'total', (
+      SELECT COUNT(*) FROM flagged f
+      WHERE f.price_ok AND f.rating_ok AND f.verified_ok AND f.today_ok
+    ),
+    'price_ranges', (
+      SELECT JSONB_AGG(
+        JSONB_BUILD_OBJECT(
+          'key', b.bucket_key,
+          'min', b.min_price,
+          'max', b.max_price,
+          'count', (
+            SELECT COUNT(*) FROM flagged f
+            WHERE COALESCE(b.min_price <= ANY(f.prices), FALSE)
+              AND (b.max_price IS NULL OR COALESCE(b.max_price > ANY(f.prices), FALSE))
+              AND f.rating_ok AND f.verified_ok AND f.today_ok
+          )
+        ) ORDER BY b.min_price
+      )
+      FROM price_buckets b
+    ),
+    'ratings', (
+      SELECT JSONB_AGG(
+        JSONB_BUILD_OBJECT(
+          'min_rating', t.min_rating,
+          'count', (
+            SELECT COUNT(*) FROM flagged f
+            WHERE f.rating >= t.min_rating
+              AND f.price_ok AND f.verified_ok AND f.today_ok
+          )
+        ) ORDER BY t.min_rating DESC
+      )
+      FROM rating_thresholds t
+    ),
+    'verified', (
+      SELECT COUNT(*) FROM flagged f
+      WHERE f.is_verified AND f.price_ok AND f.rating_ok AND f.today_ok
+    ),
+    'available_today', (
+      SELECT COUNT(*) FROM flagged f
+      WHERE f.is_available_today AND f.price_ok AND f.rating_ok AND f.verified_ok
+    ),
+    'communes', (
+      SELECT COALESCE(JSONB_AGG(JSONB_BUILD_OBJECT('name', a.area, 'count', a.provider_count) ORDER BY a.provider_count DESC, a.area), '[]'::JSONB)
+      FROM (
+        SELECT area, COUNT(*) AS provider_count
+        FROM flagged f, unnest(f.service_areas) AS area
+        WHERE f.price_ok AND f.rating_ok AND f.verified_ok AND f.today_ok
+        GROUP BY area
+        ORDER BY provider_count DESC, area
+        LIMIT 10
+      ) a
+    )
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================================================
+-- 2. FACETS FOR SERVICE SEARCH
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION search_facets_by_service(
+  p_service_ids TEXT[],
+  p_match_weights FLOAT[] DEFAULT NULL,
+  p_commune TEXT DEFAULT NULL,
+  p_region TEXT DEFAULT NULL,
+  p_min_price INTEGER DEFAULT NULL,
+  p_max_price INTEGER DEFAULT NULL,
+  p_min_rating DECIMAL DEFAULT NULL,
+  p_verified_only BOOLEAN DEFAULT FALSE,
+  p_available_today BOOLEAN DEFAULT FALSE,
+  p_urgency urgency_level DEFAULT 'normal',
+  p_search_text TEXT DEFAULT NULL,
+  p_latitude FLOAT DEFAULT NULL,
+  p_longitude FLOAT DEFAULT NULL,
+  p_max_distance_km FLOAT DEFAULT NULL
+) RETURNS JSONB AS $$
+  SELECT build_search_facets(
+    (
+      SELECT JSONB_AGG(JSONB_BUILD_OBJECT(
+        'prices', JSONB_BUILD_ARRAY(r.hourly_rate_clp, r.fixed_rate_clp),
+        'rating', r.rating,
+        'is_verified', r.is_verified,
+        'is_available_today', r.is_available_today,
+        'service_areas', TO_JSONB(r.service_areas)
+      ))
+      FROM search_providers_by_service(
+        p_service_ids, p_match_weights, p_commune, p_region,
+        NULL, NULL, NULL, FALSE, FALSE,
+        p_urgency, p_search_text, p_latitude, p_longitude, p_max_distance_km,
+        'relevance', 10000, 0
+      ) r
+    ),
+    p_min_price, p_max_price, p_min_rating, p_verified_only, p_available_today
+  );
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- 3. FACETS FOR PROJECT SEARCH
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION search_facets_by_project(
+  p_project_id TEXT,
+  p_match_weight FLOAT DEFAULT 1.0,
+  p_commune TEXT DEFAULT NULL,
+  p_region TEXT DEFAULT NULL,
+  p_min_price INTEGER DEFAULT NULL,
+  p_max_price INTEGER DEFAULT NULL,
+  p_min_rating DECIMAL DEFAULT NULL,
+  p_verified_only BOOLEAN DEFAULT FALSE,
+  p_available_today BOOLEAN DEFAULT FALSE,
+  p_search_text TEXT DEFAULT NULL,
+  p_latitude FLOAT DEFAULT NULL,
+  p_longitude FLOAT DEFAULT NULL,
+  p_max_distance_km FLOAT DEFAULT NULL
+) RETURNS JSONB AS $$
+  SELECT build_search_facets(
+    (
+      SELECT JSONB_AGG(JSONB_BUILD_OBJECT(
+        'prices', JSONB_BUILD_ARRAY(r.base_price_clp),
+        'rating', r.rating,
+        'is_verified', r.is_verified,
+        'is_available_today', r.is_available_today,
+        'service_areas', TO_JSONB(r.service_areas)
+      ))
+      FROM search_providers_by_project(
+        p_project_id, p_match_weight, p_commune, p_region,
+        NULL, NULL, NULL, FALSE, FALSE,
+        p_search_text, p_latitude, p_longitude, p_max_distance_km,
+        'relevance', 10000, 0
+      ) r
+    ),
+    p_min_price, p_max_price, p_min_rating, p_verified_only, p_available_today
+  );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION build_search_facets(JSONB, INTEGER, INTEGER, DECIMAL, BOOLEAN, BOOLEAN) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION search_facets_by_service TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION search_facets_by_project TO authenticated, anon;
+
+-- ============================================================================
+-- 4. COMMENTS
+-- ============================================================================
+
+COMMENT ON FUNCTION build_search_facets(JSONB, INTEGER, INTEGER, DECIMAL, BOOLEAN, BOOLEAN) IS
+  'Facet counts (price buckets, rating thresholds, verified, available today, comunas) excluding each facet''s own filter';
+COMMENT ON FUNCTION search_facets_by_service IS
+  'Facet counts for search_providers_by_service with the same location and match parameters';
+COMMENT ON FUNCTION search_facets_by_project IS
+  'Facet counts for search_providers_by_project with the same location and match parameters';
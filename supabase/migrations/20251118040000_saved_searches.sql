@@ -0,0 +1,195 @@
+-- Saved Searches with New-Provider Alerts
+-- November 18, 2025
+--
+-- Customers can save a query + SearchFilters (e.g. "electricista en Ñuñoa urgente") and
+-- get a notification when a provider that was not in the results before starts matching,
+-- typically because they were just approved or added the service / comuna.
+--
+-- The query is matched to service ids on the client (Spanish query engine), so the
+-- resolved service ids and match weights are stored with the search and re-used by the job.
+
+-- ============================================================================
+-- 1. TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  query TEXT NOT NULL DEFAULT '',
+  filters JSONB NOT NULL DEFAULT '{}'::JSONB,
+
+  -- Resolved when saving, see header
+  service_ids TEXT[] NOT NULL,
+  match_weights FLOAT[],
+
+  -- Alerts
+  alerts_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  last_run_at TIMESTAMPTZ,
+  last_match_count INTEGER NOT NULL DEFAULT 0,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT valid_saved_search_name CHECK (TRIM(name) != ''),
+  CONSTRAINT has_saved_search_services CHECK (array_length(service_ids, 1) > 0)
+);
+
+-- Providers already seen by each saved search; anything outside this set is "new"
+CREATE TABLE IF NOT EXISTS saved_search_matches (
+  saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+  provider_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  first_seen_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (saved_search_id, provider_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON saved_searches(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_alerts ON saved_searches(last_run_at NULLS FIRST)
+  WHERE alerts_enabled = TRUE;
+
+CREATE TRIGGER update_saved_searches_updated_at
+  BEFORE UPDATE ON saved_searches
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. NOTIFICATIONS
+-- ============================================================================
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'saved_search_match';
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS saved_search_id UUID REFERENCES saved_searches(id) ON DELETE CASCADE;
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own saved searches" ON saved_searches
+  FOR ALL USING (auth.uid() = user_id);
+
+-- Matches are written by the alert job only
+ALTER TABLE saved_search_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view matches of their saved searches" ON saved_search_matches
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM saved_searches ss
+      WHERE ss.id = saved_search_id AND ss.user_id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- 4. ALERT JOB
+-- ============================================================================
+--
+-- Re-runs the least recently checked saved searches through search_providers_by_service
+-- with the stored filters. The first run of a search only records the baseline; later
+-- runs write one notification per search listing how many providers are new.
+
+CREATE OR REPLACE FUNCTION run_saved_search_alerts(p_batch_size INTEGER DEFAULT 200)
+RETURNS INTEGER AS $$
+DECLARE
+  v_search saved_searches%ROWTYPE;
+  v_commune TEXT;
+  v_latitude FLOAT;
+  v_longitude FLOAT;
+  v_current UUID[];
+  v_new_count INTEGER;
+  v_notified INTEGER := 0;
+BEGIN
+  FOR v_search IN
+    SELECT * FROM saved_searches
+    WHERE alerts_enabled = TRUE
+    ORDER BY last_run_at NULLS FIRST
+    LIMIT p_batch_size
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_commune := NULLIF(v_search.filters->'location'->>'commune', '');
+    v_longitude := (v_search.filters->'location'->'coordinates'->>0)::FLOAT;
+    v_latitude := (v_search.filters->'location'->'coordinates'->>1)::FLOAT;
+
+    -- Same fallback as the app: measure distance from the comuna when no coordinates were saved
+    IF v_latitude IS NULL AND v_commune IS NOT NULL THEN
+      SELECT cc.latitude, cc.longitude INTO v_latitude, v_longitude
+      FROM chilean_comunas cc
+      WHERE cc.name = v_commune
+      LIMIT 1;
+    END IF;
+
+    SELECT COALESCE(ARRAY_AGG(r.provider_id), '{}') INTO v_current
+    FROM search_providers_by_service(
+      v_search.service_ids,
+      v_search.match_weights,
+      v_commune,
+      NULLIF(v_search.filters->'location'->>'region', ''),
+      (v_search.filters->'priceRange'->>'min')::INTEGER,
+      (v_search.filters->'priceRange'->>'max')::INTEGER,
+      (v_search.filters->>'rating')::DECIMAL,
+      COALESCE((v_search.filters->>'verified')::BOOLEAN, FALSE),
+      v_search.filters->>'availability' = 'today',
+      COALESCE(v_search.filters->>'urgency', 'normal')::urgency_level,
+      NULL,
+      v_latitude,
+      v_longitude,
+      CASE WHEN v_latitude IS NOT NULL THEN (v_search.filters->>'maxDistanceKm')::FLOAT END,
+      'relevance',
+      500,
+      0
+    ) r
+    WHERE r.provider_id != v_search.user_id;
+
+    WITH inserted AS (
+      INSERT INTO saved_search_matches (saved_search_id, provider_id)
+      SELECT v_search.id, unnest(v_current)
+      ON CONFLICT DO NOTHING
+      RETURNING provider_id
+    )
+    SELECT COUNT(*) INTO v_new_count FROM inserted;
+
+    IF v_search.last_run_at IS NOT NULL AND v_new_count > 0 THEN
+      INSERT INTO notifications (user_id, type, title, message, saved_search_id)
+      VALUES (
+        v_search.user_id,
+        'saved_search_match',
+        'Nuevos profesionales para "' || v_search.name || '"',
+        CASE WHEN v_new_count = 1
+          THEN 'Hay 1 nuevo profesional que coincide con tu búsqueda guardada'
+          ELSE 'Hay ' || v_new_count || ' nuevos profesionales que coinciden con tu búsqueda guardada'
+        END,
+        v_search.id
+      );
+      v_notified := v_notified + 1;
+    END IF;
+
+    UPDATE saved_searches
+    SET last_run_at = NOW(),
+        last_match_count = COALESCE(array_length(v_current, 1), 0)
+    WHERE id = v_search.id;
+  END LOOP;
+
+  RETURN v_notified;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the scheduler (service role) runs the job
+REVOKE EXECUTE ON FUNCTION run_saved_search_alerts(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Every 15 minutes where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('saved-search-alerts', '*/15 * * * *', 'SELECT run_saved_search_alerts()');
+  END IF;
+END;
+$$;
+
+-- ============================================================================
+-- 5. COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE saved_searches IS 'Customer saved searches (query + SearchFilters) with new-provider alerts';
+COMMENT ON TABLE saved_search_matches IS 'Providers already seen by each saved search';
+COMMENT ON FUNCTION run_saved_search_alerts(INTEGER) IS
+  'Re-runs saved searches and notifies customers about newly matching providers; returns notifications written';
@@ -0,0 +1,293 @@
+-- Search Result Cache
+-- November 18, 2025
+--
+-- Puts search_cache (002) to use. The app calls search_providers_cached with the same
+-- parameters it would send to search_providers_by_service / _by_project; the server hashes
+-- them, serves a cached page when one exists and otherwise runs the search and stores it.
+--
+-- The cache key is computed here rather than trusted from the client, so one caller can't
+-- store results under another search's key. Entries are dropped as soon as a provider's
+-- profile, services or projects change; the TTL only bounds what invalidation can't see.
+
+-- ============================================================================
+-- 1. CACHE TABLE CHANGES
+-- ============================================================================
+
+-- Existing rows only hold provider ids and can't be served; it's a cache, start clean
+TRUNCATE search_cache;
+
+ALTER TABLE search_cache
+  ADD COLUMN IF NOT EXISTS service_ids TEXT[] DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS results JSONB,
+  ADD COLUMN IF NOT EXISTS facets JSONB;
+
+-- location_key is stored as '' rather than NULL so the key is unique
+UPDATE search_cache SET location_key = '' WHERE location_key IS NULL;
+ALTER TABLE search_cache ALTER COLUMN location_key SET DEFAULT '';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_search_cache_key
+  ON search_cache(search_type, search_key, location_key, filters_hash);
+CREATE INDEX IF NOT EXISTS idx_search_cache_provider_ids ON search_cache USING GIN (provider_ids);
+CREATE INDEX IF NOT EXISTS idx_search_cache_service_ids ON search_cache USING GIN (service_ids);
+
+-- Cached pages are read through search_providers_cached only, which requires sign-in
+DROP POLICY IF EXISTS "Anyone can read search cache" ON search_cache;
+
+-- ============================================================================
+-- 2. WRITE-THROUGH HELPER
+-- ============================================================================
+--
+-- Replaces the 003 version (provider ids only), which also relied on a unique
+-- constraint that never existed.
+
+DROP FUNCTION IF EXISTS cache_search_results(TEXT, TEXT, TEXT, TEXT, UUID[], INTEGER);
+
+CREATE OR REPLACE FUNCTION cache_search_results(
+  p_search_type TEXT,
+  p_search_key TEXT,
+  p_location_key TEXT,
+  p_filters_hash TEXT,
+  p_service_ids TEXT[],
+  p_results JSONB,
+  p_facets JSONB,
+  p_ttl INTERVAL DEFAULT INTERVAL '15 minutes'
+) RETURNS VOID AS $$
+BEGIN
+  INSERT INTO search_cache (
+    search_type, search_key, location_key, filters_hash,
+    service_ids, provider_ids, result_count, results, facets, expires_at
+  )
+  VALUES (
+    p_search_type, p_search_key, COALESCE(p_location_key, ''), p_filters_hash,
+    p_service_ids,
+    ARRAY(SELECT (r->>'provider_id')::UUID FROM jsonb_array_elements(p_results) AS r),
+    jsonb_array_length(p_results),
+    p_results, p_facets, NOW() + p_ttl
+  )
+  ON CONFLICT (search_type, search_key, location_key, filters_hash)
+  DO UPDATE SET
+    service_ids = EXCLUDED.service_ids,
+    provider_ids = EXCLUDED.provider_ids,
+    result_count = EXCLUDED.result_count,
+    results = EXCLUDED.results,
+    facets = EXCLUDED.facets,
+    created_at = NOW(),
+    expires_at = EXCLUDED.expires_at;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 3. CACHED SEARCH
+-- ============================================================================
+--
+-- p_search_type is 'service' or 'project'; p_params holds the named parameters of the
+-- matching search function (p_service_ids, p_commune, p_limit, ...). Returns
+-- {rows, facets, cached_at, from_cache}; facets only for the first page.
+--
+-- SECURITY DEFINER to write search_cache. The searches then run as the owner, past
+-- the users RLS, and a cached page is served to every caller: rows keep public
+-- profile fields only, so the provider's RUT is dropped from business_info.
+
+CREATE OR REPLACE FUNCTION search_providers_cached(
+  p_search_type TEXT,
+  p_params JSONB
+) RETURNS JSONB AS $$
+DECLARE
+  v_hash TEXT := md5(p_params::TEXT);
+  v_location_key TEXT := COALESCE(p_params->>'p_commune', p_params->>'p_region', '');
+  v_search_key TEXT;
+  v_service_ids TEXT[];
+  v_match_weights FLOAT[];
+  v_offset INTEGER := COALESCE((p_params->>'p_offset')::INTEGER, 0);
+  v_cached search_cache%ROWTYPE;
+  v_rows JSONB;
+  v_facets JSONB;
+BEGIN
+  IF p_search_type = 'service' THEN
+    v_service_ids := ARRAY(SELECT jsonb_array_elements_text(
+      CASE WHEN jsonb_typeof(p_params->'p_service_ids') = 'array' THEN p_params->'p_service_ids' ELSE '[]'::JSONB END
+    ));
+    v_search_key := array_to_string(v_service_ids, ',');
+  ELSIF p_search_type = 'project' THEN
+    v_search_key := p_params->>'p_project_id';
+    -- Project results also depend on who offers the project's services
+    v_service_ids := ARRAY(SELECT ps.service_id FROM project_services ps WHERE ps.project_id = v_search_key);
+  ELSE
+    RAISE EXCEPTION 'Unknown search type: %', p_search_type;
+  END IF;
+
+  SELECT * INTO v_cached
+  FROM search_cache sc
+  WHERE sc.search_type = p_search_type
+    AND sc.search_key = v_search_key
+    AND sc.location_key = v_location_key
+    AND sc.filters_hash = v_hash
+    AND sc.expires_at > NOW()
+    AND sc.results IS NOT NULL;
+
+  IF FOUND THEN
+    RETURN JSONB_BUILD_OBJECT(
+      'rows', v_cached.results,
+      'facets', v_cached.facets,
+      'cached_at', v_cached.created_at,
+      'from_cache', TRUE
+    );
+  END IF;
+
+  IF p_search_type = 'service' THEN
+    IF jsonb_typeof(p_params->'p_match_weights') = 'array' THEN
+      v_match_weights := ARRAY(SELECT (jsonb_array_elements_text(p_params->'p_match_weights'))::FLOAT);
+    END IF;
+
+    SELECT COALESCE(JSONB_AGG(TO_JSONB(r) - 'ordinality' #- '{business_info,rut}' ORDER BY r.ordinality), '[]'::JSONB) INTO v_rows
+    FROM search_providers_by_service(
+      v_service_ids, v_match_weights,
+      p_params->>'p_commune', p_params->>'p_region',
+      (p_params->>'p_min_price')::INTEGER, (p_params->>'p_max_price')::INTEGER,
+      (p_params->>'p_min_rating')::DECIMAL,
+      COALESCE((p_params->>'p_verified_only')::BOOLEAN, FALSE),
+      COALESCE((p_params->>'p_available_today')::BOOLEAN, FALSE),
+      COALESCE(p_params->>'p_urgency', 'normal')::urgency_level,
+      p_params->>'p_search_text',
+      (p_params->>'p_latitude')::FLOAT, (p_params->>'p_longitude')::FLOAT,
+      (p_params->>'p_max_distance_km')::FLOAT,
+      COALESCE(p_params->>'p_sort_by', 'relevance'),
+      COALESCE((p_params->>'p_limit')::INTEGER, 20), v_offset
+    ) WITH ORDINALITY AS r;
+
+    IF v_offset = 0 THEN
+      v_facets := search_facets_by_service(
+        v_service_ids, v_match_weights,
+        p_params->>'p_commune', p_params->>'p_region',
+        (p_params->>'p_min_price')::INTEGER, (p_params->>'p_max_price')::INTEGER,
+        (p_params->>'p_min_rating')::DECIMAL,
+        COALESCE((p_params->>'p_verified_only')::BOOLEAN, FALSE),
+        COALESCE((p_params->>'p_available_today')::BOOLEAN, FALSE),
+        COALESCE(p_params->>'p_urgency', 'normal')::urgency_level,
+        p_params->>'p_search_text',
+        (p_params->>'p_latitude')::FLOAT, (p_params->>'p_longitude')::FLOAT,
+        (p_params->>'p_max_distance_km')::FLOAT
+      );
+    END IF;
+  ELSE
+    SELECT COALESCE(JSONB_AGG(TO_JSONB(r) - 'ordinality' #- '{business_info,rut}' ORDER BY r.ordinality), '[]'::JSONB) INTO v_rows
+    FROM search_providers_by_project(
+      v_search_key, COALESCE((p_params->>'p_match_weight')::FLOAT, 1.0),
+      p_params->>'p_commune', p_params->>'p_region',
+      (p_params->>'p_min_price')::INTEGER, (p_params->>'p_max_price')::INTEGER,
+      (p_params->>'p_min_rating')::DECIMAL,
+      COALESCE((p_params->>'p_verified_only')::BOOLEAN, FALSE),
+      COALESCE((p_params->>'p_available_today')::BOOLEAN, FALSE),
+      p_params->>'p_search_text',
+      (p_params->>'p_latitude')::FLOAT, (p_params->>'p_longitude')::FLOAT,
+      (p_params->>'p_max_distance_km')::FLOAT,
+      COALESCE(p_params->>'p_sort_by', 'relevance'),
+      COALESCE((p_params->>'p_limit')::INTEGER, 20), v_offset
+    ) WITH ORDINALITY AS r;
+
+    IF v_offset = 0 THEN
+      v_facets := search_facets_by_project(
+        v_search_key, COALESCE((p_params->>'p_match_weight')::FLOAT, 1.0),
+        p_params->>'p_commune', p_params->>'p_region',
+        (p_params->>'p_min_price')::INTEGER, (p_params->>'p_max_price')::INTEGER,
+        (p_params->>'p_min_rating')::DECIMAL,
+        COALESCE((p_params->>'p_verified_only')::BOOLEAN, FALSE),
+        COALESCE((p_params->>'p_available_today')::BOOLEAN, FALSE),
+        p_params->>'p_search_text',
+        (p_params->>'p_latitude')::FLOAT, (p_params->>'p_longitude')::FLOAT,
+        (p_params->>'p_max_distance_km')::FLOAT
+      );
+    END IF;
+  END IF;
+
+  PERFORM cache_search_results(
+    p_search_type, v_search_key, v_location_key, v_hash, v_service_ids, v_rows, v_facets
+  );
+
+  RETURN JSONB_BUILD_OBJECT(
+    'rows', v_rows,
+    'facets', v_facets,
+    'cached_at', NOW(),
+    'from_cache', FALSE
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Writes go through search_providers_cached only
+REVOKE EXECUTE ON FUNCTION cache_search_results(TEXT, TEXT, TEXT, TEXT, TEXT[], JSONB, JSONB, INTERVAL) FROM PUBLIC, anon, authenticated;
+-- Search is only offered to signed-in users
+REVOKE EXECUTE ON FUNCTION search_providers_cached(TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION search_providers_cached(TEXT, JSONB) TO authenticated;
+
+-- ============================================================================
+-- 4. INVALIDATION
+-- ============================================================================
+
+-- Profile changes (approval, rating, availability, service areas) can add or remove a
+-- provider from any search covering their comunas, not just the ones listing them
+CREATE OR REPLACE FUNCTION invalidate_search_cache_for_profile()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_provider_id UUID := COALESCE(NEW.user_id, OLD.user_id);
+  v_areas TEXT[] := COALESCE(OLD.service_areas, '{}');
+BEGIN
+  IF TG_OP != 'DELETE' THEN
+    v_areas := v_areas || COALESCE(NEW.service_areas, '{}');
+  END IF;
+
+  DELETE FROM search_cache
+  WHERE provider_ids @> ARRAY[v_provider_id]
+     OR location_key = ''
+     OR location_key = ANY(v_areas);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION invalidate_search_cache_for_service()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM search_cache
+  WHERE provider_ids @> ARRAY[COALESCE(NEW.provider_id, OLD.provider_id)]
+     OR service_ids @> ARRAY[COALESCE(NEW.service_id, OLD.service_id)];
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION invalidate_search_cache_for_project()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM search_cache
+  WHERE provider_ids @> ARRAY[COALESCE(NEW.provider_id, OLD.provider_id)]
+     OR (search_type = 'project' AND search_key = COALESCE(NEW.project_id, OLD.project_id));
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_search_cache_provider_profiles ON provider_profiles;
+CREATE TRIGGER trigger_search_cache_provider_profiles
+  AFTER UPDATE OR DELETE ON provider_profiles
+  FOR EACH ROW EXECUTE FUNCTION invalidate_search_cache_for_profile();
+
+DROP TRIGGER IF EXISTS trigger_search_cache_provider_services ON provider_services;
+CREATE TRIGGER trigger_search_cache_provider_services
+  AFTER INSERT OR UPDATE OR DELETE ON provider_services
+  FOR EACH ROW EXECUTE FUNCTION invalidate_search_cache_for_service();
+
+DROP TRIGGER IF EXISTS trigger_search_cache_provider_projects ON provider_projects;
+CREATE TRIGGER trigger_search_cache_provider_projects
+  AFTER INSERT OR UPDATE OR DELETE ON provider_projects
+  FOR EACH ROW EXECUTE FUNCTION invalidate_search_cache_for_project();
+
+-- ============================================================================
+-- 5. COMMENTS
+-- ============================================================================
+
+COMMENT ON FUNCTION cache_search_results(TEXT, TEXT, TEXT, TEXT, TEXT[], JSONB, JSONB, INTERVAL) IS
+  'Stores a search result page (rows + facets) in search_cache';
+COMMENT ON FUNCTION search_providers_cached(TEXT, JSONB) IS
+  'Provider search through search_cache: serves a cached page or runs and stores the search';
+COMMENT ON FUNCTION invalidate_search_cache_for_profile() IS
+  'Drops cached searches a provider profile change can affect';
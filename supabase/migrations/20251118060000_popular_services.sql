@@ -0,0 +1,109 @@
+-- Popular Services by Comuna and Region
+-- November 18, 2025
+--
+-- Ranks service categories by real demand: service requests plus bookings that didn't
+-- come from a request (so a request that turned into a booking counts once), over a
+-- rolling window. Demand is located through the job address (addresses.comuna), and
+-- services.category holds the service_categories id.
+--
+-- The ranking uses the customer's comuna when it has enough volume to be meaningful,
+-- otherwise their region, otherwise the whole country.
+
+-- ============================================================================
+-- 1. INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_service_requests_created ON service_requests(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_bookings_created ON bookings(created_at DESC);
+
+-- ============================================================================
+-- 2. POPULAR SERVICES
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_popular_services(
+  p_commune TEXT DEFAULT NULL,
+  p_region TEXT DEFAULT NULL,
+  p_days INTEGER DEFAULT 90,
+  p_limit INTEGER DEFAULT 8,
+  p_min_volume INTEGER DEFAULT 20
+) RETURNS TABLE (
+  service_id TEXT,
+  service_name TEXT,
+  icon TEXT,
+  demand_count BIGINT,
+  scope TEXT
+) AS $$
+DECLARE
+  v_region_id SMALLINT;
+BEGIN
+  -- The comuna's own region wins over the region name, which may be a short form
+  IF p_commune IS NOT NULL THEN
+    SELECT cc.region_id INTO v_region_id
+    FROM chilean_comunas cc
+    WHERE LOWER(cc.name) = LOWER(p_commune)
+    LIMIT 1;
+  END IF;
+
+  IF v_region_id IS NULL AND p_region IS NOT NULL THEN
+    SELECT cr.id INTO v_region_id
+    FROM chilean_regions cr
+    WHERE cr.name ILIKE '%' || p_region || '%'
+    ORDER BY LENGTH(cr.name)
+    LIMIT 1;
+  END IF;
+
+  RETURN QUERY
+  WITH demand AS (
+    SELECT
+      s.category AS category_id,
+      LOWER(a.comuna) = LOWER(p_commune) AS in_comuna,
+      cc.region_id = v_region_id AS in_region
+    FROM (
+      SELECT sr.service_id, sr.address_id
+      FROM service_requests sr
+      WHERE sr.created_at >= NOW() - (p_days || ' days')::INTERVAL
+      UNION ALL
+      SELECT b.service_id, b.address_id
+      FROM bookings b
+      WHERE b.service_request_id IS NULL
+        AND b.created_at >= NOW() - (p_days || ' days')::INTERVAL
+    ) d
+    INNER JOIN services s ON s.id = d.service_id
+    INNER JOIN addresses a ON a.id = d.address_id
+    LEFT JOIN chilean_comunas cc ON LOWER(cc.name) = LOWER(a.comuna)
+  ),
+  chosen_scope AS (
+    SELECT CASE
+      WHEN COUNT(*) FILTER (WHERE in_comuna) >= p_min_volume THEN 'comuna'
+      WHEN COUNT(*) FILTER (WHERE in_region) >= p_min_volume THEN 'region'
+      ELSE 'national'
+    END AS scope
+    FROM demand
+  )
+  SELECT
+    sc.id,
+    sc.name,
+    sc.icon,
+    COUNT(*) AS demand_count,
+    cs.scope
+  FROM demand d
+  CROSS JOIN chosen_scope cs
+  INNER JOIN service_categories sc ON sc.id = d.category_id AND sc.is_active = TRUE
+  WHERE cs.scope = 'national'
+     OR (cs.scope = 'comuna' AND d.in_comuna)
+     OR (cs.scope = 'region' AND d.in_region)
+  GROUP BY sc.id, sc.name, sc.icon, sc.sort_order, cs.scope
+  ORDER BY COUNT(*) DESC, sc.sort_order
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Aggregates only; individual requests stay behind their RLS policies
+GRANT EXECUTE ON FUNCTION get_popular_services(TEXT, TEXT, INTEGER, INTEGER, INTEGER) TO authenticated, anon;
+
+-- ============================================================================
+-- 3. COMMENTS
+-- ============================================================================
+
+COMMENT ON FUNCTION get_popular_services(TEXT, TEXT, INTEGER, INTEGER, INTEGER) IS
+  'Service categories ranked by request + booking volume in the comuna, falling back to region and national';
@@ -0,0 +1,956 @@
+-- Availability-Aware Provider Search
+-- November 18, 2025
+--
+-- Lets the customer search for a concrete slot ("sábado 10:00-13:00"). A provider only
+-- qualifies when the slot fits inside their working hours for that weekday, the day is
+-- not a holiday they take off, and no booking of theirs overlaps it. Every result also
+-- carries next_free_slot: the first start time, from the requested slot (or from now),
+-- at which the provider has a gap of the same length.
+--
+-- Slots are local Chilean time, the same way bookings store scheduled_date and
+-- scheduled_time_start/_end; next_free_slot is returned as a TIMESTAMPTZ.
+
+-- ============================================================================
+-- 1. HOLIDAYS
+-- ============================================================================
+--
+-- Same shape as the table already present in production; created here so every
+-- environment has it. applicable_regions empty means the holiday is national.
+
+CREATE TABLE IF NOT EXISTS chilean_holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  holiday_date DATE NOT NULL UNIQUE,
+  holiday_name TEXT NOT NULL,
+  holiday_type TEXT NOT NULL CHECK (holiday_type IN ('national', 'regional', 'religious', 'civic')),
+  is_business_day BOOLEAN DEFAULT FALSE,
+  applicable_regions TEXT[] DEFAULT '{}',
+  affects_service_delivery BOOLEAN DEFAULT TRUE,
+  premium_rate_multiplier NUMERIC DEFAULT 1.5,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE chilean_holidays ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Anyone can view Chilean holidays" ON chilean_holidays;
+CREATE POLICY "Anyone can view Chilean holidays" ON chilean_holidays FOR SELECT USING (true);
+
+INSERT INTO chilean_holidays (holiday_date, holiday_name, holiday_type, applicable_regions) VALUES
+  ('2025-01-01', 'Año Nuevo', 'national', '{}'),
+  ('2025-04-18', 'Viernes Santo', 'religious', '{}'),
+  ('2025-04-19', 'Sábado Santo', 'religious', '{}'),
+  ('2025-05-01', 'Día Nacional del Trabajo', 'national', '{}'),
+  ('2025-05-21', 'Día de las Glorias Navales', 'civic', '{}'),
+  ('2025-06-07', 'Asalto y Toma del Morro de Arica', 'regional', '{"Región de Arica y Parinacota"}'),
+  ('2025-06-20', 'Día Nacional de los Pueblos Indígenas', 'national', '{}'),
+  ('2025-06-29', 'San Pedro y San Pablo', 'religious', '{}'),
+  ('2025-07-16', 'Día de la Virgen del Carmen', 'religious', '{}'),
+  ('2025-08-15', 'Asunción de la Virgen', 'religious', '{}'),
+  ('2025-09-18', 'Independencia Nacional', 'national', '{}'),
+  ('2025-09-19', 'Día de las Glorias del Ejército', 'national', '{}'),
+  ('2025-10-12', 'Encuentro de Dos Mundos', 'civic', '{}'),
+  ('2025-10-31', 'Día de las Iglesias Evangélicas y Protestantes', 'religious', '{}'),
+  ('2025-11-01', 'Día de Todos los Santos', 'religious', '{}'),
+  ('2025-11-16', 'Elecciones Presidenciales y Parlamentarias', 'civic', '{}'),
+  ('2025-12-08', 'Inmaculada Concepción', 'religious', '{}'),
+  ('2025-12-14', 'Elección Presidencial (segunda vuelta)', 'civic', '{}'),
+  ('2025-12-25', 'Navidad', 'religious', '{}'),
+  ('2026-01-01', 'Año Nuevo', 'national', '{}'),
+  ('2026-04-03', 'Viernes Santo', 'religious', '{}'),
+  ('2026-04-04', 'Sábado Santo', 'religious', '{}'),
+  ('2026-05-01', 'Día Nacional del Trabajo', 'national', '{}'),
+  ('2026-05-21', 'Día de las Glorias Navales', 'civic', '{}'),
+  ('2026-06-07', 'Asalto y Toma del Morro de Arica', 'regional', '{"Región de Arica y Parinacota"}'),
+  ('2026-06-21', 'Día Nacional de los Pueblos Indígenas', 'national', '{}'),
+  ('2026-06-29', 'San Pedro y San Pablo', 'religious', '{}'),
+  ('2026-07-16', 'Día de la Virgen del Carmen', 'religious', '{}'),
+  ('2026-08-15', 'Asunción de la Virgen', 'religious', '{}'),
+  ('2026-09-18', 'Independencia Nacional', 'national', '{}'),
+  ('2026-09-19', 'Día de las Glorias del Ejército', 'national', '{}'),
+  ('2026-10-12', 'Encuentro de Dos Mundos', 'civic', '{}'),
+  ('2026-10-31', 'Día de las Iglesias Evangélicas y Protestantes', 'religious', '{}'),
+  ('2026-11-01', 'Día de Todos los Santos', 'religious', '{}'),
+  ('2026-12-08', 'Inmaculada Concepción', 'religious', '{}'),
+  ('2026-12-25', 'Navidad', 'religious', '{}')
+ON CONFLICT (holiday_date) DO NOTHING;
+
+-- ============================================================================
+-- 2. PROVIDER AVAILABILITY SETTINGS
+-- ============================================================================
+--
+-- holiday_availability matches production: chilean_holidays = TRUE means the provider
+-- works on holidays; custom_dates lists their own days off ('YYYY-MM-DD').
+
+ALTER TABLE provider_profiles
+  ADD COLUMN IF NOT EXISTS holiday_availability JSONB DEFAULT '{"custom_dates": [], "chilean_holidays": false}';
+
+CREATE INDEX IF NOT EXISTS idx_bookings_provider_schedule
+  ON bookings(provider_id, scheduled_date, scheduled_time_start)
+  WHERE status != 'cancelled';
+
+-- ============================================================================
+-- 3. SLOT HELPERS
+-- ============================================================================
+--
+-- working_hours is either the legacy single window {"start": "08:00", "end": "18:00"},
+-- read as Monday to Saturday, or one entry per weekday:
+--   {"monday": {"start": "08:00", "end": "18:00"}, ..., "sunday": null}
+-- A weekday entry can also carry "enabled": false.
+
+CREATE OR REPLACE FUNCTION provider_working_window(
+  p_working_hours JSONB,
+  p_date DATE
+) RETURNS TABLE (
+  window_start TIME,
+  window_end TIME
+) AS $$
+  SELECT (d.hours->>'start')::TIME, (d.hours->>'end')::TIME
+  FROM (
+    SELECT CASE
+      WHEN COALESCE(p_working_hours, '{}'::JSONB) = '{}'::JSONB OR p_working_hours ? 'start' THEN
+        CASE WHEN EXTRACT(ISODOW FROM p_date) <= 6
+          THEN COALESCE(NULLIF(p_working_hours, '{}'::JSONB), '{"start": "08:00", "end": "18:00"}'::JSONB)
+        END
+      ELSE p_working_hours -> to_char(p_date, 'FMday')
+    END AS hours
+  ) d
+  WHERE jsonb_typeof(d.hours) = 'object'
+    AND d.hours ? 'start'
+    AND d.hours ? 'end'
+    AND COALESCE((d.hours->>'enabled')::BOOLEAN, TRUE);
+$$ LANGUAGE sql STABLE;
+
+-- Region names are matched loosely: 'Metropolitana' finds 'Región Metropolitana de Santiago'
+CREATE OR REPLACE FUNCTION provider_is_off(
+  p_holiday_availability JSONB,
+  p_date DATE,
+  p_region TEXT DEFAULT NULL
+) RETURNS BOOLEAN AS $$
+  SELECT COALESCE(p_holiday_availability->'custom_dates', '[]'::JSONB) ? p_date::TEXT
+    OR (
+      NOT COALESCE((p_holiday_availability->>'chilean_holidays')::BOOLEAN, FALSE)
+      AND EXISTS (
+        SELECT 1
+        FROM chilean_holidays h
+        WHERE h.holiday_date = p_date
+          AND h.affects_service_delivery
+          AND NOT COALESCE(h.is_business_day, FALSE)
+          AND (
+            COALESCE(cardinality(h.applicable_regions), 0) = 0
+            OR (p_region IS NOT NULL AND EXISTS (
+              SELECT 1 FROM unnest(h.applicable_regions) AS ar
+              WHERE ar ILIKE '%' || p_region || '%' OR p_region ILIKE '%' || ar || '%'
+            ))
+          )
+      )
+    );
+$$ LANGUAGE sql STABLE;
+
+-- SECURITY DEFINER so the check sees every booking of the provider, not only the
+-- caller's; it returns a yes/no answer and nothing about the bookings themselves.
+CREATE OR REPLACE FUNCTION provider_slot_is_free(
+  p_provider_id UUID,
+  p_working_hours JSONB,
+  p_holiday_availability JSONB,
+  p_region TEXT,
+  p_date DATE,
+  p_start TIME,
+  p_end TIME
+) RETURNS BOOLEAN AS $$
+  SELECT NOT provider_is_off(p_holiday_availability, p_date, p_region)
+    AND EXISTS (
+      SELECT 1 FROM provider_working_window(p_working_hours, p_date) w
+      WHERE w.window_start <= p_start AND w.window_end >= p_end
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM bookings b
+      WHERE b.provider_id = p_provider_id
+        AND b.scheduled_date = p_date
+        AND b.status != 'cancelled'
+        AND b.scheduled_time_start < p_end
+        AND b.scheduled_time_end > p_start
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- First start at or after p_from (local time, rounded up to the hour) where the provider
+-- has p_duration free inside their working hours. NULL when nothing fits in p_days_ahead.
+CREATE OR REPLACE FUNCTION provider_next_free_slot(
+  p_provider_id UUID,
+  p_working_hours JSONB,
+  p_holiday_availability JSONB,
+  p_region TEXT,
+  p_from TIMESTAMP,
+  p_duration INTERVAL DEFAULT INTERVAL '2 hours',
+  p_days_ahead INTEGER DEFAULT 14
+) RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_date DATE;
+  v_window RECORD;
+  v_candidate TIMESTAMP;
+  v_booking RECORD;
+BEGIN
+  FOR v_date IN
+    SELECT d::DATE FROM generate_series(p_from::DATE, p_from::DATE + p_days_ahead, INTERVAL '1 day') AS d
+  LOOP
+    CONTINUE WHEN provider_is_off(p_holiday_availability, v_date, p_region);
+
+    SELECT * INTO v_window FROM provider_working_window(p_working_hours, v_date);
+    CONTINUE WHEN NOT FOUND;
+
+    v_candidate := GREATEST(
+      v_date + v_window.window_start,
+      date_trunc('hour', p_from + INTERVAL '59 minutes')
+    );
+
+    FOR v_booking IN
+      SELECT v_date + b.scheduled_time_start AS starts_at, v_date + b.scheduled_time_end AS ends_at
+      FROM bookings b
+      WHERE b.provider_id = p_provider_id
+        AND b.scheduled_date = v_date
+        AND b.status != 'cancelled'
+        AND v_date + b.scheduled_time_end > v_candidate
+      ORDER BY b.scheduled_time_start
+    LOOP
+      EXIT WHEN v_candidate + p_duration <= v_booking.starts_at;
+      v_candidate := GREATEST(v_candidate, v_booking.ends_at);
+    END LOOP;
+
+    IF v_candidate + p_duration <= v_date + v_window.window_end THEN
+      RETURN v_candidate AT TIME ZONE 'America/Santiago';
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER COST 500;
+
+GRANT EXECUTE ON FUNCTION provider_working_window(JSONB, DATE) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION provider_is_off(JSONB, DATE, TEXT) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION provider_slot_is_free(UUID, JSONB, JSONB, TEXT, DATE, TIME, TIME) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION provider_next_free_slot(UUID, JSONB, JSONB, TEXT, TIMESTAMP, INTERVAL, INTEGER) TO authenticated, anon;
+
+-- ============================================================================
+-- 4. SERVICE-BASED SEARCH
+-- ============================================================================
+--
+-- The slot filter is only applied when date, start and end are all given. next_free_slot
+-- is computed in the outer SELECT so it only runs for the rows on the requested page.
+
+DROP FUNCTION IF EXISTS search_providers_by_service(
+  TEXT[], FLOAT[], TEXT, TEXT, INTEGER, INTEGER, DECIMAL, BOOLEAN, BOOLEAN, urgency_level, TEXT, FLOAT, FLOAT, FLOAT, TEXT, INTEGER, INTEGER
+);
+
+CREATE OR REPLACE FUNCTION search_providers_by_service(
+  p_service_ids TEXT[],
+  p_match_weights FLOAT[] DEFAULT NULL,
+  p_commune TEXT DEFAULT NULL,
+  p_region TEXT DEFAULT NULL,
+  p_min_price INTEGER DEFAULT NULL,
+  p_max_price INTEGER DEFAULT NULL,
+  p_min_rating DECIMAL DEFAULT NULL,
+  p_verified_only BOOLEAN DEFAULT FALSE,
+  p_available_today BOOLEAN DEFAULT FALSE,
+  p_urgency urgency_level DEFAULT 'normal',
+  p_search_text TEXT DEFAULT NULL,
+  p_latitude FLOAT DEFAULT NULL,
+  p_longitude FLOAT DEFAULT NULL,
+  p_max_distance_km FLOAT DEFAULT NULL,
+  p_sort_by TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0,
+  p_slot_date DATE DEFAULT NULL,
+  p_slot_start TIME DEFAULT NULL,
+  p_slot_end TIME DEFAULT NULL
+) RETURNS TABLE (
+  provider_id UUID,
+  user_name TEXT,
+  business_name TEXT,
+  avatar_url TEXT,
+  rating DECIMAL,
+  total_reviews INTEGER,
+  verification_status verification_status,
+  is_verified BOOLEAN,
+  matched_service_id TEXT,
+  hourly_rate_clp INTEGER,
+  fixed_rate_clp INTEGER,
+  response_time_hours INTEGER,
+  is_available_today BOOLEAN,
+  service_areas TEXT[],
+  latitude FLOAT,
+  longitude FLOAT,
+  distance_km FLOAT,
+  driving_distance_km FLOAT,
+  specialties TEXT[],
+  languages TEXT[],
+  certifications TEXT[],
+  total_jobs_completed INTEGER,
+  business_info JSONB,
+  portfolio_count INTEGER,
+  match_strength FLOAT,
+  relevance_score FLOAT,
+  next_free_slot TIMESTAMPTZ,
+  total_count BIGINT
+) AS $$
+DECLARE
+  v_slot_filter BOOLEAN := p_slot_date IS NOT NULL AND p_slot_start IS NOT NULL AND p_slot_end IS NOT NULL;
+  v_slot_from TIMESTAMP;
+  v_slot_length INTERVAL := INTERVAL '2 hours';
+BEGIN
+  IF v_slot_filter THEN
+    v_slot_from := p_slot_date + p_slot_start;
+    v_slot_length := p_slot_end - p_slot_start;
+  ELSE
+    v_slot_from := (NOW() AT TIME ZONE 'America/Santiago')::TIMESTAMP;
+  END IF;
+
+  RETURN QUERY
+  WITH requested_services AS (
+    SELECT
+      s.service_id,
+      COALESCE(p_match_weights[s.ordinality], 1.0) AS weight
+    FROM unnest(p_service_ids) WITH ORDINALITY AS s(service_id, ordinality)
+  ),
+  -- One row per provider: the strongest matching service they offer
+  best_service AS (
+    SELECT DISTINCT ON (ps.provider_id)
+      ps.provider_id,
+      ps.service_id,
+      ps.hourly_rate_clp,
+      ps.fixed_rate_clp,
+      rs.weight
+    FROM provider_services ps
+    INNER JOIN requested_services rs ON rs.service_id = ps.service_id
+    WHERE (p_min_price IS NULL OR ps.hourly_rate_clp >= p_min_price OR ps.fixed_rate_clp >= p_min_price)
+      AND (p_max_price IS NULL OR ps.hourly_rate_clp <= p_max_price OR ps.fixed_rate_clp <= p_max_price)
+      AND (p_urgency = 'normal' OR p_urgency = ANY(
+        SELECT unnest(sc.urgency_levels) FROM service_categories sc WHERE sc.id = ps.service_id
+      ))
+    ORDER BY ps.provider_id, rs.weight DESC, ps.is_primary_service DESC
+  ),
+  candidates AS (
+    SELECT
+      pp.user_id,
+      u.full_name,
+      pp.business_name,
+      u.avatar_url,
+      pp.rating,
+      pp.total_reviews,
+      pp.verification_status,
+      COALESCE(u.is_verified, FALSE) AS is_verified,
+      bs.service_id,
+      bs.hourly_rate_clp,
+      bs.fixed_rate_clp,
+      pp.response_time_hours,
+      pp.is_available_today,
+      pp.service_areas,
+      pp.coordinates[1] AS latitude,
+      pp.coordinates[0] AS longitude,
+      CASE
+        WHEN p_latitude IS NOT NULL AND p_longitude IS NOT NULL AND pp.coordinates IS NOT NULL THEN
+          calculate_distance(p_latitude, p_longitude, pp.coordinates[1], pp.coordinates[0])
+        ELSE NULL
+      END AS distance_km,
+      (p_commune = ANY(pp.service_areas) OR p_region = ANY(pp.service_areas)) IS TRUE AS serves_area,
+      pp.max_travel_distance_km,
+      pp.working_hours,
+      pp.holiday_availability,
+      pp.specialties,
+      pp.languages,
+      pp.certifications,
+      pp.total_jobs_completed,
+      JSONB_BUILD_OBJECT(
+        'rut', u.rut_number,
+        'companyName', pp.business_name,
+        'businessType', CASE WHEN pp.business_name IS NOT NULL THEN 'company' ELSE 'individual' END
+      ) AS business_info,
+      COALESCE(
+        (SELECT COUNT(*)::INTEGER FROM provider_projects ppr WHERE ppr.provider_id = pp.user_id),
+        0
+      ) AS portfolio_count,
+      bs.weight AS match_strength
+    FROM best_service bs
+    INNER JOIN provider_profiles pp ON pp.user_id = bs.provider_id
+    INNER JOIN users u ON u.id = pp.user_id
+    WHERE pp.verification_status = 'approved'
+      AND pp.is_available = TRUE
+      AND (NOT p_verified_only OR u.is_verified = TRUE)
+      AND (NOT p_available_today OR pp.is_available_today = TRUE)
+      AND (p_min_rating IS NULL OR pp.rating >= p_min_rating)
+      AND (p_search_text IS NULL OR pp.search_vector @@ plainto_tsquery('spanish', p_search_text))
+  ),
+  -- Declared service areas decide reach unless a radius is requested; providers
+  -- without coordinates still qualify for a radius search if they list the comuna.
+  within_reach AS (
+    SELECT
+      cd.*,
+      estimate_driving_distance_km(cd.distance_km) AS driving_distance_km,
+      provider_relevance_score(cd.match_strength, cd.rating, cd.is_verified, cd.response_time_hours, cd.distance_km) AS relevance
+    FROM candidates cd
+    WHERE (
+        CASE
+          WHEN p_max_distance_km IS NOT NULL AND cd.distance_km IS NOT NULL THEN
+            estimate_driving_distance_km(cd.distance_km) <= p_max_distance_km
+          WHEN p_max_distance_km IS NOT NULL THEN cd.serves_area
+          ELSE (p_commune IS NULL AND p_region IS NULL) OR cd.serves_area
+        END
+      )
+      AND (
+        cd.serves_area
+        OR cd.distance_km IS NULL
+        OR cd.max_travel_distance_km IS NULL
+        OR estimate_driving_distance_km(cd.distance_km) <= cd.max_travel_distance_km
+      )
+      AND (
+        NOT v_slot_filter
+        OR provider_slot_is_free(
+          cd.user_id, cd.working_hours, cd.holiday_availability, p_region,
+          p_slot_date, p_slot_start, p_slot_end
+        )
+      )
+  )
+  SELECT
+    c.user_id,
+    c.full_name,
+    c.business_name,
+    c.avatar_url,
+    c.rating,
+    c.total_reviews,
+    c.verification_status,
+    c.is_verified,
+    c.service_id,
+    c.hourly_rate_clp,
+    c.fixed_rate_clp,
+    c.response_time_hours,
+    c.is_available_today,
+    c.service_areas,
+    c.latitude,
+    c.longitude,
+    c.distance_km,
+    c.driving_distance_km,
+    c.specialties,
+    c.languages,
+    c.certifications,
+    c.total_jobs_completed,
+    c.business_info,
+    c.portfolio_count,
+    c.match_strength,
+    c.relevance,
+    provider_next_free_slot(c.user_id, c.working_hours, c.holiday_availability, p_region, v_slot_from, v_slot_length),
+    COUNT(*) OVER () AS total_count
+  FROM within_reach c
+  ORDER BY
+    CASE WHEN p_sort_by = 'distance' THEN c.driving_distance_km END ASC NULLS LAST,
+    c.relevance DESC,
+    c.total_reviews DESC,
+    c.user_id
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================================================
+-- 5. PROJECT-BASED SEARCH
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS search_providers_by_project(
+  TEXT, FLOAT, TEXT, TEXT, INTEGER, INTEGER, DECIMAL, BOOLEAN, BOOLEAN, TEXT, FLOAT, FLOAT, FLOAT, TEXT, INTEGER, INTEGER
+);
+
+-- Match strength for projects is the share of the project's services the provider
+-- covers: required services count double, optional services count once.
+CREATE OR REPLACE FUNCTION search_providers_by_project(
+  p_project_id TEXT,
+  p_match_weight FLOAT DEFAULT 1.0,
+  p_commune TEXT DEFAULT NULL,
+  p_region TEXT DEFAULT NULL,
+  p_min_price INTEGER DEFAULT NULL,
+  p_max_price INTEGER DEFAULT NULL,
+  p_min_rating DECIMAL DEFAULT NULL,
+  p_verified_only BOOLEAN DEFAULT FALSE,
+  p_available_today BOOLEAN DEFAULT FALSE,
+  p_search_text TEXT DEFAULT NULL,
+  p_latitude FLOAT DEFAULT NULL,
+  p_longitude FLOAT DEFAULT NULL,
+  p_max_distance_km FLOAT DEFAULT NULL,
+  p_sort_by TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0,
+  p_slot_date DATE DEFAULT NULL,
+  p_slot_start TIME DEFAULT NULL,
+  p_slot_end TIME DEFAULT NULL
+) RETURNS TABLE (
+  provider_id UUID,
+  user_name TEXT,
+  business_name TEXT,
+  avatar_url TEXT,
+  rating DECIMAL,
+  total_reviews INTEGER,
+  verification_status verification_status,
+  is_verified BOOLEAN,
+  base_price_clp INTEGER,
+  can_provide_estimate BOOLEAN,
+  response_time_hours INTEGER,
+  is_available_today BOOLEAN,
+  service_areas TEXT[],
+  latitude FLOAT,
+  longitude FLOAT,
+  distance_km FLOAT,
+  driving_distance_km FLOAT,
+  specialties TEXT[],
+  languages TEXT[],
+  certifications TEXT[],
+  total_jobs_completed INTEGER,
+  portfolio_count INTEGER,
+  required_services TEXT[],
+  optional_services TEXT[],
+  matching_services_count INTEGER,
+  business_info JSONB,
+  match_strength FLOAT,
+  relevance_score FLOAT,
+  next_free_slot TIMESTAMPTZ,
+  total_count BIGINT
+) AS $$
+DECLARE
+  v_slot_filter BOOLEAN := p_slot_date IS NOT NULL AND p_slot_start IS NOT NULL AND p_slot_end IS NOT NULL;
+  v_slot_from TIMESTAMP;
+  v_slot_length INTERVAL := INTERVAL '2 hours';
+BEGIN
+  IF v_slot_filter THEN
+    v_slot_from := p_slot_date + p_slot_start;
+    v_slot_length := p_slot_end - p_slot_start;
+  ELSE
+    v_slot_from := (NOW() AT TIME ZONE 'America/Santiago')::TIMESTAMP;
+  END IF;
+
+  RETURN QUERY
+  WITH project_info AS (
+    SELECT
+      pt.id,
+      COALESCE(ARRAY_AGG(ps_req.service_id) FILTER (WHERE ps_req.is_required), '{}') AS required_services,
+      COALESCE(ARRAY_AGG(ps_req.service_id) FILTER (WHERE NOT ps_req.is_required), '{}') AS optional_services
+    FROM project_types pt
+    LEFT JOIN project_services ps_req ON ps_req.project_id = pt.id
+    WHERE pt.id = p_project_id
+    GROUP BY pt.id
+  ),
+  provider_matches AS (
+    SELECT
+      pp.user_id,
+      pi.required_services,
+      pi.optional_services,
+      COUNT(CASE WHEN ps.service_id = ANY(pi.required_services) THEN 1 END)::INTEGER AS required_matches,
+      COUNT(CASE WHEN ps.service_id = ANY(pi.optional_services) THEN 1 END)::INTEGER AS optional_matches,
+      COALESCE(ppr.base_price_clp, 0) AS base_price_clp,
+      COALESCE(ppr.can_provide_estimate, TRUE) AS can_provide_estimate,
+      COALESCE(ppr.portfolio_count, 0) AS portfolio_count
+    FROM provider_profiles pp
+    CROSS JOIN project_info pi
+    LEFT JOIN provider_services ps ON ps.provider_id = pp.user_id
+    LEFT JOIN provider_projects ppr ON ppr.provider_id = pp.user_id AND ppr.project_id = p_project_id
+    WHERE pp.verification_status = 'approved'
+      AND pp.is_available = TRUE
+      AND (NOT p_available_today OR pp.is_available_today = TRUE)
+      AND (p_min_rating IS NULL OR pp.rating >= p_min_rating)
+      AND (p_search_text IS NULL OR pp.search_vector @@ plainto_tsquery('spanish', p_search_text))
+    GROUP BY pp.user_id, pi.required_services, pi.optional_services, ppr.base_price_clp, ppr.can_provide_estimate, ppr.portfolio_count
+    HAVING COUNT(CASE WHEN ps.service_id = ANY(pi.required_services) THEN 1 END) >= COALESCE(array_length(pi.required_services, 1), 0)
+       AND (ppr.base_price_clp IS NOT NULL OR COUNT(ps.service_id) > 0)
+  ),
+  candidates AS (
+    SELECT
+      pm.*,
+      u.full_name,
+      pp.business_name,
+      u.avatar_url,
+      pp.rating,
+      pp.total_reviews,
+      pp.verification_status,
+      COALESCE(u.is_verified, FALSE) AS is_verified,
+      pp.response_time_hours,
+      pp.is_available_today,
+      pp.service_areas,
+      pp.coordinates[1] AS latitude,
+      pp.coordinates[0] AS longitude,
+      CASE
+        WHEN p_latitude IS NOT NULL AND p_longitude IS NOT NULL AND pp.coordinates IS NOT NULL THEN
+          calculate_distance(p_latitude, p_longitude, pp.coordinates[1], pp.coordinates[0])
+        ELSE NULL
+      END AS distance_km,
+      (p_commune = ANY(pp.service_areas) OR p_region = ANY(pp.service_areas)) IS TRUE AS serves_area,
+      pp.max_travel_distance_km,
+      pp.working_hours,
+      pp.holiday_availability,
+      pp.specialties,
+      pp.languages,
+      pp.certifications,
+      pp.total_jobs_completed,
+      JSONB_BUILD_OBJECT(
+        'rut', u.rut_number,
+        'companyName', pp.business_name,
+        'businessType', CASE WHEN pp.business_name IS NOT NULL THEN 'company' ELSE 'individual' END
+      ) AS business_info,
+      COALESCE(p_match_weight, 1.0) * CASE
+        WHEN COALESCE(array_length(pm.required_services, 1), 0) + COALESCE(array_length(pm.optional_services, 1), 0) = 0 THEN 1.0
+        ELSE (2 * pm.required_matches + pm.optional_matches)::FLOAT /
+             (2 * COALESCE(array_length(pm.required_services, 1), 0) + COALESCE(array_length(pm.optional_services, 1), 0))
+      END AS match_strength
+    FROM provider_matches pm
+    INNER JOIN provider_profiles pp ON pp.user_id = pm.user_id
+    INNER JOIN users u ON u.id = pm.user_id
+    WHERE (NOT p_verified_only OR u.is_verified = TRUE)
+      AND (p_min_price IS NULL OR pm.base_price_clp >= p_min_price)
+      AND (p_max_price IS NULL OR pm.base_price_clp <= p_max_price)
+  ),
+  -- Declared service areas decide reach unless a radius is requested; providers
+  -- without coordinates still qualify for a radius search if they list the comuna.
+  within_reach AS (
+    SELECT
+      cd.*,
+      estimate_driving_distance_km(cd.distance_km) AS driving_distance_km,
+      provider_relevance_score(cd.match_strength, cd.rating, cd.is_verified, cd.response_time_hours, cd.distance_km) AS relevance
+    FROM candidates cd
+    WHERE (
+        CASE
+          WHEN p_max_distance_km IS NOT NULL AND cd.distance_km IS NOT NULL THEN
+            estimate_driving_distance_km(cd.distance_km) <= p_max_distance_km
+          WHEN p_max_distance_km IS NOT NULL THEN cd.serves_area
+          ELSE (p_commune IS NULL AND p_region IS NULL) OR cd.serves_area
+        END
+      )
+      AND (
+        cd.serves_area
+        OR cd.distance_km IS NULL
+        OR cd.max_travel_distance_km IS NULL
+        OR estimate_driving_distance_km(cd.distance_km) <= cd.max_travel_distance_km
+      )
+      AND (
+        NOT v_slot_filter
+        OR provider_slot_is_free(
+          cd.user_id, cd.working_hours, cd.holiday_availability, p_region,
+          p_slot_date, p_slot_start, p_slot_end
+        )
+      )
+  )
+  SELECT
+    c.user_id,
+    c.full_name,
+    c.business_name,
+    c.avatar_url,
+    c.rating,
+    c.total_reviews,
+    c.verification_status,
+    c.is_verified,
+    c.base_price_clp,
+    c.can_provide_estimate,
+    c.response_time_hours,
+    c.is_available_today,
+    c.service_areas,
+    c.latitude,
+    c.longitude,
+    c.distance_km,
+    c.driving_distance_km,
+    c.specialties,
+    c.languages,
+    c.certifications,
+    c.total_jobs_completed,
+    c.portfolio_count,
+    c.required_services,
+    c.optional_services,
+    c.required_matches + c.optional_matches,
+    c.business_info,
+    c.match_strength,
+    c.relevance,
+    provider_next_free_slot(c.user_id, c.working_hours, c.holiday_availability, p_region, v_slot_from, v_slot_length),
+    COUNT(*) OVER () AS total_count
+  FROM within_reach c
+  ORDER BY
+    CASE WHEN p_sort_by = 'distance' THEN c.driving_distance_km END ASC NULLS LAST,
+    c.relevance DESC,
+    c.portfolio_count DESC,
+    c.user_id
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_providers_by_service TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION search_providers_by_project TO authenticated, anon;
+
+-- ============================================================================
+-- 6. FACETS
+-- ============================================================================
+--
+-- The slot defines the result set like location does, so facet counts apply it too.
+
+DROP FUNCTION IF EXISTS search_facets_by_service(
+  TEXT[], FLOAT[], TEXT, TEXT, INTEGER, INTEGER, DECIMAL, BOOLEAN, BOOLEAN, urgency_level, TEXT, FLOAT, FLOAT, FLOAT
+);
+
+CREATE OR REPLACE FUNCTION search_facets_by_service(
+  p_service_ids TEXT[],
+  p_match_weights FLOAT[] DEFAULT NULL,
+  p_commune TEXT DEFAULT NULL,
+  p_region TEXT DEFAULT NULL,
+  p_min_price INTEGER DEFAULT NULL,
+  p_max_price INTEGER DEFAULT NULL,
+  p_min_rating DECIMAL DEFAULT NULL,
+  p_verified_only BOOLEAN DEFAULT FALSE,
+  p_available_today BOOLEAN DEFAULT FALSE,
+  p_urgency urgency_level DEFAULT 'normal',
+  p_search_text TEXT DEFAULT NULL,
+  p_latitude FLOAT DEFAULT NULL,
+  p_longitude FLOAT DEFAULT NULL,
+  p_max_distance_km FLOAT DEFAULT NULL,
+  p_slot_date DATE DEFAULT NULL,
+  p_slot_start TIME DEFAULT NULL,
+  p_slot_end TIME DEFAULT NULL
+) RETURNS JSONB AS $$
+  SELECT build_search_facets(
+    (
+      SELECT JSONB_AGG(JSONB_BUILD_OBJECT(
+        'prices', JSONB_BUILD_ARRAY(r.hourly_rate_clp, r.fixed_rate_clp),
+        'rating', r.rating,
+        'is_verified', r.is_verified,
+        'is_available_today', r.is_available_today,
+        'service_areas', TO_JSONB(r.service_areas)
+      ))
+      FROM search_providers_by_service(
+        p_service_ids, p_match_weights, p_commune, p_region,
+        NULL, NULL, NULL, FALSE, FALSE,
+        p_urgency, p_search_text, p_latitude, p_longitude, p_max_distance_km,
+        'relevance', 10000, 0,
+        p_slot_date, p_slot_start, p_slot_end
+      ) r
+    ),
+    p_min_price, p_max_price, p_min_rating, p_verified_only, p_available_today
+  );
+$$ LANGUAGE sql STABLE;
+
+DROP FUNCTION IF EXISTS search_facets_by_project(
+  TEXT, FLOAT, TEXT, TEXT, INTEGER, INTEGER, DECIMAL, BOOLEAN, BOOLEAN, TEXT, FLOAT, FLOAT, FLOAT
+);
+
+CREATE OR REPLACE FUNCTION search_facets_by_project(
+  p_project_id TEXT,
+  p_match_weight FLOAT DEFAULT 1.0,
+  p_commune TEXT DEFAULT NULL,
+  p_region TEXT DEFAULT NULL,
+  p_min_price INTEGER DEFAULT NULL,
+  p_max_price INTEGER DEFAULT NULL,
+  p_min_rating DECIMAL DEFAULT NULL,
+  p_verified_only BOOLEAN DEFAULT FALSE,
+  p_available_today BOOLEAN DEFAULT FALSE,
+  p_search_text TEXT DEFAULT NULL,
+  p_latitude FLOAT DEFAULT NULL,
+  p_longitude FLOAT DEFAULT NULL,
+  p_max_distance_km FLOAT DEFAULT NULL,
+  p_slot_date DATE DEFAULT NULL,
+  p_slot_start TIME DEFAULT NULL,
+  p_slot_end TIME DEFAULT NULL
+) RETURNS JSONB AS $$
+  SELECT build_search_facets(
+    (
+      SELECT JSONB_AGG(JSONB_BUILD_OBJECT(
+        'prices', JSONB_BUILD_ARRAY(r.base_price_clp),
+        'rating', r.rating,
+        'is_verified', r.is_verified,
+        'is_available_today', r.is_available_today,
+        'service_areas', TO_JSONB(r.service_areas)
+      ))
+      FROM search_providers_by_project(
+        p_project_id, p_match_weight, p_commune, p_region,
+        NULL, NULL, NULL, FALSE, FALSE,
+        p_search_text, p_latitude, p_longitude, p_max_distance_km,
+        'relevance', 10000, 0,
+        p_slot_date, p_slot_start, p_slot_end
+      ) r
+    ),
+    p_min_price, p_max_price, p_min_rating, p_verified_only, p_available_today
+  );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_facets_by_service TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION search_facets_by_project TO authenticated, anon;
+
+-- ============================================================================
+-- 7. CACHED SEARCH
+-- ============================================================================
+--
+-- Same as 20251118050000, passing p_slot_date / p_slot_start / p_slot_end through
+-- (and still dropping the RUT from the shared cached rows).
+
+CREATE OR REPLACE FUNCTION search_providers_cached(
+  p_search_type TEXT,
+  p_params JSONB
+) RETURNS JSONB AS $$
+DECLARE
+  v_hash TEXT := md5(p_params::TEXT);
+  v_location_key TEXT := COALESCE(p_params->>'p_commune', p_params->>'p_region', '');
+  v_search_key TEXT;
+  v_service_ids TEXT[];
+  v_match_weights FLOAT[];
+  v_offset INTEGER := COALESCE((p_params->>'p_offset')::INTEGER, 0);
+  v_slot_date DATE := (p_params->>'p_slot_date')::DATE;
+  v_slot_start TIME := (p_params->>'p_slot_start')::TIME;
+  v_slot_end TIME := (p_params->>'p_slot_end')::TIME;
+  v_cached search_cache%ROWTYPE;
+  v_rows JSONB;
+  v_facets JSONB;
+BEGIN
+  IF p_search_type = 'service' THEN
+    v_service_ids := ARRAY(SELECT jsonb_array_elements_text(
+      CASE WHEN jsonb_typeof(p_params->'p_service_ids') = 'array' THEN p_params->'p_service_ids' ELSE '[]'::JSONB END
+    ));
+    v_search_key := array_to_string(v_service_ids, ',');
+  ELSIF p_search_type = 'project' THEN
+    v_search_key := p_params->>'p_project_id';
+    -- Project results also depend on who offers the project's services
+    v_service_ids := ARRAY(SELECT ps.service_id FROM project_services ps WHERE ps.project_id = v_search_key);
+  ELSE
+    RAISE EXCEPTION 'Unknown search type: %', p_search_type;
+  END IF;
+
+  SELECT * INTO v_cached
+  FROM search_cache sc
+  WHERE sc.search_type = p_search_type
+    AND sc.search_key = v_search_key
+    AND sc.location_key = v_location_key
+    AND sc.filters_hash = v_hash
+    AND sc.expires_at > NOW()
+    AND sc.results IS NOT NULL;
+
+  IF FOUND THEN
+    RETURN JSONB_BUILD_OBJECT(
+      'rows', v_cached.results,
+      'facets', v_cached.facets,
+      'cached_at', v_cached.created_at,
+      'from_cache', TRUE
+    );
+  END IF;
+
+  IF p_search_type = 'service' THEN
+    IF jsonb_typeof(p_params->'p_match_weights') = 'array' THEN
+      v_match_weights := ARRAY(SELECT (jsonb_array_elements_text(p_params->'p_match_weights'))::FLOAT);
+    END IF;
+
+    SELECT COALESCE(JSONB_AGG(TO_JSONB(r) - 'ordinality' #- '{business_info,rut}' ORDER BY r.ordinality), '[]'::JSONB) INTO v_rows
+    FROM search_providers_by_service(
+      v_service_ids, v_match_weights,
+      p_params->>'p_commune', p_params->>'p_region',
+      (p_params->>'p_min_price')::INTEGER, (p_params->>'p_max_price')::INTEGER,
+      (p_params->>'p_min_rating')::DECIMAL,
+      COALESCE((p_params->>'p_verified_only')::BOOLEAN, FALSE),
+      COALESCE((p_params->>'p_available_today')::BOOLEAN, FALSE),
+      COALESCE(p_params->>'p_urgency', 'normal')::urgency_level,
+      p_params->>'p_search_text',
+      (p_params->>'p_latitude')::FLOAT, (p_params->>'p_longitude')::FLOAT,
+      (p_params->>'p_max_distance_km')::FLOAT,
+      COALESCE(p_params->>'p_sort_by', 'relevance'),
+      COALESCE((p_params->>'p_limit')::INTEGER, 20), v_offset,
+      v_slot_date, v_slot_start, v_slot_end
+    ) WITH ORDINALITY AS r;
+
+    IF v_offset = 0 THEN
+      v_facets := search_facets_by_service(
+        v_service_ids, v_match_weights,
+        p_params->>'p_commune', p_params->>'p_region',
+        (p_params->>'p_min_price')::INTEGER, (p_params->>'p_max_price')::INTEGER,
+        (p_params->>'p_min_rating')::DECIMAL,
+        COALESCE((p_params->>'p_verified_only')::BOOLEAN, FALSE),
+        COALESCE((p_params->>'p_available_today')::BOOLEAN, FALSE),
+        COALESCE(p_params->>'p_urgency', 'normal')::urgency_level,
+        p_params->>'p_search_text',
+        (p_params->>'p_latitude')::FLOAT, (p_params->>'p_longitude')::FLOAT,
+        (p_params->>'p_max_distance_km')::FLOAT,
+        v_slot_date, v_slot_start, v_slot_end
+      );
+    END IF;
+  ELSE
+    SELECT COALESCE(JSONB_AGG(TO_JSONB(r) - 'ordinality' #- '{business_info,rut}' ORDER BY r.ordinality), '[]'::JSONB) INTO v_rows
+    FROM search_providers_by_project(
+      v_search_key, COALESCE((p_params->>'p_match_weight')::FLOAT, 1.0),
+      p_params->>'p_commune', p_params->>'p_region',
+      (p_params->>'p_min_price')::INTEGER, (p_params->>'p_max_price')::INTEGER,
+      (p_params->>'p_min_rating')::DECIMAL,
+      COALESCE((p_params->>'p_verified_only')::BOOLEAN, FALSE),
+      COALESCE((p_params->>'p_available_today')::BOOLEAN, FALSE),
+      p_params->>'p_search_text',
+      (p_params->>'p_latitude')::FLOAT, (p_params->>'p_longitude')::FLOAT,
+      (p_params->>'p_max_distance_km')::FLOAT,
+      COALESCE(p_params->>'p_sort_by', 'relevance'),
+      COALESCE((p_params->>'p_limit')::INTEGER, 20), v_offset,
+      v_slot_date, v_slot_start, v_slot_end
+    ) WITH ORDINALITY AS r;
+
+    IF v_offset = 0 THEN
+      v_facets := search_facets_by_project(
+        v_search_key, COALESCE((p_params->>'p_match_weight')::FLOAT, 1.0),
+        p_params->>'p_commune', p_params->>'p_region',
+        (p_params->>'p_min_price')::INTEGER, (p_params->>'p_max_price')::INTEGER,
+        (p_params->>'p_min_rating')::DECIMAL,
+        COALESCE((p_params->>'p_verified_only')::BOOLEAN, FALSE),
+        COALESCE((p_params->>'p_available_today')::BOOLEAN, FALSE),
+        p_params->>'p_search_text',
+        (p_params->>'p_latitude')::FLOAT, (p_params->>'p_longitude')::FLOAT,
+        (p_params->>'p_max_distance_km')::FLOAT,
+        v_slot_date, v_slot_start, v_slot_end
+      );
+    END IF;
+  END IF;
+
+  PERFORM cache_search_results(
+    p_search_type, v_search_key, v_location_key, v_hash, v_service_ids, v_rows, v_facets
+  );
+
+  RETURN JSONB_BUILD_OBJECT(
+    'rows', v_rows,
+    'facets', v_facets,
+    'cached_at', NOW(),
+    'from_cache', FALSE
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 8. CACHE INVALIDATION ON BOOKINGS
+-- ============================================================================
+--
+-- A booking changes the provider's free slots, so cached pages listing them go stale.
+-- Searches that didn't list the provider can't have gained them from a new booking.
+
+CREATE OR REPLACE FUNCTION invalidate_search_cache_for_booking()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM search_cache
+  WHERE provider_ids @> ARRAY[COALESCE(NEW.provider_id, OLD.provider_id)];
+
+  IF TG_OP = 'UPDATE' AND OLD.provider_id IS DISTINCT FROM NEW.provider_id THEN
+    DELETE FROM search_cache WHERE provider_ids @> ARRAY[OLD.provider_id];
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_search_cache_bookings ON bookings;
+CREATE TRIGGER trigger_search_cache_bookings
+  AFTER INSERT OR DELETE OR UPDATE OF provider_id, scheduled_date, scheduled_time_start, scheduled_time_end, status ON bookings
+  FOR EACH ROW EXECUTE FUNCTION invalidate_search_cache_for_booking();
+
+-- ============================================================================
+-- 9. COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE chilean_holidays IS
+  'Chilean public holidays; providers are assumed off unless holiday_availability.chilean_holidays is set';
+COMMENT ON COLUMN provider_profiles.holiday_availability IS
+  'Holiday settings: chilean_holidays (works on public holidays) and custom_dates (own days off, YYYY-MM-DD)';
+COMMENT ON FUNCTION provider_working_window(JSONB, DATE) IS
+  'Working hours for a date from working_hours (legacy single window applies Monday to Saturday)';
+COMMENT ON FUNCTION provider_slot_is_free(UUID, JSONB, JSONB, TEXT, DATE, TIME, TIME) IS
+  'TRUE when the slot is inside working hours, not a day off and not overlapping a booking';
+COMMENT ON FUNCTION provider_next_free_slot(UUID, JSONB, JSONB, TEXT, TIMESTAMP, INTERVAL, INTEGER) IS
+  'First free start of the given length from a local time, within the next p_days_ahead days';
+COMMENT ON FUNCTION search_providers_by_service IS
+  'Ranked service search with estimated driving-distance radius, optional date/time slot filter and next free slot per provider';
+COMMENT ON FUNCTION search_providers_by_project IS
+  'Ranked project search with estimated driving-distance radius, optional date/time slot filter and next free slot per provider';
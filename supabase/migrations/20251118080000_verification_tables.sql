@@ -0,0 +1,156 @@
+-- Provider Verification Tables
+-- November 18, 2025
+--
+-- The verification flow (verificationService, ProviderVerificationScreen) reads and writes
+-- verification_documents and verification_workflows, which so far only existed in the
+-- production project. This brings them, and the provider_profiles columns the flow uses,
+-- into the migrations in their production shape so the generated Database types cover
+-- them. Everything is IF NOT EXISTS, so it is a no-op where production already has it.
+--
+-- Documents and workflow steps are keyed by provider_profiles.user_id, the profile's
+-- primary key.
+
+-- ============================================================================
+-- 1. PROVIDER PROFILE VERIFICATION COLUMNS
+-- ============================================================================
+
+ALTER TABLE provider_profiles
+  ADD COLUMN IF NOT EXISTS comuna TEXT,
+  ADD COLUMN IF NOT EXISTS verification_score INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS is_identity_verified BOOLEAN DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS is_background_checked BOOLEAN DEFAULT FALSE;
+
+-- ============================================================================
+-- 2. VERIFICATION DOCUMENTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS verification_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_id UUID REFERENCES provider_profiles(user_id) ON DELETE CASCADE,
+  document_type TEXT NOT NULL
+    CHECK (document_type IN ('cedula_front', 'cedula_back', 'selfie', 'certificate')),
+  file_path TEXT NOT NULL, -- Supabase Storage path
+  file_name TEXT NOT NULL,
+  file_size INTEGER NOT NULL,
+  upload_status TEXT DEFAULT 'uploading'
+    CHECK (upload_status IN ('uploading', 'uploaded', 'processing', 'verified', 'rejected')),
+  verification_result JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_verification_documents_provider
+  ON verification_documents(provider_id, created_at DESC);
+
+-- ============================================================================
+-- 3. VERIFICATION WORKFLOWS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS verification_workflows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_id UUID REFERENCES provider_profiles(user_id) ON DELETE CASCADE,
+  workflow_step TEXT NOT NULL
+    CHECK (workflow_step IN ('documents', 'identity', 'background', 'admin_review')),
+  status TEXT DEFAULT 'pending'
+    CHECK (status IN ('pending', 'in_progress', 'completed', 'failed')),
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  error_message TEXT,
+  retry_count INTEGER DEFAULT 0,
+  metadata JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_verification_workflows_provider
+  ON verification_workflows(provider_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_verification_documents_updated_at ON verification_documents;
+CREATE TRIGGER update_verification_documents_updated_at
+  BEFORE UPDATE ON verification_documents
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_verification_workflows_updated_at ON verification_workflows;
+CREATE TRIGGER update_verification_workflows_updated_at
+  BEFORE UPDATE ON verification_workflows
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 4. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE verification_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE verification_workflows ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Providers can manage their own verification documents" ON verification_documents;
+CREATE POLICY "Providers can manage their own verification documents" ON verification_documents
+  FOR ALL USING (provider_id = auth.uid()) WITH CHECK (provider_id = auth.uid());
+
+DROP POLICY IF EXISTS "Providers can manage their own verification workflow" ON verification_workflows;
+CREATE POLICY "Providers can manage their own verification workflow" ON verification_workflows
+  FOR ALL USING (provider_id = auth.uid()) WITH CHECK (provider_id = auth.uid());
+
+-- ============================================================================
+-- 5. VERIFICATION STATUS FUNCTIONS
+-- ============================================================================
+
+-- Parameters are named provider_id to match the existing client calls, so the
+-- columns are qualified with their table alias throughout.
+CREATE OR REPLACE FUNCTION calculate_verification_score(provider_id UUID)
+RETURNS INTEGER AS $$
+  SELECT LEAST(100,
+    -- 20 points per verified identity document (cedula front/back, selfie)
+    20 * (
+      SELECT COUNT(DISTINCT vd.document_type)
+      FROM verification_documents vd
+      WHERE vd.provider_id = calculate_verification_score.provider_id
+        AND vd.document_type IN ('cedula_front', 'cedula_back', 'selfie')
+        AND vd.upload_status = 'verified'
+    )::INTEGER
+    + CASE WHEN pp.is_identity_verified THEN 20 ELSE 0 END
+    + CASE WHEN pp.is_background_checked THEN 20 ELSE 0 END
+  )
+  FROM provider_profiles pp
+  WHERE pp.user_id = calculate_verification_score.provider_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_provider_verification_status(provider_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'verification_status', pp.verification_status,
+    'background_check_status', pp.background_check_status,
+    'verification_score', calculate_verification_score(pp.user_id),
+    'documents', COALESCE((
+      SELECT jsonb_object_agg(vd.document_type, vd.upload_status)
+      FROM (
+        SELECT DISTINCT ON (d.document_type) d.document_type, d.upload_status
+        FROM verification_documents d
+        WHERE d.provider_id = pp.user_id
+        ORDER BY d.document_type, d.created_at DESC
+      ) vd
+    ), '{}'::JSONB),
+    'pending_steps', COALESCE((
+      SELECT jsonb_agg(vw.workflow_step ORDER BY vw.created_at)
+      FROM verification_workflows vw
+      WHERE vw.provider_id = pp.user_id
+        AND vw.status IN ('pending', 'in_progress')
+    ), '[]'::JSONB)
+  )
+  FROM provider_profiles pp
+  WHERE pp.user_id = get_provider_verification_status.provider_id
+    AND pp.user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION calculate_verification_score(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_provider_verification_status(UUID) TO authenticated;
+
+-- ============================================================================
+-- 6. COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE verification_documents IS 'Identity documents uploaded by providers during verification';
+COMMENT ON TABLE verification_workflows IS 'Verification steps per provider and their progress';
+COMMENT ON FUNCTION calculate_verification_score(UUID) IS
+  'Verification score 0-100 from verified identity documents, identity and background checks';
+COMMENT ON FUNCTION get_provider_verification_status(UUID) IS
+  'Verification summary for the calling provider: status, score, latest document states, pending steps';
@@ -0,0 +1,59 @@
+-- Provider Base Pricing
+-- November 18, 2025
+--
+-- providerServicesService stores a provider's base price per project type in
+-- provider_base_pricing, which no migration created. This adds it in the shape the
+-- service reads and writes: one row per (provider, project type), upserted on that pair.
+-- provider_projects (002) stays as is for the search functions that join it.
+
+-- ============================================================================
+-- 1. TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS provider_base_pricing (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_id UUID NOT NULL REFERENCES provider_profiles(user_id) ON DELETE CASCADE,
+  project_type_id TEXT NOT NULL REFERENCES project_types(id) ON DELETE CASCADE,
+  service_id TEXT REFERENCES service_categories(id) ON DELETE SET NULL,
+  base_price_clp INTEGER CHECK (base_price_clp IS NULL OR base_price_clp > 0),
+  estimated_hours NUMERIC(5,1) CHECK (estimated_hours IS NULL OR estimated_hours > 0),
+  pricing_notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  allows_instant_quote BOOLEAN NOT NULL DEFAULT FALSE,
+  requires_site_visit_for TEXT NOT NULL DEFAULT 'complex_only'
+    CHECK (requires_site_visit_for IN ('all', 'complex_only', 'none')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (provider_id, project_type_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_provider_base_pricing_project
+  ON provider_base_pricing(project_type_id) WHERE is_active = TRUE;
+
+DROP TRIGGER IF EXISTS update_provider_base_pricing_updated_at ON provider_base_pricing;
+CREATE TRIGGER update_provider_base_pricing_updated_at
+  BEFORE UPDATE ON provider_base_pricing
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE provider_base_pricing ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Providers can manage their own base pricing" ON provider_base_pricing;
+CREATE POLICY "Providers can manage their own base pricing" ON provider_base_pricing
+  FOR ALL USING (provider_id = auth.uid()) WITH CHECK (provider_id = auth.uid());
+
+-- Customers see a provider's starting prices before asking for a quote
+DROP POLICY IF EXISTS "Anyone can view active base pricing" ON provider_base_pricing;
+CREATE POLICY "Anyone can view active base pricing" ON provider_base_pricing
+  FOR SELECT USING (is_active = TRUE);
+
+-- ============================================================================
+-- 3. COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE provider_base_pricing IS 'Provider starting price per project type, used for instant quotes';
+COMMENT ON COLUMN provider_base_pricing.requires_site_visit_for IS
+  'Which jobs need a site visit before quoting: all, complex_only or none';
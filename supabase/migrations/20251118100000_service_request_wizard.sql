@@ -0,0 +1,123 @@
+-- Service Request Creation
+-- November 18, 2025
+--
+-- Customers post jobs from the request wizard: a project type or service category, one of
+-- their saved addresses, a preferred date and time window, a budget and photos.
+--
+-- service_requests.service_id points at the services table, while the app catalog is
+-- service_categories (services.category holds the category id). request_service_id()
+-- resolves a category to its services row, creating it the first time a category is
+-- requested; a project type resolves through its main category. Photos live in the
+-- private job-photos bucket under the customer's folder and service_requests.photos
+-- keeps their object paths.
+
+-- ============================================================================
+-- 1. PROJECT TYPE ON REQUESTS
+-- ============================================================================
+
+ALTER TABLE service_requests
+  ADD COLUMN IF NOT EXISTS project_type_id TEXT REFERENCES project_types(id) ON DELETE SET NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'valid_budget_positive') THEN
+    ALTER TABLE service_requests ADD CONSTRAINT valid_budget_positive
+      CHECK ((budget_min_clp IS NULL OR budget_min_clp > 0) AND (budget_max_clp IS NULL OR budget_max_clp > 0));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'valid_photo_count') THEN
+    ALTER TABLE service_requests ADD CONSTRAINT valid_photo_count
+      CHECK (photos IS NULL OR COALESCE(array_length(photos, 1), 0) <= 8);
+  END IF;
+END $$;
+
+-- ============================================================================
+-- 2. CATEGORY TO SERVICE RESOLUTION
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION request_service_id(
+  p_category_id TEXT DEFAULT NULL,
+  p_project_type_id TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_category_id TEXT := p_category_id;
+  v_service_id UUID;
+BEGIN
+  -- A project is filed under its main service category
+  IF v_category_id IS NULL AND p_project_type_id IS NOT NULL THEN
+    SELECT ps.service_id INTO v_category_id
+    FROM project_services ps
+    WHERE ps.project_id = p_project_type_id
+    ORDER BY ps.is_required DESC NULLS LAST, ps.service_id
+    LIMIT 1;
+  END IF;
+
+  IF v_category_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT s.id INTO v_service_id
+  FROM services s
+  WHERE s.category = v_category_id
+  ORDER BY s.is_active IS TRUE DESC, s.created_at
+  LIMIT 1;
+
+  IF v_service_id IS NULL THEN
+    INSERT INTO services (name, category, description)
+    SELECT sc.name, sc.id, sc.description
+    FROM service_categories sc
+    WHERE sc.id = v_category_id AND sc.is_active = TRUE
+    RETURNING id INTO v_service_id;
+  END IF;
+
+  RETURN v_service_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION request_service_id(TEXT, TEXT) TO authenticated;
+
+-- ============================================================================
+-- 3. JOB PHOTOS BUCKET
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'job-photos',
+  'job-photos',
+  FALSE,
+  8388608, -- 8MB, matches DEFAULT_STORAGE_CONFIG
+  ARRAY['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/avif']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Customers write only inside their own folder: job-photos/<user id>/...
+DROP POLICY IF EXISTS "Users can manage their own job photos" ON storage.objects;
+CREATE POLICY "Users can manage their own job photos" ON storage.objects
+  FOR ALL TO authenticated
+  USING (bucket_id = 'job-photos' AND (storage.foldername(name))[1] = auth.uid()::TEXT)
+  WITH CHECK (bucket_id = 'job-photos' AND (storage.foldername(name))[1] = auth.uid()::TEXT);
+
+-- Providers quoting an open request can see its photos. Only paths in the request
+-- customer's own folder count, so a request can't list someone else's photos.
+DROP POLICY IF EXISTS "Providers can view photos of open requests" ON storage.objects;
+CREATE POLICY "Providers can view photos of open requests" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'job-photos'
+    AND EXISTS (SELECT 1 FROM provider_profiles pp WHERE pp.user_id = auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM service_requests sr
+      WHERE sr.status = 'open'
+        AND storage.objects.name = ANY(sr.photos)
+        AND (storage.foldername(storage.objects.name))[1] = sr.customer_id::TEXT
+    )
+  );
+
+-- ============================================================================
+-- 4. COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN service_requests.project_type_id IS 'Project type picked in the request wizard, when the job was described as a project';
+COMMENT ON COLUMN service_requests.photos IS 'Object paths in the job-photos bucket';
+COMMENT ON FUNCTION request_service_id(TEXT, TEXT) IS
+  'services row for a service category (or a project type''s main category), created on first use';
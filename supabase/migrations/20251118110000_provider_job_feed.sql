@@ -0,0 +1,323 @@
+-- Provider Job Feed
+-- November 18, 2025
+--
+-- Providers see open service requests they can quote: the request's service category is
+-- one of their provider_services, or its project type one of their provider_projects,
+-- and the address is in their service areas or within their max travel distance.
+-- get_provider_job_feed() pages through those requests, newest first, with the
+-- estimated driving distance and a suggested quote built from the provider's own
+-- prices. Pages are keyed on (created_at, id): the next page starts after the last
+-- row of the previous one, so requests posted in between don't shift it.
+--
+-- Requests stay in the feed while they accept quotes ('open' and 'quoted'); a provider
+-- can dismiss a request to hide it, and requests they already quoted drop out. The app
+-- keeps the feed live with Realtime changes on service_requests.
+
+-- ============================================================================
+-- 1. DISMISSED JOBS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS provider_dismissed_jobs (
+  provider_id UUID NOT NULL REFERENCES provider_profiles(user_id) ON DELETE CASCADE,
+  service_request_id UUID NOT NULL REFERENCES service_requests(id) ON DELETE CASCADE,
+  dismissed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (provider_id, service_request_id)
+);
+
+ALTER TABLE provider_dismissed_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Providers can manage their own dismissed jobs" ON provider_dismissed_jobs;
+CREATE POLICY "Providers can manage their own dismissed jobs" ON provider_dismissed_jobs
+  FOR ALL USING (provider_id = auth.uid()) WITH CHECK (provider_id = auth.uid());
+
+-- ============================================================================
+-- 2. REQUEST VISIBILITY
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_service_requests_feed
+  ON service_requests(created_at DESC, id DESC) WHERE status IN ('open', 'quoted');
+
+-- A request that already has quotes still accepts more until it is booked
+DROP POLICY IF EXISTS "Providers can view open service requests" ON service_requests;
+CREATE POLICY "Providers can view open service requests" ON service_requests
+  FOR SELECT USING (status IN ('open', 'quoted'));
+
+-- The first quote moves the request from 'open' to 'quoted'
+CREATE OR REPLACE FUNCTION mark_service_request_quoted()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE service_requests
+  SET status = 'quoted'
+  WHERE id = NEW.service_request_id AND status = 'open';
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_mark_service_request_quoted ON quotes;
+CREATE TRIGGER trigger_mark_service_request_quoted
+  AFTER INSERT ON quotes
+  FOR EACH ROW EXECUTE FUNCTION mark_service_request_quoted();
+
+-- ============================================================================
+-- 3. JOB FEED
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_provider_job_feed(
+  p_provider_id UUID,
+  p_limit INTEGER DEFAULT 20,
+  p_before_created_at TIMESTAMPTZ DEFAULT NULL,
+  p_before_id UUID DEFAULT NULL,
+  p_service_request_id UUID DEFAULT NULL
+) RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  status TEXT,
+  is_urgent BOOLEAN,
+  requires_materials BOOLEAN,
+  budget_min_clp INTEGER,
+  budget_max_clp INTEGER,
+  preferred_date DATE,
+  preferred_time_start TIME,
+  preferred_time_end TIME,
+  photos TEXT[],
+  comuna TEXT,
+  region TEXT,
+  service_category_id TEXT,
+  service_name TEXT,
+  project_type_id TEXT,
+  project_type_name TEXT,
+  project_type_icon TEXT,
+  distance_km FLOAT,
+  driving_distance_km FLOAT,
+  quote_count INTEGER,
+  suggested_quote JSONB,
+  created_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  total_count BIGINT
+) AS $$
+BEGIN
+  -- The feed includes customer addresses; only the provider may read their own, and
+  -- only the service role may read anyone's
+  IF auth.role() IS DISTINCT FROM 'service_role' AND (auth.uid() IS NULL OR auth.uid() <> p_provider_id) THEN
+    RAISE EXCEPTION 'Cannot read another provider''s job feed' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH provider AS (
+    SELECT
+      pp.user_id,
+      pp.service_areas,
+      pp.max_travel_distance_km,
+      pp.hourly_rate_clp,
+      pp.min_job_value_clp,
+      CASE WHEN pp.has_callout_fee THEN COALESCE(pp.callout_fee_clp, 0) ELSE 0 END AS travel_fee_clp,
+      COALESCE(pp.coordinates[1], pc.latitude) AS latitude,
+      COALESCE(pp.coordinates[0], pc.longitude) AS longitude
+    FROM provider_profiles pp
+    LEFT JOIN chilean_comunas pc ON LOWER(pc.name) = LOWER(pp.comuna)
+    WHERE pp.user_id = p_provider_id
+  ),
+  requests AS (
+    SELECT
+      sr.*,
+      a.comuna AS address_comuna,
+      a.region AS address_region,
+      s.category AS category_id,
+      COALESCE(sc.name, s.name) AS category_name,
+      sc.avg_price_min AS category_price_min,
+      pt.name AS project_name,
+      pt.icon AS project_icon,
+      pt.avg_price_min AS project_price_min,
+      COALESCE((a.coordinates->>'lat')::FLOAT, cc.latitude) AS latitude,
+      COALESCE((a.coordinates->>'lng')::FLOAT, cc.longitude) AS longitude
+    FROM service_requests sr
+    INNER JOIN services s ON s.id = sr.service_id
+    INNER JOIN addresses a ON a.id = sr.address_id
+    LEFT JOIN service_categories sc ON sc.id = s.category
+    LEFT JOIN project_types pt ON pt.id = sr.project_type_id
+    LEFT JOIN chilean_comunas cc ON LOWER(cc.name) = LOWER(a.comuna)
+    WHERE sr.status IN ('open', 'quoted')
+      AND (sr.expires_at IS NULL OR sr.expires_at > NOW())
+      AND sr.customer_id <> p_provider_id
+      AND (p_service_request_id IS NULL OR sr.id = p_service_request_id)
+      AND NOT EXISTS (
+        SELECT 1 FROM provider_dismissed_jobs d
+        WHERE d.provider_id = p_provider_id AND d.service_request_id = sr.id
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM quotes q
+        WHERE q.provider_id = p_provider_id AND q.service_request_id = sr.id
+      )
+  ),
+  matched AS (
+    SELECT
+      r.*,
+      p.travel_fee_clp,
+      p.min_job_value_clp,
+      CASE
+        WHEN p.latitude IS NOT NULL AND r.latitude IS NOT NULL THEN
+          calculate_distance(r.latitude, r.longitude, p.latitude, p.longitude)
+        ELSE NULL
+      END AS distance,
+      (r.address_comuna = ANY(p.service_areas) OR r.address_region = ANY(p.service_areas)) IS TRUE AS serves_area,
+      p.max_travel_distance_km,
+      pbp.base_price_clp AS base_pricing_price,
+      pbp.estimated_hours AS base_pricing_hours,
+      ppr.base_price_clp AS project_price,
+      ps.fixed_rate_clp AS service_fixed_rate,
+      COALESCE(ps.hourly_rate_clp, p.hourly_rate_clp) AS service_hourly_rate
+    FROM requests r
+    CROSS JOIN provider p
+    LEFT JOIN provider_services ps ON ps.provider_id = p.user_id AND ps.service_id = r.category_id
+    LEFT JOIN provider_projects ppr ON ppr.provider_id = p.user_id AND ppr.project_id = r.project_type_id
+    LEFT JOIN provider_base_pricing pbp
+      ON pbp.provider_id = p.user_id AND pbp.project_type_id = r.project_type_id AND pbp.is_active = TRUE
+    WHERE ps.provider_id IS NOT NULL OR ppr.provider_id IS NOT NULL
+  ),
+  -- Declared service areas always count; otherwise the job must be within the
+  -- provider's max travel distance
+  within_reach AS (
+    SELECT
+      m.*,
+      estimate_driving_distance_km(m.distance) AS driving_distance,
+      COALESCE(m.base_pricing_hours, 2)::FLOAT AS hours,
+      CASE
+        WHEN m.base_pricing_price IS NOT NULL THEN 'base_pricing'
+        WHEN m.project_price IS NOT NULL THEN 'project'
+        WHEN m.service_fixed_rate IS NOT NULL THEN 'fixed_rate'
+        WHEN m.service_hourly_rate IS NOT NULL THEN 'hourly_rate'
+        WHEN COALESCE(m.project_price_min, m.category_price_min) IS NOT NULL THEN 'catalog'
+      END AS pricing_source
+    FROM matched m
+    WHERE m.serves_area
+      OR (
+        m.max_travel_distance_km IS NOT NULL
+        AND m.distance IS NOT NULL
+        AND estimate_driving_distance_km(m.distance) <= m.max_travel_distance_km
+      )
+  ),
+  priced AS (
+    SELECT
+      w.*,
+      GREATEST(
+        CASE w.pricing_source
+          WHEN 'base_pricing' THEN w.base_pricing_price
+          WHEN 'project' THEN w.project_price
+          WHEN 'fixed_rate' THEN w.service_fixed_rate
+          WHEN 'hourly_rate' THEN ROUND(w.service_hourly_rate * w.hours)::INTEGER
+          WHEN 'catalog' THEN COALESCE(w.project_price_min, w.category_price_min)
+        END,
+        COALESCE(w.min_job_value_clp, 0)
+      ) AS labor_clp,
+      -- Counted before the page cursor applies, so every page carries the full total
+      COUNT(*) OVER () AS total_count
+    FROM within_reach w
+  )
+  SELECT
+    pr.id,
+    pr.title,
+    pr.description,
+    pr.status,
+    COALESCE(pr.is_urgent, FALSE),
+    COALESCE(pr.requires_materials, FALSE),
+    pr.budget_min_clp,
+    pr.budget_max_clp,
+    pr.preferred_date,
+    pr.preferred_time_start,
+    pr.preferred_time_end,
+    COALESCE(pr.photos, '{}'),
+    pr.address_comuna,
+    pr.address_region,
+    pr.category_id,
+    pr.category_name,
+    pr.project_type_id,
+    pr.project_name,
+    pr.project_icon,
+    pr.distance,
+    pr.driving_distance,
+    (SELECT COUNT(*)::INTEGER FROM quotes q WHERE q.service_request_id = pr.id AND q.status = 'active'),
+    CASE WHEN pr.pricing_source IS NOT NULL THEN
+      JSONB_BUILD_OBJECT(
+        'total_clp', pr.labor_clp + pr.travel_fee_clp,
+        'estimated_duration_hours', pr.hours,
+        'pricing_source', pr.pricing_source,
+        'notes', NULL,
+        'calculation_breakdown', JSONB_BUILD_OBJECT(
+          'labor_subtotal', pr.labor_clp,
+          'materials_subtotal', 0,
+          'travel_fee_clp', pr.travel_fee_clp,
+          'fees_subtotal', 0,
+          'labor_items', JSONB_BUILD_ARRAY(
+            JSONB_BUILD_OBJECT('name', 'Precio base', 'amount', pr.labor_clp)
+          )
+        )
+      )
+    END,
+    pr.created_at,
+    pr.expires_at,
+    pr.total_count
+  FROM priced pr
+  WHERE p_before_created_at IS NULL
+    OR (pr.created_at, pr.id) < (p_before_created_at, p_before_id)
+  ORDER BY pr.created_at DESC, pr.id DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION get_provider_job_feed(UUID, INTEGER, TIMESTAMPTZ, UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_provider_job_feed(UUID, INTEGER, TIMESTAMPTZ, UUID, UUID) TO authenticated;
+
+-- Request photos are readable by the providers whose feed shows the request, and by
+-- those who already quoted it (quoted requests leave the feed)
+CREATE OR REPLACE FUNCTION can_view_request_photos(p_service_request_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM quotes q
+    WHERE q.service_request_id = p_service_request_id AND q.provider_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM get_provider_job_feed(auth.uid(), 1, p_service_request_id => p_service_request_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION can_view_request_photos(UUID) TO authenticated;
+
+DROP POLICY IF EXISTS "Providers can view photos of open requests" ON storage.objects;
+CREATE POLICY "Providers can view photos of open requests" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'job-photos'
+    AND EXISTS (
+      SELECT 1 FROM service_requests sr
+      WHERE sr.status IN ('open', 'quoted')
+        AND storage.objects.name = ANY(sr.photos)
+        AND (storage.foldername(storage.objects.name))[1] = sr.customer_id::TEXT
+        AND can_view_request_photos(sr.id)
+    )
+  );
+
+-- ============================================================================
+-- 4. REALTIME
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'service_requests'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE service_requests;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- 5. COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE provider_dismissed_jobs IS 'Service requests a provider hid from their job feed';
+COMMENT ON FUNCTION mark_service_request_quoted() IS 'Moves a service request to quoted when it receives its first quote';
+COMMENT ON FUNCTION get_provider_job_feed(UUID, INTEGER, TIMESTAMPTZ, UUID, UUID) IS
+  'Open service requests matching a provider''s services, projects and reach, newest first and paged on (created_at, id), with driving distance and a suggested quote; total_count covers all pages';
+COMMENT ON FUNCTION can_view_request_photos(UUID) IS
+  'Whether the signed-in provider may read a request''s photos: it is in their job feed or they quoted it';
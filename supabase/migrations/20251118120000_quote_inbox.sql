@@ -0,0 +1,272 @@
+-- Customer Quote Inbox
+-- November 18, 2025
+--
+-- Customers compare the quotes on one of their service requests and accept one.
+--
+-- Quotes sent through create_provider_quote_with_business_context carry an itemized
+-- breakdown (labor items, materials, travel, fees), the IVA of the provider's tax
+-- document and an optional session structure; the columns below hold them. Quotes
+-- without a breakdown keep the same totals: price_clp is the service price (labor,
+-- travel and fees) and materials_cost_clp the materials, both before IVA.
+--
+-- accept_quote() is the only way to accept: in one transaction it accepts the quote,
+-- rejects the other active quotes, books the request and creates the booking.
+
+-- ============================================================================
+-- 1. ITEMIZED QUOTES
+-- ============================================================================
+
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS labor_items JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS materials_items JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS additional_fees JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS travel_fee_clp INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS document_type TEXT;
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS vat_rate NUMERIC(4,2) NOT NULL DEFAULT 0;
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS iva_clp INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS session_structure JSONB;
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS requires_onsite_confirmation BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS site_visit_cost_clp INTEGER;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'valid_quote_taxes') THEN
+    ALTER TABLE quotes ADD CONSTRAINT valid_quote_taxes
+      CHECK (travel_fee_clp >= 0 AND iva_clp >= 0 AND vat_rate >= 0 AND vat_rate < 100);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_quotes_request_status ON quotes(service_request_id, status);
+
+-- ============================================================================
+-- 2. TRUST LEVEL
+-- ============================================================================
+--
+-- Same levels as calculate_trust_score (TrustScoreBadge), computed from what the
+-- marketplace tables know: the verification score and the review history.
+
+CREATE OR REPLACE FUNCTION provider_trust_level(
+  p_verification_score INTEGER,
+  p_rating DECIMAL,
+  p_total_reviews INTEGER
+) RETURNS TEXT AS $$
+BEGIN
+  RETURN CASE
+    WHEN COALESCE(p_verification_score, 0) >= 80 AND COALESCE(p_rating, 0) >= 4.8 AND COALESCE(p_total_reviews, 0) >= 50 THEN 'elite'
+    WHEN COALESCE(p_verification_score, 0) >= 80 AND COALESCE(p_rating, 0) >= 4.5 AND COALESCE(p_total_reviews, 0) >= 10 THEN 'premium'
+    WHEN COALESCE(p_verification_score, 0) >= 60 THEN 'verified'
+    WHEN COALESCE(p_verification_score, 0) > 0 THEN 'basic'
+    ELSE 'unverified'
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ============================================================================
+-- 3. QUOTES OF A REQUEST
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_service_request_quotes(p_service_request_id UUID)
+RETURNS TABLE (
+  id UUID,
+  provider_id UUID,
+  provider_name TEXT,
+  business_name TEXT,
+  avatar_url TEXT,
+  rating DECIMAL,
+  total_reviews INTEGER,
+  total_jobs_completed INTEGER,
+  verification_score INTEGER,
+  is_identity_verified BOOLEAN,
+  is_background_checked BOOLEAN,
+  trust_level TEXT,
+  status TEXT,
+  price_clp INTEGER,
+  materials_cost_clp INTEGER,
+  includes_materials BOOLEAN,
+  labor_items JSONB,
+  materials_items JSONB,
+  additional_fees JSONB,
+  travel_fee_clp INTEGER,
+  document_type TEXT,
+  vat_rate NUMERIC,
+  iva_clp INTEGER,
+  total_clp INTEGER,
+  estimated_duration_hours NUMERIC,
+  session_structure JSONB,
+  requires_onsite_confirmation BOOLEAN,
+  site_visit_cost_clp INTEGER,
+  message TEXT,
+  availability_date DATE,
+  availability_time_start TIME,
+  availability_time_end TIME,
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  -- Provider names and scores are shown only to the customer who owns the request
+  IF NOT EXISTS (
+    SELECT 1 FROM service_requests sr
+    WHERE sr.id = p_service_request_id AND sr.customer_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Service request not found' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    q.id,
+    q.provider_id,
+    u.full_name,
+    pp.business_name,
+    u.avatar_url,
+    pp.rating,
+    COALESCE(pp.total_reviews, 0),
+    COALESCE(pp.total_jobs_completed, 0),
+    COALESCE(pp.verification_score, 0),
+    COALESCE(pp.is_identity_verified, FALSE),
+    COALESCE(pp.is_background_checked, FALSE),
+    provider_trust_level(pp.verification_score, pp.rating, pp.total_reviews),
+    q.status,
+    q.price_clp,
+    COALESCE(q.materials_cost_clp, 0),
+    COALESCE(q.includes_materials, FALSE),
+    q.labor_items,
+    q.materials_items,
+    q.additional_fees,
+    q.travel_fee_clp,
+    q.document_type,
+    q.vat_rate,
+    q.iva_clp,
+    q.price_clp + COALESCE(q.materials_cost_clp, 0) + q.iva_clp,
+    q.estimated_duration_hours,
+    q.session_structure,
+    q.requires_onsite_confirmation,
+    q.site_visit_cost_clp,
+    q.message,
+    q.availability_date,
+    q.availability_time_start,
+    q.availability_time_end,
+    q.expires_at,
+    q.created_at
+  FROM quotes q
+  INNER JOIN users u ON u.id = q.provider_id
+  LEFT JOIN provider_profiles pp ON pp.user_id = q.provider_id
+  WHERE q.service_request_id = p_service_request_id
+    AND q.status IN ('active', 'accepted')
+  ORDER BY q.status = 'accepted' DESC, q.price_clp + COALESCE(q.materials_cost_clp, 0) + q.iva_clp, q.created_at;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_service_request_quotes(UUID) TO authenticated;
+
+-- ============================================================================
+-- 4. ACCEPTANCE
+-- ============================================================================
+--
+-- Errors use stable messages the app translates: quote_not_found, request_closed,
+-- quote_not_active, quote_expired, quote_date_passed.
+
+CREATE OR REPLACE FUNCTION accept_quote(p_quote_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_quote quotes%ROWTYPE;
+  v_request service_requests%ROWTYPE;
+  v_booking_id UUID;
+BEGIN
+  SELECT * INTO v_quote FROM quotes WHERE id = p_quote_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'quote_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Lock the request first so two acceptances on the same request run one after the other
+  SELECT * INTO v_request FROM service_requests WHERE id = v_quote.service_request_id FOR UPDATE;
+  IF NOT FOUND OR v_request.customer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'quote_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_request.status NOT IN ('open', 'quoted') THEN
+    RAISE EXCEPTION 'request_closed' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_quote FROM quotes WHERE id = p_quote_id FOR UPDATE;
+  IF v_quote.status IS DISTINCT FROM 'active' THEN
+    RAISE EXCEPTION 'quote_not_active' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_quote.expires_at IS NOT NULL AND v_quote.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'quote_expired' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_quote.availability_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'quote_date_passed' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE quotes SET status = 'accepted' WHERE id = v_quote.id;
+
+  UPDATE quotes SET status = 'rejected'
+  WHERE service_request_id = v_request.id AND id <> v_quote.id AND status = 'active';
+
+  UPDATE service_requests SET status = 'booked' WHERE id = v_request.id;
+
+  -- The provider committed to price and slot in the quote, so the booking starts
+  -- accepted. IVA is part of the service price; the platform fee comes out of the
+  -- provider's payout (payments.platform_fee_clp), not the customer's total.
+  INSERT INTO bookings (
+    customer_id,
+    provider_id,
+    service_id,
+    quote_id,
+    service_request_id,
+    title,
+    description,
+    address_id,
+    scheduled_date,
+    scheduled_time_start,
+    scheduled_time_end,
+    service_price_clp,
+    materials_cost_clp,
+    platform_fee_clp,
+    total_price_clp,
+    status,
+    customer_notes,
+    accepted_at
+  ) VALUES (
+    v_request.customer_id,
+    v_quote.provider_id,
+    v_request.service_id,
+    v_quote.id,
+    v_request.id,
+    v_request.title,
+    v_request.description,
+    v_request.address_id,
+    v_quote.availability_date,
+    v_quote.availability_time_start,
+    v_quote.availability_time_end,
+    v_quote.price_clp + v_quote.iva_clp,
+    COALESCE(v_quote.materials_cost_clp, 0),
+    0,
+    v_quote.price_clp + v_quote.iva_clp + COALESCE(v_quote.materials_cost_clp, 0),
+    'accepted',
+    v_quote.message,
+    NOW()
+  )
+  RETURNING id INTO v_booking_id;
+
+  RETURN v_booking_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION accept_quote(UUID) TO authenticated;
+
+-- ============================================================================
+-- 5. COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN quotes.price_clp IS 'Service price before IVA: labor + travel + fees; materials are in materials_cost_clp';
+COMMENT ON COLUMN quotes.labor_items IS 'Itemized labor: [{name, description?, amount}]';
+COMMENT ON COLUMN quotes.materials_items IS 'Itemized materials: [{name, quantity, unit, price_per_unit, subtotal}]';
+COMMENT ON COLUMN quotes.additional_fees IS 'Other charges: [{name, description?, amount}]';
+COMMENT ON COLUMN quotes.iva_clp IS 'IVA on the quote per the provider''s tax document; 0 when exempt';
+COMMENT ON COLUMN quotes.session_structure IS 'Multi-visit plan: {sessions: [{hours, description?}]}';
+COMMENT ON FUNCTION provider_trust_level(INTEGER, DECIMAL, INTEGER) IS
+  'Trust level (unverified, basic, verified, premium, elite) from verification score and reviews';
+COMMENT ON FUNCTION get_service_request_quotes(UUID) IS
+  'Active and accepted quotes on the caller''s service request with provider reputation, cheapest first';
+COMMENT ON FUNCTION accept_quote(UUID) IS
+  'Accepts a quote atomically: rejects the other quotes, books the request and returns the new booking id';
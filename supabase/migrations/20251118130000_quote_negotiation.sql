@@ -0,0 +1,748 @@
+-- Quote Negotiation
+-- November 18, 2025
+--
+-- A quote becomes a negotiation thread between one provider and one customer: the
+-- customer asks for changes or counter-offers on price, date or materials, and the
+-- provider answers with a revised version. quotes keeps one row per provider and
+-- request (unique_provider_per_request stays) holding the current version;
+-- quote_revisions keeps every version with a diff of its labor and material items
+-- against the previous one, and quote_change_requests the customer's side.
+--
+-- accept_quote() now records which version was accepted and closes any pending
+-- change request on the thread. Each step is notified to the other side, and
+-- get_provider_quotes() lists a provider's open quotes with the request waiting on
+-- them.
+
+-- ============================================================================
+-- 1. VERSIONS
+-- ============================================================================
+
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS accepted_version INTEGER;
+
+CREATE TABLE IF NOT EXISTS quote_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_id UUID NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL CHECK (version > 0),
+  price_clp INTEGER NOT NULL,
+  materials_cost_clp INTEGER NOT NULL DEFAULT 0,
+  includes_materials BOOLEAN NOT NULL DEFAULT FALSE,
+  labor_items JSONB NOT NULL DEFAULT '[]',
+  materials_items JSONB NOT NULL DEFAULT '[]',
+  additional_fees JSONB NOT NULL DEFAULT '[]',
+  travel_fee_clp INTEGER NOT NULL DEFAULT 0,
+  vat_rate NUMERIC(4,2) NOT NULL DEFAULT 0,
+  iva_clp INTEGER NOT NULL DEFAULT 0,
+  estimated_duration_hours DECIMAL(4,2),
+  availability_date DATE NOT NULL,
+  availability_time_start TIME NOT NULL,
+  availability_time_end TIME NOT NULL,
+  message TEXT,
+  -- Diff against the previous version; NULL for the first one
+  changes JSONB,
+  change_request_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (quote_id, version)
+);
+
+-- Versions of quotes sent before negotiation existed
+INSERT INTO quote_revisions (
+  quote_id, version, price_clp, materials_cost_clp, includes_materials, labor_items, materials_items,
+  additional_fees, travel_fee_clp, vat_rate, iva_clp, estimated_duration_hours, availability_date,
+  availability_time_start, availability_time_end, message, created_at
+)
+SELECT
+  q.id, q.version, q.price_clp, COALESCE(q.materials_cost_clp, 0), COALESCE(q.includes_materials, FALSE),
+  q.labor_items, q.materials_items, q.additional_fees, q.travel_fee_clp, q.vat_rate, q.iva_clp,
+  q.estimated_duration_hours, q.availability_date, q.availability_time_start, q.availability_time_end,
+  q.message, COALESCE(q.created_at, NOW())
+FROM quotes q
+ON CONFLICT (quote_id, version) DO NOTHING;
+
+UPDATE quotes SET accepted_version = version WHERE status = 'accepted' AND accepted_version IS NULL;
+
+-- ============================================================================
+-- 2. CHANGE REQUESTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS quote_change_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_id UUID NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  quote_version INTEGER NOT NULL,
+  customer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- What the customer wants to change; a counter-offer carries a proposed price
+  topics TEXT[] NOT NULL CHECK (topics <@ ARRAY['price', 'date', 'materials'] AND cardinality(topics) > 0),
+  proposed_price_clp INTEGER CHECK (proposed_price_clp IS NULL OR proposed_price_clp > 0),
+  proposed_date DATE,
+  proposed_time_start TIME,
+  proposed_time_end TIME,
+  materials_note TEXT,
+  message TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'answered', 'declined', 'withdrawn')),
+  answered_version INTEGER,
+  response_message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT valid_proposed_time CHECK (
+    proposed_time_start IS NULL OR proposed_time_end IS NULL OR proposed_time_start < proposed_time_end
+  )
+);
+
+-- One open change request per quote at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quote_change_requests_pending
+  ON quote_change_requests(quote_id) WHERE status = 'pending';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'quote_revisions_change_request_id_fkey') THEN
+    ALTER TABLE quote_revisions ADD CONSTRAINT quote_revisions_change_request_id_fkey
+      FOREIGN KEY (change_request_id) REFERENCES quote_change_requests(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+DROP TRIGGER IF EXISTS update_quote_change_requests_updated_at ON quote_change_requests;
+CREATE TRIGGER update_quote_change_requests_updated_at
+  BEFORE UPDATE ON quote_change_requests
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Each step of the thread is notified to the other side
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'quote_changes_requested';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'quote_revised';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'quote_changes_declined';
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS quote_id UUID REFERENCES quotes(id) ON DELETE CASCADE;
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS service_request_id UUID REFERENCES service_requests(id) ON DELETE CASCADE;
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+--
+-- Both sides of the thread can read it; writes go through the functions below.
+
+ALTER TABLE quote_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quote_change_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Quote participants can view revisions" ON quote_revisions;
+CREATE POLICY "Quote participants can view revisions" ON quote_revisions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM quotes q
+      INNER JOIN service_requests sr ON sr.id = q.service_request_id
+      WHERE q.id = quote_revisions.quote_id
+        AND (q.provider_id = auth.uid() OR sr.customer_id = auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Quote participants can view change requests" ON quote_change_requests;
+CREATE POLICY "Quote participants can view change requests" ON quote_change_requests
+  FOR SELECT USING (
+    customer_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM quotes q WHERE q.id = quote_change_requests.quote_id AND q.provider_id = auth.uid())
+  );
+
+-- ============================================================================
+-- 4. ITEM DIFF
+-- ============================================================================
+
+-- Items are matched by name: {added: [item], removed: [item], changed: [{name, from, to}]}
+CREATE OR REPLACE FUNCTION quote_items_diff(p_old JSONB, p_new JSONB)
+RETURNS JSONB AS $$
+  SELECT JSONB_BUILD_OBJECT(
+    'added', COALESCE((
+      SELECT JSONB_AGG(n.item)
+      FROM JSONB_ARRAY_ELEMENTS(COALESCE(p_new, '[]')) n(item)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM JSONB_ARRAY_ELEMENTS(COALESCE(p_old, '[]')) o(item)
+        WHERE o.item->>'name' = n.item->>'name'
+      )
+    ), '[]'),
+    'removed', COALESCE((
+      SELECT JSONB_AGG(o.item)
+      FROM JSONB_ARRAY_ELEMENTS(COALESCE(p_old, '[]')) o(item)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM JSONB_ARRAY_ELEMENTS(COALESCE(p_new, '[]')) n(item)
+        WHERE n.item->>'name' = o.item->>'name'
+      )
+    ), '[]'),
+    'changed', COALESCE((
+      SELECT JSONB_AGG(JSONB_BUILD_OBJECT('name', n.item->>'name', 'from', o.item, 'to', n.item))
+      FROM JSONB_ARRAY_ELEMENTS(COALESCE(p_new, '[]')) n(item)
+      INNER JOIN JSONB_ARRAY_ELEMENTS(COALESCE(p_old, '[]')) o(item) ON o.item->>'name' = n.item->>'name'
+      WHERE o.item <> n.item
+    ), '[]')
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================================================
+-- 5. NEGOTIATION FUNCTIONS
+-- ============================================================================
+--
+-- Errors use stable messages the app translates: quote_not_found, quote_not_active,
+-- change_request_pending, change_request_not_found, invalid_change_request.
+
+-- Customer asks for changes on the current version of a quote
+CREATE OR REPLACE FUNCTION request_quote_changes(
+  p_quote_id UUID,
+  p_topics TEXT[],
+  p_proposed_price_clp INTEGER DEFAULT NULL,
+  p_proposed_date DATE DEFAULT NULL,
+  p_proposed_time_start TIME DEFAULT NULL,
+  p_proposed_time_end TIME DEFAULT NULL,
+  p_materials_note TEXT DEFAULT NULL,
+  p_message TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_quote quotes%ROWTYPE;
+  v_customer_id UUID;
+  v_request_title TEXT;
+  v_change_request_id UUID;
+BEGIN
+  SELECT q.* INTO v_quote FROM quotes q WHERE q.id = p_quote_id FOR UPDATE;
+  SELECT sr.customer_id, sr.title INTO v_customer_id, v_request_title
+  FROM service_requests sr WHERE sr.id = v_quote.service_request_id;
+
+  IF v_quote.id IS NULL OR v_customer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'quote_not_found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_quote.status IS DISTINCT FROM 'active' THEN
+    RAISE EXCEPTION 'quote_not_active' USING ERRCODE = 'P0001';
+  END IF;
+  IF EXISTS (SELECT 1 FROM quote_change_requests c WHERE c.quote_id = p_quote_id AND c.status = 'pending') THEN
+    RAISE EXCEPTION 'change_request_pending' USING ERRCODE = 'P0001';
+  END IF;
+  IF ('date' = ANY(p_topics) AND p_proposed_date IS NOT NULL AND p_proposed_date < CURRENT_DATE)
+    OR ('price' = ANY(p_topics) AND p_proposed_price_clp IS NULL AND NULLIF(TRIM(p_message), '') IS NULL)
+    OR ('materials' = ANY(p_topics) AND NULLIF(TRIM(p_materials_note), '') IS NULL) THEN
+    RAISE EXCEPTION 'invalid_change_request' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO quote_change_requests (
+    quote_id, quote_version, customer_id, topics, proposed_price_clp, proposed_date,
+    proposed_time_start, proposed_time_end, materials_note, message
+  ) VALUES (
+    p_quote_id, v_quote.version, v_customer_id, p_topics, p_proposed_price_clp, p_proposed_date,
+    p_proposed_time_start, p_proposed_time_end, NULLIF(TRIM(p_materials_note), ''), NULLIF(TRIM(p_message), '')
+  )
+  RETURNING id INTO v_change_request_id;
+
+  INSERT INTO notifications (user_id, type, title, message, quote_id, service_request_id)
+  VALUES (
+    v_quote.provider_id,
+    'quote_changes_requested',
+    CASE WHEN p_proposed_price_clp IS NOT NULL THEN 'Contraoferta del cliente' ELSE 'El cliente pidió cambios' END,
+    'El cliente pide cambios en tu cotización para "' || v_request_title || '". Envía una nueva versión o mantén la actual.',
+    v_quote.id,
+    v_quote.service_request_id
+  );
+
+  RETURN v_change_request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Provider issues a new version; availability is kept unless a new one is given
+CREATE OR REPLACE FUNCTION revise_quote(
+  p_quote_id UUID,
+  p_price_clp INTEGER,
+  p_materials_cost_clp INTEGER DEFAULT 0,
+  p_includes_materials BOOLEAN DEFAULT NULL,
+  p_labor_items JSONB DEFAULT '[]',
+  p_materials_items JSONB DEFAULT '[]',
+  p_additional_fees JSONB DEFAULT '[]',
+  p_travel_fee_clp INTEGER DEFAULT 0,
+  p_vat_rate NUMERIC DEFAULT NULL,
+  p_iva_clp INTEGER DEFAULT 0,
+  p_estimated_duration_hours DECIMAL DEFAULT NULL,
+  p_availability_date DATE DEFAULT NULL,
+  p_availability_time_start TIME DEFAULT NULL,
+  p_availability_time_end TIME DEFAULT NULL,
+  p_message TEXT DEFAULT NULL,
+  p_change_request_id UUID DEFAULT NULL
+) RETURNS INTEGER AS $$
+DECLARE
+  v_quote quotes%ROWTYPE;
+  v_request service_requests%ROWTYPE;
+  v_version INTEGER;
+  v_changes JSONB;
+BEGIN
+  SELECT q.* INTO v_quote FROM quotes q WHERE q.id = p_quote_id FOR UPDATE;
+  IF v_quote.id IS NULL OR v_quote.provider_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'quote_not_found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_quote.status IS DISTINCT FROM 'active' THEN
+    RAISE EXCEPTION 'quote_not_active' USING ERRCODE = 'P0001';
+  END IF;
+  IF p_change_request_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM quote_change_requests c
+    WHERE c.id = p_change_request_id AND c.quote_id = p_quote_id AND c.status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'change_request_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_version := v_quote.version + 1;
+  v_changes := JSONB_STRIP_NULLS(JSONB_BUILD_OBJECT(
+    'labor', quote_items_diff(v_quote.labor_items, COALESCE(p_labor_items, '[]')),
+    'materials', quote_items_diff(v_quote.materials_items, COALESCE(p_materials_items, '[]')),
+    'fees', quote_items_diff(v_quote.additional_fees, COALESCE(p_additional_fees, '[]')),
+    'total', CASE
+      WHEN v_quote.price_clp + COALESCE(v_quote.materials_cost_clp, 0) + v_quote.iva_clp
+        <> p_price_clp + COALESCE(p_materials_cost_clp, 0) + COALESCE(p_iva_clp, 0) THEN
+        JSONB_BUILD_OBJECT(
+          'from', v_quote.price_clp + COALESCE(v_quote.materials_cost_clp, 0) + v_quote.iva_clp,
+          'to', p_price_clp + COALESCE(p_materials_cost_clp, 0) + COALESCE(p_iva_clp, 0)
+        )
+    END,
+    'availability', CASE
+      WHEN p_availability_date IS NOT NULL AND (
+        p_availability_date, p_availability_time_start, p_availability_time_end
+      ) IS DISTINCT FROM (
+        v_quote.availability_date, v_quote.availability_time_start, v_quote.availability_time_end
+      ) THEN
+        JSONB_BUILD_OBJECT(
+          'from', JSONB_BUILD_OBJECT('date', v_quote.availability_date, 'start', v_quote.availability_time_start, 'end', v_quote.availability_time_end),
+          'to', JSONB_BUILD_OBJECT('date', p_availability_date, 'start', p_availability_time_start, 'end', p_availability_time_end)
+        )
+    END,
+    'duration', CASE
+      WHEN p_estimated_duration_hours IS DISTINCT FROM v_quote.estimated_duration_hours THEN
+        JSONB_BUILD_OBJECT('from', v_quote.estimated_duration_hours, 'to', p_estimated_duration_hours)
+    END
+  ));
+
+  UPDATE quotes SET
+    version = v_version,
+    price_clp = p_price_clp,
+    materials_cost_clp = COALESCE(p_materials_cost_clp, 0),
+    includes_materials = COALESCE(p_includes_materials, v_quote.includes_materials),
+    labor_items = COALESCE(p_labor_items, '[]'),
+    materials_items = COALESCE(p_materials_items, '[]'),
+    additional_fees = COALESCE(p_additional_fees, '[]'),
+    travel_fee_clp = COALESCE(p_travel_fee_clp, 0),
+    vat_rate = COALESCE(p_vat_rate, v_quote.vat_rate),
+    iva_clp = COALESCE(p_iva_clp, 0),
+    estimated_duration_hours = p_estimated_duration_hours,
+    availability_date = COALESCE(p_availability_date, v_quote.availability_date),
+    availability_time_start = COALESCE(p_availability_time_start, v_quote.availability_time_start),
+    availability_time_end = COALESCE(p_availability_time_end, v_quote.availability_time_end),
+    message = COALESCE(NULLIF(TRIM(p_message), ''), v_quote.message),
+    -- A revision gives the customer a fresh window to decide
+    expires_at = NOW() + INTERVAL '48 hours'
+  WHERE id = p_quote_id
+  RETURNING * INTO v_quote;
+
+  INSERT INTO quote_revisions (
+    quote_id, version, price_clp, materials_cost_clp, includes_materials, labor_items, materials_items,
+    additional_fees, travel_fee_clp, vat_rate, iva_clp, estimated_duration_hours, availability_date,
+    availability_time_start, availability_time_end, message, changes, change_request_id
+  ) VALUES (
+    v_quote.id, v_version, v_quote.price_clp, v_quote.materials_cost_clp, v_quote.includes_materials,
+    v_quote.labor_items, v_quote.materials_items, v_quote.additional_fees, v_quote.travel_fee_clp,
+    v_quote.vat_rate, v_quote.iva_clp, v_quote.estimated_duration_hours, v_quote.availability_date,
+    v_quote.availability_time_start, v_quote.availability_time_end, NULLIF(TRIM(p_message), ''),
+    v_changes, p_change_request_id
+  );
+
+  -- A revision answers the pending request even when it wasn't linked explicitly
+  UPDATE quote_change_requests SET status = 'answered', answered_version = v_version
+  WHERE quote_id = p_quote_id AND status = 'pending';
+
+  SELECT sr.* INTO v_request FROM service_requests sr WHERE sr.id = v_quote.service_request_id;
+  INSERT INTO notifications (user_id, type, title, message, quote_id, service_request_id)
+  VALUES (
+    v_request.customer_id,
+    'quote_revised',
+    'Nueva versión de una cotización',
+    'Recibiste la versión ' || v_version || ' de una cotización para "' || v_request.title || '".',
+    v_quote.id,
+    v_quote.service_request_id
+  );
+
+  RETURN v_version;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Provider keeps the current version and says why
+CREATE OR REPLACE FUNCTION decline_quote_changes(
+  p_change_request_id UUID,
+  p_response_message TEXT DEFAULT NULL
+) RETURNS VOID AS $$
+DECLARE
+  v_quote_id UUID;
+  v_customer_id UUID;
+BEGIN
+  UPDATE quote_change_requests c
+  SET status = 'declined', response_message = NULLIF(TRIM(p_response_message), '')
+  FROM quotes q
+  WHERE c.id = p_change_request_id
+    AND q.id = c.quote_id
+    AND q.provider_id = auth.uid()
+    AND c.status = 'pending'
+  RETURNING c.quote_id, c.customer_id INTO v_quote_id, v_customer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'change_request_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message, quote_id, service_request_id)
+  SELECT
+    v_customer_id,
+    'quote_changes_declined',
+    'El profesional mantuvo su cotización',
+    COALESCE(NULLIF(TRIM(p_response_message), ''), 'La cotización para "' || sr.title || '" sigue igual. Puedes aceptarla o pedir otros cambios.'),
+    q.id,
+    q.service_request_id
+  FROM quotes q
+  INNER JOIN service_requests sr ON sr.id = q.service_request_id
+  WHERE q.id = v_quote_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION request_quote_changes(UUID, TEXT[], INTEGER, DATE, TIME, TIME, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION revise_quote(UUID, INTEGER, INTEGER, BOOLEAN, JSONB, JSONB, JSONB, INTEGER, NUMERIC, INTEGER, DECIMAL, DATE, TIME, TIME, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION decline_quote_changes(UUID, TEXT) TO authenticated;
+
+-- ============================================================================
+-- 6. FIRST VERSION OF NEW QUOTES
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION record_initial_quote_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO quote_revisions (
+    quote_id, version, price_clp, materials_cost_clp, includes_materials, labor_items, materials_items,
+    additional_fees, travel_fee_clp, vat_rate, iva_clp, estimated_duration_hours, availability_date,
+    availability_time_start, availability_time_end, message
+  ) VALUES (
+    NEW.id, NEW.version, NEW.price_clp, COALESCE(NEW.materials_cost_clp, 0), COALESCE(NEW.includes_materials, FALSE),
+    NEW.labor_items, NEW.materials_items, NEW.additional_fees, NEW.travel_fee_clp, NEW.vat_rate, NEW.iva_clp,
+    NEW.estimated_duration_hours, NEW.availability_date, NEW.availability_time_start, NEW.availability_time_end,
+    NEW.message
+  )
+  ON CONFLICT (quote_id, version) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_record_initial_quote_revision ON quotes;
+CREATE TRIGGER trigger_record_initial_quote_revision
+  AFTER INSERT ON quotes
+  FOR EACH ROW EXECUTE FUNCTION record_initial_quote_revision();
+
+-- ============================================================================
+-- 7. ACCEPTANCE OF A VERSION
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION accept_quote(p_quote_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_quote quotes%ROWTYPE;
+  v_request service_requests%ROWTYPE;
+  v_booking_id UUID;
+BEGIN
+  SELECT * INTO v_quote FROM quotes WHERE id = p_quote_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'quote_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Lock the request first so two acceptances on the same request run one after the other
+  SELECT * INTO v_request FROM service_requests WHERE id = v_quote.service_request_id FOR UPDATE;
+  IF NOT FOUND OR v_request.customer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'quote_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_request.status NOT IN ('open', 'quoted') THEN
+    RAISE EXCEPTION 'request_closed' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Also waits for a revision in progress, so the accepted version is the one shown
+  SELECT * INTO v_quote FROM quotes WHERE id = p_quote_id FOR UPDATE;
+  IF v_quote.status IS DISTINCT FROM 'active' THEN
+    RAISE EXCEPTION 'quote_not_active' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_quote.expires_at IS NOT NULL AND v_quote.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'quote_expired' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_quote.availability_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'quote_date_passed' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE quotes SET status = 'accepted', accepted_version = version WHERE id = v_quote.id;
+
+  UPDATE quotes SET status = 'rejected'
+  WHERE service_request_id = v_request.id AND id <> v_quote.id AND status = 'active';
+
+  -- Accepting ends every negotiation on the request
+  UPDATE quote_change_requests c SET status = 'withdrawn'
+  FROM quotes q
+  WHERE q.id = c.quote_id AND q.service_request_id = v_request.id AND c.status = 'pending';
+
+  UPDATE service_requests SET status = 'booked' WHERE id = v_request.id;
+
+  -- The provider committed to price and slot in the quote, so the booking starts
+  -- accepted. IVA is part of the service price; the platform fee comes out of the
+  -- provider's payout (payments.platform_fee_clp), not the customer's total.
+  INSERT INTO bookings (
+    customer_id,
+    provider_id,
+    service_id,
+    quote_id,
+    service_request_id,
+    title,
+    description,
+    address_id,
+    scheduled_date,
+    scheduled_time_start,
+    scheduled_time_end,
+    service_price_clp,
+    materials_cost_clp,
+    platform_fee_clp,
+    total_price_clp,
+    status,
+    customer_notes,
+    accepted_at
+  ) VALUES (
+    v_request.customer_id,
+    v_quote.provider_id,
+    v_request.service_id,
+    v_quote.id,
+    v_request.id,
+    v_request.title,
+    v_request.description,
+    v_request.address_id,
+    v_quote.availability_date,
+    v_quote.availability_time_start,
+    v_quote.availability_time_end,
+    v_quote.price_clp + v_quote.iva_clp,
+    COALESCE(v_quote.materials_cost_clp, 0),
+    0,
+    v_quote.price_clp + v_quote.iva_clp + COALESCE(v_quote.materials_cost_clp, 0),
+    'accepted',
+    v_quote.message,
+    NOW()
+  )
+  RETURNING id INTO v_booking_id;
+
+  RETURN v_booking_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 8. QUOTE INBOX
+-- ============================================================================
+--
+-- The inbox shows each quote's version and whether the customer is waiting on a
+-- revision. Adding columns changes the return type, so the function is recreated.
+
+DROP FUNCTION IF EXISTS get_service_request_quotes(UUID);
+
+CREATE FUNCTION get_service_request_quotes(p_service_request_id UUID)
+RETURNS TABLE (
+  id UUID,
+  provider_id UUID,
+  provider_name TEXT,
+  business_name TEXT,
+  avatar_url TEXT,
+  rating DECIMAL,
+  total_reviews INTEGER,
+  total_jobs_completed INTEGER,
+  verification_score INTEGER,
+  is_identity_verified BOOLEAN,
+  is_background_checked BOOLEAN,
+  trust_level TEXT,
+  status TEXT,
+  price_clp INTEGER,
+  materials_cost_clp INTEGER,
+  includes_materials BOOLEAN,
+  labor_items JSONB,
+  materials_items JSONB,
+  additional_fees JSONB,
+  travel_fee_clp INTEGER,
+  document_type TEXT,
+  vat_rate NUMERIC,
+  iva_clp INTEGER,
+  total_clp INTEGER,
+  estimated_duration_hours NUMERIC,
+  session_structure JSONB,
+  requires_onsite_confirmation BOOLEAN,
+  site_visit_cost_clp INTEGER,
+  message TEXT,
+  availability_date DATE,
+  availability_time_start TIME,
+  availability_time_end TIME,
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  version INTEGER,
+  accepted_version INTEGER,
+  pending_change_request JSONB
+) AS $$
+BEGIN
+  -- Provider names and scores are shown only to the customer who owns the request
+  IF NOT EXISTS (
+    SELECT 1 FROM service_requests sr
+    WHERE sr.id = p_service_request_id AND sr.customer_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Service request not found' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    q.id,
+    q.provider_id,
+    u.full_name,
+    pp.business_name,
+    u.avatar_url,
+    pp.rating,
+    COALESCE(pp.total_reviews, 0),
+    COALESCE(pp.total_jobs_completed, 0),
+    COALESCE(pp.verification_score, 0),
+    COALESCE(pp.is_identity_verified, FALSE),
+    COALESCE(pp.is_background_checked, FALSE),
+    provider_trust_level(pp.verification_score, pp.rating, pp.total_reviews),
+    q.status,
+    q.price_clp,
+    COALESCE(q.materials_cost_clp, 0),
+    COALESCE(q.includes_materials, FALSE),
+    q.labor_items,
+    q.materials_items,
+    q.additional_fees,
+    q.travel_fee_clp,
+    q.document_type,
+    q.vat_rate,
+    q.iva_clp,
+    q.price_clp + COALESCE(q.materials_cost_clp, 0) + q.iva_clp,
+    q.estimated_duration_hours,
+    q.session_structure,
+    q.requires_onsite_confirmation,
+    q.site_visit_cost_clp,
+    q.message,
+    q.availability_date,
+    q.availability_time_start,
+    q.availability_time_end,
+    q.expires_at,
+    q.created_at,
+    q.version,
+    q.accepted_version,
+    (
+      SELECT TO_JSONB(c) FROM quote_change_requests c
+      WHERE c.quote_id = q.id AND c.status = 'pending'
+    )
+  FROM quotes q
+  INNER JOIN users u ON u.id = q.provider_id
+  LEFT JOIN provider_profiles pp ON pp.user_id = q.provider_id
+  WHERE q.service_request_id = p_service_request_id
+    AND q.status IN ('active', 'accepted')
+  ORDER BY q.status = 'accepted' DESC, q.price_clp + COALESCE(q.materials_cost_clp, 0) + q.iva_clp, q.created_at;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_service_request_quotes(UUID) TO authenticated;
+
+-- ============================================================================
+-- 9. PROVIDER QUOTES
+-- ============================================================================
+--
+-- The provider's side of the inbox: their quotes on requests that still accept
+-- quotes, with the change request waiting on each. Expired quotes are listed too so
+-- they can be renewed.
+
+CREATE OR REPLACE FUNCTION get_provider_quotes(p_provider_id UUID)
+RETURNS TABLE (
+  id UUID,
+  service_request_id UUID,
+  request_title TEXT,
+  comuna TEXT,
+  service_category_id TEXT,
+  service_name TEXT,
+  project_type_id TEXT,
+  project_type_name TEXT,
+  project_type_icon TEXT,
+  status TEXT,
+  version INTEGER,
+  price_clp INTEGER,
+  materials_cost_clp INTEGER,
+  labor_items JSONB,
+  materials_items JSONB,
+  additional_fees JSONB,
+  travel_fee_clp INTEGER,
+  iva_clp INTEGER,
+  total_clp INTEGER,
+  estimated_duration_hours NUMERIC,
+  message TEXT,
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  pending_change_request JSONB
+) AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_provider_id THEN
+    RAISE EXCEPTION 'Cannot read another provider''s quotes' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    q.id,
+    q.service_request_id,
+    sr.title,
+    a.comuna,
+    s.category,
+    COALESCE(sc.name, s.name),
+    sr.project_type_id,
+    pt.name,
+    pt.icon,
+    q.status,
+    q.version,
+    q.price_clp,
+    COALESCE(q.materials_cost_clp, 0),
+    q.labor_items,
+    q.materials_items,
+    q.additional_fees,
+    q.travel_fee_clp,
+    q.iva_clp,
+    q.price_clp + COALESCE(q.materials_cost_clp, 0) + q.iva_clp,
+    q.estimated_duration_hours,
+    q.message,
+    q.expires_at,
+    q.created_at,
+    (
+      SELECT TO_JSONB(c) FROM quote_change_requests c
+      WHERE c.quote_id = q.id AND c.status = 'pending'
+    )
+  FROM quotes q
+  INNER JOIN service_requests sr ON sr.id = q.service_request_id
+  INNER JOIN services s ON s.id = sr.service_id
+  LEFT JOIN addresses a ON a.id = sr.address_id
+  LEFT JOIN service_categories sc ON sc.id = s.category
+  LEFT JOIN project_types pt ON pt.id = sr.project_type_id
+  WHERE q.provider_id = p_provider_id
+    AND q.status IN ('active', 'expired')
+    AND sr.status IN ('open', 'quoted')
+  -- Requests waiting on the provider first
+  ORDER BY EXISTS (
+    SELECT 1 FROM quote_change_requests c WHERE c.quote_id = q.id AND c.status = 'pending'
+  ) DESC, q.created_at DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_provider_quotes(UUID) TO authenticated;
+
+-- ============================================================================
+-- 10. COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN quotes.version IS 'Current version of the quote; bumped by revise_quote';
+COMMENT ON COLUMN quotes.accepted_version IS 'Version the customer accepted';
+COMMENT ON TABLE quote_revisions IS 'Every version of a quote with its diff against the previous one';
+COMMENT ON COLUMN quote_revisions.changes IS
+  'Diff against the previous version: {labor, materials, fees: {added, removed, changed}, total, availability, duration: {from, to}}';
+COMMENT ON TABLE quote_change_requests IS 'Customer requests for changes or counter-offers on a quote version';
+COMMENT ON FUNCTION quote_items_diff(JSONB, JSONB) IS 'Diff of two item arrays matched by name';
+COMMENT ON FUNCTION request_quote_changes(UUID, TEXT[], INTEGER, DATE, TIME, TIME, TEXT, TEXT) IS
+  'Customer asks for changes on price, date or materials of the current quote version';
+COMMENT ON FUNCTION revise_quote(UUID, INTEGER, INTEGER, BOOLEAN, JSONB, JSONB, JSONB, INTEGER, NUMERIC, INTEGER, DECIMAL, DATE, TIME, TIME, TEXT, UUID) IS
+  'Provider issues a new quote version, recording its diff and answering the pending change request';
+COMMENT ON FUNCTION decline_quote_changes(UUID, TEXT) IS 'Provider keeps the current version and declines the change request';
+COMMENT ON FUNCTION get_service_request_quotes(UUID) IS
+  'Active and accepted quotes on the caller''s service request with provider reputation, version and pending change request, cheapest first';
+COMMENT ON FUNCTION get_provider_quotes(UUID) IS
+  'A provider''s active and expired quotes on requests still taking quotes, with the pending change request; those waiting on the provider first';
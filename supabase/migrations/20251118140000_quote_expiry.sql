@@ -0,0 +1,308 @@
+-- Quote and Request Expiry
+-- November 18, 2025
+--
+-- quotes.expires_at (48 hours) and service_requests.expires_at (7 days) were only
+-- defaults: nothing moved a row to 'expired'. run_quote_expiry() is the scheduled
+-- job that does it, in three passes:
+--   1. Requests past expires_at expire together with their active quotes.
+--   2. Quotes past expires_at expire; the provider is nudged to renew when the
+--      request is still taking quotes.
+--   3. Customers get one reminder while a quote is about to lapse.
+-- Every transition writes a notification and an audit_log entry. Providers can
+-- extend their own quote with extend_quote_validity(), which also revives a quote
+-- that already expired on a request that is still open.
+
+-- ============================================================================
+-- 1. COLUMNS
+-- ============================================================================
+
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS expiry_reminder_sent_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_quotes_active_expiry ON quotes(expires_at) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_service_requests_open_expiry ON service_requests(expires_at)
+  WHERE status IN ('open', 'quoted');
+
+-- A new deadline (revision or extension) earns a new reminder
+CREATE OR REPLACE FUNCTION reset_quote_expiry_reminder()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.expires_at IS DISTINCT FROM OLD.expires_at THEN
+    NEW.expiry_reminder_sent_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_reset_quote_expiry_reminder ON quotes;
+CREATE TRIGGER trigger_reset_quote_expiry_reminder
+  BEFORE UPDATE OF expires_at ON quotes
+  FOR EACH ROW EXECUTE FUNCTION reset_quote_expiry_reminder();
+
+-- ============================================================================
+-- 2. NOTIFICATIONS
+-- ============================================================================
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'quote_expiring';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'quote_expired';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'quote_extended';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'service_request_expired';
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS quote_id UUID REFERENCES quotes(id) ON DELETE CASCADE;
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS service_request_id UUID REFERENCES service_requests(id) ON DELETE CASCADE;
+
+-- ============================================================================
+-- 3. EXPIRY JOB
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION run_quote_expiry(
+  p_batch_size INTEGER DEFAULT 500,
+  p_reminder_window INTERVAL DEFAULT INTERVAL '12 hours'
+) RETURNS TABLE (
+  requests_expired INTEGER,
+  quotes_expired INTEGER,
+  reminders_sent INTEGER
+) AS $$
+DECLARE
+  v_request RECORD;
+  v_quote RECORD;
+  v_requests_expired INTEGER := 0;
+  v_quotes_expired INTEGER := 0;
+  v_reminders_sent INTEGER := 0;
+BEGIN
+  -- 1. Requests nobody booked in time
+  FOR v_request IN
+    SELECT sr.id, sr.customer_id, sr.title, sr.expires_at
+    FROM service_requests sr
+    WHERE sr.status IN ('open', 'quoted') AND sr.expires_at <= NOW()
+    ORDER BY sr.expires_at
+    LIMIT p_batch_size
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE service_requests SET status = 'expired' WHERE id = v_request.id;
+
+    INSERT INTO notifications (user_id, type, title, message, service_request_id)
+    VALUES (
+      v_request.customer_id,
+      'service_request_expired',
+      'Tu solicitud expiró',
+      '"' || v_request.title || '" dejó de recibir cotizaciones. Puedes publicarla de nuevo cuando quieras.',
+      v_request.id
+    );
+    INSERT INTO audit_log (event_type, user_id, details)
+    VALUES (
+      'service_request_expired',
+      v_request.customer_id,
+      JSONB_BUILD_OBJECT('service_request_id', v_request.id, 'expires_at', v_request.expires_at, 'source', 'run_quote_expiry')
+    );
+
+    -- Quotes on the request go with it; there is nothing left to renew them for
+    FOR v_quote IN
+      UPDATE quotes q SET status = 'expired'
+      WHERE q.service_request_id = v_request.id AND q.status = 'active'
+      RETURNING q.id, q.provider_id, q.version
+    LOOP
+      INSERT INTO notifications (user_id, type, title, message, quote_id, service_request_id)
+      VALUES (
+        v_quote.provider_id,
+        'quote_expired',
+        'Cotización cerrada',
+        'La solicitud "' || v_request.title || '" expiró sin que el cliente eligiera una cotización.',
+        v_quote.id,
+        v_request.id
+      );
+      INSERT INTO audit_log (event_type, user_id, details)
+      VALUES (
+        'quote_expired',
+        v_quote.provider_id,
+        JSONB_BUILD_OBJECT(
+          'quote_id', v_quote.id, 'service_request_id', v_request.id, 'version', v_quote.version,
+          'reason', 'service_request_expired', 'source', 'run_quote_expiry'
+        )
+      );
+      v_quotes_expired := v_quotes_expired + 1;
+    END LOOP;
+
+    -- Change requests can't be answered anymore
+    UPDATE quote_change_requests c SET status = 'withdrawn'
+    FROM quotes q
+    WHERE q.id = c.quote_id AND q.service_request_id = v_request.id AND c.status = 'pending';
+
+    v_requests_expired := v_requests_expired + 1;
+  END LOOP;
+
+  -- 2. Quotes past their own deadline
+  FOR v_quote IN
+    SELECT q.id, q.provider_id, q.version, q.expires_at, sr.id AS service_request_id, sr.title
+    FROM quotes q
+    INNER JOIN service_requests sr ON sr.id = q.service_request_id
+    WHERE q.status = 'active' AND q.expires_at <= NOW()
+    ORDER BY q.expires_at
+    LIMIT p_batch_size
+    FOR UPDATE OF q SKIP LOCKED
+  LOOP
+    UPDATE quotes SET status = 'expired' WHERE id = v_quote.id;
+    UPDATE quote_change_requests SET status = 'withdrawn' WHERE quote_id = v_quote.id AND status = 'pending';
+
+    -- Pass 1 already closed expired requests, so the customer can still hire: nudge the provider
+    INSERT INTO notifications (user_id, type, title, message, quote_id, service_request_id)
+    VALUES (
+      v_quote.provider_id,
+      'quote_expired',
+      'Tu cotización expiró',
+      'El cliente aún no elige para "' || v_quote.title || '". Renuévala desde Mis cotizaciones para seguir participando.',
+      v_quote.id,
+      v_quote.service_request_id
+    );
+    INSERT INTO audit_log (event_type, user_id, details)
+    VALUES (
+      'quote_expired',
+      v_quote.provider_id,
+      JSONB_BUILD_OBJECT(
+        'quote_id', v_quote.id, 'service_request_id', v_quote.service_request_id, 'version', v_quote.version,
+        'expires_at', v_quote.expires_at, 'reason', 'quote_expired', 'source', 'run_quote_expiry'
+      )
+    );
+    v_quotes_expired := v_quotes_expired + 1;
+  END LOOP;
+
+  -- 3. One reminder per deadline while the customer can still accept
+  FOR v_quote IN
+    SELECT q.id, q.expires_at, sr.id AS service_request_id, sr.customer_id, sr.title,
+      COALESCE(pp.business_name, u.full_name) AS provider_name
+    FROM quotes q
+    INNER JOIN service_requests sr ON sr.id = q.service_request_id
+    INNER JOIN users u ON u.id = q.provider_id
+    LEFT JOIN provider_profiles pp ON pp.user_id = q.provider_id
+    WHERE q.status = 'active'
+      AND q.expiry_reminder_sent_at IS NULL
+      AND q.expires_at > NOW()
+      AND q.expires_at <= NOW() + p_reminder_window
+      AND sr.status IN ('open', 'quoted')
+    ORDER BY q.expires_at
+    LIMIT p_batch_size
+    FOR UPDATE OF q SKIP LOCKED
+  LOOP
+    UPDATE quotes SET expiry_reminder_sent_at = NOW() WHERE id = v_quote.id;
+
+    INSERT INTO notifications (user_id, type, title, message, quote_id, service_request_id)
+    VALUES (
+      v_quote.customer_id,
+      'quote_expiring',
+      'Una cotización está por vencer',
+      'La cotización de ' || v_quote.provider_name || ' para "' || v_quote.title || '" vence el '
+        || TO_CHAR(v_quote.expires_at AT TIME ZONE 'America/Santiago', 'DD/MM HH24:MI') || '.',
+      v_quote.id,
+      v_quote.service_request_id
+    );
+    INSERT INTO audit_log (event_type, user_id, details)
+    VALUES (
+      'quote_expiry_reminder',
+      v_quote.customer_id,
+      JSONB_BUILD_OBJECT(
+        'quote_id', v_quote.id, 'service_request_id', v_quote.service_request_id,
+        'expires_at', v_quote.expires_at, 'source', 'run_quote_expiry'
+      )
+    );
+    v_reminders_sent := v_reminders_sent + 1;
+  END LOOP;
+
+  RETURN QUERY SELECT v_requests_expired, v_quotes_expired, v_reminders_sent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the scheduler (service role) runs the job
+REVOKE EXECUTE ON FUNCTION run_quote_expiry(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- Every 15 minutes where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('quote-expiry', '*/15 * * * *', 'SELECT run_quote_expiry()');
+  END IF;
+END;
+$$;
+
+-- ============================================================================
+-- 4. EXTENSION BY THE PROVIDER
+-- ============================================================================
+--
+-- Errors use stable messages the app translates: quote_not_found, quote_not_extendable,
+-- request_closed, quote_date_passed, invalid_extension.
+
+CREATE OR REPLACE FUNCTION extend_quote_validity(
+  p_quote_id UUID,
+  p_hours INTEGER DEFAULT 48
+) RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_quote quotes%ROWTYPE;
+  v_request service_requests%ROWTYPE;
+  v_expires_at TIMESTAMPTZ;
+BEGIN
+  IF p_hours IS NULL OR p_hours < 1 OR p_hours > 168 THEN
+    RAISE EXCEPTION 'invalid_extension' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT q.* INTO v_quote FROM quotes q WHERE q.id = p_quote_id FOR UPDATE;
+  IF v_quote.id IS NULL OR v_quote.provider_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'quote_not_found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_quote.status NOT IN ('active', 'expired') THEN
+    RAISE EXCEPTION 'quote_not_extendable' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT sr.* INTO v_request FROM service_requests sr WHERE sr.id = v_quote.service_request_id;
+  IF v_request.status NOT IN ('open', 'quoted') OR (v_request.expires_at IS NOT NULL AND v_request.expires_at <= NOW()) THEN
+    RAISE EXCEPTION 'request_closed' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_quote.availability_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'quote_date_passed' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Never beyond the request itself
+  v_expires_at := GREATEST(COALESCE(v_quote.expires_at, NOW()), NOW()) + MAKE_INTERVAL(hours => p_hours);
+  IF v_request.expires_at IS NOT NULL THEN
+    v_expires_at := LEAST(v_expires_at, v_request.expires_at);
+  END IF;
+
+  UPDATE quotes SET status = 'active', expires_at = v_expires_at WHERE id = v_quote.id;
+
+  INSERT INTO notifications (user_id, type, title, message, quote_id, service_request_id)
+  SELECT
+    v_request.customer_id,
+    'quote_extended',
+    CASE WHEN v_quote.status = 'expired' THEN 'Cotización renovada' ELSE 'Cotización extendida' END,
+    COALESCE(pp.business_name, u.full_name) || ' mantiene su cotización para "' || v_request.title || '" hasta el '
+      || TO_CHAR(v_expires_at AT TIME ZONE 'America/Santiago', 'DD/MM HH24:MI') || '.',
+    v_quote.id,
+    v_request.id
+  FROM users u
+  LEFT JOIN provider_profiles pp ON pp.user_id = u.id
+  WHERE u.id = v_quote.provider_id;
+
+  INSERT INTO audit_log (event_type, user_id, details)
+  VALUES (
+    'quote_extended',
+    v_quote.provider_id,
+    JSONB_BUILD_OBJECT(
+      'quote_id', v_quote.id, 'service_request_id', v_request.id, 'previous_status', v_quote.status,
+      'previous_expires_at', v_quote.expires_at, 'expires_at', v_expires_at
+    )
+  );
+
+  RETURN v_expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION extend_quote_validity(UUID, INTEGER) TO authenticated;
+
+-- ============================================================================
+-- 5. COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN quotes.expiry_reminder_sent_at IS 'When the customer was reminded of the current expires_at; cleared when it changes';
+COMMENT ON FUNCTION run_quote_expiry(INTEGER, INTERVAL) IS
+  'Expires requests and quotes past expires_at and reminds customers of quotes about to lapse; returns counts per pass';
+COMMENT ON FUNCTION extend_quote_validity(UUID, INTEGER) IS
+  'Provider extends (or renews an expired) quote by p_hours, capped at the request''s expiry; returns the new expires_at';
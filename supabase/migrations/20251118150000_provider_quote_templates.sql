@@ -0,0 +1,153 @@
+-- Provider Quote Templates
+-- November 18, 2025
+--
+-- Providers save the labor items, materials, notes, duration, session plan and visit
+-- setup they send again and again as named templates, per project type or general
+-- (project_type_id NULL), and apply them to a new job in QuoteScreen. Templates live
+-- in the database so they follow the provider across devices.
+--
+-- A labor item can be priced from the provider's rates instead of a fixed amount:
+--   {name, description?, amount, rate_basis: 'fixed'}                 amount as saved
+--   {name, description?, amount, rate_basis: 'hourly', hours}         hours x provider_profiles.hourly_rate_clp
+--   {name, description?, amount, rate_basis: 'base_price', factor}    factor x provider_base_pricing.base_price_clp
+-- get_provider_quote_templates() prices these with the current rates, so a template
+-- follows rate changes; amount is the last known price and the fallback when the
+-- rate is missing.
+
+-- ============================================================================
+-- 1. TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS provider_quote_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_id UUID NOT NULL REFERENCES provider_profiles(user_id) ON DELETE CASCADE,
+  project_type_id TEXT REFERENCES project_types(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  labor_items JSONB NOT NULL DEFAULT '[]',
+  materials_items JSONB NOT NULL DEFAULT '[]',
+  materials_notes TEXT,
+  notes TEXT,
+  estimated_duration_hours NUMERIC(5,1) CHECK (estimated_duration_hours IS NULL OR estimated_duration_hours > 0),
+  session_structure JSONB,
+  quote_type TEXT NOT NULL DEFAULT 'direct' CHECK (quote_type IN ('direct', 'visit_required')),
+  -- {cost, isDeductible, notes} as in QuoteTypeSelector
+  visit_config JSONB,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT valid_quote_template_name CHECK (TRIM(name) != ''),
+  CONSTRAINT valid_quote_template_items CHECK (
+    jsonb_typeof(labor_items) = 'array' AND jsonb_typeof(materials_items) = 'array'
+  )
+);
+
+-- Names are unique per provider and project type, ignoring case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_provider_quote_templates_name
+  ON provider_quote_templates(provider_id, COALESCE(project_type_id, ''), LOWER(TRIM(name)));
+
+DROP TRIGGER IF EXISTS update_provider_quote_templates_updated_at ON provider_quote_templates;
+CREATE TRIGGER update_provider_quote_templates_updated_at
+  BEFORE UPDATE ON provider_quote_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE provider_quote_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Providers can manage their own quote templates" ON provider_quote_templates;
+CREATE POLICY "Providers can manage their own quote templates" ON provider_quote_templates
+  FOR ALL USING (provider_id = auth.uid()) WITH CHECK (provider_id = auth.uid());
+
+-- ============================================================================
+-- 3. PRICING WITH CURRENT RATES
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION price_quote_template_items(
+  p_labor_items JSONB,
+  p_hourly_rate_clp INTEGER,
+  p_base_price_clp INTEGER
+) RETURNS JSONB AS $$
+  SELECT COALESCE(JSONB_AGG(
+    item || JSONB_BUILD_OBJECT('amount', CASE
+      WHEN item->>'rate_basis' = 'hourly' AND p_hourly_rate_clp IS NOT NULL AND item ? 'hours' THEN
+        ROUND((item->>'hours')::NUMERIC * p_hourly_rate_clp)::INTEGER
+      WHEN item->>'rate_basis' = 'base_price' AND p_base_price_clp IS NOT NULL THEN
+        ROUND(COALESCE((item->>'factor')::NUMERIC, 1) * p_base_price_clp)::INTEGER
+      ELSE COALESCE((item->>'amount')::INTEGER, 0)
+    END)
+    ORDER BY ordinality
+  ), '[]')
+  FROM JSONB_ARRAY_ELEMENTS(COALESCE(p_labor_items, '[]')) WITH ORDINALITY AS t(item, ordinality);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The caller's templates with labor priced at their current rates: templates for
+-- p_project_type_id first, then general ones, most recently used first
+CREATE OR REPLACE FUNCTION get_provider_quote_templates(p_project_type_id TEXT DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  project_type_id TEXT,
+  project_type_name TEXT,
+  name TEXT,
+  labor_items JSONB,
+  materials_items JSONB,
+  materials_notes TEXT,
+  notes TEXT,
+  estimated_duration_hours NUMERIC,
+  session_structure JSONB,
+  quote_type TEXT,
+  visit_config JSONB,
+  prices_changed BOOLEAN,
+  last_used_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    t.id,
+    t.project_type_id,
+    pt.name,
+    t.name,
+    priced.items,
+    t.materials_items,
+    t.materials_notes,
+    t.notes,
+    t.estimated_duration_hours,
+    t.session_structure,
+    t.quote_type,
+    t.visit_config,
+    priced.items IS DISTINCT FROM t.labor_items,
+    t.last_used_at,
+    t.updated_at
+  FROM provider_quote_templates t
+  LEFT JOIN project_types pt ON pt.id = t.project_type_id
+  LEFT JOIN provider_profiles pp ON pp.user_id = t.provider_id
+  LEFT JOIN provider_base_pricing bp
+    ON bp.provider_id = t.provider_id AND bp.project_type_id = t.project_type_id AND bp.is_active = TRUE
+  CROSS JOIN LATERAL (
+    SELECT price_quote_template_items(t.labor_items, pp.hourly_rate_clp, bp.base_price_clp) AS items
+  ) priced
+  WHERE t.provider_id = auth.uid()
+    AND (p_project_type_id IS NULL OR t.project_type_id = p_project_type_id OR t.project_type_id IS NULL)
+  ORDER BY
+    t.project_type_id IS NULL,
+    t.last_used_at DESC NULLS LAST,
+    t.name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_provider_quote_templates(TEXT) TO authenticated;
+
+-- ============================================================================
+-- 4. COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE provider_quote_templates IS 'Named quote templates a provider applies to new jobs, per project type or general';
+COMMENT ON COLUMN provider_quote_templates.labor_items IS
+  'Labor items {name, description?, amount, rate_basis: fixed|hourly|base_price, hours?, factor?}; see migration header';
+COMMENT ON FUNCTION price_quote_template_items(JSONB, INTEGER, INTEGER) IS
+  'Re-prices template labor items priced by hourly rate or base price; fixed items keep their amount';
+COMMENT ON FUNCTION get_provider_quote_templates(TEXT) IS
+  'Caller''s quote templates for a project type (plus general ones) with labor priced at current rates';
@@ -0,0 +1,173 @@
+-- Quote Documents (PDF)
+-- November 18, 2025
+--
+-- Customers ask providers for a formal "cotización". The quote-pdf edge function
+-- renders one per quote version from get_quote_document_data() and stores it in the
+-- private quote-documents bucket at quotes/<quote_id>/v<version>.pdf; quote_documents
+-- records each file so both sides of the quote can read it. A version is rendered
+-- once per status: acceptance adds the customer's details, which the provider only
+-- sees from then on.
+
+-- ============================================================================
+-- 1. TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS quote_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_id UUID NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  quote_version INTEGER NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  document_number TEXT NOT NULL,
+  -- Quote status the file was rendered at
+  quote_status TEXT NOT NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (quote_id, quote_version)
+);
+
+-- ============================================================================
+-- 2. STORAGE
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'quote-documents',
+  'quote-documents',
+  FALSE,
+  5242880, -- 5MB
+  ARRAY['application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+--
+-- Files are written by the edge function with the service role; participants read them.
+
+ALTER TABLE quote_documents ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Quote participants can view quote documents" ON quote_documents;
+CREATE POLICY "Quote participants can view quote documents" ON quote_documents
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM quotes q
+      INNER JOIN service_requests sr ON sr.id = q.service_request_id
+      WHERE q.id = quote_documents.quote_id
+        AND (q.provider_id = auth.uid() OR sr.customer_id = auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Quote participants can read quote PDFs" ON storage.objects;
+CREATE POLICY "Quote participants can read quote PDFs" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'quote-documents'
+    AND EXISTS (
+      SELECT 1 FROM quote_documents d
+      INNER JOIN quotes q ON q.id = d.quote_id
+      INNER JOIN service_requests sr ON sr.id = q.service_request_id
+      WHERE d.storage_path = storage.objects.name
+        AND (q.provider_id = auth.uid() OR sr.customer_id = auth.uid())
+    )
+  );
+
+-- ============================================================================
+-- 4. DOCUMENT DATA
+-- ============================================================================
+
+-- Everything printed on the document, for the provider or the customer of the quote
+CREATE OR REPLACE FUNCTION get_quote_document_data(p_quote_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_full_access BOOLEAN;
+  v_result JSONB;
+BEGIN
+  SELECT sr.customer_id = auth.uid() OR q.status = 'accepted' INTO v_full_access
+  FROM quotes q
+  INNER JOIN service_requests sr ON sr.id = q.service_request_id
+  WHERE q.id = p_quote_id;
+
+  SELECT JSONB_BUILD_OBJECT(
+    'quote', JSONB_BUILD_OBJECT(
+      'id', q.id,
+      'version', q.version,
+      'status', q.status,
+      'price_clp', q.price_clp,
+      'materials_cost_clp', COALESCE(q.materials_cost_clp, 0),
+      'includes_materials', COALESCE(q.includes_materials, FALSE),
+      'labor_items', q.labor_items,
+      'materials_items', q.materials_items,
+      'additional_fees', q.additional_fees,
+      'travel_fee_clp', q.travel_fee_clp,
+      'document_type', q.document_type,
+      'vat_rate', q.vat_rate,
+      'iva_clp', q.iva_clp,
+      'estimated_duration_hours', q.estimated_duration_hours,
+      'availability_date', q.availability_date,
+      'availability_time_start', q.availability_time_start,
+      'availability_time_end', q.availability_time_end,
+      'message', q.message,
+      'expires_at', q.expires_at,
+      'created_at', q.created_at,
+      'updated_at', q.updated_at
+    ),
+    'provider', JSONB_BUILD_OBJECT(
+      'id', pu.id,
+      'full_name', pu.full_name,
+      'business_name', pp.business_name,
+      'rut', pu.rut_number,
+      'email', pu.email,
+      'phone', pu.phone_number,
+      'comuna', pp.comuna
+    ),
+    -- The provider gets the customer's contact details and street once the quote is accepted
+    'customer', JSONB_BUILD_OBJECT(
+      'id', cu.id,
+      'full_name', cu.full_name,
+      'rut', CASE WHEN v_full_access THEN cu.rut_number END,
+      'email', CASE WHEN v_full_access THEN cu.email END,
+      'phone', CASE WHEN v_full_access THEN cu.phone_number END
+    ),
+    'request', JSONB_BUILD_OBJECT(
+      'id', sr.id,
+      'title', sr.title,
+      'description', sr.description,
+      'service_id', sr.service_id,
+      'project_type_id', sr.project_type_id,
+      'project_type_name', pt.name,
+      'project_type_category', pt.category,
+      'address', CASE WHEN a.id IS NOT NULL THEN
+        JSONB_BUILD_OBJECT('street', CASE WHEN v_full_access THEN a.street END, 'comuna', a.comuna, 'city', a.city, 'region', a.region)
+      END
+    )
+  ) INTO v_result
+  FROM quotes q
+  INNER JOIN service_requests sr ON sr.id = q.service_request_id
+  INNER JOIN users pu ON pu.id = q.provider_id
+  INNER JOIN users cu ON cu.id = sr.customer_id
+  LEFT JOIN provider_profiles pp ON pp.user_id = q.provider_id
+  LEFT JOIN project_types pt ON pt.id = sr.project_type_id
+  LEFT JOIN addresses a ON a.id = sr.address_id
+  WHERE q.id = p_quote_id
+    AND (q.provider_id = auth.uid() OR sr.customer_id = auth.uid());
+
+  IF v_result IS NULL THEN
+    RAISE EXCEPTION 'quote_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_quote_document_data(UUID) TO authenticated;
+
+-- ============================================================================
+-- 5. COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE quote_documents IS 'Quote PDFs rendered by the quote-pdf edge function, one per quote version';
+COMMENT ON COLUMN quote_documents.document_number IS 'Number printed on the document, e.g. COT-3F2A91C0-v2';
+COMMENT ON COLUMN quote_documents.quote_status IS 'Quote status when rendered; quote-pdf renders again when it changes';
+COMMENT ON FUNCTION get_quote_document_data(UUID) IS
+  'Provider, customer, request and quote data printed on the quote PDF; caller must be the provider or the customer';
@@ -0,0 +1,288 @@
+-- Materials Catalog
+-- November 18, 2025
+--
+-- Providers typed every material in MaterialsEditor by hand, so the same "Cañería PVC
+-- 40mm" showed up under a dozen names and prices. material_catalog_items is a shared
+-- catalog of common Chilean hardware items per service category (service_id NULL for
+-- items any trade uses) with their unit and a reference price. Providers keep their
+-- own price per item in provider_material_prices, and search_material_catalog() feeds
+-- the autocomplete with the provider's price first.
+--
+-- Quote materials_items rows picked from the catalog carry its id:
+--   {name, quantity, unit, price_per_unit, subtotal, catalog_item_id}
+-- quote_material_lines expands them so material costs can be compared across jobs.
+
+-- ============================================================================
+-- 1. CATALOG
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS material_catalog_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_id TEXT REFERENCES service_categories(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  brand TEXT,
+  unit TEXT NOT NULL CHECK (unit IN (
+    'unidad', 'metro', 'm2', 'm3', 'litro', 'galon', 'kg', 'saco', 'rollo', 'caja', 'tineta', 'plancha', 'par', 'juego'
+  )),
+  reference_price_clp INTEGER NOT NULL CHECK (reference_price_clp >= 0),
+  -- Other names providers use for the item, e.g. "caneria" for tubo
+  keywords TEXT,
+  search_text TEXT GENERATED ALWAYS AS (
+    LOWER(TRANSLATE(name || ' ' || COALESCE(brand, '') || ' ' || COALESCE(keywords, ''), 'ÁÉÍÓÚÜÑáéíóúüñ', 'AEIOUUNaeiouun'))
+  ) STORED,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT valid_material_catalog_name CHECK (TRIM(name) != '')
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_material_catalog_items_name
+  ON material_catalog_items(COALESCE(service_id, ''), LOWER(name), unit);
+CREATE INDEX IF NOT EXISTS idx_material_catalog_items_service
+  ON material_catalog_items(service_id, sort_order) WHERE is_active;
+CREATE INDEX IF NOT EXISTS idx_material_catalog_items_search
+  ON material_catalog_items USING gin (search_text gin_trgm_ops);
+
+DROP TRIGGER IF EXISTS update_material_catalog_items_updated_at ON material_catalog_items;
+CREATE TRIGGER update_material_catalog_items_updated_at
+  BEFORE UPDATE ON material_catalog_items
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. PROVIDER PRICES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS provider_material_prices (
+  provider_id UUID NOT NULL REFERENCES provider_profiles(user_id) ON DELETE CASCADE,
+  catalog_item_id UUID NOT NULL REFERENCES material_catalog_items(id) ON DELETE CASCADE,
+  price_clp INTEGER NOT NULL CHECK (price_clp >= 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (provider_id, catalog_item_id)
+);
+
+DROP TRIGGER IF EXISTS update_provider_material_prices_updated_at ON provider_material_prices;
+CREATE TRIGGER update_provider_material_prices_updated_at
+  BEFORE UPDATE ON provider_material_prices
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE material_catalog_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE provider_material_prices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view active catalog materials" ON material_catalog_items;
+CREATE POLICY "Anyone can view active catalog materials" ON material_catalog_items
+  FOR SELECT USING (is_active);
+
+DROP POLICY IF EXISTS "Providers can manage their own material prices" ON provider_material_prices;
+CREATE POLICY "Providers can manage their own material prices" ON provider_material_prices
+  FOR ALL USING (provider_id = auth.uid()) WITH CHECK (provider_id = auth.uid());
+
+-- ============================================================================
+-- 4. QUOTED MATERIALS
+-- ============================================================================
+
+-- One row per catalog material in a quote; runs with the caller's RLS on quotes
+CREATE OR REPLACE VIEW quote_material_lines WITH (security_invoker = true) AS
+SELECT
+  q.id AS quote_id,
+  q.provider_id,
+  q.service_request_id,
+  (item->>'catalog_item_id')::UUID AS catalog_item_id,
+  item->>'name' AS name,
+  item->>'unit' AS unit,
+  NULLIF(item->>'quantity', '')::NUMERIC AS quantity,
+  NULLIF(item->>'price_per_unit', '')::NUMERIC AS price_per_unit,
+  NULLIF(item->>'subtotal', '')::NUMERIC AS subtotal,
+  q.status,
+  q.created_at
+FROM quotes q
+CROSS JOIN LATERAL jsonb_array_elements(
+  CASE WHEN jsonb_typeof(q.materials_items) = 'array' THEN q.materials_items ELSE '[]'::JSONB END
+) AS item
+WHERE item->>'catalog_item_id' ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+
+CREATE INDEX IF NOT EXISTS idx_quotes_materials_items
+  ON quotes USING gin (materials_items jsonb_path_ops);
+
+-- ============================================================================
+-- 5. SEARCH
+-- ============================================================================
+
+-- Catalog items for the autocomplete, the calling provider's own price and the
+-- median price quoted by other providers in the last 180 days. Items of the job's
+-- service category and the ones the provider already priced come first.
+CREATE OR REPLACE FUNCTION search_material_catalog(
+  p_query TEXT DEFAULT NULL,
+  p_service_id TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  service_id TEXT,
+  name TEXT,
+  brand TEXT,
+  unit TEXT,
+  reference_price_clp INTEGER,
+  provider_price_clp INTEGER,
+  market_price_clp INTEGER
+) AS $$
+DECLARE
+  v_query TEXT := NULLIF(LOWER(TRANSLATE(TRIM(COALESCE(p_query, '')), 'ÁÉÍÓÚÜÑáéíóúüñ', 'AEIOUUNaeiouun')), '');
+BEGIN
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      m.*,
+      pmp.price_clp AS own_price,
+      CASE WHEN v_query IS NULL THEN 0 ELSE similarity(m.search_text, v_query) END AS score
+    FROM material_catalog_items m
+    LEFT JOIN provider_material_prices pmp
+      ON pmp.catalog_item_id = m.id AND pmp.provider_id = auth.uid()
+    WHERE m.is_active
+      AND (m.service_id IS NULL OR p_service_id IS NULL OR m.service_id = p_service_id)
+      AND (v_query IS NULL OR m.search_text LIKE '%' || v_query || '%' OR m.search_text % v_query)
+    ORDER BY
+      (m.search_text LIKE v_query || '%') DESC NULLS LAST,
+      (pmp.price_clp IS NOT NULL) DESC,
+      (m.service_id IS NOT DISTINCT FROM p_service_id) DESC,
+      score DESC,
+      m.sort_order,
+      m.name
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50)
+  )
+  SELECT
+    c.id,
+    c.service_id,
+    c.name,
+    c.brand,
+    c.unit,
+    c.reference_price_clp,
+    c.own_price,
+    market.price
+  FROM candidates c
+  LEFT JOIN LATERAL (
+    -- Only with three or more other providers, so no single provider's prices show through
+    -- Items are client JSON: a missing or non-numeric price is skipped, not cast
+    SELECT ROUND(PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY NULLIF(line.item->>'price_per_unit', '')::NUMERIC))::INTEGER AS price
+    FROM quotes q
+    CROSS JOIN LATERAL jsonb_array_elements(q.materials_items) AS line(item)
+    WHERE q.materials_items @> JSONB_BUILD_ARRAY(JSONB_BUILD_OBJECT('catalog_item_id', c.id::TEXT))
+      AND line.item->>'catalog_item_id' = c.id::TEXT
+      AND line.item->>'price_per_unit' ~ '^[0-9]+(\.[0-9]+)?$'
+      AND q.provider_id IS DISTINCT FROM auth.uid()
+      AND q.created_at > NOW() - INTERVAL '180 days'
+    HAVING COUNT(DISTINCT q.provider_id) >= 3
+  ) market ON TRUE
+  ORDER BY
+    (c.search_text LIKE v_query || '%') DESC NULLS LAST,
+    (c.own_price IS NOT NULL) DESC,
+    (c.service_id IS NOT DISTINCT FROM p_service_id) DESC,
+    c.score DESC,
+    c.sort_order,
+    c.name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION search_material_catalog(TEXT, TEXT, INTEGER) TO authenticated;
+
+-- ============================================================================
+-- 6. SEED
+-- ============================================================================
+--
+-- Reference prices from Santiago hardware stores, IVA included. Items of a category
+-- that does not exist in this database are skipped.
+
+INSERT INTO material_catalog_items (service_id, name, brand, unit, reference_price_clp, keywords, sort_order)
+SELECT v.service_id, v.name, v.brand, v.unit, v.price, v.keywords, v.sort_order
+FROM (VALUES
+  -- Any trade
+  (NULL, 'Silicona acética transparente 280 ml', NULL, 'unidad', 3990, 'sellante cartucho', 10),
+  (NULL, 'Tornillos autorroscantes 8x1" (100 u)', NULL, 'caja', 2990, 'tornillo', 20),
+  (NULL, 'Tarugos plásticos 8 mm (100 u)', NULL, 'caja', 2490, 'taco fischer', 30),
+  (NULL, 'Cinta aisladora 18 mm', NULL, 'rollo', 990, 'huincha aislante', 40),
+  (NULL, 'Cinta de enmascarar 24 mm', NULL, 'rollo', 1490, 'masking tape', 50),
+  (NULL, 'Adhesivo de montaje 300 ml', NULL, 'unidad', 5490, 'pegamento montaje', 60),
+  -- Gasfitería
+  ('gasfiter', 'Tubo PVC sanitario 40 mm x 3 m', NULL, 'unidad', 4990, 'caneria desague', 10),
+  ('gasfiter', 'Tubo PVC sanitario 110 mm x 3 m', NULL, 'unidad', 14990, 'caneria alcantarillado', 20),
+  ('gasfiter', 'Cañería de cobre 1/2" tipo L', NULL, 'metro', 7990, 'cobre agua', 30),
+  ('gasfiter', 'Codo de cobre 1/2"', NULL, 'unidad', 890, 'fitting', 40),
+  ('gasfiter', 'Tubo PPR 20 mm x 4 m', NULL, 'unidad', 5990, 'termofusion', 50),
+  ('gasfiter', 'Flexible de agua 1/2" x 40 cm', NULL, 'unidad', 2990, 'manguera conexion', 60),
+  ('gasfiter', 'Llave de paso 1/2"', NULL, 'unidad', 6990, 'valvula bola', 70),
+  ('gasfiter', 'Sifón flexible lavaplatos', NULL, 'unidad', 4490, 'desague', 80),
+  ('gasfiter', 'Kit estanque WC (fitting completo)', NULL, 'juego', 9990, 'flapper valvula descarga', 90),
+  ('gasfiter', 'Cinta teflón 1/2"', NULL, 'rollo', 590, 'sellador rosca', 100),
+  ('gasfiter', 'Soldadura estaño 95/5 (carrete)', NULL, 'unidad', 14990, 'estano', 110),
+  ('gasfiter', 'Pegamento PVC 240 cc', NULL, 'unidad', 4990, 'adhesivo vinilit', 120),
+  -- Electricidad
+  ('electricista', 'Cable THHN 1,5 mm²', NULL, 'metro', 390, 'conductor alambre', 10),
+  ('electricista', 'Cable THHN 2,5 mm²', NULL, 'metro', 590, 'conductor alambre enchufe', 20),
+  ('electricista', 'Rollo cable THHN 2,5 mm² 100 m', NULL, 'rollo', 49990, 'conductor alambre', 30),
+  ('electricista', 'Interruptor automático 16 A', NULL, 'unidad', 5990, 'automatico breaker termomagnetico', 40),
+  ('electricista', 'Diferencial 25 A 30 mA', NULL, 'unidad', 24990, 'protector diferencial', 50),
+  ('electricista', 'Enchufe doble 10 A', NULL, 'unidad', 3490, 'toma corriente', 60),
+  ('electricista', 'Interruptor 9/12 simple', NULL, 'unidad', 2990, 'apagador', 70),
+  ('electricista', 'Tubo conduit PVC 20 mm x 3 m', NULL, 'unidad', 1490, 'ducto', 80),
+  ('electricista', 'Caja de derivación', NULL, 'unidad', 990, 'caja registro', 90),
+  ('electricista', 'Ampolleta LED 9 W E27', NULL, 'unidad', 1990, 'foco luz', 100),
+  ('electricista', 'Tablero eléctrico 8 circuitos', NULL, 'unidad', 19990, 'caja automaticos', 110),
+  -- Pintura
+  ('pintor_interior', 'Látex interior (galón)', NULL, 'galon', 17990, 'pintura muro latex', 10),
+  ('pintor_interior', 'Esmalte al agua (galón)', NULL, 'galon', 21990, 'pintura', 20),
+  ('pintor_interior', 'Pasta muro interior (tineta)', NULL, 'tineta', 24990, 'enlucido empaste', 30),
+  ('pintor_interior', 'Lija al agua N°120', NULL, 'unidad', 490, 'lija', 40),
+  ('pintor_interior', 'Rodillo antigota 23 cm', NULL, 'unidad', 4990, 'rodillo', 50),
+  ('pintor_interior', 'Sellador de muros (galón)', NULL, 'galon', 12990, 'imprimante', 60),
+  ('pintor_exterior', 'Látex exterior (galón)', NULL, 'galon', 22990, 'pintura fachada latex', 10),
+  ('pintor_exterior', 'Esmalte sintético (galón)', NULL, 'galon', 24990, 'pintura reja', 20),
+  ('pintor_exterior', 'Antióxido (galón)', NULL, 'galon', 19990, 'anticorrosivo', 30),
+  -- Cerámica y pisos
+  ('ceramica', 'Cerámica piso 45x45', NULL, 'm2', 8990, 'baldosa', 10),
+  ('ceramica', 'Porcelanato 60x60', NULL, 'm2', 16990, 'piso', 20),
+  ('ceramica', 'Adhesivo cerámico (saco 25 kg)', NULL, 'saco', 5990, 'bekron pegamento', 30),
+  ('ceramica', 'Fragüe (1 kg)', NULL, 'kg', 1990, 'frague junta', 40),
+  ('piso_flotante', 'Piso flotante 8 mm', NULL, 'm2', 9990, 'laminado', 10),
+  ('piso_flotante', 'Espuma niveladora 2 mm', NULL, 'm2', 590, 'base piso', 20),
+  ('piso_flotante', 'Guardapolvo MDF 70 mm x 2,4 m', NULL, 'unidad', 2990, 'zocalo', 30),
+  -- Carpintería y cerrajería
+  ('carpintero', 'Plancha terciado 15 mm', NULL, 'plancha', 27990, 'madera contrachapado', 10),
+  ('carpintero', 'Plancha melamina 15 mm', NULL, 'plancha', 32990, 'mueble', 20),
+  ('carpintero', 'Bisagra cazoleta 35 mm', NULL, 'par', 1990, 'bisagra mueble', 30),
+  ('carpintero', 'Pino dimensionado 2x3" x 3,2 m', NULL, 'unidad', 2990, 'madera', 40),
+  ('cerrajero', 'Cerradura de embutir', NULL, 'unidad', 19990, 'chapa', 10),
+  ('cerrajero', 'Cilindro de seguridad', NULL, 'unidad', 12990, 'bombin', 20),
+  ('cerrajero', 'Cerrojo de sobreponer', NULL, 'unidad', 14990, 'pestillo', 30),
+  -- Construcción
+  ('albanil', 'Cemento (saco 25 kg)', NULL, 'saco', 5490, 'cemento', 10),
+  ('albanil', 'Arena (saco 25 kg)', NULL, 'saco', 1990, 'arena', 20),
+  ('albanil', 'Ladrillo fiscal', NULL, 'unidad', 390, 'ladrillo', 30),
+  ('albanil', 'Yeso (saco 25 kg)', NULL, 'saco', 6990, 'yeso', 40),
+  ('techista', 'Plancha zinc acanalada 3,66 m', NULL, 'plancha', 14990, 'calamina techo', 10),
+  ('techista', 'Tornillo techo con golilla (100 u)', NULL, 'caja', 9990, 'tornillo techo', 20),
+  ('techista', 'Membrana asfáltica (rollo 10 m²)', NULL, 'rollo', 39990, 'impermeabilizante', 30),
+  -- Jardinería
+  ('jardineria', 'Tierra de hoja (saco 50 l)', NULL, 'saco', 3990, 'sustrato', 10),
+  ('jardineria', 'Pasto en rollo', NULL, 'm2', 2990, 'cesped', 20),
+  ('jardineria', 'Manguera de riego 1/2" x 25 m', NULL, 'rollo', 14990, 'manguera', 30),
+  ('jardineria', 'Aspersor', NULL, 'unidad', 4990, 'riego', 40)
+) AS v(service_id, name, brand, unit, price, keywords, sort_order)
+LEFT JOIN service_categories sc ON sc.id = v.service_id
+WHERE v.service_id IS NULL OR sc.id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- ============================================================================
+-- 7. COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE material_catalog_items IS 'Shared catalog of materials with unit and reference price, per service category or general (service_id NULL)';
+COMMENT ON COLUMN material_catalog_items.search_text IS 'Lowercase, accent-free name, brand and keywords for search_material_catalog';
+COMMENT ON TABLE provider_material_prices IS 'A provider''s own price for a catalog material, used instead of the reference price';
+COMMENT ON VIEW quote_material_lines IS 'Catalog materials quoted, one row per quote item, for material cost analysis';
+COMMENT ON FUNCTION search_material_catalog(TEXT, TEXT, INTEGER) IS
+  'Materials autocomplete: catalog items matching the query with the caller''s price and the market median';
@@ -0,0 +1,426 @@
+-- Booking Lifecycle
+-- November 18, 2025
+--
+-- Bookings had a status enum but nothing drove it: participants could write any
+-- status straight to the table (the RLS policy allows updates), and the notification
+-- trigger raised CASE_NOT_FOUND on every status it did not list. Bookings now move
+-- through explicit commands, each checking who may run it and when:
+--
+--   confirm_booking        provider    pending/accepted -> confirmed, before the start
+--   start_booking          provider    accepted/confirmed -> in_progress, from 1 hour before the start
+--   complete_booking       provider    in_progress -> completed
+--   cancel_booking         either      pending/accepted/confirmed -> cancelled, before work starts
+--   mark_booking_no_show   either      accepted/confirmed -> no_show, 30 minutes after the start;
+--                                      the other party is the one who did not show up
+--   reschedule_booking     either      new date and time for a pending/accepted/confirmed booking;
+--                                      a customer's change sends a confirmed booking back to accepted
+--
+-- enforce_booking_transition() rejects any status change outside the transition graph
+-- and any status or schedule change by a user outside these commands. Participants
+-- can no longer write bookings directly at all: counters, fees and who cancelled are
+-- only set by the commands. Every change is notified to the other party and written to
+-- audit_log.
+
+-- ============================================================================
+-- 1. TYPES AND COLUMNS
+-- ============================================================================
+
+ALTER TYPE booking_status ADD VALUE IF NOT EXISTS 'no_show';
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'booking_confirmed';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'booking_started';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'booking_rescheduled';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'booking_no_show';
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS cancelled_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS cancellation_reason TEXT,
+  ADD COLUMN IF NOT EXISTS no_show_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS no_show_party TEXT CHECK (no_show_party IN ('customer', 'provider')),
+  ADD COLUMN IF NOT EXISTS reschedule_count INTEGER NOT NULL DEFAULT 0;
+
+-- Checked on every update, so a booking could not change at all once its date passed;
+-- reschedule_booking checks new dates instead
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS valid_dates;
+
+-- ============================================================================
+-- 2. TRANSITIONS
+-- ============================================================================
+
+-- payment_released and disputed are set by payment and dispute handling (service role)
+CREATE OR REPLACE FUNCTION booking_transition_allowed(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT CASE p_from
+    WHEN 'pending' THEN p_to IN ('accepted', 'confirmed', 'cancelled')
+    WHEN 'accepted' THEN p_to IN ('confirmed', 'in_progress', 'cancelled', 'no_show')
+    WHEN 'confirmed' THEN p_to IN ('in_progress', 'cancelled', 'no_show')
+    WHEN 'in_progress' THEN p_to IN ('completed', 'disputed')
+    WHEN 'completed' THEN p_to IN ('payment_released', 'disputed')
+    WHEN 'disputed' THEN p_to IN ('completed', 'payment_released', 'cancelled')
+    ELSE FALSE
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Scheduled start as an instant; booking times are Chilean local time
+CREATE OR REPLACE FUNCTION booking_starts_at(p_date DATE, p_time TIME)
+RETURNS TIMESTAMPTZ AS $$
+  SELECT (p_date + p_time) AT TIME ZONE 'America/Santiago';
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION enforce_booking_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NOT booking_transition_allowed(OLD.status::TEXT, NEW.status::TEXT) THEN
+    RAISE EXCEPTION 'invalid_booking_transition' USING ERRCODE = 'P0001',
+      DETAIL = FORMAT('%s -> %s', OLD.status, NEW.status);
+  END IF;
+
+  -- Users change status and schedule through the booking commands only; the service
+  -- role (no auth.uid()) may still update directly
+  IF auth.uid() IS NOT NULL
+    AND COALESCE(current_setting('manito.booking_command', TRUE), '') != 'on'
+    AND (
+      NEW.status IS DISTINCT FROM OLD.status
+      OR NEW.scheduled_date IS DISTINCT FROM OLD.scheduled_date
+      OR NEW.scheduled_time_start IS DISTINCT FROM OLD.scheduled_time_start
+      OR NEW.scheduled_time_end IS DISTINCT FROM OLD.scheduled_time_end
+    ) THEN
+    RAISE EXCEPTION 'booking_command_required' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_enforce_booking_transition ON bookings;
+CREATE TRIGGER trigger_enforce_booking_transition
+  BEFORE UPDATE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION enforce_booking_transition();
+
+-- The baseline policy was FOR ALL, so participants could patch reschedule_count,
+-- cancelled_by, no_show_party or the amounts. Bookings are created by accept_quote and
+-- changed by the commands below (SECURITY DEFINER); participants only read them.
+DROP POLICY IF EXISTS "Booking participants can view and update" ON bookings;
+DROP POLICY IF EXISTS "Booking participants can view" ON bookings;
+CREATE POLICY "Booking participants can view" ON bookings
+  FOR SELECT USING (auth.uid() IN (customer_id, provider_id));
+
+-- ============================================================================
+-- 3. NOTIFICATIONS AND AUDIT
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION create_booking_notifications()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_actor UUID := auth.uid();
+  -- Whoever did not make the change hears about it; the customer when the system did
+  v_other UUID;
+  v_when TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO notifications (user_id, type, title, message, booking_id)
+    VALUES (
+      NEW.provider_id,
+      'booking_request',
+      'Nueva solicitud de servicio',
+      'Tienes una nueva solicitud de servicio pendiente',
+      NEW.id
+    );
+    RETURN NEW;
+  END IF;
+
+  v_other := CASE WHEN v_actor = NEW.customer_id THEN NEW.provider_id ELSE NEW.customer_id END;
+  v_when := TO_CHAR(NEW.scheduled_date, 'DD/MM') || ' a las ' || TO_CHAR(NEW.scheduled_time_start, 'HH24:MI');
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    CASE NEW.status::TEXT
+      WHEN 'accepted' THEN
+        INSERT INTO notifications (user_id, type, title, message, booking_id)
+        VALUES (NEW.customer_id, 'booking_accepted', 'Servicio aceptado',
+          'Tu solicitud de servicio ha sido aceptada', NEW.id);
+      WHEN 'confirmed' THEN
+        INSERT INTO notifications (user_id, type, title, message, booking_id)
+        VALUES (NEW.customer_id, 'booking_confirmed', 'Servicio confirmado',
+          'El profesional confirmó la visita del ' || v_when || '.', NEW.id);
+      WHEN 'in_progress' THEN
+        INSERT INTO notifications (user_id, type, title, message, booking_id)
+        VALUES (NEW.customer_id, 'booking_started', 'Trabajo iniciado',
+          'El profesional registró su llegada y comenzó el trabajo.', NEW.id);
+      WHEN 'completed' THEN
+        INSERT INTO notifications (user_id, type, title, message, booking_id)
+        VALUES (NEW.customer_id, 'job_completed', 'Servicio completado',
+          'El proveedor ha marcado el servicio como completado', NEW.id);
+      WHEN 'cancelled' THEN
+        INSERT INTO notifications (user_id, type, title, message, booking_id)
+        VALUES (v_other, 'booking_cancelled', 'Servicio cancelado',
+          'El servicio del ' || v_when || ' ha sido cancelado'
+            || COALESCE(': ' || NULLIF(TRIM(NEW.cancellation_reason), ''), '.'),
+          NEW.id);
+      WHEN 'no_show' THEN
+        INSERT INTO notifications (user_id, type, title, message, booking_id)
+        VALUES (v_other, 'booking_no_show', 'Inasistencia registrada',
+          CASE WHEN NEW.no_show_party = 'customer'
+            THEN 'El profesional registró que no había nadie para recibirlo el ' || v_when || '.'
+            ELSE 'El cliente registró que no llegaste a la visita del ' || v_when || '.'
+          END,
+          NEW.id);
+      ELSE
+        NULL;
+    END CASE;
+  ELSIF NEW.scheduled_date IS DISTINCT FROM OLD.scheduled_date
+    OR NEW.scheduled_time_start IS DISTINCT FROM OLD.scheduled_time_start
+    OR NEW.scheduled_time_end IS DISTINCT FROM OLD.scheduled_time_end THEN
+    INSERT INTO notifications (user_id, type, title, message, booking_id)
+    VALUES (v_other, 'booking_rescheduled', 'Servicio reagendado',
+      'La visita cambió al ' || v_when || '.'
+        || CASE WHEN NEW.status = 'accepted' AND OLD.status = 'confirmed'
+          THEN ' Confírmala para mantenerla.' ELSE '' END,
+      NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION log_booking_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO audit_log (event_type, user_id, details)
+    VALUES (
+      'booking_status_changed',
+      auth.uid(),
+      JSONB_BUILD_OBJECT(
+        'booking_id', NEW.id,
+        'from', OLD.status,
+        'to', NEW.status,
+        'reason', NEW.cancellation_reason,
+        'no_show_party', NEW.no_show_party,
+        'source', COALESCE(NULLIF(current_setting('manito.booking_command_name', TRUE), ''), 'direct')
+      )
+    );
+  END IF;
+
+  IF NEW.scheduled_date IS DISTINCT FROM OLD.scheduled_date
+    OR NEW.scheduled_time_start IS DISTINCT FROM OLD.scheduled_time_start
+    OR NEW.scheduled_time_end IS DISTINCT FROM OLD.scheduled_time_end THEN
+    INSERT INTO audit_log (event_type, user_id, details)
+    VALUES (
+      'booking_rescheduled',
+      auth.uid(),
+      JSONB_BUILD_OBJECT(
+        'booking_id', NEW.id,
+        'from', JSONB_BUILD_OBJECT('date', OLD.scheduled_date, 'start', OLD.scheduled_time_start, 'end', OLD.scheduled_time_end),
+        'to', JSONB_BUILD_OBJECT('date', NEW.scheduled_date, 'start', NEW.scheduled_time_start, 'end', NEW.scheduled_time_end),
+        'reschedule_count', NEW.reschedule_count
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_log_booking_transition ON bookings;
+CREATE TRIGGER trigger_log_booking_transition
+  AFTER UPDATE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION log_booking_transition();
+
+-- ============================================================================
+-- 4. COMMANDS
+-- ============================================================================
+
+-- Locks the booking for a command run by one of its participants
+CREATE OR REPLACE FUNCTION lock_booking_for_command(p_booking_id UUID, p_command TEXT)
+RETURNS bookings AS $$
+DECLARE
+  v_booking bookings;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND OR auth.uid() IS NULL OR auth.uid() NOT IN (v_booking.customer_id, v_booking.provider_id) THEN
+    RAISE EXCEPTION 'booking_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM set_config('manito.booking_command', 'on', TRUE);
+  PERFORM set_config('manito.booking_command_name', p_command, TRUE);
+  RETURN v_booking;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION confirm_booking(p_booking_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_booking bookings := lock_booking_for_command(p_booking_id, 'confirm_booking');
+BEGIN
+  IF auth.uid() != v_booking.provider_id THEN
+    RAISE EXCEPTION 'provider_only' USING ERRCODE = '42501';
+  END IF;
+  IF v_booking.status NOT IN ('pending', 'accepted') THEN
+    RAISE EXCEPTION 'invalid_booking_transition' USING ERRCODE = 'P0001';
+  END IF;
+  IF booking_starts_at(v_booking.scheduled_date, v_booking.scheduled_time_start) <= NOW() THEN
+    RAISE EXCEPTION 'booking_already_started' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE bookings SET status = 'confirmed', confirmed_at = NOW() WHERE id = p_booking_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Check-in: the provider arrived and starts work
+CREATE OR REPLACE FUNCTION start_booking(p_booking_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_booking bookings := lock_booking_for_command(p_booking_id, 'start_booking');
+BEGIN
+  IF auth.uid() != v_booking.provider_id THEN
+    RAISE EXCEPTION 'provider_only' USING ERRCODE = '42501';
+  END IF;
+  IF v_booking.status NOT IN ('accepted', 'confirmed') THEN
+    RAISE EXCEPTION 'invalid_booking_transition' USING ERRCODE = 'P0001';
+  END IF;
+  IF NOW() < booking_starts_at(v_booking.scheduled_date, v_booking.scheduled_time_start) - INTERVAL '1 hour' THEN
+    RAISE EXCEPTION 'booking_too_early' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE bookings SET status = 'in_progress', started_at = NOW() WHERE id = p_booking_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION complete_booking(p_booking_id UUID, p_provider_notes TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_booking bookings := lock_booking_for_command(p_booking_id, 'complete_booking');
+BEGIN
+  IF auth.uid() != v_booking.provider_id THEN
+    RAISE EXCEPTION 'provider_only' USING ERRCODE = '42501';
+  END IF;
+  IF v_booking.status != 'in_progress' THEN
+    RAISE EXCEPTION 'invalid_booking_transition' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE bookings
+  SET status = 'completed',
+      completed_at = NOW(),
+      provider_notes = COALESCE(NULLIF(TRIM(p_provider_notes), ''), provider_notes)
+  WHERE id = p_booking_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION cancel_booking(p_booking_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_booking bookings := lock_booking_for_command(p_booking_id, 'cancel_booking');
+BEGIN
+  IF v_booking.status NOT IN ('pending', 'accepted', 'confirmed') THEN
+    RAISE EXCEPTION 'invalid_booking_transition' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE bookings
+  SET status = 'cancelled',
+      cancelled_at = NOW(),
+      cancelled_by = auth.uid(),
+      cancellation_reason = NULLIF(TRIM(p_reason), '')
+  WHERE id = p_booking_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Run by the party that showed up; the other one is recorded as absent
+CREATE OR REPLACE FUNCTION mark_booking_no_show(p_booking_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_booking bookings := lock_booking_for_command(p_booking_id, 'mark_booking_no_show');
+  v_party TEXT;
+BEGIN
+  IF v_booking.status NOT IN ('accepted', 'confirmed') THEN
+    RAISE EXCEPTION 'invalid_booking_transition' USING ERRCODE = 'P0001';
+  END IF;
+  IF NOW() < booking_starts_at(v_booking.scheduled_date, v_booking.scheduled_time_start) + INTERVAL '30 minutes' THEN
+    RAISE EXCEPTION 'booking_too_early' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_party := CASE WHEN auth.uid() = v_booking.provider_id THEN 'customer' ELSE 'provider' END;
+
+  UPDATE bookings
+  SET status = 'no_show',
+      no_show_at = NOW(),
+      no_show_party = v_party
+  WHERE id = p_booking_id;
+
+  RETURN v_party;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION reschedule_booking(
+  p_booking_id UUID,
+  p_date DATE,
+  p_time_start TIME,
+  p_time_end TIME
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_booking bookings := lock_booking_for_command(p_booking_id, 'reschedule_booking');
+  v_status booking_status;
+BEGIN
+  IF v_booking.status NOT IN ('pending', 'accepted', 'confirmed') THEN
+    RAISE EXCEPTION 'invalid_booking_transition' USING ERRCODE = 'P0001';
+  END IF;
+  IF p_time_start >= p_time_end THEN
+    RAISE EXCEPTION 'invalid_time_range' USING ERRCODE = '22023';
+  END IF;
+  IF booking_starts_at(p_date, p_time_start) <= NOW() + INTERVAL '1 hour' THEN
+    RAISE EXCEPTION 'date_in_past' USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (
+    SELECT 1
+    FROM bookings b
+    WHERE b.provider_id = v_booking.provider_id
+      AND b.id != v_booking.id
+      AND b.scheduled_date = p_date
+      AND b.status NOT IN ('cancelled', 'no_show')
+      AND b.scheduled_time_start < p_time_end
+      AND b.scheduled_time_end > p_time_start
+  ) THEN
+    RAISE EXCEPTION 'slot_taken' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- The provider has to confirm a time the customer picked
+  v_status := CASE
+    WHEN v_booking.status = 'confirmed' AND auth.uid() = v_booking.customer_id THEN 'accepted'
+    ELSE v_booking.status
+  END;
+
+  UPDATE bookings
+  SET scheduled_date = p_date,
+      scheduled_time_start = p_time_start,
+      scheduled_time_end = p_time_end,
+      status = v_status,
+      confirmed_at = CASE WHEN v_status = 'confirmed' THEN confirmed_at END,
+      reschedule_count = reschedule_count + 1
+  WHERE id = p_booking_id;
+
+  RETURN v_status::TEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION confirm_booking(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION start_booking(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION complete_booking(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_booking(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_booking_no_show(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION reschedule_booking(UUID, DATE, TIME, TIME) TO authenticated;
+
+-- Only the commands above lock bookings for a transition
+REVOKE EXECUTE ON FUNCTION lock_booking_for_command(UUID, TEXT) FROM PUBLIC;
+
+-- ============================================================================
+-- 5. COMMENTS
+-- ============================================================================
+
+COMMENT ON FUNCTION booking_transition_allowed(TEXT, TEXT) IS 'Booking status graph enforced by enforce_booking_transition';
+COMMENT ON FUNCTION enforce_booking_transition() IS
+  'Rejects status changes outside the graph, and status or schedule changes by users outside the booking commands';
+COMMENT ON FUNCTION log_booking_transition() IS 'Writes booking status changes and reschedules to audit_log';
+COMMENT ON COLUMN bookings.no_show_party IS 'Who did not show up: customer (marked by the provider) or provider (marked by the customer)';
+COMMENT ON COLUMN bookings.reschedule_count IS 'Times the booking was moved with reschedule_booking';
@@ -0,0 +1,516 @@
+-- Cancellation Policies
+-- November 18, 2025
+--
+-- What a cancellation, no-show or reschedule costs now depends on how close to the
+-- visit it happens. cancellation_policies holds one platform-wide policy (provider_id
+-- NULL) and optional per-provider policies that replace it for that provider's jobs:
+--
+--   customer_tiers   [{min_hours_before, fee_pct}]         customer cancels: fee_pct of the
+--                                                           total goes to the provider, the rest is refunded
+--   provider_tiers   [{min_hours_before, penalty_points}]  provider cancels: full refund and
+--                                                           reliability penalty points
+--   customer_no_show_fee_pct                               provider marks the customer absent
+--   provider_no_show_penalty_points                        customer marks the provider absent
+--   max_reschedules, reschedule_min_hours_before           reschedule cap
+--
+-- A tier applies when the time left before the visit is at least min_hours_before;
+-- the tier with the highest such threshold wins, and below every tier the last
+-- tier applies. Penalty points go to provider_reliability_events and count for 180 days.
+--
+-- A booking keeps the policy in force when it was created (cancellation_policy_id),
+-- so policy rows are never edited: saving a provider's policy replaces the current
+-- row with a new one (save_provider_cancellation_policy).
+
+-- ============================================================================
+-- 1. POLICIES
+-- ============================================================================
+
+-- Tiers are a non-empty array of objects with min_hours_before >= 0 and the given
+-- amount key within [0, p_max]
+CREATE OR REPLACE FUNCTION valid_cancellation_tiers(p_tiers JSONB, p_key TEXT, p_max INTEGER)
+RETURNS BOOLEAN AS $$
+  SELECT jsonb_typeof(p_tiers) = 'array'
+    AND jsonb_array_length(p_tiers) > 0
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_tiers) AS tier
+      WHERE jsonb_typeof(tier) != 'object'
+        OR jsonb_typeof(tier->'min_hours_before') != 'number'
+        OR jsonb_typeof(tier->p_key) != 'number'
+        OR (tier->>'min_hours_before')::NUMERIC < 0
+        OR (tier->>p_key)::NUMERIC NOT BETWEEN 0 AND p_max
+    );
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE TABLE IF NOT EXISTS cancellation_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_id UUID REFERENCES provider_profiles(user_id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  customer_tiers JSONB NOT NULL,
+  provider_tiers JSONB NOT NULL,
+  customer_no_show_fee_pct INTEGER NOT NULL DEFAULT 50 CHECK (customer_no_show_fee_pct BETWEEN 0 AND 100),
+  provider_no_show_penalty_points INTEGER NOT NULL DEFAULT 5 CHECK (provider_no_show_penalty_points BETWEEN 0 AND 20),
+  max_reschedules INTEGER NOT NULL DEFAULT 2 CHECK (max_reschedules BETWEEN 0 AND 10),
+  reschedule_min_hours_before INTEGER NOT NULL DEFAULT 24 CHECK (reschedule_min_hours_before BETWEEN 0 AND 168),
+  -- Set when a newer policy took over; bookings created before keep this one
+  replaced_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT valid_customer_tiers CHECK (valid_cancellation_tiers(customer_tiers, 'fee_pct', 100)),
+  CONSTRAINT valid_provider_tiers CHECK (valid_cancellation_tiers(provider_tiers, 'penalty_points', 20))
+);
+
+-- A single current platform-wide policy, and at most one current policy per provider
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cancellation_policies_platform
+  ON cancellation_policies((provider_id IS NULL)) WHERE provider_id IS NULL AND replaced_at IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cancellation_policies_provider
+  ON cancellation_policies(provider_id) WHERE provider_id IS NOT NULL AND replaced_at IS NULL;
+
+-- The policy new bookings with the provider get: their own, or the platform's
+CREATE OR REPLACE FUNCTION current_cancellation_policy(p_provider_id UUID)
+RETURNS cancellation_policies AS $$
+  SELECT c.*
+  FROM cancellation_policies c
+  WHERE (c.provider_id = p_provider_id OR c.provider_id IS NULL)
+    AND c.replaced_at IS NULL
+  ORDER BY c.provider_id IS NULL
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+DROP TRIGGER IF EXISTS update_cancellation_policies_updated_at ON cancellation_policies;
+CREATE TRIGGER update_cancellation_policies_updated_at
+  BEFORE UPDATE ON cancellation_policies
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO cancellation_policies (provider_id, name, customer_tiers, provider_tiers)
+SELECT
+  NULL,
+  'Política Manito',
+  '[{"min_hours_before": 48, "fee_pct": 0}, {"min_hours_before": 24, "fee_pct": 25}, {"min_hours_before": 4, "fee_pct": 50}, {"min_hours_before": 0, "fee_pct": 75}]',
+  '[{"min_hours_before": 48, "penalty_points": 0}, {"min_hours_before": 24, "penalty_points": 1}, {"min_hours_before": 0, "penalty_points": 3}]'
+WHERE NOT EXISTS (SELECT 1 FROM cancellation_policies WHERE provider_id IS NULL);
+
+-- ============================================================================
+-- 2. BOOKING OUTCOMES AND RELIABILITY
+-- ============================================================================
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS cancellation_policy_id UUID REFERENCES cancellation_policies(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS cancellation_fee_clp INTEGER CHECK (cancellation_fee_clp >= 0),
+  ADD COLUMN IF NOT EXISTS refund_clp INTEGER CHECK (refund_clp >= 0);
+
+CREATE TABLE IF NOT EXISTS provider_reliability_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_id UUID NOT NULL REFERENCES provider_profiles(user_id) ON DELETE CASCADE,
+  booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('late_cancellation', 'no_show')),
+  penalty_points INTEGER NOT NULL CHECK (penalty_points > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_provider_reliability_events_provider
+  ON provider_reliability_events(provider_id, created_at DESC);
+
+-- Bookings are created under the provider's current policy (accept_quote); recurring
+-- visits pass their first visit's policy instead
+CREATE OR REPLACE FUNCTION set_booking_cancellation_policy()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.cancellation_policy_id IS NULL THEN
+    NEW.cancellation_policy_id := (current_cancellation_policy(NEW.provider_id)).id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_set_booking_cancellation_policy ON bookings;
+CREATE TRIGGER trigger_set_booking_cancellation_policy
+  BEFORE INSERT ON bookings
+  FOR EACH ROW EXECUTE FUNCTION set_booking_cancellation_policy();
+
+-- Bookings made before policies existed get the one in force now
+UPDATE bookings b
+SET cancellation_policy_id = (current_cancellation_policy(b.provider_id)).id
+WHERE b.cancellation_policy_id IS NULL;
+
+-- Penalty points of the last 180 days
+CREATE OR REPLACE FUNCTION provider_reliability_points(p_provider_id UUID)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(SUM(penalty_points), 0)::INTEGER
+  FROM provider_reliability_events
+  WHERE provider_id = p_provider_id
+    AND created_at > NOW() - INTERVAL '180 days';
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE cancellation_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE provider_reliability_events ENABLE ROW LEVEL SECURITY;
+
+-- Customers see a provider's policy before booking. Providers change theirs with
+-- save_provider_cancellation_policy, never by editing a row bookings may point to.
+DROP POLICY IF EXISTS "Anyone can view cancellation policies" ON cancellation_policies;
+CREATE POLICY "Anyone can view cancellation policies" ON cancellation_policies
+  FOR SELECT USING (TRUE);
+
+DROP POLICY IF EXISTS "Providers can manage their own cancellation policy" ON cancellation_policies;
+
+DROP POLICY IF EXISTS "Providers can view their own reliability events" ON provider_reliability_events;
+CREATE POLICY "Providers can view their own reliability events" ON provider_reliability_events
+  FOR SELECT USING (provider_id = auth.uid());
+
+-- ============================================================================
+-- 4. TERMS
+-- ============================================================================
+
+-- Fee, refund and penalty for ending a booking now. p_kind is customer_cancel,
+-- provider_cancel, customer_no_show (the customer was absent) or provider_no_show.
+CREATE OR REPLACE FUNCTION booking_cancellation_terms(p_booking_id UUID, p_kind TEXT)
+RETURNS TABLE (
+  policy_id UUID,
+  policy_name TEXT,
+  hours_before NUMERIC,
+  fee_pct INTEGER,
+  fee_clp INTEGER,
+  refund_clp INTEGER,
+  penalty_points INTEGER
+) AS $$
+DECLARE
+  v_booking bookings;
+  v_policy cancellation_policies;
+  v_hours NUMERIC;
+  v_fee_pct INTEGER := 0;
+  v_penalty INTEGER := 0;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'booking_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- The policy the booking was made under; the current one if that was deleted
+  SELECT * INTO v_policy FROM cancellation_policies c WHERE c.id = v_booking.cancellation_policy_id;
+  IF NOT FOUND THEN
+    v_policy := current_cancellation_policy(v_booking.provider_id);
+  END IF;
+
+  v_hours := ROUND(
+    EXTRACT(EPOCH FROM booking_starts_at(v_booking.scheduled_date, v_booking.scheduled_time_start) - NOW()) / 3600,
+    1
+  );
+
+  IF p_kind = 'customer_cancel' THEN
+    SELECT COALESCE(
+      (SELECT (t->>'fee_pct')::INTEGER FROM jsonb_array_elements(v_policy.customer_tiers) t
+       WHERE (t->>'min_hours_before')::NUMERIC <= v_hours
+       ORDER BY (t->>'min_hours_before')::NUMERIC DESC LIMIT 1),
+      (SELECT (t->>'fee_pct')::INTEGER FROM jsonb_array_elements(v_policy.customer_tiers) t
+       ORDER BY (t->>'min_hours_before')::NUMERIC LIMIT 1)
+    ) INTO v_fee_pct;
+  ELSIF p_kind = 'provider_cancel' THEN
+    SELECT COALESCE(
+      (SELECT (t->>'penalty_points')::INTEGER FROM jsonb_array_elements(v_policy.provider_tiers) t
+       WHERE (t->>'min_hours_before')::NUMERIC <= v_hours
+       ORDER BY (t->>'min_hours_before')::NUMERIC DESC LIMIT 1),
+      (SELECT (t->>'penalty_points')::INTEGER FROM jsonb_array_elements(v_policy.provider_tiers) t
+       ORDER BY (t->>'min_hours_before')::NUMERIC LIMIT 1)
+    ) INTO v_penalty;
+  ELSIF p_kind = 'customer_no_show' THEN
+    v_fee_pct := v_policy.customer_no_show_fee_pct;
+  ELSIF p_kind = 'provider_no_show' THEN
+    v_penalty := v_policy.provider_no_show_penalty_points;
+  ELSE
+    RAISE EXCEPTION 'invalid_cancellation_kind' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY SELECT
+    v_policy.id,
+    v_policy.name,
+    v_hours,
+    COALESCE(v_fee_pct, 0),
+    ROUND(v_booking.total_price_clp * COALESCE(v_fee_pct, 0) / 100.0)::INTEGER,
+    v_booking.total_price_clp - ROUND(v_booking.total_price_clp * COALESCE(v_fee_pct, 0) / 100.0)::INTEGER,
+    COALESCE(v_penalty, 0);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+REVOKE EXECUTE ON FUNCTION booking_cancellation_terms(UUID, TEXT) FROM PUBLIC;
+
+-- What cancelling would cost the caller right now, for the confirmation dialog
+CREATE OR REPLACE FUNCTION preview_booking_cancellation(p_booking_id UUID)
+RETURNS TABLE (
+  policy_name TEXT,
+  hours_before NUMERIC,
+  fee_pct INTEGER,
+  fee_clp INTEGER,
+  refund_clp INTEGER,
+  penalty_points INTEGER,
+  cancelled_by TEXT
+) AS $$
+DECLARE
+  v_booking bookings;
+  v_role TEXT;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+  IF NOT FOUND OR auth.uid() IS NULL OR auth.uid() NOT IN (v_booking.customer_id, v_booking.provider_id) THEN
+    RAISE EXCEPTION 'booking_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_role := CASE WHEN auth.uid() = v_booking.provider_id THEN 'provider' ELSE 'customer' END;
+
+  RETURN QUERY
+  SELECT t.policy_name, t.hours_before, t.fee_pct, t.fee_clp, t.refund_clp, t.penalty_points, v_role
+  FROM booking_cancellation_terms(p_booking_id, v_role || '_cancel') t;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION preview_booking_cancellation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION provider_reliability_points(UUID) TO authenticated;
+
+-- Makes the given terms the provider's policy for bookings created from now on
+CREATE OR REPLACE FUNCTION save_provider_cancellation_policy(
+  p_name TEXT,
+  p_customer_tiers JSONB,
+  p_provider_tiers JSONB,
+  p_customer_no_show_fee_pct INTEGER,
+  p_provider_no_show_penalty_points INTEGER,
+  p_max_reschedules INTEGER,
+  p_reschedule_min_hours_before INTEGER
+) RETURNS UUID AS $$
+DECLARE
+  v_policy_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM provider_profiles WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'provider_only' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE cancellation_policies SET replaced_at = NOW()
+  WHERE provider_id = auth.uid() AND replaced_at IS NULL;
+
+  INSERT INTO cancellation_policies (
+    provider_id, name, customer_tiers, provider_tiers, customer_no_show_fee_pct,
+    provider_no_show_penalty_points, max_reschedules, reschedule_min_hours_before
+  ) VALUES (
+    auth.uid(), TRIM(p_name), p_customer_tiers, p_provider_tiers, p_customer_no_show_fee_pct,
+    p_provider_no_show_penalty_points, p_max_reschedules, p_reschedule_min_hours_before
+  )
+  RETURNING id INTO v_policy_id;
+
+  RETURN v_policy_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Back to the platform policy for new bookings; existing ones keep the provider's
+CREATE OR REPLACE FUNCTION remove_provider_cancellation_policy()
+RETURNS VOID AS $$
+BEGIN
+  UPDATE cancellation_policies SET replaced_at = NOW()
+  WHERE provider_id = auth.uid() AND replaced_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION save_provider_cancellation_policy(TEXT, JSONB, JSONB, INTEGER, INTEGER, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_provider_cancellation_policy() TO authenticated;
+
+-- ============================================================================
+-- 5. BOOKING COMMANDS WITH POLICY
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION cancel_booking(p_booking_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_booking bookings := lock_booking_for_command(p_booking_id, 'cancel_booking');
+  v_kind TEXT;
+  v_terms RECORD;
+BEGIN
+  IF v_booking.status NOT IN ('pending', 'accepted', 'confirmed') THEN
+    RAISE EXCEPTION 'invalid_booking_transition' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_kind := CASE WHEN auth.uid() = v_booking.provider_id THEN 'provider_cancel' ELSE 'customer_cancel' END;
+  SELECT * INTO v_terms FROM booking_cancellation_terms(p_booking_id, v_kind);
+
+  UPDATE bookings
+  SET status = 'cancelled',
+      cancelled_at = NOW(),
+      cancelled_by = auth.uid(),
+      cancellation_reason = NULLIF(TRIM(p_reason), ''),
+      cancellation_policy_id = v_terms.policy_id,
+      cancellation_fee_clp = v_terms.fee_clp,
+      refund_clp = v_terms.refund_clp
+  WHERE id = p_booking_id;
+
+  IF v_terms.penalty_points > 0 THEN
+    INSERT INTO provider_reliability_events (provider_id, booking_id, event_type, penalty_points)
+    VALUES (v_booking.provider_id, p_booking_id, 'late_cancellation', v_terms.penalty_points);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION mark_booking_no_show(p_booking_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_booking bookings := lock_booking_for_command(p_booking_id, 'mark_booking_no_show');
+  v_party TEXT;
+  v_terms RECORD;
+BEGIN
+  IF v_booking.status NOT IN ('accepted', 'confirmed') THEN
+    RAISE EXCEPTION 'invalid_booking_transition' USING ERRCODE = 'P0001';
+  END IF;
+  IF NOW() < booking_starts_at(v_booking.scheduled_date, v_booking.scheduled_time_start) + INTERVAL '30 minutes' THEN
+    RAISE EXCEPTION 'booking_too_early' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_party := CASE WHEN auth.uid() = v_booking.provider_id THEN 'customer' ELSE 'provider' END;
+  SELECT * INTO v_terms FROM booking_cancellation_terms(p_booking_id, v_party || '_no_show');
+
+  UPDATE bookings
+  SET status = 'no_show',
+      no_show_at = NOW(),
+      no_show_party = v_party,
+      cancellation_policy_id = v_terms.policy_id,
+      cancellation_fee_clp = v_terms.fee_clp,
+      refund_clp = v_terms.refund_clp
+  WHERE id = p_booking_id;
+
+  IF v_terms.penalty_points > 0 THEN
+    INSERT INTO provider_reliability_events (provider_id, booking_id, event_type, penalty_points)
+    VALUES (v_booking.provider_id, p_booking_id, 'no_show', v_terms.penalty_points);
+  END IF;
+
+  RETURN v_party;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION reschedule_booking(
+  p_booking_id UUID,
+  p_date DATE,
+  p_time_start TIME,
+  p_time_end TIME
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_booking bookings := lock_booking_for_command(p_booking_id, 'reschedule_booking');
+  v_policy cancellation_policies;
+  v_status booking_status;
+BEGIN
+  IF v_booking.status NOT IN ('pending', 'accepted', 'confirmed') THEN
+    RAISE EXCEPTION 'invalid_booking_transition' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_policy FROM cancellation_policies c WHERE c.id = v_booking.cancellation_policy_id;
+  IF NOT FOUND THEN
+    v_policy := current_cancellation_policy(v_booking.provider_id);
+  END IF;
+
+  IF v_booking.reschedule_count >= v_policy.max_reschedules THEN
+    RAISE EXCEPTION 'reschedule_limit_reached' USING ERRCODE = 'P0001';
+  END IF;
+  IF booking_starts_at(v_booking.scheduled_date, v_booking.scheduled_time_start)
+    < NOW() + MAKE_INTERVAL(hours => v_policy.reschedule_min_hours_before) THEN
+    RAISE EXCEPTION 'reschedule_too_late' USING ERRCODE = 'P0001';
+  END IF;
+  IF p_time_start >= p_time_end THEN
+    RAISE EXCEPTION 'invalid_time_range' USING ERRCODE = '22023';
+  END IF;
+  IF booking_starts_at(p_date, p_time_start) <= NOW() + INTERVAL '1 hour' THEN
+    RAISE EXCEPTION 'date_in_past' USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (
+    SELECT 1
+    FROM bookings b
+    WHERE b.provider_id = v_booking.provider_id
+      AND b.id != v_booking.id
+      AND b.scheduled_date = p_date
+      AND b.status NOT IN ('cancelled', 'no_show')
+      AND b.scheduled_time_start < p_time_end
+      AND b.scheduled_time_end > p_time_start
+  ) THEN
+    RAISE EXCEPTION 'slot_taken' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- The provider has to confirm a time the customer picked
+  v_status := CASE
+    WHEN v_booking.status = 'confirmed' AND auth.uid() = v_booking.customer_id THEN 'accepted'
+    ELSE v_booking.status
+  END;
+
+  UPDATE bookings
+  SET scheduled_date = p_date,
+      scheduled_time_start = p_time_start,
+      scheduled_time_end = p_time_end,
+      status = v_status,
+      confirmed_at = CASE WHEN v_status = 'confirmed' THEN confirmed_at END,
+      reschedule_count = reschedule_count + 1
+  WHERE id = p_booking_id;
+
+  RETURN v_status::TEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Fees and refunds in the audit trail
+CREATE OR REPLACE FUNCTION log_booking_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO audit_log (event_type, user_id, details)
+    VALUES (
+      'booking_status_changed',
+      auth.uid(),
+      JSONB_BUILD_OBJECT(
+        'booking_id', NEW.id,
+        'from', OLD.status,
+        'to', NEW.status,
+        'reason', NEW.cancellation_reason,
+        'no_show_party', NEW.no_show_party,
+        'cancellation_policy_id', NEW.cancellation_policy_id,
+        'cancellation_fee_clp', NEW.cancellation_fee_clp,
+        'refund_clp', NEW.refund_clp,
+        'source', COALESCE(NULLIF(current_setting('manito.booking_command_name', TRUE), ''), 'direct')
+      )
+    );
+  END IF;
+
+  IF NEW.scheduled_date IS DISTINCT FROM OLD.scheduled_date
+    OR NEW.scheduled_time_start IS DISTINCT FROM OLD.scheduled_time_start
+    OR NEW.scheduled_time_end IS DISTINCT FROM OLD.scheduled_time_end THEN
+    INSERT INTO audit_log (event_type, user_id, details)
+    VALUES (
+      'booking_rescheduled',
+      auth.uid(),
+      JSONB_BUILD_OBJECT(
+        'booking_id', NEW.id,
+        'from', JSONB_BUILD_OBJECT('date', OLD.scheduled_date, 'start', OLD.scheduled_time_start, 'end', OLD.scheduled_time_end),
+        'to', JSONB_BUILD_OBJECT('date', NEW.scheduled_date, 'start', NEW.scheduled_time_start, 'end', NEW.scheduled_time_end),
+        'reschedule_count', NEW.reschedule_count
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 6. COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE cancellation_policies IS
+  'Cancellation, no-show and reschedule rules; provider_id NULL is the platform policy, a provider row replaces it';
+COMMENT ON COLUMN cancellation_policies.customer_tiers IS 'Customer cancellation fee by notice: [{min_hours_before, fee_pct}]';
+COMMENT ON COLUMN cancellation_policies.provider_tiers IS 'Provider cancellation penalty by notice: [{min_hours_before, penalty_points}]';
+COMMENT ON COLUMN cancellation_policies.replaced_at IS 'When a newer policy took over; NULL for the current one';
+COMMENT ON COLUMN bookings.cancellation_policy_id IS 'Policy in force when the booking was created; its fees and limits apply';
+COMMENT ON FUNCTION current_cancellation_policy(UUID) IS 'The provider''s current policy, or the platform policy';
+COMMENT ON FUNCTION save_provider_cancellation_policy(TEXT, JSONB, JSONB, INTEGER, INTEGER, INTEGER, INTEGER) IS
+  'Replaces the caller''s cancellation policy for new bookings; existing bookings keep theirs';
+COMMENT ON FUNCTION remove_provider_cancellation_policy() IS
+  'Returns the caller''s new bookings to the platform policy';
+COMMENT ON COLUMN bookings.cancellation_fee_clp IS 'Part of the total the customer pays after a cancellation or no-show; goes to the provider';
+COMMENT ON COLUMN bookings.refund_clp IS 'Part of the total returned to the customer after a cancellation or no-show';
+COMMENT ON TABLE provider_reliability_events IS 'Penalty points from late cancellations and no-shows by providers';
+COMMENT ON FUNCTION booking_cancellation_terms(UUID, TEXT) IS
+  'Fee, refund and penalty for ending a booking now under the policy it was created with';
+COMMENT ON FUNCTION preview_booking_cancellation(UUID) IS 'What cancelling would cost the caller right now';
+COMMENT ON FUNCTION provider_reliability_points(UUID) IS 'Reliability penalty points of the last 180 days';
@@ -0,0 +1,806 @@
+-- Recurring Bookings
+-- November 18, 2025
+--
+-- Cleaning, gardening, pool and pest control visits repeat, but every booking was a
+-- single row the customer had to book again. A customer can now turn a booking into
+-- a recurrence (weekly, biweekly, monthly on the same day, or custom weekdays every
+-- week) at the same time and price. Once the provider accepts it, the daily
+-- run_booking_recurrences() job keeps bookings generated horizon_days ahead:
+--
+--   - each rule date gets one booking_occurrences row, with its booking when one was made
+--   - a date the provider is off (chilean_holidays or their own days off) is a holiday
+--     collision: with holiday_policy 'next_day' the visit moves to the first free day
+--     before the next rule date, otherwise it is skipped; both parties are notified
+--   - a date whose slot is taken or outside the provider's working hours is recorded
+--     as 'unavailable' and notified, so the customer can book it separately
+--
+-- The customer can skip one occurrence or pause the recurrence (until a date or
+-- indefinitely); either party can end it. Generated bookings that would be cancelled
+-- by a skip, pause or end are only cancelled with 24 hours' notice; closer visits go
+-- through cancel_booking and the cancellation policy like any other booking.
+
+-- ============================================================================
+-- 1. TYPES AND COLUMNS
+-- ============================================================================
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'booking_recurrence_proposed';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'booking_recurrence_updated';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'booking_recurrence_conflict';
+
+-- Categories whose jobs can repeat on a schedule
+ALTER TABLE service_categories
+  ADD COLUMN IF NOT EXISTS supports_recurrence BOOLEAN NOT NULL DEFAULT FALSE;
+
+UPDATE service_categories
+SET supports_recurrence = TRUE
+WHERE id IN ('limpieza', 'limpieza_hogar', 'limpieza_oficina', 'jardineria', 'piscinas', 'fumigacion', 'control_plagas');
+
+-- ============================================================================
+-- 2. TABLES
+-- ============================================================================
+
+-- Title, address and prices are taken from the origin booking for every visit
+CREATE TABLE IF NOT EXISTS booking_recurrences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  origin_booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  provider_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'biweekly', 'monthly', 'custom')),
+  weekdays SMALLINT[] NOT NULL DEFAULT '{}', -- ISO weekdays (1 = Monday) for 'custom'
+  time_start TIME NOT NULL,
+  time_end TIME NOT NULL,
+  starts_on DATE NOT NULL, -- date of the origin booking
+  ends_on DATE,
+  holiday_policy TEXT NOT NULL DEFAULT 'next_day' CHECK (holiday_policy IN ('next_day', 'skip')),
+  status TEXT NOT NULL DEFAULT 'proposed'
+    CHECK (status IN ('proposed', 'active', 'paused', 'declined', 'ended')),
+  paused_until DATE, -- NULL while paused = until resumed
+  horizon_days INTEGER NOT NULL DEFAULT 28 CHECK (horizon_days BETWEEN 7 AND 90),
+  generated_until DATE, -- last date the generator has looked at
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT valid_recurrence_time CHECK (time_start < time_end),
+  CONSTRAINT valid_recurrence_end CHECK (ends_on IS NULL OR ends_on > starts_on),
+  CONSTRAINT valid_recurrence_weekdays CHECK (
+    weekdays <@ ARRAY[1, 2, 3, 4, 5, 6, 7]::SMALLINT[]
+    AND (frequency != 'custom' OR cardinality(weekdays) > 0)
+  )
+);
+
+-- One live recurrence per booking
+CREATE UNIQUE INDEX IF NOT EXISTS idx_booking_recurrences_origin
+  ON booking_recurrences(origin_booking_id) WHERE status IN ('proposed', 'active', 'paused');
+CREATE INDEX IF NOT EXISTS idx_booking_recurrences_customer ON booking_recurrences(customer_id, status);
+CREATE INDEX IF NOT EXISTS idx_booking_recurrences_provider ON booking_recurrences(provider_id, status);
+CREATE INDEX IF NOT EXISTS idx_booking_recurrences_due
+  ON booking_recurrences(generated_until) WHERE status IN ('active', 'paused');
+
+DROP TRIGGER IF EXISTS update_booking_recurrences_updated_at ON booking_recurrences;
+CREATE TRIGGER update_booking_recurrences_updated_at
+  BEFORE UPDATE ON booking_recurrences
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- occurrence_date is the rule date; scheduled_date differs when a holiday moved the visit
+CREATE TABLE IF NOT EXISTS booking_occurrences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recurrence_id UUID NOT NULL REFERENCES booking_recurrences(id) ON DELETE CASCADE,
+  occurrence_date DATE NOT NULL,
+  scheduled_date DATE,
+  booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  status TEXT NOT NULL CHECK (status IN ('scheduled', 'moved', 'skipped', 'holiday_skipped', 'unavailable')),
+  holiday_name TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (recurrence_id, occurrence_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_occurrences_booking ON booking_occurrences(booking_id);
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS recurrence_id UUID REFERENCES booking_recurrences(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_recurrence ON bookings(recurrence_id) WHERE recurrence_id IS NOT NULL;
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+--
+-- Both parties read; every change goes through the functions below.
+
+ALTER TABLE booking_recurrences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE booking_occurrences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can view booking recurrences" ON booking_recurrences;
+CREATE POLICY "Participants can view booking recurrences" ON booking_recurrences
+  FOR SELECT USING (auth.uid() IN (customer_id, provider_id));
+
+DROP POLICY IF EXISTS "Participants can view booking occurrences" ON booking_occurrences;
+CREATE POLICY "Participants can view booking occurrences" ON booking_occurrences
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM booking_recurrences r
+      WHERE r.id = booking_occurrences.recurrence_id
+        AND auth.uid() IN (r.customer_id, r.provider_id)
+    )
+  );
+
+-- ============================================================================
+-- 4. RULE DATES AND GENERATION
+-- ============================================================================
+
+-- Rule dates in [p_from, p_to]. Monthly keeps the day of month, or the last day of
+-- shorter months.
+CREATE OR REPLACE FUNCTION recurrence_dates(
+  p_frequency TEXT,
+  p_weekdays SMALLINT[],
+  p_starts_on DATE,
+  p_from DATE,
+  p_to DATE
+) RETURNS SETOF DATE AS $$
+  SELECT d::DATE
+  FROM generate_series(
+    p_starts_on::TIMESTAMP,
+    p_to::TIMESTAMP,
+    CASE p_frequency WHEN 'weekly' THEN INTERVAL '7 days' WHEN 'biweekly' THEN INTERVAL '14 days' ELSE INTERVAL '1 day' END
+  ) AS d
+  WHERE p_frequency IN ('weekly', 'biweekly', 'custom')
+    AND d >= p_from
+    AND (p_frequency != 'custom' OR EXTRACT(ISODOW FROM d)::SMALLINT = ANY(p_weekdays))
+  UNION ALL
+  SELECT (p_starts_on + MAKE_INTERVAL(months => m))::DATE
+  FROM generate_series(
+    0,
+    (EXTRACT(YEAR FROM AGE(p_to, p_starts_on)) * 12 + EXTRACT(MONTH FROM AGE(p_to, p_starts_on)))::INTEGER + 1
+  ) AS m
+  WHERE p_frequency = 'monthly'
+    AND (p_starts_on + MAKE_INTERVAL(months => m))::DATE BETWEEN p_from AND p_to
+  ORDER BY 1;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Creates the bookings of an active recurrence up to horizon_days ahead; returns how
+-- many were created. A recurrence paused until a date generates from the day after.
+CREATE OR REPLACE FUNCTION generate_recurring_bookings(p_recurrence_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_rule booking_recurrences;
+  v_origin bookings;
+  v_provider RECORD;
+  v_region TEXT;
+  v_today DATE := (NOW() AT TIME ZONE 'America/Santiago')::DATE;
+  v_from DATE;
+  v_to DATE;
+  v_date DATE;
+  v_next DATE;
+  v_target DATE;
+  v_status TEXT;
+  v_holiday TEXT;
+  v_booking_id UUID;
+  v_message TEXT;
+  v_created INTEGER := 0;
+BEGIN
+  SELECT * INTO v_rule FROM booking_recurrences WHERE id = p_recurrence_id FOR UPDATE;
+  IF NOT FOUND OR NOT (v_rule.status = 'active' OR (v_rule.status = 'paused' AND v_rule.paused_until IS NOT NULL)) THEN
+    RETURN 0;
+  END IF;
+
+  SELECT * INTO v_origin FROM bookings WHERE id = v_rule.origin_booking_id;
+  SELECT pp.working_hours, pp.holiday_availability INTO v_provider
+  FROM provider_profiles pp WHERE pp.user_id = v_rule.provider_id;
+  SELECT a.region INTO v_region FROM addresses a WHERE a.id = v_origin.address_id;
+
+  v_from := GREATEST(COALESCE(v_rule.generated_until, v_rule.starts_on) + 1, v_today + 1);
+  IF v_rule.status = 'paused' THEN
+    v_from := GREATEST(v_from, v_rule.paused_until + 1);
+  END IF;
+  v_to := LEAST(COALESCE(v_rule.ends_on, 'infinity'::DATE), v_today + v_rule.horizon_days);
+
+  FOR v_date IN SELECT recurrence_dates(v_rule.frequency, v_rule.weekdays, v_rule.starts_on, v_from, v_to) LOOP
+    -- Skipped in advance by the customer
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM booking_occurrences o WHERE o.recurrence_id = v_rule.id AND o.occurrence_date = v_date
+    );
+
+    v_target := v_date;
+    v_status := 'scheduled';
+    v_holiday := NULL;
+
+    IF provider_is_off(v_provider.holiday_availability, v_date, v_region) THEN
+      SELECT h.holiday_name INTO v_holiday FROM chilean_holidays h WHERE h.holiday_date = v_date;
+      v_target := NULL;
+
+      IF v_rule.holiday_policy = 'next_day' THEN
+        SELECT MIN(d) INTO v_next
+        FROM recurrence_dates(v_rule.frequency, v_rule.weekdays, v_rule.starts_on, v_date + 1, v_date + 31) AS d;
+
+        SELECT d::DATE INTO v_target
+        FROM generate_series(v_date + 1, COALESCE(v_next, v_date + 7) - 1, INTERVAL '1 day') AS d
+        WHERE (v_rule.ends_on IS NULL OR d::DATE <= v_rule.ends_on)
+          AND provider_slot_is_free(
+            v_rule.provider_id, v_provider.working_hours, v_provider.holiday_availability, v_region,
+            d::DATE, v_rule.time_start, v_rule.time_end
+          )
+        ORDER BY d
+        LIMIT 1;
+      END IF;
+
+      v_status := CASE WHEN v_target IS NULL THEN 'holiday_skipped' ELSE 'moved' END;
+    ELSIF NOT provider_slot_is_free(
+      v_rule.provider_id, v_provider.working_hours, v_provider.holiday_availability, v_region,
+      v_date, v_rule.time_start, v_rule.time_end
+    ) THEN
+      v_target := NULL;
+      v_status := 'unavailable';
+    END IF;
+
+    v_booking_id := NULL;
+    IF v_target IS NOT NULL THEN
+      -- The provider agreed to the recurrence, so its visits start accepted
+      INSERT INTO bookings (
+        customer_id, provider_id, service_id, service_request_id, recurrence_id,
+        title, description, address_id,
+        scheduled_date, scheduled_time_start, scheduled_time_end,
+        service_price_clp, materials_cost_clp, platform_fee_clp, total_price_clp,
+        cancellation_policy_id, status, customer_notes, accepted_at
+      ) VALUES (
+        v_origin.customer_id, v_origin.provider_id, v_origin.service_id, v_origin.service_request_id, v_rule.id,
+        v_origin.title, v_origin.description, v_origin.address_id,
+        v_target, v_rule.time_start, v_rule.time_end,
+        v_origin.service_price_clp, COALESCE(v_origin.materials_cost_clp, 0), v_origin.platform_fee_clp, v_origin.total_price_clp,
+        -- Every visit keeps the terms the first one was booked under
+        v_origin.cancellation_policy_id, 'accepted', v_origin.customer_notes, NOW()
+      )
+      RETURNING id INTO v_booking_id;
+      v_created := v_created + 1;
+    END IF;
+
+    INSERT INTO booking_occurrences (recurrence_id, occurrence_date, scheduled_date, booking_id, status, holiday_name)
+    VALUES (v_rule.id, v_date, v_target, v_booking_id, v_status, v_holiday);
+
+    IF v_status != 'scheduled' THEN
+      v_message := CASE
+        WHEN v_holiday IS NOT NULL THEN 'El ' || TO_CHAR(v_date, 'DD/MM') || ' es feriado (' || v_holiday || ')'
+        ELSE 'El profesional no está disponible el ' || TO_CHAR(v_date, 'DD/MM')
+      END || CASE v_status
+        WHEN 'moved' THEN ': la visita de "' || v_origin.title || '" pasa al ' || TO_CHAR(v_target, 'DD/MM') || '.'
+        WHEN 'unavailable' THEN ' a las ' || TO_CHAR(v_rule.time_start, 'HH24:MI') || ': esa visita de "' || v_origin.title
+          || '" no se agendó.'
+        ELSE ': esa visita de "' || v_origin.title || '" no se agendó.'
+      END;
+
+      INSERT INTO notifications (user_id, type, title, message, booking_id)
+      SELECT participant, 'booking_recurrence_conflict', 'Cambio en tu servicio periódico', v_message, v_booking_id
+      FROM unnest(ARRAY[v_rule.customer_id, v_rule.provider_id]) AS participant;
+
+      INSERT INTO audit_log (event_type, user_id, details)
+      VALUES (
+        'booking_recurrence_conflict',
+        v_rule.customer_id,
+        JSONB_BUILD_OBJECT(
+          'recurrence_id', v_rule.id, 'occurrence_date', v_date, 'status', v_status,
+          'scheduled_date', v_target, 'booking_id', v_booking_id, 'holiday', v_holiday
+        )
+      );
+    END IF;
+  END LOOP;
+
+  UPDATE booking_recurrences
+  SET generated_until = GREATEST(COALESCE(generated_until, v_to), v_to)
+  WHERE id = v_rule.id;
+
+  RETURN v_created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Cancels the recurrence's visits with rule dates in [p_from, p_until] (open-ended
+-- when NULL) that are more than 24 hours away, through the booking command path so
+-- they are notified and audited
+CREATE OR REPLACE FUNCTION cancel_recurring_bookings(
+  p_recurrence_id UUID,
+  p_from DATE,
+  p_until DATE,
+  p_reason TEXT,
+  p_command TEXT
+) RETURNS INTEGER AS $$
+DECLARE
+  v_cancelled INTEGER;
+BEGIN
+  PERFORM set_config('manito.booking_command', 'on', TRUE);
+  PERFORM set_config('manito.booking_command_name', p_command, TRUE);
+
+  WITH cancelled AS (
+    UPDATE bookings b
+    SET status = 'cancelled',
+        cancelled_at = NOW(),
+        cancelled_by = auth.uid(),
+        cancellation_reason = p_reason
+    FROM booking_occurrences o
+    WHERE o.booking_id = b.id
+      AND o.recurrence_id = p_recurrence_id
+      AND (p_from IS NULL OR o.occurrence_date >= p_from)
+      AND (p_until IS NULL OR o.occurrence_date <= p_until)
+      AND b.status IN ('pending', 'accepted', 'confirmed')
+      AND booking_starts_at(b.scheduled_date, b.scheduled_time_start) > NOW() + INTERVAL '24 hours'
+    RETURNING b.id
+  )
+  UPDATE booking_occurrences o
+  SET status = 'skipped'
+  FROM cancelled c
+  WHERE o.booking_id = c.id;
+
+  GET DIAGNOSTICS v_cancelled = ROW_COUNT;
+  RETURN v_cancelled;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION generate_recurring_bookings(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION cancel_recurring_bookings(UUID, DATE, DATE, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Generated visits are expected, not new requests: no booking_request notification
+CREATE OR REPLACE FUNCTION create_booking_notifications()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_actor UUID := auth.uid();
+  -- Whoever did not make the change hears about it; the customer when the system did
+  v_other UUID;
+  v_when TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.recurrence_id IS NOT NULL THEN
+      RETURN NEW;
+    END IF;
+
+    INSERT INTO notifications (user_id, type, title, message, booking_id)
+    VALUES (
+      NEW.provider_id,
+      'booking_request',
+      'Nueva solicitud de servicio',
+      'Tienes una nueva solicitud de servicio pendiente',
+      NEW.id
+    );
+    RETURN NEW;
+  END IF;
+
+  v_other := CASE WHEN v_actor = NEW.customer_id THEN NEW.provider_id ELSE NEW.customer_id END;
+  v_when := TO_CHAR(NEW.scheduled_date, 'DD/MM') || ' a las ' || TO_CHAR(NEW.scheduled_time_start, 'HH24:MI');
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    CASE NEW.status::TEXT
+      WHEN 'accepted' THEN
+        INSERT INTO notifications (user_id, type, title, message, booking_id)
+        VALUES (NEW.customer_id, 'booking_accepted', 'Servicio aceptado',
+          'Tu solicitud de servicio ha sido aceptada', NEW.id);
+      WHEN 'confirmed' THEN
+        INSERT INTO notifications (user_id, type, title, message, booking_id)
+        VALUES (NEW.customer_id, 'booking_confirmed', 'Servicio confirmado',
+          'El profesional confirmó la visita del ' || v_when || '.', NEW.id);
+      WHEN 'in_progress' THEN
+        INSERT INTO notifications (user_id, type, title, message, booking_id)
+        VALUES (NEW.customer_id, 'booking_started', 'Trabajo iniciado',
+          'El profesional registró su llegada y comenzó el trabajo.', NEW.id);
+      WHEN 'completed' THEN
+        INSERT INTO notifications (user_id, type, title, message, booking_id)
+        VALUES (NEW.customer_id, 'job_completed', 'Servicio completado',
+          'El proveedor ha marcado el servicio como completado', NEW.id);
+      WHEN 'cancelled' THEN
+        INSERT INTO notifications (user_id, type, title, message, booking_id)
+        VALUES (v_other, 'booking_cancelled', 'Servicio cancelado',
+          'El servicio del ' || v_when || ' ha sido cancelado'
+            || COALESCE(': ' || NULLIF(TRIM(NEW.cancellation_reason), ''), '.'),
+          NEW.id);
+      WHEN 'no_show' THEN
+        INSERT INTO notifications (user_id, type, title, message, booking_id)
+        VALUES (v_other, 'booking_no_show', 'Inasistencia registrada',
+          CASE WHEN NEW.no_show_party = 'customer'
+            THEN 'El profesional registró que no había nadie para recibirlo el ' || v_when || '.'
+            ELSE 'El cliente registró que no llegaste a la visita del ' || v_when || '.'
+          END,
+          NEW.id);
+      ELSE
+        NULL;
+    END CASE;
+  ELSIF NEW.scheduled_date IS DISTINCT FROM OLD.scheduled_date
+    OR NEW.scheduled_time_start IS DISTINCT FROM OLD.scheduled_time_start
+    OR NEW.scheduled_time_end IS DISTINCT FROM OLD.scheduled_time_end THEN
+    INSERT INTO notifications (user_id, type, title, message, booking_id)
+    VALUES (v_other, 'booking_rescheduled', 'Servicio reagendado',
+      'La visita cambió al ' || v_when || '.'
+        || CASE WHEN NEW.status = 'accepted' AND OLD.status = 'confirmed'
+          THEN ' Confírmala para mantenerla.' ELSE '' END,
+      NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 5. COMMANDS
+-- ============================================================================
+--
+-- Errors use stable messages the app translates: booking_not_found, customer_only,
+-- provider_only, invalid_booking_status, recurrence_not_supported, recurrence_exists,
+-- invalid_weekdays, invalid_end_date, recurrence_not_found, invalid_recurrence_status,
+-- invalid_occurrence, skip_too_late.
+
+-- Customer proposes repeating a booking they already agreed with the provider
+CREATE OR REPLACE FUNCTION propose_booking_recurrence(
+  p_booking_id UUID,
+  p_frequency TEXT,
+  p_weekdays SMALLINT[] DEFAULT '{}',
+  p_ends_on DATE DEFAULT NULL,
+  p_holiday_policy TEXT DEFAULT 'next_day'
+) RETURNS UUID AS $$
+DECLARE
+  v_booking bookings;
+  v_recurrence_id UUID;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+  IF NOT FOUND OR auth.uid() IS NULL OR auth.uid() NOT IN (v_booking.customer_id, v_booking.provider_id) THEN
+    RAISE EXCEPTION 'booking_not_found' USING ERRCODE = 'P0002';
+  END IF;
+  IF auth.uid() != v_booking.customer_id THEN
+    RAISE EXCEPTION 'customer_only' USING ERRCODE = '42501';
+  END IF;
+  IF v_booking.status NOT IN ('accepted', 'confirmed', 'in_progress', 'completed', 'payment_released') THEN
+    RAISE EXCEPTION 'invalid_booking_status' USING ERRCODE = 'P0001';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1
+    FROM services s
+    INNER JOIN service_categories sc ON sc.id = s.category
+    WHERE s.id = v_booking.service_id AND sc.supports_recurrence
+  ) THEN
+    RAISE EXCEPTION 'recurrence_not_supported' USING ERRCODE = 'P0001';
+  END IF;
+  IF p_frequency = 'custom' AND (
+    COALESCE(cardinality(p_weekdays), 0) = 0 OR NOT p_weekdays <@ ARRAY[1, 2, 3, 4, 5, 6, 7]::SMALLINT[]
+  ) THEN
+    RAISE EXCEPTION 'invalid_weekdays' USING ERRCODE = '22023';
+  END IF;
+  IF p_ends_on IS NOT NULL AND p_ends_on <= v_booking.scheduled_date THEN
+    RAISE EXCEPTION 'invalid_end_date' USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM booking_recurrences r
+    WHERE r.origin_booking_id = p_booking_id AND r.status IN ('proposed', 'active', 'paused')
+  ) THEN
+    RAISE EXCEPTION 'recurrence_exists' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO booking_recurrences (
+    origin_booking_id, customer_id, provider_id, frequency, weekdays,
+    time_start, time_end, starts_on, ends_on, holiday_policy
+  ) VALUES (
+    v_booking.id, v_booking.customer_id, v_booking.provider_id, p_frequency,
+    CASE WHEN p_frequency = 'custom' THEN p_weekdays ELSE '{}' END,
+    v_booking.scheduled_time_start, v_booking.scheduled_time_end, v_booking.scheduled_date, p_ends_on, p_holiday_policy
+  )
+  RETURNING id INTO v_recurrence_id;
+
+  INSERT INTO notifications (user_id, type, title, message, booking_id)
+  VALUES (
+    v_booking.provider_id,
+    'booking_recurrence_proposed',
+    'Solicitud de servicio periódico',
+    'El cliente quiere repetir "' || v_booking.title || '" '
+      || CASE p_frequency
+        WHEN 'weekly' THEN 'cada semana'
+        WHEN 'biweekly' THEN 'cada dos semanas'
+        WHEN 'monthly' THEN 'cada mes'
+        ELSE 'algunos días cada semana'
+      END || ' a las ' || TO_CHAR(v_booking.scheduled_time_start, 'HH24:MI') || '.',
+    v_booking.id
+  );
+  INSERT INTO audit_log (event_type, user_id, details)
+  VALUES (
+    'booking_recurrence_proposed',
+    auth.uid(),
+    JSONB_BUILD_OBJECT('recurrence_id', v_recurrence_id, 'booking_id', v_booking.id, 'frequency', p_frequency)
+  );
+
+  RETURN v_recurrence_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Locks a recurrence for one of its participants
+CREATE OR REPLACE FUNCTION lock_booking_recurrence(p_recurrence_id UUID)
+RETURNS booking_recurrences AS $$
+DECLARE
+  v_rule booking_recurrences;
+BEGIN
+  SELECT * INTO v_rule FROM booking_recurrences WHERE id = p_recurrence_id FOR UPDATE;
+
+  IF NOT FOUND OR auth.uid() IS NULL OR auth.uid() NOT IN (v_rule.customer_id, v_rule.provider_id) THEN
+    RAISE EXCEPTION 'recurrence_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_rule;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Provider accepts or declines; accepting generates the first visits right away.
+-- Returns how many bookings were created.
+CREATE OR REPLACE FUNCTION respond_booking_recurrence(p_recurrence_id UUID, p_accept BOOLEAN)
+RETURNS INTEGER AS $$
+DECLARE
+  v_rule booking_recurrences := lock_booking_recurrence(p_recurrence_id);
+  v_created INTEGER := 0;
+BEGIN
+  IF auth.uid() != v_rule.provider_id THEN
+    RAISE EXCEPTION 'provider_only' USING ERRCODE = '42501';
+  END IF;
+  IF v_rule.status != 'proposed' THEN
+    RAISE EXCEPTION 'invalid_recurrence_status' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE booking_recurrences
+  SET status = CASE WHEN p_accept THEN 'active' ELSE 'declined' END
+  WHERE id = v_rule.id;
+
+  IF p_accept THEN
+    UPDATE bookings SET recurrence_id = v_rule.id WHERE id = v_rule.origin_booking_id;
+    v_created := generate_recurring_bookings(v_rule.id);
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message, booking_id)
+  VALUES (
+    v_rule.customer_id,
+    'booking_recurrence_updated',
+    CASE WHEN p_accept THEN 'Servicio periódico aceptado' ELSE 'Servicio periódico rechazado' END,
+    CASE WHEN p_accept
+      THEN 'El profesional aceptó repetir el servicio. Ya agendamos las próximas visitas.'
+      ELSE 'El profesional no puede repetir este servicio periódicamente.'
+    END,
+    v_rule.origin_booking_id
+  );
+  INSERT INTO audit_log (event_type, user_id, details)
+  VALUES (
+    CASE WHEN p_accept THEN 'booking_recurrence_accepted' ELSE 'booking_recurrence_declined' END,
+    auth.uid(),
+    JSONB_BUILD_OBJECT('recurrence_id', v_rule.id, 'bookings_created', v_created)
+  );
+
+  RETURN v_created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Customer skips one rule date, before or after its booking was generated
+CREATE OR REPLACE FUNCTION skip_booking_occurrence(p_recurrence_id UUID, p_occurrence_date DATE)
+RETURNS VOID AS $$
+DECLARE
+  v_rule booking_recurrences := lock_booking_recurrence(p_recurrence_id);
+  v_occurrence booking_occurrences;
+BEGIN
+  IF auth.uid() != v_rule.customer_id THEN
+    RAISE EXCEPTION 'customer_only' USING ERRCODE = '42501';
+  END IF;
+  IF v_rule.status NOT IN ('active', 'paused') THEN
+    RAISE EXCEPTION 'invalid_recurrence_status' USING ERRCODE = 'P0001';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM recurrence_dates(v_rule.frequency, v_rule.weekdays, v_rule.starts_on, p_occurrence_date, p_occurrence_date)
+  ) OR p_occurrence_date = v_rule.starts_on THEN
+    RAISE EXCEPTION 'invalid_occurrence' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_occurrence
+  FROM booking_occurrences
+  WHERE recurrence_id = v_rule.id AND occurrence_date = p_occurrence_date;
+
+  IF booking_starts_at(COALESCE(v_occurrence.scheduled_date, p_occurrence_date), v_rule.time_start)
+    <= NOW() + INTERVAL '24 hours' THEN
+    RAISE EXCEPTION 'skip_too_late' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_occurrence.booking_id IS NOT NULL THEN
+    PERFORM cancel_recurring_bookings(
+      v_rule.id, p_occurrence_date, p_occurrence_date, 'Visita omitida por el cliente', 'skip_booking_occurrence'
+    );
+  END IF;
+
+  INSERT INTO booking_occurrences (recurrence_id, occurrence_date, status)
+  VALUES (v_rule.id, p_occurrence_date, 'skipped')
+  ON CONFLICT (recurrence_id, occurrence_date) DO UPDATE SET status = 'skipped';
+
+  INSERT INTO audit_log (event_type, user_id, details)
+  VALUES (
+    'booking_occurrence_skipped',
+    auth.uid(),
+    JSONB_BUILD_OBJECT('recurrence_id', v_rule.id, 'occurrence_date', p_occurrence_date, 'booking_id', v_occurrence.booking_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Customer pauses until p_until, or until they resume; returns visits cancelled
+CREATE OR REPLACE FUNCTION pause_booking_recurrence(p_recurrence_id UUID, p_until DATE DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_rule booking_recurrences := lock_booking_recurrence(p_recurrence_id);
+  v_cancelled INTEGER;
+BEGIN
+  IF auth.uid() != v_rule.customer_id THEN
+    RAISE EXCEPTION 'customer_only' USING ERRCODE = '42501';
+  END IF;
+  IF v_rule.status NOT IN ('active', 'paused') THEN
+    RAISE EXCEPTION 'invalid_recurrence_status' USING ERRCODE = 'P0001';
+  END IF;
+  IF p_until IS NOT NULL AND p_until <= (NOW() AT TIME ZONE 'America/Santiago')::DATE THEN
+    RAISE EXCEPTION 'invalid_end_date' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE booking_recurrences SET status = 'paused', paused_until = p_until WHERE id = v_rule.id;
+  v_cancelled := cancel_recurring_bookings(v_rule.id, NULL, p_until, 'Servicio periódico en pausa', 'pause_booking_recurrence');
+
+  INSERT INTO notifications (user_id, type, title, message, booking_id)
+  VALUES (
+    v_rule.provider_id,
+    'booking_recurrence_updated',
+    'Servicio periódico en pausa',
+    'El cliente pausó el servicio periódico'
+      || COALESCE(' hasta el ' || TO_CHAR(p_until, 'DD/MM'), '') || '.',
+    v_rule.origin_booking_id
+  );
+  INSERT INTO audit_log (event_type, user_id, details)
+  VALUES (
+    'booking_recurrence_paused',
+    auth.uid(),
+    JSONB_BUILD_OBJECT('recurrence_id', v_rule.id, 'paused_until', p_until, 'bookings_cancelled', v_cancelled)
+  );
+
+  RETURN v_cancelled;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Returns visits created
+CREATE OR REPLACE FUNCTION resume_booking_recurrence(p_recurrence_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_rule booking_recurrences := lock_booking_recurrence(p_recurrence_id);
+  v_created INTEGER;
+BEGIN
+  IF auth.uid() != v_rule.customer_id THEN
+    RAISE EXCEPTION 'customer_only' USING ERRCODE = '42501';
+  END IF;
+  IF v_rule.status != 'paused' THEN
+    RAISE EXCEPTION 'invalid_recurrence_status' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE booking_recurrences SET status = 'active', paused_until = NULL WHERE id = v_rule.id;
+  v_created := generate_recurring_bookings(v_rule.id);
+
+  INSERT INTO notifications (user_id, type, title, message, booking_id)
+  VALUES (
+    v_rule.provider_id,
+    'booking_recurrence_updated',
+    'Servicio periódico reanudado',
+    'El cliente reanudó el servicio periódico.',
+    v_rule.origin_booking_id
+  );
+  INSERT INTO audit_log (event_type, user_id, details)
+  VALUES (
+    'booking_recurrence_resumed',
+    auth.uid(),
+    JSONB_BUILD_OBJECT('recurrence_id', v_rule.id, 'bookings_created', v_created)
+  );
+
+  RETURN v_created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Either party stops the recurrence; a pending proposal is withdrawn. Returns visits cancelled.
+CREATE OR REPLACE FUNCTION end_booking_recurrence(p_recurrence_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_rule booking_recurrences := lock_booking_recurrence(p_recurrence_id);
+  v_cancelled INTEGER;
+BEGIN
+  IF v_rule.status NOT IN ('proposed', 'active', 'paused') THEN
+    RAISE EXCEPTION 'invalid_recurrence_status' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE booking_recurrences
+  SET status = 'ended',
+      ends_on = GREATEST((NOW() AT TIME ZONE 'America/Santiago')::DATE, starts_on + 1)
+  WHERE id = v_rule.id;
+  v_cancelled := cancel_recurring_bookings(v_rule.id, NULL, NULL, 'Servicio periódico terminado', 'end_booking_recurrence');
+
+  INSERT INTO notifications (user_id, type, title, message, booking_id)
+  VALUES (
+    CASE WHEN auth.uid() = v_rule.customer_id THEN v_rule.provider_id ELSE v_rule.customer_id END,
+    'booking_recurrence_updated',
+    'Servicio periódico terminado',
+    CASE WHEN auth.uid() = v_rule.customer_id THEN 'El cliente' ELSE 'El profesional' END
+      || ' terminó el servicio periódico. Las visitas ya agendadas para las próximas 24 horas se mantienen.',
+    v_rule.origin_booking_id
+  );
+  INSERT INTO audit_log (event_type, user_id, details)
+  VALUES (
+    'booking_recurrence_ended',
+    auth.uid(),
+    JSONB_BUILD_OBJECT('recurrence_id', v_rule.id, 'bookings_cancelled', v_cancelled)
+  );
+
+  RETURN v_cancelled;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION lock_booking_recurrence(UUID) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION propose_booking_recurrence(UUID, TEXT, SMALLINT[], DATE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION respond_booking_recurrence(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION skip_booking_occurrence(UUID, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION pause_booking_recurrence(UUID, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION resume_booking_recurrence(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION end_booking_recurrence(UUID) TO authenticated;
+
+-- ============================================================================
+-- 6. SCHEDULED ROLL FORWARD
+-- ============================================================================
+
+-- Ends recurrences past ends_on, resumes pauses that are over and generates the
+-- next visits, so a recurrence keeps going without the customer booking again
+CREATE OR REPLACE FUNCTION run_booking_recurrences(p_batch_size INTEGER DEFAULT 200)
+RETURNS TABLE (
+  recurrences_ended INTEGER,
+  recurrences_resumed INTEGER,
+  bookings_created INTEGER
+) AS $$
+DECLARE
+  v_today DATE := (NOW() AT TIME ZONE 'America/Santiago')::DATE;
+  v_ended INTEGER;
+  v_resumed INTEGER;
+  v_created INTEGER := 0;
+  v_rule RECORD;
+BEGIN
+  UPDATE booking_recurrences
+  SET status = 'ended'
+  WHERE status IN ('active', 'paused') AND ends_on < v_today;
+  GET DIAGNOSTICS v_ended = ROW_COUNT;
+
+  UPDATE booking_recurrences
+  SET status = 'active', paused_until = NULL
+  WHERE status = 'paused' AND paused_until < v_today;
+  GET DIAGNOSTICS v_resumed = ROW_COUNT;
+
+  FOR v_rule IN
+    SELECT r.id
+    FROM booking_recurrences r
+    WHERE (r.status = 'active' OR (r.status = 'paused' AND r.paused_until IS NOT NULL))
+      AND (r.generated_until IS NULL OR r.generated_until < v_today + r.horizon_days)
+    ORDER BY r.generated_until NULLS FIRST
+    LIMIT p_batch_size
+  LOOP
+    v_created := v_created + generate_recurring_bookings(v_rule.id);
+  END LOOP;
+
+  RETURN QUERY SELECT v_ended, v_resumed, v_created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the scheduler (service role) runs the job
+REVOKE EXECUTE ON FUNCTION run_booking_recurrences(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Daily at 06:00 UTC (early morning in Chile) where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('booking-recurrences', '0 6 * * *', 'SELECT run_booking_recurrences()');
+  END IF;
+END;
+$$;
+
+-- ============================================================================
+-- 7. COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE booking_recurrences IS
+  'Repeating visits created from an origin booking; run_booking_recurrences() generates them horizon_days ahead';
+COMMENT ON COLUMN booking_recurrences.weekdays IS 'ISO weekdays (1 = Monday) for custom frequency';
+COMMENT ON COLUMN booking_recurrences.holiday_policy IS
+  'On a day the provider is off: next_day moves the visit to the first free day before the next one, skip drops it';
+COMMENT ON TABLE booking_occurrences IS 'One row per rule date handled: its booking, or why there is none';
+COMMENT ON COLUMN service_categories.supports_recurrence IS 'Jobs in this category can be booked as a recurrence';
+COMMENT ON FUNCTION recurrence_dates(TEXT, SMALLINT[], DATE, DATE, DATE) IS 'Rule dates of a recurrence within a range';
+COMMENT ON FUNCTION run_booking_recurrences(INTEGER) IS
+  'Scheduled job: ends and resumes recurrences and generates their upcoming bookings';
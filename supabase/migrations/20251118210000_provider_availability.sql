@@ -0,0 +1,465 @@
+-- Provider Availability
+-- November 18, 2025
+--
+-- Providers describe when they work instead of relying on a single 08:00-18:00 window:
+--
+--   working_hours      one or more windows per weekday
+--   buffer_minutes     travel/setup time kept free before and after every booking
+--   max_jobs_per_day   cap on bookings for a single day (NULL: no cap)
+--   exceptions         vacations, sick days and other time off, whole days or hours
+--
+-- Every availability question now goes through provider_schedule_conflict(), so
+-- search (provider_slot_is_free, provider_next_free_slot), the slot list shown when
+-- booking (get_provider_available_slots) and booking creation itself (a trigger on
+-- bookings) agree on what is free. Exceptions only block new bookings: a provider who
+-- falls sick still cancels the bookings they already have through cancel_booking.
+
+-- ============================================================================
+-- 1. WEEKLY HOURS, BUFFER AND DAILY CAP
+-- ============================================================================
+--
+-- working_hours keeps the shapes read by provider_working_window() and adds a list of
+-- windows per weekday for split shifts:
+--   {"monday": [{"start": "08:00", "end": "13:00"}, {"start": "15:00", "end": "19:00"}], ...}
+
+CREATE OR REPLACE FUNCTION valid_working_hours(p_working_hours JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT CASE
+    WHEN p_working_hours IS NULL OR p_working_hours = '{}'::JSONB THEN TRUE
+    WHEN jsonb_typeof(p_working_hours) != 'object' THEN FALSE
+    WHEN p_working_hours ? 'start' THEN
+      (p_working_hours->>'start') ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'
+      AND (p_working_hours->>'end') ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'
+      AND p_working_hours->>'start' < p_working_hours->>'end'
+    ELSE NOT EXISTS (
+      SELECT 1
+      FROM jsonb_each(p_working_hours) AS day
+      LEFT JOIN LATERAL jsonb_array_elements(
+        CASE jsonb_typeof(day.value) WHEN 'array' THEN day.value ELSE jsonb_build_array(day.value) END
+      ) AS w ON jsonb_typeof(day.value) != 'null'
+      WHERE day.key NOT IN ('monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday')
+        OR (
+          w IS NOT NULL
+          AND w->'enabled' IS DISTINCT FROM 'false'::JSONB
+          AND (
+            jsonb_typeof(w) != 'object'
+            OR COALESCE(w->>'start', '') !~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'
+            OR COALESCE(w->>'end', '') !~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'
+            OR w->>'start' >= w->>'end'
+          )
+        )
+    )
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE provider_profiles
+  ADD COLUMN IF NOT EXISTS buffer_minutes INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS max_jobs_per_day INTEGER;
+
+ALTER TABLE provider_profiles DROP CONSTRAINT IF EXISTS valid_buffer_minutes;
+ALTER TABLE provider_profiles
+  ADD CONSTRAINT valid_buffer_minutes CHECK (buffer_minutes BETWEEN 0 AND 240);
+
+ALTER TABLE provider_profiles DROP CONSTRAINT IF EXISTS valid_max_jobs_per_day;
+ALTER TABLE provider_profiles
+  ADD CONSTRAINT valid_max_jobs_per_day CHECK (max_jobs_per_day IS NULL OR max_jobs_per_day BETWEEN 1 AND 20);
+
+CREATE OR REPLACE FUNCTION provider_working_window(
+  p_working_hours JSONB,
+  p_date DATE
+) RETURNS TABLE (
+  window_start TIME,
+  window_end TIME
+) AS $$
+  SELECT (w->>'start')::TIME, (w->>'end')::TIME
+  FROM (
+    SELECT CASE
+      WHEN COALESCE(p_working_hours, '{}'::JSONB) = '{}'::JSONB OR p_working_hours ? 'start' THEN
+        CASE WHEN EXTRACT(ISODOW FROM p_date) <= 6
+          THEN COALESCE(NULLIF(p_working_hours, '{}'::JSONB), '{"start": "08:00", "end": "18:00"}'::JSONB)
+        END
+      ELSE p_working_hours -> to_char(p_date, 'FMday')
+    END AS hours
+  ) d
+  CROSS JOIN LATERAL jsonb_array_elements(
+    CASE jsonb_typeof(d.hours)
+      WHEN 'array' THEN d.hours
+      WHEN 'object' THEN jsonb_build_array(d.hours)
+      ELSE '[]'::JSONB
+    END
+  ) AS w
+  WHERE jsonb_typeof(w) = 'object'
+    AND w ? 'start'
+    AND w ? 'end'
+    AND COALESCE((w->>'enabled')::BOOLEAN, TRUE)
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- 2. EXCEPTIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS provider_availability_exceptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_id UUID NOT NULL REFERENCES provider_profiles(user_id) ON DELETE CASCADE,
+  kind TEXT NOT NULL DEFAULT 'other' CHECK (kind IN ('vacation', 'sick', 'personal', 'other')),
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL,
+  -- Both NULL: the whole day; otherwise the same hours on every day of the range
+  time_start TIME,
+  time_end TIME,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT valid_exception_dates CHECK (ends_on >= starts_on AND ends_on - starts_on <= 366),
+  CONSTRAINT valid_exception_times CHECK (
+    (time_start IS NULL AND time_end IS NULL)
+    OR (time_start IS NOT NULL AND time_end IS NOT NULL AND time_end > time_start)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_provider_availability_exceptions_provider
+  ON provider_availability_exceptions(provider_id, starts_on, ends_on);
+
+DROP TRIGGER IF EXISTS update_provider_availability_exceptions_updated_at ON provider_availability_exceptions;
+CREATE TRIGGER update_provider_availability_exceptions_updated_at
+  BEFORE UPDATE ON provider_availability_exceptions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE provider_availability_exceptions ENABLE ROW LEVEL SECURITY;
+
+-- Customers only learn that a slot is taken, never why
+DROP POLICY IF EXISTS "Providers can manage their own availability exceptions" ON provider_availability_exceptions;
+CREATE POLICY "Providers can manage their own availability exceptions" ON provider_availability_exceptions
+  FOR ALL USING (provider_id = auth.uid()) WITH CHECK (provider_id = auth.uid());
+
+-- holiday_availability.custom_dates becomes whole-day exceptions; provider_is_off()
+-- still reads the (now empty) list so older clients keep working
+INSERT INTO provider_availability_exceptions (provider_id, kind, starts_on, ends_on)
+SELECT p.user_id, 'personal', d::DATE, d::DATE
+FROM provider_profiles p
+CROSS JOIN LATERAL jsonb_array_elements_text(
+  CASE jsonb_typeof(p.holiday_availability->'custom_dates')
+    WHEN 'array' THEN p.holiday_availability->'custom_dates'
+    ELSE '[]'::JSONB
+  END
+) AS d
+WHERE d ~ '^\d{4}-\d{2}-\d{2}$'
+  AND NOT EXISTS (
+    SELECT 1 FROM provider_availability_exceptions e
+    WHERE e.provider_id = p.user_id AND e.starts_on = d::DATE AND e.ends_on = d::DATE
+  );
+
+UPDATE provider_profiles
+SET holiday_availability = jsonb_set(holiday_availability, '{custom_dates}', '[]'::JSONB)
+WHERE jsonb_array_length(
+  CASE jsonb_typeof(holiday_availability->'custom_dates')
+    WHEN 'array' THEN holiday_availability->'custom_dates'
+    ELSE '[]'::JSONB
+  END
+) > 0;
+
+-- Added after the backfill above; NOT VALID so existing profiles keep whatever they
+-- had until they are next saved
+ALTER TABLE provider_profiles DROP CONSTRAINT IF EXISTS valid_working_hours;
+ALTER TABLE provider_profiles
+  ADD CONSTRAINT valid_working_hours CHECK (valid_working_hours(working_hours)) NOT VALID;
+
+-- ============================================================================
+-- 3. SLOT HELPERS
+-- ============================================================================
+--
+-- Bookings hold their slot unless cancelled or the customer did not show up. The
+-- helpers are SECURITY DEFINER for the same reason as provider_slot_is_free: they
+-- see every booking and exception of the provider but only answer yes/no or return
+-- bare time ranges.
+
+CREATE OR REPLACE FUNCTION provider_day_is_full(
+  p_provider_id UUID,
+  p_date DATE,
+  p_exclude_booking_id UUID DEFAULT NULL
+) RETURNS BOOLEAN AS $$
+  SELECT COALESCE((
+    SELECT COUNT(b.id) >= p.max_jobs_per_day
+    FROM provider_profiles p
+    LEFT JOIN bookings b
+      ON b.provider_id = p.user_id
+      AND b.scheduled_date = p_date
+      AND b.status NOT IN ('cancelled', 'no_show')
+      AND b.id IS DISTINCT FROM p_exclude_booking_id
+    WHERE p.user_id = p_provider_id AND p.max_jobs_per_day IS NOT NULL
+    GROUP BY p.max_jobs_per_day
+  ), FALSE);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Local time ranges on p_date the provider can't take new work: bookings widened by
+-- the buffer on both sides, plus exceptions (a whole-day one covers the full day)
+CREATE OR REPLACE FUNCTION provider_busy_intervals(
+  p_provider_id UUID,
+  p_date DATE,
+  p_exclude_booking_id UUID DEFAULT NULL
+) RETURNS TABLE (
+  busy_start TIMESTAMP,
+  busy_end TIMESTAMP
+) AS $$
+  SELECT
+    p_date + b.scheduled_time_start - make_interval(mins => p.buffer_minutes),
+    p_date + b.scheduled_time_end + make_interval(mins => p.buffer_minutes)
+  FROM bookings b
+  JOIN provider_profiles p ON p.user_id = b.provider_id
+  WHERE b.provider_id = p_provider_id
+    AND b.scheduled_date = p_date
+    AND b.status NOT IN ('cancelled', 'no_show')
+    AND b.id IS DISTINCT FROM p_exclude_booking_id
+  UNION ALL
+  SELECT
+    p_date + COALESCE(e.time_start, TIME '00:00'),
+    CASE WHEN e.time_end IS NULL THEN p_date + 1 ELSE p_date + e.time_end END
+  FROM provider_availability_exceptions e
+  WHERE e.provider_id = p_provider_id
+    AND p_date BETWEEN e.starts_on AND e.ends_on
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Why the provider can't take p_start-p_end on p_date regardless of their weekly
+-- hours, or NULL when they can. The codes are the ones booking creation raises.
+CREATE OR REPLACE FUNCTION provider_schedule_conflict(
+  p_provider_id UUID,
+  p_date DATE,
+  p_start TIME,
+  p_end TIME,
+  p_exclude_booking_id UUID DEFAULT NULL
+) RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1
+      FROM provider_availability_exceptions e
+      WHERE e.provider_id = p_provider_id
+        AND p_date BETWEEN e.starts_on AND e.ends_on
+        AND (e.time_start IS NULL OR (e.time_start < p_end AND e.time_end > p_start))
+    ) THEN 'provider_unavailable'
+    WHEN provider_day_is_full(p_provider_id, p_date, p_exclude_booking_id) THEN 'daily_limit_reached'
+    WHEN EXISTS (
+      SELECT 1
+      FROM provider_busy_intervals(p_provider_id, p_date, p_exclude_booking_id) bi
+      WHERE bi.busy_start < p_date + p_end
+        AND bi.busy_end > p_date + p_start
+    ) THEN 'slot_taken'
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION provider_slot_is_free(
+  p_provider_id UUID,
+  p_working_hours JSONB,
+  p_holiday_availability JSONB,
+  p_region TEXT,
+  p_date DATE,
+  p_start TIME,
+  p_end TIME
+) RETURNS BOOLEAN AS $$
+  SELECT NOT provider_is_off(p_holiday_availability, p_date, p_region)
+    AND EXISTS (
+      SELECT 1 FROM provider_working_window(p_working_hours, p_date) w
+      WHERE w.window_start <= p_start AND w.window_end >= p_end
+    )
+    AND provider_schedule_conflict(p_provider_id, p_date, p_start, p_end) IS NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION provider_next_free_slot(
+  p_provider_id UUID,
+  p_working_hours JSONB,
+  p_holiday_availability JSONB,
+  p_region TEXT,
+  p_from TIMESTAMP,
+  p_duration INTERVAL DEFAULT INTERVAL '2 hours',
+  p_days_ahead INTEGER DEFAULT 14
+) RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_date DATE;
+  v_window RECORD;
+  v_candidate TIMESTAMP;
+  v_busy RECORD;
+  v_earliest TIMESTAMP := date_trunc('hour', p_from + INTERVAL '59 minutes');
+BEGIN
+  FOR v_date IN
+    SELECT d::DATE FROM generate_series(p_from::DATE, p_from::DATE + p_days_ahead, INTERVAL '1 day') AS d
+  LOOP
+    CONTINUE WHEN provider_is_off(p_holiday_availability, v_date, p_region);
+    CONTINUE WHEN provider_day_is_full(p_provider_id, v_date);
+
+    FOR v_window IN SELECT * FROM provider_working_window(p_working_hours, v_date) LOOP
+      v_candidate := GREATEST(v_date + v_window.window_start, v_earliest);
+
+      FOR v_busy IN
+        SELECT * FROM provider_busy_intervals(p_provider_id, v_date) bi
+        WHERE bi.busy_end > v_candidate
+        ORDER BY bi.busy_start
+      LOOP
+        EXIT WHEN v_candidate + p_duration <= v_busy.busy_start;
+        v_candidate := GREATEST(v_candidate, v_busy.busy_end);
+      END LOOP;
+
+      IF v_candidate + p_duration <= v_date + v_window.window_end THEN
+        RETURN v_candidate AT TIME ZONE 'America/Santiago';
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER COST 500;
+
+-- ============================================================================
+-- 4. SLOT LIST
+-- ============================================================================
+--
+-- Bookable starts for a provider between two dates, every p_step_minutes inside
+-- their working windows. Starts less than an hour away are left out, matching the
+-- date_in_past rule of the booking commands. p_region is the customer's region, for
+-- regional holidays.
+
+CREATE OR REPLACE FUNCTION get_provider_available_slots(
+  p_provider_id UUID,
+  p_from DATE,
+  p_to DATE,
+  p_duration_minutes INTEGER DEFAULT 120,
+  p_step_minutes INTEGER DEFAULT 60,
+  p_region TEXT DEFAULT NULL
+) RETURNS TABLE (
+  slot_date DATE,
+  slot_start TIME,
+  slot_end TIME
+) AS $$
+DECLARE
+  v_provider provider_profiles%ROWTYPE;
+  v_duration INTERVAL := make_interval(mins => p_duration_minutes);
+  v_earliest TIMESTAMP := (NOW() AT TIME ZONE 'America/Santiago') + INTERVAL '1 hour';
+  v_date DATE;
+BEGIN
+  IF p_to < p_from OR p_to - p_from > 31 THEN
+    RAISE EXCEPTION 'invalid_date_range' USING ERRCODE = '22023';
+  END IF;
+  IF p_duration_minutes NOT BETWEEN 15 AND 720 OR p_step_minutes NOT BETWEEN 15 AND 240 THEN
+    RAISE EXCEPTION 'invalid_duration' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_provider FROM provider_profiles WHERE user_id = p_provider_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'provider_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  FOR v_date IN
+    SELECT d::DATE FROM generate_series(GREATEST(p_from, v_earliest::DATE), p_to, INTERVAL '1 day') AS d
+  LOOP
+    CONTINUE WHEN provider_is_off(v_provider.holiday_availability, v_date, p_region);
+    CONTINUE WHEN provider_day_is_full(p_provider_id, v_date);
+
+    RETURN QUERY
+    SELECT v_date, s::TIME, (s + v_duration)::TIME
+    FROM provider_working_window(v_provider.working_hours, v_date) w
+    CROSS JOIN LATERAL generate_series(
+      v_date + w.window_start,
+      v_date + w.window_end - v_duration,
+      make_interval(mins => p_step_minutes)
+    ) AS s
+    WHERE s > v_earliest
+      AND NOT EXISTS (
+        SELECT 1
+        FROM provider_busy_intervals(p_provider_id, v_date) bi
+        WHERE bi.busy_start < s + v_duration
+          AND bi.busy_end > s
+      )
+    ORDER BY s;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- 5. BOOKING CREATION
+-- ============================================================================
+--
+-- Every path that creates or moves a booking (accept_quote, reschedule_booking,
+-- generated recurring visits) passes through here. Weekly hours are not enforced:
+-- the provider proposed the slot in their quote and may work outside them.
+
+CREATE OR REPLACE FUNCTION enforce_provider_availability()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_conflict TEXT;
+BEGIN
+  IF NEW.status IN ('pending', 'accepted', 'confirmed')
+    AND NEW.scheduled_date IS NOT NULL
+    AND (
+      TG_OP = 'INSERT'
+      OR NEW.scheduled_date IS DISTINCT FROM OLD.scheduled_date
+      OR NEW.scheduled_time_start IS DISTINCT FROM OLD.scheduled_time_start
+      OR NEW.scheduled_time_end IS DISTINCT FROM OLD.scheduled_time_end
+    ) THEN
+    v_conflict := provider_schedule_conflict(
+      NEW.provider_id, NEW.scheduled_date, NEW.scheduled_time_start, NEW.scheduled_time_end, NEW.id
+    );
+
+    IF v_conflict IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_conflict USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_enforce_provider_availability ON bookings;
+CREATE TRIGGER trigger_enforce_provider_availability
+  BEFORE INSERT OR UPDATE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION enforce_provider_availability();
+
+-- A new exception or a changed cap moves the provider in or out of search results
+CREATE OR REPLACE FUNCTION invalidate_search_cache_for_availability()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM search_cache
+  WHERE provider_ids @> ARRAY[COALESCE(NEW.provider_id, OLD.provider_id)];
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_search_cache_availability_exceptions ON provider_availability_exceptions;
+CREATE TRIGGER trigger_search_cache_availability_exceptions
+  AFTER INSERT OR UPDATE OR DELETE ON provider_availability_exceptions
+  FOR EACH ROW EXECUTE FUNCTION invalidate_search_cache_for_availability();
+
+-- ============================================================================
+-- 6. PERMISSIONS
+-- ============================================================================
+
+REVOKE EXECUTE ON FUNCTION provider_day_is_full(UUID, DATE, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION provider_busy_intervals(UUID, DATE, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION provider_schedule_conflict(UUID, DATE, TIME, TIME, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION provider_slot_is_free(UUID, JSONB, JSONB, TEXT, DATE, TIME, TIME) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION provider_next_free_slot(UUID, JSONB, JSONB, TEXT, TIMESTAMP, INTERVAL, INTEGER) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION get_provider_available_slots(UUID, DATE, DATE, INTEGER, INTEGER, TEXT) TO authenticated, anon;
+
+-- ============================================================================
+-- 7. COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN provider_profiles.working_hours IS
+  'Weekly hours: legacy {start, end} (Monday to Saturday) or per weekday an object or a list of {start, end} windows';
+COMMENT ON COLUMN provider_profiles.buffer_minutes IS
+  'Minutes kept free before and after every booking';
+COMMENT ON COLUMN provider_profiles.max_jobs_per_day IS
+  'Most bookings the provider takes on one day; NULL for no cap';
+COMMENT ON TABLE provider_availability_exceptions IS
+  'Vacations, sick days and other time off; whole days when time_start/time_end are NULL';
+COMMENT ON FUNCTION provider_working_window(JSONB, DATE) IS
+  'Working windows for a date from working_hours, earliest first';
+COMMENT ON FUNCTION provider_busy_intervals(UUID, DATE, UUID) IS
+  'Bookings widened by buffer_minutes and exceptions on a date, as local timestamps';
+COMMENT ON FUNCTION provider_schedule_conflict(UUID, DATE, TIME, TIME, UUID) IS
+  'provider_unavailable, daily_limit_reached or slot_taken when the slot clashes; NULL when it is free';
+COMMENT ON FUNCTION provider_slot_is_free(UUID, JSONB, JSONB, TEXT, DATE, TIME, TIME) IS
+  'TRUE when the slot is inside working hours, not a day off and clear of bookings, buffers, exceptions and the daily cap';
+COMMENT ON FUNCTION get_provider_available_slots(UUID, DATE, DATE, INTEGER, INTEGER, TEXT) IS
+  'Bookable slots of the given length for a provider over at most 31 days';
@@ -0,0 +1,357 @@
+-- Calendar Feeds and External Calendars
+-- November 18, 2025
+--
+-- Providers double-book because Manito jobs don't show up in the calendars they live
+-- in. Two directions:
+--
+--   Export  every user gets a secret iCalendar feed URL (calendar-feed edge function)
+--           listing their agreed bookings, to subscribe from Google, Apple or Outlook.
+--           The token is the only credential, so it can be rotated.
+--   Import  providers add external ICS URLs; calendar-sync fetches them and stores the
+--           busy time (no titles) in external_busy_blocks, which availability treats
+--           like any other commitment when matching providers to bookings.
+--
+-- Events coming from a Manito feed (UID ...@manito.cl) are dropped on import, so a
+-- provider who subscribes their Google calendar to the feed and imports it back does
+-- not block themselves twice.
+
+-- ============================================================================
+-- 1. FEED TOKENS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_accessed_at TIMESTAMPTZ
+);
+
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own calendar feed token" ON calendar_feed_tokens;
+CREATE POLICY "Users can view their own calendar feed token" ON calendar_feed_tokens
+  FOR SELECT USING (user_id = auth.uid());
+
+-- The caller's token, created on first use
+CREATE OR REPLACE FUNCTION get_calendar_feed_token()
+RETURNS TEXT AS $$
+DECLARE
+  v_token TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO calendar_feed_tokens (user_id) VALUES (auth.uid())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT token INTO v_token FROM calendar_feed_tokens WHERE user_id = auth.uid();
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A new token; calendars subscribed with the old URL stop updating
+CREATE OR REPLACE FUNCTION rotate_calendar_feed_token()
+RETURNS TEXT AS $$
+DECLARE
+  v_token TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO calendar_feed_tokens (user_id) VALUES (auth.uid())
+  ON CONFLICT (user_id) DO UPDATE
+    SET token = encode(gen_random_bytes(24), 'hex'), created_at = NOW(), last_accessed_at = NULL
+  RETURNING token INTO v_token;
+
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 2. FEED EVENTS
+-- ============================================================================
+--
+-- Bookings both parties agreed to, from 90 days back, with the other party's contact
+-- details: the provider sees the customer and the customer sees the provider. Called
+-- by calendar-feed with the service role; the token stands in for auth.uid().
+
+CREATE OR REPLACE FUNCTION get_calendar_feed_events(p_token TEXT)
+RETURNS TABLE (
+  booking_id UUID,
+  role TEXT,
+  status TEXT,
+  title TEXT,
+  description TEXT,
+  scheduled_date DATE,
+  time_start TIME,
+  time_end TIME,
+  address TEXT,
+  contact_name TEXT,
+  contact_phone TEXT,
+  contact_email TEXT,
+  customer_notes TEXT,
+  provider_notes TEXT,
+  updated_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  UPDATE calendar_feed_tokens t
+  SET last_accessed_at = NOW()
+  WHERE t.token = p_token
+  RETURNING t.user_id INTO v_user_id;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'feed_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    b.id,
+    CASE WHEN b.provider_id = v_user_id THEN 'provider' ELSE 'customer' END,
+    b.status::TEXT,
+    b.title,
+    b.description,
+    b.scheduled_date,
+    b.scheduled_time_start,
+    b.scheduled_time_end,
+    CONCAT_WS(', ', a.street, a.comuna, a.city),
+    other.full_name,
+    other.phone_number,
+    other.email,
+    b.customer_notes,
+    b.provider_notes,
+    COALESCE(b.updated_at, b.created_at, NOW())
+  FROM bookings b
+  JOIN users other ON other.id = CASE WHEN b.provider_id = v_user_id THEN b.customer_id ELSE b.provider_id END
+  LEFT JOIN addresses a ON a.id = b.address_id
+  WHERE (b.provider_id = v_user_id OR b.customer_id = v_user_id)
+    AND b.status IN ('accepted', 'confirmed', 'in_progress', 'completed', 'payment_released')
+    AND b.scheduled_date >= (NOW() AT TIME ZONE 'America/Santiago')::DATE - 90
+  ORDER BY b.scheduled_date, b.scheduled_time_start;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 3. EXTERNAL CALENDARS
+-- ============================================================================
+--
+-- Only https and webcal URLs are stored; calendar-sync also refuses hosts that resolve
+-- to loopback, private or link-local addresses.
+
+CREATE TABLE IF NOT EXISTS external_calendars (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_id UUID NOT NULL REFERENCES provider_profiles(user_id) ON DELETE CASCADE,
+  name TEXT NOT NULL DEFAULT 'Calendario externo',
+  url TEXT NOT NULL CHECK (url ~* '^(https|webcal)://'),
+  last_synced_at TIMESTAMPTZ,
+  last_error TEXT,
+  busy_block_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (provider_id, url)
+);
+
+CREATE TABLE IF NOT EXISTS external_busy_blocks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  calendar_id UUID NOT NULL REFERENCES external_calendars(id) ON DELETE CASCADE,
+  provider_id UUID NOT NULL REFERENCES provider_profiles(user_id) ON DELETE CASCADE,
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+
+  CONSTRAINT valid_busy_block CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_external_busy_blocks_provider
+  ON external_busy_blocks(provider_id, starts_at, ends_at);
+CREATE INDEX IF NOT EXISTS idx_external_busy_blocks_calendar
+  ON external_busy_blocks(calendar_id);
+
+DROP TRIGGER IF EXISTS update_external_calendars_updated_at ON external_calendars;
+CREATE TRIGGER update_external_calendars_updated_at
+  BEFORE UPDATE ON external_calendars
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE external_calendars ENABLE ROW LEVEL SECURITY;
+ALTER TABLE external_busy_blocks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Providers can manage their own external calendars" ON external_calendars;
+CREATE POLICY "Providers can manage their own external calendars" ON external_calendars
+  FOR ALL USING (provider_id = auth.uid()) WITH CHECK (provider_id = auth.uid());
+
+-- Written only by calendar-sync through replace_external_busy_blocks
+DROP POLICY IF EXISTS "Providers can view their own external busy blocks" ON external_busy_blocks;
+CREATE POLICY "Providers can view their own external busy blocks" ON external_busy_blocks
+  FOR SELECT USING (provider_id = auth.uid());
+
+-- Replaces a calendar's blocks with a fresh copy: [{"starts_at": ..., "ends_at": ...}].
+-- A failed fetch passes p_error instead and keeps the previous blocks, so a calendar
+-- that is briefly unreachable does not suddenly free the provider.
+CREATE OR REPLACE FUNCTION replace_external_busy_blocks(
+  p_calendar_id UUID,
+  p_blocks JSONB,
+  p_error TEXT DEFAULT NULL
+) RETURNS INTEGER AS $$
+DECLARE
+  v_provider_id UUID;
+  v_count INTEGER;
+BEGIN
+  SELECT provider_id INTO v_provider_id FROM external_calendars WHERE id = p_calendar_id;
+  IF v_provider_id IS NULL THEN
+    RAISE EXCEPTION 'calendar_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_error IS NOT NULL THEN
+    UPDATE external_calendars SET last_error = LEFT(p_error, 500) WHERE id = p_calendar_id;
+    RETURN 0;
+  END IF;
+
+  DELETE FROM external_busy_blocks WHERE calendar_id = p_calendar_id;
+
+  INSERT INTO external_busy_blocks (calendar_id, provider_id, starts_at, ends_at)
+  SELECT p_calendar_id, v_provider_id, (block->>'starts_at')::TIMESTAMPTZ, (block->>'ends_at')::TIMESTAMPTZ
+  FROM jsonb_array_elements(COALESCE(p_blocks, '[]'::JSONB)) AS block
+  WHERE (block->>'ends_at')::TIMESTAMPTZ > (block->>'starts_at')::TIMESTAMPTZ;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE external_calendars
+  SET last_synced_at = NOW(), last_error = NULL, busy_block_count = v_count
+  WHERE id = p_calendar_id;
+
+  DELETE FROM search_cache WHERE provider_ids @> ARRAY[v_provider_id];
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 4. AVAILABILITY
+-- ============================================================================
+--
+-- External busy time joins bookings and exceptions in provider_busy_intervals(),
+-- clipped to the day; no buffer is added since the event may not involve travel.
+
+CREATE OR REPLACE FUNCTION provider_busy_intervals(
+  p_provider_id UUID,
+  p_date DATE,
+  p_exclude_booking_id UUID DEFAULT NULL
+) RETURNS TABLE (
+  busy_start TIMESTAMP,
+  busy_end TIMESTAMP
+) AS $$
+  SELECT
+    p_date + b.scheduled_time_start - make_interval(mins => p.buffer_minutes),
+    p_date + b.scheduled_time_end + make_interval(mins => p.buffer_minutes)
+  FROM bookings b
+  JOIN provider_profiles p ON p.user_id = b.provider_id
+  WHERE b.provider_id = p_provider_id
+    AND b.scheduled_date = p_date
+    AND b.status NOT IN ('cancelled', 'no_show')
+    AND b.id IS DISTINCT FROM p_exclude_booking_id
+  UNION ALL
+  SELECT
+    p_date + COALESCE(e.time_start, TIME '00:00'),
+    CASE WHEN e.time_end IS NULL THEN p_date + 1 ELSE p_date + e.time_end END
+  FROM provider_availability_exceptions e
+  WHERE e.provider_id = p_provider_id
+    AND p_date BETWEEN e.starts_on AND e.ends_on
+  UNION ALL
+  SELECT
+    GREATEST(x.starts_at AT TIME ZONE 'America/Santiago', p_date::TIMESTAMP),
+    LEAST(x.ends_at AT TIME ZONE 'America/Santiago', (p_date + 1)::TIMESTAMP)
+  FROM external_busy_blocks x
+  WHERE x.provider_id = p_provider_id
+    AND x.starts_at < (p_date + 1)::TIMESTAMP AT TIME ZONE 'America/Santiago'
+    AND x.ends_at > p_date::TIMESTAMP AT TIME ZONE 'America/Santiago'
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION provider_schedule_conflict(
+  p_provider_id UUID,
+  p_date DATE,
+  p_start TIME,
+  p_end TIME,
+  p_exclude_booking_id UUID DEFAULT NULL
+) RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1
+      FROM provider_availability_exceptions e
+      WHERE e.provider_id = p_provider_id
+        AND p_date BETWEEN e.starts_on AND e.ends_on
+        AND (e.time_start IS NULL OR (e.time_start < p_end AND e.time_end > p_start))
+    ) THEN 'provider_unavailable'
+    WHEN EXISTS (
+      SELECT 1
+      FROM external_busy_blocks x
+      WHERE x.provider_id = p_provider_id
+        AND x.starts_at < (p_date + p_end) AT TIME ZONE 'America/Santiago'
+        AND x.ends_at > (p_date + p_start) AT TIME ZONE 'America/Santiago'
+    ) THEN 'provider_unavailable'
+    WHEN provider_day_is_full(p_provider_id, p_date, p_exclude_booking_id) THEN 'daily_limit_reached'
+    WHEN EXISTS (
+      SELECT 1
+      FROM provider_busy_intervals(p_provider_id, p_date, p_exclude_booking_id) bi
+      WHERE bi.busy_start < p_date + p_end
+        AND bi.busy_end > p_date + p_start
+    ) THEN 'slot_taken'
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- 5. PERMISSIONS AND SCHEDULE
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION get_calendar_feed_token() TO authenticated;
+GRANT EXECUTE ON FUNCTION rotate_calendar_feed_token() TO authenticated;
+REVOKE EXECUTE ON FUNCTION get_calendar_feed_events(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION replace_external_busy_blocks(UUID, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_calendar_feed_events(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION replace_external_busy_blocks(UUID, JSONB, TEXT) TO service_role;
+
+-- Hourly re-sync of external calendars where pg_cron and pg_net are available and the
+-- project URL and service key are configured as database settings
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+    AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net')
+    AND current_setting('app.settings.supabase_url', TRUE) IS NOT NULL
+    AND current_setting('app.settings.service_role_key', TRUE) IS NOT NULL THEN
+    PERFORM cron.schedule(
+      'external-calendar-sync',
+      '15 * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := current_setting('app.settings.supabase_url') || '/functions/v1/calendar-sync',
+          headers := jsonb_build_object(
+            'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key'),
+            'Content-Type', 'application/json'
+          ),
+          body := '{}'::JSONB
+        )
+      $cron$
+    );
+  END IF;
+END;
+$$;
+
+-- ============================================================================
+-- 6. COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE calendar_feed_tokens IS
+  'Secret token of each user''s iCalendar feed URL; rotating it invalidates subscribed calendars';
+COMMENT ON FUNCTION get_calendar_feed_events(TEXT) IS
+  'Agreed bookings of the feed owner with the other party''s contact details, for calendar-feed';
+COMMENT ON TABLE external_calendars IS
+  'ICS calendars a provider imports; their busy time blocks new bookings';
+COMMENT ON TABLE external_busy_blocks IS
+  'Busy time read from external_calendars by calendar-sync, without event details';
+COMMENT ON FUNCTION replace_external_busy_blocks(UUID, JSONB, TEXT) IS
+  'Swaps in the busy blocks of one sync, or records why the sync failed';
+COMMENT ON FUNCTION provider_busy_intervals(UUID, DATE, UUID) IS
+  'Bookings widened by buffer_minutes, exceptions and external busy time on a date, as local timestamps';
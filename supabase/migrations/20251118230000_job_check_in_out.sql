@@ -0,0 +1,301 @@
+-- Job Check-in and Check-out
+-- November 18, 2025
+--
+-- start_booking and complete_booking recorded when work started and ended, but not
+-- where, and nothing showed the state of the job before and after. Providers now
+-- document the visit with photos kept as evidence:
+--
+--   arrival     a 'before' photo, then start_booking with the arrival location
+--   on site     more 'before', 'during' or 'damage' photos
+--   departure   an 'after' photo, then complete_booking with the departure location
+--
+-- Photos are uploaded to the provider's folder of the job-photos bucket and attached
+-- with add_job_photo. Once attached they cannot be replaced or deleted; both parties
+-- see them, and a dispute on the booking lists them in its evidence_files.
+
+-- ============================================================================
+-- 1. LOCATIONS
+-- ============================================================================
+
+-- {"lat": -33.45, "lng": -70.66, "accuracy": 12, "timestamp": "..."}, as GeoLocation in the app
+CREATE OR REPLACE FUNCTION valid_geo_location(p_location JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT CASE
+    WHEN p_location IS NULL THEN TRUE
+    WHEN jsonb_typeof(p_location) != 'object'
+      OR jsonb_typeof(p_location->'lat') IS DISTINCT FROM 'number'
+      OR jsonb_typeof(p_location->'lng') IS DISTINCT FROM 'number' THEN FALSE
+    WHEN p_location ? 'accuracy' AND jsonb_typeof(p_location->'accuracy') != 'number' THEN FALSE
+    ELSE (p_location->>'lat')::NUMERIC BETWEEN -90 AND 90
+      AND (p_location->>'lng')::NUMERIC BETWEEN -180 AND 180
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS check_in_location JSONB,
+  ADD COLUMN IF NOT EXISTS check_out_location JSONB;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS valid_check_locations;
+ALTER TABLE bookings
+  ADD CONSTRAINT valid_check_locations CHECK (
+    valid_geo_location(check_in_location) AND valid_geo_location(check_out_location)
+  );
+
+-- ============================================================================
+-- 2. JOB PHOTOS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS job_photos (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Evidence: a booking or user with job photos cannot be deleted, as with disputes
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE RESTRICT,
+  provider_id UUID NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+  customer_id UUID NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+  photo_type TEXT NOT NULL CHECK (photo_type IN ('before', 'during', 'after', 'damage', 'completion')),
+  storage_bucket TEXT NOT NULL DEFAULT 'job-photos' CHECK (storage_bucket = 'job-photos'),
+  file_path TEXT NOT NULL UNIQUE,
+  thumbnail_path TEXT,
+  original_filename TEXT NOT NULL,
+  file_size INTEGER NOT NULL CHECK (file_size > 0),
+  mime_type TEXT NOT NULL,
+  image_dimensions JSONB,
+  caption TEXT CHECK (LENGTH(caption) <= 280),
+  -- When the camera took it; created_at is when the server received it
+  taken_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  geo_location JSONB CHECK (valid_geo_location(geo_location)),
+  upload_status TEXT NOT NULL DEFAULT 'uploaded'
+    CHECK (upload_status IN ('uploading', 'uploaded', 'processing', 'optimized', 'verified', 'failed')),
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_photos_booking ON job_photos(booking_id, taken_at);
+
+DROP TRIGGER IF EXISTS update_job_photos_updated_at ON job_photos;
+CREATE TRIGGER update_job_photos_updated_at
+  BEFORE UPDATE ON job_photos
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE job_photos ENABLE ROW LEVEL SECURITY;
+
+-- Written by add_job_photo only, and never changed by users
+DROP POLICY IF EXISTS "Booking participants can view job photos" ON job_photos;
+CREATE POLICY "Booking participants can view job photos" ON job_photos
+  FOR SELECT USING (auth.uid() IN (customer_id, provider_id));
+
+-- ============================================================================
+-- 3. STORAGE
+-- ============================================================================
+
+-- Providers upload to job-photos/<provider id>/<booking id>/... under the existing
+-- own-folder policy; customers see the files once they are attached to their booking
+DROP POLICY IF EXISTS "Booking participants can view attached job photos" ON storage.objects;
+CREATE POLICY "Booking participants can view attached job photos" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'job-photos'
+    AND EXISTS (
+      SELECT 1 FROM job_photos jp
+      WHERE jp.file_path = storage.objects.name
+        AND auth.uid() IN (jp.customer_id, jp.provider_id)
+    )
+  );
+
+-- The own-folder policy allows every operation; attached photos are evidence, so
+-- these restrictive policies keep their files from being overwritten or deleted
+DROP POLICY IF EXISTS "Attached job photos cannot be replaced" ON storage.objects;
+CREATE POLICY "Attached job photos cannot be replaced" ON storage.objects
+  AS RESTRICTIVE FOR UPDATE TO authenticated
+  USING (
+    bucket_id != 'job-photos'
+    OR NOT EXISTS (SELECT 1 FROM job_photos jp WHERE jp.file_path = storage.objects.name)
+  );
+
+DROP POLICY IF EXISTS "Attached job photos cannot be deleted" ON storage.objects;
+CREATE POLICY "Attached job photos cannot be deleted" ON storage.objects
+  AS RESTRICTIVE FOR DELETE TO authenticated
+  USING (
+    bucket_id != 'job-photos'
+    OR NOT EXISTS (SELECT 1 FROM job_photos jp WHERE jp.file_path = storage.objects.name)
+  );
+
+-- ============================================================================
+-- 4. COMMANDS
+-- ============================================================================
+
+-- 'before' photos from the check-in window on (they come before start_booking), the
+-- rest while the job is in progress
+CREATE OR REPLACE FUNCTION add_job_photo(
+  p_booking_id UUID,
+  p_photo_type TEXT,
+  p_file_path TEXT,
+  p_original_filename TEXT,
+  p_file_size INTEGER,
+  p_mime_type TEXT,
+  p_taken_at TIMESTAMPTZ DEFAULT NULL,
+  p_geo_location JSONB DEFAULT NULL,
+  p_image_dimensions JSONB DEFAULT NULL,
+  p_caption TEXT DEFAULT NULL
+)
+RETURNS job_photos AS $$
+DECLARE
+  v_booking bookings;
+  v_photo job_photos;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND OR auth.uid() IS NULL OR auth.uid() NOT IN (v_booking.customer_id, v_booking.provider_id) THEN
+    RAISE EXCEPTION 'booking_not_found' USING ERRCODE = 'P0002';
+  END IF;
+  IF auth.uid() != v_booking.provider_id THEN
+    RAISE EXCEPTION 'provider_only' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_booking.status IN ('accepted', 'confirmed') THEN
+    IF p_photo_type != 'before' THEN
+      RAISE EXCEPTION 'job_not_started' USING ERRCODE = 'P0001';
+    END IF;
+    IF NOW() < booking_starts_at(v_booking.scheduled_date, v_booking.scheduled_time_start) - INTERVAL '1 hour' THEN
+      RAISE EXCEPTION 'booking_too_early' USING ERRCODE = 'P0001';
+    END IF;
+  ELSIF v_booking.status != 'in_progress' THEN
+    RAISE EXCEPTION 'job_photos_closed' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Only files the provider uploaded to their own folder
+  IF (string_to_array(p_file_path, '/'))[1] IS DISTINCT FROM auth.uid()::TEXT
+    OR NOT EXISTS (
+      SELECT 1 FROM storage.objects o
+      WHERE o.bucket_id = 'job-photos' AND o.name = p_file_path
+    ) THEN
+    RAISE EXCEPTION 'photo_not_uploaded' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO job_photos (
+    booking_id, provider_id, customer_id, photo_type, file_path, original_filename,
+    file_size, mime_type, image_dimensions, caption, taken_at, geo_location
+  )
+  VALUES (
+    v_booking.id, v_booking.provider_id, v_booking.customer_id, p_photo_type, p_file_path, p_original_filename,
+    p_file_size, p_mime_type, p_image_dimensions, NULLIF(TRIM(p_caption), ''),
+    LEAST(COALESCE(p_taken_at, NOW()), NOW()), p_geo_location
+  )
+  RETURNING * INTO v_photo;
+
+  RETURN v_photo;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Check-in now needs a 'before' photo and records where the provider arrived
+DROP FUNCTION IF EXISTS start_booking(UUID);
+CREATE OR REPLACE FUNCTION start_booking(p_booking_id UUID, p_location JSONB DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_booking bookings := lock_booking_for_command(p_booking_id, 'start_booking');
+BEGIN
+  IF auth.uid() != v_booking.provider_id THEN
+    RAISE EXCEPTION 'provider_only' USING ERRCODE = '42501';
+  END IF;
+  IF v_booking.status NOT IN ('accepted', 'confirmed') THEN
+    RAISE EXCEPTION 'invalid_booking_transition' USING ERRCODE = 'P0001';
+  END IF;
+  IF NOW() < booking_starts_at(v_booking.scheduled_date, v_booking.scheduled_time_start) - INTERVAL '1 hour' THEN
+    RAISE EXCEPTION 'booking_too_early' USING ERRCODE = 'P0001';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM job_photos WHERE booking_id = p_booking_id AND photo_type = 'before') THEN
+    RAISE EXCEPTION 'before_photos_required' USING ERRCODE = 'P0001';
+  END IF;
+  IF NOT valid_geo_location(p_location) THEN
+    RAISE EXCEPTION 'invalid_location' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE bookings
+  SET status = 'in_progress',
+      started_at = NOW(),
+      check_in_location = p_location
+  WHERE id = p_booking_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Check-out now needs an 'after' photo; the after photos also fill completion_photos
+DROP FUNCTION IF EXISTS complete_booking(UUID, TEXT);
+CREATE OR REPLACE FUNCTION complete_booking(
+  p_booking_id UUID,
+  p_provider_notes TEXT DEFAULT NULL,
+  p_location JSONB DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_booking bookings := lock_booking_for_command(p_booking_id, 'complete_booking');
+BEGIN
+  IF auth.uid() != v_booking.provider_id THEN
+    RAISE EXCEPTION 'provider_only' USING ERRCODE = '42501';
+  END IF;
+  IF v_booking.status != 'in_progress' THEN
+    RAISE EXCEPTION 'invalid_booking_transition' USING ERRCODE = 'P0001';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM job_photos WHERE booking_id = p_booking_id AND photo_type IN ('after', 'completion')
+  ) THEN
+    RAISE EXCEPTION 'after_photos_required' USING ERRCODE = 'P0001';
+  END IF;
+  IF NOT valid_geo_location(p_location) THEN
+    RAISE EXCEPTION 'invalid_location' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE bookings
+  SET status = 'completed',
+      completed_at = NOW(),
+      check_out_location = p_location,
+      completion_photos = ARRAY(
+        SELECT jp.file_path FROM job_photos jp
+        WHERE jp.booking_id = p_booking_id AND jp.photo_type IN ('after', 'completion')
+        ORDER BY jp.taken_at
+      ),
+      provider_notes = COALESCE(NULLIF(TRIM(p_provider_notes), ''), provider_notes)
+  WHERE id = p_booking_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION add_job_photo(UUID, TEXT, TEXT, TEXT, INTEGER, TEXT, TIMESTAMPTZ, JSONB, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION start_booking(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION complete_booking(UUID, TEXT, JSONB) TO authenticated;
+
+-- ============================================================================
+-- 5. DISPUTES
+-- ============================================================================
+
+-- The job photos become evidence of any dispute opened on the booking, after the
+-- files the complainant attached
+CREATE OR REPLACE FUNCTION attach_job_photos_to_dispute()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.evidence_files := COALESCE(NEW.evidence_files, '{}') || ARRAY(
+    SELECT jp.file_path
+    FROM job_photos jp
+    WHERE jp.booking_id = NEW.booking_id
+      AND jp.file_path != ALL(COALESCE(NEW.evidence_files, '{}'))
+    ORDER BY jp.taken_at
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_attach_job_photos_to_dispute ON disputes;
+CREATE TRIGGER trigger_attach_job_photos_to_dispute
+  BEFORE INSERT ON disputes
+  FOR EACH ROW EXECUTE FUNCTION attach_job_photos_to_dispute();
+
+-- ============================================================================
+-- 6. COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE job_photos IS
+  'Before, during and after photos of a booking, taken by the provider on site; kept as dispute evidence';
+COMMENT ON COLUMN job_photos.taken_at IS 'When the photo was taken, as reported by the device (never in the future)';
+COMMENT ON COLUMN bookings.check_in_location IS 'Where the provider was when start_booking ran, if the device reported it';
+COMMENT ON COLUMN bookings.check_out_location IS 'Where the provider was when complete_booking ran, if the device reported it';
+COMMENT ON FUNCTION add_job_photo(UUID, TEXT, TEXT, TEXT, INTEGER, TEXT, TIMESTAMPTZ, JSONB, JSONB, TEXT) IS
+  'Attaches a photo the provider uploaded to job-photos to their booking';
+COMMENT ON FUNCTION attach_job_photos_to_dispute() IS 'Adds the booking''s job photos to a new dispute''s evidence_files';
@@ -0,0 +1,256 @@
+-- Care Instructions at Job Completion
+-- November 19, 2025
+--
+-- The app ships care instruction templates per service category (filters, sealants,
+-- maintenance) but they only reached the customer printed on the quote PDF. The
+-- provider now picks the ones that apply, or writes their own, when checking out:
+--
+--   complete_booking   saves them with the booking and the home (address) it was done
+--                      at, and notifies the customer
+--   run_care_reminders turns the time-based ones ("cada 3 meses", "en 6 meses") into
+--                      notifications when they are due, daily
+--
+-- The app works out each instruction's reminder from its text; the database only
+-- checks and schedules it. Customers can stop a reminder with stop_care_reminder.
+
+-- ============================================================================
+-- 1. NOTIFICATION TYPES
+-- ============================================================================
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'care_instructions';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'care_reminder';
+
+-- ============================================================================
+-- 2. CARE INSTRUCTIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS booking_care_instructions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  provider_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- The customer's home record: instructions stay with the address after the booking
+  address_id UUID REFERENCES addresses(id) ON DELETE SET NULL,
+  -- Template id from careInstructionTemplates.ts, NULL when the provider wrote it
+  template_id TEXT,
+  text TEXT NOT NULL CHECK (LENGTH(TRIM(text)) BETWEEN 1 AND 280),
+  position INTEGER NOT NULL DEFAULT 0,
+  reminder_months INTEGER CHECK (reminder_months BETWEEN 1 AND 60),
+  reminder_repeats BOOLEAN NOT NULL DEFAULT FALSE,
+  -- NULL once a one-time reminder was sent or the customer stopped it
+  next_reminder_on DATE,
+  last_reminded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT reminder_needs_interval CHECK (next_reminder_on IS NULL OR reminder_months IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_care_instructions_booking
+  ON booking_care_instructions(booking_id, position);
+CREATE INDEX IF NOT EXISTS idx_booking_care_instructions_address
+  ON booking_care_instructions(address_id) WHERE address_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_booking_care_instructions_due
+  ON booking_care_instructions(next_reminder_on) WHERE next_reminder_on IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_booking_care_instructions_updated_at ON booking_care_instructions;
+CREATE TRIGGER update_booking_care_instructions_updated_at
+  BEFORE UPDATE ON booking_care_instructions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE booking_care_instructions ENABLE ROW LEVEL SECURITY;
+
+-- Written by complete_booking, run_care_reminders and stop_care_reminder only
+DROP POLICY IF EXISTS "Booking participants can view care instructions" ON booking_care_instructions;
+CREATE POLICY "Booking participants can view care instructions" ON booking_care_instructions
+  FOR SELECT USING (auth.uid() IN (customer_id, provider_id));
+
+-- ============================================================================
+-- 3. COMMANDS
+-- ============================================================================
+
+-- Check-out also saves the care instructions the provider picked:
+-- [{ "template_id": "agua_08" | null, "text": "...", "reminder_months": 3 | null, "reminder_repeats": true }]
+DROP FUNCTION IF EXISTS complete_booking(UUID, TEXT, JSONB);
+CREATE OR REPLACE FUNCTION complete_booking(
+  p_booking_id UUID,
+  p_provider_notes TEXT DEFAULT NULL,
+  p_location JSONB DEFAULT NULL,
+  p_care_instructions JSONB DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_booking bookings := lock_booking_for_command(p_booking_id, 'complete_booking');
+  v_completed_on DATE := (NOW() AT TIME ZONE 'America/Santiago')::DATE;
+  v_item JSONB;
+  v_position INTEGER := 0;
+  v_text TEXT;
+  v_months INTEGER;
+BEGIN
+  IF auth.uid() != v_booking.provider_id THEN
+    RAISE EXCEPTION 'provider_only' USING ERRCODE = '42501';
+  END IF;
+  IF v_booking.status != 'in_progress' THEN
+    RAISE EXCEPTION 'invalid_booking_transition' USING ERRCODE = 'P0001';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM job_photos WHERE booking_id = p_booking_id AND photo_type IN ('after', 'completion')
+  ) THEN
+    RAISE EXCEPTION 'after_photos_required' USING ERRCODE = 'P0001';
+  END IF;
+  IF NOT valid_geo_location(p_location) THEN
+    RAISE EXCEPTION 'invalid_location' USING ERRCODE = '22023';
+  END IF;
+  IF p_care_instructions IS NOT NULL AND (
+    JSONB_TYPEOF(p_care_instructions) != 'array' OR JSONB_ARRAY_LENGTH(p_care_instructions) > 20
+  ) THEN
+    RAISE EXCEPTION 'invalid_care_instructions' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_item IN SELECT * FROM JSONB_ARRAY_ELEMENTS(COALESCE(p_care_instructions, '[]'::JSONB)) LOOP
+    v_text := TRIM(v_item->>'text');
+    v_months := CASE WHEN JSONB_TYPEOF(v_item->'reminder_months') = 'number'
+      THEN (v_item->>'reminder_months')::NUMERIC::INTEGER END;
+
+    IF JSONB_TYPEOF(v_item) != 'object'
+      OR COALESCE(LENGTH(v_text), 0) NOT BETWEEN 1 AND 280
+      OR (v_item ? 'reminder_months' AND JSONB_TYPEOF(v_item->'reminder_months') != 'null'
+        AND COALESCE(v_months, 0) NOT BETWEEN 1 AND 60) THEN
+      RAISE EXCEPTION 'invalid_care_instructions' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO booking_care_instructions (
+      booking_id, customer_id, provider_id, address_id, template_id, text, position,
+      reminder_months, reminder_repeats, next_reminder_on
+    ) VALUES (
+      p_booking_id, v_booking.customer_id, v_booking.provider_id, v_booking.address_id,
+      NULLIF(TRIM(v_item->>'template_id'), ''), v_text, v_position,
+      v_months, v_months IS NOT NULL AND COALESCE(v_item->'reminder_repeats' = 'true'::JSONB, FALSE),
+      v_completed_on + MAKE_INTERVAL(months => v_months)
+    );
+    v_position := v_position + 1;
+  END LOOP;
+
+  UPDATE bookings
+  SET status = 'completed',
+      completed_at = NOW(),
+      check_out_location = p_location,
+      completion_photos = ARRAY(
+        SELECT jp.file_path FROM job_photos jp
+        WHERE jp.booking_id = p_booking_id AND jp.photo_type IN ('after', 'completion')
+        ORDER BY jp.taken_at
+      ),
+      provider_notes = COALESCE(NULLIF(TRIM(p_provider_notes), ''), provider_notes)
+  WHERE id = p_booking_id;
+
+  IF v_position > 0 THEN
+    INSERT INTO notifications (user_id, type, title, message, booking_id)
+    VALUES (
+      v_booking.customer_id,
+      'care_instructions',
+      'Cuidados después del servicio',
+      CASE WHEN v_position = 1
+        THEN 'Tu profesional dejó una indicación de cuidado para "' || v_booking.title || '"'
+        ELSE 'Tu profesional dejó ' || v_position || ' indicaciones de cuidado para "' || v_booking.title || '"'
+      END,
+      p_booking_id
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The customer no longer wants to be reminded; the instruction itself is kept
+CREATE OR REPLACE FUNCTION stop_care_reminder(p_instruction_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_customer_id UUID;
+BEGIN
+  SELECT customer_id INTO v_customer_id
+  FROM booking_care_instructions
+  WHERE id = p_instruction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'care_instruction_not_found' USING ERRCODE = 'P0002';
+  END IF;
+  IF auth.uid() != v_customer_id THEN
+    RAISE EXCEPTION 'customer_only' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE booking_care_instructions
+  SET next_reminder_on = NULL
+  WHERE id = p_instruction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION complete_booking(UUID, TEXT, JSONB, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION stop_care_reminder(UUID) TO authenticated;
+
+-- ============================================================================
+-- 4. REMINDERS
+-- ============================================================================
+
+-- Notifies the customer of every reminder due today (Chilean date) and schedules the
+-- next one for repeating instructions; a run missed for days sends each reminder once
+CREATE OR REPLACE FUNCTION run_care_reminders()
+RETURNS INTEGER AS $$
+DECLARE
+  v_today DATE := (NOW() AT TIME ZONE 'America/Santiago')::DATE;
+  v_sent INTEGER;
+BEGIN
+  WITH due AS (
+    SELECT ci.id, ci.customer_id, ci.booking_id, ci.text, b.title
+    FROM booking_care_instructions ci
+    INNER JOIN bookings b ON b.id = ci.booking_id
+    WHERE ci.next_reminder_on <= v_today
+    FOR UPDATE OF ci SKIP LOCKED
+  ),
+  sent AS (
+    INSERT INTO notifications (user_id, type, title, message, booking_id)
+    SELECT due.customer_id, 'care_reminder', 'Recordatorio de mantención',
+      due.text || ' (' || due.title || ')', due.booking_id
+    FROM due
+    RETURNING 1
+  )
+  UPDATE booking_care_instructions ci
+  SET last_reminded_at = NOW(),
+      next_reminder_on = CASE WHEN ci.reminder_repeats THEN (
+        SELECT MIN(next_on)::DATE
+        FROM GENERATE_SERIES(
+          ci.next_reminder_on::TIMESTAMP,
+          v_today::TIMESTAMP + MAKE_INTERVAL(months => ci.reminder_months),
+          MAKE_INTERVAL(months => ci.reminder_months)
+        ) AS next_on
+        WHERE next_on::DATE > v_today
+      ) END
+  FROM due
+  WHERE ci.id = due.id;
+
+  GET DIAGNOSTICS v_sent = ROW_COUNT;
+  RETURN v_sent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the scheduler (service role) runs the job
+REVOKE EXECUTE ON FUNCTION run_care_reminders() FROM PUBLIC, anon, authenticated;
+
+-- Daily at 12:00 UTC (morning in Chile) where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('care-reminders', '0 12 * * *', 'SELECT run_care_reminders()');
+  END IF;
+END;
+$$;
+
+-- ============================================================================
+-- 5. COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE booking_care_instructions IS
+  'Care instructions the provider left when completing a booking, kept with the customer''s address';
+COMMENT ON COLUMN booking_care_instructions.reminder_months IS
+  'Months until the reminder (from the completion date), as read from the text by the app; NULL if not time-based';
+COMMENT ON COLUMN booking_care_instructions.reminder_repeats IS
+  'TRUE for "cada N meses" instructions, FALSE for one-time ones such as "en 6 meses"';
+COMMENT ON FUNCTION run_care_reminders() IS 'Sends due care reminders as notifications; run daily by pg_cron';
+COMMENT ON FUNCTION stop_care_reminder(UUID) IS 'Customer stops the reminders of one of their care instructions';